@@ -3,6 +3,8 @@ import { AuthProvider, useAuth } from './contexts/AuthContext';
 import { ToastProvider } from './contexts/ToastContext';
 import { PageCacheProvider } from './contexts/PageCacheContext';
 import { OrgProvider, useOrg } from './contexts/OrgContext';
+import { PermissionsProvider, usePermissions } from './contexts/PermissionsContext';
+import { PERMISSIONS, PermissionKey, PermissionAction } from './lib/permissions';
 import SignIn from './components/SignIn';
 import ResetPassword from './components/ResetPassword';
 import Layout from './components/Layout';
@@ -19,8 +21,15 @@ import AcumaticaInvoices from './components/AcumaticaInvoices';
 import AcumaticaPayments from './components/AcumaticaPayments';
 import InvoiceStatusAnalytics from './components/InvoiceStatusAnalytics';
 import PaymentAnalytics from './components/PaymentAnalytics';
+import PaymentMatching from './components/PaymentMatching';
+import RemittanceImport from './components/RemittanceImport';
+import CreditManagement from './components/CreditManagement';
+import OnlinePayments from './components/OnlinePayments';
+import PaymentPromises from './components/PaymentPromises';
 import CustomerReportsMonthly from './components/CustomerReportsMonthly';
 import CustomerReportTemplates from './components/CustomerReportTemplates';
+import PdfTemplates from './components/PdfTemplates';
+import StatementRuns from './components/StatementRuns';
 import CustomerEmailTracking from './components/CustomerEmailTracking';
 import SystemDocumentation from './components/SystemDocumentation';
 import WebhookConfiguration from './components/WebhookConfiguration';
@@ -51,6 +60,7 @@ import CollectionTicketing from './components/CollectionTicketing';
 import MyAssignments from './components/MyAssignments';
 import CollectorHub from './components/CollectorHub';
 import RevenueAnalytics from './components/RevenueAnalytics';
+import CashForecast from './components/CashForecast';
 import CustomerAnalyticsPage from './components/CustomerAnalyticsPage';
 import UserActivityAnalytics from './components/UserActivityAnalytics';
 import EmailAnalytics from './components/EmailAnalytics';
@@ -76,6 +86,9 @@ import TicketStatusManagement from './components/TicketStatusManagement';
 import InvoiceColorStatusManagement from './components/InvoiceColorStatusManagement';
 import SyncHealthDashboard from './components/SyncHealthDashboard';
 import AutoTicketRules from './components/AutoTicketRules';
+import DunningSequences from './components/DunningSequences';
+import InvoiceDisputes from './components/InvoiceDisputes';
+import CustomerPortal from './components/CustomerPortal';
 import VoidedPaymentAnalysis from './components/VoidedPaymentAnalysis';
 import VoidedPaymentsByDate from './components/VoidedPaymentsByDate';
 import Last15DaysPaymentFetch from './components/Last15DaysPaymentFetch';
@@ -86,6 +99,7 @@ import EmailSettings from './components/EmailSettings';
 import TicketDetailPage from './components/TicketDetailPage';
 import CustomerStatements from './components/CustomerStatements';
 import ApiKeyManagement from './components/ApiKeyManagement';
+import RoleManagement from './components/RoleManagement';
 import CronJobsMonitor from './components/CronJobsMonitor';
 import InvoiceAnalyticsPage from './components/InvoiceAnalyticsPage';
 import LandingPage from './components/LandingPage';
@@ -131,6 +145,32 @@ function RequireAdmin({ children }: { children: JSX.Element }) {
   return children;
 }
 
+// Same idea for pages governed by a configurable permission; the matching
+// RLS policies / edge-function checks enforce it on the backend.
+function RequirePermission({
+  permission,
+  action = 'view',
+  children,
+}: {
+  permission: PermissionKey;
+  action?: PermissionAction;
+  children: JSX.Element;
+}) {
+  const { loading, can } = usePermissions();
+  if (loading) {
+    return <LoadingScreen />;
+  }
+  if (!can(permission, action)) {
+    return (
+      <div className="min-h-[60vh] flex flex-col items-center justify-center text-center p-8">
+        <p className="text-lg font-semibold text-gray-900">Access restricted</p>
+        <p className="text-sm text-gray-500 mt-1">Your role doesn’t include access to this page.</p>
+      </div>
+    );
+  }
+  return children;
+}
+
 function OrgAppContent() {
   const { orgSlug } = useParams<{ orgSlug: string }>();
   const { user, profile, loading } = useAuth();
@@ -172,6 +212,10 @@ function OrgAppContent() {
         <Route path="invoice-analytics" element={<InvoiceAnalyticsPage />} />
         <Route path="payment-analytics" element={<PaymentAnalytics />} />
         <Route path="payment-breakdown" element={<PaymentBreakdown />} />
+        <Route path="payment-matching" element={<PaymentMatching onBack={() => window.history.back()} />} />
+        <Route path="remittance-import" element={<RemittanceImport onBack={() => window.history.back()} />} />
+        <Route path="online-payments" element={<OnlinePayments onBack={() => window.history.back()} />} />
+        <Route path="payment-promises" element={<PaymentPromises onBack={() => window.history.back()} />} />
         <Route path="invoice-breakdown" element={<InvoiceBreakdown />} />
         <Route path="voided-payment-analysis" element={<VoidedPaymentAnalysis />} />
         <Route path="voided-payments-by-date" element={<VoidedPaymentsByDate />} />
@@ -181,8 +225,12 @@ function OrgAppContent() {
         <Route path="invoice-status-admin" element={<RequireAdmin><InvoiceStatusAdminPanel /></RequireAdmin>} />
         <Route path="invoice-status-analytics" element={<InvoiceStatusAnalytics />} />
         <Route path="customer-reports" element={<CustomerReportsMonthly />} />
-        <Route path="customer-statements" element={<CustomerStatements />} />
+        <Route path="customer-statements" element={<RequirePermission permission={PERMISSIONS.STATEMENTS}><CustomerStatements /></RequirePermission>} />
+        <Route path="statement-runs" element={<RequirePermission permission={PERMISSIONS.STATEMENTS}><StatementRuns onBack={() => window.history.back()} /></RequirePermission>} />
+        <Route path="invoice-disputes" element={<RequirePermission permission={PERMISSIONS.INVOICE_DISPUTES}><InvoiceDisputes onBack={() => window.history.back()} /></RequirePermission>} />
+        <Route path="credit-management" element={<RequirePermission permission={PERMISSIONS.CREDIT_MANAGEMENT}><CreditManagement onBack={() => window.history.back()} /></RequirePermission>} />
         <Route path="customer-report-templates" element={<CustomerReportTemplates />} />
+        <Route path="pdf-templates" element={<RequirePermission permission={PERMISSIONS.STATEMENTS}><PdfTemplates onBack={() => window.history.back()} /></RequirePermission>} />
         <Route path="customer-email-tracking" element={<CustomerEmailTracking />} />
         <Route path="system-documentation" element={<SystemDocumentation />} />
         <Route path="acumatica-files-test" element={<AcumaticaFilesTest />} />
@@ -210,6 +258,7 @@ function OrgAppContent() {
         <Route path="my-assignments" element={<MyAssignments />} />
         <Route path="collector-performance" element={<CollectorHub />} />
         <Route path="revenue-analytics" element={<RevenueAnalytics />} />
+        <Route path="cash-forecast" element={<CashForecast onBack={() => window.history.back()} />} />
         <Route path="customer-analytics" element={<CustomerAnalyticsPage />} />
         <Route path="user-activity" element={<UserActivityAnalytics />} />
         <Route path="email-analytics" element={<EmailAnalytics />} />
@@ -234,11 +283,13 @@ function OrgAppContent() {
         <Route path="force-delete-user" element={<RequireAdmin><ForceDeleteUser onBack={() => window.history.back()} /></RequireAdmin>} />
         <Route path="ticket-status-settings" element={<TicketStatusManagement onBack={() => window.history.back()} />} />
         <Route path="invoice-color-settings" element={<InvoiceColorStatusManagement onBack={() => window.history.back()} />} />
-        <Route path="auto-ticket-rules" element={<AutoTicketRules onBack={() => window.history.back()} />} />
+        <Route path="auto-ticket-rules" element={<RequirePermission permission={PERMISSIONS.AUTO_TICKET_RULES}><AutoTicketRules onBack={() => window.history.back()} /></RequirePermission>} />
+        <Route path="dunning-sequences" element={<DunningSequences onBack={() => window.history.back()} />} />
         <Route path="sync-health" element={<SyncHealthDashboard />} />
         <Route path="last-15-days-payments" element={<Last15DaysPaymentFetch />} />
         <Route path="email-settings" element={<RequireAdmin><EmailSettings /></RequireAdmin>} />
-        <Route path="api-keys" element={<RequireAdmin><ApiKeyManagement /></RequireAdmin>} />
+        <Route path="api-keys" element={<RequirePermission permission={PERMISSIONS.API_KEYS}><ApiKeyManagement /></RequirePermission>} />
+        <Route path="roles" element={<RequirePermission permission={PERMISSIONS.ADMIN_ROLES}><RoleManagement onBack={() => window.history.back()} /></RequirePermission>} />
         <Route path="cron-jobs" element={<CronJobsMonitor />} />
       </Route>
 
@@ -282,10 +333,12 @@ function OrgGate() {
 
   return (
     <PageCacheProvider>
-      <TourProvider>
-        <OrgAppContent />
-        <TourOverlay />
-      </TourProvider>
+      <PermissionsProvider>
+        <TourProvider>
+          <OrgAppContent />
+          <TourOverlay />
+        </TourProvider>
+      </PermissionsProvider>
     </PageCacheProvider>
   );
 }
@@ -307,6 +360,7 @@ function App() {
             <Route path="/" element={<Navigate to="/demo" replace />} />
             <Route path="/developer" element={<SuperAdminDashboard />} />
             <Route path="/connection-test" element={<ConnectionDiagnostic />} />
+            <Route path="/portal/:token" element={<CustomerPortal />} />
             <Route path="/:orgSlug/*" element={<OrgWrapper />} />
           </Routes>
         </AuthProvider>
@@ -7,6 +7,8 @@ import AcumaticaInvoiceTest from './AcumaticaInvoiceTest';
 import CustomerDetailView from './CustomerDetailView';
 import AssignCustomerModal from './AssignCustomerModal';
 import QuickFilterManager from './QuickFilterManager';
+import CustomerRiskBadge from './CustomerRiskBadge';
+import { CustomerRiskScore, fetchCustomerRiskScores } from '../lib/customerRisk';
 import { formatDate as formatDateUtil } from '../lib/dateUtils';
 import { exportToExcel } from '../lib/excelExport';
 
@@ -111,6 +113,7 @@ export default function AcumaticaCustomers({ onBack }: AcumaticaCustomersProps)
   const [excludeCreditMemos, setExcludeCreditMemos] = useState(false);
   const [customQuickFilters, setCustomQuickFilters] = useState<any[]>([]);
   const [showQuickFilterManager, setShowQuickFilterManager] = useState(false);
+  const [riskScores, setRiskScores] = useState<Map<string, CustomerRiskScore>>(new Map());
   const observer = useRef<IntersectionObserver | null>(null);
   const topScrollRef = useRef<HTMLDivElement>(null);
   const tableScrollRef = useRef<HTMLDivElement>(null);
@@ -121,6 +124,9 @@ export default function AcumaticaCustomers({ onBack }: AcumaticaCustomersProps)
     loadExcludedCustomers();
     loadSavedFilters();
     loadCustomQuickFilters();
+    fetchCustomerRiskScores()
+      .then(setRiskScores)
+      .catch(error => console.error('Error loading customer risk scores:', error));
     const bannerDismissed = localStorage.getItem('customers_exclusionBannerDismissed');
     if (bannerDismissed === 'true') {
       setExclusionBannerDismissed(true);
@@ -1425,6 +1431,7 @@ export default function AcumaticaCustomers({ onBack }: AcumaticaCustomersProps)
                       <option value="customer_name">Name</option>
                       <option value="customer_id">Customer ID</option>
                       <option value="balance">Balance</option>
+                      <option value="risk_score">Risk Score</option>
                       <option value="city">City</option>
                       <option value="country">Country</option>
                     </select>
@@ -1710,6 +1717,14 @@ export default function AcumaticaCustomers({ onBack }: AcumaticaCustomersProps)
                         Open Invoices {getSortIcon('open_invoices')}
                       </div>
                     </th>
+                    <th
+                      onClick={() => handleColumnSort('risk_score')}
+                      className="px-6 py-3 text-center text-xs font-medium text-gray-600 uppercase tracking-wider cursor-pointer hover:text-gray-700 transition-colors"
+                    >
+                      <div className="flex items-center justify-center">
+                        Risk {getSortIcon('risk_score')}
+                      </div>
+                    </th>
                     <th className="px-6 py-3 text-center text-xs font-medium text-gray-600 uppercase tracking-wider">
                       Invoice Colors
                     </th>
@@ -1817,6 +1832,12 @@ export default function AcumaticaCustomers({ onBack }: AcumaticaCustomersProps)
                           {customer.open_invoice_count || 0}
                         </span>
                       </td>
+                      <td
+                        className="px-6 py-4 whitespace-nowrap text-center cursor-pointer"
+                        onClick={() => setSearchParams({ customer: customer.customer_id })}
+                      >
+                        <CustomerRiskBadge risk={riskScores.get(customer.customer_id)} />
+                      </td>
                       <td
                         className="px-6 py-4 whitespace-nowrap text-center cursor-pointer"
                         onClick={() => setSearchParams({ customer: customer.customer_id })}
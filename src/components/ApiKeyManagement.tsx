@@ -12,6 +12,16 @@ interface ApiKey {
   usage_count: number;
   expires_at: string | null;
   created_at: string;
+  scopes: string[];
+  allowed_customer_ids: string[] | null;
+  allowed_collector_ids: string[] | null;
+  rate_limit_per_minute: number;
+}
+
+interface Collector {
+  id: string;
+  full_name: string;
+  email: string;
 }
 
 export default function ApiKeyManagement() {
@@ -21,6 +31,13 @@ export default function ApiKeyManagement() {
   const [creating, setCreating] = useState(false);
   const [newKeyName, setNewKeyName] = useState('');
   const [newKeyExpiry, setNewKeyExpiry] = useState('');
+  const [newKeyScopes, setNewKeyScopes] = useState<string[]>(DEFAULT_SCOPES);
+  const [newKeyCustomerIds, setNewKeyCustomerIds] = useState('');
+  const [newKeyCollectorIds, setNewKeyCollectorIds] = useState<string[]>([]);
+  const [newKeyRateLimit, setNewKeyRateLimit] = useState('60');
+  const [editingKeyId, setEditingKeyId] = useState<string | null>(null);
+  const [collectors, setCollectors] = useState<Collector[]>([]);
+  const [schemaKeyId, setSchemaKeyId] = useState('');
   const [showCreateForm, setShowCreateForm] = useState(false);
   const [newlyCreatedKey, setNewlyCreatedKey] = useState<string | null>(null);
   const [copied, setCopied] = useState<string | null>(null);
@@ -32,21 +49,93 @@ export default function ApiKeyManagement() {
 
   useEffect(() => {
     loadKeys();
+    loadCollectors();
   }, []);
 
   const loadKeys = async () => {
     setLoading(true);
     const { data, error } = await supabase
       .from('api_keys')
-      .select('id, name, key_prefix, is_active, last_used_at, usage_count, expires_at, created_at')
+      .select('id, name, key_prefix, is_active, last_used_at, usage_count, expires_at, created_at, scopes, allowed_customer_ids, allowed_collector_ids, rate_limit_per_minute')
       .order('created_at', { ascending: false });
 
     if (!error) setKeys(data || []);
     setLoading(false);
   };
 
+  const loadCollectors = async () => {
+    const { data } = await supabase
+      .from('user_profiles')
+      .select('id, full_name, email')
+      .in('role', ['collector', 'manager', 'admin'])
+      .order('full_name');
+    setCollectors(data || []);
+  };
+
+  const resetForm = () => {
+    setShowCreateForm(false);
+    setEditingKeyId(null);
+    setNewKeyName('');
+    setNewKeyExpiry('');
+    setNewKeyScopes(DEFAULT_SCOPES);
+    setNewKeyCustomerIds('');
+    setNewKeyCollectorIds([]);
+    setNewKeyRateLimit('60');
+  };
+
+  const startEditing = (key: ApiKey) => {
+    setEditingKeyId(key.id);
+    setNewKeyName(key.name);
+    setNewKeyExpiry(key.expires_at ? key.expires_at.split('T')[0] : '');
+    setNewKeyScopes(key.scopes || DEFAULT_SCOPES);
+    setNewKeyCustomerIds((key.allowed_customer_ids || []).join(', '));
+    setNewKeyCollectorIds(key.allowed_collector_ids || []);
+    setNewKeyRateLimit(String(key.rate_limit_per_minute || 60));
+    setShowCreateForm(true);
+  };
+
+  const toggleScope = (scope: string) => {
+    setNewKeyScopes(prev => prev.includes(scope) ? prev.filter(s => s !== scope) : [...prev, scope]);
+  };
+
+  const toggleCollector = (id: string) => {
+    setNewKeyCollectorIds(prev => prev.includes(id) ? prev.filter(c => c !== id) : [...prev, id]);
+  };
+
+  const accessSettings = () => {
+    const customerIds = newKeyCustomerIds.split(/[\s,]+/).map(id => id.trim()).filter(Boolean);
+    return {
+      scopes: newKeyScopes,
+      allowed_customer_ids: customerIds.length > 0 ? customerIds : null,
+      allowed_collector_ids: newKeyCollectorIds.length > 0 ? newKeyCollectorIds : null,
+      rate_limit_per_minute: parseInt(newKeyRateLimit) || 60,
+    };
+  };
+
+  const saveKeyAccess = async () => {
+    if (!editingKeyId || !newKeyName.trim() || newKeyScopes.length === 0) return;
+    setCreating(true);
+    const { error } = await supabase
+      .from('api_keys')
+      .update({
+        name: newKeyName.trim(),
+        expires_at: newKeyExpiry || null,
+        ...accessSettings(),
+        updated_at: new Date().toISOString(),
+      })
+      .eq('id', editingKeyId);
+    setCreating(false);
+
+    if (error) {
+      alert('Failed to update key: ' + error.message);
+      return;
+    }
+    resetForm();
+    loadKeys();
+  };
+
   const createKey = async () => {
-    if (!newKeyName.trim()) return;
+    if (!newKeyName.trim() || newKeyScopes.length === 0) return;
     setCreating(true);
 
     try {
@@ -63,6 +152,7 @@ export default function ApiKeyManagement() {
         body: JSON.stringify({
           name: newKeyName.trim(),
           expires_at: newKeyExpiry || null,
+          ...accessSettings(),
         }),
       });
 
@@ -70,9 +160,7 @@ export default function ApiKeyManagement() {
       if (result.error) throw new Error(result.error);
 
       setNewlyCreatedKey(result.api_key);
-      setNewKeyName('');
-      setNewKeyExpiry('');
-      setShowCreateForm(false);
+      resetForm();
       loadKeys();
     } catch (err: any) {
       alert('Failed to create key: ' + err.message);
@@ -97,7 +185,16 @@ export default function ApiKeyManagement() {
     setTimeout(() => setCopied(null), 2000);
   };
 
-  const openApiSchema = generateOpenApiSchema(baseApiUrl);
+  const schemaKey = keys.find(k => k.id === schemaKeyId);
+  const openApiSchema = generateOpenApiSchema(
+    baseApiUrl,
+    schemaKey ? schemaKey.scopes : API_SCOPES.map(s => s.value)
+  );
+
+  const collectorName = (id: string) => {
+    const collector = collectors.find(c => c.id === id);
+    return collector ? collector.full_name || collector.email : id;
+  };
 
   return (
     <div className="p-6 max-w-5xl mx-auto">
@@ -118,7 +215,7 @@ export default function ApiKeyManagement() {
           </div>
         </div>
         <button
-          onClick={() => setShowCreateForm(true)}
+          onClick={() => { resetForm(); setShowCreateForm(true); }}
           data-tour="api-key-create"
           className="flex items-center gap-2 px-4 py-2.5 text-sm font-semibold text-white bg-blue-600 rounded-lg hover:bg-blue-700 transition-colors shadow-sm"
         >
@@ -169,7 +266,9 @@ export default function ApiKeyManagement() {
       {/* Create Form */}
       {showCreateForm && (
         <div className="bg-white border border-gray-200 rounded-xl shadow-sm p-5 mb-6">
-          <h3 className="text-lg font-semibold text-gray-900 mb-4">Create New API Key</h3>
+          <h3 className="text-lg font-semibold text-gray-900 mb-4">
+            {editingKeyId ? 'Edit API Key Access' : 'Create New API Key'}
+          </h3>
           <div className="space-y-4">
             <div>
               <label className="block text-sm font-medium text-gray-700 mb-1">Key Name</label>
@@ -194,10 +293,77 @@ export default function ApiKeyManagement() {
               />
               <p className="text-xs text-gray-400 mt-1">Leave blank for no expiration</p>
             </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Scopes</label>
+              <div className="grid grid-cols-1 sm:grid-cols-3 gap-2">
+                {API_SCOPES.map(scope => (
+                  <label key={scope.value} className="flex items-center gap-2 text-sm text-gray-700">
+                    <input
+                      type="checkbox"
+                      checked={newKeyScopes.includes(scope.value)}
+                      onChange={() => toggleScope(scope.value)}
+                      className="rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+                    />
+                    <span>{scope.label}</span>
+                    <code className="text-[10px] text-gray-400">{scope.value}</code>
+                  </label>
+                ))}
+              </div>
+              <p className="text-xs text-gray-400 mt-1">
+                Write scopes act on behalf of the admin who created the key
+              </p>
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">
+                Restrict to customers (optional)
+              </label>
+              <textarea
+                value={newKeyCustomerIds}
+                onChange={(e) => setNewKeyCustomerIds(e.target.value)}
+                rows={2}
+                placeholder="Customer IDs separated by commas"
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 text-sm font-mono"
+              />
+              <p className="text-xs text-gray-400 mt-1">Leave blank to allow all customers</p>
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">
+                Restrict to collectors (optional)
+              </label>
+              <div className="max-h-36 overflow-y-auto border border-gray-200 rounded-lg p-2 grid grid-cols-1 sm:grid-cols-2 gap-1">
+                {collectors.map(collector => (
+                  <label key={collector.id} className="flex items-center gap-2 text-sm text-gray-700">
+                    <input
+                      type="checkbox"
+                      checked={newKeyCollectorIds.includes(collector.id)}
+                      onChange={() => toggleCollector(collector.id)}
+                      className="rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+                    />
+                    <span className="truncate">{collector.full_name || collector.email}</span>
+                  </label>
+                ))}
+              </div>
+              <p className="text-xs text-gray-400 mt-1">
+                Limits the key to these collectors' tickets and assigned customers
+              </p>
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">
+                Rate limit (requests per minute)
+              </label>
+              <input
+                type="number"
+                min={1}
+                max={10000}
+                value={newKeyRateLimit}
+                onChange={(e) => setNewKeyRateLimit(e.target.value)}
+                className="w-40 px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 text-sm"
+              />
+            </div>
             <div className="flex items-center gap-3">
               <button
-                onClick={createKey}
-                disabled={creating || !newKeyName.trim()}
+                onClick={editingKeyId ? saveKeyAccess : createKey}
+                disabled={creating || !newKeyName.trim() || newKeyScopes.length === 0}
                 className="flex items-center gap-2 px-4 py-2 text-sm font-semibold text-white bg-blue-600 rounded-lg hover:bg-blue-700 disabled:opacity-50 transition-colors"
               >
                 {creating ? (
@@ -205,14 +371,12 @@ export default function ApiKeyManagement() {
                 ) : (
                   <Key size={14} />
                 )}
-                {creating ? 'Creating...' : 'Generate Key'}
+                {editingKeyId
+                  ? (creating ? 'Saving...' : 'Save Access')
+                  : (creating ? 'Creating...' : 'Generate Key')}
               </button>
               <button
-                onClick={() => {
-                  setShowCreateForm(false);
-                  setNewKeyName('');
-                  setNewKeyExpiry('');
-                }}
+                onClick={resetForm}
                 className="px-4 py-2 text-sm font-medium text-gray-600 hover:text-gray-800 transition-colors"
               >
                 Cancel
@@ -299,9 +463,43 @@ export default function ApiKeyManagement() {
                     <span className="text-xs text-gray-400">
                       Created {new Date(key.created_at).toLocaleDateString()}
                     </span>
+                    <span className="text-xs text-gray-400">
+                      {key.rate_limit_per_minute}/min
+                    </span>
+                  </div>
+                  <div className="flex items-center gap-1.5 mt-1.5 flex-wrap">
+                    {(key.scopes || []).map(scope => (
+                      <span
+                        key={scope}
+                        className={`text-[10px] px-1.5 py-0.5 rounded font-mono ${
+                          scope.startsWith('write:') ? 'bg-amber-50 text-amber-700' : 'bg-blue-50 text-blue-700'
+                        }`}
+                      >
+                        {scope}
+                      </span>
+                    ))}
+                    {key.allowed_customer_ids && key.allowed_customer_ids.length > 0 && (
+                      <span className="text-[10px] px-1.5 py-0.5 rounded bg-gray-100 text-gray-600 flex items-center gap-1">
+                        <Shield size={10} />
+                        {key.allowed_customer_ids.length} customer{key.allowed_customer_ids.length === 1 ? '' : 's'}
+                      </span>
+                    )}
+                    {key.allowed_collector_ids && key.allowed_collector_ids.length > 0 && (
+                      <span className="text-[10px] px-1.5 py-0.5 rounded bg-gray-100 text-gray-600 flex items-center gap-1">
+                        <Shield size={10} />
+                        {key.allowed_collector_ids.map(collectorName).join(', ')}
+                      </span>
+                    )}
                   </div>
                 </div>
 
+                <button
+                  onClick={() => startEditing(key)}
+                  className="px-3 py-1.5 text-xs font-semibold rounded-md text-gray-700 bg-gray-50 border border-gray-200 hover:bg-gray-100 transition-colors"
+                >
+                  Edit Access
+                </button>
+
                 <button
                   onClick={() => toggleKey(key.id, key.is_active)}
                   disabled={togglingId === key.id}
@@ -386,13 +584,16 @@ export default function ApiKeyManagement() {
                     <th className="text-left py-2 px-3 font-semibold text-gray-600">
                       Description
                     </th>
+                    <th className="text-left py-2 px-3 font-semibold text-gray-600">Scope</th>
                   </tr>
                 </thead>
                 <tbody className="divide-y divide-gray-100">
-                  {endpointList.map(([method, path, desc]) => (
-                    <tr key={path} className="hover:bg-gray-50">
+                  {endpointList.map(([method, path, desc, scope]) => (
+                    <tr key={`${method} ${path}`} className="hover:bg-gray-50">
                       <td className="py-2 px-3">
-                        <code className="text-xs bg-blue-50 text-blue-700 px-1.5 py-0.5 rounded font-semibold">
+                        <code className={`text-xs px-1.5 py-0.5 rounded font-semibold ${
+                          method === 'GET' ? 'bg-blue-50 text-blue-700' : 'bg-amber-50 text-amber-700'
+                        }`}>
                           {method}
                         </code>
                       </td>
@@ -400,6 +601,9 @@ export default function ApiKeyManagement() {
                         <code className="text-xs text-gray-800 font-mono">{path}</code>
                       </td>
                       <td className="py-2 px-3 text-gray-600">{desc}</td>
+                      <td className="py-2 px-3">
+                        <code className="text-xs text-gray-500 font-mono">{scope}</code>
+                      </td>
                     </tr>
                   ))}
                 </tbody>
@@ -414,6 +618,16 @@ export default function ApiKeyManagement() {
                 4. OpenAPI Schema (paste into GPT Actions)
               </h4>
               <div className="flex items-center gap-2">
+                <select
+                  value={schemaKeyId}
+                  onChange={(e) => setSchemaKeyId(e.target.value)}
+                  className="px-2 py-1.5 text-xs border border-gray-200 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                >
+                  <option value="">All scopes</option>
+                  {keys.map(key => (
+                    <option key={key.id} value={key.id}>Scopes of {key.name}</option>
+                  ))}
+                </select>
                 <button
                   onClick={() => copyToClipboard(openApiSchema, 'schema')}
                   className="flex items-center gap-1.5 px-3 py-1.5 text-xs font-medium text-blue-600 bg-blue-50 border border-blue-200 rounded-md hover:bg-blue-100 transition-colors"
@@ -442,31 +656,49 @@ export default function ApiKeyManagement() {
   );
 }
 
-const endpointList: [string, string, string][] = [
-  ['GET', '/customers', 'Search/list customers with balance, status, class filtering'],
-  ['GET', '/customers/{id}', 'Customer detail with invoice stats, assignments, tickets'],
-  ['GET', '/invoices', 'Search invoices by date, status, type, amount, customer, color'],
-  ['GET', '/invoices/{ref}', 'Invoice detail with memos, status history, payments'],
-  ['GET', '/payments', 'Search payments by date, type, amount, customer'],
-  ['GET', '/payments/{ref}', 'Payment detail with invoice applications'],
-  ['GET', '/tickets', 'Search collection tickets by status, priority, collector'],
-  ['GET', '/tickets/{number}', 'Ticket detail with invoices, notes, activity'],
-  ['GET', '/collectors', 'List collectors with assignments and open ticket counts'],
-  ['GET', '/analytics/overview', 'Dashboard metrics: balances, tickets, payments this month'],
-  ['GET', '/analytics/aging', 'AR aging report with 6 buckets and top 25 customers'],
-  ['GET', '/analytics/monthly-summary', 'Month-by-month invoice or payment summaries'],
-  ['GET', '/analytics/customer-balances', 'Customers ranked by outstanding balance'],
-  ['GET', '/emails', 'Email history with delivery/open tracking'],
-  ['GET', '/search', 'Global search across customers, invoices, payments'],
+const API_SCOPES: { value: string; label: string }[] = [
+  { value: 'read:customers', label: 'Read customers' },
+  { value: 'read:invoices', label: 'Read invoices' },
+  { value: 'read:payments', label: 'Read payments' },
+  { value: 'read:tickets', label: 'Read tickets & collectors' },
+  { value: 'read:analytics', label: 'Read analytics' },
+  { value: 'read:emails', label: 'Read email history' },
+  { value: 'write:tickets', label: 'Create & update tickets' },
+  { value: 'write:notes', label: 'Add ticket notes' },
+  { value: 'write:invoices', label: 'Set invoice color & promise date' },
+];
+
+const DEFAULT_SCOPES = API_SCOPES.filter(s => s.value.startsWith('read:')).map(s => s.value);
+
+const endpointList: [string, string, string, string][] = [
+  ['GET', '/customers', 'Search/list customers with balance, status, class filtering', 'read:customers'],
+  ['GET', '/customers/{id}', 'Customer detail with invoice stats, assignments, tickets', 'read:customers'],
+  ['GET', '/invoices', 'Search invoices by date, status, type, amount, customer, color', 'read:invoices'],
+  ['GET', '/invoices/{ref}', 'Invoice detail with memos, status history, payments', 'read:invoices'],
+  ['GET', '/payments', 'Search payments by date, type, amount, customer', 'read:payments'],
+  ['GET', '/payments/{ref}', 'Payment detail with invoice applications', 'read:payments'],
+  ['GET', '/tickets', 'Search collection tickets by status, priority, collector', 'read:tickets'],
+  ['GET', '/tickets/{number}', 'Ticket detail with invoices, notes, activity', 'read:tickets'],
+  ['GET', '/collectors', 'List collectors with assignments and open ticket counts', 'read:tickets'],
+  ['GET', '/analytics/overview', 'Dashboard metrics: balances, tickets, payments this month', 'read:analytics'],
+  ['GET', '/analytics/aging', 'AR aging report with 6 buckets and top 25 customers', 'read:analytics'],
+  ['GET', '/analytics/monthly-summary', 'Month-by-month invoice or payment summaries', 'read:analytics'],
+  ['GET', '/analytics/customer-balances', 'Customers ranked by outstanding balance', 'read:analytics'],
+  ['GET', '/emails', 'Email history with delivery/open tracking', 'read:emails'],
+  ['GET', '/search', 'Global search across customers, invoices, payments', 'read:customers'],
+  ['POST', '/tickets', 'Create a ticket for a customer with optional invoices', 'write:tickets'],
+  ['PATCH', '/tickets/{number}', 'Update ticket status, priority, promise date, collector', 'write:tickets'],
+  ['POST', '/tickets/{number}/notes', 'Add a note to a ticket', 'write:notes'],
+  ['PATCH', '/invoices/{ref}', 'Set invoice color status or promise date', 'write:invoices'],
 ];
 
-function generateOpenApiSchema(baseUrl: string): string {
+function generateOpenApiSchema(baseUrl: string, scopes: string[]): string {
   const schema = {
     openapi: '3.1.0',
     info: {
       title: 'Collections Management API',
       description:
-        'API for querying accounts receivable data including customers, invoices, payments, collection tickets, and analytics.',
+        'API for querying accounts receivable data including customers, invoices, payments, collection tickets, and analytics, and for creating and updating tickets, ticket notes, and invoice follow-up fields.',
       version: '1.0.0',
     },
     servers: [{ url: baseUrl }],
@@ -474,6 +706,7 @@ function generateOpenApiSchema(baseUrl: string): string {
       '/customers': {
         get: {
           operationId: 'listCustomers',
+          'x-required-scope': 'read:customers',
           summary: 'Search and list customers',
           parameters: [
             { name: 'search', in: 'query', schema: { type: 'string' }, description: 'Search by name, ID, or email' },
@@ -491,6 +724,7 @@ function generateOpenApiSchema(baseUrl: string): string {
       '/customers/{customer_id}': {
         get: {
           operationId: 'getCustomerDetail',
+          'x-required-scope': 'read:customers',
           summary: 'Get full customer details with invoice stats, assignments, tickets, and emails',
           parameters: [{ name: 'customer_id', in: 'path', required: true, schema: { type: 'string' } }],
           responses: { '200': { description: 'Customer detail' } },
@@ -499,6 +733,7 @@ function generateOpenApiSchema(baseUrl: string): string {
       '/invoices': {
         get: {
           operationId: 'listInvoices',
+          'x-required-scope': 'read:invoices',
           summary: 'Search and list invoices',
           parameters: [
             { name: 'search', in: 'query', schema: { type: 'string' }, description: 'Search by reference, customer, or description' },
@@ -523,8 +758,30 @@ function generateOpenApiSchema(baseUrl: string): string {
         },
       },
       '/invoices/{reference_number}': {
+        patch: {
+          operationId: 'updateInvoice',
+          'x-required-scope': 'write:invoices',
+          summary: 'Set the color status or promise date of an invoice',
+          parameters: [{ name: 'reference_number', in: 'path', required: true, schema: { type: 'string' } }],
+          requestBody: {
+            required: true,
+            content: {
+              'application/json': {
+                schema: {
+                  type: 'object',
+                  properties: {
+                    color_status: { type: ['string', 'null'], description: 'Configured color status name, or null to clear' },
+                    promise_date: { type: ['string', 'null'], format: 'date' },
+                  },
+                },
+              },
+            },
+          },
+          responses: { '200': { description: 'Updated invoice' } },
+        },
         get: {
           operationId: 'getInvoiceDetail',
+          'x-required-scope': 'read:invoices',
           summary: 'Get invoice details with memos, status history, and payment applications',
           parameters: [{ name: 'reference_number', in: 'path', required: true, schema: { type: 'string' } }],
           responses: { '200': { description: 'Invoice detail' } },
@@ -533,6 +790,7 @@ function generateOpenApiSchema(baseUrl: string): string {
       '/payments': {
         get: {
           operationId: 'listPayments',
+          'x-required-scope': 'read:payments',
           summary: 'Search and list payments',
           parameters: [
             { name: 'search', in: 'query', schema: { type: 'string' } },
@@ -555,14 +813,42 @@ function generateOpenApiSchema(baseUrl: string): string {
       '/payments/{reference_number}': {
         get: {
           operationId: 'getPaymentDetail',
+          'x-required-scope': 'read:payments',
           summary: 'Get payment details with invoice applications',
           parameters: [{ name: 'reference_number', in: 'path', required: true, schema: { type: 'string' } }],
           responses: { '200': { description: 'Payment detail' } },
         },
       },
       '/tickets': {
+        post: {
+          operationId: 'createTicket',
+          'x-required-scope': 'write:tickets',
+          summary: 'Create a collection ticket for a customer',
+          requestBody: {
+            required: true,
+            content: {
+              'application/json': {
+                schema: {
+                  type: 'object',
+                  required: ['customer_id'],
+                  properties: {
+                    customer_id: { type: 'string' },
+                    invoice_reference_numbers: { type: 'array', items: { type: 'string' } },
+                    priority: { type: 'string', enum: ['low', 'medium', 'high', 'urgent'] },
+                    ticket_type: { type: 'string' },
+                    assigned_collector_id: { type: 'string', description: "Defaults to the customer's assigned collector" },
+                    due_date: { type: 'string', format: 'date' },
+                    notes: { type: 'string' },
+                  },
+                },
+              },
+            },
+          },
+          responses: { '201': { description: 'Created ticket' } },
+        },
         get: {
           operationId: 'listTickets',
+          'x-required-scope': 'read:tickets',
           summary: 'Search and list collection tickets',
           parameters: [
             { name: 'search', in: 'query', schema: { type: 'string' } },
@@ -579,16 +865,62 @@ function generateOpenApiSchema(baseUrl: string): string {
         },
       },
       '/tickets/{ticket_number}': {
+        patch: {
+          operationId: 'updateTicket',
+          'x-required-scope': 'write:tickets',
+          summary: 'Update ticket status, priority, promise date or assigned collector',
+          parameters: [{ name: 'ticket_number', in: 'path', required: true, schema: { type: 'string' } }],
+          requestBody: {
+            required: true,
+            content: {
+              'application/json': {
+                schema: {
+                  type: 'object',
+                  properties: {
+                    status: { type: 'string' },
+                    priority: { type: 'string', enum: ['low', 'medium', 'high', 'urgent'] },
+                    promise_date: { type: ['string', 'null'], format: 'date' },
+                    assigned_collector_id: { type: 'string' },
+                  },
+                },
+              },
+            },
+          },
+          responses: { '200': { description: 'Updated ticket' } },
+        },
         get: {
           operationId: 'getTicketDetail',
+          'x-required-scope': 'read:tickets',
           summary: 'Get ticket details with invoices, notes, and activity',
           parameters: [{ name: 'ticket_number', in: 'path', required: true, schema: { type: 'string' } }],
           responses: { '200': { description: 'Ticket detail' } },
         },
       },
+      '/tickets/{ticket_number}/notes': {
+        post: {
+          operationId: 'addTicketNote',
+          'x-required-scope': 'write:notes',
+          summary: 'Add a note to a ticket',
+          parameters: [{ name: 'ticket_number', in: 'path', required: true, schema: { type: 'string' } }],
+          requestBody: {
+            required: true,
+            content: {
+              'application/json': {
+                schema: {
+                  type: 'object',
+                  required: ['note_text'],
+                  properties: { note_text: { type: 'string' } },
+                },
+              },
+            },
+          },
+          responses: { '201': { description: 'Created note' } },
+        },
+      },
       '/collectors': {
         get: {
           operationId: 'listCollectors',
+          'x-required-scope': 'read:tickets',
           summary: 'List active collectors with assignments and ticket counts',
           responses: { '200': { description: 'Collector list' } },
         },
@@ -596,6 +928,7 @@ function generateOpenApiSchema(baseUrl: string): string {
       '/analytics/overview': {
         get: {
           operationId: 'getAnalyticsOverview',
+          'x-required-scope': 'read:analytics',
           summary: 'High-level dashboard metrics',
           responses: { '200': { description: 'Overview metrics' } },
         },
@@ -603,6 +936,7 @@ function generateOpenApiSchema(baseUrl: string): string {
       '/analytics/aging': {
         get: {
           operationId: 'getAgingReport',
+          'x-required-scope': 'read:analytics',
           summary: 'Accounts receivable aging report',
           responses: { '200': { description: 'AR aging with 6 buckets and top 25 customers' } },
         },
@@ -610,6 +944,7 @@ function generateOpenApiSchema(baseUrl: string): string {
       '/analytics/monthly-summary': {
         get: {
           operationId: 'getMonthlySummary',
+          'x-required-scope': 'read:analytics',
           summary: 'Month-by-month summary',
           parameters: [
             { name: 'entity', in: 'query', schema: { type: 'string', enum: ['invoices', 'payments'], default: 'invoices' } },
@@ -620,6 +955,7 @@ function generateOpenApiSchema(baseUrl: string): string {
       '/analytics/customer-balances': {
         get: {
           operationId: 'getCustomerBalances',
+          'x-required-scope': 'read:analytics',
           summary: 'Customers ranked by outstanding balance',
           parameters: [
             { name: 'sort_by', in: 'query', schema: { type: 'string', default: 'balance' } },
@@ -633,6 +969,7 @@ function generateOpenApiSchema(baseUrl: string): string {
       '/emails': {
         get: {
           operationId: 'listEmails',
+          'x-required-scope': 'read:emails',
           summary: 'Email sending history with tracking',
           parameters: [
             { name: 'search', in: 'query', schema: { type: 'string' } },
@@ -649,6 +986,7 @@ function generateOpenApiSchema(baseUrl: string): string {
       '/search': {
         get: {
           operationId: 'globalSearch',
+          'x-required-scope': 'read:customers',
           summary: 'Search across customers, invoices, and payments',
           parameters: [
             { name: 'q', in: 'query', required: true, schema: { type: 'string', minLength: 2 }, description: 'Search query (min 2 chars)' },
@@ -659,5 +997,14 @@ function generateOpenApiSchema(baseUrl: string): string {
     },
   };
 
-  return JSON.stringify(schema, null, 2);
+  // Keep only the operations the selected key is allowed to call
+  const paths: Record<string, Record<string, any>> = {};
+  Object.entries(schema.paths).forEach(([path, operations]) => {
+    const allowed = Object.fromEntries(
+      Object.entries(operations as Record<string, any>).filter(([, op]) => scopes.includes(op['x-required-scope']))
+    );
+    if (Object.keys(allowed).length > 0) paths[path] = allowed;
+  });
+
+  return JSON.stringify({ ...schema, paths }, null, 2);
 }
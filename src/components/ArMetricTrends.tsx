@@ -0,0 +1,157 @@
+import { useState, useEffect } from 'react';
+import { BarChart3 } from 'lucide-react';
+import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer } from 'recharts';
+import { format } from 'date-fns';
+import { supabase } from '../lib/supabase';
+import { AR_METRICS, ArMetricKey, ArMetricSnapshot, formatMetric } from '../lib/arMetrics';
+
+interface ArMetricTrendsProps {
+  organizations: { id: string; name: string }[];
+}
+
+const LINE_COLORS = ['#60a5fa', '#34d399', '#f87171', '#a78bfa', '#fbbf24', '#22d3ee', '#f472b6', '#a3e635'];
+
+export default function ArMetricTrends({ organizations }: ArMetricTrendsProps) {
+  const [snapshots, setSnapshots] = useState<ArMetricSnapshot[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [days, setDays] = useState(90);
+  const [metricKey, setMetricKey] = useState<ArMetricKey>('dso');
+
+  useEffect(() => {
+    loadSnapshots();
+  }, [days]);
+
+  const loadSnapshots = async () => {
+    setLoading(true);
+    const since = new Date();
+    since.setDate(since.getDate() - days);
+
+    const { data, error } = await supabase
+      .from('ar_metric_snapshots')
+      .select('*')
+      .is('collector_id', null)
+      .gte('snapshot_date', since.toISOString().split('T')[0])
+      .order('snapshot_date', { ascending: true });
+
+    if (error) {
+      console.error('Error loading AR metric snapshots:', error);
+    }
+    setSnapshots(data || []);
+    setLoading(false);
+  };
+
+  const metric = AR_METRICS.find(m => m.key === metricKey) || AR_METRICS[0];
+  const orgName = (id: string) => organizations.find(o => o.id === id)?.name || 'Unknown';
+  const orgIds = Array.from(new Set(snapshots.map(s => s.organization_id)));
+
+  const byDate = new Map<string, Record<string, string | number | null>>();
+  snapshots.forEach(s => {
+    const row = byDate.get(s.snapshot_date) || { date: format(new Date(`${s.snapshot_date}T00:00:00`), 'MMM d') };
+    row[orgName(s.organization_id)] = s[metricKey];
+    byDate.set(s.snapshot_date, row);
+  });
+  const chartData = Array.from(byDate.values());
+
+  const latestByOrg = orgIds.map(id => {
+    const rows = snapshots.filter(s => s.organization_id === id);
+    return rows[rows.length - 1];
+  });
+
+  return (
+    <div className="bg-slate-800/50 border border-slate-700/50 rounded-2xl p-6 space-y-6">
+      <div className="flex items-center justify-between flex-wrap gap-3">
+        <h2 className="text-lg font-semibold text-white flex items-center gap-2">
+          <BarChart3 className="w-5 h-5 text-blue-400" />
+          AR Metrics
+        </h2>
+        <div className="flex items-center gap-2">
+          <select
+            value={metricKey}
+            onChange={(e) => setMetricKey(e.target.value as ArMetricKey)}
+            className="px-3 py-1.5 bg-slate-700 border border-slate-600 rounded-lg text-white text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+          >
+            {AR_METRICS.map(m => (
+              <option key={m.key} value={m.key}>{m.label}</option>
+            ))}
+          </select>
+          <select
+            value={days}
+            onChange={(e) => setDays(Number(e.target.value))}
+            className="px-3 py-1.5 bg-slate-700 border border-slate-600 rounded-lg text-white text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+          >
+            <option value={30}>Last 30 days</option>
+            <option value={90}>Last 90 days</option>
+            <option value={180}>Last 6 months</option>
+            <option value={365}>Last year</option>
+          </select>
+        </div>
+      </div>
+
+      {loading ? (
+        <div className="flex justify-center py-16">
+          <div className="animate-spin rounded-full h-10 w-10 border-b-2 border-blue-500"></div>
+        </div>
+      ) : snapshots.length === 0 ? (
+        <p className="text-slate-400 text-center py-8">No metric snapshots captured yet</p>
+      ) : (
+        <>
+          <div>
+            <p className="text-slate-400 text-xs mb-3">{metric.description}</p>
+            <ResponsiveContainer width="100%" height={300}>
+              <LineChart data={chartData}>
+                <CartesianGrid strokeDasharray="3 3" stroke="#334155" />
+                <XAxis dataKey="date" tick={{ fontSize: 12, fill: '#94a3b8' }} stroke="#475569" />
+                <YAxis tick={{ fontSize: 12, fill: '#94a3b8' }} stroke="#475569" />
+                <Tooltip
+                  formatter={(value: number) => formatMetric(value, metric.unit)}
+                  contentStyle={{ backgroundColor: '#1e293b', border: '1px solid #334155', borderRadius: '8px', color: '#fff' }}
+                />
+                <Legend />
+                {orgIds.map((id, index) => (
+                  <Line
+                    key={id}
+                    type="monotone"
+                    dataKey={orgName(id)}
+                    stroke={LINE_COLORS[index % LINE_COLORS.length]}
+                    strokeWidth={2}
+                    dot={false}
+                    connectNulls
+                  />
+                ))}
+              </LineChart>
+            </ResponsiveContainer>
+          </div>
+
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-xs text-slate-400 uppercase">
+                  <th className="text-left py-2 pr-4 font-semibold">Organization</th>
+                  {AR_METRICS.map(m => (
+                    <th key={m.key} className="text-right py-2 px-3 font-semibold">{m.label}</th>
+                  ))}
+                  <th className="text-right py-2 pl-3 font-semibold">As of</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-slate-700/50">
+                {latestByOrg.map(row => (
+                  <tr key={row.organization_id}>
+                    <td className="py-2 pr-4 text-white">{orgName(row.organization_id)}</td>
+                    {AR_METRICS.map(m => (
+                      <td key={m.key} className="py-2 px-3 text-right text-slate-200">
+                        {formatMetric(row[m.key], m.unit)}
+                      </td>
+                    ))}
+                    <td className="py-2 pl-3 text-right text-slate-400 text-xs">
+                      {format(new Date(`${row.snapshot_date}T00:00:00`), 'MMM d')}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,178 @@
+import { useState } from 'react';
+import { CheckCircle, AlertTriangle, Loader2, RefreshCw, FileSearch } from 'lucide-react';
+import { usePermissions } from '../contexts/PermissionsContext';
+import { PERMISSIONS } from '../lib/permissions';
+import { formatDate } from '../lib/dateUtils';
+import {
+  AttachmentExtraction,
+  DOCUMENT_TYPE_LABELS,
+  DOCUMENT_TYPE_STYLES,
+  EXTRACTION_STATUS_LABELS,
+  MATCH_STATUS_LABELS,
+  formatDocumentPeriod,
+  rerunExtraction,
+} from '../lib/attachmentExtractions';
+
+interface AttachmentExtractionDetailsProps {
+  extraction: AttachmentExtraction | undefined;
+  onUpdated: () => void;
+}
+
+const formatMoney = (value: number | null | undefined) =>
+  value == null ? '—' : `$${Number(value).toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+
+function Field({ label, value }: { label: string; value: string | number | null | undefined }) {
+  if (value == null || value === '') return null;
+  return (
+    <div>
+      <dt className="text-[11px] uppercase tracking-wide text-gray-500">{label}</dt>
+      <dd className="text-sm text-gray-900">{value}</dd>
+    </div>
+  );
+}
+
+export default function AttachmentExtractionDetails({ extraction, onUpdated }: AttachmentExtractionDetailsProps) {
+  const { can } = usePermissions();
+  const [rerunning, setRerunning] = useState(false);
+  const [rerunError, setRerunError] = useState<string | null>(null);
+
+  if (!extraction) return null;
+
+  const canRerun = can(PERMISSIONS.CUSTOMERS_FILES, 'create') && extraction.status !== 'processing';
+  const data = extraction.extracted_data || {};
+  const period = formatDocumentPeriod(extraction);
+  const requested = new Date(Date.UTC(extraction.requested_year, extraction.requested_month - 1, 1))
+    .toLocaleDateString('en-US', { month: 'long', year: 'numeric', timeZone: 'UTC' });
+  const lines = extraction.attachment_remittance_lines || [];
+  const linesTotal = lines.reduce((sum, line) => sum + Number(line.amount_paid || 0), 0);
+
+  const handleRerun = async () => {
+    setRerunning(true);
+    setRerunError(null);
+    try {
+      await rerunExtraction(extraction.id);
+    } catch (error: any) {
+      setRerunError(error.message);
+    } finally {
+      setRerunning(false);
+      onUpdated();
+    }
+  };
+
+  return (
+    <div className="mt-3 rounded-lg border border-gray-200 bg-white p-3 text-left">
+      <div className="flex flex-wrap items-center gap-2">
+        <FileSearch size={14} className="text-gray-500" />
+        {extraction.status === 'completed' && extraction.document_type ? (
+          <>
+            <span className={`px-2 py-0.5 rounded-full text-xs font-medium ${DOCUMENT_TYPE_STYLES[extraction.document_type]}`}>
+              {DOCUMENT_TYPE_LABELS[extraction.document_type]}
+            </span>
+            {extraction.confidence != null && (
+              <span className="text-xs text-gray-500">{Math.round(Number(extraction.confidence) * 100)}% confidence</span>
+            )}
+            {period && <span className="text-xs text-gray-600">Covers {period}</span>}
+          </>
+        ) : (
+          <span className="text-xs text-gray-600">{EXTRACTION_STATUS_LABELS[extraction.status]}</span>
+        )}
+        {canRerun && extraction.status !== 'pending' && (
+          <button
+            onClick={handleRerun}
+            disabled={rerunning}
+            className="ml-auto flex items-center gap-1 text-xs text-blue-600 hover:text-blue-800 disabled:opacity-50"
+          >
+            {rerunning ? <Loader2 size={12} className="animate-spin" /> : <RefreshCw size={12} />}
+            Read again
+          </button>
+        )}
+      </div>
+
+      {extraction.status === 'failed' && extraction.error && (
+        <p className="mt-2 text-xs text-red-600">{extraction.error}</p>
+      )}
+      {rerunError && <p className="mt-2 text-xs text-red-600">{rerunError}</p>}
+
+      {extraction.status === 'completed' && extraction.document_type === 'census' && (
+        <>
+          <dl className="mt-3 grid grid-cols-2 sm:grid-cols-4 gap-3">
+            <Field label="Facility" value={data.facility_name} />
+            <Field label="Patients" value={data.patient_count} />
+            <Field label="Admissions" value={data.admissions} />
+            <Field label="Discharges" value={data.discharges} />
+            <Field label="Patient days" value={data.patient_days} />
+          </dl>
+          {extraction.completed_tracking ? (
+            <p className="mt-3 flex items-center gap-1.5 text-xs text-green-700">
+              <CheckCircle size={14} />
+              Completed {requested} for this customer
+            </p>
+          ) : extraction.month_matches === false ? (
+            <p className="mt-3 flex items-center gap-1.5 text-xs text-amber-700">
+              <AlertTriangle size={14} />
+              Census is for {period}, not the requested {requested}; the month was left open
+            </p>
+          ) : (
+            <p className="mt-3 flex items-center gap-1.5 text-xs text-amber-700">
+              <AlertTriangle size={14} />
+              Month or customer could not be confirmed; {requested} was left open
+            </p>
+          )}
+        </>
+      )}
+
+      {extraction.status === 'completed' && extraction.document_type === 'remittance_advice' && (
+        <>
+          <dl className="mt-3 grid grid-cols-2 sm:grid-cols-4 gap-3">
+            <Field label="Payer" value={data.payer_name} />
+            <Field label="Payment date" value={data.payment_date ? formatDate(data.payment_date) : null} />
+            <Field label="Check #" value={data.check_number} />
+            <Field label="Total" value={data.total_amount != null ? formatMoney(data.total_amount) : null} />
+          </dl>
+          {lines.length > 0 && (
+            <table className="mt-3 w-full text-xs">
+              <thead>
+                <tr className="text-left text-gray-500 border-b border-gray-200">
+                  <th className="py-1 pr-2 font-medium">Invoice</th>
+                  <th className="py-1 pr-2 font-medium text-right">Paid</th>
+                  <th className="py-1 pr-2 font-medium text-right">Open balance</th>
+                  <th className="py-1 font-medium">Match</th>
+                </tr>
+              </thead>
+              <tbody>
+                {lines.map(line => (
+                  <tr key={line.id} className="border-b border-gray-100 last:border-0">
+                    <td className="py-1 pr-2 font-mono text-gray-900">{line.invoice_reference}</td>
+                    <td className="py-1 pr-2 text-right tabular-nums">{formatMoney(line.amount_paid)}</td>
+                    <td className="py-1 pr-2 text-right tabular-nums">{line.invoice_id ? formatMoney(line.invoice_balance) : '—'}</td>
+                    <td className="py-1">
+                      <span className={
+                        line.match_status === 'matched' ? 'text-green-700'
+                          : line.match_status === 'other_customer' ? 'text-amber-700'
+                          : 'text-gray-500'
+                      }>
+                        {MATCH_STATUS_LABELS[line.match_status]}
+                        {line.match_status === 'other_customer' && line.invoice_customer && ` (${line.invoice_customer})`}
+                      </span>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+              <tfoot>
+                <tr className="text-gray-700 font-medium">
+                  <td className="pt-1 pr-2">{lines.length} {lines.length === 1 ? 'line' : 'lines'}</td>
+                  <td className="pt-1 pr-2 text-right tabular-nums">{formatMoney(linesTotal)}</td>
+                  <td colSpan={2} />
+                </tr>
+              </tfoot>
+            </table>
+          )}
+        </>
+      )}
+
+      {extraction.status === 'completed' && data.summary && (
+        <p className="mt-2 text-xs text-gray-500">{data.summary}</p>
+      )}
+    </div>
+  );
+}
@@ -1,7 +1,8 @@
 import { useState } from 'react';
-import { X, Plus, Trash2, Search, Loader2, AlertTriangle, Info } from 'lucide-react';
+import { X, Plus, Trash2, Search, Loader2, AlertTriangle, Info, FlaskConical } from 'lucide-react';
 import { supabase } from '../../lib/supabase';
 import { useToast } from '../../contexts/ToastContext';
+import RuleSimulatorModal from './RuleSimulatorModal';
 import {
   ConditionType,
   Operator,
@@ -48,6 +49,7 @@ export default function RuleFormModal({
 }: RuleFormModalProps) {
   const { showToast } = useToast();
   const [saving, setSaving] = useState(false);
+  const [dryRunDraft, setDryRunDraft] = useState<Record<string, any> | null>(null);
 
   const [ruleName, setRuleName] = useState(editingRule?.rule_name || '');
   const [description, setDescription] = useState(editingRule?.description || '');
@@ -136,6 +138,46 @@ export default function RuleFormModal({
     setTargets(targets.filter(t => t.customer_id !== customerId));
   };
 
+  const buildRuleData = () => {
+    const ruleData: any = {
+      rule_name: ruleName.trim(),
+      description: description.trim() || null,
+      action_type: actionType,
+      email_recipients: emailRecipients,
+      notify_admin: notifyAdmin,
+      priority,
+      ticket_type_id: ticketTypeId || null,
+      assigned_collector_id: assignedCollectorId || collectors[0]?.id,
+      logic_operator: logicOperator,
+      applies_to: appliesTo,
+      condition_logic: 'advanced',
+      rule_type: 'advanced',
+      active: true,
+    };
+
+    if (appliesTo === 'specific' && targets.length === 1) {
+      ruleData.customer_id = targets[0].customer_id;
+    } else if (appliesTo === 'all') {
+      ruleData.customer_id = '__ALL__';
+    } else {
+      ruleData.customer_id = appliesTo === 'exclude' ? '__EXCLUDE__' : '__MULTI__';
+    }
+    return ruleData;
+  };
+
+  const handleDryRun = () => {
+    if (conditions.length === 0) {
+      showToast('Please add at least one condition', 'error');
+      return;
+    }
+    setDryRunDraft({
+      ...buildRuleData(),
+      id: editingRule?.id,
+      conditions,
+      targets: appliesTo === 'all' ? [] : targets,
+    });
+  };
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
 
@@ -160,29 +202,7 @@ export default function RuleFormModal({
     try {
       const { data: { user } } = await supabase.auth.getUser();
 
-      const ruleData: any = {
-        rule_name: ruleName.trim(),
-        description: description.trim() || null,
-        action_type: actionType,
-        email_recipients: emailRecipients,
-        notify_admin: notifyAdmin,
-        priority,
-        ticket_type_id: ticketTypeId || null,
-        assigned_collector_id: assignedCollectorId || collectors[0]?.id,
-        logic_operator: logicOperator,
-        applies_to: appliesTo,
-        condition_logic: 'advanced',
-        rule_type: 'advanced',
-        active: true,
-      };
-
-      if (appliesTo === 'specific' && targets.length === 1) {
-        ruleData.customer_id = targets[0].customer_id;
-      } else if (appliesTo === 'all') {
-        ruleData.customer_id = '__ALL__';
-      } else {
-        ruleData.customer_id = appliesTo === 'exclude' ? '__EXCLUDE__' : '__MULTI__';
-      }
+      const ruleData = buildRuleData();
 
       let ruleId: string;
 
@@ -250,6 +270,8 @@ export default function RuleFormModal({
       case 'payment_amount_drop':
         return ['pct_drop', 'gt', 'lt'];
       case 'overdue_percentage':
+      case 'risk_score':
+      case 'credit_limit_utilization':
         return ['gt', 'gte', 'lt', 'lte', 'between'];
       default:
         return ['gt', 'lt', 'gte', 'lte', 'eq', 'between'];
@@ -273,6 +295,10 @@ export default function RuleFormModal({
         return 'Days';
       case 'overdue_percentage':
         return 'Percentage (%)';
+      case 'risk_score':
+        return 'Risk score (0-100)';
+      case 'credit_limit_utilization':
+        return 'Percentage of credit limit (%)';
       default:
         return 'Value';
     }
@@ -686,6 +712,14 @@ export default function RuleFormModal({
 
           {/* Footer */}
           <div className="px-6 py-4 flex items-center justify-end gap-3 bg-gray-50 rounded-b-xl">
+            <button
+              type="button"
+              onClick={handleDryRun}
+              className="mr-auto flex items-center gap-2 px-4 py-2.5 border border-teal-300 text-teal-700 rounded-lg text-sm font-medium hover:bg-teal-50 transition-colors"
+            >
+              <FlaskConical className="w-4 h-4" />
+              Dry Run
+            </button>
             <button
               type="button"
               onClick={onClose}
@@ -704,6 +738,14 @@ export default function RuleFormModal({
           </div>
         </form>
       </div>
+
+      {dryRunDraft && (
+        <RuleSimulatorModal
+          title={ruleName.trim() || 'Draft rule'}
+          draft={dryRunDraft}
+          onClose={() => setDryRunDraft(null)}
+        />
+      )}
     </div>
   );
 }
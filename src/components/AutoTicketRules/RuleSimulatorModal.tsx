@@ -0,0 +1,333 @@
+import { useState, useEffect } from 'react';
+import { X, Loader2, Play, FlaskConical, Check, Minus, Plus } from 'lucide-react';
+import { supabase } from '../../lib/supabase';
+import { useToast } from '../../contexts/ToastContext';
+import {
+  SimulationResult,
+  SimulatedCondition,
+  SimulatedMatch,
+  CONDITION_TYPE_LABELS,
+  ACTION_TYPE_LABELS,
+} from './types';
+
+interface RuleSimulatorModalProps {
+  title: string;
+  ruleId?: string;
+  draft?: Record<string, any>;
+  onClose: () => void;
+}
+
+interface MatchDiff {
+  added: SimulatedMatch[];
+  removed: SimulatedMatch[];
+  unchanged: number;
+  baselineLabel: string;
+}
+
+const today = () => {
+  const now = new Date();
+  return `${now.getFullYear()}-${String(now.getMonth() + 1).padStart(2, '0')}-${String(now.getDate()).padStart(2, '0')}`;
+};
+
+const formatCurrency = (value: number | null) =>
+  `$${(value || 0).toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+
+const formatConditionValue = (condition: SimulatedCondition, value: number | null) => {
+  if (value === null || value === undefined) return '—';
+  switch (condition.condition_type) {
+    case 'balance_threshold':
+    case 'invoice_amount_threshold':
+    case 'total_overdue_amount':
+      return formatCurrency(value);
+    case 'payment_amount_drop':
+      return condition.operator === 'pct_drop' ? `${value}%` : formatCurrency(value);
+    case 'overdue_percentage':
+    case 'credit_limit_utilization':
+      return `${value}%`;
+    case 'invoice_count_overdue':
+    case 'risk_score':
+      return String(value);
+    default:
+      return `${value} days`;
+  }
+};
+
+const describeThreshold = (condition: SimulatedCondition) => {
+  const value = formatConditionValue(condition, condition.value_numeric);
+  switch (condition.operator) {
+    case 'gt': return `> ${value}`;
+    case 'gte': return `≥ ${value}`;
+    case 'lt': return `< ${value}`;
+    case 'lte': return `≤ ${value}`;
+    case 'eq': return `= ${value}`;
+    case 'between': return `${value} – ${formatConditionValue(condition, condition.value_numeric_max)}`;
+    case 'pct_drop': return `drop ≥ ${value}`;
+    default: return value;
+  }
+};
+
+// Age windows ("between" on invoice_age_days) report how many invoices fall in the window
+const describeActual = (condition: SimulatedCondition) => {
+  if (condition.condition_type === 'invoice_age_days' && condition.operator === 'between') {
+    return `${condition.actual ?? 0} invoice${condition.actual === 1 ? '' : 's'} in window`;
+  }
+  if (condition.condition_type === 'days_since_last_payment' && condition.actual === null) {
+    return 'never paid';
+  }
+  return formatConditionValue(condition, condition.actual);
+};
+
+const matchesOf = (result: SimulationResult) => {
+  const byCustomer = new Map<string, SimulatedMatch>();
+  result.rules.forEach(rule => rule.matches.forEach(m => {
+    if (!byCustomer.has(m.customer_id)) byCustomer.set(m.customer_id, m);
+  }));
+  return byCustomer;
+};
+
+export default function RuleSimulatorModal({ title, ruleId, draft, onClose }: RuleSimulatorModalProps) {
+  const { showToast } = useToast();
+  const [asOf, setAsOf] = useState(today());
+  const [running, setRunning] = useState(false);
+  const [result, setResult] = useState<SimulationResult | null>(null);
+  const [diff, setDiff] = useState<MatchDiff | null>(null);
+
+  useEffect(() => {
+    runSimulation();
+  }, []);
+
+  const simulate = async (params: Record<string, any>) => {
+    const { data, error } = await supabase.rpc('simulate_auto_ticket_rules', { p_as_of: asOf, ...params });
+    if (error) throw error;
+    return data as SimulationResult;
+  };
+
+  const runSimulation = async () => {
+    setRunning(true);
+    try {
+      const simulation = await simulate(draft ? { p_draft: draft } : ruleId ? { p_rule_id: ruleId } : {});
+      setResult(simulation);
+
+      // A draft is compared against the saved version of the same rule, or
+      // against every active rule when it is new.
+      if (draft) {
+        const baseline = await simulate(draft.id ? { p_rule_id: draft.id } : {});
+        const current = matchesOf(baseline);
+        const proposed = matchesOf(simulation);
+        setDiff({
+          added: [...proposed.values()].filter(m => !current.has(m.customer_id)),
+          removed: [...current.values()].filter(m => !proposed.has(m.customer_id)),
+          unchanged: [...proposed.keys()].filter(id => current.has(id)).length,
+          baselineLabel: draft.id ? 'the saved version of this rule' : 'current active rules',
+        });
+      } else {
+        setDiff(null);
+      }
+    } catch (error: any) {
+      showToast(error.message, 'error');
+    } finally {
+      setRunning(false);
+    }
+  };
+
+  const totals = (result?.rules || []).reduce(
+    (sum, rule) => ({
+      customers: sum.customers + rule.customers_matched,
+      created: sum.created + rule.tickets_created,
+      updated: sum.updated + rule.tickets_updated,
+      invoices: sum.invoices + rule.invoices_added,
+      emails: sum.emails + rule.emails,
+    }),
+    { customers: 0, created: 0, updated: 0, invoices: 0, emails: 0 }
+  );
+
+  return (
+    <div className="fixed inset-0 bg-black/50 flex items-start justify-center z-50 p-4 overflow-y-auto">
+      <div className="bg-white rounded-xl shadow-2xl w-full max-w-4xl my-8">
+        <div className="flex items-center justify-between px-6 py-4 border-b border-gray-200">
+          <div>
+            <h2 className="text-xl font-bold text-gray-900 flex items-center gap-2">
+              <FlaskConical className="w-5 h-5 text-teal-600" />
+              Dry Run: {title}
+            </h2>
+            <p className="text-sm text-gray-500 mt-0.5">
+              Evaluates rules without creating tickets or sending emails
+            </p>
+          </div>
+          <button onClick={onClose} className="p-2 hover:bg-gray-100 rounded-lg transition-colors">
+            <X className="w-5 h-5 text-gray-500" />
+          </button>
+        </div>
+
+        <div className="px-6 py-5 space-y-5">
+          <div className="flex items-end flex-wrap gap-3">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1.5">Evaluate as of</label>
+              <input
+                type="date"
+                value={asOf}
+                max={today()}
+                onChange={(e) => setAsOf(e.target.value)}
+                className="border border-gray-300 rounded-lg px-3.5 py-2.5 text-sm focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+              />
+            </div>
+            <button
+              onClick={runSimulation}
+              disabled={running || !asOf}
+              className="flex items-center gap-2 px-5 py-2.5 bg-teal-600 text-white rounded-lg text-sm font-medium hover:bg-teal-700 disabled:opacity-50 transition-colors"
+            >
+              {running ? <Loader2 className="w-4 h-4 animate-spin" /> : <Play className="w-4 h-4" />}
+              Run
+            </button>
+            <p className="text-xs text-gray-500 flex-1 min-w-[220px]">
+              Invoice aging and payment history are replayed up to this date. Balances and existing tickets are as they are today.
+            </p>
+          </div>
+
+          {running && !result ? (
+            <div className="flex items-center justify-center h-40">
+              <Loader2 className="w-8 h-8 animate-spin text-blue-600" />
+            </div>
+          ) : result && (
+            <>
+              {/* Summary */}
+              <div className="grid grid-cols-2 md:grid-cols-5 gap-3">
+                {[
+                  { label: 'Customers Matched', value: totals.customers },
+                  { label: 'Tickets Created', value: totals.created },
+                  { label: 'Tickets Updated', value: totals.updated },
+                  { label: 'Invoices Added', value: totals.invoices },
+                  { label: 'Emails', value: totals.emails },
+                ].map(card => (
+                  <div key={card.label} className="bg-gray-50 rounded-xl border border-gray-200 p-3">
+                    <p className="text-xs text-gray-500 uppercase font-semibold">{card.label}</p>
+                    <p className="text-2xl font-bold text-gray-900 mt-1">{card.value}</p>
+                  </div>
+                ))}
+              </div>
+
+              {/* Compare to current rules */}
+              {diff && (
+                <div className="border border-gray-200 rounded-xl p-4">
+                  <h3 className="text-sm font-semibold text-gray-800 mb-1">Compared to {diff.baselineLabel}</h3>
+                  <p className="text-xs text-gray-500 mb-3">
+                    {diff.added.length} newly matched · {diff.removed.length} no longer matched · {diff.unchanged} unchanged
+                  </p>
+                  <div className="grid md:grid-cols-2 gap-4">
+                    <div>
+                      <p className="text-xs font-semibold text-green-700 uppercase mb-1.5">Newly matched</p>
+                      {diff.added.length === 0 ? (
+                        <p className="text-xs text-gray-400">None</p>
+                      ) : (
+                        <ul className="space-y-1 max-h-48 overflow-y-auto">
+                          {diff.added.map(m => (
+                            <li key={m.customer_id} className="flex items-center gap-1.5 text-xs text-gray-700">
+                              <Plus className="w-3.5 h-3.5 text-green-600 flex-shrink-0" />
+                              <span className="truncate">{m.customer_name || m.customer_id}</span>
+                            </li>
+                          ))}
+                        </ul>
+                      )}
+                    </div>
+                    <div>
+                      <p className="text-xs font-semibold text-red-700 uppercase mb-1.5">No longer matched</p>
+                      {diff.removed.length === 0 ? (
+                        <p className="text-xs text-gray-400">None</p>
+                      ) : (
+                        <ul className="space-y-1 max-h-48 overflow-y-auto">
+                          {diff.removed.map(m => (
+                            <li key={m.customer_id} className="flex items-center gap-1.5 text-xs text-gray-700">
+                              <Minus className="w-3.5 h-3.5 text-red-600 flex-shrink-0" />
+                              <span className="truncate">{m.customer_name || m.customer_id}</span>
+                            </li>
+                          ))}
+                        </ul>
+                      )}
+                    </div>
+                  </div>
+                </div>
+              )}
+
+              {/* Per-rule results */}
+              {result.rules.length === 0 ? (
+                <p className="text-sm text-gray-500 text-center py-8">No active rules to evaluate.</p>
+              ) : result.rules.map((rule, index) => (
+                <div key={rule.rule_id || `draft-${index}`} className="border border-gray-200 rounded-xl">
+                  <div className="flex items-center justify-between flex-wrap gap-2 px-4 py-3 bg-gray-50 rounded-t-xl border-b border-gray-200">
+                    <div className="flex items-center gap-2">
+                      <h3 className="text-sm font-semibold text-gray-900">{rule.rule_name}</h3>
+                      {rule.is_draft && (
+                        <span className="px-2 py-0.5 rounded-full text-[10px] font-semibold bg-teal-100 text-teal-700 uppercase">
+                          Draft
+                        </span>
+                      )}
+                      <span className="text-xs text-gray-500">{ACTION_TYPE_LABELS[rule.action_type] || 'Ticket Only'}</span>
+                    </div>
+                    <p className="text-xs text-gray-600">
+                      {rule.customers_matched} matched · {rule.tickets_created} new · {rule.tickets_updated} updated · {rule.invoices_added} invoices · {rule.emails} emails
+                    </p>
+                  </div>
+
+                  {rule.matches.length === 0 ? (
+                    <p className="text-xs text-gray-400 px-4 py-4">No customers match on {result.as_of}.</p>
+                  ) : (
+                    <div className="divide-y divide-gray-100 max-h-96 overflow-y-auto">
+                      {rule.matches.map(match => (
+                        <div key={match.customer_id} className="px-4 py-3">
+                          <div className="flex items-start justify-between gap-4">
+                            <div className="min-w-0">
+                              <p className="text-sm font-medium text-gray-900 truncate">
+                                {match.customer_name || match.customer_id}
+                              </p>
+                              <p className="text-xs text-gray-500">
+                                {match.customer_id} · {match.invoice_count} open invoice{match.invoice_count === 1 ? '' : 's'} · {formatCurrency(match.open_balance)}
+                              </p>
+                            </div>
+                            <span className={`px-2 py-0.5 rounded-full text-[10px] font-semibold uppercase flex-shrink-0 ${
+                              match.ticket_action === 'create' ? 'bg-blue-100 text-blue-700' :
+                              match.ticket_action === 'update' ? 'bg-amber-100 text-amber-700' :
+                              'bg-gray-100 text-gray-500'
+                            }`}>
+                              {match.ticket_action === 'create' ? 'New ticket' :
+                                match.ticket_action === 'update' ? `+${match.new_invoice_count} to ticket` :
+                                'Already on ticket'}
+                            </span>
+                          </div>
+                          <div className="mt-2 flex flex-wrap gap-1.5">
+                            {match.conditions.map((condition, i) => (
+                              <span
+                                key={i}
+                                className={`inline-flex items-center gap-1 px-2 py-0.5 rounded text-[11px] font-medium ${
+                                  condition.met ? 'bg-green-50 text-green-700' : 'bg-gray-100 text-gray-500'
+                                }`}
+                              >
+                                {condition.met ? <Check className="w-3 h-3" /> : <X className="w-3 h-3" />}
+                                {CONDITION_TYPE_LABELS[condition.condition_type] || condition.condition_type}:
+                                {' '}{describeActual(condition)} ({describeThreshold(condition)})
+                              </span>
+                            ))}
+                          </div>
+                        </div>
+                      ))}
+                    </div>
+                  )}
+                </div>
+              ))}
+            </>
+          )}
+        </div>
+
+        {/* Footer */}
+        <div className="px-6 py-4 flex items-center justify-end gap-3 bg-gray-50 rounded-b-xl">
+          <button
+            type="button"
+            onClick={onClose}
+            className="px-4 py-2.5 border border-gray-300 rounded-lg text-sm font-medium text-gray-700 hover:bg-gray-50 transition-colors"
+          >
+            Close
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
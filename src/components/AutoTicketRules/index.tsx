@@ -1,11 +1,14 @@
 import { useState, useEffect } from 'react';
 import {
   ArrowLeft, Plus, Edit2, Trash2, Power, PowerOff, Play, Loader2,
-  Clock, Save, Check, Zap, Mail, Bell, Ticket, Filter, AlertTriangle,
+  Clock, Save, Check, Zap, Mail, Bell, Ticket, Filter, AlertTriangle, FlaskConical,
 } from 'lucide-react';
 import { supabase } from '../../lib/supabase';
 import { useToast } from '../../contexts/ToastContext';
+import { usePermissions } from '../../contexts/PermissionsContext';
+import { PERMISSIONS } from '../../lib/permissions';
 import RuleFormModal from './RuleFormModal';
+import RuleSimulatorModal from './RuleSimulatorModal';
 import {
   AutoTicketRule,
   Collector,
@@ -29,6 +32,7 @@ export default function AutoTicketRulesPage({ onBack }: AutoTicketRulesPageProps
   const [isModalOpen, setIsModalOpen] = useState(false);
   const [editingRule, setEditingRule] = useState<AutoTicketRule | null>(null);
   const [processing, setProcessing] = useState(false);
+  const [simulation, setSimulation] = useState<{ title: string; ruleId?: string } | null>(null);
 
   const [scheduleHour, setScheduleHour] = useState(6);
   const [scheduleMinute, setScheduleMinute] = useState(0);
@@ -36,6 +40,10 @@ export default function AutoTicketRulesPage({ onBack }: AutoTicketRulesPageProps
   const [scheduleSaved, setScheduleSaved] = useState(false);
 
   const { showToast } = useToast();
+  const { can } = usePermissions();
+  const canCreate = can(PERMISSIONS.AUTO_TICKET_RULES, 'create');
+  const canEdit = can(PERMISSIONS.AUTO_TICKET_RULES, 'edit');
+  const canDelete = can(PERMISSIONS.AUTO_TICKET_RULES, 'delete');
 
   const EST_OFFSET = -5;
   const utcToEst = (utcHour: number) => {
@@ -322,21 +330,30 @@ export default function AutoTicketRulesPage({ onBack }: AutoTicketRulesPageProps
           </div>
         </div>
         <div className="flex space-x-3">
+          <button
+            onClick={() => setSimulation({ title: 'All active rules' })}
+            className="flex items-center space-x-2 px-4 py-2.5 border border-teal-300 text-teal-700 rounded-lg hover:bg-teal-50 text-sm font-medium"
+          >
+            <FlaskConical className="w-4 h-4" />
+            <span>Dry Run</span>
+          </button>
           <button
             onClick={handleTestRun}
-            disabled={processing}
+            disabled={processing || !canEdit}
             className="flex items-center space-x-2 px-4 py-2.5 bg-green-600 text-white rounded-lg hover:bg-green-700 disabled:opacity-50 text-sm font-medium"
           >
             {processing ? <Loader2 className="w-4 h-4 animate-spin" /> : <Play className="w-4 h-4" />}
             <span>Run Now</span>
           </button>
-          <button
-            onClick={() => { setEditingRule(null); setIsModalOpen(true); }}
-            className="flex items-center space-x-2 px-4 py-2.5 bg-blue-600 text-white rounded-lg hover:bg-blue-700 text-sm font-medium"
-          >
-            <Plus className="w-4 h-4" />
-            <span>New Rule</span>
-          </button>
+          {canCreate && (
+            <button
+              onClick={() => { setEditingRule(null); setIsModalOpen(true); }}
+              className="flex items-center space-x-2 px-4 py-2.5 bg-blue-600 text-white rounded-lg hover:bg-blue-700 text-sm font-medium"
+            >
+              <Plus className="w-4 h-4" />
+              <span>New Rule</span>
+            </button>
+          )}
         </div>
       </div>
 
@@ -384,7 +401,7 @@ export default function AutoTicketRulesPage({ onBack }: AutoTicketRulesPageProps
             </div>
             <button
               onClick={saveSchedule}
-              disabled={scheduleLoading}
+              disabled={scheduleLoading || !canEdit}
               className={`flex items-center gap-1.5 px-3 py-2 rounded-lg text-sm font-medium transition-colors ${
                 scheduleSaved
                   ? 'bg-green-100 text-green-700 border border-green-300'
@@ -440,12 +457,14 @@ export default function AutoTicketRulesPage({ onBack }: AutoTicketRulesPageProps
           <p className="text-gray-500 text-sm mb-6 max-w-md mx-auto">
             Create rules to automatically monitor customer behavior and trigger alerts when conditions are met.
           </p>
-          <button
-            onClick={() => { setEditingRule(null); setIsModalOpen(true); }}
-            className="px-5 py-2.5 bg-blue-600 text-white rounded-lg hover:bg-blue-700 text-sm font-medium"
-          >
-            Create your first rule
-          </button>
+          {canCreate && (
+            <button
+              onClick={() => { setEditingRule(null); setIsModalOpen(true); }}
+              className="px-5 py-2.5 bg-blue-600 text-white rounded-lg hover:bg-blue-700 text-sm font-medium"
+            >
+              Create your first rule
+            </button>
+          )}
         </div>
       ) : (
         <div className="space-y-3">
@@ -510,25 +529,37 @@ export default function AutoTicketRulesPage({ onBack }: AutoTicketRulesPageProps
                 <div className="flex items-center gap-1.5 flex-shrink-0">
                   <button
                     onClick={() => handleToggleActive(rule)}
+                    disabled={!canEdit}
                     className={`p-2 rounded-lg transition-colors ${rule.active ? 'text-green-600 hover:bg-green-50' : 'text-gray-400 hover:bg-gray-50'}`}
                     title={rule.active ? 'Disable' : 'Enable'}
                   >
                     {rule.active ? <Power className="w-4 h-4" /> : <PowerOff className="w-4 h-4" />}
                   </button>
                   <button
-                    onClick={() => handleEdit(rule)}
-                    className="p-2 rounded-lg text-blue-600 hover:bg-blue-50 transition-colors"
-                    title="Edit"
+                    onClick={() => setSimulation({ title: rule.rule_name || rule.customer_name || 'Unnamed Rule', ruleId: rule.id })}
+                    className="p-2 rounded-lg text-teal-600 hover:bg-teal-50 transition-colors"
+                    title="Dry run"
                   >
-                    <Edit2 className="w-4 h-4" />
-                  </button>
-                  <button
-                    onClick={() => handleDelete(rule)}
-                    className="p-2 rounded-lg text-red-500 hover:bg-red-50 transition-colors"
-                    title="Delete"
-                  >
-                    <Trash2 className="w-4 h-4" />
+                    <FlaskConical className="w-4 h-4" />
                   </button>
+                  {canEdit && (
+                    <button
+                      onClick={() => handleEdit(rule)}
+                      className="p-2 rounded-lg text-blue-600 hover:bg-blue-50 transition-colors"
+                      title="Edit"
+                    >
+                      <Edit2 className="w-4 h-4" />
+                    </button>
+                  )}
+                  {canDelete && (
+                    <button
+                      onClick={() => handleDelete(rule)}
+                      className="p-2 rounded-lg text-red-500 hover:bg-red-50 transition-colors"
+                      title="Delete"
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </button>
+                  )}
                 </div>
               </div>
             </div>
@@ -545,6 +576,14 @@ export default function AutoTicketRulesPage({ onBack }: AutoTicketRulesPageProps
         onClose={() => { setIsModalOpen(false); setEditingRule(null); }}
         onSaved={fetchRules}
       />
+
+      {simulation && (
+        <RuleSimulatorModal
+          title={simulation.title}
+          ruleId={simulation.ruleId}
+          onClose={() => setSimulation(null)}
+        />
+      )}
     </div>
   );
 }
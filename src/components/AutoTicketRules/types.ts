@@ -10,7 +10,9 @@ export type ConditionType =
   | 'invoice_amount_threshold'
   | 'overdue_percentage'
   | 'payment_frequency_change'
-  | 'total_overdue_amount';
+  | 'total_overdue_amount'
+  | 'risk_score'
+  | 'credit_limit_utilization';
 
 export type Operator = 'gt' | 'lt' | 'gte' | 'lte' | 'eq' | 'between' | 'pct_drop';
 
@@ -85,6 +87,44 @@ export interface TicketType {
   color: string;
 }
 
+export interface SimulatedCondition {
+  condition_type: ConditionType;
+  operator: Operator;
+  value_numeric: number | null;
+  value_numeric_max: number | null;
+  actual: number | null;
+  met: boolean;
+}
+
+export interface SimulatedMatch {
+  customer_id: string;
+  customer_name: string | null;
+  conditions: SimulatedCondition[];
+  invoice_count: number;
+  open_balance: number;
+  ticket_action: 'create' | 'update' | 'none';
+  existing_ticket_id: string | null;
+  new_invoice_count: number;
+}
+
+export interface SimulatedRule {
+  rule_id: string | null;
+  rule_name: string;
+  is_draft: boolean;
+  action_type: ActionType;
+  customers_matched: number;
+  tickets_created: number;
+  tickets_updated: number;
+  invoices_added: number;
+  emails: number;
+  matches: SimulatedMatch[];
+}
+
+export interface SimulationResult {
+  as_of: string;
+  rules: SimulatedRule[];
+}
+
 export const CONDITION_TYPE_LABELS: Record<ConditionType, string> = {
   balance_threshold: 'Customer Balance Threshold',
   invoice_count_overdue: 'Number of Overdue Invoices',
@@ -96,6 +136,8 @@ export const CONDITION_TYPE_LABELS: Record<ConditionType, string> = {
   overdue_percentage: 'Percentage of Invoices Overdue',
   payment_frequency_change: 'Payment Frequency Change',
   total_overdue_amount: 'Total Overdue Amount',
+  risk_score: 'Customer Risk Score',
+  credit_limit_utilization: 'Credit Limit Utilization',
 };
 
 export const CONDITION_TYPE_DESCRIPTIONS: Record<ConditionType, string> = {
@@ -109,6 +151,8 @@ export const CONDITION_TYPE_DESCRIPTIONS: Record<ConditionType, string> = {
   overdue_percentage: 'Triggers when a certain percentage of a customer\'s invoices are past due',
   payment_frequency_change: 'Detects changes in how often a customer pays (e.g., went from weekly to monthly)',
   total_overdue_amount: 'Triggers when the total overdue balance exceeds a threshold',
+  risk_score: 'Triggers on the customer\'s nightly risk score from 0 to 100 (e.g., score > 70 for critical-risk customers)',
+  credit_limit_utilization: 'Triggers when the balance net of credits reaches a percentage of the customer\'s credit limit (e.g., > 100% for over-limit customers). Customers without a limit never match',
 };
 
 export const OPERATOR_LABELS: Record<Operator, string> = {
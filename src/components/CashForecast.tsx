@@ -0,0 +1,9 @@
+import CashForecastPage from './CashForecast/index';
+
+interface CashForecastProps {
+  onBack: () => void;
+}
+
+export default function CashForecast({ onBack }: CashForecastProps) {
+  return <CashForecastPage onBack={onBack} />;
+}
@@ -0,0 +1,159 @@
+import { useState, useEffect } from 'react';
+import { X, Loader2, ExternalLink } from 'lucide-react';
+import { supabase } from '../../lib/supabase';
+import { useOrgNavigation } from '../../hooks/useOrgNavigation';
+import { useToast } from '../../contexts/ToastContext';
+import { formatDate } from '../../lib/dateUtils';
+import { ForecastGroup, ForecastInvoice, BASIS_LABELS, BASIS_STYLES, formatCurrency } from './types';
+
+interface CustomerForecastModalProps {
+  customer: ForecastGroup;
+  asOf: string;
+  closedWeeks: string[];
+  onClose: () => void;
+}
+
+export default function CustomerForecastModal({ customer, asOf, closedWeeks, onClose }: CustomerForecastModalProps) {
+  const { showToast } = useToast();
+  const { navigate } = useOrgNavigation();
+
+  const [invoices, setInvoices] = useState<ForecastInvoice[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    fetchInvoices();
+  }, [customer.id, asOf]);
+
+  const fetchInvoices = async () => {
+    setLoading(true);
+    try {
+      const { data, error } = await supabase.rpc('get_cash_forecast_customer_invoices', {
+        p_customer_id: customer.id,
+        p_as_of: asOf,
+      });
+      if (error) throw error;
+      setInvoices(data || []);
+    } catch (error: any) {
+      showToast(error.message, 'error');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const reportedWeeks = closedWeeks.filter(week => customer.weeks[week]?.forecast != null || customer.weeks[week]?.actual);
+
+  return (
+    <div className="fixed inset-0 bg-black/50 flex items-start justify-center z-50 p-4 overflow-y-auto">
+      <div className="bg-white rounded-xl shadow-2xl w-full max-w-4xl my-8">
+        <div className="flex items-start justify-between px-6 py-4 border-b border-gray-200">
+          <div>
+            <h2 className="text-xl font-bold text-gray-900">{customer.name}</h2>
+            <p className="text-sm text-gray-500 mt-0.5">
+              {formatCurrency(customer.total)} expected over 13 weeks
+              {customer.promised > 0 && ` · ${formatCurrency(customer.promised)} promised`}
+            </p>
+          </div>
+          <div className="flex items-center gap-2">
+            <button
+              onClick={() => navigate(`/customers?customer=${customer.id}`)}
+              className="flex items-center gap-1.5 px-3 py-1.5 text-sm text-blue-600 hover:bg-blue-50 rounded-lg"
+            >
+              <ExternalLink className="w-4 h-4" />
+              Customer
+            </button>
+            <button onClick={onClose} className="p-2 hover:bg-gray-100 rounded-lg transition-colors">
+              <X className="w-5 h-5 text-gray-500" />
+            </button>
+          </div>
+        </div>
+
+        <div className="divide-y divide-gray-100">
+          {reportedWeeks.length > 0 && (
+            <div className="px-6 py-5">
+              <h3 className="text-sm font-semibold text-gray-900 mb-3">Forecast vs Actual</h3>
+              <div className="overflow-x-auto">
+                <table className="w-full text-sm">
+                  <thead>
+                    <tr className="text-xs text-gray-500 uppercase">
+                      <th className="text-left py-2 pr-4 font-semibold">Week of</th>
+                      <th className="text-right py-2 px-4 font-semibold">Forecast</th>
+                      <th className="text-right py-2 px-4 font-semibold">Actual</th>
+                      <th className="text-right py-2 pl-4 font-semibold">Variance</th>
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-gray-100">
+                    {reportedWeeks.map(week => {
+                      const cell = customer.weeks[week];
+                      const variance = cell.forecast == null ? null : cell.actual - cell.forecast;
+                      return (
+                        <tr key={week}>
+                          <td className="py-2 pr-4 text-gray-700">{formatDate(week)}</td>
+                          <td className="py-2 px-4 text-right text-gray-700">
+                            {cell.forecast == null ? '—' : formatCurrency(cell.forecast)}
+                          </td>
+                          <td className="py-2 px-4 text-right text-gray-900 font-medium">{formatCurrency(cell.actual)}</td>
+                          <td className={`py-2 pl-4 text-right font-medium ${
+                            variance == null ? 'text-gray-400' : variance >= 0 ? 'text-green-700' : 'text-red-700'
+                          }`}>
+                            {variance == null ? '—' : `${variance >= 0 ? '+' : '-'}${formatCurrency(Math.abs(variance))}`}
+                          </td>
+                        </tr>
+                      );
+                    })}
+                  </tbody>
+                </table>
+              </div>
+            </div>
+          )}
+
+          <div className="px-6 py-5">
+            <h3 className="text-sm font-semibold text-gray-900 mb-3">Open Invoices</h3>
+            {loading ? (
+              <div className="flex items-center justify-center h-32">
+                <Loader2 className="w-6 h-6 animate-spin text-blue-600" />
+              </div>
+            ) : invoices.length === 0 ? (
+              <p className="text-sm text-gray-500">No open invoices in the forecast.</p>
+            ) : (
+              <div className="overflow-x-auto">
+                <table className="w-full text-sm">
+                  <thead>
+                    <tr className="text-xs text-gray-500 uppercase">
+                      <th className="text-left py-2 pr-4 font-semibold">Invoice</th>
+                      <th className="text-left py-2 px-4 font-semibold">Due</th>
+                      <th className="text-left py-2 px-4 font-semibold">Promised</th>
+                      <th className="text-left py-2 px-4 font-semibold">Expected</th>
+                      <th className="text-left py-2 px-4 font-semibold">Basis</th>
+                      <th className="text-right py-2 pl-4 font-semibold">Balance</th>
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-gray-100">
+                    {invoices.map(inv => (
+                      <tr key={inv.reference_number}>
+                        <td className="py-2 pr-4 font-medium text-gray-900">{inv.reference_number}</td>
+                        <td className="py-2 px-4 text-gray-600">{formatDate(inv.due_date)}</td>
+                        <td className="py-2 px-4 text-gray-600">{inv.promise_date ? formatDate(inv.promise_date) : '—'}</td>
+                        <td className="py-2 px-4 text-gray-900">{formatDate(inv.expected_date)}</td>
+                        <td className="py-2 px-4">
+                          <span className={`px-2 py-0.5 rounded-full text-[10px] font-semibold uppercase ${BASIS_STYLES[inv.basis]}`}>
+                            {BASIS_LABELS[inv.basis]}
+                          </span>
+                          {inv.basis === 'history' && inv.avg_days_late != null && (
+                            <span className="ml-2 text-xs text-gray-500">
+                              {inv.avg_days_late > 0 ? `${Math.round(inv.avg_days_late)}d late avg` : 'pays on time'}
+                            </span>
+                          )}
+                        </td>
+                        <td className="py-2 pl-4 text-right text-gray-900">{formatCurrency(inv.balance)}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,385 @@
+import { useState, useEffect } from 'react';
+import { ArrowLeft, Loader2, Search, Download, RefreshCw, ChevronRight } from 'lucide-react';
+import { supabase } from '../../lib/supabase';
+import { useToast } from '../../contexts/ToastContext';
+import { formatDate } from '../../lib/dateUtils';
+import { exportToExcel, ExcelColumn } from '../../lib/excelExport';
+import CustomerForecastModal from './CustomerForecastModal';
+import { CashForecast, ForecastGroup, GroupBy, formatCurrency } from './types';
+
+interface CashForecastPageProps {
+  onBack: () => void;
+}
+
+const HISTORY_WEEKS = 8;
+
+const todayString = () => new Date().toISOString().split('T')[0];
+
+const shortWeek = (week: string) => {
+  const [, month, day] = week.split('-').map(Number);
+  return `${month}/${day}`;
+};
+
+export default function CashForecastPage({ onBack }: CashForecastPageProps) {
+  const [forecast, setForecast] = useState<CashForecast | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [asOf, setAsOf] = useState(todayString());
+
+  const [groupBy, setGroupBy] = useState<GroupBy>('customer');
+  const [collectorFilter, setCollectorFilter] = useState<string | null>(null);
+  const [search, setSearch] = useState('');
+  const [selectedCustomer, setSelectedCustomer] = useState<ForecastGroup | null>(null);
+
+  const { showToast } = useToast();
+
+  useEffect(() => {
+    fetchForecast();
+  }, [asOf]);
+
+  const fetchForecast = async () => {
+    setLoading(true);
+    try {
+      const { data, error } = await supabase.rpc('get_cash_forecast', {
+        p_as_of: asOf,
+        p_history_weeks: HISTORY_WEEKS,
+      });
+      if (error) throw error;
+      setForecast(data);
+    } catch (error: any) {
+      showToast(error.message, 'error');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  if (loading || !forecast) {
+    return (
+      <div className="flex items-center justify-center h-64">
+        <Loader2 className="w-8 h-8 animate-spin text-blue-600" />
+      </div>
+    );
+  }
+
+  const openWeeks = forecast.weeks.filter(w => !w.closed);
+  const closedWeeks = forecast.weeks.filter(w => w.closed);
+  const openWeekStarts = openWeeks.map(w => w.week_start);
+  const closedWeekStarts = closedWeeks.map(w => w.week_start);
+
+  const horizonTotal = openWeeks.reduce((sum, w) => sum + w.expected, 0);
+  const promisedTotal = openWeeks.reduce((sum, w) => sum + w.promised, 0);
+  const trackedWeeks = closedWeeks.filter(w => w.forecast != null);
+  const trackedForecast = trackedWeeks.reduce((sum, w) => sum + (w.forecast || 0), 0);
+  const trackedActual = trackedWeeks.reduce((sum, w) => sum + (w.actual || 0), 0);
+  const accuracy = trackedForecast > 0 ? Math.round((trackedActual / trackedForecast) * 100) : null;
+  const maxWeekAmount = Math.max(
+    1,
+    ...forecast.weeks.map(w => Math.max(w.expected, w.forecast || 0, w.actual || 0))
+  );
+
+  const groups = new Map<string, ForecastGroup>();
+  forecast.rows.forEach(row => {
+    if (groupBy === 'customer' && collectorFilter && row.collector_id !== collectorFilter) return;
+    const id = groupBy === 'customer' ? row.customer_id : row.collector_id || 'unassigned';
+    const name = groupBy === 'customer'
+      ? row.customer_name || row.customer_id
+      : row.collector_name || 'Unassigned';
+    const group = groups.get(id) || { id, name, weeks: {}, total: 0, promised: 0 };
+    const cell = group.weeks[row.week_start] || { expected: 0, forecast: null, actual: 0 };
+    cell.expected += row.expected || 0;
+    cell.actual += row.actual || 0;
+    if (row.forecast != null) cell.forecast = (cell.forecast || 0) + row.forecast;
+    group.weeks[row.week_start] = cell;
+    group.total += row.expected || 0;
+    group.promised += row.promised || 0;
+    groups.set(id, group);
+  });
+
+  const term = search.trim().toLowerCase();
+  const groupRows = Array.from(groups.values())
+    .filter(g => !term || g.name.toLowerCase().includes(term) || g.id.toLowerCase().includes(term))
+    .sort((a, b) => b.total - a.total);
+
+  const pastTotals = (group: ForecastGroup) =>
+    closedWeekStarts.reduce(
+      (acc, week) => {
+        const cell = group.weeks[week];
+        if (!cell) return acc;
+        return { forecast: acc.forecast + (cell.forecast || 0), actual: acc.actual + cell.actual };
+      },
+      { forecast: 0, actual: 0 }
+    );
+
+  const collectorFilterName = collectorFilter
+    ? forecast.rows.find(r => r.collector_id === collectorFilter)?.collector_name || 'Collector'
+    : null;
+
+  const handleGroupClick = (group: ForecastGroup) => {
+    if (groupBy === 'customer') {
+      setSelectedCustomer(group);
+    } else if (group.id !== 'unassigned') {
+      setCollectorFilter(group.id);
+      setGroupBy('customer');
+    }
+  };
+
+  const handleExport = () => {
+    const columns: ExcelColumn[] = [
+      { header: groupBy === 'customer' ? 'Customer' : 'Collector', key: 'name', width: 32 },
+      ...(groupBy === 'customer' ? [{ header: 'Customer ID', key: 'id', width: 15 }] : []),
+      ...openWeekStarts.map(week => ({ header: `Wk ${shortWeek(week)}`, key: week, width: 12 })),
+      { header: '13-Week Total', key: 'total', width: 15 },
+      { header: 'Promised', key: 'promised', width: 14 },
+      { header: `Forecast (last ${HISTORY_WEEKS} wks)`, key: 'past_forecast', width: 20 },
+      { header: `Actual (last ${HISTORY_WEEKS} wks)`, key: 'past_actual', width: 20 },
+    ];
+
+    const data = groupRows.map(group => {
+      const past = pastTotals(group);
+      const row: Record<string, string | number> = {
+        name: group.name,
+        id: group.id,
+        total: Math.round(group.total * 100) / 100,
+        promised: Math.round(group.promised * 100) / 100,
+        past_forecast: Math.round(past.forecast * 100) / 100,
+        past_actual: Math.round(past.actual * 100) / 100,
+      };
+      openWeekStarts.forEach(week => {
+        row[week] = Math.round((group.weeks[week]?.expected || 0) * 100) / 100;
+      });
+      return row;
+    });
+
+    exportToExcel({
+      filename: `cash_forecast_${asOf}`,
+      sheetName: 'Cash Forecast',
+      title: '13-Week Cash Receipts Forecast',
+      subtitle: `As of ${formatDate(asOf)}${collectorFilterName ? ` - ${collectorFilterName}` : ''} - by ${groupBy}`,
+      columns,
+      data,
+    });
+  };
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex items-center justify-between flex-wrap gap-4">
+        <div className="flex items-center space-x-4">
+          <button onClick={onBack} className="p-2 hover:bg-gray-100 rounded-lg transition-colors">
+            <ArrowLeft className="w-5 h-5" />
+          </button>
+          <div>
+            <h1 className="text-2xl font-bold text-gray-900">Cash Forecast</h1>
+            <p className="text-gray-600 mt-0.5 text-sm">
+              Expected collections for the next 13 weeks from due dates, payment history and promises
+            </p>
+          </div>
+        </div>
+        <div className="flex items-center gap-2">
+          <input
+            type="date"
+            value={asOf}
+            onChange={(e) => e.target.value && setAsOf(e.target.value)}
+            className="px-3 py-2 border border-gray-300 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+          />
+          <button
+            onClick={fetchForecast}
+            className="p-2.5 border border-gray-300 rounded-lg hover:bg-gray-50"
+            title="Refresh"
+          >
+            <RefreshCw className="w-4 h-4 text-gray-600" />
+          </button>
+          <button
+            onClick={handleExport}
+            disabled={groupRows.length === 0}
+            className="flex items-center space-x-2 px-4 py-2.5 bg-green-600 text-white rounded-lg hover:bg-green-700 disabled:opacity-50 text-sm font-medium"
+          >
+            <Download className="w-4 h-4" />
+            <span>Export</span>
+          </button>
+        </div>
+      </div>
+
+      {/* Summary */}
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+        <div className="bg-white rounded-xl border border-gray-200 p-4">
+          <p className="text-xs text-gray-500 uppercase font-semibold">Next 13 Weeks</p>
+          <p className="text-2xl font-bold text-gray-900 mt-1">{formatCurrency(horizonTotal)}</p>
+          {forecast.beyond_horizon > 0 && (
+            <p className="text-xs text-gray-500 mt-1">+{formatCurrency(forecast.beyond_horizon)} expected later</p>
+          )}
+        </div>
+        <div className="bg-white rounded-xl border border-gray-200 p-4">
+          <p className="text-xs text-gray-500 uppercase font-semibold">Backed by Promises</p>
+          <p className="text-2xl font-bold text-green-700 mt-1">{formatCurrency(promisedTotal)}</p>
+          <p className="text-xs text-gray-500 mt-1">
+            {horizonTotal > 0 ? Math.round((promisedTotal / horizonTotal) * 100) : 0}% of the forecast
+          </p>
+        </div>
+        <div className="bg-white rounded-xl border border-gray-200 p-4">
+          <p className="text-xs text-gray-500 uppercase font-semibold">Stale, Not Forecast</p>
+          <p className="text-2xl font-bold text-red-700 mt-1">{formatCurrency(forecast.stale.amount)}</p>
+          <p className="text-xs text-gray-500 mt-1">
+            {forecast.stale.invoice_count} invoices expected 90+ days ago
+          </p>
+        </div>
+        <div className="bg-white rounded-xl border border-gray-200 p-4">
+          <p className="text-xs text-gray-500 uppercase font-semibold">Actual vs Forecast</p>
+          <p className="text-2xl font-bold text-gray-900 mt-1">{accuracy == null ? '—' : `${accuracy}%`}</p>
+          <p className="text-xs text-gray-500 mt-1">
+            {trackedWeeks.length > 0
+              ? `${formatCurrency(trackedActual)} of ${formatCurrency(trackedForecast)} over ${trackedWeeks.length} closed weeks`
+              : 'No closed weeks captured yet'}
+          </p>
+        </div>
+      </div>
+
+      {/* Weekly view */}
+      <div className="bg-white rounded-xl border border-gray-200 p-5">
+        <div className="flex items-center justify-between mb-4 flex-wrap gap-2">
+          <h2 className="text-lg font-semibold text-gray-900">By Week</h2>
+          <div className="flex items-center gap-4 text-xs text-gray-600">
+            <span className="flex items-center gap-1.5"><span className="w-3 h-3 rounded-sm bg-green-500" />Promised</span>
+            <span className="flex items-center gap-1.5"><span className="w-3 h-3 rounded-sm bg-blue-500" />Payment history</span>
+            <span className="flex items-center gap-1.5"><span className="w-3 h-3 rounded-sm bg-gray-400" />Due date</span>
+            <span className="flex items-center gap-1.5"><span className="w-3 h-3 rounded-sm bg-amber-400" />Forecast (closed)</span>
+            <span className="flex items-center gap-1.5"><span className="w-3 h-3 rounded-sm bg-emerald-700" />Actual</span>
+          </div>
+        </div>
+        <div className="space-y-1.5">
+          {forecast.weeks.map(week => (
+            <div key={week.week_start} className="flex items-center gap-3 text-xs">
+              <span className={`w-20 shrink-0 ${week.week_start === forecast.current_week ? 'font-bold text-blue-700' : 'text-gray-600'}`}>
+                {formatDate(week.week_start)}
+              </span>
+              <div className="flex-1 space-y-0.5">
+                {week.closed ? (
+                  <>
+                    <div className="h-2.5 rounded-sm bg-amber-400" style={{ width: `${((week.forecast || 0) / maxWeekAmount) * 100}%` }} />
+                    <div className="h-2.5 rounded-sm bg-emerald-700" style={{ width: `${((week.actual || 0) / maxWeekAmount) * 100}%` }} />
+                  </>
+                ) : (
+                  <div className="flex h-5 rounded-sm overflow-hidden" style={{ width: `${(week.expected / maxWeekAmount) * 100}%` }}>
+                    <div className="bg-green-500" style={{ flexGrow: week.promised }} />
+                    <div className="bg-blue-500" style={{ flexGrow: week.historical }} />
+                    <div className="bg-gray-400" style={{ flexGrow: week.due }} />
+                  </div>
+                )}
+              </div>
+              <span className="w-44 shrink-0 text-right text-gray-900">
+                {week.closed
+                  ? `${week.forecast == null ? '—' : formatCurrency(week.forecast)} / ${formatCurrency(week.actual)}`
+                  : formatCurrency(week.expected)}
+              </span>
+            </div>
+          ))}
+        </div>
+      </div>
+
+      {/* Drill-down */}
+      <div className="bg-white rounded-xl border border-gray-200">
+        <div className="flex items-center justify-between px-5 py-4 border-b border-gray-200 flex-wrap gap-3">
+          <div className="flex items-center gap-3">
+            <div className="flex rounded-lg border border-gray-300 overflow-hidden text-sm">
+              {(['customer', 'collector'] as GroupBy[]).map(option => (
+                <button
+                  key={option}
+                  onClick={() => {
+                    setGroupBy(option);
+                    setCollectorFilter(null);
+                  }}
+                  className={`px-3 py-1.5 ${groupBy === option ? 'bg-blue-600 text-white' : 'bg-white text-gray-700 hover:bg-gray-50'}`}
+                >
+                  By {option === 'customer' ? 'Customer' : 'Collector'}
+                </button>
+              ))}
+            </div>
+            {collectorFilterName && (
+              <button
+                onClick={() => setCollectorFilter(null)}
+                className="px-2.5 py-1 rounded-full bg-blue-50 text-blue-700 text-xs font-medium hover:bg-blue-100"
+              >
+                {collectorFilterName} ×
+              </button>
+            )}
+          </div>
+          <div className="relative">
+            <Search className="w-4 h-4 text-gray-400 absolute left-3 top-1/2 -translate-y-1/2" />
+            <input
+              type="text"
+              value={search}
+              onChange={(e) => setSearch(e.target.value)}
+              placeholder={`Search ${groupBy === 'customer' ? 'customers' : 'collectors'}...`}
+              className="pl-9 pr-3 py-2 border border-gray-300 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+            />
+          </div>
+        </div>
+        <div className="overflow-x-auto">
+          <table className="w-full text-sm">
+            <thead className="bg-gray-50">
+              <tr className="text-xs text-gray-500 uppercase">
+                <th className="text-left py-2.5 px-4 font-semibold sticky left-0 bg-gray-50">
+                  {groupBy === 'customer' ? 'Customer' : 'Collector'}
+                </th>
+                <th className="text-right py-2.5 px-3 font-semibold whitespace-nowrap">Last {HISTORY_WEEKS} wks F / A</th>
+                {openWeekStarts.map(week => (
+                  <th key={week} className="text-right py-2.5 px-3 font-semibold whitespace-nowrap">{shortWeek(week)}</th>
+                ))}
+                <th className="text-right py-2.5 px-4 font-semibold">Total</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-100">
+              {groupRows.length === 0 ? (
+                <tr>
+                  <td colSpan={openWeekStarts.length + 3} className="py-10 text-center text-gray-500">
+                    No expected collections match.
+                  </td>
+                </tr>
+              ) : (
+                groupRows.map(group => {
+                  const past = pastTotals(group);
+                  return (
+                    <tr
+                      key={group.id}
+                      onClick={() => handleGroupClick(group)}
+                      className="hover:bg-gray-50 cursor-pointer"
+                    >
+                      <td className="py-2 px-4 sticky left-0 bg-white">
+                        <div className="flex items-center gap-1 font-medium text-gray-900 whitespace-nowrap">
+                          {group.name}
+                          <ChevronRight className="w-3.5 h-3.5 text-gray-400" />
+                        </div>
+                        {group.promised > 0 && (
+                          <p className="text-xs text-green-700">{formatCurrency(group.promised)} promised</p>
+                        )}
+                      </td>
+                      <td className="py-2 px-3 text-right text-xs text-gray-600 whitespace-nowrap">
+                        {formatCurrency(past.forecast)} / {formatCurrency(past.actual)}
+                      </td>
+                      {openWeekStarts.map(week => (
+                        <td key={week} className="py-2 px-3 text-right text-gray-700 whitespace-nowrap">
+                          {group.weeks[week]?.expected ? formatCurrency(group.weeks[week].expected) : ''}
+                        </td>
+                      ))}
+                      <td className="py-2 px-4 text-right font-semibold text-gray-900 whitespace-nowrap">
+                        {formatCurrency(group.total)}
+                      </td>
+                    </tr>
+                  );
+                })
+              )}
+            </tbody>
+          </table>
+        </div>
+      </div>
+
+      {selectedCustomer && (
+        <CustomerForecastModal
+          customer={selectedCustomer}
+          asOf={asOf}
+          closedWeeks={closedWeekStarts}
+          onClose={() => setSelectedCustomer(null)}
+        />
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,73 @@
+export type ForecastBasis = 'promise' | 'history' | 'due_date' | 'stale';
+
+export interface ForecastWeek {
+  week_start: string;
+  closed: boolean;
+  expected: number;
+  promised: number;
+  historical: number;
+  due: number;
+  forecast: number | null;
+  actual: number | null;
+}
+
+export interface ForecastRow {
+  week_start: string;
+  customer_id: string;
+  customer_name: string | null;
+  collector_id: string | null;
+  collector_name: string | null;
+  expected: number | null;
+  promised: number | null;
+  invoice_count: number | null;
+  forecast: number | null;
+  actual: number | null;
+}
+
+export interface CashForecast {
+  as_of: string;
+  current_week: string;
+  weeks: ForecastWeek[];
+  rows: ForecastRow[];
+  stale: { amount: number; invoice_count: number };
+  beyond_horizon: number;
+}
+
+export interface ForecastInvoice {
+  reference_number: string;
+  invoice_date: string;
+  due_date: string;
+  balance: number;
+  promise_date: string | null;
+  avg_days_late: number | null;
+  basis: ForecastBasis;
+  expected_date: string;
+  forecast_week: string | null;
+}
+
+export type GroupBy = 'customer' | 'collector';
+
+export interface ForecastGroup {
+  id: string;
+  name: string;
+  weeks: Record<string, { expected: number; forecast: number | null; actual: number }>;
+  total: number;
+  promised: number;
+}
+
+export const BASIS_LABELS: Record<ForecastBasis, string> = {
+  promise: 'Promise date',
+  history: 'Payment history',
+  due_date: 'Due date',
+  stale: 'Stale (not forecast)',
+};
+
+export const BASIS_STYLES: Record<ForecastBasis, string> = {
+  promise: 'bg-green-100 text-green-700',
+  history: 'bg-blue-100 text-blue-700',
+  due_date: 'bg-gray-100 text-gray-700',
+  stale: 'bg-red-100 text-red-700',
+};
+
+export const formatCurrency = (value: number | null) =>
+  `$${(value || 0).toLocaleString('en-US', { minimumFractionDigits: 0, maximumFractionDigits: 0 })}`;
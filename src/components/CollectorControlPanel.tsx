@@ -3,10 +3,11 @@ import { useNavigate } from 'react-router-dom';
 import { supabase } from '../lib/supabase';
 import { useAuth } from '../contexts/AuthContext';
 import { formatDate } from '../lib/dateUtils';
+import WorkQueueCompletion from './WorkQueueCompletion';
 import {
   ArrowLeft, Search, FileText, DollarSign, Users, Mail,
   Calendar, Filter, CheckCircle, XCircle, Clock, Edit2,
-  Save, X, Plus, Trash2, Send, Eye
+  Save, X, Plus, Trash2, Send, Eye, ListChecks
 } from 'lucide-react';
 
 interface Invoice {
@@ -48,10 +49,11 @@ interface EmailSchedule {
 }
 
 export default function CollectorControlPanel({ onBack }: { onBack: () => void }) {
-  const { user } = useAuth();
+  const { user, profile } = useAuth();
   const navigate = useNavigate();
   const handleBack = onBack || (() => navigate(-1));
-  const [activeTab, setActiveTab] = useState<'invoices' | 'assignments' | 'emails'>('invoices');
+  const [activeTab, setActiveTab] = useState<'invoices' | 'assignments' | 'emails' | 'queue'>('invoices');
+  const canViewQueueCompletion = profile?.role === 'admin' || profile?.role === 'manager';
   const [invoices, setInvoices] = useState<Invoice[]>([]);
   const [assignments, setAssignments] = useState<Assignment[]>([]);
   const [emailSchedules, setEmailSchedules] = useState<EmailSchedule[]>([]);
@@ -297,6 +299,19 @@ export default function CollectorControlPanel({ onBack }: { onBack: () => void }
                 <Mail className="w-5 h-5 inline mr-2" />
                 Email Schedule ({emailSchedules.length})
               </button>
+              {canViewQueueCompletion && (
+                <button
+                  onClick={() => setActiveTab('queue')}
+                  className={`px-6 py-4 text-sm font-medium border-b-2 transition-colors ${
+                    activeTab === 'queue'
+                      ? 'border-blue-500 text-blue-600'
+                      : 'border-transparent text-gray-500 hover:text-gray-700 hover:border-gray-300'
+                  }`}
+                >
+                  <ListChecks className="w-5 h-5 inline mr-2" />
+                  Queue Completion
+                </button>
+              )}
             </nav>
           </div>
 
@@ -506,6 +521,8 @@ export default function CollectorControlPanel({ onBack }: { onBack: () => void }
               </div>
             </div>
           )}
+
+          {activeTab === 'queue' && canViewQueueCompletion && <WorkQueueCompletion />}
         </div>
       </div>
     </div>
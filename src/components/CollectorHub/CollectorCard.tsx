@@ -2,12 +2,13 @@ import { useState } from 'react';
 import {
   Users, DollarSign, Banknote, TrendingUp, CheckCircle, AlertCircle,
   Ticket, Eye, ChevronUp, Calendar, FileText, Mail, BarChart3,
-  LogIn, MessageSquare, Palette, Clock, Timer, CheckSquare, Activity
+  LogIn, MessageSquare, Palette, Clock, Timer, CheckSquare, Activity, CalendarCheck
 } from 'lucide-react';
 import { CollectorCombined } from './types';
 import CollectorExpandedDetails from './CollectorExpandedDetails';
 import CollectorClosedTickets from './CollectorClosedTickets';
 import CollectorCollectedInvoices from './CollectorCollectedInvoices';
+import CollectorScorecard from './CollectorScorecard';
 
 interface Props {
   collector: CollectorCombined;
@@ -18,7 +19,7 @@ interface Props {
 }
 
 export default function CollectorCard({ collector, isExpanded, onToggleExpand, onViewProgress, dateRange }: Props) {
-  const [activeTab, setActiveTab] = useState<'activity' | 'closed_tickets' | 'collected_invoices'>('activity');
+  const [activeTab, setActiveTab] = useState<'activity' | 'closed_tickets' | 'collected_invoices' | 'scorecard'>('activity');
 
   return (
     <div className="bg-white rounded-xl shadow-sm border border-gray-200 hover:shadow-md transition-all overflow-hidden">
@@ -116,7 +117,7 @@ export default function CollectorCard({ collector, isExpanded, onToggleExpand, o
           </div>
         </div>
 
-        <div className="grid grid-cols-4 gap-3 mb-5">
+        <div className="grid grid-cols-5 gap-3 mb-5">
           <div className="bg-green-50 p-3 rounded-lg text-center">
             <div className="flex items-center justify-center gap-1.5 mb-1">
               <CheckCircle className="w-4 h-4 text-green-600" />
@@ -145,6 +146,18 @@ export default function CollectorCard({ collector, isExpanded, onToggleExpand, o
             </div>
             <p className="text-xl font-bold text-blue-700">{collector.orange_to_green}</p>
           </div>
+          <div className="bg-violet-50 p-3 rounded-lg text-center" title="Share of closed promises that were kept in full">
+            <div className="flex items-center justify-center gap-1.5 mb-1">
+              <CalendarCheck className="w-4 h-4 text-violet-600" />
+              <span className="text-xs font-medium text-violet-800">Promises Kept</span>
+            </div>
+            <p className="text-xl font-bold text-violet-700">
+              {collector.promise_kept_rate != null ? `${Math.round(collector.promise_kept_rate)}%` : '--'}
+            </p>
+            <p className="text-[10px] text-violet-500">
+              {collector.promises_kept} kept · {collector.promises_missed} missed
+            </p>
+          </div>
         </div>
 
         <div className="grid grid-cols-3 sm:grid-cols-5 md:grid-cols-10 gap-2 pt-4 border-t border-gray-100">
@@ -255,6 +268,17 @@ export default function CollectorCard({ collector, isExpanded, onToggleExpand, o
                 </span>
               )}
             </button>
+            <button
+              onClick={() => setActiveTab('scorecard')}
+              className={`flex items-center gap-2 px-4 py-2.5 text-sm font-medium rounded-t-lg border-b-2 transition-colors -mb-px ${
+                activeTab === 'scorecard'
+                  ? 'border-blue-600 text-blue-700 bg-white'
+                  : 'border-transparent text-gray-500 hover:text-gray-700 hover:bg-gray-100'
+              }`}
+            >
+              <TrendingUp className="w-4 h-4" />
+              KPI Scorecard
+            </button>
           </div>
 
           {activeTab === 'activity' && (
@@ -266,6 +290,9 @@ export default function CollectorCard({ collector, isExpanded, onToggleExpand, o
           {activeTab === 'collected_invoices' && (
             <CollectorCollectedInvoices collectorId={collector.user_id} />
           )}
+          {activeTab === 'scorecard' && (
+            <CollectorScorecard collectorId={collector.user_id} />
+          )}
         </div>
       )}
     </div>
@@ -0,0 +1,143 @@
+import { useState, useEffect } from 'react';
+import { TrendingUp, TrendingDown, Minus } from 'lucide-react';
+import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer } from 'recharts';
+import { format } from 'date-fns';
+import { AR_METRICS, ArMetricSnapshot, fetchArMetricHistory, formatMetric } from '../../lib/arMetrics';
+
+interface Props {
+  collectorId: string;
+}
+
+const HISTORY_DAYS = 90;
+
+export default function CollectorScorecard({ collectorId }: Props) {
+  const [history, setHistory] = useState<ArMetricSnapshot[]>([]);
+  const [orgHistory, setOrgHistory] = useState<ArMetricSnapshot[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    loadScorecard();
+  }, [collectorId]);
+
+  const loadScorecard = async () => {
+    setLoading(true);
+    try {
+      const [collectorRows, orgRows] = await Promise.all([
+        fetchArMetricHistory({ collectorId, days: HISTORY_DAYS }),
+        fetchArMetricHistory({ collectorId: null, days: HISTORY_DAYS }),
+      ]);
+      setHistory(collectorRows);
+      setOrgHistory(orgRows);
+    } catch (err) {
+      console.error('Error loading collector scorecard:', err);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="py-8 text-center">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600 mx-auto"></div>
+        <p className="text-sm text-gray-500 mt-2">Loading scorecard...</p>
+      </div>
+    );
+  }
+
+  if (history.length === 0) {
+    return (
+      <div className="text-center py-8 text-gray-400">
+        No KPI snapshots yet. Metrics are captured daily for collectors with assigned customers.
+      </div>
+    );
+  }
+
+  const latest = history[history.length - 1];
+  const latestOrg = orgHistory[orgHistory.length - 1];
+  const monthAgo = new Date();
+  monthAgo.setDate(monthAgo.getDate() - 30);
+  const baseline = history.find(s => new Date(s.snapshot_date) >= monthAgo) || history[0];
+
+  const chartData = history.map(s => ({
+    date: format(new Date(`${s.snapshot_date}T00:00:00`), 'MMM d'),
+    DSO: s.dso,
+    ADD: s.add_days,
+    'Touch to Payment': s.touch_to_payment_days,
+    CEI: s.cei,
+    'Promises Kept': s.promise_kept_rate,
+  }));
+
+  const money = (value: number) =>
+    `$${Number(value).toLocaleString('en-US', { minimumFractionDigits: 0, maximumFractionDigits: 0 })}`;
+
+  return (
+    <div className="space-y-5">
+      <div className="grid grid-cols-2 lg:grid-cols-5 gap-3">
+        {AR_METRICS.map(metric => {
+          const value = latest[metric.key];
+          const previous = baseline !== latest ? baseline[metric.key] : null;
+          const delta = value != null && previous != null ? Number(value) - Number(previous) : null;
+          const improved = delta != null && delta !== 0 && (delta > 0) === metric.higherIsBetter;
+          const TrendIcon = delta == null || delta === 0 ? Minus : delta > 0 ? TrendingUp : TrendingDown;
+          return (
+            <div key={metric.key} className="bg-white p-4 rounded-xl border border-gray-200" title={metric.description}>
+              <p className="text-xs font-semibold text-gray-500 uppercase">{metric.label}</p>
+              <p className="text-2xl font-bold text-gray-900 mt-1">{formatMetric(value, metric.unit)}</p>
+              <div className="flex items-center justify-between mt-1 text-xs">
+                <span className={`flex items-center gap-1 ${
+                  delta == null || delta === 0 ? 'text-gray-400' : improved ? 'text-green-600' : 'text-red-600'
+                }`}>
+                  <TrendIcon className="w-3.5 h-3.5" />
+                  {delta == null ? 'no trend' : `${delta > 0 ? '+' : ''}${delta.toFixed(1)} in 30d`}
+                </span>
+                {latestOrg && (
+                  <span className="text-gray-400">org {formatMetric(latestOrg[metric.key], metric.unit)}</span>
+                )}
+              </div>
+            </div>
+          );
+        })}
+      </div>
+
+      <div className="flex flex-wrap gap-x-6 gap-y-1 text-xs text-gray-500">
+        <span>{latest.customer_count} customers with open AR</span>
+        <span>AR {money(latest.ar_balance)} · overdue {money(latest.overdue_balance)}</span>
+        <span>Collected (30d) {money(latest.collections)}</span>
+        <span>Promises kept {latest.promises_kept}/{latest.promises_due}</span>
+        <span>As of {format(new Date(`${latest.snapshot_date}T00:00:00`), 'MMM d, yyyy')}</span>
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-4">
+        <div className="bg-white p-4 rounded-xl border border-gray-200">
+          <h5 className="text-sm font-semibold text-gray-800 mb-2">Days</h5>
+          <ResponsiveContainer width="100%" height={220}>
+            <LineChart data={chartData}>
+              <CartesianGrid strokeDasharray="3 3" stroke="#f0f0f0" />
+              <XAxis dataKey="date" tick={{ fontSize: 11 }} stroke="#6b7280" />
+              <YAxis tick={{ fontSize: 11 }} stroke="#6b7280" />
+              <Tooltip />
+              <Legend />
+              <Line type="monotone" dataKey="DSO" stroke="#3b82f6" strokeWidth={2} dot={false} connectNulls />
+              <Line type="monotone" dataKey="ADD" stroke="#ef4444" strokeWidth={2} dot={false} connectNulls />
+              <Line type="monotone" dataKey="Touch to Payment" stroke="#f59e0b" strokeWidth={2} dot={false} connectNulls />
+            </LineChart>
+          </ResponsiveContainer>
+        </div>
+        <div className="bg-white p-4 rounded-xl border border-gray-200">
+          <h5 className="text-sm font-semibold text-gray-800 mb-2">Rates (%)</h5>
+          <ResponsiveContainer width="100%" height={220}>
+            <LineChart data={chartData}>
+              <CartesianGrid strokeDasharray="3 3" stroke="#f0f0f0" />
+              <XAxis dataKey="date" tick={{ fontSize: 11 }} stroke="#6b7280" />
+              <YAxis tick={{ fontSize: 11 }} stroke="#6b7280" domain={[0, 100]} />
+              <Tooltip />
+              <Legend />
+              <Line type="monotone" dataKey="CEI" stroke="#10b981" strokeWidth={2} dot={false} connectNulls />
+              <Line type="monotone" dataKey="Promises Kept" stroke="#8b5cf6" strokeWidth={2} dot={false} connectNulls />
+            </LineChart>
+          </ResponsiveContainer>
+        </div>
+      </div>
+    </div>
+  );
+}
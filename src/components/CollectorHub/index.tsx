@@ -51,17 +51,19 @@ export default function CollectorHub({ onBack }: CollectorHubProps) {
       const now = new Date();
       const endDateStr = `${now.getFullYear()}-${String(now.getMonth() + 1).padStart(2, '0')}-${String(now.getDate()).padStart(2, '0')}`;
 
-      const [profilesResult, monitoringResult, collectionResult, activityResult] = await Promise.all([
+      const [profilesResult, monitoringResult, collectionResult, activityResult, promiseResult] = await Promise.all([
         supabase.from('user_profiles').select('id, full_name, email, role').in('role', ['collector', 'admin', 'manager']),
         supabase.from('collector_activity_summary').select('*').order('last_activity_at', { ascending: false }),
         supabase.rpc('get_all_collectors_collection_summary'),
-        supabase.rpc('get_collector_activity_summary', { p_user_id: null, p_days_back: daysAgo })
+        supabase.rpc('get_collector_activity_summary', { p_user_id: null, p_days_back: daysAgo }),
+        supabase.rpc('get_collector_promise_stats', { p_days_back: daysAgo })
       ]);
 
       const profiles = profilesResult.data || [];
       const monitoring = monitoringResult.data || [];
       const collection = collectionResult.data || [];
       const activityData = activityResult.data || [];
+      const promiseStats = promiseResult.data || [];
 
       const monitoringMap = new Map<string, any>();
       monitoring.forEach((m: any) => monitoringMap.set(m.collector_id, m));
@@ -72,12 +74,16 @@ export default function CollectorHub({ onBack }: CollectorHubProps) {
       const activityMap = new Map<string, any>();
       activityData.forEach((a: any) => activityMap.set(a.user_id, a));
 
+      const promiseMap = new Map<string, any>();
+      promiseStats.forEach((p: any) => promiseMap.set(p.collector_id, p));
+
       const combined: CollectorCombined[] = [];
 
       for (const profile of profiles) {
         const mon = monitoringMap.get(profile.id);
         const col = collectionMap.get(profile.id);
         const act = activityMap.get(profile.id);
+        const prom = promiseMap.get(profile.id);
 
         const { data: colorChanges } = await supabase
           .from('invoice_change_log')
@@ -162,7 +168,11 @@ export default function CollectorHub({ onBack }: CollectorHubProps) {
           tickets_closed: act?.tickets_closed || 0,
           notes_added: act?.notes_added || 0,
           status_changes: act?.status_changes || 0,
-          invoice_color_changes: act?.invoice_color_changes || 0
+          invoice_color_changes: act?.invoice_color_changes || 0,
+          promises_made: prom?.promises_made || 0,
+          promises_kept: prom?.promises_kept || 0,
+          promises_missed: (prom?.promises_partially_kept || 0) + (prom?.promises_broken || 0),
+          promise_kept_rate: prom?.kept_rate != null ? parseFloat(prom.kept_rate) : null
         });
       }
 
@@ -30,6 +30,10 @@ export interface CollectorCombined {
   notes_added: number;
   status_changes: number;
   invoice_color_changes: number;
+  promises_made: number;
+  promises_kept: number;
+  promises_missed: number;
+  promise_kept_rate: number | null;
 }
 
 export interface ActivityLog {
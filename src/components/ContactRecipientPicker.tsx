@@ -0,0 +1,86 @@
+import { Ban } from 'lucide-react';
+import {
+  CONTACT_ROLE_LABELS,
+  ContactRole,
+  CustomerContact,
+  contactEmailsForRoles,
+  emailableContacts,
+} from '../lib/customerContacts';
+
+interface ContactRecipientPickerProps {
+  contacts: CustomerContact[];
+  selected: string[];
+  onChange: (emails: string[]) => void;
+}
+
+/**
+ * Picks email recipients from a customer's contacts. Role buttons add every
+ * emailable contact holding the role; contacts flagged do-not-contact are
+ * listed but cannot be selected.
+ */
+export default function ContactRecipientPicker({ contacts, selected, onChange }: ContactRecipientPickerProps) {
+  const withEmail = contacts.filter(contact => contact.is_active && contact.email);
+  if (withEmail.length === 0) return null;
+
+  const emailable = emailableContacts(contacts);
+  const roles = (Object.keys(CONTACT_ROLE_LABELS) as ContactRole[]).filter(role =>
+    emailable.some(contact => contact.roles.includes(role))
+  );
+
+  const toggle = (email: string) =>
+    onChange(selected.includes(email) ? selected.filter(e => e !== email) : [...selected, email]);
+
+  const addRole = (role: ContactRole) =>
+    onChange([...new Set([...selected, ...contactEmailsForRoles(contacts, [role])])]);
+
+  return (
+    <div className="space-y-2">
+      {roles.length > 0 && (
+        <div className="flex items-center gap-1.5 flex-wrap">
+          <span className="text-xs text-gray-500">Add by role:</span>
+          {roles.map(role => (
+            <button
+              key={role}
+              type="button"
+              onClick={() => addRole(role)}
+              className="px-2 py-0.5 rounded-full border border-gray-300 text-xs text-gray-700 hover:bg-gray-50"
+            >
+              {CONTACT_ROLE_LABELS[role]}
+            </button>
+          ))}
+        </div>
+      )}
+      <div className="flex flex-wrap gap-1.5">
+        {withEmail.map(contact => {
+          const email = contact.email as string;
+          const checked = selected.includes(email);
+          return contact.do_not_contact ? (
+            <span
+              key={contact.id}
+              className="inline-flex items-center gap-1 px-2.5 py-1 rounded-lg border border-gray-200 bg-gray-50 text-xs text-gray-400 line-through"
+              title={contact.do_not_contact_reason || 'Do not contact'}
+            >
+              <Ban className="w-3 h-3" />
+              {contact.display_name}
+            </span>
+          ) : (
+            <button
+              key={contact.id}
+              type="button"
+              onClick={() => toggle(email)}
+              title={email}
+              className={`px-2.5 py-1 rounded-lg border text-xs text-left transition-colors ${
+                checked ? 'bg-blue-50 border-blue-400 text-blue-800' : 'bg-white border-gray-300 text-gray-700 hover:bg-gray-50'
+              }`}
+            >
+              <span className="font-medium">{contact.display_name}</span>
+              {contact.roles.length > 0 && (
+                <span className="text-gray-500"> · {contact.roles.map(role => CONTACT_ROLE_LABELS[role]).join(', ')}</span>
+              )}
+            </button>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,9 @@
+import CreditManagementPage from './CreditManagement/index';
+
+interface CreditManagementProps {
+  onBack: () => void;
+}
+
+export default function CreditManagement({ onBack }: CreditManagementProps) {
+  return <CreditManagementPage onBack={onBack} />;
+}
@@ -0,0 +1,158 @@
+import { useState, useEffect } from 'react';
+import { Loader2, Save } from 'lucide-react';
+import { supabase } from '../../lib/supabase';
+import { useAuth } from '../../contexts/AuthContext';
+import { useToast } from '../../contexts/ToastContext';
+import { formatDateTime } from '../../lib/dateUtils';
+import { CreditPolicy, DEFAULT_CREDIT_POLICY } from './types';
+
+type NumericField = 'near_limit_pct' | 'hold_over_limit_pct' | 'hold_days_past_due' | 'hold_risk_score';
+
+const FIELDS: { key: NumericField; label: string; hint: string; suffix: string }[] = [
+  {
+    key: 'near_limit_pct',
+    label: 'Near limit at',
+    hint: 'Customers using this much of their limit are put on watch',
+    suffix: '%',
+  },
+  {
+    key: 'hold_over_limit_pct',
+    label: 'Recommend hold at',
+    hint: 'Over-limit customers at or above this utilization get a hold review',
+    suffix: '%',
+  },
+  {
+    key: 'hold_days_past_due',
+    label: 'Hold when past due for',
+    hint: 'Oldest open invoice this many days past due',
+    suffix: 'days',
+  },
+  {
+    key: 'hold_risk_score',
+    label: 'Hold at risk score',
+    hint: 'Nightly risk score (0-100) at or above which a hold is recommended',
+    suffix: 'pts',
+  },
+];
+
+export default function CreditPolicyForm() {
+  const { user, profile } = useAuth();
+  const { showToast } = useToast();
+
+  const [policy, setPolicy] = useState<CreditPolicy>(DEFAULT_CREDIT_POLICY);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    fetchPolicy();
+  }, []);
+
+  const fetchPolicy = async () => {
+    try {
+      const { data, error } = await supabase
+        .from('credit_policy_settings')
+        .select('id, near_limit_pct, hold_over_limit_pct, hold_days_past_due, hold_risk_score, alert_collectors, updated_at')
+        .maybeSingle();
+      if (error) throw error;
+      if (data) setPolicy(data);
+    } catch (error: any) {
+      showToast(error.message, 'error');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleSave = async () => {
+    if (policy.hold_over_limit_pct < 100) {
+      showToast('The hold threshold must be at least 100% of the limit', 'error');
+      return;
+    }
+    setSaving(true);
+    try {
+      const { data, error } = await supabase
+        .from('credit_policy_settings')
+        .upsert(
+          {
+            organization_id: profile?.organization_id,
+            near_limit_pct: policy.near_limit_pct,
+            hold_over_limit_pct: policy.hold_over_limit_pct,
+            hold_days_past_due: policy.hold_days_past_due,
+            hold_risk_score: policy.hold_risk_score,
+            alert_collectors: policy.alert_collectors,
+            updated_by: user?.id,
+            updated_at: new Date().toISOString(),
+          },
+          { onConflict: 'organization_id' }
+        )
+        .select('id, near_limit_pct, hold_over_limit_pct, hold_days_past_due, hold_risk_score, alert_collectors, updated_at')
+        .single();
+      if (error) throw error;
+      setPolicy(data);
+      showToast('Credit policy saved. It applies from the next recalculation.', 'success');
+    } catch (error: any) {
+      showToast(error.message, 'error');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center h-32">
+        <Loader2 className="w-6 h-6 animate-spin text-blue-600" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="bg-white rounded-xl border border-gray-200 p-6 space-y-5 max-w-2xl">
+      <div>
+        <h2 className="text-lg font-semibold text-gray-900">Credit Policy</h2>
+        <p className="text-sm text-gray-600 mt-0.5">
+          A hold is recommended for over-limit customers that cross any of the thresholds below, and for
+          customers that are both past due and high risk.
+        </p>
+      </div>
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+        {FIELDS.map(field => (
+          <label key={field.key} className="block">
+            <span className="text-sm font-medium text-gray-700">{field.label}</span>
+            <div className="flex items-center gap-2 mt-1">
+              <input
+                type="number"
+                min={0}
+                value={policy[field.key]}
+                onChange={(e) => setPolicy({ ...policy, [field.key]: Number(e.target.value) })}
+                className="w-28 px-3 py-2 border border-gray-300 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+              />
+              <span className="text-sm text-gray-500">{field.suffix}</span>
+            </div>
+            <span className="text-xs text-gray-500 mt-1 block">{field.hint}</span>
+          </label>
+        ))}
+      </div>
+      <label className="flex items-center gap-2 text-sm text-gray-700">
+        <input
+          type="checkbox"
+          checked={policy.alert_collectors}
+          onChange={(e) => setPolicy({ ...policy, alert_collectors: e.target.checked })}
+          className="rounded border-gray-300"
+        />
+        Remind the assigned collector when a customer goes over its limit or a hold is opened or decided
+      </label>
+      <div className="flex items-center justify-between pt-2">
+        <span className="text-xs text-gray-400">
+          {policy.updated_at ? `Last changed ${formatDateTime(policy.updated_at)}` : 'Using the default policy'}
+        </span>
+        <button
+          onClick={handleSave}
+          disabled={saving}
+          className="flex items-center gap-1.5 px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50 text-sm font-medium"
+        >
+          {saving ? <Loader2 className="w-4 h-4 animate-spin" /> : <Save className="w-4 h-4" />}
+          Save Policy
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,281 @@
+import { useState, useEffect } from 'react';
+import { Loader2, MessageSquare, Send, Check, X, Ban } from 'lucide-react';
+import { supabase } from '../../lib/supabase';
+import { useAuth } from '../../contexts/AuthContext';
+import { useToast } from '../../contexts/ToastContext';
+import { formatDateTime } from '../../lib/dateUtils';
+import {
+  CreditReview,
+  CreditReviewEvent,
+  StaffMember,
+  REASON_LABELS,
+  REVIEW_TYPE_LABELS,
+  REVIEW_STATUS_LABELS,
+  REVIEW_STATUS_STYLES,
+  EVENT_LABELS,
+  utilizationStyle,
+  formatCurrency,
+} from './types';
+
+interface CreditReviewPanelProps {
+  review: CreditReview;
+  staff: StaffMember[];
+  isManager: boolean;
+  onChanged: () => Promise<void>;
+}
+
+type Decision = 'approved' | 'rejected' | 'cancelled';
+
+export default function CreditReviewPanel({ review, staff, isManager, onChanged }: CreditReviewPanelProps) {
+  const { user } = useAuth();
+  const { showToast } = useToast();
+
+  const [events, setEvents] = useState<CreditReviewEvent[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [busy, setBusy] = useState(false);
+  const [decisionNote, setDecisionNote] = useState('');
+  const [comment, setComment] = useState('');
+
+  useEffect(() => {
+    setDecisionNote('');
+    setComment('');
+    fetchEvents();
+  }, [review.id]);
+
+  const fetchEvents = async () => {
+    setLoading(true);
+    try {
+      const { data, error } = await supabase
+        .from('credit_review_events')
+        .select('*')
+        .eq('review_id', review.id)
+        .order('created_at', { ascending: false });
+      if (error) throw error;
+      setEvents(data || []);
+    } catch (error: any) {
+      showToast(error.message, 'error');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const staffName = (id: string | null) => {
+    if (!id) return 'System';
+    const member = staff.find(s => s.id === id);
+    return member ? member.full_name || member.email : 'Unknown user';
+  };
+
+  const handleDecision = async (decision: Decision) => {
+    if (decision === 'rejected' && !decisionNote.trim()) {
+      showToast('Give a reason for rejecting the review', 'error');
+      return;
+    }
+    setBusy(true);
+    try {
+      const { error } = await supabase.rpc('decide_credit_review', {
+        p_review_id: review.id,
+        p_decision: decision,
+        p_note: decisionNote.trim() || null,
+      });
+      if (error) throw error;
+      showToast(`Review ${REVIEW_STATUS_LABELS[decision].toLowerCase()}`, 'success');
+      setDecisionNote('');
+      await Promise.all([onChanged(), fetchEvents()]);
+    } catch (error: any) {
+      showToast(error.message, 'error');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleComment = async () => {
+    if (!comment.trim()) return;
+    setBusy(true);
+    try {
+      const { error } = await supabase.rpc('comment_credit_review', {
+        p_review_id: review.id,
+        p_note: comment.trim(),
+      });
+      if (error) throw error;
+      setComment('');
+      await fetchEvents();
+    } catch (error: any) {
+      showToast(error.message, 'error');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const snapshot = review.snapshot || {};
+  const isPending = review.status === 'pending';
+  const canCancel = isPending && (isManager || review.requested_by === user?.id);
+
+  return (
+    <div className="bg-white rounded-xl border border-gray-200 divide-y divide-gray-100">
+      {/* Summary */}
+      <div className="px-6 py-5 space-y-3">
+        <div className="flex items-start justify-between gap-3">
+          <div>
+            <h2 className="text-lg font-semibold text-gray-900">{review.customer_name || review.customer_id}</h2>
+            <p className="text-sm text-gray-500">
+              {REVIEW_TYPE_LABELS[review.review_type]} · {review.customer_id}
+            </p>
+          </div>
+          <span className={`px-2.5 py-1 rounded text-xs font-medium ${REVIEW_STATUS_STYLES[review.status]}`}>
+            {REVIEW_STATUS_LABELS[review.status]}
+          </span>
+        </div>
+        {review.reason && <p className="text-sm text-gray-700 whitespace-pre-wrap">{review.reason}</p>}
+        {review.reasons.length > 0 && (
+          <div className="flex flex-wrap gap-1.5">
+            {review.reasons.map(reason => (
+              <span key={reason} className="px-2 py-0.5 rounded bg-gray-100 text-gray-700 text-xs">
+                {REASON_LABELS[reason] || reason}
+              </span>
+            ))}
+          </div>
+        )}
+        <dl className="grid grid-cols-2 sm:grid-cols-3 gap-3 text-sm pt-1">
+          <div>
+            <dt className="text-xs text-gray-500">Credit limit</dt>
+            <dd className="font-medium text-gray-900">{formatCurrency(snapshot.credit_limit)}</dd>
+          </div>
+          <div>
+            <dt className="text-xs text-gray-500">Exposure</dt>
+            <dd className="font-medium text-gray-900">{formatCurrency(snapshot.exposure)}</dd>
+          </div>
+          <div>
+            <dt className="text-xs text-gray-500">Used</dt>
+            <dd className={`font-medium ${utilizationStyle(snapshot.utilization_pct ?? null)}`}>
+              {snapshot.utilization_pct != null ? `${snapshot.utilization_pct}%` : '—'}
+            </dd>
+          </div>
+          <div>
+            <dt className="text-xs text-gray-500">Past due</dt>
+            <dd className="font-medium text-gray-900">
+              {formatCurrency(snapshot.overdue_balance)}
+              {!!snapshot.days_past_due && <span className="text-gray-500 font-normal"> · {snapshot.days_past_due} days</span>}
+            </dd>
+          </div>
+          <div>
+            <dt className="text-xs text-gray-500">Risk score</dt>
+            <dd className="font-medium text-gray-900">{snapshot.risk_score ?? '—'}</dd>
+          </div>
+          <div>
+            <dt className="text-xs text-gray-500">Acumatica status</dt>
+            <dd className="font-medium text-gray-900">{snapshot.acumatica_status || '—'}</dd>
+          </div>
+        </dl>
+        <p className="text-xs text-gray-400">
+          {review.source === 'system' ? 'Recommended by the nightly credit check' : `Requested by ${staffName(review.requested_by)}`}{' '}
+          on {formatDateTime(review.created_at)}
+        </p>
+      </div>
+
+      {/* Decision */}
+      {isPending ? (
+        (isManager || canCancel) && (
+          <div className="px-6 py-5 space-y-3">
+            <textarea
+              value={decisionNote}
+              onChange={(e) => setDecisionNote(e.target.value)}
+              rows={2}
+              placeholder={isManager ? 'Decision note (required to reject)' : 'Note'}
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+            />
+            <div className="flex justify-end gap-2 flex-wrap">
+              {canCancel && (
+                <button
+                  onClick={() => handleDecision('cancelled')}
+                  disabled={busy}
+                  className="flex items-center gap-1.5 px-3 py-1.5 border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 disabled:opacity-50 text-sm"
+                >
+                  <Ban className="w-4 h-4" />
+                  Cancel Review
+                </button>
+              )}
+              {isManager && (
+                <>
+                  <button
+                    onClick={() => handleDecision('rejected')}
+                    disabled={busy}
+                    className="flex items-center gap-1.5 px-3 py-1.5 border border-red-300 text-red-700 rounded-lg hover:bg-red-50 disabled:opacity-50 text-sm"
+                  >
+                    <X className="w-4 h-4" />
+                    Reject
+                  </button>
+                  <button
+                    onClick={() => handleDecision('approved')}
+                    disabled={busy}
+                    className="flex items-center gap-1.5 px-3 py-1.5 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50 text-sm font-medium"
+                  >
+                    {busy ? <Loader2 className="w-4 h-4 animate-spin" /> : <Check className="w-4 h-4" />}
+                    {review.review_type === 'credit_hold' ? 'Approve Hold' : 'Approve Release'}
+                  </button>
+                </>
+              )}
+            </div>
+            {isManager && review.review_type === 'credit_hold' && (
+              <p className="text-xs text-gray-500">
+                Approving marks the customer as on hold here; set the hold on the customer in Acumatica as well.
+              </p>
+            )}
+          </div>
+        )
+      ) : (
+        <div className="px-6 py-4 text-sm text-gray-700">
+          {REVIEW_STATUS_LABELS[review.status]} by {staffName(review.decided_by)}
+          {review.decided_at && ` on ${formatDateTime(review.decided_at)}`}
+          {review.decision_note && <p className="text-gray-600 whitespace-pre-wrap mt-1">{review.decision_note}</p>}
+        </div>
+      )}
+
+      {/* Timeline */}
+      <div className="px-6 py-5">
+        <h3 className="text-sm font-semibold text-gray-900 mb-3">Audit Trail</h3>
+        <div className="flex gap-2 mb-4">
+          <input
+            type="text"
+            value={comment}
+            onChange={(e) => setComment(e.target.value)}
+            onKeyDown={(e) => { if (e.key === 'Enter') handleComment(); }}
+            placeholder="Add a comment..."
+            className="flex-1 border border-gray-300 rounded-lg px-3.5 py-2 text-sm focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+          />
+          <button
+            onClick={handleComment}
+            disabled={busy || !comment.trim()}
+            className="p-2.5 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50 transition-colors"
+          >
+            <Send className="w-4 h-4" />
+          </button>
+        </div>
+        {loading ? (
+          <div className="flex justify-center py-6">
+            <Loader2 className="w-5 h-5 animate-spin text-blue-600" />
+          </div>
+        ) : (
+          <ol className="space-y-3">
+            {events.map(event => (
+              <li key={event.id} className="flex gap-3">
+                <div className="w-7 h-7 rounded-full bg-gray-100 flex items-center justify-center flex-shrink-0">
+                  <MessageSquare className="w-3.5 h-3.5 text-gray-500" />
+                </div>
+                <div className="min-w-0">
+                  <p className="text-sm text-gray-800">
+                    <span className="font-medium">{staffName(event.created_by)}</span>{' '}
+                    <span className="text-gray-600">{EVENT_LABELS[event.event_type]}</span>
+                  </p>
+                  {event.note && (
+                    <p className="text-sm text-gray-700 whitespace-pre-wrap mt-0.5">{event.note}</p>
+                  )}
+                  <p className="text-xs text-gray-400 mt-0.5">{formatDateTime(event.created_at)}</p>
+                </div>
+              </li>
+            ))}
+          </ol>
+        )}
+      </div>
+    </div>
+  );
+}
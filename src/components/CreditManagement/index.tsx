@@ -0,0 +1,513 @@
+import { useState, useEffect } from 'react';
+import { ArrowLeft, Loader2, RefreshCw, Scale, Search, ShieldAlert, X } from 'lucide-react';
+import { supabase } from '../../lib/supabase';
+import { useAuth } from '../../contexts/AuthContext';
+import { useToast } from '../../contexts/ToastContext';
+import { formatDate, formatDateTime } from '../../lib/dateUtils';
+import CreditReviewPanel from './CreditReviewPanel';
+import CreditPolicyForm from './CreditPolicyForm';
+import {
+  CustomerCreditStatus,
+  CreditReview,
+  CreditReviewType,
+  StaffMember,
+  RECOMMENDATION_LABELS,
+  RECOMMENDATION_STYLES,
+  REASON_LABELS,
+  REVIEW_TYPE_LABELS,
+  REVIEW_STATUS_LABELS,
+  REVIEW_STATUS_STYLES,
+  utilizationStyle,
+  formatCurrency,
+} from './types';
+
+interface CreditManagementPageProps {
+  onBack: () => void;
+}
+
+type Tab = 'exposure' | 'reviews' | 'policy';
+type ExposureFilter = 'limited' | 'over_limit' | 'near_limit' | 'hold_recommended' | 'on_hold' | 'all';
+
+interface ReviewRequest {
+  customer: CustomerCreditStatus;
+  reviewType: CreditReviewType;
+  reason: string;
+}
+
+const PAGE_SIZE = 1000;
+
+export default function CreditManagementPage({ onBack }: CreditManagementPageProps) {
+  const { profile } = useAuth();
+  const { showToast } = useToast();
+  const isManager = profile?.role === 'admin' || profile?.role === 'manager';
+
+  const [statuses, setStatuses] = useState<CustomerCreditStatus[]>([]);
+  const [reviews, setReviews] = useState<CreditReview[]>([]);
+  const [staff, setStaff] = useState<StaffMember[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [refreshing, setRefreshing] = useState(false);
+
+  const [tab, setTab] = useState<Tab>('exposure');
+  const [filter, setFilter] = useState<ExposureFilter>('limited');
+  const [search, setSearch] = useState('');
+  const [showClosedReviews, setShowClosedReviews] = useState(false);
+  const [selectedReviewId, setSelectedReviewId] = useState<string | null>(null);
+  const [request, setRequest] = useState<ReviewRequest | null>(null);
+  const [requesting, setRequesting] = useState(false);
+
+  useEffect(() => {
+    fetchAll();
+  }, []);
+
+  const fetchAll = async () => {
+    try {
+      await Promise.all([fetchStatuses(), fetchReviews(), fetchStaff()]);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const fetchStatuses = async () => {
+    try {
+      const rows: CustomerCreditStatus[] = [];
+      let from = 0;
+      let hasMore = true;
+      while (hasMore) {
+        const { data, error } = await supabase
+          .from('customer_credit_status')
+          .select('*')
+          .order('utilization_pct', { ascending: false, nullsFirst: false })
+          .range(from, from + PAGE_SIZE - 1);
+        if (error) throw error;
+        rows.push(...(data || []));
+        hasMore = !!data && data.length === PAGE_SIZE;
+        from += PAGE_SIZE;
+      }
+      setStatuses(rows);
+    } catch (error: any) {
+      showToast(error.message, 'error');
+    }
+  };
+
+  const fetchReviews = async () => {
+    try {
+      const { data, error } = await supabase
+        .from('credit_reviews')
+        .select('*')
+        .order('created_at', { ascending: false })
+        .limit(500);
+      if (error) throw error;
+      setReviews(data || []);
+    } catch (error: any) {
+      showToast(error.message, 'error');
+    }
+  };
+
+  const fetchStaff = async () => {
+    const { data } = await supabase
+      .from('user_profiles')
+      .select('id, full_name, email')
+      .order('full_name');
+    setStaff(data || []);
+  };
+
+  const handleRecalculate = async () => {
+    setRefreshing(true);
+    try {
+      const { data, error } = await supabase.rpc('refresh_customer_credit_status');
+      if (error) throw error;
+      showToast(`Credit status recalculated for ${data ?? 0} customers`, 'success');
+      await Promise.all([fetchStatuses(), fetchReviews()]);
+    } catch (error: any) {
+      showToast(error.message, 'error');
+    } finally {
+      setRefreshing(false);
+    }
+  };
+
+  const submitRequest = async () => {
+    if (!request) return;
+    setRequesting(true);
+    try {
+      const { data, error } = await supabase.rpc('request_credit_review', {
+        p_customer_id: request.customer.customer_id,
+        p_review_type: request.reviewType,
+        p_reason: request.reason.trim() || null,
+      });
+      if (error) throw error;
+      showToast('Review requested', 'success');
+      setRequest(null);
+      await fetchReviews();
+      setTab('reviews');
+      setSelectedReviewId((data as CreditReview | null)?.id || null);
+    } catch (error: any) {
+      showToast(error.message, 'error');
+    } finally {
+      setRequesting(false);
+    }
+  };
+
+  const handleReviewChanged = async () => {
+    await Promise.all([fetchStatuses(), fetchReviews()]);
+  };
+
+  const pendingByCustomer = new Map<string, CreditReview>();
+  reviews
+    .filter(r => r.status === 'pending')
+    .forEach(r => pendingByCustomer.set(r.customer_id, r));
+
+  const term = search.trim().toLowerCase();
+  const matchesSearch = (customerId: string, customerName: string | null) =>
+    !term || customerId.toLowerCase().includes(term) || (customerName || '').toLowerCase().includes(term);
+
+  const limited = statuses.filter(s => s.credit_limit > 0);
+  const overLimit = statuses.filter(s => s.over_limit);
+  const nearLimit = limited.filter(s => !s.over_limit && s.recommendation_reasons.includes('near_limit'));
+  const onHold = statuses.filter(s => s.on_hold);
+  const pendingReviews = reviews.filter(r => r.status === 'pending');
+
+  const visibleStatuses = (
+    filter === 'limited' ? limited
+      : filter === 'over_limit' ? overLimit
+      : filter === 'near_limit' ? nearLimit
+      : filter === 'hold_recommended' ? statuses.filter(s => s.recommendation === 'credit_hold')
+      : filter === 'on_hold' ? onHold
+      : statuses
+  ).filter(s => matchesSearch(s.customer_id, s.customer_name));
+
+  const visibleReviews = (showClosedReviews ? reviews : pendingReviews)
+    .filter(r => matchesSearch(r.customer_id, r.customer_name));
+
+  const selectedReview = reviews.find(r => r.id === selectedReviewId) || null;
+  const lastComputed = statuses.reduce<string | null>(
+    (latest, s) => (!latest || s.computed_at > latest ? s.computed_at : latest),
+    null
+  );
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center h-64">
+        <Loader2 className="w-8 h-8 animate-spin text-blue-600" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex items-center justify-between flex-wrap gap-4">
+        <div className="flex items-center space-x-4">
+          <button onClick={onBack} className="p-2 hover:bg-gray-100 rounded-lg transition-colors">
+            <ArrowLeft className="w-5 h-5" />
+          </button>
+          <div>
+            <h1 className="text-2xl font-bold text-gray-900">Credit Management</h1>
+            <p className="text-gray-600 mt-0.5 text-sm">
+              Exposure against credit limits, hold recommendations and their reviews
+              {lastComputed && ` · calculated ${formatDateTime(lastComputed)}`}
+            </p>
+          </div>
+        </div>
+        {isManager && (
+          <button
+            onClick={handleRecalculate}
+            disabled={refreshing}
+            className="flex items-center space-x-2 px-4 py-2.5 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50 text-sm font-medium"
+          >
+            <RefreshCw className={`w-4 h-4 ${refreshing ? 'animate-spin' : ''}`} />
+            <span>{refreshing ? 'Recalculating...' : 'Recalculate'}</span>
+          </button>
+        )}
+      </div>
+
+      {/* Summary */}
+      <div className="grid grid-cols-2 md:grid-cols-5 gap-4">
+        <div className="bg-white rounded-xl border border-gray-200 p-4">
+          <p className="text-xs text-gray-500 uppercase font-semibold">With Credit Limit</p>
+          <p className="text-2xl font-bold text-gray-900 mt-1">{limited.length}</p>
+        </div>
+        <div className="bg-white rounded-xl border border-gray-200 p-4">
+          <p className="text-xs text-gray-500 uppercase font-semibold">Over Limit</p>
+          <p className="text-2xl font-bold text-red-700 mt-1">{overLimit.length}</p>
+          <p className="text-xs text-gray-500 mt-0.5">
+            {formatCurrency(overLimit.reduce((sum, s) => sum + (s.exposure - s.credit_limit), 0))} above limits
+          </p>
+        </div>
+        <div className="bg-white rounded-xl border border-gray-200 p-4">
+          <p className="text-xs text-gray-500 uppercase font-semibold">Near Limit</p>
+          <p className="text-2xl font-bold text-amber-700 mt-1">{nearLimit.length}</p>
+        </div>
+        <div className="bg-white rounded-xl border border-gray-200 p-4">
+          <p className="text-xs text-gray-500 uppercase font-semibold">Pending Reviews</p>
+          <p className="text-2xl font-bold text-blue-700 mt-1">{pendingReviews.length}</p>
+        </div>
+        <div className="bg-white rounded-xl border border-gray-200 p-4">
+          <p className="text-xs text-gray-500 uppercase font-semibold">On Hold</p>
+          <p className="text-2xl font-bold text-gray-900 mt-1">{onHold.length}</p>
+        </div>
+      </div>
+
+      {/* Tabs and search */}
+      <div className="flex items-center justify-between flex-wrap gap-3">
+        <div className="flex rounded-lg border border-gray-300 overflow-hidden text-sm">
+          {([
+            ['exposure', 'Exposure'],
+            ['reviews', `Reviews (${pendingReviews.length})`],
+            ...(isManager ? [['policy', 'Policy']] : []),
+          ] as [Tab, string][]).map(([value, label]) => (
+            <button
+              key={value}
+              onClick={() => setTab(value)}
+              className={`px-3 py-1.5 ${tab === value ? 'bg-blue-600 text-white' : 'bg-white text-gray-700 hover:bg-gray-50'}`}
+            >
+              {label}
+            </button>
+          ))}
+        </div>
+        {tab !== 'policy' && (
+          <div className="flex items-center gap-3 flex-wrap">
+            {tab === 'exposure' ? (
+              <select
+                value={filter}
+                onChange={(e) => setFilter(e.target.value as ExposureFilter)}
+                className="px-3 py-2 border border-gray-300 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+              >
+                <option value="limited">Customers with a limit</option>
+                <option value="over_limit">Over limit</option>
+                <option value="near_limit">Near limit</option>
+                <option value="hold_recommended">Hold recommended</option>
+                <option value="on_hold">On hold</option>
+                <option value="all">All customers</option>
+              </select>
+            ) : (
+              <label className="flex items-center gap-2 text-sm text-gray-700">
+                <input
+                  type="checkbox"
+                  checked={showClosedReviews}
+                  onChange={(e) => setShowClosedReviews(e.target.checked)}
+                  className="rounded border-gray-300"
+                />
+                Show decided reviews
+              </label>
+            )}
+            <div className="relative">
+              <Search className="w-4 h-4 text-gray-400 absolute left-3 top-1/2 -translate-y-1/2" />
+              <input
+                type="text"
+                value={search}
+                onChange={(e) => setSearch(e.target.value)}
+                placeholder="Search customer..."
+                className="pl-9 pr-3 py-2 w-64 border border-gray-300 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+              />
+            </div>
+          </div>
+        )}
+      </div>
+
+      {tab === 'exposure' && (
+        visibleStatuses.length === 0 ? (
+          <div className="bg-white rounded-xl border border-gray-200 py-16 text-center">
+            <Scale className="w-12 h-12 text-gray-300 mx-auto mb-3" />
+            <p className="text-gray-500">
+              {statuses.length === 0 ? 'Credit status has not been calculated yet' : 'No customers match this filter'}
+            </p>
+          </div>
+        ) : (
+          <div className="bg-white rounded-xl border border-gray-200 overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead className="bg-gray-50">
+                <tr className="text-xs text-gray-500 uppercase">
+                  <th className="text-left py-3 px-4 font-semibold">Customer</th>
+                  <th className="text-right py-3 px-4 font-semibold">Limit</th>
+                  <th className="text-right py-3 px-4 font-semibold">Exposure</th>
+                  <th className="text-right py-3 px-4 font-semibold">Used</th>
+                  <th className="text-right py-3 px-4 font-semibold">Past Due</th>
+                  <th className="text-right py-3 px-4 font-semibold">Risk</th>
+                  <th className="text-left py-3 px-4 font-semibold">Recommendation</th>
+                  <th className="py-3 px-4" />
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-100">
+                {visibleStatuses.map(status => {
+                  const pending = pendingByCustomer.get(status.customer_id);
+                  const suggestedType: CreditReviewType = status.on_hold ? 'release_hold' : 'credit_hold';
+                  return (
+                    <tr key={status.id} className="hover:bg-gray-50">
+                      <td className="py-3 px-4">
+                        <p className="font-medium text-gray-900">{status.customer_name || status.customer_id}</p>
+                        <div className="flex items-center gap-2 text-xs text-gray-500 mt-0.5">
+                          <span>{status.customer_id}</span>
+                          {status.on_hold && (
+                            <span className="inline-flex items-center gap-1 px-1.5 py-0.5 rounded bg-red-50 text-red-700 font-medium">
+                              <ShieldAlert className="w-3 h-3" />
+                              On hold{status.hold_since && ` since ${formatDate(status.hold_since)}`}
+                            </span>
+                          )}
+                          {status.acumatica_status && status.acumatica_status !== 'Active' && (
+                            <span>Acumatica: {status.acumatica_status}</span>
+                          )}
+                        </div>
+                      </td>
+                      <td className="py-3 px-4 text-right text-gray-700">
+                        {status.credit_limit > 0 ? formatCurrency(status.credit_limit) : '—'}
+                      </td>
+                      <td className="py-3 px-4 text-right font-medium text-gray-900">
+                        {formatCurrency(status.exposure)}
+                        {status.credits > 0 && (
+                          <p className="text-xs font-normal text-gray-500">after {formatCurrency(status.credits)} credits</p>
+                        )}
+                      </td>
+                      <td className={`py-3 px-4 text-right font-semibold ${utilizationStyle(status.utilization_pct)}`}>
+                        {status.utilization_pct !== null ? `${status.utilization_pct}%` : '—'}
+                        {status.over_limit_since && (
+                          <p className="text-xs font-normal text-gray-500">since {formatDate(status.over_limit_since)}</p>
+                        )}
+                      </td>
+                      <td className="py-3 px-4 text-right text-gray-700">
+                        {status.overdue_balance > 0 ? (
+                          <>
+                            {formatCurrency(status.overdue_balance)}
+                            <p className="text-xs text-gray-500">{status.days_past_due} days</p>
+                          </>
+                        ) : '—'}
+                      </td>
+                      <td className="py-3 px-4 text-right text-gray-700">
+                        {status.risk_score !== null ? status.risk_score : '—'}
+                      </td>
+                      <td className="py-3 px-4">
+                        <span className={`inline-block px-2 py-0.5 rounded text-xs font-medium ${RECOMMENDATION_STYLES[status.recommendation]}`}>
+                          {RECOMMENDATION_LABELS[status.recommendation]}
+                        </span>
+                        {status.recommendation_reasons.length > 0 && (
+                          <p className="text-xs text-gray-500 mt-1">
+                            {status.recommendation_reasons.map(r => REASON_LABELS[r]).join(' · ')}
+                          </p>
+                        )}
+                      </td>
+                      <td className="py-3 px-4 text-right whitespace-nowrap">
+                        {pending ? (
+                          <button
+                            onClick={() => {
+                              setTab('reviews');
+                              setSelectedReviewId(pending.id);
+                            }}
+                            className="text-xs font-medium text-blue-600 hover:text-blue-800"
+                          >
+                            View review
+                          </button>
+                        ) : (
+                          <button
+                            onClick={() => setRequest({ customer: status, reviewType: suggestedType, reason: '' })}
+                            className="text-xs font-medium text-blue-600 hover:text-blue-800"
+                          >
+                            Request {suggestedType === 'credit_hold' ? 'hold' : 'release'}
+                          </button>
+                        )}
+                      </td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+        )
+      )}
+
+      {tab === 'reviews' && (
+        <div className="grid grid-cols-1 lg:grid-cols-5 gap-6">
+          <div className="lg:col-span-2 bg-white rounded-xl border border-gray-200 divide-y divide-gray-100 self-start">
+            {visibleReviews.length === 0 ? (
+              <p className="py-12 text-center text-sm text-gray-500">
+                {showClosedReviews ? 'No credit reviews yet' : 'No reviews waiting for a decision'}
+              </p>
+            ) : (
+              visibleReviews.map(review => (
+                <button
+                  key={review.id}
+                  onClick={() => setSelectedReviewId(review.id)}
+                  className={`w-full text-left px-4 py-3 hover:bg-gray-50 ${selectedReviewId === review.id ? 'bg-blue-50' : ''}`}
+                >
+                  <div className="flex items-center justify-between gap-2">
+                    <span className="font-medium text-gray-900 text-sm truncate">
+                      {review.customer_name || review.customer_id}
+                    </span>
+                    <span className={`px-2 py-0.5 rounded text-xs font-medium ${REVIEW_STATUS_STYLES[review.status]}`}>
+                      {REVIEW_STATUS_LABELS[review.status]}
+                    </span>
+                  </div>
+                  <p className="text-xs text-gray-500 mt-1">
+                    {REVIEW_TYPE_LABELS[review.review_type]} · {review.source === 'system' ? 'Recommended' : 'Requested'}{' '}
+                    {formatDate(review.created_at)}
+                  </p>
+                </button>
+              ))
+            )}
+          </div>
+          <div className="lg:col-span-3">
+            {selectedReview ? (
+              <CreditReviewPanel
+                review={selectedReview}
+                staff={staff}
+                isManager={isManager}
+                onChanged={handleReviewChanged}
+              />
+            ) : (
+              <div className="bg-white rounded-xl border border-gray-200 py-16 text-center text-sm text-gray-500">
+                Select a review to see its details and history
+              </div>
+            )}
+          </div>
+        </div>
+      )}
+
+      {tab === 'policy' && isManager && <CreditPolicyForm />}
+
+      {/* Request review */}
+      {request && (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+          <div className="bg-white rounded-xl shadow-xl w-full max-w-md">
+            <div className="flex items-center justify-between px-5 py-4 border-b border-gray-200">
+              <h3 className="font-semibold text-gray-900">
+                Request {REVIEW_TYPE_LABELS[request.reviewType].toLowerCase()} review
+              </h3>
+              <button onClick={() => setRequest(null)} className="p-1 hover:bg-gray-100 rounded">
+                <X className="w-5 h-5 text-gray-500" />
+              </button>
+            </div>
+            <div className="px-5 py-4 space-y-3">
+              <p className="text-sm text-gray-700">
+                {request.customer.customer_name || request.customer.customer_id} ·{' '}
+                {formatCurrency(request.customer.exposure)} against a limit of{' '}
+                {formatCurrency(request.customer.credit_limit)}
+              </p>
+              <textarea
+                value={request.reason}
+                onChange={(e) => setRequest({ ...request, reason: e.target.value })}
+                rows={3}
+                placeholder="Why should this customer be reviewed?"
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+              />
+            </div>
+            <div className="flex justify-end gap-2 px-5 py-4 border-t border-gray-200">
+              <button
+                onClick={() => setRequest(null)}
+                disabled={requesting}
+                className="px-3 py-1.5 border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 disabled:opacity-50 text-sm"
+              >
+                Cancel
+              </button>
+              <button
+                onClick={submitRequest}
+                disabled={requesting}
+                className="flex items-center gap-1.5 px-3 py-1.5 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50 text-sm font-medium"
+              >
+                {requesting && <Loader2 className="w-4 h-4 animate-spin" />}
+                Request Review
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
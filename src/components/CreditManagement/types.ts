@@ -0,0 +1,156 @@
+export type CreditRecommendation = 'none' | 'watch' | 'credit_hold' | 'release_hold';
+
+export type CreditReason = 'over_limit' | 'near_limit' | 'far_over_limit' | 'past_due_aging' | 'high_risk';
+
+export type CreditReviewType = 'credit_hold' | 'release_hold';
+
+export type CreditReviewStatus = 'pending' | 'approved' | 'rejected' | 'cancelled';
+
+export type CreditReviewEventType =
+  | 'created'
+  | 'approved'
+  | 'rejected'
+  | 'cancelled'
+  | 'comment'
+  | 'hold_applied'
+  | 'hold_released';
+
+export interface CustomerCreditStatus {
+  id: string;
+  customer_id: string;
+  customer_name: string | null;
+  acumatica_status: string | null;
+  credit_limit: number;
+  open_balance: number;
+  credits: number;
+  exposure: number;
+  utilization_pct: number | null;
+  over_limit: boolean;
+  over_limit_since: string | null;
+  overdue_balance: number;
+  days_past_due: number;
+  risk_score: number | null;
+  risk_level: string | null;
+  recommendation: CreditRecommendation;
+  recommendation_reasons: CreditReason[];
+  on_hold: boolean;
+  hold_since: string | null;
+  computed_at: string;
+}
+
+export interface CreditReviewSnapshot {
+  credit_limit?: number;
+  exposure?: number;
+  utilization_pct?: number | null;
+  overdue_balance?: number;
+  days_past_due?: number;
+  risk_score?: number | null;
+  acumatica_status?: string | null;
+}
+
+export interface CreditReview {
+  id: string;
+  customer_id: string;
+  customer_name: string | null;
+  review_type: CreditReviewType;
+  status: CreditReviewStatus;
+  source: 'system' | 'manual';
+  reason: string | null;
+  reasons: CreditReason[];
+  snapshot: CreditReviewSnapshot;
+  requested_by: string | null;
+  decided_by: string | null;
+  decided_at: string | null;
+  decision_note: string | null;
+  created_at: string;
+}
+
+export interface CreditReviewEvent {
+  id: string;
+  review_id: string;
+  event_type: CreditReviewEventType;
+  note: string | null;
+  created_by: string | null;
+  created_at: string;
+}
+
+export interface CreditPolicy {
+  id?: string;
+  near_limit_pct: number;
+  hold_over_limit_pct: number;
+  hold_days_past_due: number;
+  hold_risk_score: number;
+  alert_collectors: boolean;
+  updated_at?: string;
+}
+
+export interface StaffMember {
+  id: string;
+  full_name: string | null;
+  email: string;
+}
+
+export const DEFAULT_CREDIT_POLICY: CreditPolicy = {
+  near_limit_pct: 80,
+  hold_over_limit_pct: 120,
+  hold_days_past_due: 90,
+  hold_risk_score: 70,
+  alert_collectors: true,
+};
+
+export const RECOMMENDATION_LABELS: Record<CreditRecommendation, string> = {
+  none: 'OK',
+  watch: 'Watch',
+  credit_hold: 'Hold recommended',
+  release_hold: 'Release recommended',
+};
+
+export const RECOMMENDATION_STYLES: Record<CreditRecommendation, string> = {
+  none: 'bg-gray-100 text-gray-600',
+  watch: 'bg-amber-100 text-amber-700',
+  credit_hold: 'bg-red-100 text-red-700',
+  release_hold: 'bg-green-100 text-green-700',
+};
+
+export const REASON_LABELS: Record<CreditReason, string> = {
+  over_limit: 'Over limit',
+  near_limit: 'Near limit',
+  far_over_limit: 'Far over limit',
+  past_due_aging: 'Past due aging',
+  high_risk: 'High risk score',
+};
+
+export const REVIEW_TYPE_LABELS: Record<CreditReviewType, string> = {
+  credit_hold: 'Credit hold',
+  release_hold: 'Release hold',
+};
+
+export const REVIEW_STATUS_LABELS: Record<CreditReviewStatus, string> = {
+  pending: 'Pending',
+  approved: 'Approved',
+  rejected: 'Rejected',
+  cancelled: 'Cancelled',
+};
+
+export const REVIEW_STATUS_STYLES: Record<CreditReviewStatus, string> = {
+  pending: 'bg-amber-100 text-amber-700',
+  approved: 'bg-green-100 text-green-700',
+  rejected: 'bg-red-100 text-red-700',
+  cancelled: 'bg-gray-100 text-gray-600',
+};
+
+export const EVENT_LABELS: Record<CreditReviewEventType, string> = {
+  created: 'Opened the review',
+  approved: 'Approved',
+  rejected: 'Rejected',
+  cancelled: 'Cancelled the review',
+  comment: 'Commented',
+  hold_applied: 'Put the customer on credit hold',
+  hold_released: 'Released the credit hold',
+};
+
+export const utilizationStyle = (pct: number | null) =>
+  pct === null ? 'text-gray-400' : pct > 100 ? 'text-red-700' : pct >= 80 ? 'text-amber-700' : 'text-gray-900';
+
+export const formatCurrency = (value: number | null | undefined) =>
+  `$${(value || 0).toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
@@ -1,6 +1,7 @@
 import { useState, useEffect } from 'react';
 import { Power, PowerOff, RefreshCw, CheckCircle, XCircle, Clock } from 'lucide-react';
 import { supabase } from '../lib/supabase';
+import SyncJobQueuePanel from './SyncJobQueuePanel';
 
 interface CronJob {
   jobid: number;
@@ -79,6 +80,8 @@ export default function CronJobControl() {
         return 'Processes scheduled email formulas';
       case 'send-reminder-emails-every-5-minutes':
         return 'Sends reminder notification emails';
+      case 'sync-orchestrator':
+        return 'Runs the next chunk of queued sync jobs';
       default:
         return '';
     }
@@ -96,121 +99,125 @@ export default function CronJobControl() {
   }
 
   return (
-    <div className="bg-white rounded-lg shadow-sm p-6">
-      <div className="flex items-center justify-between mb-6">
-        <div>
-          <h2 className="text-xl font-bold text-gray-900">Scheduled Tasks (Cron Jobs)</h2>
-          <p className="text-sm text-gray-600 mt-1">Control automated background tasks</p>
+    <>
+      <div className="bg-white rounded-lg shadow-sm p-6">
+        <div className="flex items-center justify-between mb-6">
+          <div>
+            <h2 className="text-xl font-bold text-gray-900">Scheduled Tasks (Cron Jobs)</h2>
+            <p className="text-sm text-gray-600 mt-1">Control automated background tasks</p>
+          </div>
+          <button
+            onClick={loadCronJobs}
+            className="flex items-center gap-2 px-4 py-2 text-sm text-gray-700 bg-gray-100 hover:bg-gray-200 rounded-lg transition-colors"
+          >
+            <RefreshCw className="h-4 w-4" />
+            Refresh
+          </button>
         </div>
-        <button
-          onClick={loadCronJobs}
-          className="flex items-center gap-2 px-4 py-2 text-sm text-gray-700 bg-gray-100 hover:bg-gray-200 rounded-lg transition-colors"
-        >
-          <RefreshCw className="h-4 w-4" />
-          Refresh
-        </button>
-      </div>
 
-      {message && (
-        <div className={`mb-4 p-4 rounded-lg ${
-          message.includes('Error')
-            ? 'bg-red-50 border border-red-200 text-red-700'
-            : 'bg-green-50 border border-green-200 text-green-700'
-        }`}>
-          <div className="flex items-start">
-            {message.includes('Error') ? (
-              <XCircle className="h-5 w-5 mr-2 mt-0.5" />
-            ) : (
-              <CheckCircle className="h-5 w-5 mr-2 mt-0.5" />
-            )}
-            <span>{message}</span>
+        {message && (
+          <div className={`mb-4 p-4 rounded-lg ${
+            message.includes('Error')
+              ? 'bg-red-50 border border-red-200 text-red-700'
+              : 'bg-green-50 border border-green-200 text-green-700'
+          }`}>
+            <div className="flex items-start">
+              {message.includes('Error') ? (
+                <XCircle className="h-5 w-5 mr-2 mt-0.5" />
+              ) : (
+                <CheckCircle className="h-5 w-5 mr-2 mt-0.5" />
+              )}
+              <span>{message}</span>
+            </div>
           </div>
-        </div>
-      )}
-
-      <div className="space-y-3">
-        {cronJobs.map((job) => (
-          <div
-            key={job.jobid}
-            className={`border rounded-lg p-4 transition-colors ${
-              job.active
-                ? 'border-green-200 bg-green-50'
-                : 'border-gray-200 bg-gray-50'
-            }`}
-          >
-            <div className="flex items-start justify-between">
-              <div className="flex-1">
-                <div className="flex items-center gap-3 mb-2">
-                  <div className={`flex items-center gap-2 px-3 py-1 rounded-full text-sm font-semibold ${
-                    job.active
-                      ? 'bg-green-100 text-green-800'
-                      : 'bg-gray-200 text-gray-600'
-                  }`}>
-                    {job.active ? (
-                      <>
-                        <Power className="h-3 w-3" />
-                        Enabled
-                      </>
-                    ) : (
-                      <>
-                        <PowerOff className="h-3 w-3" />
-                        Disabled
-                      </>
-                    )}
+        )}
+
+        <div className="space-y-3">
+          {cronJobs.map((job) => (
+            <div
+              key={job.jobid}
+              className={`border rounded-lg p-4 transition-colors ${
+                job.active
+                  ? 'border-green-200 bg-green-50'
+                  : 'border-gray-200 bg-gray-50'
+              }`}
+            >
+              <div className="flex items-start justify-between">
+                <div className="flex-1">
+                  <div className="flex items-center gap-3 mb-2">
+                    <div className={`flex items-center gap-2 px-3 py-1 rounded-full text-sm font-semibold ${
+                      job.active
+                        ? 'bg-green-100 text-green-800'
+                        : 'bg-gray-200 text-gray-600'
+                    }`}>
+                      {job.active ? (
+                        <>
+                          <Power className="h-3 w-3" />
+                          Enabled
+                        </>
+                      ) : (
+                        <>
+                          <PowerOff className="h-3 w-3" />
+                          Disabled
+                        </>
+                      )}
+                    </div>
+                    <h3 className="font-semibold text-gray-900">{job.jobname}</h3>
                   </div>
-                  <h3 className="font-semibold text-gray-900">{job.jobname}</h3>
-                </div>
 
-                <p className="text-sm text-gray-600 mb-2">{getJobDescription(job.jobname)}</p>
+                  <p className="text-sm text-gray-600 mb-2">{getJobDescription(job.jobname)}</p>
 
-                <div className="flex items-center gap-4 text-xs text-gray-500">
-                  <div className="flex items-center gap-1">
-                    <Clock className="h-3 w-3" />
-                    <span>{getScheduleDescription(job.schedule)}</span>
-                  </div>
-                  <div>
-                    <span className="font-mono">{job.schedule}</span>
+                  <div className="flex items-center gap-4 text-xs text-gray-500">
+                    <div className="flex items-center gap-1">
+                      <Clock className="h-3 w-3" />
+                      <span>{getScheduleDescription(job.schedule)}</span>
+                    </div>
+                    <div>
+                      <span className="font-mono">{job.schedule}</span>
+                    </div>
                   </div>
                 </div>
-              </div>
 
-              <button
-                onClick={() => toggleCronJob(job.jobid, job.active)}
-                disabled={toggling === job.jobid}
-                className={`flex items-center gap-2 px-4 py-2 rounded-lg font-medium transition-colors ${
-                  job.active
-                    ? 'bg-red-600 hover:bg-red-700 text-white'
-                    : 'bg-green-600 hover:bg-green-700 text-white'
-                } disabled:opacity-50 disabled:cursor-not-allowed`}
-              >
-                {toggling === job.jobid ? (
-                  <>
-                    <RefreshCw className="h-4 w-4 animate-spin" />
-                    <span>Processing...</span>
-                  </>
-                ) : job.active ? (
-                  <>
-                    <PowerOff className="h-4 w-4" />
-                    <span>Disable</span>
-                  </>
-                ) : (
-                  <>
-                    <Power className="h-4 w-4" />
-                    <span>Enable</span>
-                  </>
-                )}
-              </button>
+                <button
+                  onClick={() => toggleCronJob(job.jobid, job.active)}
+                  disabled={toggling === job.jobid}
+                  className={`flex items-center gap-2 px-4 py-2 rounded-lg font-medium transition-colors ${
+                    job.active
+                      ? 'bg-red-600 hover:bg-red-700 text-white'
+                      : 'bg-green-600 hover:bg-green-700 text-white'
+                  } disabled:opacity-50 disabled:cursor-not-allowed`}
+                >
+                  {toggling === job.jobid ? (
+                    <>
+                      <RefreshCw className="h-4 w-4 animate-spin" />
+                      <span>Processing...</span>
+                    </>
+                  ) : job.active ? (
+                    <>
+                      <PowerOff className="h-4 w-4" />
+                      <span>Disable</span>
+                    </>
+                  ) : (
+                    <>
+                      <Power className="h-4 w-4" />
+                      <span>Enable</span>
+                    </>
+                  )}
+                </button>
+              </div>
             </div>
+          ))}
+        </div>
+
+        {cronJobs.length === 0 && (
+          <div className="text-center py-12 text-gray-500">
+            <Clock className="h-12 w-12 mx-auto mb-3 text-gray-400" />
+            <p>No cron jobs found</p>
           </div>
-        ))}
+        )}
       </div>
 
-      {cronJobs.length === 0 && (
-        <div className="text-center py-12 text-gray-500">
-          <Clock className="h-12 w-12 mx-auto mb-3 text-gray-400" />
-          <p>No cron jobs found</p>
-        </div>
-      )}
-    </div>
+      <SyncJobQueuePanel />
+    </>
   );
 }
@@ -31,6 +31,7 @@ const JOB_DESCRIPTIONS: Record<string, string> = {
   'email-scheduler-job': 'Processes the email formula schedule queue and sends pending emails',
   'payment-sync-health-check-daily': 'Runs a daily health check comparing payment data between Acumatica and database',
   'process-auto-ticket-rules-daily': 'Evaluates auto-ticket rules and creates tickets for matching conditions',
+  'process-dunning-sequences': 'Advances customers through dunning sequences based on invoice aging and sends due steps',
   'reconcile-balanced-invoices-daily': 'Reconciles invoices that show zero balance with their actual payment status',
   'reconcile-invoice-statuses-daily': 'Full reconciliation of invoice statuses against Acumatica source data',
   'refresh-customer-stats': 'Refreshes the cached customer statistics and balance calculations',
@@ -3,6 +3,7 @@ import { useNavigate, useSearchParams } from 'react-router-dom';
 import { supabase } from '../lib/supabase';
 import { ArrowLeft, Plus, Edit2, Trash2, Link as LinkIcon, RefreshCw, Calendar, Mail, User, Clock, PauseCircle, Users, Ticket } from 'lucide-react';
 import ManageCustomersModal from './ManageCustomersModal';
+import { CONTACT_ROLE_LABELS, ContactRole } from '../lib/customerContacts';
 
 type Customer = {
   id: string;
@@ -29,6 +30,7 @@ type Assignment = {
   template_id: string;
   start_day_of_month: number;
   timezone: string;
+  recipient_roles: ContactRole[];
   is_active: boolean;
   created_at: string;
   customer?: Customer;
@@ -60,6 +62,7 @@ export default function CustomerAssignments({ onBack }: CustomerAssignmentsProps
     customer_id: '',
     formula_id: '',
     template_id: '',
+    recipient_roles: [] as ContactRole[],
   });
 
   const autoOpenHandled = useRef(false);
@@ -208,6 +211,7 @@ export default function CustomerAssignments({ onBack }: CustomerAssignmentsProps
       template_id: '',
       start_day_of_month: 1,
       timezone: 'America/New_York',
+      recipient_roles: [],
     });
     setShowForm(true);
   };
@@ -218,6 +222,7 @@ export default function CustomerAssignments({ onBack }: CustomerAssignmentsProps
       customer_id: assignment.customer_id,
       formula_id: assignment.formula_id,
       template_id: assignment.template_id,
+      recipient_roles: assignment.recipient_roles || [],
     });
     setShowForm(true);
   };
@@ -335,6 +340,7 @@ export default function CustomerAssignments({ onBack }: CustomerAssignmentsProps
         template_id: formData.template_id,
         start_day_of_month: 1,
         timezone: 'America/New_York',
+        recipient_roles: formData.recipient_roles,
       };
 
       if (ticketContext && !editingAssignment) {
@@ -492,6 +498,39 @@ export default function CustomerAssignments({ onBack }: CustomerAssignmentsProps
                 </select>
               </div>
 
+              <div>
+                <label className="block text-sm font-medium text-slate-300 mb-2">
+                  Also Send To
+                </label>
+                <div className="flex flex-wrap gap-2">
+                  {(Object.keys(CONTACT_ROLE_LABELS) as ContactRole[]).map((role) => {
+                    const selected = formData.recipient_roles.includes(role);
+                    return (
+                      <button
+                        key={role}
+                        type="button"
+                        onClick={() => setFormData({
+                          ...formData,
+                          recipient_roles: selected
+                            ? formData.recipient_roles.filter((r) => r !== role)
+                            : [...formData.recipient_roles, role],
+                        })}
+                        className={`px-3 py-1.5 rounded-full text-sm font-medium border transition-colors ${
+                          selected
+                            ? 'bg-blue-600 border-blue-500 text-white'
+                            : 'bg-slate-700 border-slate-600 text-slate-300 hover:bg-slate-600'
+                        }`}
+                      >
+                        {CONTACT_ROLE_LABELS[role]}
+                      </button>
+                    );
+                  })}
+                </div>
+                <p className="text-xs text-slate-400 mt-2">
+                  Contacts with these roles at the customer's account are added as recipients
+                </p>
+              </div>
+
               <div className="flex gap-4">
                 <button
                   type="submit"
@@ -635,6 +674,14 @@ export default function CustomerAssignments({ onBack }: CustomerAssignmentsProps
                               Timezone: <span className="font-medium">{assignment.timezone?.replace('America/', '').replace('_', ' ') || 'UTC'}</span>
                             </span>
                           </div>
+                          {assignment.recipient_roles?.length > 0 && (
+                            <div className="flex items-center gap-2">
+                              <Users className="text-slate-400" size={16} />
+                              <span className="text-slate-300 text-sm">
+                                Also to: <span className="font-medium">{assignment.recipient_roles.map((role) => CONTACT_ROLE_LABELS[role]).join(', ')}</span>
+                              </span>
+                            </div>
+                          )}
                           <div className="flex items-center gap-2">
                             <span className={`px-3 py-1 rounded-full text-xs font-medium ${
                               assignment.is_active
@@ -0,0 +1,431 @@
+import { useState, useEffect } from 'react';
+import { Loader2, Plus, Pencil, Trash2, Mail, Phone, Smartphone, Star, Ban, RefreshCw } from 'lucide-react';
+import { useAuth } from '../contexts/AuthContext';
+import { useToast } from '../contexts/ToastContext';
+import { usePermissions } from '../contexts/PermissionsContext';
+import { PERMISSIONS } from '../lib/permissions';
+import {
+  CONTACT_CHANNEL_LABELS,
+  CONTACT_ROLE_LABELS,
+  ContactChannel,
+  ContactDetails,
+  ContactPreferences,
+  ContactRole,
+  CustomerContact,
+  createLocalContact,
+  deleteLocalContact,
+  fetchCustomerContacts,
+  updateContact,
+} from '../lib/customerContacts';
+
+interface CustomerContactsProps {
+  customerId: string;
+}
+
+type ContactForm = ContactDetails & ContactPreferences & { id?: string };
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+const emptyForm = (): ContactForm => ({
+  first_name: '',
+  last_name: '',
+  job_title: '',
+  email: '',
+  phone: '',
+  mobile_phone: '',
+  roles: [],
+  preferred_channel: 'email',
+  is_primary: false,
+  do_not_contact: false,
+  do_not_contact_reason: '',
+  notes: '',
+});
+
+const toForm = (contact: CustomerContact): ContactForm => ({
+  id: contact.id,
+  first_name: contact.first_name ?? '',
+  last_name: contact.last_name ?? '',
+  job_title: contact.job_title ?? '',
+  email: contact.email ?? '',
+  phone: contact.phone ?? '',
+  mobile_phone: contact.mobile_phone ?? '',
+  roles: contact.roles,
+  preferred_channel: contact.preferred_channel,
+  is_primary: contact.is_primary,
+  do_not_contact: contact.do_not_contact,
+  do_not_contact_reason: contact.do_not_contact_reason ?? '',
+  notes: contact.notes ?? '',
+});
+
+const inputClass =
+  'mt-1 w-full px-3 py-1.5 border border-gray-300 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-blue-500 disabled:bg-gray-50 disabled:text-gray-500';
+
+export default function CustomerContacts({ customerId }: CustomerContactsProps) {
+  const { user, profile } = useAuth();
+  const { showToast } = useToast();
+  const { can } = usePermissions();
+  const canCreate = can(PERMISSIONS.CUSTOMER_CONTACTS, 'create');
+  const canEdit = can(PERMISSIONS.CUSTOMER_CONTACTS, 'edit');
+  const canDelete = can(PERMISSIONS.CUSTOMER_CONTACTS, 'delete');
+
+  const [contacts, setContacts] = useState<CustomerContact[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [form, setForm] = useState<ContactForm | null>(null);
+  const [saving, setSaving] = useState(false);
+  const [showInactive, setShowInactive] = useState(false);
+
+  const loadContacts = async () => {
+    try {
+      setContacts(await fetchCustomerContacts(customerId));
+    } catch (error: any) {
+      showToast(error.message, 'error');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    setLoading(true);
+    setForm(null);
+    loadContacts();
+  }, [customerId]);
+
+  const editing = form?.id ? contacts.find(c => c.id === form.id) : undefined;
+  // Acumatica owns the name, email and phones of synced contacts
+  const detailsLocked = editing?.source === 'acumatica';
+
+  const toggleRole = (role: ContactRole) => {
+    if (!form) return;
+    setForm({
+      ...form,
+      roles: form.roles.includes(role) ? form.roles.filter(r => r !== role) : [...form.roles, role],
+    });
+  };
+
+  const handleSave = async () => {
+    if (!form || !user || !profile?.organization_id) return;
+    const email = form.email?.trim() || '';
+    if (!detailsLocked) {
+      if (!form.first_name?.trim() && !form.last_name?.trim() && !email) {
+        showToast('Enter a name or an email address', 'error');
+        return;
+      }
+      if (email && !EMAIL_PATTERN.test(email)) {
+        showToast('Enter a valid email address', 'error');
+        return;
+      }
+    }
+
+    const details: ContactDetails = {
+      first_name: form.first_name?.trim() || null,
+      last_name: form.last_name?.trim() || null,
+      job_title: form.job_title?.trim() || null,
+      email: email || null,
+      phone: form.phone?.trim() || null,
+      mobile_phone: form.mobile_phone?.trim() || null,
+    };
+    const preferences: ContactPreferences = {
+      roles: form.roles,
+      preferred_channel: form.preferred_channel,
+      is_primary: form.is_primary,
+      do_not_contact: form.do_not_contact,
+      do_not_contact_reason: form.do_not_contact_reason?.trim() || null,
+      notes: form.notes?.trim() || null,
+    };
+
+    setSaving(true);
+    try {
+      if (editing) {
+        await updateContact(editing, detailsLocked ? null : details, preferences, user.id);
+      } else {
+        await createLocalContact(profile.organization_id, customerId, details, preferences, user.id);
+      }
+      showToast('Contact saved', 'success');
+      setForm(null);
+      await loadContacts();
+    } catch (error: any) {
+      showToast(error.message, 'error');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = async (contact: CustomerContact) => {
+    if (!confirm(`Remove ${contact.display_name} from this customer's contacts?`)) return;
+    try {
+      await deleteLocalContact(contact.id);
+      showToast('Contact removed', 'success');
+      if (form?.id === contact.id) setForm(null);
+      await loadContacts();
+    } catch (error: any) {
+      showToast(error.message, 'error');
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center py-6">
+        <Loader2 className="w-5 h-5 animate-spin text-blue-600" />
+      </div>
+    );
+  }
+
+  const inactiveCount = contacts.filter(c => !c.is_active).length;
+  const visible = showInactive ? contacts : contacts.filter(c => c.is_active);
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between gap-3 flex-wrap">
+        <div>
+          <h3 className="text-sm font-semibold text-gray-900">Contacts</h3>
+          <p className="text-xs text-gray-500">
+            Synced from Acumatica and added here. Roles decide who receives statements and scheduled emails.
+          </p>
+        </div>
+        <div className="flex items-center gap-3">
+          {inactiveCount > 0 && (
+            <label className="flex items-center gap-1.5 text-xs text-gray-600">
+              <input
+                type="checkbox"
+                checked={showInactive}
+                onChange={e => setShowInactive(e.target.checked)}
+                className="rounded border-gray-300 text-blue-600"
+              />
+              Show inactive ({inactiveCount})
+            </label>
+          )}
+          {canCreate && (
+            <button
+              onClick={() => setForm(emptyForm())}
+              className="flex items-center gap-1.5 px-3 py-1.5 bg-blue-600 text-white rounded-lg hover:bg-blue-700 text-sm font-medium"
+            >
+              <Plus className="w-4 h-4" />
+              Add Contact
+            </button>
+          )}
+        </div>
+      </div>
+
+      {form && (
+        <div className="border border-blue-200 bg-blue-50/40 rounded-lg p-4 space-y-4">
+          <div className="flex items-center justify-between">
+            <h4 className="text-sm font-semibold text-gray-900">{editing ? `Edit ${editing.display_name}` : 'New contact'}</h4>
+            {detailsLocked && (
+              <span className="inline-flex items-center gap-1 text-xs text-gray-500">
+                <RefreshCw className="w-3 h-3" />
+                Name, email and phones are managed in Acumatica
+              </span>
+            )}
+          </div>
+
+          <fieldset disabled={detailsLocked} className="grid grid-cols-1 md:grid-cols-3 gap-3">
+            <label className="block">
+              <span className="text-xs font-medium text-gray-700">First name</span>
+              <input value={form.first_name ?? ''} onChange={e => setForm({ ...form, first_name: e.target.value })} className={inputClass} />
+            </label>
+            <label className="block">
+              <span className="text-xs font-medium text-gray-700">Last name</span>
+              <input value={form.last_name ?? ''} onChange={e => setForm({ ...form, last_name: e.target.value })} className={inputClass} />
+            </label>
+            <label className="block">
+              <span className="text-xs font-medium text-gray-700">Job title</span>
+              <input value={form.job_title ?? ''} onChange={e => setForm({ ...form, job_title: e.target.value })} className={inputClass} />
+            </label>
+            <label className="block">
+              <span className="text-xs font-medium text-gray-700">Email</span>
+              <input type="email" value={form.email ?? ''} onChange={e => setForm({ ...form, email: e.target.value })} className={inputClass} />
+            </label>
+            <label className="block">
+              <span className="text-xs font-medium text-gray-700">Phone</span>
+              <input value={form.phone ?? ''} onChange={e => setForm({ ...form, phone: e.target.value })} className={inputClass} />
+            </label>
+            <label className="block">
+              <span className="text-xs font-medium text-gray-700">Mobile</span>
+              <input value={form.mobile_phone ?? ''} onChange={e => setForm({ ...form, mobile_phone: e.target.value })} className={inputClass} />
+            </label>
+          </fieldset>
+
+          <div>
+            <span className="text-xs font-medium text-gray-700">Roles</span>
+            <div className="mt-1 flex flex-wrap gap-1.5">
+              {(Object.keys(CONTACT_ROLE_LABELS) as ContactRole[]).map(role => (
+                <button
+                  key={role}
+                  type="button"
+                  onClick={() => toggleRole(role)}
+                  className={`px-2.5 py-1 rounded-full text-xs font-medium border transition-colors ${
+                    form.roles.includes(role)
+                      ? 'bg-blue-600 border-blue-600 text-white'
+                      : 'bg-white border-gray-300 text-gray-700 hover:bg-gray-50'
+                  }`}
+                >
+                  {CONTACT_ROLE_LABELS[role]}
+                </button>
+              ))}
+            </div>
+          </div>
+
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+            <label className="block">
+              <span className="text-xs font-medium text-gray-700">Preferred channel</span>
+              <select
+                value={form.preferred_channel}
+                onChange={e => setForm({ ...form, preferred_channel: e.target.value as ContactChannel })}
+                className={inputClass}
+              >
+                {(Object.keys(CONTACT_CHANNEL_LABELS) as ContactChannel[]).map(channel => (
+                  <option key={channel} value={channel}>{CONTACT_CHANNEL_LABELS[channel]}</option>
+                ))}
+              </select>
+            </label>
+            <label className="flex items-center gap-2 md:mt-5">
+              <input
+                type="checkbox"
+                checked={form.is_primary}
+                onChange={e => setForm({ ...form, is_primary: e.target.checked })}
+                className="rounded border-gray-300 text-blue-600"
+              />
+              <span className="text-sm text-gray-700">Primary contact</span>
+            </label>
+            <label className="flex items-center gap-2 md:mt-5">
+              <input
+                type="checkbox"
+                checked={form.do_not_contact}
+                onChange={e => setForm({ ...form, do_not_contact: e.target.checked })}
+                className="rounded border-gray-300 text-blue-600"
+              />
+              <span className="text-sm text-gray-700">Do not contact</span>
+            </label>
+          </div>
+
+          {form.do_not_contact && (
+            <input
+              value={form.do_not_contact_reason ?? ''}
+              onChange={e => setForm({ ...form, do_not_contact_reason: e.target.value })}
+              placeholder="Reason (e.g. left the company, asked to be removed)"
+              className={inputClass}
+            />
+          )}
+
+          <label className="block">
+            <span className="text-xs font-medium text-gray-700">Notes</span>
+            <textarea
+              value={form.notes ?? ''}
+              onChange={e => setForm({ ...form, notes: e.target.value })}
+              rows={2}
+              className={inputClass}
+            />
+          </label>
+
+          <div className="flex justify-end gap-2">
+            <button
+              onClick={() => setForm(null)}
+              className="px-3 py-1.5 border border-gray-300 rounded-lg text-sm text-gray-700 hover:bg-gray-50"
+            >
+              Cancel
+            </button>
+            <button
+              onClick={handleSave}
+              disabled={saving}
+              className="flex items-center gap-1.5 px-3 py-1.5 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50 text-sm font-medium"
+            >
+              {saving && <Loader2 className="w-4 h-4 animate-spin" />}
+              Save Contact
+            </button>
+          </div>
+        </div>
+      )}
+
+      {visible.length === 0 ? (
+        <p className="text-sm text-gray-500 text-center py-6 border border-dashed border-gray-200 rounded-lg">
+          No contacts yet
+        </p>
+      ) : (
+        <div className="border border-gray-200 rounded-lg divide-y divide-gray-100">
+          {visible.map(contact => (
+            <div key={contact.id} className={`px-4 py-3 flex items-start justify-between gap-4 ${contact.is_active ? '' : 'opacity-60'}`}>
+              <div className="min-w-0 space-y-1">
+                <div className="flex items-center gap-2 flex-wrap">
+                  <span className="text-sm font-medium text-gray-900">{contact.display_name}</span>
+                  {contact.job_title && <span className="text-xs text-gray-500">{contact.job_title}</span>}
+                  {contact.is_primary && (
+                    <span className="inline-flex items-center gap-0.5 px-1.5 py-0.5 rounded bg-amber-100 text-amber-800 text-xs">
+                      <Star className="w-3 h-3" />
+                      Primary
+                    </span>
+                  )}
+                  {contact.do_not_contact && (
+                    <span
+                      className="inline-flex items-center gap-0.5 px-1.5 py-0.5 rounded bg-red-100 text-red-800 text-xs"
+                      title={contact.do_not_contact_reason || undefined}
+                    >
+                      <Ban className="w-3 h-3" />
+                      Do not contact
+                    </span>
+                  )}
+                  {!contact.is_active && (
+                    <span className="px-1.5 py-0.5 rounded bg-gray-100 text-gray-600 text-xs">Inactive</span>
+                  )}
+                  <span className="px-1.5 py-0.5 rounded bg-gray-100 text-gray-600 text-xs">
+                    {contact.source === 'acumatica' ? 'Acumatica' : 'Local'}
+                  </span>
+                </div>
+                <div className="flex items-center gap-4 flex-wrap text-xs text-gray-600">
+                  {contact.email && (
+                    <a href={`mailto:${contact.email}`} className="inline-flex items-center gap-1 hover:text-blue-600">
+                      <Mail className="w-3 h-3" />
+                      {contact.email}
+                    </a>
+                  )}
+                  {contact.phone && (
+                    <span className="inline-flex items-center gap-1">
+                      <Phone className="w-3 h-3" />
+                      {contact.phone}
+                    </span>
+                  )}
+                  {contact.mobile_phone && (
+                    <span className="inline-flex items-center gap-1">
+                      <Smartphone className="w-3 h-3" />
+                      {contact.mobile_phone}
+                    </span>
+                  )}
+                  <span className="text-gray-400">Prefers {CONTACT_CHANNEL_LABELS[contact.preferred_channel].toLowerCase()}</span>
+                </div>
+                {contact.roles.length > 0 && (
+                  <div className="flex flex-wrap gap-1">
+                    {contact.roles.map(role => (
+                      <span key={role} className="px-2 py-0.5 rounded-full bg-blue-50 text-blue-700 text-xs">
+                        {CONTACT_ROLE_LABELS[role]}
+                      </span>
+                    ))}
+                  </div>
+                )}
+                {contact.notes && <p className="text-xs text-gray-500">{contact.notes}</p>}
+              </div>
+              <div className="flex items-center gap-1 shrink-0">
+                {canEdit && (
+                  <button
+                    onClick={() => setForm(toForm(contact))}
+                    className="p-1.5 rounded-lg text-gray-500 hover:bg-gray-100 hover:text-gray-700"
+                    title="Edit"
+                  >
+                    <Pencil className="w-4 h-4" />
+                  </button>
+                )}
+                {canDelete && contact.source === 'local' && (
+                  <button
+                    onClick={() => handleDelete(contact)}
+                    className="p-1.5 rounded-lg text-gray-500 hover:bg-red-50 hover:text-red-600"
+                    title="Remove"
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </button>
+                )}
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
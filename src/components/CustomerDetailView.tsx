@@ -3,13 +3,22 @@ import { useNavigate, useSearchParams, useParams } from 'react-router-dom';
 import { ArrowLeft, DollarSign, FileText, CreditCard, Calendar, TrendingUp, AlertCircle, TrendingDown, MessageSquare, Send, Tag, Clock, User, ArrowUpDown, ArrowUp, ArrowDown, ExternalLink, Ticket, ChevronRight, ChevronDown, PauseCircle, Mail, MapPin, Phone, Building2, Hash } from 'lucide-react';
 import { supabase, logActivity } from '../lib/supabase';
 import { useAuth } from '../contexts/AuthContext';
+import { usePermissions } from '../contexts/PermissionsContext';
+import { PERMISSIONS } from '../lib/permissions';
 import { usePageCache } from '../contexts/PageCacheContext';
 import { formatDate as formatDateUtil } from '../lib/dateUtils';
 import { getAcumaticaInvoiceUrl, getAcumaticaPaymentUrl, getAcumaticaCustomerUrl } from '../lib/acumaticaLinks';
 import InvoiceFilterPanel from './InvoiceFilterPanel';
 import CustomerTimelineChart from './CustomerTimelineChart';
 import CustomerMonthlySheet from './CustomerMonthlySheet';
+import CustomerDocuments from './CustomerDocuments';
+import StatementDeliveryPreferences from './StatementDeliveryPreferences';
+import CustomerContacts from './CustomerContacts';
 import CustomerAIChat from './CustomerAIChat';
+import CustomerDunningStatus from './CustomerDunningStatus';
+import CustomerPortalLink from './CustomerPortalLink';
+import CustomerRiskPanel from './CustomerRiskPanel';
+import { fetchCustomerPendingCash, PendingCashEntry } from '../lib/remittances';
 
 interface CustomerDetailViewProps {
   customerId: string;
@@ -105,6 +114,7 @@ interface TicketData {
 
 export default function CustomerDetailView({ customerId, onBack }: CustomerDetailViewProps) {
   const { profile } = useAuth();
+  const { can } = usePermissions();
   const rawNavigate = useNavigate();
   const { orgSlug } = useParams<{ orgSlug: string }>();
   const navigate = (path: string, options?: any) => {
@@ -137,7 +147,7 @@ export default function CustomerDetailView({ customerId, onBack }: CustomerDetai
   const [loadingPayments, setLoadingPayments] = useState(false);
   const [loadingTickets, setLoadingTickets] = useState(() => !cd);
   const [loadingMore, setLoadingMore] = useState(false);
-  const [activeTab, setActiveTab] = useState<'open-invoices' | 'balanced-invoices' | 'paid-invoices' | 'payments' | 'email-tracking'>(() => cd?.activeTab ?? 'open-invoices');
+  const [activeTab, setActiveTab] = useState<'open-invoices' | 'balanced-invoices' | 'paid-invoices' | 'payments' | 'email-tracking' | 'contacts' | 'documents'>(() => cd?.activeTab ?? 'open-invoices');
   const [newNote, setNewNote] = useState('');
   const [noteType, setNoteType] = useState('general');
   const [savingNote, setSavingNote] = useState(false);
@@ -168,6 +178,7 @@ export default function CustomerDetailView({ customerId, onBack }: CustomerDetai
   const [avgDaysToCollect, setAvgDaysToCollect] = useState<number | null>(() => cd?.avgDaysToCollect ?? null);
   const [excludeCreditMemos, setExcludeCreditMemos] = useState(() => cd?.excludeCreditMemos ?? false);
   const [showTimeline, setShowTimeline] = useState(false);
+  const [pendingCash, setPendingCash] = useState<PendingCashEntry[]>([]);
 
   const restoredFromCache = useRef(!!cd);
   const mountTime = useRef(Date.now());
@@ -200,6 +211,13 @@ export default function CustomerDetailView({ customerId, onBack }: CustomerDetai
     loadCustomerBasicInfo();
   }, [excludeCreditMemos]);
 
+  useEffect(() => {
+    if (!customerId) return;
+    fetchCustomerPendingCash(customerId)
+      .then(setPendingCash)
+      .catch(err => console.error('Error loading pending cash:', err));
+  }, [customerId]);
+
   useEffect(() => {
     const handleClickOutside = (event: MouseEvent) => {
       const target = event.target as HTMLElement;
@@ -775,6 +793,15 @@ export default function CustomerDetailView({ customerId, onBack }: CustomerDetai
   const totalPaid = validPayments.reduce((sum, p) => sum + (parseFloat(p.payment_amount as any) || 0), 0);
   const paymentCount = validPayments.length;
 
+  const pendingCashByInvoice = new Map<string, number>();
+  pendingCash.forEach(entry => {
+    if (!entry.invoice_reference_number) return;
+    pendingCashByInvoice.set(
+      entry.invoice_reference_number,
+      (pendingCashByInvoice.get(entry.invoice_reference_number) || 0) + Number(entry.amount)
+    );
+  });
+
   const totalInvoiced = displayedInvoices
     .filter(inv => inv.status !== 'Voided')
     .reduce((sum, inv) => sum + (inv.amount || 0), 0);
@@ -1023,9 +1050,31 @@ export default function CustomerDetailView({ customerId, onBack }: CustomerDetai
                 </div>
               </div>
             )}
+
+            <CustomerDunningStatus customerId={customer.customer_id} customerName={customer.customer_name} />
+            <CustomerPortalLink customerId={customer.customer_id} />
           </div>
         </div>
 
+        {pendingCash.length > 0 && (
+          <div className="bg-teal-50 border border-teal-200 rounded-xl px-5 py-3 flex items-start gap-3">
+            <DollarSign className="w-5 h-5 text-teal-600 flex-shrink-0 mt-0.5" />
+            <div className="text-sm">
+              <p className="font-semibold text-teal-900">
+                Cash received, pending posting: ${pendingCash.reduce((sum, entry) => sum + Number(entry.amount), 0).toLocaleString('en-US', { minimumFractionDigits: 2 })}
+              </p>
+              <p className="text-teal-700 mt-0.5">
+                {Array.from(new Map(pendingCash.map(entry => [entry.line_id, entry])).values()).map(entry => (
+                  `${formatDateUtil(entry.deposit_date)}${entry.check_number ? ` check ${entry.check_number}` : ''}`
+                )).join(' · ')}
+                {' '}- deposited at the bank, not yet applied in Acumatica
+              </p>
+            </div>
+          </div>
+        )}
+
+        <CustomerRiskPanel customerId={customerId} />
+
         {/* Timeline Chart - Collapsible */}
         <div className="bg-white rounded-xl border border-gray-200 shadow-sm overflow-hidden">
           <button
@@ -1055,6 +1104,8 @@ export default function CustomerDetailView({ customerId, onBack }: CustomerDetai
                 { key: 'paid-invoices', label: 'Paid', count: invoiceCounts.paid, color: 'green' },
                 { key: 'payments', label: 'Payments', count: paymentCount, color: 'blue' },
                 { key: 'email-tracking', label: 'Emails', count: null, color: 'teal' },
+                ...(can(PERMISSIONS.CUSTOMER_CONTACTS) ? [{ key: 'contacts', label: 'Contacts', count: null, color: 'teal' }] : []),
+                ...(can(PERMISSIONS.STATEMENTS) ? [{ key: 'documents', label: 'Statements', count: null, color: 'teal' }] : []),
               ].map(tab => (
                 <button
                   key={tab.key}
@@ -1139,7 +1190,17 @@ export default function CustomerDetailView({ customerId, onBack }: CustomerDetai
                               ref={index === displayedInvoices.length - 1 ? lastInvoiceRef : undefined}
                               className={`group transition-colors ${isOver90Days ? 'bg-red-50/50 hover:bg-red-50' : 'hover:bg-gray-50'}`}
                             >
-                              <td className="px-4 py-2.5 text-sm font-medium text-gray-900">{invoice.reference_number}</td>
+                              <td className="px-4 py-2.5 text-sm font-medium text-gray-900">
+                                {invoice.reference_number}
+                                {pendingCashByInvoice.has(invoice.reference_number) && (
+                                  <span
+                                    className="ml-2 px-1.5 py-0.5 rounded text-[10px] font-semibold bg-teal-100 text-teal-800"
+                                    title="Payment received at the bank and matched to this invoice; not yet posted in Acumatica"
+                                  >
+                                    Cash received ${pendingCashByInvoice.get(invoice.reference_number)!.toLocaleString('en-US', { minimumFractionDigits: 2 })}, pending posting
+                                  </span>
+                                )}
+                              </td>
                               <td className="px-4 py-2.5 text-sm text-gray-600">{formatDateUtil(invoice.date)}</td>
                               <td className="px-4 py-2.5 text-sm text-gray-600">{formatDateUtil(invoice.due_date)}</td>
                               <td className="px-4 py-2.5 relative" data-tour="detail-color-status">
@@ -1428,6 +1489,17 @@ export default function CustomerDetailView({ customerId, onBack }: CustomerDetai
                 customerEmail={customer.email_address || ''}
               />
             )}
+
+            {activeTab === 'contacts' && customer && (
+              <CustomerContacts customerId={customer.customer_id} />
+            )}
+
+            {activeTab === 'documents' && customer && (
+              <div className="space-y-6">
+                <StatementDeliveryPreferences customerId={customer.customer_id} customerEmail={customer.email_address} />
+                <CustomerDocuments customerId={customer.customer_id} />
+              </div>
+            )}
           </div>
         </div>
 
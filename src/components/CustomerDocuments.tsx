@@ -0,0 +1,142 @@
+import { useState, useEffect, useCallback } from 'react';
+import { FileText, Download, Loader2, Mail, FilePlus } from 'lucide-react';
+import { formatDate } from '../lib/dateUtils';
+import {
+  CustomerDocument,
+  DOCUMENT_SOURCE_LABELS,
+  PDF_DOCUMENT_TYPE_LABELS,
+  fetchCustomerDocuments,
+  openCustomerDocument,
+  renderCustomerPdf,
+  saveBlob,
+} from '../lib/customerPdf';
+
+interface CustomerDocumentsProps {
+  customerId: string;
+}
+
+const formatMoney = (value: number | null) =>
+  value == null ? '—' : `$${Number(value).toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+
+export default function CustomerDocuments({ customerId }: CustomerDocumentsProps) {
+  const [documents, setDocuments] = useState<CustomerDocument[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [generating, setGenerating] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadDocuments = useCallback(async () => {
+    try {
+      setDocuments(await fetchCustomerDocuments(customerId));
+    } catch (err: any) {
+      setError(err.message);
+    } finally {
+      setLoading(false);
+    }
+  }, [customerId]);
+
+  useEffect(() => {
+    loadDocuments();
+  }, [loadDocuments]);
+
+  const handleGenerate = async () => {
+    setGenerating(true);
+    setError(null);
+    try {
+      const pdf = await renderCustomerPdf({ customerId });
+      saveBlob(pdf.blob, pdf.filename);
+      await loadDocuments();
+    } catch (err: any) {
+      setError(err.message);
+    } finally {
+      setGenerating(false);
+    }
+  };
+
+  const handleOpen = async (document: CustomerDocument) => {
+    try {
+      await openCustomerDocument(document.storage_path);
+    } catch (err: any) {
+      setError(err.message);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center py-12">
+        <Loader2 className="w-6 h-6 animate-spin text-blue-600" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between gap-3">
+        <p className="text-sm text-gray-500">
+          Every statement and invoice PDF emailed to or downloaded for this customer
+        </p>
+        <button
+          onClick={handleGenerate}
+          disabled={generating}
+          className="flex items-center gap-1.5 px-3 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50 text-sm font-medium"
+        >
+          {generating ? <Loader2 className="w-4 h-4 animate-spin" /> : <FilePlus className="w-4 h-4" />}
+          Generate Statement PDF
+        </button>
+      </div>
+
+      {error && <p className="text-sm text-red-600">{error}</p>}
+
+      {documents.length === 0 ? (
+        <div className="text-center py-12">
+          <FileText className="w-10 h-10 text-gray-300 mx-auto mb-3" />
+          <p className="text-sm text-gray-500">No PDFs have been sent or generated for this customer yet</p>
+        </div>
+      ) : (
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="text-left text-xs text-gray-500 uppercase tracking-wide border-b border-gray-200">
+              <th className="py-2 pr-3 font-medium">Date</th>
+              <th className="py-2 pr-3 font-medium">Document</th>
+              <th className="py-2 pr-3 font-medium text-right">Balance</th>
+              <th className="py-2 pr-3 font-medium text-right">Invoices</th>
+              <th className="py-2 pr-3 font-medium">How</th>
+              <th className="py-2 font-medium" />
+            </tr>
+          </thead>
+          <tbody>
+            {documents.map(document => (
+              <tr key={document.id} className="border-b border-gray-100 last:border-0 hover:bg-gray-50">
+                <td className="py-2 pr-3 text-gray-700 whitespace-nowrap">{formatDate(document.created_at)}</td>
+                <td className="py-2 pr-3">
+                  <div className="text-gray-900">
+                    {PDF_DOCUMENT_TYPE_LABELS[document.document_type]}
+                    {document.invoice_reference_number && ` ${document.invoice_reference_number}`}
+                  </div>
+                  <div className="text-xs text-gray-500 truncate max-w-xs">{document.filename}</div>
+                </td>
+                <td className="py-2 pr-3 text-right tabular-nums">{formatMoney(document.total_balance)}</td>
+                <td className="py-2 pr-3 text-right tabular-nums">{document.invoice_count ?? '—'}</td>
+                <td className="py-2 pr-3">
+                  <span className={`inline-flex items-center gap-1 px-2 py-0.5 rounded-full text-xs font-medium ${
+                    document.source === 'email' ? 'bg-teal-100 text-teal-800' : 'bg-gray-100 text-gray-700'
+                  }`}>
+                    {document.source === 'email' ? <Mail className="w-3 h-3" /> : <Download className="w-3 h-3" />}
+                    {DOCUMENT_SOURCE_LABELS[document.source]}
+                  </span>
+                </td>
+                <td className="py-2 text-right">
+                  <button
+                    onClick={() => handleOpen(document)}
+                    className="text-blue-600 hover:text-blue-800 text-xs font-medium"
+                  >
+                    Open
+                  </button>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,252 @@
+import { useState, useEffect } from 'react';
+import { Mail, Check, PauseCircle, PlayCircle, XCircle, Loader2, Ticket, Zap } from 'lucide-react';
+import { supabase } from '../lib/supabase';
+import { useAuth } from '../contexts/AuthContext';
+import { formatDate as formatDateUtil } from '../lib/dateUtils';
+import {
+  DunningEnrollment,
+  DunningStep,
+  DunningStepExecution,
+  ENROLLMENT_STATUS_STYLES,
+} from './DunningSequences/types';
+
+interface CustomerDunningStatusProps {
+  customerId: string;
+  customerName: string;
+}
+
+interface SequenceOption {
+  id: string;
+  name: string;
+  is_default: boolean;
+}
+
+export default function CustomerDunningStatus({ customerId, customerName }: CustomerDunningStatusProps) {
+  const { user } = useAuth();
+  const [enrollment, setEnrollment] = useState<DunningEnrollment | null>(null);
+  const [sequenceName, setSequenceName] = useState('');
+  const [steps, setSteps] = useState<DunningStep[]>([]);
+  const [executions, setExecutions] = useState<DunningStepExecution[]>([]);
+  const [sequences, setSequences] = useState<SequenceOption[]>([]);
+  const [selectedSequenceId, setSelectedSequenceId] = useState('');
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    loadStatus();
+  }, [customerId]);
+
+  const loadStatus = async () => {
+    try {
+      setLoading(true);
+      const { data: latest } = await supabase
+        .from('dunning_enrollments')
+        .select('*, sequence:dunning_sequences(name, steps:dunning_steps(*))')
+        .eq('customer_id', customerId)
+        .order('enrolled_at', { ascending: false })
+        .limit(1)
+        .maybeSingle();
+
+      if (latest) {
+        setEnrollment(latest);
+        setSequenceName(latest.sequence?.name || '');
+        setSteps((latest.sequence?.steps || []).sort((a: DunningStep, b: DunningStep) => a.step_order - b.step_order));
+
+        const { data: history } = await supabase
+          .from('dunning_step_executions')
+          .select('id, step_id, step_order, channel, status, days_overdue, email_to, email_subject, ticket_id, detail, executed_at')
+          .eq('enrollment_id', latest.id)
+          .order('executed_at', { ascending: false })
+          .limit(5);
+        setExecutions(history || []);
+      } else {
+        setEnrollment(null);
+        setSteps([]);
+        setExecutions([]);
+      }
+
+      if (!latest || latest.status === 'completed' || latest.status === 'stopped') {
+        const { data: available } = await supabase
+          .from('dunning_sequences')
+          .select('id, name, is_default')
+          .eq('is_active', true)
+          .order('name');
+        setSequences(available || []);
+        setSelectedSequenceId((available || []).find(s => s.is_default)?.id || available?.[0]?.id || '');
+      }
+    } catch (error) {
+      console.error('Error loading dunning status:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const updateStatus = async (status: 'active' | 'paused') => {
+    if (!enrollment) return;
+    setSaving(true);
+    try {
+      const { error } = await supabase
+        .from('dunning_enrollments')
+        .update({
+          status,
+          stopped_reason: null,
+          resumed_at: status === 'active' ? new Date().toISOString() : enrollment.resumed_at,
+          updated_at: new Date().toISOString(),
+        })
+        .eq('id', enrollment.id);
+      if (error) throw error;
+      await loadStatus();
+    } catch (error) {
+      console.error('Error updating dunning enrollment:', error);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleEnroll = async () => {
+    if (!selectedSequenceId) return;
+    setSaving(true);
+    try {
+      // Only one open or stopped enrollment per customer: a new enrollment
+      // replaces the stopped one
+      if (enrollment?.status === 'stopped') {
+        const { error: closeError } = await supabase
+          .from('dunning_enrollments')
+          .update({ status: 'completed', updated_at: new Date().toISOString() })
+          .eq('id', enrollment.id);
+        if (closeError) throw closeError;
+      }
+
+      const { error } = await supabase
+        .from('dunning_enrollments')
+        .insert({
+          sequence_id: selectedSequenceId,
+          customer_id: customerId,
+          customer_name: customerName,
+          enrolled_by: user?.id,
+        });
+      if (error) throw error;
+      await loadStatus();
+    } catch (error) {
+      console.error('Error enrolling customer in dunning sequence:', error);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="mt-4 pt-3 border-t border-gray-100 flex justify-center">
+        <Loader2 className="w-4 h-4 animate-spin text-gray-400" />
+      </div>
+    );
+  }
+
+  const isOpen = enrollment && (enrollment.status === 'active' || enrollment.status === 'paused');
+
+  return (
+    <div className="mt-4 pt-3 border-t border-gray-100">
+      <div className="flex items-center justify-between mb-2">
+        <p className="text-xs font-medium text-gray-500 flex items-center gap-1.5">
+          <Mail className="w-3 h-3" />
+          Dunning
+        </p>
+        {enrollment && (
+          <span className={`px-1.5 py-0.5 rounded text-[10px] font-medium ${ENROLLMENT_STATUS_STYLES[enrollment.status]}`}>
+            {enrollment.status}
+          </span>
+        )}
+      </div>
+
+      {enrollment && (
+        <>
+          <p className="text-xs font-medium text-gray-800 mb-2">{sequenceName}</p>
+          <div className="space-y-1">
+            {steps.map(step => {
+              const done = step.step_order <= enrollment.current_step_order;
+              const next = !done && steps.find(s => s.step_order > enrollment.current_step_order)?.id === step.id;
+              return (
+                <div key={step.id} className="flex items-center gap-2 text-xs">
+                  <span className={`w-4 h-4 rounded-full flex items-center justify-center shrink-0 ${
+                    done ? 'bg-blue-600 text-white' : next ? 'border-2 border-blue-400' : 'border border-gray-300'
+                  }`}>
+                    {done && <Check className="w-2.5 h-2.5" />}
+                  </span>
+                  <span className={done ? 'text-gray-800' : 'text-gray-400'}>{step.name}</span>
+                  <span className="ml-auto flex items-center gap-1 text-[10px] text-gray-400">
+                    {step.channel === 'email' ? <Mail className="w-3 h-3" /> : step.channel === 'ticket' ? <Ticket className="w-3 h-3" /> : <Zap className="w-3 h-3" />}
+                    {step.days_overdue}d
+                  </span>
+                </div>
+              );
+            })}
+          </div>
+
+          <div className="mt-2 text-[11px] text-gray-500 space-y-0.5">
+            <p>Oldest invoice {enrollment.max_days_overdue} days overdue</p>
+            {enrollment.last_step_at && <p>Last step {formatDateUtil(enrollment.last_step_at)}</p>}
+            {enrollment.stopped_reason && enrollment.status === 'stopped' && (
+              <p className="text-gray-600">Stopped: {enrollment.stopped_reason}</p>
+            )}
+          </div>
+
+          {executions.some(e => e.status === 'failed') && (
+            <p className="mt-1 text-[11px] text-red-600 truncate" title={executions.find(e => e.status === 'failed')?.detail || ''}>
+              Last failure: {executions.find(e => e.status === 'failed')?.detail}
+            </p>
+          )}
+
+          {isOpen && (
+            <button
+              onClick={() => updateStatus(enrollment.status === 'active' ? 'paused' : 'active')}
+              disabled={saving}
+              className="mt-2 flex items-center gap-1.5 text-xs font-medium text-blue-600 hover:text-blue-700 disabled:opacity-50"
+            >
+              {enrollment.status === 'active'
+                ? <><PauseCircle className="w-3.5 h-3.5" />Pause dunning</>
+                : <><PlayCircle className="w-3.5 h-3.5" />Resume dunning</>}
+            </button>
+          )}
+          {enrollment.status === 'stopped' && (
+            <button
+              onClick={() => updateStatus('active')}
+              disabled={saving}
+              className="mt-2 flex items-center gap-1.5 text-xs font-medium text-blue-600 hover:text-blue-700 disabled:opacity-50"
+            >
+              <PlayCircle className="w-3.5 h-3.5" />
+              Restart from current step
+            </button>
+          )}
+        </>
+      )}
+
+      {!isOpen && enrollment?.status !== 'stopped' && (
+        sequences.length === 0 ? (
+          <p className="text-[11px] text-gray-400 flex items-center gap-1">
+            <XCircle className="w-3 h-3" />
+            No active dunning sequences
+          </p>
+        ) : (
+          <div className="flex items-center gap-2 mt-2">
+            <select
+              value={selectedSequenceId}
+              onChange={(e) => setSelectedSequenceId(e.target.value)}
+              className="flex-1 min-w-0 border border-gray-300 rounded-lg px-2 py-1 text-xs focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+            >
+              {sequences.map(s => (
+                <option key={s.id} value={s.id}>{s.name}{s.is_default ? ' (default)' : ''}</option>
+              ))}
+            </select>
+            <button
+              onClick={handleEnroll}
+              disabled={saving || !selectedSequenceId}
+              className="px-2.5 py-1 bg-blue-600 text-white rounded-lg text-xs font-medium hover:bg-blue-700 disabled:opacity-50"
+            >
+              Enroll
+            </button>
+          </div>
+        )
+      )}
+    </div>
+  );
+}
@@ -2,10 +2,12 @@ import { useState, useEffect, useCallback } from 'react';
 import {
   Calendar, Upload, Download, Trash2, FileText, Paperclip,
   ChevronLeft, ChevronRight, X, Check, Clock, Mail, MailOpen,
-  Pause, AlertCircle, RefreshCw, Eye
+  Pause, AlertCircle, RefreshCw, Eye, FileCheck
 } from 'lucide-react';
 import { supabase } from '../lib/supabase';
 import { useAuth } from '../contexts/AuthContext';
+import AttachmentExtractionDetails from './AttachmentExtractionDetails';
+import { AttachmentExtraction, fetchExtractionsByPath } from '../lib/attachmentExtractions';
 
 interface CustomerMonthlySheetProps {
   customerId: string;
@@ -62,6 +64,7 @@ const STATUS_CONFIG: Record<string, { label: string; color: string; bg: string;
   active: { label: 'Active', color: 'text-blue-700', bg: 'bg-blue-50', border: 'border-blue-200', icon: Mail },
   sent: { label: 'Sent', color: 'text-sky-700', bg: 'bg-sky-50', border: 'border-sky-200', icon: MailOpen },
   responded: { label: 'Responded', color: 'text-emerald-700', bg: 'bg-emerald-50', border: 'border-emerald-200', icon: Check },
+  completed: { label: 'Completed', color: 'text-green-800', bg: 'bg-green-100', border: 'border-green-300', icon: FileCheck },
   postponed: { label: 'Postponed', color: 'text-amber-700', bg: 'bg-amber-50', border: 'border-amber-200', icon: Pause },
   inactive: { label: 'Inactive', color: 'text-red-700', bg: 'bg-red-50', border: 'border-red-200', icon: AlertCircle },
   no_response: { label: 'No Response', color: 'text-orange-700', bg: 'bg-orange-50', border: 'border-orange-200', icon: Clock },
@@ -72,6 +75,7 @@ const STATUS_OPTIONS = [
   { value: 'active', label: 'Active' },
   { value: 'sent', label: 'Sent' },
   { value: 'responded', label: 'Responded' },
+  { value: 'completed', label: 'Completed' },
   { value: 'postponed', label: 'Postponed' },
   { value: 'inactive', label: 'Inactive' },
   { value: 'no_response', label: 'No Response' },
@@ -90,6 +94,7 @@ export default function CustomerMonthlySheet({ customerId, customerName, custome
   const [loading, setLoading] = useState(true);
   const [expandedMonth, setExpandedMonth] = useState<number | null>(null);
   const [monthFiles, setMonthFiles] = useState<MonthlyFile[]>([]);
+  const [fileExtractions, setFileExtractions] = useState<Map<string, AttachmentExtraction>>(new Map());
   const [monthEmails, setMonthEmails] = useState<MonthlyEmail[]>([]);
   const [loadingFiles, setLoadingFiles] = useState(false);
   const [loadingEmails, setLoadingEmails] = useState(false);
@@ -132,6 +137,7 @@ export default function CustomerMonthlySheet({ customerId, customerName, custome
 
       if (error) throw error;
       setMonthFiles(data || []);
+      setFileExtractions(await fetchExtractionsByPath((data || []).map(f => f.storage_path)));
     } catch (err) {
       console.error('Error loading month files:', err);
     } finally {
@@ -533,6 +539,7 @@ export default function CustomerMonthlySheet({ customerId, customerName, custome
           customerName={customerName}
           data={monthlyData.find(m => m.month === expandedMonth)!}
           files={monthFiles}
+          extractions={fileExtractions}
           emails={monthEmails}
           loadingFiles={loadingFiles}
           loadingEmails={loadingEmails}
@@ -543,6 +550,7 @@ export default function CustomerMonthlySheet({ customerId, customerName, custome
           onUpload={(e) => handleFileUpload(e, expandedMonth)}
           onDownload={handleDownloadFile}
           onDelete={handleDeleteFile}
+          onExtractionUpdated={() => { loadMonthFiles(expandedMonth); loadMonthlyData(); }}
           onStatusChange={(status) => handleStatusChange(expandedMonth, status)}
           onStartEditNotes={() => {
             const md = monthlyData.find(m => m.month === expandedMonth);
@@ -568,6 +576,7 @@ interface MonthDetailProps {
   customerName: string;
   data: MonthData;
   files: MonthlyFile[];
+  extractions: Map<string, AttachmentExtraction>;
   emails: MonthlyEmail[];
   loadingFiles: boolean;
   loadingEmails: boolean;
@@ -578,6 +587,7 @@ interface MonthDetailProps {
   onUpload: (e: React.ChangeEvent<HTMLInputElement>) => void;
   onDownload: (file: MonthlyFile) => void;
   onDelete: (file: MonthlyFile) => void;
+  onExtractionUpdated: () => void;
   onStatusChange: (status: string) => void;
   onStartEditNotes: () => void;
   onSaveNotes: () => void;
@@ -589,9 +599,9 @@ interface MonthDetailProps {
 }
 
 function MonthDetail({
-  month, year, data, files, emails, loadingFiles, loadingEmails, uploading,
+  month, year, data, files, extractions, emails, loadingFiles, loadingEmails, uploading,
   editingNotes, noteText, changingStatus,
-  onUpload, onDownload, onDelete, onStatusChange,
+  onUpload, onDownload, onDelete, onExtractionUpdated, onStatusChange,
   onStartEditNotes, onSaveNotes, onCancelEditNotes, onNoteTextChange,
   onStartChangeStatus, onCancelChangeStatus, onClose,
 }: MonthDetailProps) {
@@ -775,45 +785,51 @@ function MonthDetail({
                   <p className="text-gray-400 text-sm font-medium">No attachments for this month</p>
                 </div>
               ) : (
-                <div className="space-y-2 max-h-[250px] overflow-y-auto pr-1" style={{ scrollbarWidth: 'thin' }}>
+                <div className="space-y-2 max-h-[400px] overflow-y-auto pr-1" style={{ scrollbarWidth: 'thin' }}>
                   {files.map((file) => (
                     <div
                       key={file.id}
-                      className="flex items-center gap-3 p-3 bg-gray-50 rounded-lg border border-gray-200 hover:bg-gray-100 transition-colors group"
+                      className="p-3 bg-gray-50 rounded-lg border border-gray-200 hover:bg-gray-100 transition-colors group"
                     >
-                      <span className="text-lg flex-shrink-0">{getFileIcon(file.mime_type)}</span>
-                      <div className="flex-1 min-w-0">
-                        <p className="text-sm font-medium text-gray-900 truncate">{file.filename}</p>
-                        <div className="flex items-center gap-3 mt-0.5">
-                          <span className="text-[10px] text-gray-400">{formatFileSize(file.file_size)}</span>
-                          <span className="text-[10px] text-gray-400">
-                            {new Date(file.created_at).toLocaleDateString()}
-                          </span>
-                          <span className={`text-[10px] px-1.5 py-0.5 rounded ${
-                            file.upload_source === 'email'
-                              ? 'bg-blue-100 text-blue-700'
-                              : 'bg-gray-200 text-gray-600'
-                          }`}>
-                            {file.upload_source === 'email' ? 'Email' : 'Manual'}
-                          </span>
+                      <div className="flex items-center gap-3">
+                        <span className="text-lg flex-shrink-0">{getFileIcon(file.mime_type)}</span>
+                        <div className="flex-1 min-w-0">
+                          <p className="text-sm font-medium text-gray-900 truncate">{file.filename}</p>
+                          <div className="flex items-center gap-3 mt-0.5">
+                            <span className="text-[10px] text-gray-400">{formatFileSize(file.file_size)}</span>
+                            <span className="text-[10px] text-gray-400">
+                              {new Date(file.created_at).toLocaleDateString()}
+                            </span>
+                            <span className={`text-[10px] px-1.5 py-0.5 rounded ${
+                              file.upload_source === 'email'
+                                ? 'bg-blue-100 text-blue-700'
+                                : 'bg-gray-200 text-gray-600'
+                            }`}>
+                              {file.upload_source === 'email' ? 'Email' : 'Manual'}
+                            </span>
+                          </div>
+                        </div>
+                        <div className="flex items-center gap-1 opacity-0 group-hover:opacity-100 transition-opacity">
+                          <button
+                            onClick={() => onDownload(file)}
+                            className="p-1.5 rounded-lg hover:bg-white text-gray-500 hover:text-blue-600 transition-colors"
+                            title="Download"
+                          >
+                            <Eye className="w-4 h-4" />
+                          </button>
+                          <button
+                            onClick={() => onDelete(file)}
+                            className="p-1.5 rounded-lg hover:bg-white text-gray-500 hover:text-red-600 transition-colors"
+                            title="Delete"
+                          >
+                            <Trash2 className="w-4 h-4" />
+                          </button>
                         </div>
                       </div>
-                      <div className="flex items-center gap-1 opacity-0 group-hover:opacity-100 transition-opacity">
-                        <button
-                          onClick={() => onDownload(file)}
-                          className="p-1.5 rounded-lg hover:bg-white text-gray-500 hover:text-blue-600 transition-colors"
-                          title="Download"
-                        >
-                          <Eye className="w-4 h-4" />
-                        </button>
-                        <button
-                          onClick={() => onDelete(file)}
-                          className="p-1.5 rounded-lg hover:bg-white text-gray-500 hover:text-red-600 transition-colors"
-                          title="Delete"
-                        >
-                          <Trash2 className="w-4 h-4" />
-                        </button>
-                      </div>
+                      <AttachmentExtractionDetails
+                        extraction={extractions.get(file.storage_path)}
+                        onUpdated={onExtractionUpdated}
+                      />
                     </div>
                   ))}
                 </div>
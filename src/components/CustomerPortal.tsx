@@ -0,0 +1,690 @@
+import { useState, useEffect, useRef } from 'react';
+import { useParams, useSearchParams } from 'react-router-dom';
+import {
+  FileText, Download, FileSpreadsheet, CalendarCheck, AlertTriangle, Loader2,
+  CheckCircle, AlertCircle, X, CreditCard, Lock,
+} from 'lucide-react';
+import {
+  StatementInvoice,
+  calculateAging,
+  getAgingBucket,
+  generateCustomerStatementExcel,
+  downloadExcelFile,
+} from '../lib/statementExport';
+
+interface PortalCustomer {
+  customer_id: string;
+  customer_name: string;
+  email: string;
+  terms: string;
+}
+
+interface PortalPayment {
+  reference_number: string;
+  type: string;
+  status: string;
+  application_date: string;
+  doc_date: string | null;
+  payment_amount: number;
+  payment_method: string | null;
+  description: string | null;
+}
+
+interface PortalSubmission {
+  id: string;
+  submission_type: 'promise_to_pay' | 'dispute';
+  invoice_reference_numbers: string[];
+  promise_date: string | null;
+  amount: number | null;
+  created_at: string;
+}
+
+// payment_pending: paid online, not yet applied in Acumatica.
+type PortalInvoice = StatementInvoice & { payment_pending: number };
+
+interface PortalData {
+  customer: PortalCustomer;
+  invoices: PortalInvoice[];
+  payments: PortalPayment[];
+  submissions: PortalSubmission[];
+  expires_at: string;
+}
+
+type FormMode = 'promise_to_pay' | 'dispute' | 'pay' | null;
+
+const AGING_LABELS: { key: keyof ReturnType<typeof calculateAging>; label: string }[] = [
+  { key: 'current', label: 'Current' },
+  { key: '1_30', label: '1-30 Days' },
+  { key: '31_60', label: '31-60 Days' },
+  { key: '61_90', label: '61-90 Days' },
+  { key: '90_plus', label: '90+ Days' },
+];
+
+const DISPUTE_REASONS = [
+  { value: 'pricing', label: 'Pricing is wrong' },
+  { value: 'damaged', label: 'Goods arrived damaged' },
+  { value: 'not_received', label: 'Not received' },
+  { value: 'duplicate_billing', label: 'Billed twice' },
+  { value: 'other', label: 'Something else' },
+];
+
+const formatCurrency = (amount: number) =>
+  new Intl.NumberFormat('en-US', { style: 'currency', currency: 'USD' }).format(amount);
+
+const payableBalance = (inv: PortalInvoice) =>
+  inv.balance > 0 ? Math.round((inv.balance - (inv.payment_pending || 0)) * 100) / 100 : 0;
+
+const formatDate = (value: string | null) => {
+  if (!value) return '';
+  return new Date(value).toLocaleDateString('en-US', { month: '2-digit', day: '2-digit', year: 'numeric' });
+};
+
+async function callPortal(body: Record<string, unknown>) {
+  const response = await fetch(`${import.meta.env.VITE_SUPABASE_URL}/functions/v1/customer-portal`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      'Authorization': `Bearer ${import.meta.env.VITE_SUPABASE_ANON_KEY}`,
+    },
+    body: JSON.stringify(body),
+  });
+  const result = await response.json().catch(() => ({}));
+  if (!response.ok || !result.success) {
+    throw new Error(result.error || 'Something went wrong. Please try again later.');
+  }
+  return result;
+}
+
+export default function CustomerPortal() {
+  const { token } = useParams<{ token: string }>();
+  const [searchParams] = useSearchParams();
+  const [data, setData] = useState<PortalData | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState('');
+  const [selectedRefs, setSelectedRefs] = useState<Set<string>>(new Set());
+  const [formMode, setFormMode] = useState<FormMode>(null);
+  const [promiseDate, setPromiseDate] = useState('');
+  const [amount, setAmount] = useState('');
+  const [message, setMessage] = useState('');
+  const [reasonCode, setReasonCode] = useState('other');
+  const [contactName, setContactName] = useState('');
+  const [contactEmail, setContactEmail] = useState('');
+  const [submitting, setSubmitting] = useState(false);
+  const [formError, setFormError] = useState('');
+  const [confirmation, setConfirmation] = useState('');
+  const [exportingPdf, setExportingPdf] = useState(false);
+  const [payAmounts, setPayAmounts] = useState<Record<string, string>>({});
+  const statementRef = useRef<HTMLDivElement>(null);
+  const payLinkApplied = useRef(false);
+
+  useEffect(() => {
+    loadPortal();
+  }, [token]);
+
+  useEffect(() => {
+    if (searchParams.get('payment') === 'success') {
+      setConfirmation('Thank you. Your payment was received and will be applied to your account shortly.');
+    }
+  }, [searchParams]);
+
+  const loadPortal = async () => {
+    try {
+      setLoading(true);
+      const result: PortalData = await callPortal({ token, action: 'view' });
+      setData(result);
+
+      // Pay links from emails open the payment form with their invoices
+      // (?pay=all or ?pay=INV1,INV2) already selected.
+      const pay = searchParams.get('pay');
+      if (pay && !payLinkApplied.current && searchParams.get('payment') !== 'success') {
+        payLinkApplied.current = true;
+        const wanted = pay === 'all' ? null : new Set(pay.split(','));
+        const refs = result.invoices
+          .filter(inv => payableBalance(inv) > 0 && (!wanted || wanted.has(inv.reference_number)))
+          .map(inv => inv.reference_number);
+        if (refs.length > 0) {
+          setSelectedRefs(new Set(refs));
+          setFormMode('pay');
+        }
+      }
+    } catch (err: any) {
+      setError(err.message);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const toggleInvoice = (ref: string) => {
+    setSelectedRefs(prev => {
+      const next = new Set(prev);
+      if (next.has(ref)) next.delete(ref);
+      else next.add(ref);
+      return next;
+    });
+  };
+
+  const openForm = (mode: FormMode) => {
+    setFormMode(mode);
+    setFormError('');
+    setConfirmation('');
+    if (mode === 'pay' && data && selectedRefs.size === 0) {
+      setSelectedRefs(new Set(data.invoices.filter(inv => payableBalance(inv) > 0).map(inv => inv.reference_number)));
+    }
+    if (mode === 'promise_to_pay' && !amount && data) {
+      const selected = data.invoices.filter(inv => selectedRefs.has(inv.reference_number));
+      const total = (selected.length > 0 ? selected : data.invoices).reduce((sum, inv) => sum + inv.balance, 0);
+      setAmount(total > 0 ? total.toFixed(2) : '');
+    }
+  };
+
+  const handleSubmit = async () => {
+    if (!formMode) return;
+    setSubmitting(true);
+    setFormError('');
+    try {
+      await callPortal({
+        token,
+        action: 'submit',
+        submission_type: formMode,
+        reason_code: formMode === 'dispute' ? reasonCode : undefined,
+        invoice_reference_numbers: Array.from(selectedRefs),
+        promise_date: formMode === 'promise_to_pay' ? promiseDate : undefined,
+        amount: formMode === 'promise_to_pay' && amount ? Number(amount) : undefined,
+        message,
+        contact_name: contactName,
+        contact_email: contactEmail,
+      });
+      setConfirmation(formMode === 'promise_to_pay'
+        ? 'Thank you. Your payment date has been sent to our collections team.'
+        : 'Thank you. Your dispute has been sent to our collections team, who will follow up with you.');
+      setFormMode(null);
+      setMessage('');
+      setPromiseDate('');
+      setSelectedRefs(new Set());
+      loadPortal();
+    } catch (err: any) {
+      setFormError(err.message);
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const handlePay = async () => {
+    if (!data) return;
+    setSubmitting(true);
+    setFormError('');
+    try {
+      const allocations = data.invoices
+        .filter(inv => selectedRefs.has(inv.reference_number) && payableBalance(inv) > 0)
+        .map(inv => ({
+          invoice_reference: inv.reference_number,
+          amount: Number(payAmounts[inv.reference_number] ?? payableBalance(inv)),
+        }));
+      const result = await callPortal({
+        token,
+        action: 'checkout',
+        allocations,
+        ticket_id: searchParams.get('ticket') || undefined,
+      });
+      window.location.assign(result.url);
+    } catch (err: any) {
+      setFormError(err.message);
+      setSubmitting(false);
+    }
+  };
+
+  const buildStatementData = () => {
+    if (!data) return null;
+    const positive = data.invoices.filter(inv => inv.balance > 0);
+    return {
+      customer_id: data.customer.customer_id,
+      customer_name: data.customer.customer_name,
+      email: data.customer.email,
+      terms: data.customer.terms,
+      total_balance: data.invoices.reduce((sum, inv) => sum + inv.balance, 0),
+      credit_memo_balance: data.invoices.filter(inv => inv.balance < 0).reduce((sum, inv) => sum + inv.balance, 0),
+      open_invoice_count: positive.length,
+      max_days_overdue: positive.reduce((max, inv) => Math.max(max, inv.days_overdue), 0),
+      invoices: data.invoices,
+    };
+  };
+
+  const handleDownloadExcel = () => {
+    const statement = buildStatementData();
+    if (!statement) return;
+    const safeName = statement.customer_name.replace(/[^a-zA-Z0-9]/g, '_');
+    downloadExcelFile(
+      generateCustomerStatementExcel(statement),
+      `Statement_${safeName}_${new Date().toISOString().split('T')[0]}.xlsx`
+    );
+  };
+
+  const handleDownloadPdf = async () => {
+    if (!statementRef.current || !data) return;
+    setExportingPdf(true);
+    try {
+      const html2pdf = (await import('html2pdf.js')).default;
+      const safeName = data.customer.customer_name.replace(/[^a-zA-Z0-9]/g, '_');
+      await html2pdf().set({
+        margin: 10,
+        filename: `Statement_${safeName}_${new Date().toISOString().split('T')[0]}.pdf`,
+        html2canvas: { scale: 2 },
+        jsPDF: { unit: 'mm', format: 'a4', orientation: 'portrait' },
+      }).from(statementRef.current).save();
+    } catch (err) {
+      console.error('Error generating statement PDF:', err);
+    } finally {
+      setExportingPdf(false);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="min-h-screen bg-gray-50 flex items-center justify-center">
+        <Loader2 className="w-8 h-8 animate-spin text-blue-600" />
+      </div>
+    );
+  }
+
+  if (error || !data) {
+    return (
+      <div className="min-h-screen bg-gray-50 flex items-center justify-center p-4">
+        <div className="bg-white rounded-xl border border-gray-200 p-8 max-w-md w-full text-center">
+          <AlertCircle className="w-12 h-12 text-red-500 mx-auto mb-4" />
+          <h1 className="text-lg font-semibold text-gray-900 mb-2">Unable to open your statement</h1>
+          <p className="text-sm text-gray-600">{error || 'This link is not valid.'}</p>
+        </div>
+      </div>
+    );
+  }
+
+  const aging = calculateAging(data.invoices);
+  const totalBalance = data.invoices.reduce((sum, inv) => sum + inv.balance, 0);
+  const disputeReady = selectedRefs.size > 0 && message.trim().length > 0;
+  const promiseReady = !!promiseDate;
+  const payInvoices = data.invoices.filter(inv => selectedRefs.has(inv.reference_number) && payableBalance(inv) > 0);
+  const payTotal = payInvoices.reduce(
+    (sum, inv) => sum + (Number(payAmounts[inv.reference_number] ?? payableBalance(inv)) || 0), 0
+  );
+  const payReady = payInvoices.length > 0 && payInvoices.every(inv => {
+    const value = Number(payAmounts[inv.reference_number] ?? payableBalance(inv));
+    return value > 0 && value <= payableBalance(inv);
+  });
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <div className="max-w-5xl mx-auto px-4 py-8 space-y-6">
+        <div className="flex items-start justify-between flex-wrap gap-4">
+          <div>
+            <h1 className="text-2xl font-bold text-gray-900">{data.customer.customer_name}</h1>
+            <p className="text-sm text-gray-500 mt-1">
+              Account {data.customer.customer_id}
+              {data.customer.terms && ` · Terms ${data.customer.terms}`}
+              {` · Link valid until ${formatDate(data.expires_at)}`}
+            </p>
+          </div>
+          <div className="flex flex-wrap gap-2">
+            <button
+              onClick={handleDownloadExcel}
+              className="flex items-center gap-2 px-4 py-2 bg-white border border-gray-300 rounded-lg text-sm font-medium text-gray-700 hover:bg-gray-50"
+            >
+              <FileSpreadsheet className="w-4 h-4" />
+              Statement (Excel)
+            </button>
+            <button
+              onClick={handleDownloadPdf}
+              disabled={exportingPdf}
+              className="flex items-center gap-2 px-4 py-2 bg-white border border-gray-300 rounded-lg text-sm font-medium text-gray-700 hover:bg-gray-50 disabled:opacity-50"
+            >
+              {exportingPdf ? <Loader2 className="w-4 h-4 animate-spin" /> : <Download className="w-4 h-4" />}
+              Statement (PDF)
+            </button>
+          </div>
+        </div>
+
+        {confirmation && (
+          <div className="flex items-center gap-2 p-4 bg-green-50 border border-green-200 rounded-lg text-sm text-green-800">
+            <CheckCircle className="w-5 h-5 shrink-0" />
+            {confirmation}
+          </div>
+        )}
+
+        <div ref={statementRef} className="space-y-6 bg-gray-50">
+          <div className={`grid grid-cols-2 gap-3 ${aging.disputed > 0 ? 'md:grid-cols-7' : 'md:grid-cols-6'}`}>
+            <div className="col-span-2 md:col-span-1 bg-white rounded-xl border border-gray-200 p-4">
+              <p className="text-xs text-gray-500">Balance Due</p>
+              <p className={`text-lg font-bold ${totalBalance > 0 ? 'text-red-600' : 'text-gray-900'}`}>
+                {formatCurrency(totalBalance)}
+              </p>
+            </div>
+            {(aging.disputed > 0 ? [...AGING_LABELS, { key: 'disputed' as const, label: 'Disputed' }] : AGING_LABELS).map(({ key, label }) => (
+              <div key={key} className="bg-white rounded-xl border border-gray-200 p-4">
+                <p className="text-xs text-gray-500">{label}</p>
+                <p className="text-lg font-semibold text-gray-900">{formatCurrency(aging[key])}</p>
+              </div>
+            ))}
+          </div>
+
+          <div className="bg-white rounded-xl border border-gray-200 overflow-hidden">
+            <div className="px-5 py-3 border-b border-gray-200 flex items-center gap-2">
+              <FileText className="w-4 h-4 text-gray-500" />
+              <h2 className="text-sm font-semibold text-gray-900">Open Invoices</h2>
+              <span className="text-xs text-gray-500">({data.invoices.length})</span>
+            </div>
+            {data.invoices.length === 0 ? (
+              <p className="px-5 py-8 text-center text-sm text-gray-500">You have no open invoices.</p>
+            ) : (
+              <div className="overflow-x-auto">
+                <table className="w-full text-sm">
+                  <thead className="bg-gray-50 text-xs text-gray-500 uppercase">
+                    <tr>
+                      <th className="px-4 py-2 w-8"></th>
+                      <th className="px-4 py-2 text-left">Invoice #</th>
+                      <th className="px-4 py-2 text-left">Date</th>
+                      <th className="px-4 py-2 text-left">Due Date</th>
+                      <th className="px-4 py-2 text-left">Aging</th>
+                      <th className="px-4 py-2 text-right">Amount</th>
+                      <th className="px-4 py-2 text-right">Balance</th>
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-gray-100">
+                    {data.invoices.map(inv => {
+                      const isCredit = inv.balance < 0;
+                      return (
+                        <tr key={inv.reference_number} className={isCredit ? 'bg-blue-50' : ''}>
+                          <td className="px-4 py-2">
+                            {!isCredit && (
+                              <input
+                                type="checkbox"
+                                checked={selectedRefs.has(inv.reference_number)}
+                                onChange={() => toggleInvoice(inv.reference_number)}
+                                className="rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+                              />
+                            )}
+                          </td>
+                          <td className="px-4 py-2 font-medium text-gray-900">
+                            {inv.reference_number}
+                            {inv.description && <span className="block text-xs font-normal text-gray-500 truncate max-w-xs">{inv.description}</span>}
+                          </td>
+                          <td className="px-4 py-2 text-gray-600">{formatDate(inv.date)}</td>
+                          <td className="px-4 py-2 text-gray-600">{isCredit ? '' : formatDate(inv.due_date)}</td>
+                          <td className="px-4 py-2">
+                            {isCredit ? (
+                              <span className="text-xs text-blue-700">{inv.type}</span>
+                            ) : inv.payment_pending > 0 ? (
+                              <span className="text-xs text-green-700" title="Paid online; waiting to be applied to your account">
+                                {formatCurrency(inv.payment_pending)} payment pending posting
+                              </span>
+                            ) : inv.disputed ? (
+                              <span className="text-xs text-purple-700">Disputed</span>
+                            ) : (
+                              <span className={`text-xs ${inv.days_overdue > 0 ? 'text-red-600' : 'text-gray-500'}`}>
+                                {getAgingBucket(inv.days_overdue)}
+                              </span>
+                            )}
+                          </td>
+                          <td className={`px-4 py-2 text-right ${isCredit ? 'text-blue-700' : 'text-gray-600'}`}>{formatCurrency(inv.amount)}</td>
+                          <td className={`px-4 py-2 text-right font-semibold ${isCredit ? 'text-blue-700' : 'text-gray-900'}`}>{formatCurrency(inv.balance)}</td>
+                        </tr>
+                      );
+                    })}
+                  </tbody>
+                </table>
+              </div>
+            )}
+          </div>
+
+          <div className="bg-white rounded-xl border border-gray-200 overflow-hidden">
+            <div className="px-5 py-3 border-b border-gray-200 flex items-center gap-2">
+              <CreditCard className="w-4 h-4 text-gray-500" />
+              <h2 className="text-sm font-semibold text-gray-900">Payments (last 12 months)</h2>
+            </div>
+            {data.payments.length === 0 ? (
+              <p className="px-5 py-8 text-center text-sm text-gray-500">No payments in the last 12 months.</p>
+            ) : (
+              <div className="overflow-x-auto">
+                <table className="w-full text-sm">
+                  <thead className="bg-gray-50 text-xs text-gray-500 uppercase">
+                    <tr>
+                      <th className="px-4 py-2 text-left">Reference</th>
+                      <th className="px-4 py-2 text-left">Date</th>
+                      <th className="px-4 py-2 text-left">Type</th>
+                      <th className="px-4 py-2 text-left">Method</th>
+                      <th className="px-4 py-2 text-right">Amount</th>
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-gray-100">
+                    {data.payments.map(payment => (
+                      <tr key={`${payment.type}-${payment.reference_number}`}>
+                        <td className="px-4 py-2 font-medium text-gray-900">{payment.reference_number}</td>
+                        <td className="px-4 py-2 text-gray-600">{formatDate(payment.application_date || payment.doc_date)}</td>
+                        <td className="px-4 py-2 text-gray-600">{payment.type}</td>
+                        <td className="px-4 py-2 text-gray-600">{payment.payment_method || ''}</td>
+                        <td className="px-4 py-2 text-right font-semibold text-green-700">{formatCurrency(Number(payment.payment_amount) || 0)}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            )}
+          </div>
+        </div>
+
+        <div className="bg-white rounded-xl border border-gray-200 p-5">
+          <h2 className="text-sm font-semibold text-gray-900 mb-1">Let us know</h2>
+          <p className="text-xs text-gray-500 mb-4">
+            Tick the invoices it applies to above, then pay them online, tell us when you plan to pay or what is wrong with an invoice.
+          </p>
+          <div className="flex flex-wrap gap-2">
+            <button
+              onClick={() => openForm('pay')}
+              className="flex items-center gap-2 px-4 py-2 bg-green-600 text-white rounded-lg text-sm font-medium hover:bg-green-700"
+            >
+              <CreditCard className="w-4 h-4" />
+              Pay online
+            </button>
+            <button
+              onClick={() => openForm('promise_to_pay')}
+              className="flex items-center gap-2 px-4 py-2 bg-blue-600 text-white rounded-lg text-sm font-medium hover:bg-blue-700"
+            >
+              <CalendarCheck className="w-4 h-4" />
+              Promise to pay
+            </button>
+            <button
+              onClick={() => openForm('dispute')}
+              className="flex items-center gap-2 px-4 py-2 bg-white border border-amber-300 text-amber-700 rounded-lg text-sm font-medium hover:bg-amber-50"
+            >
+              <AlertTriangle className="w-4 h-4" />
+              Dispute an invoice
+            </button>
+          </div>
+
+          {formMode === 'pay' && (
+            <div className="mt-4 pt-4 border-t border-gray-100 space-y-3">
+              <div className="flex items-center justify-between">
+                <h3 className="text-sm font-semibold text-gray-900">Pay online</h3>
+                <button onClick={() => setFormMode(null)} className="p-1 text-gray-400 hover:text-gray-600">
+                  <X className="w-4 h-4" />
+                </button>
+              </div>
+
+              {payInvoices.length === 0 ? (
+                <p className="text-xs text-amber-700">Select the invoice(s) you want to pay in the table above.</p>
+              ) : (
+                <table className="w-full text-sm">
+                  <thead className="text-xs text-gray-500 uppercase">
+                    <tr>
+                      <th className="py-1 text-left">Invoice #</th>
+                      <th className="py-1 text-right">Open</th>
+                      <th className="py-1 text-right w-40">Pay</th>
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-gray-100">
+                    {payInvoices.map(inv => (
+                      <tr key={inv.reference_number}>
+                        <td className="py-1.5 font-medium text-gray-900">{inv.reference_number}</td>
+                        <td className="py-1.5 text-right text-gray-600">{formatCurrency(payableBalance(inv))}</td>
+                        <td className="py-1.5 text-right">
+                          <input
+                            type="number"
+                            min="0.01"
+                            max={payableBalance(inv)}
+                            step="0.01"
+                            value={payAmounts[inv.reference_number] ?? payableBalance(inv).toFixed(2)}
+                            onChange={(e) => setPayAmounts({ ...payAmounts, [inv.reference_number]: e.target.value })}
+                            className="w-32 border border-gray-300 rounded-lg px-2 py-1 text-sm text-right focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                          />
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                  <tfoot>
+                    <tr>
+                      <td colSpan={2} className="pt-2 text-right text-xs font-medium text-gray-500">Total</td>
+                      <td className="pt-2 text-right font-bold text-gray-900">{formatCurrency(payTotal)}</td>
+                    </tr>
+                  </tfoot>
+                </table>
+              )}
+
+              <p className="text-xs text-gray-500">
+                You can lower the amount for an invoice to make a partial payment.
+                Payments show as pending until they are applied to your account.
+              </p>
+
+              {formError && <p className="text-sm text-red-600">{formError}</p>}
+
+              <button
+                onClick={handlePay}
+                disabled={submitting || !payReady}
+                className="flex items-center gap-2 px-4 py-2 bg-green-600 text-white rounded-lg text-sm font-medium hover:bg-green-700 disabled:opacity-50"
+              >
+                {submitting ? <Loader2 className="w-4 h-4 animate-spin" /> : <Lock className="w-4 h-4" />}
+                Pay {formatCurrency(payTotal)} securely
+              </button>
+            </div>
+          )}
+
+          {formMode && formMode !== 'pay' && (
+            <div className="mt-4 pt-4 border-t border-gray-100 space-y-3">
+              <div className="flex items-center justify-between">
+                <h3 className="text-sm font-semibold text-gray-900">
+                  {formMode === 'promise_to_pay' ? 'Promise to pay' : 'Dispute'}
+                  {selectedRefs.size > 0 && (
+                    <span className="ml-2 text-xs font-normal text-gray-500">
+                      {Array.from(selectedRefs).join(', ')}
+                    </span>
+                  )}
+                </h3>
+                <button onClick={() => setFormMode(null)} className="p-1 text-gray-400 hover:text-gray-600">
+                  <X className="w-4 h-4" />
+                </button>
+              </div>
+
+              {formMode === 'promise_to_pay' && (
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+                  <div>
+                    <label className="block text-xs font-medium text-gray-700 mb-1">Payment date</label>
+                    <input
+                      type="date"
+                      value={promiseDate}
+                      min={new Date().toISOString().split('T')[0]}
+                      onChange={(e) => setPromiseDate(e.target.value)}
+                      className="w-full border border-gray-300 rounded-lg px-3 py-2 text-sm focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                    />
+                  </div>
+                  <div>
+                    <label className="block text-xs font-medium text-gray-700 mb-1">Amount</label>
+                    <input
+                      type="number"
+                      min="0"
+                      step="0.01"
+                      value={amount}
+                      onChange={(e) => setAmount(e.target.value)}
+                      className="w-full border border-gray-300 rounded-lg px-3 py-2 text-sm focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                    />
+                  </div>
+                </div>
+              )}
+
+              {formMode === 'dispute' && (
+                <div>
+                  <label className="block text-xs font-medium text-gray-700 mb-1">Reason</label>
+                  <select
+                    value={reasonCode}
+                    onChange={(e) => setReasonCode(e.target.value)}
+                    className="w-full md:w-1/2 border border-gray-300 rounded-lg px-3 py-2 text-sm focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                  >
+                    {DISPUTE_REASONS.map(r => (
+                      <option key={r.value} value={r.value}>{r.label}</option>
+                    ))}
+                  </select>
+                  {selectedRefs.size === 0 && (
+                    <p className="mt-2 text-xs text-amber-700">Select the disputed invoice(s) in the table above.</p>
+                  )}
+                </div>
+              )}
+
+              <div>
+                <label className="block text-xs font-medium text-gray-700 mb-1">
+                  {formMode === 'dispute' ? 'What is the issue?' : 'Message (optional)'}
+                </label>
+                <textarea
+                  value={message}
+                  onChange={(e) => setMessage(e.target.value)}
+                  rows={3}
+                  maxLength={2000}
+                  className="w-full border border-gray-300 rounded-lg px-3 py-2 text-sm focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                />
+              </div>
+
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+                <input
+                  type="text"
+                  value={contactName}
+                  onChange={(e) => setContactName(e.target.value)}
+                  placeholder="Your name"
+                  className="w-full border border-gray-300 rounded-lg px-3 py-2 text-sm focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                />
+                <input
+                  type="email"
+                  value={contactEmail}
+                  onChange={(e) => setContactEmail(e.target.value)}
+                  placeholder="Your email"
+                  className="w-full border border-gray-300 rounded-lg px-3 py-2 text-sm focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                />
+              </div>
+
+              {formError && <p className="text-sm text-red-600">{formError}</p>}
+
+              <button
+                onClick={handleSubmit}
+                disabled={submitting || (formMode === 'dispute' ? !disputeReady : !promiseReady)}
+                className="flex items-center gap-2 px-4 py-2 bg-blue-600 text-white rounded-lg text-sm font-medium hover:bg-blue-700 disabled:opacity-50"
+              >
+                {submitting && <Loader2 className="w-4 h-4 animate-spin" />}
+                Submit
+              </button>
+            </div>
+          )}
+
+          {data.submissions.length > 0 && (
+            <div className="mt-4 pt-4 border-t border-gray-100">
+              <p className="text-xs font-medium text-gray-500 mb-2">Your recent submissions</p>
+              <ul className="space-y-1 text-xs text-gray-600">
+                {data.submissions.map(s => (
+                  <li key={s.id}>
+                    {formatDate(s.created_at)} · {s.submission_type === 'promise_to_pay'
+                      ? `Promise to pay${s.amount ? ` ${formatCurrency(s.amount)}` : ''} by ${formatDate(s.promise_date)}`
+                      : 'Dispute'}
+                    {s.invoice_reference_numbers.length > 0 && ` · ${s.invoice_reference_numbers.join(', ')}`}
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
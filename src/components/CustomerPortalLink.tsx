@@ -0,0 +1,94 @@
+import { useState, useEffect } from 'react';
+import { Link2, Copy, Check, Loader2 } from 'lucide-react';
+import { supabase } from '../lib/supabase';
+import { formatDate as formatDateUtil } from '../lib/dateUtils';
+
+interface CustomerPortalLinkProps {
+  customerId: string;
+}
+
+interface PortalActivity {
+  last_accessed_at: string | null;
+  submissions: number;
+}
+
+export default function CustomerPortalLink({ customerId }: CustomerPortalLinkProps) {
+  const [activity, setActivity] = useState<PortalActivity | null>(null);
+  const [generating, setGenerating] = useState(false);
+  const [copied, setCopied] = useState(false);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    loadActivity();
+  }, [customerId]);
+
+  const loadActivity = async () => {
+    const [tokenResult, submissionResult] = await Promise.all([
+      supabase
+        .from('customer_portal_tokens')
+        .select('last_accessed_at')
+        .eq('customer_id', customerId)
+        .not('last_accessed_at', 'is', null)
+        .order('last_accessed_at', { ascending: false })
+        .limit(1)
+        .maybeSingle(),
+      supabase
+        .from('customer_portal_submissions')
+        .select('id', { count: 'exact', head: true })
+        .eq('customer_id', customerId),
+    ]);
+
+    setActivity({
+      last_accessed_at: tokenResult.data?.last_accessed_at || null,
+      submissions: submissionResult.count || 0,
+    });
+  };
+
+  const handleCopyLink = async () => {
+    setGenerating(true);
+    setError('');
+    try {
+      const { data: token, error: rpcError } = await supabase.rpc('create_customer_portal_token', {
+        p_customer_id: customerId,
+        p_valid_days: 30,
+        p_created_via: 'manual',
+      });
+      if (rpcError) throw rpcError;
+
+      await navigator.clipboard.writeText(`${window.location.origin}/portal/${token}`);
+      setCopied(true);
+      setTimeout(() => setCopied(false), 2000);
+    } catch (err: any) {
+      console.error('Error creating portal link:', err);
+      setError(err.message || 'Could not create link');
+    } finally {
+      setGenerating(false);
+    }
+  };
+
+  return (
+    <div className="mt-4 pt-3 border-t border-gray-100">
+      <div className="flex items-center justify-between">
+        <p className="text-xs font-medium text-gray-500 flex items-center gap-1.5">
+          <Link2 className="w-3 h-3" />
+          Customer Portal
+        </p>
+        <button
+          onClick={handleCopyLink}
+          disabled={generating}
+          className="flex items-center gap-1 text-xs font-medium text-blue-600 hover:text-blue-700 disabled:opacity-50"
+        >
+          {generating ? <Loader2 className="w-3 h-3 animate-spin" /> : copied ? <Check className="w-3 h-3" /> : <Copy className="w-3 h-3" />}
+          {copied ? 'Copied' : 'Copy 30-day link'}
+        </button>
+      </div>
+      {activity && (
+        <p className="mt-1 text-[11px] text-gray-500">
+          {activity.last_accessed_at ? `Last viewed ${formatDateUtil(activity.last_accessed_at)}` : 'Never viewed'}
+          {activity.submissions > 0 && ` · ${activity.submissions} submission${activity.submissions === 1 ? '' : 's'}`}
+        </p>
+      )}
+      {error && <p className="mt-1 text-[11px] text-red-600">{error}</p>}
+    </div>
+  );
+}
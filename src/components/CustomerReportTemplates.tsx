@@ -3,6 +3,7 @@ import { ArrowLeft, Plus, Edit2, Trash2, Copy, Check, FileText, Mail, Table, Pap
 import { supabase } from '../lib/supabase';
 import { useAuth } from '../contexts/AuthContext';
 import TestTemplateEmailModal from './TestTemplateEmailModal';
+import { PdfTemplate, fetchPdfTemplates } from '../lib/customerPdf';
 
 interface CustomerReportTemplatesProps {
   onBack?: () => void;
@@ -16,6 +17,7 @@ interface Template {
   include_invoice_table: boolean;
   include_payment_table: boolean;
   include_pdf_attachment: boolean;
+  pdf_template_id: string | null;
   is_default: boolean;
   created_at: string;
   updated_at: string;
@@ -55,9 +57,13 @@ export default function CustomerReportTemplates({ onBack }: CustomerReportTempla
   const [error, setError] = useState<string | null>(null);
   const [success, setSuccess] = useState<string | null>(null);
   const [testTemplate, setTestTemplate] = useState<Template | null>(null);
+  const [pdfTemplates, setPdfTemplates] = useState<PdfTemplate[]>([]);
 
   useEffect(() => {
     loadTemplates();
+    fetchPdfTemplates()
+      .then(data => setPdfTemplates(data.filter(t => t.document_type === 'statement')))
+      .catch(err => console.error('Error loading PDF templates:', err));
   }, []);
 
   const loadTemplates = async () => {
@@ -98,6 +104,7 @@ export default function CustomerReportTemplates({ onBack }: CustomerReportTempla
             include_invoice_table: currentTemplate.include_invoice_table,
             include_payment_table: currentTemplate.include_payment_table,
             include_pdf_attachment: currentTemplate.include_pdf_attachment,
+            pdf_template_id: currentTemplate.pdf_template_id || null,
             is_default: currentTemplate.is_default,
           })
           .eq('id', currentTemplate.id);
@@ -162,6 +169,7 @@ export default function CustomerReportTemplates({ onBack }: CustomerReportTempla
       include_invoice_table: template.include_invoice_table,
       include_payment_table: template.include_payment_table,
       include_pdf_attachment: template.include_pdf_attachment,
+      pdf_template_id: template.pdf_template_id,
       is_default: false,
     });
     setEditing(true);
@@ -388,12 +396,28 @@ export default function CustomerReportTemplates({ onBack }: CustomerReportTempla
                   <div>
                     <div className="flex items-center gap-2 text-sm font-medium text-slate-900">
                       <Paperclip className="w-4 h-4" />
-                      Attach PDF Invoice Report
+                      Attach PDF Statement
                     </div>
-                    <p className="text-xs text-slate-500">Generate and attach a PDF with invoice details</p>
+                    <p className="text-xs text-slate-500">Render the customer's statement on the server and attach it as a PDF</p>
                   </div>
                 </label>
 
+                {currentTemplate.include_pdf_attachment && (
+                  <div className="ml-8">
+                    <label className="block text-xs font-medium text-slate-700 mb-1">PDF layout</label>
+                    <select
+                      value={currentTemplate.pdf_template_id || ''}
+                      onChange={(e) => setCurrentTemplate({ ...currentTemplate, pdf_template_id: e.target.value || null })}
+                      className="w-full px-3 py-2 border border-slate-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                    >
+                      <option value="">Default statement layout</option>
+                      {pdfTemplates.map(t => (
+                        <option key={t.id} value={t.id}>{t.name}{t.is_default ? ' (default)' : ''}</option>
+                      ))}
+                    </select>
+                  </div>
+                )}
+
                 <label className="flex items-center gap-3 cursor-pointer">
                   <input
                     type="checkbox"
@@ -3,7 +3,7 @@ import { useNavigate, useParams } from 'react-router-dom';
 import { ArrowLeft, FileText, Mail, Download, Filter, DollarSign, Calendar, CheckSquare, Square, CreditCard, Search, X, ArrowUpDown, FileSpreadsheet, Edit, ChevronDown, ChevronRight, RefreshCw, Loader2 } from 'lucide-react';
 import { supabase } from '../lib/supabase';
 import { useAuth } from '../contexts/AuthContext';
-import { generateCustomerInvoicePDF } from '../lib/pdfGenerator';
+import { RenderedCustomerPdf, renderCustomerPdf, saveBlob } from '../lib/customerPdf';
 import { formatDate as formatDateUtil } from '../lib/dateUtils';
 import { exportToExcel as exportExcel, formatDate, formatCurrency as excelFormatCurrency } from '../lib/excelExport';
 
@@ -70,7 +70,7 @@ export default function CustomerReportsMonthly({ onBack }: CustomerReportsMonthl
   const [sendingEmails, setSendingEmails] = useState(false);
   const [progress, setProgress] = useState<string[]>([]);
   const [emailProgress, setEmailProgress] = useState<string[]>([]);
-  const [generatedPDFs, setGeneratedPDFs] = useState<Map<string, Blob>>(new Map());
+  const [generatedPDFs, setGeneratedPDFs] = useState<Map<string, RenderedCustomerPdf>>(new Map());
   const [paymentUrl, setPaymentUrl] = useState<string>('https://venture.bolt.host/pay');
   const [searchTerm, setSearchTerm] = useState('');
   const [sortBy, setSortBy] = useState<'name' | 'balance' | 'invoices'>('name');
@@ -288,7 +288,7 @@ export default function CustomerReportsMonthly({ onBack }: CustomerReportsMonthl
 
     setGeneratingPDFs(true);
     setProgress([]);
-    const newPDFs = new Map<string, Blob>();
+    const newPDFs = new Map<string, RenderedCustomerPdf>();
 
     for (let i = 0; i < toGenerate.length; i++) {
       const customer = toGenerate[i];
@@ -298,16 +298,14 @@ export default function CustomerReportsMonthly({ onBack }: CustomerReportsMonthl
       ]);
 
       try {
-        const fullCustomer = await getCustomerWithInvoices(customer);
-        const pdfBlob = await generateCustomerInvoicePDF(fullCustomer);
-        newPDFs.set(customer.customer_id, pdfBlob);
+        const pdf = await renderCustomerPdf({ customerId: customer.customer_id });
+        newPDFs.set(customer.customer_id, pdf);
         setProgress(prev => [...prev, `Done - ${customer.customer_name} - PDF ready`]);
       } catch (error) {
         setProgress(prev => [...prev, `Failed - ${customer.customer_name}`]);
         console.error('PDF generation error:', error);
       }
 
-      await new Promise(resolve => setTimeout(resolve, 200));
     }
 
     setGeneratedPDFs(newPDFs);
@@ -325,19 +323,7 @@ export default function CustomerReportsMonthly({ onBack }: CustomerReportsMonthl
       return;
     }
 
-    generatedPDFs.forEach((blob, customerId) => {
-      const customer = customers.find(c => c.customer_id === customerId);
-      if (!customer) return;
-
-      const url = URL.createObjectURL(blob);
-      const a = document.createElement('a');
-      a.href = url;
-      a.download = `Invoice_${customer.customer_name.replace(/[^a-zA-Z0-9]/g, '_')}_${new Date().toISOString().split('T')[0]}.png`;
-      document.body.appendChild(a);
-      a.click();
-      document.body.removeChild(a);
-      URL.revokeObjectURL(url);
-    });
+    generatedPDFs.forEach(pdf => saveBlob(pdf.blob, pdf.filename));
   };
 
   const handleExportToExcel = async () => {
@@ -405,11 +391,6 @@ export default function CustomerReportsMonthly({ onBack }: CustomerReportsMonthl
       return;
     }
 
-    if (selectedTemplate.include_pdf_attachment && generatedPDFs.size === 0) {
-      alert('Please generate PDFs first or disable PDF attachment in template');
-      return;
-    }
-
     const toSend = customers.filter(c =>
       selectedCustomers.has(c.customer_id) && c.email
     );
@@ -423,6 +404,7 @@ export default function CustomerReportsMonthly({ onBack }: CustomerReportsMonthl
     setEmailProgress([]);
 
     const { from: dateFrom, to: dateTo } = getDateRange();
+    const { data: { session } } = await supabase.auth.getSession();
 
     for (let i = 0; i < toSend.length; i++) {
       const customer = toSend[i];
@@ -435,23 +417,6 @@ export default function CustomerReportsMonthly({ onBack }: CustomerReportsMonthl
         const fullCustomer = await getCustomerWithInvoices(customer);
         const invoices = fullCustomer.unpaid_invoices;
 
-        let base64PDF: string | undefined;
-
-        if (selectedTemplate.include_pdf_attachment) {
-          const pdfBlob = generatedPDFs.get(customer.customer_id);
-          if (pdfBlob) {
-            const reader = new FileReader();
-            const base64Promise = new Promise<string>((resolve) => {
-              reader.onloadend = () => {
-                const base64 = (reader.result as string).split(',')[1];
-                resolve(base64);
-              };
-              reader.readAsDataURL(pdfBlob);
-            });
-            base64PDF = await base64Promise;
-          }
-        }
-
         const customerPaymentUrl = paymentUrl ? `${paymentUrl}?customer_id=${encodeURIComponent(customer.customer_id)}&customer_email=${encodeURIComponent(customer.email)}` : '';
 
         const oldestInvoice = invoices.length > 0 ? invoices.reduce((oldest, inv) =>
@@ -466,7 +431,7 @@ export default function CustomerReportsMonthly({ onBack }: CustomerReportsMonthl
           {
             method: 'POST',
             headers: {
-              'Authorization': `Bearer ${import.meta.env.VITE_SUPABASE_ANON_KEY}`,
+              'Authorization': `Bearer ${session?.access_token}`,
               'Content-Type': 'application/json',
             },
             body: JSON.stringify({
@@ -491,9 +456,9 @@ export default function CustomerReportsMonthly({ onBack }: CustomerReportsMonthl
                 days_overdue: daysOverdue,
                 payment_url: customerPaymentUrl,
               },
-              pdfBase64: base64PDF,
               sentByUserId: profile?.id,
               department: 'ar',
+              portalBaseUrl: window.location.origin,
             })
           }
         );
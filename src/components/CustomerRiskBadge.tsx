@@ -0,0 +1,33 @@
+import { TrendingUp, TrendingDown } from 'lucide-react';
+import { CustomerRiskScore, RISK_LEVEL_LABELS, RISK_LEVEL_STYLES } from '../lib/customerRisk';
+
+interface CustomerRiskBadgeProps {
+  risk: CustomerRiskScore | undefined;
+}
+
+// Moves smaller than this between two nightly runs are noise, not a trend
+const TREND_THRESHOLD = 5;
+
+export default function CustomerRiskBadge({ risk }: CustomerRiskBadgeProps) {
+  if (!risk) return <span className="text-sm text-gray-400">--</span>;
+
+  const topFactors = [...(risk.factors || [])]
+    .filter(f => f.points > 0)
+    .sort((a, b) => b.points - a.points)
+    .slice(0, 3);
+  const title = [
+    `${RISK_LEVEL_LABELS[risk.risk_level]} risk (${risk.score}/100)`,
+    ...topFactors.map(f => `${f.label}: +${f.points} -- ${f.detail}`),
+  ].join('\n');
+  const change = risk.previous_score != null ? risk.score - risk.previous_score : 0;
+
+  return (
+    <span title={title} className="inline-flex items-center gap-1">
+      <span className={`px-2 py-0.5 rounded-full text-[11px] font-semibold tabular-nums ${RISK_LEVEL_STYLES[risk.risk_level]}`}>
+        {Math.round(risk.score)}
+      </span>
+      {change >= TREND_THRESHOLD && <TrendingUp size={12} className="text-red-500" />}
+      {change <= -TREND_THRESHOLD && <TrendingDown size={12} className="text-emerald-500" />}
+    </span>
+  );
+}
@@ -0,0 +1,141 @@
+import { useState, useEffect } from 'react';
+import { ShieldAlert, Loader2 } from 'lucide-react';
+import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, ReferenceLine, ResponsiveContainer } from 'recharts';
+import { format, parseISO } from 'date-fns';
+import { supabase } from '../lib/supabase';
+import { formatDate as formatDateUtil } from '../lib/dateUtils';
+import {
+  CustomerRiskHistoryPoint,
+  CustomerRiskScore,
+  RISK_LEVEL_COLORS,
+  RISK_LEVEL_LABELS,
+  RISK_LEVEL_STYLES,
+  RISK_LEVEL_THRESHOLDS,
+  fetchCustomerRiskHistory,
+} from '../lib/customerRisk';
+
+interface CustomerRiskPanelProps {
+  customerId: string;
+}
+
+export default function CustomerRiskPanel({ customerId }: CustomerRiskPanelProps) {
+  const [risk, setRisk] = useState<CustomerRiskScore | null>(null);
+  const [history, setHistory] = useState<CustomerRiskHistoryPoint[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    loadRisk();
+  }, [customerId]);
+
+  const loadRisk = async () => {
+    try {
+      setLoading(true);
+      const [{ data, error }, points] = await Promise.all([
+        supabase
+          .from('customer_risk_scores')
+          .select('customer_id, customer_name, score, risk_level, factors, previous_score, score_date, computed_at')
+          .eq('customer_id', customerId)
+          .maybeSingle(),
+        fetchCustomerRiskHistory(customerId),
+      ]);
+      if (error) throw error;
+      setRisk(data as CustomerRiskScore | null);
+      setHistory(points);
+    } catch (error) {
+      console.error('Error loading customer risk score:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="bg-white rounded-xl border border-gray-200 shadow-sm p-5 flex items-center justify-center">
+        <Loader2 className="w-5 h-5 animate-spin text-gray-400" />
+      </div>
+    );
+  }
+
+  if (!risk && history.length === 0) {
+    return (
+      <div className="bg-white rounded-xl border border-gray-200 shadow-sm px-5 py-3 flex items-center gap-2 text-sm text-gray-500">
+        <ShieldAlert className="w-4 h-4 text-gray-400" />
+        No risk score yet -- customers are scored nightly once they have open invoices or recent payments.
+      </div>
+    );
+  }
+
+  const factors = [...(risk?.factors || [])].sort((a, b) => b.points - a.points);
+  const chartData = history.map(point => ({
+    date: format(parseISO(point.score_date), 'MMM d'),
+    score: Number(point.score),
+  }));
+
+  return (
+    <div className="bg-white rounded-xl border border-gray-200 shadow-sm p-5">
+      <div className="flex items-center justify-between mb-4">
+        <div className="flex items-center gap-2">
+          <ShieldAlert className="w-4 h-4 text-gray-500" />
+          <h3 className="text-sm font-semibold text-gray-800">Risk Score</h3>
+          {risk && (
+            <span className={`px-2 py-0.5 rounded-full text-xs font-semibold ${RISK_LEVEL_STYLES[risk.risk_level]}`}>
+              {Math.round(risk.score)} · {RISK_LEVEL_LABELS[risk.risk_level]}
+            </span>
+          )}
+          {risk?.previous_score != null && risk.previous_score !== risk.score && (
+            <span className={`text-xs ${risk.score > risk.previous_score ? 'text-red-600' : 'text-emerald-600'}`}>
+              {risk.score > risk.previous_score ? '+' : ''}{(risk.score - risk.previous_score).toFixed(1)} since last run
+            </span>
+          )}
+        </div>
+        {risk && <span className="text-[11px] text-gray-400">Scored {formatDateUtil(risk.score_date)}</span>}
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+        <div className="space-y-2.5">
+          {factors.map(factor => (
+            <div key={factor.factor}>
+              <div className="flex items-center justify-between text-xs">
+                <span className={factor.points > 0 ? 'font-medium text-gray-800' : 'text-gray-500'}>{factor.label}</span>
+                <span className="tabular-nums text-gray-600">
+                  {factor.points} / {factor.max_points}
+                </span>
+              </div>
+              <div className="h-1.5 bg-gray-100 rounded-full mt-1 overflow-hidden">
+                <div
+                  className="h-full rounded-full"
+                  style={{
+                    width: `${Math.min(100, (factor.points / factor.max_points) * 100)}%`,
+                    backgroundColor: risk ? RISK_LEVEL_COLORS[risk.risk_level] : '#94a3b8',
+                  }}
+                />
+              </div>
+              <p className="text-[11px] text-gray-400 mt-0.5">{factor.detail}</p>
+            </div>
+          ))}
+        </div>
+
+        <div>
+          {chartData.length > 1 ? (
+            <ResponsiveContainer width="100%" height={220}>
+              <LineChart data={chartData}>
+                <CartesianGrid strokeDasharray="3 3" stroke="#e5e7eb" />
+                <XAxis dataKey="date" tick={{ fontSize: 11, fill: '#6b7280' }} stroke="#d1d5db" />
+                <YAxis domain={[0, 100]} tick={{ fontSize: 11, fill: '#6b7280' }} stroke="#d1d5db" width={32} />
+                <Tooltip formatter={(value: number) => [value, 'Risk score']} />
+                {(Object.keys(RISK_LEVEL_THRESHOLDS) as (keyof typeof RISK_LEVEL_THRESHOLDS)[]).map(level => (
+                  <ReferenceLine key={level} y={RISK_LEVEL_THRESHOLDS[level]} stroke={RISK_LEVEL_COLORS[level]} strokeDasharray="4 4" />
+                ))}
+                <Line type="monotone" dataKey="score" stroke="#2563eb" strokeWidth={2} dot={false} />
+              </LineChart>
+            </ResponsiveContainer>
+          ) : (
+            <div className="h-full min-h-[120px] flex items-center justify-center text-xs text-gray-400">
+              The trend chart fills in as nightly scores accumulate
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
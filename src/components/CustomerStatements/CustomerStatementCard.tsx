@@ -37,10 +37,11 @@ function getAgingLabel(days: number): string {
 export default function CustomerStatementCard({ customer, selected, expanded, loadingInvoices, onToggleSelect, onToggleExpand }: Props) {
   const allInvoices = customer.invoices.filter(inv => inv.balance !== 0);
   const openInvoices = allInvoices.filter(inv => inv.balance > 0);
-  const agingBuckets = { current: 0, d30: 0, d60: 0, d90: 0, d90plus: 0 };
+  const agingBuckets = { current: 0, d30: 0, d60: 0, d90: 0, d90plus: 0, disputed: 0 };
   openInvoices.forEach(inv => {
     const d = inv.days_overdue;
-    if (d <= 0) agingBuckets.current += inv.balance;
+    if (inv.disputed) agingBuckets.disputed += inv.balance;
+    else if (d <= 0) agingBuckets.current += inv.balance;
     else if (d <= 30) agingBuckets.d30 += inv.balance;
     else if (d <= 60) agingBuckets.d60 += inv.balance;
     else if (d <= 90) agingBuckets.d90 += inv.balance;
@@ -119,13 +120,16 @@ export default function CustomerStatementCard({ customer, selected, expanded, lo
             </div>
           ) : (
           <>
-          <div className="grid grid-cols-2 sm:grid-cols-5 gap-3">
+          <div className={`grid grid-cols-2 gap-3 ${agingBuckets.disputed > 0 ? 'sm:grid-cols-6' : 'sm:grid-cols-5'}`}>
             {[
               { label: 'Current', amount: agingBuckets.current, color: 'bg-emerald-50 text-emerald-700 border-emerald-200' },
               { label: '1-30 Days', amount: agingBuckets.d30, color: 'bg-blue-50 text-blue-700 border-blue-200' },
               { label: '31-60 Days', amount: agingBuckets.d60, color: 'bg-amber-50 text-amber-700 border-amber-200' },
               { label: '61-90 Days', amount: agingBuckets.d90, color: 'bg-orange-50 text-orange-700 border-orange-200' },
               { label: '90+ Days', amount: agingBuckets.d90plus, color: 'bg-red-50 text-red-700 border-red-200' },
+              ...(agingBuckets.disputed > 0
+                ? [{ label: 'Disputed', amount: agingBuckets.disputed, color: 'bg-purple-50 text-purple-700 border-purple-200' }]
+                : []),
             ].map(bucket => (
               <div key={bucket.label} className={`rounded-lg border px-3 py-2 ${bucket.color}`}>
                 <p className="text-xs font-medium opacity-80">{bucket.label}</p>
@@ -163,6 +167,8 @@ export default function CustomerStatementCard({ customer, selected, expanded, lo
                         <td className="px-3 py-2 text-center w-16">
                           {isCredit ? (
                             <span className="inline-block text-xs font-medium px-2 py-0.5 rounded-full text-blue-700 bg-blue-50">Credit</span>
+                          ) : inv.disputed ? (
+                            <span className="inline-block text-xs font-medium px-2 py-0.5 rounded-full text-purple-700 bg-purple-50">Disputed</span>
                           ) : (
                             <span className={`inline-block text-xs font-medium px-2 py-0.5 rounded-full ${getAgingColor(inv.days_overdue)}`}>
                               {getAgingLabel(inv.days_overdue)}
@@ -1,12 +1,16 @@
 import { useState } from 'react';
 import { FileSpreadsheet, Mail, Download, Send, X, AlertTriangle, CheckCircle, Loader2, FlaskConical, Eye } from 'lucide-react';
 import { useAuth } from '../../contexts/AuthContext';
+import { usePermissions } from '../../contexts/PermissionsContext';
+import { PERMISSIONS } from '../../lib/permissions';
+import { supabase } from '../../lib/supabase';
 import {
   generateCustomerStatementExcel,
   generateBatchStatementExcel,
   uint8ArrayToBase64,
   downloadExcelFile,
 } from '../../lib/statementExport';
+import { CONTACT_ROLE_LABELS, ContactRole } from '../../lib/customerContacts';
 import EmailPreviewModal from './EmailPreviewModal';
 import type { StatementCustomer, ReportTemplate } from './types';
 
@@ -29,12 +33,17 @@ interface EmailProgress {
 
 export default function StatementActions({ selectedCustomers, templates, selectedTemplateId, onTemplateChange, ensureInvoicesLoaded }: Props) {
   const { profile } = useAuth();
+  const { can } = usePermissions();
+  const canSend = can(PERMISSIONS.STATEMENTS, 'create');
   const [actionMode, setActionMode] = useState<ActionMode>(null);
   const [sending, setSending] = useState(false);
   const [emailProgress, setEmailProgress] = useState<EmailProgress[]>([]);
   const [downloadType, setDownloadType] = useState<'individual' | 'combined'>('combined');
   const [useTestEmail, setUseTestEmail] = useState(false);
   const [testEmail, setTestEmail] = useState('');
+  // Customers with contacts in these roles get the statement there instead
+  // of their email on file
+  const [recipientRoles, setRecipientRoles] = useState<ContactRole[]>([]);
 
   const selectedTemplate = templates.find(t => t.id === selectedTemplateId);
   const customersWithEmail = useTestEmail ? selectedCustomers : selectedCustomers.filter(c => c.email);
@@ -113,6 +122,8 @@ export default function StatementActions({ selectedCustomers, templates, selecte
     }));
     setEmailProgress([...progress]);
 
+    const { data: { session } } = await supabase.auth.getSession();
+
     for (let i = 0; i < customersWithEmail.length; i++) {
       const customer = customersWithEmail[i];
       const customerInvoices = invoiceMap[customer.customer_id] || customer.invoices;
@@ -142,7 +153,7 @@ export default function StatementActions({ selectedCustomers, templates, selecte
           {
             method: 'POST',
             headers: {
-              'Authorization': `Bearer ${import.meta.env.VITE_SUPABASE_ANON_KEY}`,
+              'Authorization': `Bearer ${session?.access_token}`,
               'Content-Type': 'application/json',
             },
             body: JSON.stringify({
@@ -176,8 +187,10 @@ export default function StatementActions({ selectedCustomers, templates, selecte
                 days_overdue: daysOverdue,
               },
               excelBase64: base64,
+              recipientRoles: useTestEmail || emailOverrides[customer.customer_id] ? undefined : recipientRoles,
               sentByUserId: profile?.id,
               department: 'ar',
+              portalBaseUrl: window.location.origin,
             }),
           }
         );
@@ -232,7 +245,8 @@ export default function StatementActions({ selectedCustomers, templates, selecte
             </button>
             <button
               onClick={() => setActionMode(actionMode === 'email' ? null : 'email')}
-              disabled={selectedCustomers.length === 0}
+              disabled={selectedCustomers.length === 0 || !canSend}
+              title={canSend ? undefined : 'Your role can view statements but not send them'}
               className="flex items-center gap-2 px-4 py-2.5 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:bg-gray-200 disabled:text-gray-400 disabled:cursor-not-allowed transition-colors text-sm font-medium"
             >
               <Mail className="w-4 h-4" />
@@ -361,6 +375,29 @@ export default function StatementActions({ selectedCustomers, templates, selecte
                   All emails go to test address - subjects prefixed with [TEST]
                 </span>
               )}
+              {!useTestEmail && (
+                <div className="flex items-center gap-1.5 flex-wrap">
+                  <span className="text-xs text-gray-500">Contacts:</span>
+                  {(Object.keys(CONTACT_ROLE_LABELS) as ContactRole[]).map(role => (
+                    <button
+                      key={role}
+                      onClick={() => setRecipientRoles(
+                        recipientRoles.includes(role) ? recipientRoles.filter(r => r !== role) : [...recipientRoles, role]
+                      )}
+                      className={`px-2 py-0.5 rounded-full text-xs font-medium border transition-colors ${
+                        recipientRoles.includes(role)
+                          ? 'bg-blue-600 border-blue-600 text-white'
+                          : 'bg-white border-gray-300 text-gray-600 hover:bg-gray-50'
+                      }`}
+                    >
+                      {CONTACT_ROLE_LABELS[role]}
+                    </button>
+                  ))}
+                  {recipientRoles.length > 0 && (
+                    <span className="text-xs text-gray-500">Falls back to the customer email when no contact has the role</span>
+                  )}
+                </div>
+              )}
             </div>
 
             <div className="flex items-center justify-between flex-wrap gap-3">
@@ -374,7 +411,7 @@ export default function StatementActions({ selectedCustomers, templates, selecte
                 ) : (
                   <>
                     Sending to <span className="font-semibold text-blue-700">{customersWithEmail.length}</span> customer{customersWithEmail.length !== 1 ? 's' : ''} with email addresses.
-                    Each receives their personalized statement with an Excel attachment.
+                    Each receives their personalized statement with an Excel{selectedTemplate?.include_pdf_attachment ? ' and PDF' : ''} attachment.
                   </>
                 )}
               </p>
@@ -8,6 +8,7 @@ export interface StatementInvoice {
   description: string;
   days_overdue: number;
   type: string;
+  disputed?: boolean;
 }
 
 export interface StatementCustomer {
@@ -29,6 +30,7 @@ export interface ReportTemplate {
   body: string;
   include_invoice_table: boolean;
   include_payment_table: boolean;
+  include_pdf_attachment: boolean;
   is_default: boolean;
 }
 
@@ -1,5 +1,7 @@
 import { useState, useEffect, useCallback, useRef } from 'react';
 import { supabase } from '../../lib/supabase';
+import { fetchDisputedInvoiceRefs } from '../../lib/invoiceDisputes';
+import { mapStatementInvoices } from '../../lib/statementExport';
 import type { StatementCustomer, StatementInvoice, ReportTemplate, SortField, SortOrder } from './types';
 
 const BATCH_SIZE = 200;
@@ -83,28 +85,6 @@ export function useCustomerStatements() {
     }
   }, []);
 
-  const mapInvoices = (data: any[]): StatementInvoice[] => {
-    const today = new Date();
-    return data.map((inv: any) => {
-      const dueDate = inv.due_date ? new Date(inv.due_date) : today;
-      const daysOverdue = Math.max(0, Math.floor((today.getTime() - dueDate.getTime()) / 86400000));
-      const isCredit = inv.type === 'Credit Memo' || inv.type === 'Credit WO';
-      const rawAmount = Number(inv.amount) || Number(inv.dac_total) || 0;
-      const rawBalance = Number(inv.balance) || 0;
-      return {
-        reference_number: inv.reference_number,
-        date: inv.date,
-        due_date: inv.due_date,
-        amount: isCredit ? -Math.abs(rawAmount) : rawAmount,
-        balance: isCredit ? -Math.abs(rawBalance) : rawBalance,
-        status: inv.status,
-        description: inv.description || '',
-        days_overdue: isCredit ? 0 : daysOverdue,
-        type: inv.type || 'Invoice',
-      };
-    });
-  };
-
   const loadInvoicesForCustomer = useCallback(async (customerId: string) => {
     if (invoiceCache[customerId]) return;
     setLoadingInvoices(customerId);
@@ -122,7 +102,8 @@ export function useCustomerStatements() {
 
       if (error) throw error;
 
-      const invoices = mapInvoices(data || []);
+      const disputedRefs = await fetchDisputedInvoiceRefs((data || []).map((inv: any) => inv.reference_number));
+      const invoices = mapStatementInvoices(data || [], disputedRefs);
       setInvoiceCache(prev => ({ ...prev, [customerId]: invoices }));
       setCustomers(prev => prev.map(c =>
         c.customer_id === customerId ? { ...c, invoices } : c
@@ -159,6 +140,7 @@ export function useCustomerStatements() {
 
       if (error) throw error;
 
+      const disputedRefs = await fetchDisputedInvoiceRefs((data || []).map((inv: any) => inv.reference_number));
       const grouped: Record<string, any[]> = {};
       (data || []).forEach((inv: any) => {
         if (!grouped[inv.customer]) grouped[inv.customer] = [];
@@ -166,7 +148,7 @@ export function useCustomerStatements() {
       });
 
       batch.forEach(cid => {
-        newCache[cid] = mapInvoices(grouped[cid] || []);
+        newCache[cid] = mapStatementInvoices(grouped[cid] || [], disputedRefs);
       });
     }
 
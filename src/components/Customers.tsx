@@ -5,6 +5,8 @@ import CustomerDetailView from './CustomerDetailView';
 import { ArrowLeft, CreditCard as Edit2, Trash2, Users, RefreshCw, Mail, CheckSquare, Square, FileText, Clock, Calendar, PauseCircle, Play, ChevronLeft, ChevronRight, Search, Download, ArrowUpDown, ArrowUp, ArrowDown, DollarSign, TrendingUp, Filter, X, Eye, EyeOff, Ticket, ChevronDown, Zap } from 'lucide-react';
 import { usePageCache } from '../contexts/PageCacheContext';
 import CustomerFiles from './CustomerFiles';
+import CustomerRiskBadge from './CustomerRiskBadge';
+import { CustomerRiskScore, fetchCustomerRiskScores } from '../lib/customerRisk';
 import * as XLSX from 'xlsx';
 
 type Customer = {
@@ -60,7 +62,7 @@ type FilterConfig = {
   dateFrom: string;
   dateTo: string;
   logicOperator: 'AND' | 'OR';
-  sortBy: 'name' | 'email' | 'balance' | 'invoice_count' | 'max_days_overdue' | 'avg_days_to_collect' | 'created_at';
+  sortBy: 'name' | 'email' | 'balance' | 'invoice_count' | 'max_days_overdue' | 'avg_days_to_collect' | 'risk_score' | 'created_at';
   sortOrder: 'asc' | 'desc';
 };
 
@@ -151,6 +153,7 @@ export default function Customers({ onBack }: CustomersProps) {
   const [showFilters, setShowFilters] = useState(() => cl?.showFilters ?? false);
   const [excludeCreditMemos, setExcludeCreditMemos] = useState(() => cl?.excludeCreditMemos ?? false);
   const [customersWithOpenTickets, setCustomersWithOpenTickets] = useState<Map<string, number>>(new Map());
+  const [riskScores, setRiskScores] = useState<Map<string, CustomerRiskScore>>(new Map());
   const [expandedCustomerId, setExpandedCustomerId] = useState<string | null>(null);
   const [expandedInvoices, setExpandedInvoices] = useState<Map<string, any[]>>(new Map());
   const [loadingExpanded, setLoadingExpanded] = useState<string | null>(null);
@@ -235,6 +238,7 @@ export default function Customers({ onBack }: CustomersProps) {
     if (fetchKeyRef.current === key) {
       if (restoredFromCache.current && Date.now() - mountTime.current < 500) {
         loadCustomersWithOpenTickets();
+        loadRiskScores();
         return;
       }
       restoredFromCache.current = false;
@@ -245,6 +249,7 @@ export default function Customers({ onBack }: CustomersProps) {
     loadCachedStats();
     loadCustomersBatched();
     loadCustomersWithOpenTickets();
+    loadRiskScores();
 
     const ticketSubscription = supabase
       .channel('ticket_status_changes')
@@ -296,6 +301,16 @@ export default function Customers({ onBack }: CustomersProps) {
     }
   };
 
+  const loadRiskScores = async () => {
+    try {
+      setRiskScores(await fetchCustomerRiskScores());
+    } catch (error) {
+      console.error('Error loading customer risk scores:', error);
+    }
+  };
+
+  const riskScoreOf = (customer: Customer) => riskScores.get(customer.customer_id || customer.id)?.score ?? -1;
+
   const mapCustomerRow = (item: any) => ({
     id: item.customer_id || item.id,
     name: item.customer_name || '',
@@ -462,6 +477,7 @@ export default function Customers({ onBack }: CustomersProps) {
       if (sortBy === 'balance') comparison = (a.balance || 0) - (b.balance || 0);
       else if (sortBy === 'invoice_count') comparison = (a.invoice_count || 0) - (b.invoice_count || 0);
       else if (sortBy === 'max_days_overdue') comparison = (a.max_days_overdue || 0) - (b.max_days_overdue || 0);
+      else if (sortBy === 'risk_score') comparison = riskScoreOf(a) - riskScoreOf(b);
       else if (sortBy === 'name') comparison = a.name.localeCompare(b.name);
       else if (sortBy === 'email') comparison = a.email.localeCompare(b.email);
       else if (sortBy === 'created_at') comparison = new Date(a.created_at).getTime() - new Date(b.created_at).getTime();
@@ -472,7 +488,7 @@ export default function Customers({ onBack }: CustomersProps) {
     setTotalCount(filtered.length);
     const start = currentPage * PAGE_SIZE;
     setCustomers(filtered.slice(start, start + PAGE_SIZE));
-  }, [allCustomers, filters, searchQuery, currentPage, excludeCreditMemos]);
+  }, [allCustomers, filters, searchQuery, currentPage, excludeCreditMemos, riskScores]);
 
   useEffect(() => { applyFilters(); }, [applyFilters]);
 
@@ -714,6 +730,7 @@ export default function Customers({ onBack }: CustomersProps) {
       'Gross Balance': customer.gross_balance || 0,
       'Net Balance': customer.balance || 0,
       'Max Days Overdue': customer.max_days_overdue || 0,
+      'Risk Score': riskScores.get(customer.customer_id || customer.id)?.score ?? '',
       'Red Invoices': customer.red_count || 0,
       'Yellow Invoices': customer.yellow_count || 0,
       'Green Invoices': customer.green_count || 0,
@@ -725,7 +742,7 @@ export default function Customers({ onBack }: CustomersProps) {
     const summaryRow = {
       '#': '', 'Customer ID': '', 'Customer Name': 'TOTALS', 'Email': '', 'Active': '',
       'Open Invoices': totalInvoices, 'Gross Balance': totalGross, 'Net Balance': totalBalance,
-      'Max Days Overdue': '', 'Red Invoices': '', 'Yellow Invoices': '', 'Green Invoices': '',
+      'Max Days Overdue': '', 'Risk Score': '', 'Red Invoices': '', 'Yellow Invoices': '', 'Green Invoices': '',
       'Responded This Month': '', 'Postponed Until': '', 'Postpone Reason': ''
     };
 
@@ -1071,6 +1088,7 @@ export default function Customers({ onBack }: CustomersProps) {
                     <option value="invoice_count">Invoice Count</option>
                     <option value="max_days_overdue">Days Overdue</option>
                     <option value="avg_days_to_collect">Avg Days to Collect</option>
+                    <option value="risk_score">Risk Score</option>
                     <option value="name">Customer Name</option>
                   </select>
                 </div>
@@ -1172,6 +1190,9 @@ export default function Customers({ onBack }: CustomersProps) {
                     <th className="text-right py-2.5 px-4 text-[11px] font-semibold text-gray-500 uppercase tracking-wider cursor-pointer hover:bg-gray-100 transition-colors" onClick={() => handleSort('avg_days_to_collect')}>
                       <div className="flex items-center justify-end gap-1.5">Avg Collect {getSortIcon('avg_days_to_collect')}</div>
                     </th>
+                    <th className="text-center py-2.5 px-4 text-[11px] font-semibold text-gray-500 uppercase tracking-wider cursor-pointer hover:bg-gray-100 transition-colors" onClick={() => handleSort('risk_score')}>
+                      <div className="flex items-center justify-center gap-1.5">Risk {getSortIcon('risk_score')}</div>
+                    </th>
                     <th className="text-center py-2.5 px-4 text-[11px] font-semibold text-gray-500 uppercase tracking-wider">Resp.</th>
                     <th className="text-center py-2.5 px-4 text-[11px] font-semibold text-gray-500 uppercase tracking-wider" title="Exclude from Payment Analytics">
                       <div className="flex items-center justify-center gap-1"><EyeOff size={12} /><span>Pay</span></div>
@@ -1264,6 +1285,9 @@ export default function Customers({ onBack }: CustomersProps) {
                         <td className="py-2.5 px-4 text-right text-sm text-gray-600 tabular-nums">
                           {customer.avg_days_to_collect != null ? `${customer.avg_days_to_collect}d` : '--'}
                         </td>
+                        <td className="py-2.5 px-4 text-center">
+                          <CustomerRiskBadge risk={riskScores.get(cidKey)} />
+                        </td>
                         <td className="py-2.5 px-4">
                           <div className="flex justify-center">
                             <button onClick={() => handleToggleResponded(customer.id, customer.responded_this_month)} disabled={updating === customer.id}
@@ -1311,7 +1335,7 @@ export default function Customers({ onBack }: CustomersProps) {
                       </tr>
                       {isExpanded && (
                         <tr>
-                          <td colSpan={9} className="bg-gray-50 px-6 py-3 border-b border-gray-200">
+                          <td colSpan={10} className="bg-gray-50 px-6 py-3 border-b border-gray-200">
                             {loadingExpanded === cidKey ? (
                               <div className="text-sm text-gray-500 py-2">Loading invoices...</div>
                             ) : (expandedInvoices.get(cidKey)?.length ? (
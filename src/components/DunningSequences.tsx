@@ -0,0 +1,9 @@
+import DunningSequencesPage from './DunningSequences/index';
+
+interface DunningSequencesProps {
+  onBack: () => void;
+}
+
+export default function DunningSequences({ onBack }: DunningSequencesProps) {
+  return <DunningSequencesPage onBack={onBack} />;
+}
@@ -0,0 +1,409 @@
+import { useState } from 'react';
+import { X, Plus, Trash2, Loader2, ArrowUp, ArrowDown, Info } from 'lucide-react';
+import { supabase } from '../../lib/supabase';
+import { useToast } from '../../contexts/ToastContext';
+import {
+  DunningSequence,
+  DunningStep,
+  DunningChannel,
+  EmailTemplate,
+  CHANNEL_LABELS,
+  DEFAULT_STEPS,
+} from './types';
+
+interface SequenceFormModalProps {
+  editingSequence: DunningSequence | null;
+  templates: EmailTemplate[];
+  onClose: () => void;
+  onSaved: () => void;
+}
+
+export default function SequenceFormModal({
+  editingSequence,
+  templates,
+  onClose,
+  onSaved,
+}: SequenceFormModalProps) {
+  const { showToast } = useToast();
+  const [saving, setSaving] = useState(false);
+
+  const [name, setName] = useState(editingSequence?.name || '');
+  const [description, setDescription] = useState(editingSequence?.description || '');
+  const [isDefault, setIsDefault] = useState(editingSequence?.is_default || false);
+  const [steps, setSteps] = useState<DunningStep[]>(
+    editingSequence?.steps?.length
+      ? editingSequence.steps.map(s => ({ ...s }))
+      : DEFAULT_STEPS.map(s => ({ ...s }))
+  );
+
+  const updateStep = (idx: number, updates: Partial<DunningStep>) => {
+    setSteps(steps.map((s, i) => (i === idx ? { ...s, ...updates } : s)));
+  };
+
+  const addStep = () => {
+    const last = steps[steps.length - 1];
+    setSteps([
+      ...steps,
+      {
+        step_order: steps.length + 1,
+        name: '',
+        days_overdue: last ? last.days_overdue + 30 : 7,
+        channel: 'email',
+        template_id: null,
+        ticket_priority: last?.ticket_priority || 'medium',
+        stop_on_payment: true,
+        stop_on_promise_date: true,
+        stop_on_ticket_closed: false,
+      },
+    ]);
+  };
+
+  const removeStep = (idx: number) => {
+    setSteps(steps.filter((_, i) => i !== idx));
+  };
+
+  const moveStep = (idx: number, direction: -1 | 1) => {
+    const target = idx + direction;
+    if (target < 0 || target >= steps.length) return;
+    const next = [...steps];
+    [next[idx], next[target]] = [next[target], next[idx]];
+    setSteps(next);
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!name.trim()) {
+      showToast('Sequence name is required', 'error');
+      return;
+    }
+    if (steps.length === 0) {
+      showToast('Add at least one step', 'error');
+      return;
+    }
+    for (let i = 0; i < steps.length; i++) {
+      const step = steps[i];
+      if (!step.name.trim()) {
+        showToast(`Step ${i + 1} needs a name`, 'error');
+        return;
+      }
+      if (step.channel !== 'ticket' && !step.template_id) {
+        showToast(`Step "${step.name}" sends an email and needs a template`, 'error');
+        return;
+      }
+      if (i > 0 && step.days_overdue <= steps[i - 1].days_overdue) {
+        showToast('Each step must fire at more days overdue than the step before it', 'error');
+        return;
+      }
+    }
+
+    setSaving(true);
+    try {
+      const { data: { user } } = await supabase.auth.getUser();
+
+      const sequenceData: any = {
+        name: name.trim(),
+        description: description.trim() || null,
+        is_default: isDefault,
+        updated_at: new Date().toISOString(),
+      };
+
+      // Only one default per organization; clear the flag elsewhere first.
+      if (isDefault) {
+        let clearQuery = supabase
+          .from('dunning_sequences')
+          .update({ is_default: false })
+          .eq('is_default', true);
+        if (editingSequence) clearQuery = clearQuery.neq('id', editingSequence.id);
+        const { error } = await clearQuery;
+        if (error) throw error;
+      }
+
+      let sequenceId: string;
+
+      if (editingSequence) {
+        const { error } = await supabase
+          .from('dunning_sequences')
+          .update(sequenceData)
+          .eq('id', editingSequence.id);
+        if (error) throw error;
+        sequenceId = editingSequence.id;
+
+        await supabase.from('dunning_steps').delete().eq('sequence_id', sequenceId);
+      } else {
+        sequenceData.created_by = user?.id;
+        const { data, error } = await supabase
+          .from('dunning_sequences')
+          .insert(sequenceData)
+          .select('id')
+          .single();
+        if (error) throw error;
+        sequenceId = data.id;
+      }
+
+      const stepInserts = steps.map((s, i) => ({
+        sequence_id: sequenceId,
+        step_order: i + 1,
+        name: s.name.trim(),
+        days_overdue: s.days_overdue,
+        channel: s.channel,
+        template_id: s.channel === 'ticket' ? null : s.template_id,
+        ticket_priority: s.ticket_priority,
+        stop_on_payment: s.stop_on_payment,
+        stop_on_promise_date: s.stop_on_promise_date,
+        stop_on_ticket_closed: s.stop_on_ticket_closed,
+      }));
+      const { error: stepsError } = await supabase.from('dunning_steps').insert(stepInserts);
+      if (stepsError) throw stepsError;
+
+      showToast(editingSequence ? 'Sequence updated' : 'Sequence created', 'success');
+      onSaved();
+      onClose();
+    } catch (error: any) {
+      showToast(error.message, 'error');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/50 flex items-start justify-center z-50 p-4 overflow-y-auto">
+      <div className="bg-white rounded-xl shadow-2xl w-full max-w-3xl my-8">
+        <div className="flex items-center justify-between px-6 py-4 border-b border-gray-200">
+          <div>
+            <h2 className="text-xl font-bold text-gray-900">
+              {editingSequence ? 'Edit Dunning Sequence' : 'Create Dunning Sequence'}
+            </h2>
+            <p className="text-sm text-gray-500 mt-0.5">
+              Escalating steps driven by how many days the customer's oldest open invoice is past due
+            </p>
+          </div>
+          <button onClick={onClose} className="p-2 hover:bg-gray-100 rounded-lg transition-colors">
+            <X className="w-5 h-5 text-gray-500" />
+          </button>
+        </div>
+
+        <form onSubmit={handleSubmit} className="divide-y divide-gray-100">
+          {/* Basic Info */}
+          <div className="px-6 py-5 space-y-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1.5">Sequence Name</label>
+              <input
+                type="text"
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                placeholder="e.g., Standard Collections"
+                className="w-full border border-gray-300 rounded-lg px-3.5 py-2.5 text-sm focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                required
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1.5">Description (optional)</label>
+              <textarea
+                value={description}
+                onChange={(e) => setDescription(e.target.value)}
+                rows={2}
+                className="w-full border border-gray-300 rounded-lg px-3.5 py-2.5 text-sm focus:ring-2 focus:ring-blue-500 focus:border-blue-500 resize-none"
+              />
+            </div>
+            <label className="flex items-start gap-3 cursor-pointer">
+              <input
+                type="checkbox"
+                checked={isDefault}
+                onChange={(e) => setIsDefault(e.target.checked)}
+                className="mt-0.5 w-4 h-4 text-blue-600 border-gray-300 rounded focus:ring-blue-500"
+              />
+              <span>
+                <span className="block text-sm font-medium text-gray-700">Default sequence</span>
+                <span className="block text-xs text-gray-500">
+                  Automatically enroll every overdue customer who is not already in a sequence
+                </span>
+              </span>
+            </label>
+          </div>
+
+          {/* Steps */}
+          <div className="px-6 py-5 space-y-4">
+            <div className="flex items-center justify-between">
+              <div>
+                <h3 className="text-sm font-semibold text-gray-800">Steps</h3>
+                <p className="text-xs text-gray-500 mt-0.5">Steps fire in order as the customer's invoices age</p>
+              </div>
+              <button
+                type="button"
+                onClick={addStep}
+                className="flex items-center gap-1.5 px-3 py-1.5 text-sm font-medium text-blue-600 bg-blue-50 rounded-lg hover:bg-blue-100 transition-colors"
+              >
+                <Plus className="w-3.5 h-3.5" />
+                Add Step
+              </button>
+            </div>
+
+            <div className="space-y-3">
+              {steps.map((step, idx) => (
+                <div key={idx} className="border border-gray-200 rounded-xl p-4 bg-gray-50/50">
+                  <div className="flex items-center justify-between mb-3">
+                    <span className="text-xs font-bold text-gray-500 uppercase">Step {idx + 1}</span>
+                    <div className="flex items-center gap-1">
+                      <button
+                        type="button"
+                        onClick={() => moveStep(idx, -1)}
+                        disabled={idx === 0}
+                        className="p-1.5 text-gray-400 hover:text-gray-700 hover:bg-gray-100 rounded-lg disabled:opacity-30"
+                        title="Move up"
+                      >
+                        <ArrowUp className="w-4 h-4" />
+                      </button>
+                      <button
+                        type="button"
+                        onClick={() => moveStep(idx, 1)}
+                        disabled={idx === steps.length - 1}
+                        className="p-1.5 text-gray-400 hover:text-gray-700 hover:bg-gray-100 rounded-lg disabled:opacity-30"
+                        title="Move down"
+                      >
+                        <ArrowDown className="w-4 h-4" />
+                      </button>
+                      {steps.length > 1 && (
+                        <button
+                          type="button"
+                          onClick={() => removeStep(idx)}
+                          className="p-1.5 text-gray-400 hover:text-red-500 hover:bg-red-50 rounded-lg"
+                          title="Remove step"
+                        >
+                          <Trash2 className="w-4 h-4" />
+                        </button>
+                      )}
+                    </div>
+                  </div>
+
+                  <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+                    <div className="md:col-span-2">
+                      <label className="block text-xs font-medium text-gray-600 mb-1.5">Step Name</label>
+                      <input
+                        type="text"
+                        value={step.name}
+                        onChange={(e) => updateStep(idx, { name: e.target.value })}
+                        placeholder="e.g., Friendly reminder"
+                        className="w-full border border-gray-300 rounded-lg px-3 py-2 text-sm focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                      />
+                    </div>
+                    <div>
+                      <label className="block text-xs font-medium text-gray-600 mb-1.5">Days Overdue</label>
+                      <input
+                        type="number"
+                        min={0}
+                        value={step.days_overdue}
+                        onChange={(e) => updateStep(idx, { days_overdue: parseInt(e.target.value) || 0 })}
+                        className="w-full border border-gray-300 rounded-lg px-3 py-2 text-sm focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                      />
+                    </div>
+                    <div>
+                      <label className="block text-xs font-medium text-gray-600 mb-1.5">Channel</label>
+                      <select
+                        value={step.channel}
+                        onChange={(e) => updateStep(idx, { channel: e.target.value as DunningChannel })}
+                        className="w-full border border-gray-300 rounded-lg px-3 py-2 text-sm focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                      >
+                        {(Object.keys(CHANNEL_LABELS) as DunningChannel[]).map(channel => (
+                          <option key={channel} value={channel}>{CHANNEL_LABELS[channel]}</option>
+                        ))}
+                      </select>
+                    </div>
+                    <div>
+                      <label className="block text-xs font-medium text-gray-600 mb-1.5">Email Template</label>
+                      <select
+                        value={step.template_id || ''}
+                        onChange={(e) => updateStep(idx, { template_id: e.target.value || null })}
+                        disabled={step.channel === 'ticket'}
+                        className="w-full border border-gray-300 rounded-lg px-3 py-2 text-sm focus:ring-2 focus:ring-blue-500 focus:border-blue-500 disabled:bg-gray-100 disabled:text-gray-400"
+                      >
+                        <option value="">Select template...</option>
+                        {templates.map(t => (
+                          <option key={t.id} value={t.id}>{t.name}</option>
+                        ))}
+                      </select>
+                    </div>
+                    <div>
+                      <label className="block text-xs font-medium text-gray-600 mb-1.5">Ticket Priority</label>
+                      <select
+                        value={step.ticket_priority}
+                        onChange={(e) => updateStep(idx, { ticket_priority: e.target.value })}
+                        disabled={step.channel === 'email'}
+                        className="w-full border border-gray-300 rounded-lg px-3 py-2 text-sm focus:ring-2 focus:ring-blue-500 focus:border-blue-500 disabled:bg-gray-100 disabled:text-gray-400"
+                      >
+                        <option value="low">Low</option>
+                        <option value="medium">Medium</option>
+                        <option value="high">High</option>
+                        <option value="urgent">Urgent</option>
+                      </select>
+                    </div>
+                  </div>
+
+                  <div className="mt-3">
+                    <span className="block text-xs font-medium text-gray-600 mb-1.5">Stop the sequence instead of firing if</span>
+                    <div className="flex flex-wrap gap-4">
+                      <label className="flex items-center gap-2 text-xs text-gray-700 cursor-pointer">
+                        <input
+                          type="checkbox"
+                          checked={step.stop_on_payment}
+                          onChange={(e) => updateStep(idx, { stop_on_payment: e.target.checked })}
+                          className="w-3.5 h-3.5 text-blue-600 border-gray-300 rounded focus:ring-blue-500"
+                        />
+                        Payment received
+                      </label>
+                      <label className="flex items-center gap-2 text-xs text-gray-700 cursor-pointer">
+                        <input
+                          type="checkbox"
+                          checked={step.stop_on_promise_date}
+                          onChange={(e) => updateStep(idx, { stop_on_promise_date: e.target.checked })}
+                          className="w-3.5 h-3.5 text-blue-600 border-gray-300 rounded focus:ring-blue-500"
+                        />
+                        Promise date set
+                      </label>
+                      <label className="flex items-center gap-2 text-xs text-gray-700 cursor-pointer">
+                        <input
+                          type="checkbox"
+                          checked={step.stop_on_ticket_closed}
+                          onChange={(e) => updateStep(idx, { stop_on_ticket_closed: e.target.checked })}
+                          className="w-3.5 h-3.5 text-blue-600 border-gray-300 rounded focus:ring-blue-500"
+                        />
+                        Dunning ticket closed
+                      </label>
+                    </div>
+                  </div>
+                </div>
+              ))}
+            </div>
+
+            <div className="flex items-start gap-2 p-3 bg-blue-50 rounded-lg text-xs text-blue-800">
+              <Info className="w-4 h-4 flex-shrink-0 mt-0.5" />
+              <span>
+                Templates can use {'{customer_name}'}, {'{month}'}, {'{days_overdue}'}, {'{overdue_balance}'} and {'{invoice_count}'}.
+                If a customer ages past several steps between runs, only the latest step is sent.
+              </span>
+            </div>
+          </div>
+
+          {/* Footer */}
+          <div className="px-6 py-4 flex items-center justify-end gap-3 bg-gray-50 rounded-b-xl">
+            <button
+              type="button"
+              onClick={onClose}
+              className="px-4 py-2.5 border border-gray-300 rounded-lg text-sm font-medium text-gray-700 hover:bg-gray-50 transition-colors"
+            >
+              Cancel
+            </button>
+            <button
+              type="submit"
+              disabled={saving}
+              className="flex items-center gap-2 px-5 py-2.5 bg-blue-600 text-white rounded-lg text-sm font-medium hover:bg-blue-700 disabled:opacity-50 transition-colors"
+            >
+              {saving && <Loader2 className="w-4 h-4 animate-spin" />}
+              {editingSequence ? 'Update Sequence' : 'Create Sequence'}
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+}
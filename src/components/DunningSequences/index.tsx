@@ -0,0 +1,285 @@
+import { useState, useEffect } from 'react';
+import {
+  ArrowLeft, Plus, Edit2, Trash2, Power, PowerOff, Play, Loader2,
+  Mail, Ticket, Zap, Users, Star, ChevronRight,
+} from 'lucide-react';
+import { supabase } from '../../lib/supabase';
+import { useToast } from '../../contexts/ToastContext';
+import SequenceFormModal from './SequenceFormModal';
+import {
+  DunningSequence,
+  DunningStep,
+  DunningChannel,
+  EmailTemplate,
+  CHANNEL_LABELS,
+} from './types';
+
+interface DunningSequencesPageProps {
+  onBack: () => void;
+}
+
+export default function DunningSequencesPage({ onBack }: DunningSequencesPageProps) {
+  const [sequences, setSequences] = useState<DunningSequence[]>([]);
+  const [templates, setTemplates] = useState<EmailTemplate[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [isModalOpen, setIsModalOpen] = useState(false);
+  const [editingSequence, setEditingSequence] = useState<DunningSequence | null>(null);
+  const [processing, setProcessing] = useState(false);
+
+  const { showToast } = useToast();
+
+  useEffect(() => {
+    fetchSequences();
+    fetchTemplates();
+  }, []);
+
+  const fetchSequences = async () => {
+    try {
+      const { data, error } = await supabase
+        .from('dunning_sequences')
+        .select('*, steps:dunning_steps(*)')
+        .order('created_at', { ascending: false });
+
+      if (error) throw error;
+
+      const { data: enrollments } = await supabase
+        .from('dunning_enrollments')
+        .select('sequence_id')
+        .eq('status', 'active');
+
+      const activeCounts = new Map<string, number>();
+      (enrollments || []).forEach((e: any) => {
+        activeCounts.set(e.sequence_id, (activeCounts.get(e.sequence_id) || 0) + 1);
+      });
+
+      setSequences((data || []).map((s: any) => ({
+        ...s,
+        steps: (s.steps || []).sort((a: DunningStep, b: DunningStep) => a.step_order - b.step_order),
+        active_enrollments: activeCounts.get(s.id) || 0,
+      })));
+    } catch (error: any) {
+      showToast(error.message, 'error');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const fetchTemplates = async () => {
+    try {
+      const { data, error } = await supabase
+        .from('email_templates')
+        .select('id, name, subject')
+        .order('name');
+      if (error) throw error;
+      setTemplates(data || []);
+    } catch (error: any) {
+      showToast(error.message, 'error');
+    }
+  };
+
+  const handleRunNow = async () => {
+    if (!confirm('This will advance all active dunning enrollments and send any due emails. Continue?')) return;
+    setProcessing(true);
+    try {
+      const { data, error } = await supabase.functions.invoke('process-dunning-sequences', { body: {} });
+      if (error) throw error;
+      if (!data?.success) throw new Error(data?.error || 'Failed to process sequences');
+      showToast(
+        `Enrolled ${data.enrolled} customers, sent ${data.steps_sent} steps, stopped ${data.stopped}, completed ${data.completed}.`,
+        'success'
+      );
+      fetchSequences();
+    } catch (error: any) {
+      showToast(error.message, 'error');
+    } finally {
+      setProcessing(false);
+    }
+  };
+
+  const handleToggleActive = async (sequence: DunningSequence) => {
+    try {
+      const { error } = await supabase
+        .from('dunning_sequences')
+        .update({ is_active: !sequence.is_active, updated_at: new Date().toISOString() })
+        .eq('id', sequence.id);
+      if (error) throw error;
+      showToast(`Sequence ${sequence.is_active ? 'disabled' : 'enabled'}`, 'success');
+      fetchSequences();
+    } catch (error: any) {
+      showToast(error.message, 'error');
+    }
+  };
+
+  const handleDelete = async (sequence: DunningSequence) => {
+    if (!confirm(`Delete "${sequence.name}"? All enrollments and step history for it will be removed.`)) return;
+    try {
+      const { error } = await supabase.from('dunning_sequences').delete().eq('id', sequence.id);
+      if (error) throw error;
+      showToast('Sequence deleted', 'success');
+      fetchSequences();
+    } catch (error: any) {
+      showToast(error.message, 'error');
+    }
+  };
+
+  const getChannelIcon = (channel: DunningChannel) => {
+    switch (channel) {
+      case 'email': return <Mail className="w-3.5 h-3.5" />;
+      case 'ticket': return <Ticket className="w-3.5 h-3.5" />;
+      case 'email_and_ticket': return <Zap className="w-3.5 h-3.5" />;
+    }
+  };
+
+  const templateName = (id: string | null) => templates.find(t => t.id === id)?.name;
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center h-64">
+        <Loader2 className="w-8 h-8 animate-spin text-blue-600" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex items-center justify-between flex-wrap gap-4">
+        <div className="flex items-center space-x-4">
+          <button onClick={onBack} className="p-2 hover:bg-gray-100 rounded-lg transition-colors">
+            <ArrowLeft className="w-5 h-5" />
+          </button>
+          <div>
+            <h1 className="text-2xl font-bold text-gray-900">Dunning Sequences</h1>
+            <p className="text-gray-600 mt-0.5 text-sm">
+              Escalating reminders and tickets that follow each customer's invoice aging
+            </p>
+          </div>
+        </div>
+        <div className="flex space-x-3">
+          <button
+            onClick={handleRunNow}
+            disabled={processing}
+            className="flex items-center space-x-2 px-4 py-2.5 bg-green-600 text-white rounded-lg hover:bg-green-700 disabled:opacity-50 text-sm font-medium"
+          >
+            {processing ? <Loader2 className="w-4 h-4 animate-spin" /> : <Play className="w-4 h-4" />}
+            <span>Run Now</span>
+          </button>
+          <button
+            onClick={() => { setEditingSequence(null); setIsModalOpen(true); }}
+            className="flex items-center space-x-2 px-4 py-2.5 bg-blue-600 text-white rounded-lg hover:bg-blue-700 text-sm font-medium"
+          >
+            <Plus className="w-4 h-4" />
+            <span>New Sequence</span>
+          </button>
+        </div>
+      </div>
+
+      {sequences.length === 0 ? (
+        <div className="bg-white rounded-xl border border-gray-200 p-12 text-center">
+          <div className="w-16 h-16 bg-blue-50 rounded-2xl flex items-center justify-center mx-auto mb-4">
+            <Mail className="w-8 h-8 text-blue-500" />
+          </div>
+          <h3 className="text-lg font-semibold text-gray-900 mb-2">No dunning sequences</h3>
+          <p className="text-gray-500 text-sm mb-6 max-w-md mx-auto">
+            Create a sequence such as a friendly reminder at 7 days overdue, a firm notice at 30 and a final notice with a ticket at 60.
+          </p>
+          <button
+            onClick={() => { setEditingSequence(null); setIsModalOpen(true); }}
+            className="px-5 py-2.5 bg-blue-600 text-white rounded-lg hover:bg-blue-700 text-sm font-medium"
+          >
+            Create your first sequence
+          </button>
+        </div>
+      ) : (
+        <div className="space-y-3">
+          {sequences.map((sequence) => (
+            <div
+              key={sequence.id}
+              className={`bg-white rounded-xl border border-gray-200 p-5 transition-all hover:shadow-sm ${!sequence.is_active ? 'opacity-60' : ''}`}
+            >
+              <div className="flex items-start justify-between gap-4">
+                <div className="flex-1 min-w-0">
+                  <div className="flex items-center gap-3 mb-2">
+                    <h3 className="text-sm font-semibold text-gray-900 truncate">{sequence.name}</h3>
+                    {sequence.is_default && (
+                      <span className="inline-flex items-center gap-1 px-2 py-0.5 rounded-full text-[10px] font-semibold bg-amber-100 text-amber-700 uppercase">
+                        <Star className="w-3 h-3" />
+                        Default
+                      </span>
+                    )}
+                    {!sequence.is_active && (
+                      <span className="px-2 py-0.5 rounded-full text-[10px] font-semibold bg-gray-100 text-gray-500 uppercase">
+                        Disabled
+                      </span>
+                    )}
+                    <span className="flex items-center gap-1 text-xs text-gray-500">
+                      <Users className="w-3.5 h-3.5" />
+                      {sequence.active_enrollments} active
+                    </span>
+                  </div>
+
+                  {sequence.description && (
+                    <p className="text-xs text-gray-500 mb-3 line-clamp-1">{sequence.description}</p>
+                  )}
+
+                  <div className="flex items-center flex-wrap gap-y-2">
+                    {sequence.steps.map((step, idx) => (
+                      <div key={step.id || idx} className="flex items-center">
+                        <div className="px-3 py-1.5 rounded-lg bg-gray-50 border border-gray-200">
+                          <div className="flex items-center gap-1.5 text-xs font-medium text-gray-800">
+                            {getChannelIcon(step.channel)}
+                            <span>{step.name}</span>
+                          </div>
+                          <div className="text-[11px] text-gray-500">
+                            {step.days_overdue}+ days · {CHANNEL_LABELS[step.channel]}
+                            {step.channel !== 'ticket' && templateName(step.template_id) && ` · ${templateName(step.template_id)}`}
+                          </div>
+                        </div>
+                        {idx < sequence.steps.length - 1 && (
+                          <ChevronRight className="w-4 h-4 text-gray-300 mx-1" />
+                        )}
+                      </div>
+                    ))}
+                  </div>
+                </div>
+
+                <div className="flex items-center gap-1.5 flex-shrink-0">
+                  <button
+                    onClick={() => handleToggleActive(sequence)}
+                    className={`p-2 rounded-lg transition-colors ${sequence.is_active ? 'text-green-600 hover:bg-green-50' : 'text-gray-400 hover:bg-gray-50'}`}
+                    title={sequence.is_active ? 'Disable' : 'Enable'}
+                  >
+                    {sequence.is_active ? <Power className="w-4 h-4" /> : <PowerOff className="w-4 h-4" />}
+                  </button>
+                  <button
+                    onClick={() => { setEditingSequence(sequence); setIsModalOpen(true); }}
+                    className="p-2 rounded-lg text-blue-600 hover:bg-blue-50 transition-colors"
+                    title="Edit"
+                  >
+                    <Edit2 className="w-4 h-4" />
+                  </button>
+                  <button
+                    onClick={() => handleDelete(sequence)}
+                    className="p-2 rounded-lg text-red-500 hover:bg-red-50 transition-colors"
+                    title="Delete"
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </button>
+                </div>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {isModalOpen && (
+        <SequenceFormModal
+          editingSequence={editingSequence}
+          templates={templates}
+          onClose={() => { setIsModalOpen(false); setEditingSequence(null); }}
+          onSaved={fetchSequences}
+        />
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,116 @@
+export type DunningChannel = 'email' | 'ticket' | 'email_and_ticket';
+
+export type EnrollmentStatus = 'active' | 'paused' | 'stopped' | 'completed';
+
+export interface DunningStep {
+  id?: string;
+  sequence_id?: string;
+  step_order: number;
+  name: string;
+  days_overdue: number;
+  channel: DunningChannel;
+  template_id: string | null;
+  ticket_priority: string;
+  stop_on_payment: boolean;
+  stop_on_promise_date: boolean;
+  stop_on_ticket_closed: boolean;
+}
+
+export interface DunningSequence {
+  id: string;
+  name: string;
+  description: string | null;
+  is_active: boolean;
+  is_default: boolean;
+  created_by: string | null;
+  created_at: string;
+  updated_at: string;
+  steps: DunningStep[];
+  active_enrollments?: number;
+}
+
+export interface DunningEnrollment {
+  id: string;
+  sequence_id: string;
+  customer_id: string;
+  customer_name: string | null;
+  status: EnrollmentStatus;
+  current_step_id: string | null;
+  current_step_order: number;
+  max_days_overdue: number;
+  ticket_id: string | null;
+  stopped_reason: string | null;
+  enrolled_at: string;
+  resumed_at: string | null;
+  last_step_at: string | null;
+  last_evaluated_at: string | null;
+}
+
+export interface DunningStepExecution {
+  id: string;
+  step_id: string | null;
+  step_order: number;
+  channel: DunningChannel;
+  status: 'sent' | 'skipped' | 'failed' | 'stopped';
+  days_overdue: number | null;
+  email_to: string | null;
+  email_subject: string | null;
+  ticket_id: string | null;
+  detail: string | null;
+  executed_at: string;
+}
+
+export interface EmailTemplate {
+  id: string;
+  name: string;
+  subject: string;
+}
+
+export const CHANNEL_LABELS: Record<DunningChannel, string> = {
+  email: 'Email',
+  ticket: 'Ticket',
+  email_and_ticket: 'Email + Ticket',
+};
+
+export const ENROLLMENT_STATUS_STYLES: Record<EnrollmentStatus, string> = {
+  active: 'bg-blue-100 text-blue-700',
+  paused: 'bg-yellow-100 text-yellow-700',
+  stopped: 'bg-gray-100 text-gray-600',
+  completed: 'bg-green-100 text-green-700',
+};
+
+export const DEFAULT_STEPS: DunningStep[] = [
+  {
+    step_order: 1,
+    name: 'Friendly reminder',
+    days_overdue: 7,
+    channel: 'email',
+    template_id: null,
+    ticket_priority: 'low',
+    stop_on_payment: true,
+    stop_on_promise_date: true,
+    stop_on_ticket_closed: false,
+  },
+  {
+    step_order: 2,
+    name: 'Firm notice',
+    days_overdue: 30,
+    channel: 'email',
+    template_id: null,
+    ticket_priority: 'medium',
+    stop_on_payment: true,
+    stop_on_promise_date: true,
+    stop_on_ticket_closed: false,
+  },
+  {
+    step_order: 3,
+    name: 'Final notice',
+    days_overdue: 60,
+    channel: 'email_and_ticket',
+    template_id: null,
+    ticket_priority: 'high',
+    stop_on_payment: true,
+    stop_on_promise_date: true,
+    stop_on_ticket_closed: true,
+  },
+];
@@ -1,8 +1,11 @@
 import { useState, useEffect } from 'react';
 import { useNavigate } from 'react-router-dom';
 import { supabase } from '../lib/supabase';
-import { ArrowLeft, Mail, Calendar, User, FileText, Download, AlertCircle, CheckCircle, Clock, XCircle, Edit, Send, Paperclip } from 'lucide-react';
+import { ArrowLeft, Mail, Calendar, User, FileText, Download, AlertCircle, CheckCircle, Clock, XCircle, Edit, Send, Paperclip, Users } from 'lucide-react';
 import { useAuth } from '../contexts/AuthContext';
+import AttachmentExtractionDetails from './AttachmentExtractionDetails';
+import { AttachmentExtraction, fetchExtractionsByPath } from '../lib/attachmentExtractions';
+import { CONTACT_ROLE_LABELS, ContactRole } from '../lib/customerContacts';
 
 type EmailDetailProps = {
   email: {
@@ -18,6 +21,15 @@ type EmailDetailProps = {
       name: string;
       email: string;
     } | null;
+    // The customer contact the sender address resolved to
+    customer_contacts?: {
+      id: string;
+      display_name: string;
+      job_title: string | null;
+      customer_id: string;
+      roles: ContactRole[];
+      do_not_contact: boolean;
+    } | null;
     email_analysis?: {
       detected_intent: string;
       confidence_score: number;
@@ -49,11 +61,22 @@ export default function EmailDetailView({ email, onBack }: EmailDetailProps) {
   const [sendingReply, setSendingReply] = useState(false);
   const [threadMessages, setThreadMessages] = useState<any[]>([]);
   const [loadingThread, setLoadingThread] = useState(true);
+  const [extractions, setExtractions] = useState<Map<string, AttachmentExtraction>>(new Map());
 
   useEffect(() => {
     loadThreadMessages();
+    loadExtractions();
   }, [email.id]);
 
+  const loadExtractions = async () => {
+    if (!email.customer_files?.length) return;
+    try {
+      setExtractions(await fetchExtractionsByPath(email.customer_files.map(f => f.storage_path)));
+    } catch (error) {
+      console.error('Error loading attachment extractions:', error);
+    }
+  };
+
   const loadThreadMessages = async () => {
     setLoadingThread(true);
     try {
@@ -387,8 +410,23 @@ export default function EmailDetailView({ email, onBack }: EmailDetailProps) {
                 <div className="flex flex-wrap gap-4 text-sm text-blue-600">
                   <div className="flex items-center gap-2">
                     <User size={16} />
-                    <span>{email.customers?.name || 'Unknown Sender'}</span>
+                    <span>{email.customer_contacts?.display_name || email.customers?.name || 'Unknown Sender'}</span>
                   </div>
+                  {email.customer_contacts && (
+                    <div className="flex items-center gap-2">
+                      <Users size={16} />
+                      <span>
+                        {[
+                          email.customer_contacts.job_title,
+                          email.customer_contacts.roles.map(role => CONTACT_ROLE_LABELS[role]).join(', '),
+                          `Customer ${email.customer_contacts.customer_id}`,
+                        ].filter(Boolean).join(' · ')}
+                      </span>
+                      {email.customer_contacts.do_not_contact && (
+                        <span className="px-2 py-0.5 rounded-full bg-red-100 text-red-700 text-xs font-medium">Do not contact</span>
+                      )}
+                    </div>
+                  )}
                   <div className="flex items-center gap-2">
                     <Mail size={16} />
                     <span>{email.sender_email}</span>
@@ -582,26 +620,32 @@ export default function EmailDetailView({ email, onBack }: EmailDetailProps) {
                 {email.customer_files.map((file) => (
                   <div
                     key={file.id}
-                    className="flex items-center justify-between p-4 bg-blue-50 rounded-lg border border-blue-200 hover:border-blue-300 transition-colors"
+                    className="p-4 bg-blue-50 rounded-lg border border-blue-200 hover:border-blue-300 transition-colors"
                   >
-                    <div className="flex items-center gap-3 flex-1 min-w-0">
-                      <div className="p-2 bg-green-100 rounded-lg">
-                        <FileText size={20} className="text-green-600" />
-                      </div>
-                      <div className="flex-1 min-w-0">
-                        <p className="text-blue-900 font-medium truncate">{file.filename}</p>
-                        <p className="text-xs text-blue-600">
-                          {formatFileSize(file.file_size)} • {file.mime_type}
-                        </p>
+                    <div className="flex items-center justify-between">
+                      <div className="flex items-center gap-3 flex-1 min-w-0">
+                        <div className="p-2 bg-green-100 rounded-lg">
+                          <FileText size={20} className="text-green-600" />
+                        </div>
+                        <div className="flex-1 min-w-0">
+                          <p className="text-blue-900 font-medium truncate">{file.filename}</p>
+                          <p className="text-xs text-blue-600">
+                            {formatFileSize(file.file_size)} • {file.mime_type}
+                          </p>
+                        </div>
                       </div>
+                      <button
+                        onClick={() => downloadFile(file)}
+                        className="flex items-center gap-2 px-4 py-2 bg-blue-600 hover:bg-blue-700 text-white rounded-lg transition-colors"
+                      >
+                        <Download size={16} />
+                        Download
+                      </button>
                     </div>
-                    <button
-                      onClick={() => downloadFile(file)}
-                      className="flex items-center gap-2 px-4 py-2 bg-blue-600 hover:bg-blue-700 text-white rounded-lg transition-colors"
-                    >
-                      <Download size={16} />
-                      Download
-                    </button>
+                    <AttachmentExtractionDetails
+                      extraction={extractions.get(file.storage_path)}
+                      onUpdated={loadExtractions}
+                    />
                   </div>
                 ))}
               </div>
@@ -690,7 +734,7 @@ export default function EmailDetailView({ email, onBack }: EmailDetailProps) {
             </div>
           )}
 
-          {!email.customer_id && (
+          {!email.customer_id && !email.customer_contacts && (
             <div className="p-6 border-t border-red-200 bg-red-50">
               <div className="flex items-start gap-3">
                 <AlertCircle className="text-red-600 flex-shrink-0" size={24} />
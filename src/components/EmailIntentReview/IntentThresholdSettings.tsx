@@ -0,0 +1,147 @@
+import { useState, useEffect } from 'react';
+import { Loader2, Save } from 'lucide-react';
+import { supabase } from '../../lib/supabase';
+import { useAuth } from '../../contexts/AuthContext';
+import { useToast } from '../../contexts/ToastContext';
+import { formatDateTime } from '../../lib/dateUtils';
+import { EmailIntentSetting, INTENT_LABELS } from './types';
+
+export default function IntentThresholdSettings() {
+  const { profile } = useAuth();
+  const { showToast } = useToast();
+  const canEdit = profile?.role === 'admin' || profile?.role === 'manager';
+
+  const [settings, setSettings] = useState<EmailIntentSetting[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    fetchSettings();
+  }, []);
+
+  const fetchSettings = async () => {
+    try {
+      const { data, error } = await supabase
+        .from('email_intent_settings')
+        .select('intent, auto_apply, min_confidence, postpone_days, updated_at')
+        .order('intent', { ascending: false });
+      if (error) throw error;
+      setSettings(data || []);
+    } catch (error: any) {
+      showToast(error.message, 'error');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const updateSetting = (intent: string, patch: Partial<EmailIntentSetting>) => {
+    setSettings(prev => prev.map(s => (s.intent === intent ? { ...s, ...patch } : s)));
+  };
+
+  const handleSave = async () => {
+    setSaving(true);
+    try {
+      for (const setting of settings) {
+        const { error } = await supabase
+          .from('email_intent_settings')
+          .update({
+            auto_apply: setting.auto_apply,
+            min_confidence: setting.min_confidence,
+            postpone_days: setting.postpone_days,
+            updated_by: profile?.id,
+            updated_at: new Date().toISOString(),
+          })
+          .eq('intent', setting.intent);
+        if (error) throw error;
+      }
+      showToast('Thresholds saved. They apply to the next inbound email.', 'success');
+      await fetchSettings();
+    } catch (error: any) {
+      showToast(error.message, 'error');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center h-32">
+        <Loader2 className="w-6 h-6 animate-spin text-blue-600" />
+      </div>
+    );
+  }
+
+  const lastChanged = settings.map(s => s.updated_at).sort().pop();
+
+  return (
+    <div className="bg-white rounded-lg border border-slate-200 p-6 space-y-5">
+      <div>
+        <h3 className="text-lg font-semibold text-slate-900">Confidence Thresholds</h3>
+        <p className="text-sm text-slate-600 mt-0.5">
+          An intent is acted on without review only when auto-apply is on and the AI is at least this confident.
+          Everything else waits in the review queue.
+        </p>
+      </div>
+      <div className="divide-y divide-slate-100">
+        {settings.map(setting => (
+          <div key={setting.intent} className="py-4 grid grid-cols-1 sm:grid-cols-3 gap-4 items-center">
+            <div>
+              <p className="text-sm font-medium text-slate-900">{INTENT_LABELS[setting.intent]}</p>
+              <p className="text-xs text-slate-500">
+                {setting.intent === 'stop' ? 'Deactivates the customer' : 'Pauses emails to the customer'}
+              </p>
+            </div>
+            <label className="flex items-center gap-2 text-sm text-slate-700">
+              <input
+                type="checkbox"
+                checked={setting.auto_apply}
+                disabled={!canEdit}
+                onChange={(e) => updateSetting(setting.intent, { auto_apply: e.target.checked })}
+                className="rounded border-slate-300"
+              />
+              Auto-apply at
+              <input
+                type="number"
+                min={0}
+                max={100}
+                value={Math.round(Number(setting.min_confidence) * 100)}
+                disabled={!canEdit || !setting.auto_apply}
+                onChange={(e) => updateSetting(setting.intent, { min_confidence: Math.min(Math.max(Number(e.target.value), 0), 100) / 100 })}
+                className="w-20 px-2 py-1.5 border border-slate-300 rounded-lg text-sm disabled:bg-slate-50"
+              />
+              %
+            </label>
+            {setting.intent === 'postpone' && (
+              <label className="flex items-center gap-2 text-sm text-slate-700">
+                Pause for
+                <input
+                  type="number"
+                  min={1}
+                  max={90}
+                  value={setting.postpone_days ?? 7}
+                  disabled={!canEdit}
+                  onChange={(e) => updateSetting(setting.intent, { postpone_days: Number(e.target.value) })}
+                  className="w-20 px-2 py-1.5 border border-slate-300 rounded-lg text-sm disabled:bg-slate-50"
+                />
+                days
+              </label>
+            )}
+          </div>
+        ))}
+      </div>
+      <div className="flex items-center justify-between">
+        <span className="text-xs text-slate-400">{lastChanged && `Last changed ${formatDateTime(lastChanged)}`}</span>
+        {canEdit && (
+          <button
+            onClick={handleSave}
+            disabled={saving}
+            className="flex items-center gap-1.5 px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50 text-sm font-medium"
+          >
+            {saving ? <Loader2 className="w-4 h-4 animate-spin" /> : <Save className="w-4 h-4" />}
+            Save Thresholds
+          </button>
+        )}
+      </div>
+    </div>
+  );
+}
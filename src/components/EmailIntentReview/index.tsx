@@ -0,0 +1,340 @@
+import { useState, useEffect } from 'react';
+import { Check, X, Edit2, Undo2, Loader2, Mail, Bot, User } from 'lucide-react';
+import { supabase } from '../../lib/supabase';
+import { useToast } from '../../contexts/ToastContext';
+import { usePermissions } from '../../contexts/PermissionsContext';
+import { PERMISSIONS } from '../../lib/permissions';
+import { formatDateTime } from '../../lib/dateUtils';
+import IntentThresholdSettings from './IntentThresholdSettings';
+import {
+  EmailIntentAction,
+  IntentChanges,
+  StaffMember,
+  INTENT_LABELS,
+  STATUS_LABELS,
+  STATUS_STYLES,
+  describeChanges,
+  restoredValues,
+  formatConfidence,
+} from './types';
+
+interface EmailIntentReviewProps {
+  onOpenEmail: (emailId: string) => void;
+  onPendingCountChange?: (count: number) => void;
+}
+
+type Tab = 'pending' | 'log' | 'settings';
+
+interface EditState {
+  actionId: string;
+  mode: 'deactivate' | 'postpone';
+  postponeUntil: string;
+  reason: string;
+}
+
+const ACTION_SELECT = `
+  *,
+  customers (name, email),
+  inbound_emails (subject, sender_email, body, received_at)
+`;
+
+export default function EmailIntentReview({ onOpenEmail, onPendingCountChange }: EmailIntentReviewProps) {
+  const { showToast } = useToast();
+  const { can } = usePermissions();
+  const canReview = can(PERMISSIONS.EMAIL_INTENT_REVIEW, 'edit');
+
+  const [tab, setTab] = useState<Tab>('pending');
+  const [actions, setActions] = useState<EmailIntentAction[]>([]);
+  const [staff, setStaff] = useState<StaffMember[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const [notes, setNotes] = useState<Record<string, string>>({});
+  const [editing, setEditing] = useState<EditState | null>(null);
+
+  useEffect(() => {
+    if (tab === 'settings') return;
+    fetchActions();
+  }, [tab]);
+
+  useEffect(() => {
+    supabase
+      .from('user_profiles')
+      .select('id, full_name, email')
+      .then(({ data }) => setStaff(data || []));
+  }, []);
+
+  const fetchActions = async () => {
+    setLoading(true);
+    try {
+      let query = supabase.from('email_intent_actions').select(ACTION_SELECT);
+      query = tab === 'pending'
+        ? query.eq('status', 'pending').order('created_at', { ascending: true })
+        : query.neq('status', 'pending').order('created_at', { ascending: false }).limit(200);
+      const { data, error } = await query;
+      if (error) throw error;
+      setActions(data || []);
+      if (tab === 'pending') onPendingCountChange?.((data || []).length);
+    } catch (error: any) {
+      showToast(error.message, 'error');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const staffName = (id: string | null) => {
+    if (!id) return 'Automatically';
+    const member = staff.find(s => s.id === id);
+    return member ? member.full_name || member.email : 'Unknown user';
+  };
+
+  const startEdit = (action: EmailIntentAction) => {
+    const until = action.proposed_changes.postpone_until || new Date(Date.now() + 7 * 86400000).toISOString();
+    setEditing({
+      actionId: action.id,
+      mode: action.action_type === 'deactivate_customer' ? 'deactivate' : 'postpone',
+      postponeUntil: until.slice(0, 10),
+      reason: action.proposed_changes.postpone_reason || 'Customer requested more time',
+    });
+  };
+
+  const editedChanges = (edit: EditState): IntentChanges =>
+    edit.mode === 'deactivate'
+      ? { is_active: false }
+      : { postpone_until: new Date(edit.postponeUntil).toISOString(), postpone_reason: edit.reason.trim() || null };
+
+  const runAction = async (actionId: string, rpc: string, params: Record<string, unknown>, success: string) => {
+    setBusyId(actionId);
+    try {
+      const { error } = await supabase.rpc(rpc, { p_action_id: actionId, p_note: notes[actionId]?.trim() || null, ...params });
+      if (error) throw error;
+      showToast(success, 'success');
+      setEditing(null);
+      setNotes(prev => ({ ...prev, [actionId]: '' }));
+      await fetchActions();
+    } catch (error: any) {
+      showToast(error.message, 'error');
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const handleApprove = (action: EmailIntentAction) => {
+    const changes = editing?.actionId === action.id ? editedChanges(editing) : null;
+    if (changes?.postpone_until && isNaN(Date.parse(changes.postpone_until))) {
+      showToast('Pick a date to pause emails until', 'error');
+      return;
+    }
+    runAction(action.id, 'approve_email_intent_action', { p_changes: changes }, 'Action applied');
+  };
+
+  const handleUndo = (action: EmailIntentAction) => {
+    if (!confirm(`Undo "${describeChanges(action.applied_changes)}" for ${action.customers?.name || 'this customer'}?`)) return;
+    runAction(action.id, 'undo_email_intent_action', {}, 'Action undone; the customer\'s previous settings are restored');
+  };
+
+  const tabs: { id: Tab; label: string }[] = [
+    { id: 'pending', label: 'Needs Review' },
+    { id: 'log', label: 'Audit Log' },
+    { id: 'settings', label: 'Thresholds' },
+  ];
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center gap-1 border-b border-slate-200">
+        {tabs.map(t => (
+          <button
+            key={t.id}
+            onClick={() => setTab(t.id)}
+            className={`px-4 py-2 text-sm font-medium border-b-2 -mb-px transition-colors ${
+              tab === t.id ? 'border-blue-600 text-blue-700' : 'border-transparent text-slate-600 hover:text-slate-900'
+            }`}
+          >
+            {t.label}
+          </button>
+        ))}
+      </div>
+
+      {tab === 'settings' ? (
+        <IntentThresholdSettings />
+      ) : loading ? (
+        <div className="text-center py-16">
+          <Loader2 className="animate-spin text-blue-600 mx-auto" size={32} />
+        </div>
+      ) : actions.length === 0 ? (
+        <div className="text-center py-16 bg-white rounded-lg border border-slate-200">
+          <Bot className="text-slate-300 mx-auto mb-4" size={48} />
+          <p className="text-slate-600">
+            {tab === 'pending' ? 'Nothing waiting for review' : 'No AI email actions yet'}
+          </p>
+        </div>
+      ) : (
+        <div className="space-y-3">
+          {actions.map(action => {
+            const isEditing = editing?.actionId === action.id;
+            const busy = busyId === action.id;
+            return (
+              <div key={action.id} className="bg-white rounded-lg border border-slate-200 p-5 space-y-3">
+                <div className="flex items-start justify-between gap-4">
+                  <div className="min-w-0">
+                    <div className="flex items-center gap-2 flex-wrap">
+                      <span className="font-medium text-slate-900">{action.customers?.name || 'Unknown customer'}</span>
+                      <span className="px-2 py-0.5 rounded text-xs font-medium bg-purple-100 text-purple-800">
+                        {INTENT_LABELS[action.intent]} · {formatConfidence(action.confidence)}
+                      </span>
+                      <span className={`px-2 py-0.5 rounded text-xs font-medium ${STATUS_STYLES[action.status]}`}>
+                        {STATUS_LABELS[action.status]}
+                      </span>
+                    </div>
+                    <button
+                      onClick={() => onOpenEmail(action.inbound_email_id)}
+                      className="flex items-center gap-1.5 text-sm text-blue-600 hover:underline mt-1 max-w-full"
+                    >
+                      <Mail size={14} className="flex-shrink-0" />
+                      <span className="truncate">{action.inbound_emails?.subject || '(No Subject)'}</span>
+                    </button>
+                    {action.inbound_emails?.body && (
+                      <p className="text-xs text-slate-500 mt-1 line-clamp-2">{action.inbound_emails.body.substring(0, 240)}</p>
+                    )}
+                  </div>
+                  <span className="text-xs text-slate-500 flex-shrink-0">{formatDateTime(action.created_at)}</span>
+                </div>
+
+                {action.reasoning && (
+                  <p className="text-sm text-slate-600 bg-slate-50 rounded-lg px-3 py-2">
+                    <span className="font-medium text-slate-700">AI reasoning: </span>{action.reasoning}
+                  </p>
+                )}
+
+                {action.status === 'pending' ? (
+                  <>
+                    {isEditing ? (
+                      <div className="border border-slate-200 rounded-lg p-3 space-y-2">
+                        <label className="flex items-center gap-2 text-sm text-slate-700">
+                          <input
+                            type="radio"
+                            checked={editing.mode === 'deactivate'}
+                            onChange={() => setEditing({ ...editing, mode: 'deactivate' })}
+                          />
+                          Deactivate the customer (stop all outreach)
+                        </label>
+                        <label className="flex items-center gap-2 text-sm text-slate-700 flex-wrap">
+                          <input
+                            type="radio"
+                            checked={editing.mode === 'postpone'}
+                            onChange={() => setEditing({ ...editing, mode: 'postpone' })}
+                          />
+                          Pause emails until
+                          <input
+                            type="date"
+                            value={editing.postponeUntil}
+                            disabled={editing.mode !== 'postpone'}
+                            onChange={(e) => setEditing({ ...editing, postponeUntil: e.target.value })}
+                            className="px-2 py-1 border border-slate-300 rounded-lg text-sm disabled:bg-slate-50"
+                          />
+                        </label>
+                        {editing.mode === 'postpone' && (
+                          <input
+                            type="text"
+                            value={editing.reason}
+                            onChange={(e) => setEditing({ ...editing, reason: e.target.value })}
+                            placeholder="Reason shown on the customer"
+                            className="w-full px-3 py-1.5 border border-slate-300 rounded-lg text-sm"
+                          />
+                        )}
+                      </div>
+                    ) : (
+                      <p className="text-sm text-slate-800">
+                        <span className="font-medium">Proposed: </span>{describeChanges(action.proposed_changes)}
+                      </p>
+                    )}
+                    {canReview && (
+                      <div className="flex items-center gap-2 flex-wrap">
+                        <input
+                          type="text"
+                          value={notes[action.id] || ''}
+                          onChange={(e) => setNotes(prev => ({ ...prev, [action.id]: e.target.value }))}
+                          placeholder="Note (optional)"
+                          className="flex-1 min-w-[12rem] px-3 py-1.5 border border-slate-300 rounded-lg text-sm"
+                        />
+                        <button
+                          onClick={() => runAction(action.id, 'reject_email_intent_action', {}, 'Action rejected; nothing was changed')}
+                          disabled={busy}
+                          className="flex items-center gap-1.5 px-3 py-1.5 border border-slate-300 text-slate-700 rounded-lg hover:bg-slate-50 disabled:opacity-50 text-sm"
+                        >
+                          <X size={16} />
+                          Reject
+                        </button>
+                        {isEditing ? (
+                          <button
+                            onClick={() => setEditing(null)}
+                            className="px-3 py-1.5 text-sm text-slate-600 hover:text-slate-900"
+                          >
+                            Cancel Edit
+                          </button>
+                        ) : (
+                          <button
+                            onClick={() => startEdit(action)}
+                            className="flex items-center gap-1.5 px-3 py-1.5 border border-slate-300 text-slate-700 rounded-lg hover:bg-slate-50 text-sm"
+                          >
+                            <Edit2 size={16} />
+                            Edit
+                          </button>
+                        )}
+                        <button
+                          onClick={() => handleApprove(action)}
+                          disabled={busy}
+                          className="flex items-center gap-1.5 px-3 py-1.5 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50 text-sm font-medium"
+                        >
+                          {busy ? <Loader2 size={16} className="animate-spin" /> : <Check size={16} />}
+                          {isEditing ? 'Apply Edited' : 'Approve'}
+                        </button>
+                      </div>
+                    )}
+                  </>
+                ) : (
+                  <div className="text-sm text-slate-700 space-y-1">
+                    {action.status !== 'rejected' && (
+                      <p><span className="font-medium">Applied: </span>{describeChanges(action.applied_changes)}</p>
+                    )}
+                    <p className="flex items-center gap-1.5 text-slate-600">
+                      {action.decided_by ? <User size={14} /> : <Bot size={14} />}
+                      {action.status === 'rejected' ? 'Rejected' : 'Applied'} {action.decided_by ? `by ${staffName(action.decided_by)}` : 'automatically'}
+                      {action.decided_at && ` on ${formatDateTime(action.decided_at)}`}
+                      {action.decision_note && ` · ${action.decision_note}`}
+                    </p>
+                    {action.status === 'undone' && (
+                      <p className="text-slate-600">
+                        Undone by {staffName(action.undone_by)}{action.undone_at && ` on ${formatDateTime(action.undone_at)}`}
+                        {action.undo_note && ` · ${action.undo_note}`}
+                        {' '}(restored: {describeChanges(restoredValues(action))})
+                      </p>
+                    )}
+                    {action.status === 'applied' && canReview && (
+                      <div className="flex items-center gap-2 pt-1">
+                        <input
+                          type="text"
+                          value={notes[action.id] || ''}
+                          onChange={(e) => setNotes(prev => ({ ...prev, [action.id]: e.target.value }))}
+                          placeholder="Why is this being undone? (optional)"
+                          className="flex-1 px-3 py-1.5 border border-slate-300 rounded-lg text-sm"
+                        />
+                        <button
+                          onClick={() => handleUndo(action)}
+                          disabled={busy}
+                          className="flex items-center gap-1.5 px-3 py-1.5 border border-amber-300 text-amber-800 rounded-lg hover:bg-amber-50 disabled:opacity-50 text-sm"
+                        >
+                          {busy ? <Loader2 size={16} className="animate-spin" /> : <Undo2 size={16} />}
+                          Undo
+                        </button>
+                      </div>
+                    )}
+                  </div>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+}
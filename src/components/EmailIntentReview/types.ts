@@ -0,0 +1,95 @@
+import { formatDate } from '../../lib/dateUtils';
+
+export type IntentActionStatus = 'pending' | 'applied' | 'rejected' | 'undone';
+
+export type IntentActionType = 'deactivate_customer' | 'postpone_emails';
+
+export type ReviewableIntent = 'stop' | 'postpone';
+
+export interface IntentChanges {
+  is_active?: boolean | null;
+  postpone_until?: string | null;
+  postpone_reason?: string | null;
+}
+
+export interface EmailIntentAction {
+  id: string;
+  inbound_email_id: string;
+  customer_id: string;
+  intent: ReviewableIntent;
+  action_type: IntentActionType;
+  confidence: number | null;
+  reasoning: string | null;
+  proposed_changes: IntentChanges;
+  applied_changes: IntentChanges | null;
+  previous_values: IntentChanges | null;
+  status: IntentActionStatus;
+  applied_automatically: boolean;
+  decided_by: string | null;
+  decided_at: string | null;
+  decision_note: string | null;
+  undone_by: string | null;
+  undone_at: string | null;
+  undo_note: string | null;
+  created_at: string;
+  customers?: { name: string; email: string } | null;
+  inbound_emails?: { subject: string; sender_email: string; body: string; received_at: string } | null;
+}
+
+export interface EmailIntentSetting {
+  intent: ReviewableIntent;
+  auto_apply: boolean;
+  min_confidence: number;
+  postpone_days: number | null;
+  updated_at: string;
+}
+
+export interface StaffMember {
+  id: string;
+  full_name: string | null;
+  email: string;
+}
+
+export const INTENT_LABELS: Record<ReviewableIntent, string> = {
+  stop: 'Stop emails',
+  postpone: 'Needs more time',
+};
+
+export const STATUS_LABELS: Record<IntentActionStatus, string> = {
+  pending: 'Pending',
+  applied: 'Applied',
+  rejected: 'Rejected',
+  undone: 'Undone',
+};
+
+export const STATUS_STYLES: Record<IntentActionStatus, string> = {
+  pending: 'bg-amber-100 text-amber-800',
+  applied: 'bg-green-100 text-green-800',
+  rejected: 'bg-slate-100 text-slate-700',
+  undone: 'bg-blue-100 text-blue-800',
+};
+
+export function describeChanges(changes: IntentChanges | null): string {
+  if (!changes) return '—';
+  const parts: string[] = [];
+  if (changes.is_active === false) parts.push('Deactivate customer (stop all outreach)');
+  if (changes.is_active === true) parts.push('Reactivate customer');
+  if ('postpone_until' in changes) {
+    parts.push(changes.postpone_until ? `Pause emails until ${formatDate(changes.postpone_until)}` : 'Clear email pause');
+  }
+  return parts.join(' · ') || '—';
+}
+
+// The values an undo put back: the previous value of each column the action changed
+export function restoredValues(action: EmailIntentAction): IntentChanges | null {
+  if (!action.previous_values || !action.applied_changes) return null;
+  const restored: IntentChanges = {};
+  for (const key of Object.keys(action.applied_changes) as (keyof IntentChanges)[]) {
+    (restored as Record<string, unknown>)[key] = action.previous_values[key] ?? null;
+  }
+  return restored;
+}
+
+export function formatConfidence(confidence: number | null): string {
+  return confidence == null ? '—' : `${Math.round(Number(confidence) * 100)}%`;
+}
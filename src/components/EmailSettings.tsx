@@ -38,6 +38,8 @@ interface EmailSettingsData {
   inbound_parse_subdomain: string;
   sendgrid_tracking_clicks: boolean;
   sendgrid_tracking_opens: boolean;
+  reopen_ticket_on_reply: boolean;
+  notify_collector_on_reply: boolean;
   updated_at: string;
   updated_by: string | null;
 }
@@ -105,6 +107,8 @@ export default function EmailSettings() {
           inbound_parse_subdomain: settings.inbound_parse_subdomain,
           sendgrid_tracking_clicks: settings.sendgrid_tracking_clicks,
           sendgrid_tracking_opens: settings.sendgrid_tracking_opens,
+          reopen_ticket_on_reply: settings.reopen_ticket_on_reply,
+          notify_collector_on_reply: settings.notify_collector_on_reply,
           updated_by: user.id,
           updated_at: new Date().toISOString(),
         })
@@ -715,6 +719,56 @@ export default function EmailSettings() {
             </label>
           </div>
         </div>
+
+        <div className="bg-white border border-slate-200 rounded-2xl p-6 shadow-sm">
+          <div className="flex items-center gap-3 mb-6">
+            <div className="w-10 h-10 rounded-xl bg-indigo-50 flex items-center justify-center">
+              <MessageSquare className="w-5 h-5 text-indigo-600" />
+            </div>
+            <div>
+              <h2 className="text-lg font-semibold text-slate-900">Ticket Replies</h2>
+              <p className="text-xs text-slate-500">Customer replies to ticket emails are added to the ticket timeline</p>
+            </div>
+          </div>
+          <div className="space-y-4">
+            <label className="flex items-center justify-between p-3 bg-slate-50 rounded-xl cursor-pointer hover:bg-slate-100 transition-colors">
+              <div className="flex items-center gap-3">
+                <RefreshCw className="w-4 h-4 text-slate-500" />
+                <div>
+                  <p className="text-sm font-medium text-slate-700">Reopen on Reply</p>
+                  <p className="text-xs text-slate-400">Set resolved or closed tickets back to open when the customer replies</p>
+                </div>
+              </div>
+              <div className="relative">
+                <input
+                  type="checkbox"
+                  checked={settings.reopen_ticket_on_reply}
+                  onChange={(e) => updateField('reopen_ticket_on_reply', e.target.checked)}
+                  className="sr-only peer"
+                />
+                <div className="w-11 h-6 bg-slate-200 peer-focus:ring-2 peer-focus:ring-blue-300 rounded-full peer peer-checked:after:translate-x-full rtl:peer-checked:after:-translate-x-full peer-checked:after:border-white after:content-[''] after:absolute after:top-[2px] after:start-[2px] after:bg-white after:border-slate-300 after:border after:rounded-full after:h-5 after:w-5 after:transition-all peer-checked:bg-blue-600"></div>
+              </div>
+            </label>
+            <label className="flex items-center justify-between p-3 bg-slate-50 rounded-xl cursor-pointer hover:bg-slate-100 transition-colors">
+              <div className="flex items-center gap-3">
+                <Mail className="w-4 h-4 text-slate-500" />
+                <div>
+                  <p className="text-sm font-medium text-slate-700">Notify Collector</p>
+                  <p className="text-xs text-slate-400">Send the assigned collector a reminder and email when a reply arrives</p>
+                </div>
+              </div>
+              <div className="relative">
+                <input
+                  type="checkbox"
+                  checked={settings.notify_collector_on_reply}
+                  onChange={(e) => updateField('notify_collector_on_reply', e.target.checked)}
+                  className="sr-only peer"
+                />
+                <div className="w-11 h-6 bg-slate-200 peer-focus:ring-2 peer-focus:ring-blue-300 rounded-full peer peer-checked:after:translate-x-full rtl:peer-checked:after:-translate-x-full peer-checked:after:border-white after:content-[''] after:absolute after:top-[2px] after:start-[2px] after:bg-white after:border-slate-300 after:border after:rounded-full after:h-5 after:w-5 after:transition-all peer-checked:bg-blue-600"></div>
+              </div>
+            </label>
+          </div>
+        </div>
       </div>
 
       <div className="mt-8">
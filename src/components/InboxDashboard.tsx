@@ -4,10 +4,13 @@ import { supabase } from '../lib/supabase';
 import {
   ArrowLeft, Mail, RefreshCw, Inbox, Star, Archive, Trash2,
   AlertOctagon, Send, Calendar, Paperclip, Search, Tag,
-  MoreVertical, ChevronDown, Clock, LogOut, User
+  MoreVertical, ChevronDown, Clock, LogOut, User, Bot
 } from 'lucide-react';
 import EmailDetailView from './EmailDetailView';
+import EmailIntentReview from './EmailIntentReview';
 import { useAuth } from '../contexts/AuthContext';
+import { usePermissions } from '../contexts/PermissionsContext';
+import { PERMISSIONS } from '../lib/permissions';
 
 type InboundEmail = {
   id: string;
@@ -46,6 +49,8 @@ type InboxDashboardProps = {
 
 export default function InboxDashboard({ onBack }: InboxDashboardProps) {
   const { user, signOut } = useAuth();
+  const { can } = usePermissions();
+  const canSeeIntentReview = can(PERMISSIONS.EMAIL_INTENT_REVIEW);
   const navigate = useNavigate();
   const location = useLocation();
   const handleBack = onBack || (() => navigate(-1));
@@ -59,6 +64,8 @@ export default function InboxDashboard({ onBack }: InboxDashboardProps) {
   const [hasMore, setHasMore] = useState(true);
   const [openMenuId, setOpenMenuId] = useState<string | null>(null);
   const [unreadCounts, setUnreadCounts] = useState<Record<string, number>>({});
+  const [showIntentReview, setShowIntentReview] = useState(false);
+  const [pendingReviewCount, setPendingReviewCount] = useState(0);
   const PAGE_SIZE = 20;
 
   // Advanced search filters
@@ -77,7 +84,7 @@ export default function InboxDashboard({ onBack }: InboxDashboardProps) {
     loadUnreadCounts();
     const interval = setInterval(loadUnreadCounts, 30000);
     return () => clearInterval(interval);
-  }, []);
+  }, [canSeeIntentReview]);
 
   useEffect(() => {
     const handleClickOutside = () => {
@@ -96,24 +103,29 @@ export default function InboxDashboard({ onBack }: InboxDashboardProps) {
     if (!targetId) return;
 
     (async () => {
-      const { data, error } = await supabase
-        .from('inbound_emails')
-        .select(`
-          *,
-          customers (id, name, email),
-          email_analysis (detected_intent, confidence_score, action_taken, reasoning),
-          customer_files (id, filename)
-        `)
-        .eq('id', targetId)
-        .maybeSingle();
-
-      if (!error && data) {
-        setSelectedEmail(data as any);
-      }
+      await openEmailById(targetId);
       window.history.replaceState({}, document.title);
     })();
   }, [location.state]);
 
+  const openEmailById = async (emailId: string) => {
+    const { data, error } = await supabase
+      .from('inbound_emails')
+      .select(`
+        *,
+        customers (id, name, email),
+        customer_contacts (id, display_name, job_title, customer_id, roles, do_not_contact),
+        email_analysis (detected_intent, confidence_score, action_taken, reasoning),
+        customer_files (id, filename)
+      `)
+      .eq('id', emailId)
+      .maybeSingle();
+
+    if (!error && data) {
+      setSelectedEmail(data as any);
+    }
+  };
+
   const loadEmails = async (reset = false) => {
     setLoading(true);
     try {
@@ -175,6 +187,7 @@ export default function InboxDashboard({ onBack }: InboxDashboardProps) {
           .select(`
             *,
             customers (id, name, email),
+            customer_contacts (id, display_name, job_title, customer_id, roles, do_not_contact),
             email_analysis (detected_intent, confidence_score, action_taken, reasoning),
             customer_files (id, filename)
           `);
@@ -249,6 +262,7 @@ export default function InboxDashboard({ onBack }: InboxDashboardProps) {
           .select(`
             *,
             customers (id, name, email),
+            customer_contacts (id, display_name, job_title, customer_id, roles, do_not_contact),
             email_analysis (detected_intent, confidence_score, action_taken, reasoning),
             customer_files (id, filename)
           `)
@@ -381,6 +395,7 @@ export default function InboxDashboard({ onBack }: InboxDashboardProps) {
           .select(`
             *,
             customers (id, name, email),
+            customer_contacts (id, display_name, job_title, customer_id, roles, do_not_contact),
             email_analysis (detected_intent, confidence_score, action_taken, reasoning),
             customer_files (id, filename)
           `);
@@ -441,6 +456,15 @@ export default function InboxDashboard({ onBack }: InboxDashboardProps) {
       }
 
       setUnreadCounts(counts);
+
+      if (canSeeIntentReview) {
+        const { count, error } = await supabase
+          .from('email_intent_actions')
+          .select('*', { count: 'exact', head: true })
+          .eq('status', 'pending');
+
+        if (!error) setPendingReviewCount(count || 0);
+      }
     } catch (error) {
       console.error('Error loading unread counts:', error);
     }
@@ -515,9 +539,12 @@ export default function InboxDashboard({ onBack }: InboxDashboardProps) {
           {folders.map(folder => (
             <button
               key={folder.id}
-              onClick={() => setCurrentFolder(folder.id)}
+              onClick={() => {
+                setShowIntentReview(false);
+                setCurrentFolder(folder.id);
+              }}
               className={`w-full flex items-center gap-3 px-4 py-2.5 rounded-lg transition-colors ${
-                currentFolder === folder.id
+                currentFolder === folder.id && !showIntentReview
                   ? 'bg-blue-50 text-blue-700 font-medium'
                   : 'text-slate-700 hover:bg-slate-100'
               }`}
@@ -526,7 +553,7 @@ export default function InboxDashboard({ onBack }: InboxDashboardProps) {
               <span className="flex-1 text-left text-sm">{folder.label}</span>
               {folder.count > 0 && (
                 <span className={`text-xs px-2 py-0.5 rounded-full ${
-                  currentFolder === folder.id
+                  currentFolder === folder.id && !showIntentReview
                     ? 'bg-blue-200 text-blue-800'
                     : 'bg-slate-200 text-slate-600'
                 }`}>
@@ -535,6 +562,27 @@ export default function InboxDashboard({ onBack }: InboxDashboardProps) {
               )}
             </button>
           ))}
+
+          {canSeeIntentReview && (
+            <div className="pt-3 mt-3 border-t border-slate-200">
+              <button
+                onClick={() => setShowIntentReview(true)}
+                className={`w-full flex items-center gap-3 px-4 py-2.5 rounded-lg transition-colors ${
+                  showIntentReview
+                    ? 'bg-blue-50 text-blue-700 font-medium'
+                    : 'text-slate-700 hover:bg-slate-100'
+                }`}
+              >
+                <Bot size={20} />
+                <span className="flex-1 text-left text-sm">AI Review</span>
+                {pendingReviewCount > 0 && (
+                  <span className="text-xs px-2 py-0.5 rounded-full bg-amber-200 text-amber-800">
+                    {pendingReviewCount}
+                  </span>
+                )}
+              </button>
+            </div>
+          )}
         </nav>
       </div>
 
@@ -655,6 +703,18 @@ export default function InboxDashboard({ onBack }: InboxDashboardProps) {
 
         <div className="flex-1 overflow-auto">
           <div className="max-w-5xl mx-auto p-6">
+            {showIntentReview ? (
+              <>
+                <div className="mb-4">
+                  <h2 className="text-xl font-semibold text-slate-900">AI Review</h2>
+                  <p className="text-sm text-slate-600">
+                    Stop and postpone requests the AI was not confident enough to act on, and every action it took
+                  </p>
+                </div>
+                <EmailIntentReview onOpenEmail={openEmailById} onPendingCountChange={setPendingReviewCount} />
+              </>
+            ) : (
+            <>
             <div className="flex items-center justify-between mb-4">
               <h2 className="text-xl font-semibold text-slate-900 capitalize">
                 {currentFolder}
@@ -834,6 +894,8 @@ export default function InboxDashboard({ onBack }: InboxDashboardProps) {
                 )}
               </>
             )}
+            </>
+            )}
           </div>
         </div>
       </div>
@@ -2,6 +2,7 @@ import { useState, useEffect, useMemo, useRef, useCallback, Fragment } from 'rea
 import { useNavigate, useParams } from 'react-router-dom';
 import { ArrowLeft, Calendar, ChevronLeft, ChevronRight, TrendingUp, DollarSign, Users, FileText, RefreshCw, ArrowUpDown, Search, Download, Filter, X, ExternalLink, Check, Save, Settings, Ban, UserMinus, ChevronDown, Clock } from 'lucide-react';
 import { supabase } from '../lib/supabase';
+import { fetchDisputedInvoiceRefs } from '../lib/invoiceDisputes';
 import { getAcumaticaInvoiceUrl } from '../lib/acumaticaLinks';
 import { usePageCache } from '../contexts/PageCacheContext';
 import { useAuth } from '../contexts/AuthContext';
@@ -98,6 +99,9 @@ export default function InvoiceAnalyticsPage() {
   const [monthlyOpenCmCount, setMonthlyOpenCmCount] = useState(() => c?.monthlyOpenCmCount ?? 0);
   const [monthlyOpenDmBalance, setMonthlyOpenDmBalance] = useState(() => c?.monthlyOpenDmBalance ?? 0);
   const [monthlyOpenDmCount, setMonthlyOpenDmCount] = useState(() => c?.monthlyOpenDmCount ?? 0);
+  const [monthlyDisputedBalance, setMonthlyDisputedBalance] = useState(0);
+  const [monthlyDisputedCount, setMonthlyDisputedCount] = useState(0);
+  const [disputedRefs, setDisputedRefs] = useState<Set<string>>(new Set());
 
   const [customerNameMap, setCustomerNameMap] = useState<Map<string, string>>(new Map());
 
@@ -451,6 +455,12 @@ export default function InvoiceAnalyticsPage() {
     return () => { cancelled = true; };
   }, [calendarView, selectedYear, filterStatus, filterType, selectedCustomers, excludedCustomers, dateFrom, dateTo]);
 
+  useEffect(() => {
+    fetchDisputedInvoiceRefs()
+      .then(setDisputedRefs)
+      .catch(error => console.error('Error loading disputed invoices:', error));
+  }, []);
+
   useEffect(() => {
     if (calendarView === 'daily' || (calendarView === 'yearly' && loadedYearInvoices !== null)) {
       const invoicesAndDms = allFilteredInvoices.filter(i => i.type === 'Invoice' || i.type === 'Debit Memo');
@@ -460,6 +470,9 @@ export default function InvoiceAnalyticsPage() {
       const customers = new Set(allFilteredInvoices.map(i => i.customer).filter(Boolean));
       const openInvAndDm = invoicesAndDms.filter(i => i.status === 'Open' || i.status === 'Balanced' || i.status === 'Credit Hold');
       const openInvAndDmBal = openInvAndDm.reduce((s, i) => s + i.balance, 0);
+      // Disputed invoices still count toward the open balance but are reported as their own category.
+      const disputed = openInvAndDm.filter(i => disputedRefs.has(i.reference_number));
+      const disputedBal = disputed.reduce((s, i) => s + i.balance, 0);
       const openCms = cms.filter(i => i.status === 'Open' || i.status === 'Balanced' || i.status === 'Credit Hold');
       const openCmBal = openCms.reduce((s, i) => s + i.balance, 0);
       setMonthlyTotal(total);
@@ -468,8 +481,10 @@ export default function InvoiceAnalyticsPage() {
       setMonthlyCustomerCount(customers.size);
       setMonthlyCreditMemoTotal(cmTotal);
       setMonthlyCreditMemoCount(cms.length);
-      setMonthlyOpenInvBalance(openInvAndDmBal);
-      setMonthlyOpenInvCount(openInvAndDm.length);
+      setMonthlyOpenInvBalance(openInvAndDmBal - disputedBal);
+      setMonthlyOpenInvCount(openInvAndDm.length - disputed.length);
+      setMonthlyDisputedBalance(disputedBal);
+      setMonthlyDisputedCount(disputed.length);
       setMonthlyBalancedInvBalance(0);
       setMonthlyBalancedInvCount(0);
       setMonthlyOpenCmBalance(openCmBal);
@@ -477,7 +492,7 @@ export default function InvoiceAnalyticsPage() {
       setMonthlyOpenDmBalance(0);
       setMonthlyOpenDmCount(0);
     }
-  }, [allFilteredInvoices, calendarView, loadedYearInvoices]);
+  }, [allFilteredInvoices, calendarView, loadedYearInvoices, disputedRefs]);
 
   useEffect(() => {
     if (calendarView !== 'yearly') return;
@@ -812,6 +827,8 @@ export default function InvoiceAnalyticsPage() {
     setMonthlyOpenCmCount(totalOpenCmCnt);
     setMonthlyOpenDmBalance(0);
     setMonthlyOpenDmCount(0);
+    setMonthlyDisputedBalance(0);
+    setMonthlyDisputedCount(0);
   };
 
   const loadMonthlyAggregates = async (year: number) => {
@@ -923,6 +940,8 @@ export default function InvoiceAnalyticsPage() {
     setMonthlyOpenCmCount(totalOpenCmCnt);
     setMonthlyOpenDmBalance(0);
     setMonthlyOpenDmCount(0);
+    setMonthlyDisputedBalance(0);
+    setMonthlyDisputedCount(0);
   };
 
   const loadYearlyAggregates = async () => {
@@ -1207,6 +1226,7 @@ export default function InvoiceAnalyticsPage() {
           Due_Date: formatDateString(inv.due_date),
           Amount: inv.amount,
           Balance: inv.balance,
+          Disputed: disputedRefs.has(inv.reference_number) ? 'Yes' : '',
           Description: inv.description,
           Customer_Total_Amount: i === 0 ? group.totalAmount : '',
           Customer_Total_Balance: i === 0 ? group.totalBalance : '',
@@ -1227,6 +1247,7 @@ export default function InvoiceAnalyticsPage() {
       { wch: 11 }, // Due_Date
       { wch: 13 }, // Amount
       { wch: 13 }, // Balance
+      { wch: 9 },  // Disputed
       { wch: 32 }, // Description
       { wch: 18 }, // Customer_Total_Amount
       { wch: 18 }, // Customer_Total_Balance
@@ -1337,6 +1358,9 @@ export default function InvoiceAnalyticsPage() {
                     <p className="text-xl font-bold text-gray-700">{formatCurrency(monthlyBalance)}</p>
                     <div className="space-y-0.5 mt-1.5 border-t border-amber-200/50 pt-1.5">
                       <p className="text-xs text-blue-600">Open Invoices + DM: {formatCurrency(monthlyOpenInvBalance)} ({monthlyOpenInvCount})</p>
+                      {monthlyDisputedBalance > 0 && (
+                        <p className="text-xs text-purple-600">Disputed: {formatCurrency(monthlyDisputedBalance)} ({monthlyDisputedCount})</p>
+                      )}
                       {monthlyOpenCmBalance > 0 && (
                         <p className="text-xs text-red-500">Open CM: -{formatCurrency(monthlyOpenCmBalance)} ({monthlyOpenCmCount})</p>
                       )}
@@ -2022,6 +2046,9 @@ export default function InvoiceAnalyticsPage() {
                   <p className="text-base font-bold text-gray-700 break-words">{formatCurrency(monthlyBalance)}</p>
                   <div className="space-y-0.5 mt-1">
                     <p className="text-xs text-blue-600">Open Invoices + DM: {formatCurrency(monthlyOpenInvBalance)} ({monthlyOpenInvCount})</p>
+                    {monthlyDisputedBalance > 0 && (
+                      <p className="text-xs text-purple-600">Disputed: {formatCurrency(monthlyDisputedBalance)} ({monthlyDisputedCount})</p>
+                    )}
                     {monthlyOpenCmBalance > 0 && (
                       <p className="text-xs text-red-500">Open CM: -{formatCurrency(monthlyOpenCmBalance)} ({monthlyOpenCmCount})</p>
                     )}
@@ -2201,6 +2228,9 @@ export default function InvoiceAnalyticsPage() {
                                                 <div className="flex items-center gap-2">
                                                   {colorDot && <div className={`w-2 h-2 rounded-full ${colorDot}`} />}
                                                   {invoice.reference_number}
+                                                  {disputedRefs.has(invoice.reference_number) && (
+                                                    <span className="px-1.5 py-0.5 text-[10px] font-semibold rounded bg-purple-100 text-purple-700 uppercase">Disputed</span>
+                                                  )}
                                                 </div>
                                               </td>
                                               <td className="px-4 py-2.5 text-sm whitespace-nowrap">
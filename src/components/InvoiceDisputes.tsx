@@ -0,0 +1,9 @@
+import InvoiceDisputesPage from './InvoiceDisputes/index';
+
+interface InvoiceDisputesProps {
+  onBack: () => void;
+}
+
+export default function InvoiceDisputes({ onBack }: InvoiceDisputesProps) {
+  return <InvoiceDisputesPage onBack={onBack} />;
+}
@@ -0,0 +1,391 @@
+import { useState, useEffect } from 'react';
+import { X, Loader2, Paperclip, Download, MessageSquare, Send, ExternalLink } from 'lucide-react';
+import { supabase } from '../../lib/supabase';
+import { useOrgNavigation } from '../../hooks/useOrgNavigation';
+import { useAuth } from '../../contexts/AuthContext';
+import { useToast } from '../../contexts/ToastContext';
+import { DISPUTE_ATTACHMENT_BUCKET, uploadDisputeAttachments } from '../../lib/invoiceDisputes';
+import { formatDateTime } from '../../lib/dateUtils';
+import {
+  InvoiceDispute,
+  DisputeAttachment,
+  DisputeEvent,
+  DisputeStatus,
+  StaffMember,
+  REASON_LABELS,
+  STATUS_LABELS,
+  STATUS_STYLES,
+  isClosedStatus,
+  formatFileSize,
+} from './types';
+
+interface DisputeDetailModalProps {
+  disputeId: string;
+  staff: StaffMember[];
+  onClose: () => void;
+  onChanged: () => void;
+}
+
+export default function DisputeDetailModal({ disputeId, staff, onClose, onChanged }: DisputeDetailModalProps) {
+  const { user } = useAuth();
+  const { showToast } = useToast();
+  const { navigate } = useOrgNavigation();
+
+  const [dispute, setDispute] = useState<InvoiceDispute | null>(null);
+  const [attachments, setAttachments] = useState<DisputeAttachment[]>([]);
+  const [events, setEvents] = useState<DisputeEvent[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [busy, setBusy] = useState(false);
+
+  const [nextStatus, setNextStatus] = useState<DisputeStatus>('open');
+  const [resolutionNotes, setResolutionNotes] = useState('');
+  const [comment, setComment] = useState('');
+
+  useEffect(() => {
+    fetchDispute();
+  }, [disputeId]);
+
+  const fetchDispute = async () => {
+    try {
+      const [disputeResult, attachmentsResult, eventsResult] = await Promise.all([
+        supabase
+          .from('invoice_disputes')
+          .select('*, invoices:invoice_dispute_invoices(*)')
+          .eq('id', disputeId)
+          .single(),
+        supabase
+          .from('invoice_dispute_attachments')
+          .select('*')
+          .eq('dispute_id', disputeId)
+          .order('created_at', { ascending: false }),
+        supabase
+          .from('invoice_dispute_events')
+          .select('*')
+          .eq('dispute_id', disputeId)
+          .order('created_at', { ascending: false }),
+      ]);
+
+      if (disputeResult.error) throw disputeResult.error;
+      if (attachmentsResult.error) throw attachmentsResult.error;
+      if (eventsResult.error) throw eventsResult.error;
+
+      setDispute(disputeResult.data);
+      setNextStatus(disputeResult.data.status);
+      setResolutionNotes(disputeResult.data.resolution_notes || '');
+      setAttachments(attachmentsResult.data || []);
+      setEvents(eventsResult.data || []);
+    } catch (error: any) {
+      showToast(error.message, 'error');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const staffName = (id: string | null) => {
+    if (!id) return 'System';
+    const member = staff.find(s => s.id === id);
+    return member ? member.full_name || member.email : 'Unknown user';
+  };
+
+  const describeEvent = (event: DisputeEvent) => {
+    switch (event.event_type) {
+      case 'created':
+        return 'Opened the dispute';
+      case 'status_change':
+        return `Changed status from ${STATUS_LABELS[event.from_value as DisputeStatus] || event.from_value} to ${STATUS_LABELS[event.to_value as DisputeStatus] || event.to_value}`;
+      case 'owner_change':
+        return `Reassigned from ${event.from_value ? staffName(event.from_value) : 'nobody'} to ${event.to_value ? staffName(event.to_value) : 'nobody'}`;
+      case 'comment':
+        return 'Commented';
+      case 'attachment_added':
+        return `Attached ${event.to_value}`;
+      case 'invoice_added':
+        return `Added invoice ${event.to_value}`;
+      case 'invoice_removed':
+        return `Removed invoice ${event.from_value}`;
+    }
+  };
+
+  const handleStatusSave = async () => {
+    if (!dispute || nextStatus === dispute.status) return;
+    if (isClosedStatus(nextStatus) && !resolutionNotes.trim()) {
+      showToast('Add resolution notes before closing the dispute', 'error');
+      return;
+    }
+    setBusy(true);
+    try {
+      const { error } = await supabase
+        .from('invoice_disputes')
+        .update({
+          status: nextStatus,
+          resolution_notes: isClosedStatus(nextStatus) ? resolutionNotes.trim() : dispute.resolution_notes,
+        })
+        .eq('id', dispute.id);
+      if (error) throw error;
+      showToast(`Dispute ${STATUS_LABELS[nextStatus].toLowerCase()}`, 'success');
+      fetchDispute();
+      onChanged();
+    } catch (error: any) {
+      showToast(error.message, 'error');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleOwnerChange = async (ownerId: string) => {
+    if (!dispute) return;
+    try {
+      const { error } = await supabase
+        .from('invoice_disputes')
+        .update({ owner_id: ownerId || null })
+        .eq('id', dispute.id);
+      if (error) throw error;
+      fetchDispute();
+      onChanged();
+    } catch (error: any) {
+      showToast(error.message, 'error');
+    }
+  };
+
+  const handleComment = async () => {
+    if (!comment.trim()) return;
+    setBusy(true);
+    try {
+      const { error } = await supabase
+        .from('invoice_dispute_events')
+        .insert({
+          dispute_id: disputeId,
+          event_type: 'comment',
+          note: comment.trim(),
+          created_by: user?.id,
+        });
+      if (error) throw error;
+      setComment('');
+      fetchDispute();
+    } catch (error: any) {
+      showToast(error.message, 'error');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleUpload = async (fileList: FileList | null) => {
+    const files = Array.from(fileList || []);
+    if (files.length === 0) return;
+    setBusy(true);
+    try {
+      await uploadDisputeAttachments(disputeId, files, user?.id);
+      showToast(`${files.length} file${files.length === 1 ? '' : 's'} attached`, 'success');
+      fetchDispute();
+    } catch (error: any) {
+      showToast(error.message, 'error');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const openAttachment = async (attachment: DisputeAttachment) => {
+    const { data, error } = await supabase.storage
+      .from(DISPUTE_ATTACHMENT_BUCKET)
+      .createSignedUrl(attachment.storage_path, 3600);
+    if (error || !data) {
+      showToast(error?.message || 'Could not open attachment', 'error');
+      return;
+    }
+    window.open(data.signedUrl, '_blank');
+  };
+
+  const formatCurrency = (value: number | null) =>
+    `$${(value || 0).toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+
+  return (
+    <div className="fixed inset-0 bg-black/50 flex items-start justify-center z-50 p-4 overflow-y-auto">
+      <div className="bg-white rounded-xl shadow-2xl w-full max-w-3xl my-8">
+        {loading || !dispute ? (
+          <div className="flex items-center justify-center h-64">
+            <Loader2 className="w-8 h-8 animate-spin text-blue-600" />
+          </div>
+        ) : (
+          <>
+            <div className="flex items-start justify-between px-6 py-4 border-b border-gray-200">
+              <div>
+                <div className="flex items-center gap-3">
+                  <h2 className="text-xl font-bold text-gray-900">{dispute.customer_name || dispute.customer_id}</h2>
+                  <span className={`px-2 py-0.5 rounded-full text-[10px] font-semibold uppercase ${STATUS_STYLES[dispute.status]}`}>
+                    {STATUS_LABELS[dispute.status]}
+                  </span>
+                </div>
+                <p className="text-sm text-gray-500 mt-0.5">
+                  {REASON_LABELS[dispute.reason_code]} · {formatCurrency(dispute.disputed_amount)} disputed
+                  {dispute.source === 'customer_portal' && ' · raised through the customer portal'}
+                </p>
+              </div>
+              <button onClick={onClose} className="p-2 hover:bg-gray-100 rounded-lg transition-colors">
+                <X className="w-5 h-5 text-gray-500" />
+              </button>
+            </div>
+
+            <div className="divide-y divide-gray-100">
+              {/* Summary */}
+              <div className="px-6 py-5 space-y-4">
+                {dispute.description && (
+                  <p className="text-sm text-gray-700 whitespace-pre-wrap">{dispute.description}</p>
+                )}
+                <div className="flex flex-wrap gap-2">
+                  {dispute.invoices.map(inv => (
+                    <span key={inv.id} className="px-2.5 py-1 rounded-lg bg-purple-50 border border-purple-200 text-xs text-purple-800">
+                      <span className="font-semibold">{inv.invoice_reference_number}</span>
+                      {inv.balance_at_dispute != null && ` · ${formatCurrency(inv.balance_at_dispute)}`}
+                    </span>
+                  ))}
+                </div>
+                {dispute.ticket_id && (
+                  <button
+                    onClick={() => navigate(`/ticket/${dispute.ticket_id}`)}
+                    className="inline-flex items-center gap-1 text-xs text-blue-600 hover:text-blue-700 font-medium"
+                  >
+                    <ExternalLink className="w-3.5 h-3.5" />
+                    Linked collection ticket
+                  </button>
+                )}
+              </div>
+
+              {/* Workflow */}
+              <div className="px-6 py-5 grid grid-cols-1 sm:grid-cols-2 gap-4">
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1.5">Owner</label>
+                  <select
+                    value={dispute.owner_id || ''}
+                    onChange={(e) => handleOwnerChange(e.target.value)}
+                    className="w-full border border-gray-300 rounded-lg px-3.5 py-2.5 text-sm focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                  >
+                    <option value="">Unassigned</option>
+                    {staff.map(member => (
+                      <option key={member.id} value={member.id}>{member.full_name || member.email}</option>
+                    ))}
+                  </select>
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1.5">Status</label>
+                  <div className="flex gap-2">
+                    <select
+                      value={nextStatus}
+                      onChange={(e) => setNextStatus(e.target.value as DisputeStatus)}
+                      className="flex-1 border border-gray-300 rounded-lg px-3.5 py-2.5 text-sm focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                    >
+                      {(Object.keys(STATUS_LABELS) as DisputeStatus[]).map(status => (
+                        <option key={status} value={status}>{STATUS_LABELS[status]}</option>
+                      ))}
+                    </select>
+                    <button
+                      onClick={handleStatusSave}
+                      disabled={busy || nextStatus === dispute.status}
+                      className="px-4 py-2.5 bg-blue-600 text-white rounded-lg text-sm font-medium hover:bg-blue-700 disabled:opacity-50 transition-colors"
+                    >
+                      Update
+                    </button>
+                  </div>
+                </div>
+                {(isClosedStatus(nextStatus) || dispute.resolution_notes) && (
+                  <div className="sm:col-span-2">
+                    <label className="block text-sm font-medium text-gray-700 mb-1.5">Resolution Notes</label>
+                    <textarea
+                      value={resolutionNotes}
+                      onChange={(e) => setResolutionNotes(e.target.value)}
+                      rows={2}
+                      placeholder="e.g., Credit memo issued for the price difference"
+                      disabled={!isClosedStatus(nextStatus)}
+                      className="w-full border border-gray-300 rounded-lg px-3.5 py-2.5 text-sm focus:ring-2 focus:ring-blue-500 focus:border-blue-500 disabled:bg-gray-50"
+                    />
+                  </div>
+                )}
+              </div>
+
+              {/* Attachments */}
+              <div className="px-6 py-5">
+                <div className="flex items-center justify-between mb-2">
+                  <h3 className="text-sm font-semibold text-gray-900">Supporting Documents</h3>
+                  <label className="inline-flex items-center gap-1.5 text-xs text-blue-600 hover:text-blue-700 font-medium cursor-pointer">
+                    <Paperclip className="w-3.5 h-3.5" />
+                    Attach
+                    <input
+                      type="file"
+                      multiple
+                      className="hidden"
+                      disabled={busy}
+                      onChange={(e) => {
+                        handleUpload(e.target.files);
+                        e.target.value = '';
+                      }}
+                    />
+                  </label>
+                </div>
+                {attachments.length === 0 ? (
+                  <p className="text-sm text-gray-500">No documents attached.</p>
+                ) : (
+                  <ul className="space-y-1">
+                    {attachments.map(attachment => (
+                      <li key={attachment.id}>
+                        <button
+                          onClick={() => openAttachment(attachment)}
+                          className="w-full flex items-center justify-between text-sm text-gray-700 bg-gray-50 hover:bg-gray-100 rounded-lg px-3 py-2 transition-colors"
+                        >
+                          <span className="truncate">
+                            {attachment.file_name}
+                            <span className="text-gray-400 ml-2">{formatFileSize(attachment.file_size)}</span>
+                          </span>
+                          <Download className="w-4 h-4 text-gray-400 flex-shrink-0" />
+                        </button>
+                      </li>
+                    ))}
+                  </ul>
+                )}
+              </div>
+
+              {/* Timeline */}
+              <div className="px-6 py-5">
+                <h3 className="text-sm font-semibold text-gray-900 mb-3">Activity</h3>
+                <div className="flex gap-2 mb-4">
+                  <input
+                    type="text"
+                    value={comment}
+                    onChange={(e) => setComment(e.target.value)}
+                    onKeyDown={(e) => { if (e.key === 'Enter') handleComment(); }}
+                    placeholder="Add a comment..."
+                    className="flex-1 border border-gray-300 rounded-lg px-3.5 py-2 text-sm focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                  />
+                  <button
+                    onClick={handleComment}
+                    disabled={busy || !comment.trim()}
+                    className="p-2.5 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50 transition-colors"
+                  >
+                    <Send className="w-4 h-4" />
+                  </button>
+                </div>
+                <ol className="space-y-3">
+                  {events.map(event => (
+                    <li key={event.id} className="flex gap-3">
+                      <div className="w-7 h-7 rounded-full bg-gray-100 flex items-center justify-center flex-shrink-0">
+                        <MessageSquare className="w-3.5 h-3.5 text-gray-500" />
+                      </div>
+                      <div className="min-w-0">
+                        <p className="text-sm text-gray-800">
+                          <span className="font-medium">{staffName(event.created_by)}</span>{' '}
+                          <span className="text-gray-600">{describeEvent(event)}</span>
+                        </p>
+                        {event.note && (
+                          <p className="text-sm text-gray-700 whitespace-pre-wrap mt-0.5">{event.note}</p>
+                        )}
+                        <p className="text-xs text-gray-400 mt-0.5">{formatDateTime(event.created_at)}</p>
+                      </div>
+                    </li>
+                  ))}
+                </ol>
+              </div>
+            </div>
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,421 @@
+import { useState, useEffect } from 'react';
+import { X, Search, Loader2, Paperclip, Trash2 } from 'lucide-react';
+import { supabase } from '../../lib/supabase';
+import { useAuth } from '../../contexts/AuthContext';
+import { useToast } from '../../contexts/ToastContext';
+import { fetchDisputedInvoiceRefs, uploadDisputeAttachments } from '../../lib/invoiceDisputes';
+import { formatDate } from '../../lib/dateUtils';
+import { Customer, DisputeReason, StaffMember, REASON_LABELS, formatFileSize } from './types';
+
+interface OpenInvoice {
+  reference_number: string;
+  date: string;
+  due_date: string | null;
+  balance: number;
+}
+
+interface DisputeFormModalProps {
+  presetCustomer?: Customer;
+  presetInvoiceRefs?: string[];
+  ticketId?: string;
+  onClose: () => void;
+  onSaved: (disputeId: string) => void;
+}
+
+export default function DisputeFormModal({
+  presetCustomer,
+  presetInvoiceRefs = [],
+  ticketId,
+  onClose,
+  onSaved,
+}: DisputeFormModalProps) {
+  const { user } = useAuth();
+  const { showToast } = useToast();
+  const [saving, setSaving] = useState(false);
+
+  const [customer, setCustomer] = useState<Customer | null>(presetCustomer || null);
+  const [customerSearch, setCustomerSearch] = useState('');
+  const [customerResults, setCustomerResults] = useState<Customer[]>([]);
+  const [searchLoading, setSearchLoading] = useState(false);
+
+  const [invoices, setInvoices] = useState<OpenInvoice[]>([]);
+  const [invoicesLoading, setInvoicesLoading] = useState(false);
+  const [disputedRefs, setDisputedRefs] = useState<Set<string>>(new Set());
+  const [selectedRefs, setSelectedRefs] = useState<Set<string>>(new Set(presetInvoiceRefs));
+
+  const [reasonCode, setReasonCode] = useState<DisputeReason>('pricing');
+  const [description, setDescription] = useState('');
+  const [ownerId, setOwnerId] = useState<string>(user?.id || '');
+  const [staff, setStaff] = useState<StaffMember[]>([]);
+  const [files, setFiles] = useState<File[]>([]);
+
+  useEffect(() => {
+    fetchStaff();
+  }, []);
+
+  useEffect(() => {
+    if (customer) {
+      fetchOpenInvoices(customer.customer_id);
+    } else {
+      setInvoices([]);
+    }
+  }, [customer]);
+
+  const fetchStaff = async () => {
+    try {
+      const { data, error } = await supabase
+        .from('user_profiles')
+        .select('id, full_name, email')
+        .in('role', ['collector', 'manager', 'admin'])
+        .order('full_name');
+      if (error) throw error;
+      setStaff(data || []);
+    } catch (error: any) {
+      showToast(error.message, 'error');
+    }
+  };
+
+  const fetchOpenInvoices = async (customerId: string) => {
+    setInvoicesLoading(true);
+    try {
+      const { data, error } = await supabase
+        .from('acumatica_invoices')
+        .select('reference_number, date, due_date, balance')
+        .eq('customer', customerId)
+        .eq('type', 'Invoice')
+        .gt('balance', 0)
+        .in('status', ['Open', 'open'])
+        .order('date', { ascending: true });
+      if (error) throw error;
+
+      const rows = data || [];
+      setInvoices(rows);
+      setDisputedRefs(await fetchDisputedInvoiceRefs(rows.map(r => r.reference_number)));
+    } catch (error: any) {
+      showToast(error.message, 'error');
+    } finally {
+      setInvoicesLoading(false);
+    }
+  };
+
+  const searchCustomers = async (term: string) => {
+    if (term.length < 2) {
+      setCustomerResults([]);
+      return;
+    }
+    setSearchLoading(true);
+    try {
+      const { data, error } = await supabase
+        .from('acumatica_customers')
+        .select('customer_id, customer_name')
+        .or(`customer_name.ilike.%${term}%,customer_id.ilike.%${term}%`)
+        .order('customer_name')
+        .limit(50);
+
+      if (error) throw error;
+      setCustomerResults(data || []);
+    } catch {
+      setCustomerResults([]);
+    } finally {
+      setSearchLoading(false);
+    }
+  };
+
+  const selectCustomer = (selected: Customer) => {
+    setCustomer(selected);
+    setSelectedRefs(new Set());
+    setCustomerSearch('');
+    setCustomerResults([]);
+  };
+
+  const toggleInvoice = (ref: string) => {
+    const next = new Set(selectedRefs);
+    if (next.has(ref)) {
+      next.delete(ref);
+    } else {
+      next.add(ref);
+    }
+    setSelectedRefs(next);
+  };
+
+  const selectedTotal = invoices
+    .filter(inv => selectedRefs.has(inv.reference_number))
+    .reduce((sum, inv) => sum + (inv.balance || 0), 0);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!customer) {
+      showToast('Select a customer', 'error');
+      return;
+    }
+    if (selectedRefs.size === 0) {
+      showToast('Select at least one invoice to dispute', 'error');
+      return;
+    }
+
+    setSaving(true);
+    try {
+      const { data: dispute, error } = await supabase
+        .from('invoice_disputes')
+        .insert({
+          customer_id: customer.customer_id,
+          customer_name: customer.customer_name,
+          reason_code: reasonCode,
+          description: description.trim() || null,
+          disputed_amount: selectedTotal,
+          owner_id: ownerId || null,
+          ticket_id: ticketId || null,
+          opened_by: user?.id,
+        })
+        .select('id')
+        .single();
+      if (error) throw error;
+
+      const balances = new Map(invoices.map(inv => [inv.reference_number, inv.balance]));
+      const { error: invoicesError } = await supabase
+        .from('invoice_dispute_invoices')
+        .insert(Array.from(selectedRefs).map(ref => ({
+          dispute_id: dispute.id,
+          invoice_reference_number: ref,
+          balance_at_dispute: balances.get(ref) ?? null,
+        })));
+      if (invoicesError) throw invoicesError;
+
+      if (files.length > 0) {
+        await uploadDisputeAttachments(dispute.id, files, user?.id);
+      }
+
+      showToast('Dispute opened', 'success');
+      onSaved(dispute.id);
+      onClose();
+    } catch (error: any) {
+      showToast(error.message, 'error');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/50 flex items-start justify-center z-50 p-4 overflow-y-auto">
+      <div className="bg-white rounded-xl shadow-2xl w-full max-w-3xl my-8">
+        <div className="flex items-center justify-between px-6 py-4 border-b border-gray-200">
+          <div>
+            <h2 className="text-xl font-bold text-gray-900">Open Invoice Dispute</h2>
+            <p className="text-sm text-gray-500 mt-0.5">
+              Disputed invoices are held out of dunning and auto-ticket rules until the dispute is closed
+            </p>
+          </div>
+          <button onClick={onClose} className="p-2 hover:bg-gray-100 rounded-lg transition-colors">
+            <X className="w-5 h-5 text-gray-500" />
+          </button>
+        </div>
+
+        <form onSubmit={handleSubmit} className="divide-y divide-gray-100">
+          {/* Customer */}
+          <div className="px-6 py-5 space-y-3">
+            <label className="block text-sm font-medium text-gray-700 mb-1.5">Customer</label>
+            {customer ? (
+              <div className="flex items-center justify-between px-3.5 py-2.5 bg-gray-50 border border-gray-200 rounded-lg">
+                <div className="text-sm">
+                  <span className="font-medium text-gray-900">{customer.customer_name}</span>
+                  <span className="text-gray-500 ml-2">{customer.customer_id}</span>
+                </div>
+                {!presetCustomer && (
+                  <button
+                    type="button"
+                    onClick={() => { setCustomer(null); setSelectedRefs(new Set()); }}
+                    className="text-xs text-blue-600 hover:text-blue-700 font-medium"
+                  >
+                    Change
+                  </button>
+                )}
+              </div>
+            ) : (
+              <>
+                <div className="relative">
+                  <Search className="absolute left-3 top-2.5 w-4 h-4 text-gray-400" />
+                  <input
+                    type="text"
+                    value={customerSearch}
+                    onChange={(e) => {
+                      setCustomerSearch(e.target.value);
+                      searchCustomers(e.target.value);
+                    }}
+                    placeholder="Search customers by name or ID..."
+                    className="w-full pl-9 pr-4 py-2.5 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                  />
+                  {searchLoading && (
+                    <Loader2 className="absolute right-3 top-2.5 w-4 h-4 text-blue-500 animate-spin" />
+                  )}
+                </div>
+                {customerResults.length > 0 && (
+                  <div className="border border-gray-200 rounded-lg max-h-40 overflow-y-auto divide-y divide-gray-100">
+                    {customerResults.map(result => (
+                      <button
+                        key={result.customer_id}
+                        type="button"
+                        onClick={() => selectCustomer(result)}
+                        className="w-full text-left px-3.5 py-2 hover:bg-gray-50 text-sm"
+                      >
+                        <span className="font-medium">{result.customer_name}</span>
+                        <span className="text-gray-500 ml-2">{result.customer_id}</span>
+                      </button>
+                    ))}
+                  </div>
+                )}
+              </>
+            )}
+          </div>
+
+          {/* Invoices */}
+          {customer && (
+            <div className="px-6 py-5">
+              <div className="flex items-center justify-between mb-2">
+                <label className="block text-sm font-medium text-gray-700">Disputed Invoices</label>
+                <span className="text-xs text-gray-500">
+                  {selectedRefs.size} selected · ${selectedTotal.toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}
+                </span>
+              </div>
+              {invoicesLoading ? (
+                <div className="flex items-center justify-center py-6">
+                  <Loader2 className="w-5 h-5 animate-spin text-blue-600" />
+                </div>
+              ) : invoices.length === 0 ? (
+                <p className="text-sm text-gray-500 py-4 text-center">This customer has no open invoices.</p>
+              ) : (
+                <div className="border border-gray-200 rounded-lg max-h-64 overflow-y-auto divide-y divide-gray-100">
+                  {invoices.map(inv => {
+                    const alreadyDisputed = disputedRefs.has(inv.reference_number);
+                    return (
+                      <label
+                        key={inv.reference_number}
+                        className={`flex items-center gap-3 px-3.5 py-2 text-sm ${alreadyDisputed ? 'bg-gray-50 opacity-60' : 'hover:bg-gray-50 cursor-pointer'}`}
+                      >
+                        <input
+                          type="checkbox"
+                          checked={selectedRefs.has(inv.reference_number)}
+                          onChange={() => toggleInvoice(inv.reference_number)}
+                          disabled={alreadyDisputed}
+                          className="rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+                        />
+                        <span className="font-medium text-gray-900 w-28">{inv.reference_number}</span>
+                        <span className="text-gray-500 flex-1">
+                          {formatDate(inv.date)}
+                          {inv.due_date && ` · due ${formatDate(inv.due_date)}`}
+                        </span>
+                        {alreadyDisputed && (
+                          <span className="px-2 py-0.5 rounded-full text-[10px] font-semibold bg-purple-100 text-purple-700 uppercase">
+                            Disputed
+                          </span>
+                        )}
+                        <span className="font-medium text-gray-900">
+                          ${inv.balance.toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}
+                        </span>
+                      </label>
+                    );
+                  })}
+                </div>
+              )}
+            </div>
+          )}
+
+          {/* Details */}
+          <div className="px-6 py-5 space-y-4">
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1.5">Reason</label>
+                <select
+                  value={reasonCode}
+                  onChange={(e) => setReasonCode(e.target.value as DisputeReason)}
+                  className="w-full border border-gray-300 rounded-lg px-3.5 py-2.5 text-sm focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                >
+                  {(Object.keys(REASON_LABELS) as DisputeReason[]).map(reason => (
+                    <option key={reason} value={reason}>{REASON_LABELS[reason]}</option>
+                  ))}
+                </select>
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1.5">Owner</label>
+                <select
+                  value={ownerId}
+                  onChange={(e) => setOwnerId(e.target.value)}
+                  className="w-full border border-gray-300 rounded-lg px-3.5 py-2.5 text-sm focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                >
+                  <option value="">Unassigned</option>
+                  {staff.map(member => (
+                    <option key={member.id} value={member.id}>{member.full_name || member.email}</option>
+                  ))}
+                </select>
+              </div>
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1.5">Description</label>
+              <textarea
+                value={description}
+                onChange={(e) => setDescription(e.target.value)}
+                rows={3}
+                placeholder="What is the customer disputing?"
+                className="w-full border border-gray-300 rounded-lg px-3.5 py-2.5 text-sm focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1.5">Supporting Documents</label>
+              <label className="inline-flex items-center gap-2 px-3.5 py-2 border border-dashed border-gray-300 rounded-lg text-sm text-gray-600 hover:bg-gray-50 cursor-pointer">
+                <Paperclip className="w-4 h-4" />
+                <span>Attach files</span>
+                <input
+                  type="file"
+                  multiple
+                  className="hidden"
+                  onChange={(e) => {
+                    setFiles([...files, ...Array.from(e.target.files || [])]);
+                    e.target.value = '';
+                  }}
+                />
+              </label>
+              {files.length > 0 && (
+                <ul className="mt-2 space-y-1">
+                  {files.map((file, idx) => (
+                    <li key={idx} className="flex items-center justify-between text-sm text-gray-700 bg-gray-50 rounded-lg px-3 py-1.5">
+                      <span className="truncate">
+                        {file.name}
+                        <span className="text-gray-400 ml-2">{formatFileSize(file.size)}</span>
+                      </span>
+                      <button
+                        type="button"
+                        onClick={() => setFiles(files.filter((_, i) => i !== idx))}
+                        className="p-1 text-red-500 hover:bg-red-50 rounded"
+                      >
+                        <Trash2 className="w-3.5 h-3.5" />
+                      </button>
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </div>
+          </div>
+
+          {/* Footer */}
+          <div className="px-6 py-4 flex items-center justify-end gap-3 bg-gray-50 rounded-b-xl">
+            <button
+              type="button"
+              onClick={onClose}
+              className="px-4 py-2.5 border border-gray-300 rounded-lg text-sm font-medium text-gray-700 hover:bg-gray-50 transition-colors"
+            >
+              Cancel
+            </button>
+            <button
+              type="submit"
+              disabled={saving}
+              className="flex items-center gap-2 px-5 py-2.5 bg-blue-600 text-white rounded-lg text-sm font-medium hover:bg-blue-700 disabled:opacity-50 transition-colors"
+            >
+              {saving && <Loader2 className="w-4 h-4 animate-spin" />}
+              Open Dispute
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+}
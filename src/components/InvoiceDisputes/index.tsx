@@ -0,0 +1,268 @@
+import { useState, useEffect } from 'react';
+import { ArrowLeft, Plus, Loader2, Search, FileWarning, User, Globe } from 'lucide-react';
+import { supabase } from '../../lib/supabase';
+import { useToast } from '../../contexts/ToastContext';
+import { formatDate } from '../../lib/dateUtils';
+import DisputeFormModal from './DisputeFormModal';
+import DisputeDetailModal from './DisputeDetailModal';
+import {
+  InvoiceDispute,
+  DisputeReason,
+  StaffMember,
+  REASON_LABELS,
+  STATUS_LABELS,
+  STATUS_STYLES,
+  isClosedStatus,
+} from './types';
+
+interface InvoiceDisputesPageProps {
+  onBack: () => void;
+}
+
+type StatusFilter = 'active' | 'closed' | 'all';
+
+export default function InvoiceDisputesPage({ onBack }: InvoiceDisputesPageProps) {
+  const [disputes, setDisputes] = useState<InvoiceDispute[]>([]);
+  const [staff, setStaff] = useState<StaffMember[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [isFormOpen, setIsFormOpen] = useState(false);
+  const [selectedDisputeId, setSelectedDisputeId] = useState<string | null>(null);
+
+  const [statusFilter, setStatusFilter] = useState<StatusFilter>('active');
+  const [reasonFilter, setReasonFilter] = useState<DisputeReason | ''>('');
+  const [search, setSearch] = useState('');
+
+  const { showToast } = useToast();
+
+  useEffect(() => {
+    fetchDisputes();
+    fetchStaff();
+  }, []);
+
+  const fetchDisputes = async () => {
+    try {
+      const { data, error } = await supabase
+        .from('invoice_disputes')
+        .select('*, invoices:invoice_dispute_invoices(*)')
+        .order('created_at', { ascending: false });
+      if (error) throw error;
+      setDisputes(data || []);
+    } catch (error: any) {
+      showToast(error.message, 'error');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const fetchStaff = async () => {
+    try {
+      const { data, error } = await supabase
+        .from('user_profiles')
+        .select('id, full_name, email')
+        .order('full_name');
+      if (error) throw error;
+      setStaff(data || []);
+    } catch (error: any) {
+      showToast(error.message, 'error');
+    }
+  };
+
+  const ownerName = (id: string | null) => {
+    if (!id) return 'Unassigned';
+    const member = staff.find(s => s.id === id);
+    return member ? member.full_name || member.email : 'Unknown user';
+  };
+
+  const formatCurrency = (value: number | null) =>
+    `$${(value || 0).toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+
+  const activeDisputes = disputes.filter(d => !isClosedStatus(d.status));
+  const summary = {
+    active: activeDisputes.length,
+    activeAmount: activeDisputes.reduce((sum, d) => sum + (d.disputed_amount || 0), 0),
+    activeInvoices: activeDisputes.reduce((sum, d) => sum + d.invoices.length, 0),
+    fromPortal: activeDisputes.filter(d => d.source === 'customer_portal').length,
+  };
+
+  const term = search.trim().toLowerCase();
+  const filteredDisputes = disputes.filter(d => {
+    if (statusFilter === 'active' && isClosedStatus(d.status)) return false;
+    if (statusFilter === 'closed' && !isClosedStatus(d.status)) return false;
+    if (reasonFilter && d.reason_code !== reasonFilter) return false;
+    if (!term) return true;
+    return (
+      (d.customer_name || '').toLowerCase().includes(term) ||
+      d.customer_id.toLowerCase().includes(term) ||
+      d.invoices.some(inv => inv.invoice_reference_number.toLowerCase().includes(term))
+    );
+  });
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center h-64">
+        <Loader2 className="w-8 h-8 animate-spin text-blue-600" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex items-center justify-between flex-wrap gap-4">
+        <div className="flex items-center space-x-4">
+          <button onClick={onBack} className="p-2 hover:bg-gray-100 rounded-lg transition-colors">
+            <ArrowLeft className="w-5 h-5" />
+          </button>
+          <div>
+            <h1 className="text-2xl font-bold text-gray-900">Invoice Disputes</h1>
+            <p className="text-gray-600 mt-0.5 text-sm">
+              Invoices the customer has challenged, held out of collections until resolved
+            </p>
+          </div>
+        </div>
+        <button
+          onClick={() => setIsFormOpen(true)}
+          className="flex items-center space-x-2 px-4 py-2.5 bg-blue-600 text-white rounded-lg hover:bg-blue-700 text-sm font-medium"
+        >
+          <Plus className="w-4 h-4" />
+          <span>New Dispute</span>
+        </button>
+      </div>
+
+      {/* Summary */}
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+        <div className="bg-white rounded-xl border border-gray-200 p-4">
+          <p className="text-xs text-gray-500 uppercase font-semibold">Active Disputes</p>
+          <p className="text-2xl font-bold text-gray-900 mt-1">{summary.active}</p>
+        </div>
+        <div className="bg-white rounded-xl border border-gray-200 p-4">
+          <p className="text-xs text-gray-500 uppercase font-semibold">Amount in Dispute</p>
+          <p className="text-2xl font-bold text-purple-700 mt-1">{formatCurrency(summary.activeAmount)}</p>
+        </div>
+        <div className="bg-white rounded-xl border border-gray-200 p-4">
+          <p className="text-xs text-gray-500 uppercase font-semibold">Invoices on Hold</p>
+          <p className="text-2xl font-bold text-gray-900 mt-1">{summary.activeInvoices}</p>
+        </div>
+        <div className="bg-white rounded-xl border border-gray-200 p-4">
+          <p className="text-xs text-gray-500 uppercase font-semibold">From Customer Portal</p>
+          <p className="text-2xl font-bold text-gray-900 mt-1">{summary.fromPortal}</p>
+        </div>
+      </div>
+
+      {/* Filters */}
+      <div className="flex items-center flex-wrap gap-3">
+        <div className="flex rounded-lg border border-gray-300 overflow-hidden">
+          {(['active', 'closed', 'all'] as StatusFilter[]).map(filter => (
+            <button
+              key={filter}
+              onClick={() => setStatusFilter(filter)}
+              className={`px-4 py-2 text-sm font-medium capitalize ${statusFilter === filter ? 'bg-blue-600 text-white' : 'bg-white text-gray-700 hover:bg-gray-50'}`}
+            >
+              {filter}
+            </button>
+          ))}
+        </div>
+        <select
+          value={reasonFilter}
+          onChange={(e) => setReasonFilter(e.target.value as DisputeReason | '')}
+          className="border border-gray-300 rounded-lg px-3.5 py-2 text-sm focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+        >
+          <option value="">All reasons</option>
+          {(Object.keys(REASON_LABELS) as DisputeReason[]).map(reason => (
+            <option key={reason} value={reason}>{REASON_LABELS[reason]}</option>
+          ))}
+        </select>
+        <div className="relative flex-1 min-w-[220px]">
+          <Search className="absolute left-3 top-2.5 w-4 h-4 text-gray-400" />
+          <input
+            type="text"
+            value={search}
+            onChange={(e) => setSearch(e.target.value)}
+            placeholder="Search by customer or invoice number..."
+            className="w-full pl-9 pr-4 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+          />
+        </div>
+      </div>
+
+      {filteredDisputes.length === 0 ? (
+        <div className="bg-white rounded-xl border border-gray-200 p-12 text-center">
+          <div className="w-16 h-16 bg-purple-50 rounded-2xl flex items-center justify-center mx-auto mb-4">
+            <FileWarning className="w-8 h-8 text-purple-500" />
+          </div>
+          <h3 className="text-lg font-semibold text-gray-900 mb-2">No disputes found</h3>
+          <p className="text-gray-500 text-sm max-w-md mx-auto">
+            Disputes opened by collectors or submitted by customers through the statement portal appear here.
+          </p>
+        </div>
+      ) : (
+        <div className="space-y-3">
+          {filteredDisputes.map(dispute => (
+            <button
+              key={dispute.id}
+              onClick={() => setSelectedDisputeId(dispute.id)}
+              className="w-full text-left bg-white rounded-xl border border-gray-200 p-5 transition-all hover:shadow-sm"
+            >
+              <div className="flex items-start justify-between gap-4">
+                <div className="flex-1 min-w-0">
+                  <div className="flex items-center gap-3 mb-1.5">
+                    <h3 className="text-sm font-semibold text-gray-900 truncate">
+                      {dispute.customer_name || dispute.customer_id}
+                    </h3>
+                    <span className={`px-2 py-0.5 rounded-full text-[10px] font-semibold uppercase ${STATUS_STYLES[dispute.status]}`}>
+                      {STATUS_LABELS[dispute.status]}
+                    </span>
+                    <span className="px-2 py-0.5 rounded-full text-[10px] font-semibold bg-gray-100 text-gray-600 uppercase">
+                      {REASON_LABELS[dispute.reason_code]}
+                    </span>
+                    {dispute.source === 'customer_portal' && (
+                      <span className="inline-flex items-center gap-1 px-2 py-0.5 rounded-full text-[10px] font-semibold bg-teal-100 text-teal-700 uppercase">
+                        <Globe className="w-3 h-3" />
+                        Portal
+                      </span>
+                    )}
+                  </div>
+                  {dispute.description && (
+                    <p className="text-xs text-gray-500 mb-2 line-clamp-1">{dispute.description}</p>
+                  )}
+                  <div className="flex items-center flex-wrap gap-x-4 gap-y-1 text-xs text-gray-500">
+                    <span>
+                      {dispute.invoices.map(inv => inv.invoice_reference_number).join(', ')}
+                    </span>
+                    <span className="flex items-center gap-1">
+                      <User className="w-3.5 h-3.5" />
+                      {ownerName(dispute.owner_id)}
+                    </span>
+                    <span>Opened {formatDate(dispute.created_at)}</span>
+                    {dispute.resolved_at && <span>Closed {formatDate(dispute.resolved_at)}</span>}
+                  </div>
+                </div>
+                <div className="text-right flex-shrink-0">
+                  <p className="text-sm font-semibold text-gray-900">{formatCurrency(dispute.disputed_amount)}</p>
+                  <p className="text-xs text-gray-500">
+                    {dispute.invoices.length} invoice{dispute.invoices.length === 1 ? '' : 's'}
+                  </p>
+                </div>
+              </div>
+            </button>
+          ))}
+        </div>
+      )}
+
+      {isFormOpen && (
+        <DisputeFormModal
+          onClose={() => setIsFormOpen(false)}
+          onSaved={fetchDisputes}
+        />
+      )}
+
+      {selectedDisputeId && (
+        <DisputeDetailModal
+          disputeId={selectedDisputeId}
+          staff={staff}
+          onClose={() => setSelectedDisputeId(null)}
+          onChanged={fetchDisputes}
+        />
+      )}
+    </div>
+  );
+}
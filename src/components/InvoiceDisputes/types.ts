@@ -0,0 +1,114 @@
+export type DisputeReason = 'pricing' | 'damaged' | 'not_received' | 'duplicate_billing' | 'other';
+
+export type DisputeStatus =
+  | 'open'
+  | 'investigating'
+  | 'awaiting_customer'
+  | 'resolved'
+  | 'rejected'
+  | 'withdrawn';
+
+export type DisputeEventType =
+  | 'created'
+  | 'status_change'
+  | 'owner_change'
+  | 'comment'
+  | 'attachment_added'
+  | 'invoice_added'
+  | 'invoice_removed';
+
+export interface DisputeInvoice {
+  id: string;
+  dispute_id: string;
+  invoice_reference_number: string;
+  balance_at_dispute: number | null;
+}
+
+export interface DisputeAttachment {
+  id: string;
+  dispute_id: string;
+  file_name: string;
+  storage_path: string;
+  content_type: string | null;
+  file_size: number | null;
+  uploaded_by: string | null;
+  created_at: string;
+}
+
+export interface DisputeEvent {
+  id: string;
+  dispute_id: string;
+  event_type: DisputeEventType;
+  from_value: string | null;
+  to_value: string | null;
+  note: string | null;
+  created_by: string | null;
+  created_at: string;
+}
+
+export interface InvoiceDispute {
+  id: string;
+  customer_id: string;
+  customer_name: string | null;
+  reason_code: DisputeReason;
+  description: string | null;
+  disputed_amount: number | null;
+  status: DisputeStatus;
+  owner_id: string | null;
+  source: 'staff' | 'customer_portal';
+  ticket_id: string | null;
+  resolution_notes: string | null;
+  resolved_at: string | null;
+  opened_by: string | null;
+  created_at: string;
+  updated_at: string;
+  invoices: DisputeInvoice[];
+}
+
+export interface StaffMember {
+  id: string;
+  full_name: string | null;
+  email: string;
+}
+
+export interface Customer {
+  customer_id: string;
+  customer_name: string;
+}
+
+export const REASON_LABELS: Record<DisputeReason, string> = {
+  pricing: 'Pricing',
+  damaged: 'Damaged goods',
+  not_received: 'Not received',
+  duplicate_billing: 'Duplicate billing',
+  other: 'Other',
+};
+
+export const STATUS_LABELS: Record<DisputeStatus, string> = {
+  open: 'Open',
+  investigating: 'Investigating',
+  awaiting_customer: 'Awaiting Customer',
+  resolved: 'Resolved',
+  rejected: 'Rejected',
+  withdrawn: 'Withdrawn',
+};
+
+export const STATUS_STYLES: Record<DisputeStatus, string> = {
+  open: 'bg-purple-100 text-purple-700',
+  investigating: 'bg-blue-100 text-blue-700',
+  awaiting_customer: 'bg-amber-100 text-amber-700',
+  resolved: 'bg-green-100 text-green-700',
+  rejected: 'bg-red-100 text-red-700',
+  withdrawn: 'bg-gray-100 text-gray-600',
+};
+
+export const CLOSED_STATUSES: DisputeStatus[] = ['resolved', 'rejected', 'withdrawn'];
+
+export const isClosedStatus = (status: DisputeStatus) => CLOSED_STATUSES.includes(status);
+
+export const formatFileSize = (bytes: number | null) => {
+  if (!bytes) return '';
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+};
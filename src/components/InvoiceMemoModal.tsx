@@ -1,8 +1,11 @@
 import { useState, useEffect, useRef } from 'react';
-import { X, Save, Mic, Image as ImageIcon, Trash2, Calendar, Clock, FileText, ArrowLeft, Play, Pause, StopCircle, Mail } from 'lucide-react';
+import { X, Save, Mic, Image as ImageIcon, Trash2, Calendar, Clock, FileText, ArrowLeft, Play, Pause, StopCircle, Mail, FileWarning } from 'lucide-react';
 import { supabase } from '../lib/supabase';
 import { useAuth } from '../contexts/AuthContext';
 import { formatDateTime as formatDateTimeUtil } from '../lib/dateUtils';
+import { ACTIVE_DISPUTE_STATUSES } from '../lib/invoiceDisputes';
+import DisputeFormModal from './InvoiceDisputes/DisputeFormModal';
+import { DisputeReason, DisputeStatus, REASON_LABELS, STATUS_LABELS } from './InvoiceDisputes/types';
 
 interface InvoiceMemoModalProps {
   invoice: any;
@@ -46,6 +49,12 @@ interface ActivityLog {
   user_color?: string;
 }
 
+interface ActiveDispute {
+  id: string;
+  status: DisputeStatus;
+  reason_code: DisputeReason;
+}
+
 interface Reminder {
   id: string;
   reminder_date: string;
@@ -64,6 +73,8 @@ export default function InvoiceMemoModal({ invoice, onClose }: InvoiceMemoModalP
   const [loading, setLoading] = useState(true);
   const [saving, setSaving] = useState(false);
   const [activeTab, setActiveTab] = useState<'memos' | 'activity' | 'reminders'>('memos');
+  const [activeDispute, setActiveDispute] = useState<ActiveDispute | null>(null);
+  const [showDisputeForm, setShowDisputeForm] = useState(false);
 
   // Voice recording state
   const [isRecording, setIsRecording] = useState(false);
@@ -109,10 +120,27 @@ export default function InvoiceMemoModal({ invoice, onClose }: InvoiceMemoModalP
 
   const loadAllData = async () => {
     setLoading(true);
-    await Promise.all([loadMemos(), loadActivityLogs(), loadReminders()]);
+    await Promise.all([loadMemos(), loadActivityLogs(), loadReminders(), loadActiveDispute()]);
     setLoading(false);
   };
 
+  const loadActiveDispute = async () => {
+    const { data, error } = await supabase
+      .from('invoice_dispute_invoices')
+      .select('dispute:invoice_disputes!inner(id, status, reason_code)')
+      .eq('invoice_reference_number', invoice.reference_number)
+      .in('dispute.status', ACTIVE_DISPUTE_STATUSES)
+      .limit(1)
+      .maybeSingle();
+
+    if (error) {
+      console.error('Error loading dispute:', error);
+      return;
+    }
+
+    setActiveDispute((data?.dispute as unknown as ActiveDispute) || null);
+  };
+
   const loadMemos = async () => {
     const { data: memosData, error } = await supabase
       .from('invoice_memos')
@@ -647,12 +675,28 @@ export default function InvoiceMemoModal({ invoice, onClose }: InvoiceMemoModalP
               {invoice.customer_name || invoice.customer}
             </p>
           </div>
-          <button
-            onClick={onClose}
-            className="text-slate-400 hover:text-white transition-colors"
-          >
-            <X className="w-6 h-6" />
-          </button>
+          <div className="flex items-center gap-4">
+            {activeDispute ? (
+              <span className="inline-flex items-center gap-1.5 px-3 py-1.5 rounded-lg bg-purple-500/20 border border-purple-400/40 text-purple-200 text-sm font-medium">
+                <FileWarning className="w-4 h-4" />
+                Disputed · {REASON_LABELS[activeDispute.reason_code]} · {STATUS_LABELS[activeDispute.status]}
+              </span>
+            ) : (
+              <button
+                onClick={() => setShowDisputeForm(true)}
+                className="inline-flex items-center gap-1.5 px-3 py-1.5 rounded-lg bg-slate-700 hover:bg-slate-600 text-slate-200 text-sm font-medium transition-colors"
+              >
+                <FileWarning className="w-4 h-4" />
+                Open Dispute
+              </button>
+            )}
+            <button
+              onClick={onClose}
+              className="text-slate-400 hover:text-white transition-colors"
+            >
+              <X className="w-6 h-6" />
+            </button>
+          </div>
         </div>
 
         <div className="flex border-b border-slate-700">
@@ -1085,6 +1129,18 @@ export default function InvoiceMemoModal({ invoice, onClose }: InvoiceMemoModalP
             </div>
           )}
         </div>
+
+        {showDisputeForm && (
+          <DisputeFormModal
+            presetCustomer={{
+              customer_id: invoice.customer,
+              customer_name: invoice.customer_name || invoice.customer,
+            }}
+            presetInvoiceRefs={[invoice.reference_number]}
+            onClose={() => setShowDisputeForm(false)}
+            onSaved={loadActiveDispute}
+          />
+        )}
       </div>
     </div>
   );
@@ -38,13 +38,22 @@ import {
   Send,
   Sliders,
   HeartPulse,
+  MailWarning,
+  FileWarning,
+  LineChart,
+  GitMerge,
+  CalendarCheck,
+  CalendarClock,
+  Landmark,
+  Scale,
 } from 'lucide-react';
 import { useAuth } from '../contexts/AuthContext';
 import RemindersSidebar from './RemindersSidebar';
 import ImpersonationBanner from './ImpersonationBanner';
 import GlobalSearchBar from './GlobalSearch/GlobalSearchBar';
 import { supabase } from '../lib/supabase';
-import { useUserPermissions, LOCKABLE_COMPONENTS } from '../lib/permissions';
+import { useUserPermissions, LOCKABLE_COMPONENTS, PERMISSIONS } from '../lib/permissions';
+import { usePermissions } from '../contexts/PermissionsContext';
 import UserManagementSidebar from './UserManagementSidebar';
 
 import TourLauncher from './GuidedTour/TourLauncher';
@@ -56,6 +65,7 @@ export default function Layout() {
   const location = useLocation();
   useScrollRestoration();
   const { isComponentLocked, isAdmin } = useUserPermissions();
+  const { can, customRoleName } = usePermissions();
   const isCollector = profile?.role === 'collector';
   const canBeAssignedAsCollector = profile?.can_be_assigned_as_collector || profile?.role === 'collector' || profile?.role === 'admin' || profile?.role === 'manager';
   const [showReminders, setShowReminders] = useState(false);
@@ -169,19 +179,26 @@ export default function Layout() {
       items: [
         { id: 'customers', name: 'Customers', icon: Users },
         ...(canBeAssignedAsCollector ? [{ id: 'my-assignments', name: 'My Assignments', icon: Ticket }] : []),
-        ...(!settingsLocked ? [{ id: 'customer-statements', name: 'Statements', icon: Send }] : []),
+        ...(can(PERMISSIONS.CREDIT_MANAGEMENT) ? [{ id: 'credit-management', name: 'Credit Management', icon: Scale }] : []),
+        ...(!settingsLocked && can(PERMISSIONS.STATEMENTS) ? [{ id: 'customer-statements', name: 'Statements', icon: Send }] : []),
+        ...(!settingsLocked && can(PERMISSIONS.STATEMENTS) ? [{ id: 'statement-runs', name: 'Statement Runs', icon: CalendarClock }] : []),
       ]
     },
     ...(!isComponentLocked(LOCKABLE_COMPONENTS.INVOICE_ANALYTICS) ? [{
       title: 'Invoice Management',
       items: [
         { id: 'invoice-analytics', name: 'Invoice Analytics', icon: FileText },
+        ...(can(PERMISSIONS.INVOICE_DISPUTES) ? [{ id: 'invoice-disputes', name: 'Disputes', icon: FileWarning }] : []),
       ]
     }] : []),
     ...(!isComponentLocked(LOCKABLE_COMPONENTS.PAYMENT_ANALYTICS) ? [{
       title: 'Payment Management',
       items: [
         { id: 'payment-analytics', name: 'Payment Analytics', icon: DollarSign },
+        { id: 'payment-matching', name: 'Payment Matching', icon: GitMerge },
+        { id: 'remittance-import', name: 'Bank Remittances', icon: Landmark },
+        { id: 'online-payments', name: 'Online Payments', icon: CreditCard },
+        { id: 'payment-promises', name: 'Promises', icon: CalendarCheck },
       ]
     }] : []),
     {
@@ -211,6 +228,7 @@ export default function Layout() {
     { id: 'collector-control-panel', name: 'Collector Control Panel', icon: Sliders },
     { id: 'customer-analytics', name: 'Customer Analytics', icon: Users },
     { id: 'revenue-analytics', name: 'Revenue Analytics', icon: TrendingUp },
+    { id: 'cash-forecast', name: 'Cash Forecast', icon: LineChart },
     ...(!isComponentLocked(LOCKABLE_COMPONENTS.INVOICE_ANALYTICS) ? [
       { id: 'invoice-analytics', name: 'Invoice Analytics', icon: FileText },
       { id: 'invoice-breakdown', name: 'Invoice Breakdown', icon: FileBarChart },
@@ -228,12 +246,15 @@ export default function Layout() {
     { id: 'invoice-color-settings', name: 'Invoice Color Settings', icon: Palette },
     { id: 'invoice-status-admin', name: 'Invoice Status Admin', icon: ClipboardList },
     { id: 'ticket-status-settings', name: 'Ticket Status Settings', icon: Settings },
-    { id: 'auto-ticket-rules', name: 'Auto-Ticket Rules', icon: Clock },
+    ...(can(PERMISSIONS.AUTO_TICKET_RULES) ? [{ id: 'auto-ticket-rules', name: 'Auto-Ticket Rules', icon: Clock }] : []),
+    { id: 'dunning-sequences', name: 'Dunning Sequences', icon: MailWarning },
     { id: 'user-approval', name: 'User Approval', icon: Shield },
     { id: 'create-user', name: 'Create New User', icon: Users },
+    ...(can(PERMISSIONS.ADMIN_ROLES) ? [{ id: 'roles', name: 'Roles & Permissions', icon: Shield }] : []),
     { id: 'user-activity', name: 'User Activity', icon: Activity },
     { id: 'customer-reports', name: 'Customer Reports', icon: FileBarChart },
     { id: 'customer-report-templates', name: 'Report Templates', icon: FileText },
+    ...(can(PERMISSIONS.STATEMENTS) ? [{ id: 'pdf-templates', name: 'PDF Templates', icon: FileText }] : []),
     { id: 'email-settings', name: 'Email Settings', icon: Mail },
     { id: 'system-documentation', name: 'Documentation', icon: FileText },
   ] : [];
@@ -244,7 +265,7 @@ export default function Layout() {
     { id: 'sync-config', name: 'Sync Configuration', icon: Sliders },
     { id: 'sync-health', name: 'Sync Health', icon: HeartPulse },
     { id: 'webhooks', name: 'Webhooks', icon: Webhook },
-    { id: 'api-keys', name: 'API Keys', icon: Key },
+    ...(can(PERMISSIONS.API_KEYS) ? [{ id: 'api-keys', name: 'API Keys', icon: Key }] : []),
     { id: 'cron-jobs', name: 'Cron Jobs', icon: Clock },
     { id: 'sync-logs', name: 'Sync Change Logs', icon: RefreshCw },
     { id: 'sync-diagnostic', name: 'Sync Diagnostic', icon: Gauge },
@@ -597,7 +618,7 @@ export default function Layout() {
           {!sidebarCollapsed && (
             <div className="mb-3 px-3">
               <p className="text-xs text-blue-600 font-medium truncate">{profile?.email}</p>
-              <p className="text-xs text-blue-400 capitalize">{profile?.role}</p>
+              <p className="text-xs text-blue-400 capitalize">{customRoleName || profile?.role}</p>
             </div>
           )}
           {isAdmin && (
@@ -1,7 +1,8 @@
 import React, { useState, useEffect } from 'react';
-import { RefreshCw, CheckCircle, XCircle, Clock, ArrowLeft } from 'lucide-react';
+import { RefreshCw, CheckCircle, XCircle, Clock, ArrowLeft, Layers } from 'lucide-react';
 import { useNavigate, useParams } from 'react-router-dom';
 import { supabase } from '../lib/supabase';
+import { SyncJob, SYNC_ENTITY_LABELS, SYNC_JOB_STATUS_STYLES, describeSyncJobProgress, fetchSyncJobs } from '../lib/syncJobs';
 
 interface SyncProgress {
   sync_id: string;
@@ -29,6 +30,7 @@ export default function LiveSyncMonitor() {
   };
   const [activeSyncs, setActiveSyncs] = useState<SyncProgress[]>([]);
   const [recentCompleted, setRecentCompleted] = useState<SyncProgress[]>([]);
+  const [orchestratedJobs, setOrchestratedJobs] = useState<SyncJob[]>([]);
 
   useEffect(() => {
     const fetchProgress = async () => {
@@ -46,8 +48,11 @@ export default function LiveSyncMonitor() {
         .order('completed_at', { ascending: false })
         .limit(10);
 
+      const jobs = await fetchSyncJobs({ statuses: ['running', 'waiting', 'queued'], limit: 20 }).catch(() => []);
+
       setActiveSyncs(active || []);
       setRecentCompleted(completed || []);
+      setOrchestratedJobs(jobs);
     };
 
     fetchProgress();
@@ -139,7 +144,53 @@ export default function LiveSyncMonitor() {
           </div>
         )}
 
-        {activeSyncs.length === 0 && (
+        {orchestratedJobs.length > 0 && (
+          <div className="mb-8">
+            <h2 className="text-xl font-semibold text-gray-900 mb-4 flex items-center">
+              <Layers className="w-5 h-5 mr-2 text-blue-600" />
+              Orchestrated Jobs ({orchestratedJobs.length})
+            </h2>
+            <div className="space-y-3">
+              {orchestratedJobs.map((job) => {
+                const percent = job.chunks_total ? Math.min(100, (job.chunks_completed / job.chunks_total) * 100) : 0;
+                return (
+                  <div key={job.id} className="bg-white border border-gray-200 rounded-lg p-4 shadow-sm">
+                    <div className="flex items-center justify-between mb-2">
+                      <div>
+                        <h3 className="font-semibold text-gray-900">
+                          {SYNC_ENTITY_LABELS[job.entity_type]}{' '}
+                          <span className="text-sm font-normal text-gray-500">
+                            {job.mode === 'date_range' ? `${job.params.start_date} to ${job.params.end_date}` : 'incremental'}
+                          </span>
+                        </h3>
+                        <p className="text-sm text-gray-500">
+                          {describeSyncJobProgress(job)}
+                          {job.started_at && job.status === 'running' && ` · running ${formatDuration(job.started_at)}`}
+                        </p>
+                      </div>
+                      <span className={`inline-flex items-center px-3 py-1 rounded-full text-sm font-medium ${SYNC_JOB_STATUS_STYLES[job.status]}`}>
+                        {job.status === 'running' && <RefreshCw className="w-3 h-3 mr-1 animate-spin" />}
+                        {job.cancel_requested ? 'Cancelling' : job.status === 'running' ? 'Running' : job.status === 'waiting' ? 'Waiting' : 'Queued'}
+                      </span>
+                    </div>
+                    {job.chunks_total ? (
+                      <div className="bg-gray-200 rounded-full h-2 overflow-hidden">
+                        <div className="bg-blue-600 h-full transition-all duration-300" style={{ width: `${percent}%` }} />
+                      </div>
+                    ) : null}
+                    <p className="text-xs text-gray-500 mt-2">
+                      {job.progress.fetched} fetched · {job.progress.created} created · {job.progress.updated} updated
+                      {job.progress.errors > 0 && <span className="text-red-600"> · {job.progress.errors} errors</span>}
+                    </p>
+                    {job.last_error && <p className="text-xs text-red-600 mt-1">{job.last_error}</p>}
+                  </div>
+                );
+              })}
+            </div>
+          </div>
+        )}
+
+        {activeSyncs.length === 0 && orchestratedJobs.length === 0 && (
           <div className="bg-white border border-gray-200 rounded-lg p-8 text-center mb-8">
             <Clock className="w-12 h-12 text-gray-400 mx-auto mb-3" />
             <p className="text-gray-600">No active syncs running</p>
@@ -0,0 +1,355 @@
+import { useState, useEffect } from 'react';
+import {
+  ListChecks,
+  Phone,
+  Mail,
+  AlertTriangle,
+  Check,
+  Clock,
+  RefreshCw,
+  ChevronDown,
+  ChevronRight,
+  Loader2,
+  X
+} from 'lucide-react';
+import { addDays, addHours, format, nextMonday, parseISO, setHours, startOfDay } from 'date-fns';
+import { supabase } from '../../lib/supabase';
+import { useAuth } from '../../contexts/AuthContext';
+import { useToast } from '../../contexts/ToastContext';
+import { useOrgNavigation } from '../../hooks/useOrgNavigation';
+import { getLocalToday } from '../../lib/dateUtils';
+import { WorkQueueAction, WorkQueueItem } from './types';
+
+const ACTION_STYLES: Record<WorkQueueAction, { label: string; className: string; icon: typeof Phone }> = {
+  call: { label: 'Call', className: 'bg-blue-50 text-blue-700 border-blue-200', icon: Phone },
+  email: { label: 'Email', className: 'bg-emerald-50 text-emerald-700 border-emerald-200', icon: Mail },
+  escalate: { label: 'Escalate', className: 'bg-red-50 text-red-700 border-red-200', icon: AlertTriangle },
+};
+
+const SNOOZE_OPTIONS: { label: string; until: () => Date }[] = [
+  { label: 'Later today', until: () => addHours(new Date(), 3) },
+  { label: 'Tomorrow morning', until: () => setHours(startOfDay(addDays(new Date(), 1)), 8) },
+  { label: 'Next week', until: () => setHours(startOfDay(nextMonday(new Date())), 8) },
+];
+
+export default function DailyWorkQueue() {
+  const { user } = useAuth();
+  const { showToast } = useToast();
+  const { navigate } = useOrgNavigation();
+  const [items, setItems] = useState<WorkQueueItem[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [refreshing, setRefreshing] = useState(false);
+  const [collapsed, setCollapsed] = useState(false);
+  const [showHandled, setShowHandled] = useState(false);
+  const [completingId, setCompletingId] = useState<string | null>(null);
+  const [snoozingId, setSnoozingId] = useState<string | null>(null);
+  const [note, setNote] = useState('');
+  const [saving, setSaving] = useState(false);
+  const queueDate = getLocalToday();
+
+  useEffect(() => {
+    if (user?.id) loadQueue();
+  }, [user?.id]);
+
+  const loadQueue = async () => {
+    try {
+      setLoading(true);
+      const { data, error } = await supabase
+        .from('collector_work_queue_items')
+        .select('*')
+        .eq('collector_id', user!.id)
+        .eq('queue_date', queueDate)
+        .order('rank', { ascending: true });
+      if (error) throw error;
+      setItems((data || []) as WorkQueueItem[]);
+    } catch (error) {
+      console.error('Error loading work queue:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleRefresh = async () => {
+    try {
+      setRefreshing(true);
+      const { error } = await supabase.rpc('refresh_my_work_queue', { p_queue_date: queueDate });
+      if (error) throw error;
+      await loadQueue();
+    } catch (error) {
+      console.error('Error rebuilding work queue:', error);
+      showToast('Failed to rebuild work queue', 'error');
+    } finally {
+      setRefreshing(false);
+    }
+  };
+
+  const replaceItem = (updated: WorkQueueItem) => {
+    setItems(prev => prev.map(item => (item.id === updated.id ? { ...item, ...updated } : item)));
+  };
+
+  const closeForms = () => {
+    setCompletingId(null);
+    setSnoozingId(null);
+    setNote('');
+  };
+
+  const handleComplete = async (item: WorkQueueItem) => {
+    try {
+      setSaving(true);
+      const { data, error } = await supabase.rpc('complete_work_queue_item', {
+        p_item_id: item.id,
+        p_note: note || null,
+      });
+      if (error) throw error;
+      replaceItem(data as WorkQueueItem);
+      closeForms();
+      showToast(`${item.customer_name || item.customer_id} marked done`, 'success');
+    } catch (error) {
+      console.error('Error completing work queue item:', error);
+      showToast(error instanceof Error ? error.message : 'Failed to complete item', 'error');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleSnooze = async (item: WorkQueueItem, until: Date) => {
+    try {
+      setSaving(true);
+      const { data, error } = await supabase.rpc('snooze_work_queue_item', {
+        p_item_id: item.id,
+        p_until: until.toISOString(),
+        p_note: note || null,
+      });
+      if (error) throw error;
+      replaceItem(data as WorkQueueItem);
+      closeForms();
+      showToast(`Snoozed until ${format(until, 'MMM d, h:mm a')}`, 'success');
+    } catch (error) {
+      console.error('Error snoozing work queue item:', error);
+      showToast(error instanceof Error ? error.message : 'Failed to snooze item', 'error');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  // Snoozes that have run out come back into today's list
+  const isOpen = (item: WorkQueueItem) =>
+    item.status === 'pending' ||
+    (item.status === 'snoozed' && !!item.snoozed_until && parseISO(item.snoozed_until) <= new Date());
+  const openItems = items.filter(isOpen);
+  const handledItems = items.filter(item => !isOpen(item));
+  const completedCount = items.filter(item => item.status === 'completed').length;
+  const progress = items.length > 0 ? Math.round((completedCount / items.length) * 100) : 0;
+
+  if (collapsed) {
+    return (
+      <div className="bg-white rounded-xl shadow-sm border border-gray-200 mb-4 p-4">
+        <button
+          onClick={() => setCollapsed(false)}
+          className="flex items-center gap-2 text-gray-700 hover:text-gray-900 font-medium transition-colors"
+        >
+          <ListChecks className="w-5 h-5 text-blue-600" />
+          <span>Show Today's Queue</span>
+          {items.length > 0 && (
+            <span className="text-xs text-gray-500">({openItems.length} to do)</span>
+          )}
+          <ChevronRight className="w-4 h-4" />
+        </button>
+      </div>
+    );
+  }
+
+  return (
+    <div className="bg-white rounded-xl shadow-sm border border-gray-200 mb-4 overflow-hidden">
+      <div className="flex items-center justify-between px-6 py-4 border-b border-gray-100 bg-gradient-to-r from-slate-50 to-white">
+        <div className="flex items-center gap-3">
+          <ListChecks className="w-5 h-5 text-blue-600" />
+          <h2 className="text-lg font-semibold text-gray-900">Today's Queue</h2>
+          <button
+            onClick={() => setCollapsed(true)}
+            className="ml-2 text-gray-400 hover:text-gray-600 transition-colors"
+            title="Collapse queue"
+          >
+            <X className="w-4 h-4" />
+          </button>
+        </div>
+        <div className="flex items-center gap-4">
+          {items.length > 0 && (
+            <div className="flex items-center gap-2">
+              <div className="w-32 h-2 bg-gray-100 rounded-full overflow-hidden">
+                <div className="h-full bg-emerald-500 rounded-full transition-all" style={{ width: `${progress}%` }} />
+              </div>
+              <span className="text-xs text-gray-600 tabular-nums">
+                {completedCount} / {items.length} done
+              </span>
+            </div>
+          )}
+          <button
+            onClick={handleRefresh}
+            disabled={refreshing}
+            className="flex items-center gap-1.5 px-3 py-1.5 text-xs font-medium text-gray-700 bg-white border border-gray-300 rounded-lg hover:bg-gray-50 disabled:opacity-50"
+            title="Re-rank with the latest balances, promises and replies"
+          >
+            <RefreshCw className={`w-3.5 h-3.5 ${refreshing ? 'animate-spin' : ''}`} />
+            {items.length > 0 ? 'Re-rank' : 'Build queue'}
+          </button>
+        </div>
+      </div>
+
+      {loading ? (
+        <div className="flex items-center justify-center py-8">
+          <Loader2 className="w-5 h-5 animate-spin text-gray-400" />
+        </div>
+      ) : items.length === 0 ? (
+        <div className="px-6 py-6 text-sm text-gray-500">
+          No queue for today yet. Queues are built every morning from your assigned accounts -- use "Build queue" to create one now.
+        </div>
+      ) : (
+        <div className="divide-y divide-gray-100 max-h-[420px] overflow-y-auto">
+          {openItems.length === 0 && (
+            <div className="px-6 py-5 text-sm text-emerald-700 flex items-center gap-2">
+              <Check className="w-4 h-4" />
+              Everything in today's queue has been handled.
+            </div>
+          )}
+
+          {openItems.map(item => {
+            const action = ACTION_STYLES[item.suggested_action];
+            const ActionIcon = action.icon;
+            return (
+              <div key={item.id} className="px-6 py-3">
+                <div className="flex items-start gap-4">
+                  <span className="w-6 text-sm font-semibold text-gray-400 tabular-nums pt-0.5">{item.rank}</span>
+                  <div className="flex-1 min-w-0">
+                    <div className="flex items-center gap-2 flex-wrap">
+                      <button
+                        onClick={() => navigate(`/customers?customer=${item.customer_id}`)}
+                        className="font-medium text-gray-900 hover:text-blue-600 truncate"
+                      >
+                        {item.customer_name || item.customer_id}
+                      </button>
+                      <span className={`inline-flex items-center gap-1 px-2 py-0.5 rounded-full border text-xs font-medium ${action.className}`}>
+                        <ActionIcon className="w-3 h-3" />
+                        {action.label}
+                      </span>
+                      {item.action_reason && <span className="text-xs text-gray-500">{item.action_reason}</span>}
+                    </div>
+                    <div className="flex flex-wrap gap-1.5 mt-1.5">
+                      {item.reasons.map(reason => (
+                        <span
+                          key={reason.reason}
+                          title={`${reason.detail} (+${reason.points})`}
+                          className="px-2 py-0.5 bg-gray-100 text-gray-700 rounded text-[11px]"
+                        >
+                          {reason.label}: {reason.detail}
+                        </span>
+                      ))}
+                    </div>
+                  </div>
+                  <div className="text-right text-xs text-gray-500 whitespace-nowrap">
+                    <div className="text-sm font-semibold text-gray-900">
+                      ${Number(item.balance_at_risk).toLocaleString(undefined, { maximumFractionDigits: 0 })}
+                    </div>
+                    {item.max_days_overdue > 0 && <div>{item.max_days_overdue} days overdue</div>}
+                  </div>
+                  <div className="flex items-center gap-1.5">
+                    {item.ticket_id && (
+                      <button
+                        onClick={() => navigate(`/ticket/${item.ticket_id}`)}
+                        className="px-2.5 py-1.5 text-xs font-medium text-blue-700 hover:bg-blue-50 rounded-lg"
+                      >
+                        Open ticket
+                      </button>
+                    )}
+                    <button
+                      onClick={() => { closeForms(); setCompletingId(item.id); }}
+                      className="flex items-center gap-1 px-2.5 py-1.5 text-xs font-medium text-white bg-emerald-600 hover:bg-emerald-700 rounded-lg"
+                    >
+                      <Check className="w-3.5 h-3.5" />
+                      Done
+                    </button>
+                    <button
+                      onClick={() => { closeForms(); setSnoozingId(item.id); }}
+                      className="flex items-center gap-1 px-2.5 py-1.5 text-xs font-medium text-gray-700 border border-gray-300 hover:bg-gray-50 rounded-lg"
+                    >
+                      <Clock className="w-3.5 h-3.5" />
+                      Snooze
+                    </button>
+                  </div>
+                </div>
+
+                {(completingId === item.id || snoozingId === item.id) && (
+                  <div className="mt-3 ml-10 flex items-center gap-2">
+                    <input
+                      type="text"
+                      value={note}
+                      onChange={e => setNote(e.target.value)}
+                      placeholder={completingId === item.id ? 'Outcome (optional), e.g. left voicemail' : 'Reason (optional)'}
+                      className="flex-1 px-3 py-1.5 text-sm border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                      autoFocus
+                    />
+                    {completingId === item.id ? (
+                      <button
+                        onClick={() => handleComplete(item)}
+                        disabled={saving}
+                        className="px-3 py-1.5 text-xs font-medium text-white bg-emerald-600 hover:bg-emerald-700 rounded-lg disabled:opacity-50"
+                      >
+                        Mark done
+                      </button>
+                    ) : (
+                      SNOOZE_OPTIONS.map(option => (
+                        <button
+                          key={option.label}
+                          onClick={() => handleSnooze(item, option.until())}
+                          disabled={saving}
+                          className="px-3 py-1.5 text-xs font-medium text-gray-700 border border-gray-300 hover:bg-gray-50 rounded-lg disabled:opacity-50"
+                        >
+                          {option.label}
+                        </button>
+                      ))
+                    )}
+                    <button onClick={closeForms} className="p-1.5 text-gray-400 hover:text-gray-600">
+                      <X className="w-4 h-4" />
+                    </button>
+                  </div>
+                )}
+              </div>
+            );
+          })}
+
+          {handledItems.length > 0 && (
+            <div className="px-6 py-2 bg-gray-50">
+              <button
+                onClick={() => setShowHandled(!showHandled)}
+                className="flex items-center gap-1 text-xs font-medium text-gray-600 hover:text-gray-800"
+              >
+                {showHandled ? <ChevronDown className="w-3.5 h-3.5" /> : <ChevronRight className="w-3.5 h-3.5" />}
+                Handled today ({handledItems.length})
+              </button>
+              {showHandled && (
+                <div className="mt-2 space-y-1">
+                  {handledItems.map(item => (
+                    <div key={item.id} className="flex items-center gap-3 text-xs text-gray-600">
+                      {item.status === 'completed' ? (
+                        <Check className="w-3.5 h-3.5 text-emerald-600" />
+                      ) : (
+                        <Clock className="w-3.5 h-3.5 text-amber-500" />
+                      )}
+                      <span className="font-medium text-gray-800">{item.customer_name || item.customer_id}</span>
+                      <span>
+                        {item.status === 'completed'
+                          ? `Done ${item.completed_at ? format(parseISO(item.completed_at), 'h:mm a') : ''}`
+                          : `Snoozed until ${item.snoozed_until ? format(parseISO(item.snoozed_until), 'MMM d, h:mm a') : ''}`}
+                      </span>
+                      {item.outcome_note && <span className="text-gray-400 truncate">{item.outcome_note}</span>}
+                    </div>
+                  ))}
+                </div>
+              )}
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
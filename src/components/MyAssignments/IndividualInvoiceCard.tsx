@@ -69,6 +69,11 @@ export default function IndividualInvoiceCard({
                 BROKEN PROMISE
               </span>
             )}
+            {!!invoice.pending_cash && (
+              <span className="px-2 py-1 rounded text-xs font-semibold bg-teal-100 text-teal-800 border border-teal-300" title="Payment received at the bank and matched to this invoice; not yet posted in Acumatica">
+                Cash received, pending posting · ${invoice.pending_cash.toLocaleString('en-US', { minimumFractionDigits: 2 })}
+              </span>
+            )}
             <div className="relative color-picker-container">
               <button
                 onClick={(e) => {
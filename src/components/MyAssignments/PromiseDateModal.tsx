@@ -1,19 +1,29 @@
 import { useState } from 'react';
 import { getLocalToday } from '../../lib/dateUtils';
+import { CHANNEL_LABELS, PromiseChannel } from '../PaymentPromises/types';
+
+export interface InvoicePromiseDetails {
+  date: string;
+  amount: number;
+  channel: PromiseChannel;
+}
 
 interface PromiseDateModalProps {
   invoiceNumber: string;
-  onConfirm: (date: string) => void;
+  defaultAmount?: number;
+  onConfirm: (details: InvoicePromiseDetails) => void;
   onCancel: () => void;
 }
 
-export default function PromiseDateModal({ invoiceNumber, onConfirm, onCancel }: PromiseDateModalProps) {
+export default function PromiseDateModal({ invoiceNumber, defaultAmount, onConfirm, onCancel }: PromiseDateModalProps) {
   const today = getLocalToday();
   const [selectedDate, setSelectedDate] = useState(today);
+  const [amount, setAmount] = useState(defaultAmount ? defaultAmount.toFixed(2) : '');
+  const [channel, setChannel] = useState<PromiseChannel>('phone');
 
   const handleConfirm = () => {
-    if (selectedDate) {
-      onConfirm(selectedDate);
+    if (selectedDate && Number(amount) > 0) {
+      onConfirm({ date: selectedDate, amount: Math.round(Number(amount) * 100) / 100, channel });
     }
   };
 
@@ -29,21 +39,53 @@ export default function PromiseDateModal({ invoiceNumber, onConfirm, onCancel }:
           </p>
         </div>
 
-        <div className="p-6">
-          <label className="block text-sm font-medium text-gray-700 mb-2">
-            When did the customer promise to pay?
-          </label>
-          <input
-            type="date"
-            value={selectedDate}
-            onChange={(e) => setSelectedDate(e.target.value)}
-            min={today}
-            className="w-full px-4 py-3 text-lg border border-gray-300 rounded-lg focus:ring-2 focus:ring-green-500 focus:border-transparent"
-            autoFocus
-          />
-          <p className="text-xs text-gray-500 mt-2">
-            Select the date the customer promised to make payment
-          </p>
+        <div className="p-6 space-y-4">
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">
+              When did the customer promise to pay?
+            </label>
+            <input
+              type="date"
+              value={selectedDate}
+              onChange={(e) => setSelectedDate(e.target.value)}
+              min={today}
+              className="w-full px-4 py-3 text-lg border border-gray-300 rounded-lg focus:ring-2 focus:ring-green-500 focus:border-transparent"
+              autoFocus
+            />
+            <p className="text-xs text-gray-500 mt-2">
+              Select the date the customer promised to make payment
+            </p>
+          </div>
+
+          <div className="grid grid-cols-2 gap-3">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">Amount</label>
+              <div className="relative">
+                <span className="absolute left-3 top-1/2 -translate-y-1/2 text-gray-500 text-sm">$</span>
+                <input
+                  type="number"
+                  min="0"
+                  step="0.01"
+                  value={amount}
+                  onChange={(e) => setAmount(e.target.value)}
+                  className="w-full pl-7 pr-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-green-500 focus:border-transparent"
+                  placeholder="0.00"
+                />
+              </div>
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">Channel</label>
+              <select
+                value={channel}
+                onChange={(e) => setChannel(e.target.value as PromiseChannel)}
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-green-500 focus:border-transparent"
+              >
+                {(Object.keys(CHANNEL_LABELS) as PromiseChannel[]).map(value => (
+                  <option key={value} value={value}>{CHANNEL_LABELS[value]}</option>
+                ))}
+              </select>
+            </div>
+          </div>
         </div>
 
         <div className="p-6 border-t border-gray-200 flex justify-end gap-3">
@@ -55,7 +97,7 @@ export default function PromiseDateModal({ invoiceNumber, onConfirm, onCancel }:
           </button>
           <button
             onClick={handleConfirm}
-            disabled={!selectedDate}
+            disabled={!selectedDate || !(Number(amount) > 0)}
             className="px-6 py-2 bg-green-600 text-white rounded-lg hover:bg-green-700 font-medium disabled:opacity-50 disabled:cursor-not-allowed"
           >
             Confirm
@@ -140,6 +140,8 @@ export default function TicketCard({
   const rawOpenInvoices = ticket.invoices.filter(inv => inv.balance > 0 && inv.invoice_status !== 'Closed');
   const openInvoices = invoiceSortField ? sortInvoices(rawOpenInvoices, invoiceSortField, invoiceSortDir) : rawOpenInvoices;
   const paidInvoices = ticket.invoices.filter(inv => inv.balance <= 0 || inv.invoice_status === 'Closed');
+  const pendingCashInvoices = rawOpenInvoices.filter(inv => inv.pending_cash);
+  const pendingCashTotal = pendingCashInvoices.reduce((sum, inv) => sum + (inv.pending_cash || 0), 0);
 
   const loadAvailableInvoices = async () => {
     setLoadingAvailable(true);
@@ -505,6 +507,18 @@ export default function TicketCard({
           </div>
         )}
 
+        {pendingCashInvoices.length > 0 && (
+          <div className="mb-2 px-2.5 py-1.5 bg-teal-50 border border-teal-300 rounded flex items-center gap-2 text-xs">
+            <Banknote className="w-3.5 h-3.5 text-teal-600 flex-shrink-0" />
+            <div>
+              <span className="font-bold text-teal-800">CASH RECEIVED, PENDING POSTING</span>
+              <span className="text-teal-700 ml-1.5">
+                ${pendingCashTotal.toLocaleString('en-US', { minimumFractionDigits: 2 })} at the bank for {pendingCashInvoices.length} invoice{pendingCashInvoices.length === 1 ? '' : 's'}
+              </span>
+            </div>
+          </div>
+        )}
+
         {ticket.ticket_status === 'promised' && ticket.promise_date && !isBrokenPromise && (
           <div className="mb-2 px-2.5 py-1.5 bg-blue-50 border border-blue-200 rounded flex items-center gap-2 text-xs">
             <Calendar className="w-3.5 h-3.5 text-blue-600 flex-shrink-0" />
@@ -956,6 +970,7 @@ export default function TicketCard({
                           <div className="flex items-center gap-1">
                             <span className={`px-1.5 py-0.5 rounded text-[10px] font-medium ${invoice.invoice_status === 'Open' ? 'bg-green-100 text-green-800' : 'bg-gray-100 text-gray-700'}`}>{invoice.invoice_status}</span>
                             {brokenPromise && <span className="px-1 py-0.5 rounded text-[9px] font-bold bg-red-600 text-white" title={`Promise date was ${formatDate(invoice.promise_date!)}`}>BP</span>}
+                            {!!invoice.pending_cash && <span className="px-1 py-0.5 rounded text-[9px] font-bold bg-teal-600 text-white" title={`Cash received, pending posting: $${invoice.pending_cash.toLocaleString('en-US', { minimumFractionDigits: 2 })}`}>PAID</span>}
                           </div>
                         </td>
                         <td className="px-1.5 py-1 border-r border-gray-100 text-gray-600 whitespace-nowrap">{invoice.date ? formatDate(invoice.date) : '-'}</td>
@@ -2,10 +2,12 @@ import { useState, useEffect } from 'react';
 import {
   X, Send, Loader2, Mail, Sparkles, Bell, Ticket, Clock,
   ChevronDown, ChevronUp, RefreshCw, CheckCircle, AlertTriangle,
-  Settings, Server,
+  Settings, Server, CreditCard,
 } from 'lucide-react';
 import { supabase } from '../../lib/supabase';
 import { useToast } from '../../contexts/ToastContext';
+import { CustomerContact, contactEmailsForRoles, fetchCustomerContacts } from '../../lib/customerContacts';
+import ContactRecipientPicker from '../ContactRecipientPicker';
 import { TicketGroup } from './types';
 
 interface TicketEmailComposerProps {
@@ -40,6 +42,8 @@ interface SmtpConfig {
 export default function TicketEmailComposer({ isOpen, ticket, onClose, onEmailSent }: TicketEmailComposerProps) {
   const { showToast } = useToast();
   const [toEmail, setToEmail] = useState('');
+  const [contacts, setContacts] = useState<CustomerContact[]>([]);
+  const [contactEmails, setContactEmails] = useState<string[]>([]);
   const [subject, setSubject] = useState(`Regarding Account ${ticket.customer_name} - Ticket #${ticket.ticket_number}`);
   const [body, setBody] = useState('');
   const [sending, setSending] = useState(false);
@@ -58,12 +62,13 @@ export default function TicketEmailComposer({ isOpen, ticket, onClose, onEmailSe
   const [reminderNote, setReminderNote] = useState('');
   const [autoCreateTicket, setAutoCreateTicket] = useState(false);
   const [ticketCreationMode, setTicketCreationMode] = useState<'manual' | 'auto'>('manual');
+  const [includePayLink, setIncludePayLink] = useState(true);
 
   useEffect(() => {
     if (isOpen) {
       fetchEmailThreads();
       fetchSmtpConfigs();
-      fetchCustomerEmail();
+      fetchRecipients();
       fetchEmailSettings();
     }
   }, [isOpen, ticket.ticket_id]);
@@ -100,15 +105,23 @@ export default function TicketEmailComposer({ isOpen, ticket, onClose, onEmailSe
     }
   };
 
-  const fetchCustomerEmail = async () => {
+  // Starts with the customer's AP and billing contacts; with none, the
+  // customer's email on file goes in the To field
+  const fetchRecipients = async () => {
     try {
+      const customerContacts = await fetchCustomerContacts(ticket.customer_id);
+      setContacts(customerContacts);
+      const defaults = contactEmailsForRoles(customerContacts, ['ap', 'billing']);
+      setContactEmails(defaults);
+      if (defaults.length > 0) return;
+
       const { data } = await supabase
         .from('acumatica_customers')
-        .select('email')
+        .select('email_address')
         .eq('customer_id', ticket.customer_id)
         .maybeSingle();
-      if (data?.email) {
-        setToEmail(data.email);
+      if (data?.email_address && !customerContacts.some(c => c.do_not_contact && c.email === data.email_address.toLowerCase())) {
+        setToEmail(data.email_address);
       }
     } catch {
       // ignore
@@ -164,7 +177,7 @@ export default function TicketEmailComposer({ isOpen, ticket, onClose, onEmailSe
   };
 
   const handleSend = async () => {
-    if (!toEmail || !subject || !body.trim()) {
+    if ((!toEmail.trim() && contactEmails.length === 0) || !subject || !body.trim()) {
       showToast('Please fill in all fields', 'error');
       return;
     }
@@ -183,7 +196,8 @@ export default function TicketEmailComposer({ isOpen, ticket, onClose, onEmailSe
         body: JSON.stringify({
           ticket_id: ticket.ticket_id,
           customer_id: ticket.customer_id,
-          to_email: toEmail,
+          to_email: toEmail.trim() || null,
+          to_emails: contactEmails,
           subject,
           body_text: body,
           send_via: sendVia,
@@ -193,6 +207,8 @@ export default function TicketEmailComposer({ isOpen, ticket, onClose, onEmailSe
           reminder_note: reminderNote || null,
           auto_create_ticket: autoCreateTicket,
           ticket_creation_mode: ticketCreationMode,
+          include_pay_link: includePayLink,
+          portal_base_url: window.location.origin,
         }),
       });
 
@@ -331,11 +347,16 @@ export default function TicketEmailComposer({ isOpen, ticket, onClose, onEmailSe
             {/* To */}
             <div>
               <label className="block text-xs font-medium text-gray-600 mb-1">To</label>
+              {contacts.length > 0 && (
+                <div className="mb-2">
+                  <ContactRecipientPicker contacts={contacts} selected={contactEmails} onChange={setContactEmails} />
+                </div>
+              )}
               <input
                 type="email"
                 value={toEmail}
                 onChange={(e) => setToEmail(e.target.value)}
-                placeholder="customer@example.com"
+                placeholder={contactEmails.length > 0 ? 'Another address (optional)' : 'customer@example.com'}
                 className="w-full border border-gray-300 rounded-lg px-3.5 py-2.5 text-sm focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
               />
             </div>
@@ -371,6 +392,16 @@ export default function TicketEmailComposer({ isOpen, ticket, onClose, onEmailSe
                 placeholder="Type your message..."
                 className="w-full border border-gray-300 rounded-lg px-3.5 py-2.5 text-sm focus:ring-2 focus:ring-blue-500 focus:border-blue-500 resize-none"
               />
+              <label className="mt-2 flex items-center gap-2 text-xs text-gray-600 cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={includePayLink}
+                  onChange={(e) => setIncludePayLink(e.target.checked)}
+                  className="rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+                />
+                <CreditCard className="w-3.5 h-3.5 text-green-600" />
+                Add a "Pay now" link for this ticket's invoices
+              </label>
             </div>
 
             {/* AI Suggestion */}
@@ -488,7 +519,7 @@ export default function TicketEmailComposer({ isOpen, ticket, onClose, onEmailSe
           </button>
           <button
             onClick={handleSend}
-            disabled={sending || !toEmail || !subject || !body.trim()}
+            disabled={sending || (!toEmail.trim() && contactEmails.length === 0) || !subject || !body.trim()}
             className="flex items-center gap-2 px-5 py-2.5 bg-blue-600 text-white rounded-lg text-sm font-medium hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
           >
             {sending ? <Loader2 className="w-4 h-4 animate-spin" /> : <Send className="w-4 h-4" />}
@@ -2,13 +2,13 @@ import { useState, useEffect } from 'react';
 import { formatDistanceToNow, format } from 'date-fns';
 import {
   Clock, AlertCircle, ArrowRightLeft, Flag, FileText,
-  Plus, Loader2, MessageSquare, Paperclip, Image
+  Plus, Loader2, MessageSquare, Paperclip, Image, Mail
 } from 'lucide-react';
 import { supabase } from '../../lib/supabase';
 
 interface ActivityEntry {
   id: string;
-  type: 'activity' | 'note';
+  type: 'activity' | 'note' | 'email';
   activity_type?: string;
   description: string;
   created_at: string;
@@ -17,6 +17,13 @@ interface ActivityEntry {
   has_attachments?: boolean;
   has_image?: boolean;
   document_urls?: string[];
+  email?: {
+    direction: 'inbound' | 'outbound';
+    from_email: string;
+    to_email: string;
+    subject: string;
+    body: string;
+  };
 }
 
 interface TicketHistoryProps {
@@ -29,6 +36,8 @@ const ACTIVITY_ICONS: Record<string, typeof Clock> = {
   priority_changed: Flag,
   note: MessageSquare,
   invoice_added: FileText,
+  email_sent: Mail,
+  email_received: Mail,
 };
 
 const ACTIVITY_COLORS: Record<string, string> = {
@@ -37,6 +46,8 @@ const ACTIVITY_COLORS: Record<string, string> = {
   priority_changed: 'bg-amber-500',
   note: 'bg-teal-500',
   invoice_added: 'bg-cyan-500',
+  email_sent: 'bg-sky-500',
+  email_received: 'bg-rose-500',
 };
 
 const ACTIVITY_LABELS: Record<string, string> = {
@@ -45,8 +56,14 @@ const ACTIVITY_LABELS: Record<string, string> = {
   priority_changed: 'Priority Change',
   note: 'Note',
   invoice_added: 'Invoice Added',
+  email_sent: 'Email Sent',
+  email_received: 'Customer Reply',
 };
 
+// Outbound ticket emails carry a [ref:...] marker for reply matching; it is
+// noise in the timeline.
+const stripReplyMarker = (text: string) => text.replace(/\s*\[ref:[0-9a-f]{24}\]\s*$/i, '');
+
 export default function TicketHistory({ ticketId }: TicketHistoryProps) {
   const [entries, setEntries] = useState<ActivityEntry[]>([]);
   const [loading, setLoading] = useState(true);
@@ -58,7 +75,7 @@ export default function TicketHistory({ ticketId }: TicketHistoryProps) {
       setError(null);
 
       try {
-        const [activityResult, notesResult] = await Promise.all([
+        const [activityResult, notesResult, emailsResult] = await Promise.all([
           supabase
             .from('ticket_activity_log')
             .select(`
@@ -80,24 +97,63 @@ export default function TicketHistory({ ticketId }: TicketHistoryProps) {
               has_image,
               document_urls,
               created_at,
+              author_name,
               created_by:user_profiles!ticket_notes_created_by_user_id_fkey(full_name, email)
             `)
             .eq('ticket_id', ticketId)
+            .order('created_at', { ascending: false }),
+          supabase
+            .from('ticket_email_threads')
+            .select(`
+              id,
+              direction,
+              from_email,
+              to_email,
+              subject,
+              body_text,
+              created_at,
+              sent_by:user_profiles!ticket_email_threads_sent_by_fkey(full_name, email)
+            `)
+            .eq('ticket_id', ticketId)
             .order('created_at', { ascending: false })
         ]);
 
         if (activityResult.error) throw activityResult.error;
         if (notesResult.error) throw notesResult.error;
+        if (emailsResult.error) throw emailsResult.error;
 
-        const activityEntries: ActivityEntry[] = (activityResult.data || []).map((a: any) => ({
-          id: a.id,
-          type: 'activity' as const,
-          activity_type: a.activity_type,
-          description: a.description,
-          created_at: a.created_at,
-          created_by_name: a.created_by?.full_name || a.created_by?.email || 'System',
-          metadata: a.metadata,
+        const emailEntries: ActivityEntry[] = (emailsResult.data || []).map((e: any) => ({
+          id: e.id,
+          type: 'email' as const,
+          activity_type: e.direction === 'inbound' ? 'email_received' : 'email_sent',
+          description: e.subject,
+          created_at: e.created_at,
+          created_by_name: e.direction === 'inbound'
+            ? e.from_email
+            : e.sent_by?.full_name || e.sent_by?.email || e.from_email,
+          email: {
+            direction: e.direction,
+            from_email: e.from_email,
+            to_email: e.to_email,
+            subject: e.subject,
+            body: stripReplyMarker(e.body_text || ''),
+          },
         }));
+        const shownEmailIds = new Set(emailEntries.map(e => e.id));
+
+        // The activity log also records each email; show the message itself
+        // instead of the one-line log entry.
+        const activityEntries: ActivityEntry[] = (activityResult.data || [])
+          .filter((a: any) => !shownEmailIds.has(a.metadata?.email_thread_id))
+          .map((a: any) => ({
+            id: a.id,
+            type: 'activity' as const,
+            activity_type: a.activity_type,
+            description: a.description,
+            created_at: a.created_at,
+            created_by_name: a.created_by?.full_name || a.created_by?.email || 'System',
+            metadata: a.metadata,
+          }));
 
         const noteEntries: ActivityEntry[] = (notesResult.data || []).map((n: any) => ({
           id: n.id,
@@ -105,13 +161,13 @@ export default function TicketHistory({ ticketId }: TicketHistoryProps) {
           activity_type: 'note',
           description: n.note_text,
           created_at: n.created_at,
-          created_by_name: n.created_by?.full_name || n.created_by?.email || 'System',
+          created_by_name: n.created_by?.full_name || n.created_by?.email || n.author_name || 'System',
           has_image: n.has_image,
           has_attachments: n.document_urls && n.document_urls.length > 0,
           document_urls: n.document_urls,
         }));
 
-        const combined = [...activityEntries, ...noteEntries]
+        const combined = [...activityEntries, ...noteEntries, ...emailEntries]
           .sort((a, b) => new Date(b.created_at).getTime() - new Date(a.created_at).getTime());
 
         const seen = new Set<string>();
@@ -185,6 +241,8 @@ export default function TicketHistory({ ticketId }: TicketHistoryProps) {
                     entry.activity_type === 'note' && entry.type === 'note' ? 'bg-teal-100 text-teal-800' :
                     entry.activity_type === 'note' ? 'bg-teal-100 text-teal-800' :
                     entry.activity_type === 'invoice_added' ? 'bg-cyan-100 text-cyan-800' :
+                    entry.activity_type === 'email_sent' ? 'bg-sky-100 text-sky-800' :
+                    entry.activity_type === 'email_received' ? 'bg-rose-100 text-rose-800' :
                     'bg-gray-100 text-gray-800'
                   }`}>
                     {label}
@@ -194,9 +252,26 @@ export default function TicketHistory({ ticketId }: TicketHistoryProps) {
                   </span>
                 </div>
 
-                <p className="text-sm text-gray-800 leading-relaxed">
-                  {entry.description}
-                </p>
+                {entry.email ? (
+                  <div className="space-y-1.5">
+                    <p className="text-sm font-medium text-gray-900">{entry.email.subject}</p>
+                    <p className="text-xs text-gray-500">
+                      {entry.email.direction === 'inbound' ? 'From' : 'To'}{' '}
+                      {entry.email.direction === 'inbound' ? entry.email.from_email : entry.email.to_email}
+                    </p>
+                    {entry.email.body && (
+                      <p className={`text-sm text-gray-800 leading-relaxed whitespace-pre-wrap p-2 rounded border-l-2 ${
+                        entry.email.direction === 'inbound' ? 'bg-rose-50/50 border-rose-300' : 'bg-sky-50/50 border-sky-300'
+                      }`}>
+                        {entry.email.body}
+                      </p>
+                    )}
+                  </div>
+                ) : (
+                  <p className="text-sm text-gray-800 leading-relaxed">
+                    {entry.description}
+                  </p>
+                )}
 
                 <div className="flex items-center gap-3 mt-1.5">
                   <span className="text-xs text-gray-500">
@@ -1,8 +1,15 @@
-import { useState } from 'react';
+import { useState, useEffect } from 'react';
 import { useNavigate, useParams } from 'react-router-dom';
-import { X, Calendar, Bell } from 'lucide-react';
+import { X, Calendar, Bell, Plus, Trash2, Loader2 } from 'lucide-react';
 import { supabase } from '../../lib/supabase';
 import { formatDate, getLocalToday } from '../../lib/dateUtils';
+import {
+  CHANNEL_LABELS,
+  InstallmentDraft,
+  PromiseChannel,
+  formatCurrency,
+  toInstallmentPayload,
+} from '../PaymentPromises/types';
 
 interface TicketPromiseDateModalProps {
   ticketId: string;
@@ -12,6 +19,12 @@ interface TicketPromiseDateModalProps {
   onSuccess: () => void;
 }
 
+interface TicketInvoice {
+  reference_number: string;
+  balance: number;
+  due_date: string | null;
+}
+
 export default function TicketPromiseDateModal({
   ticketId,
   ticketNumber,
@@ -28,14 +41,94 @@ export default function TicketPromiseDateModal({
       rawNavigate(path, options);
     }
   };
-  const [promiseDate, setPromiseDate] = useState('');
+  const [invoices, setInvoices] = useState<TicketInvoice[]>([]);
+  const [selectedInvoices, setSelectedInvoices] = useState<Set<string>>(new Set());
+  const [loadingInvoices, setLoadingInvoices] = useState(true);
+  const [isPlan, setIsPlan] = useState(false);
+  const [installments, setInstallments] = useState<InstallmentDraft[]>([{ due_date: '', amount: '' }]);
+  const [amountEdited, setAmountEdited] = useState(false);
+  const [channel, setChannel] = useState<PromiseChannel>('phone');
+  const [notes, setNotes] = useState('');
   const [createReminder, setCreateReminder] = useState(true);
   const [saving, setSaving] = useState(false);
   const [error, setError] = useState('');
 
+  useEffect(() => {
+    const loadInvoices = async () => {
+      try {
+        const { data: links, error: linkError } = await supabase
+          .from('ticket_invoices')
+          .select('invoice_reference_number')
+          .eq('ticket_id', ticketId);
+        if (linkError) throw linkError;
+
+        const refs = (links || []).map(l => l.invoice_reference_number);
+        if (refs.length === 0) return;
+
+        const { data, error: invoiceError } = await supabase
+          .from('acumatica_invoices')
+          .select('reference_number, balance, due_date')
+          .in('reference_number', refs)
+          .gt('balance', 0)
+          .order('due_date', { ascending: true });
+        if (invoiceError) throw invoiceError;
+
+        setInvoices(data || []);
+        setSelectedInvoices(new Set((data || []).map(inv => inv.reference_number)));
+      } catch (err) {
+        console.error('Error loading ticket invoices:', err);
+      } finally {
+        setLoadingInvoices(false);
+      }
+    };
+
+    loadInvoices();
+  }, [ticketId]);
+
+  const selectedTotal = invoices
+    .filter(inv => selectedInvoices.has(inv.reference_number))
+    .reduce((sum, inv) => sum + Number(inv.balance), 0);
+
+  // Until the amount is typed in, a single promise covers the selected invoices.
+  useEffect(() => {
+    if (isPlan || amountEdited) return;
+    setInstallments(rows => [{ ...rows[0], amount: selectedTotal > 0 ? selectedTotal.toFixed(2) : '' }]);
+  }, [selectedTotal, isPlan, amountEdited]);
+
+  const planTotal = installments.reduce((sum, row) => sum + (Number(row.amount) || 0), 0);
+
+  const toggleInvoice = (reference: string) => {
+    const next = new Set(selectedInvoices);
+    if (next.has(reference)) next.delete(reference);
+    else next.add(reference);
+    setSelectedInvoices(next);
+  };
+
+  const updateInstallment = (index: number, field: keyof InstallmentDraft, value: string) => {
+    if (field === 'amount') setAmountEdited(true);
+    setInstallments(rows => rows.map((row, i) => (i === index ? { ...row, [field]: value } : row)));
+  };
+
+  const handlePlanToggle = (enabled: boolean) => {
+    setIsPlan(enabled);
+    if (!enabled) {
+      setInstallments(rows => [rows[0]]);
+      return;
+    }
+    // Start the plan as two halves of the amount entered so far.
+    const total = Number(installments[0].amount) || selectedTotal;
+    const half = Math.round((total / 2) * 100) / 100;
+    setAmountEdited(true);
+    setInstallments([
+      { due_date: installments[0].due_date, amount: half ? half.toFixed(2) : '' },
+      { due_date: '', amount: half ? (total - half).toFixed(2) : '' },
+    ]);
+  };
+
   const handleSave = async () => {
-    if (!promiseDate) {
-      setError('Please select a promise date');
+    const payload = toInstallmentPayload(installments);
+    if (typeof payload === 'string') {
+      setError(payload);
       return;
     }
 
@@ -43,33 +136,18 @@ export default function TicketPromiseDateModal({
     setError('');
 
     try {
-      const { data: { user } } = await supabase.auth.getUser();
-      if (!user) throw new Error('Not authenticated');
-
-      const { error: ticketError } = await supabase
-        .from('collection_tickets')
-        .update({
-          promise_date: promiseDate,
-          promise_by_user_id: user.id,
-          status: 'promised'
-        })
-        .eq('id', ticketId);
-
-      if (ticketError) throw ticketError;
-
-      // Log the promise date activity
-      await supabase
-        .from('ticket_activity_log')
-        .insert({
-          ticket_id: ticketId,
-          activity_type: 'note',
-          description: `Promise date set to ${formatDate(promiseDate)} - Customer promised to pay off ticket`,
-          created_by: user.id,
-          metadata: {
-            promise_date: promiseDate,
-            customer_name: customerName
-          }
-        });
+      const { error: promiseError } = await supabase.rpc('create_payment_promise', {
+        p_customer_id: null,
+        p_installments: payload,
+        p_invoice_references: Array.from(selectedInvoices),
+        p_ticket_id: ticketId,
+        p_channel: channel,
+        p_notes: notes.trim() || null,
+      });
+
+      if (promiseError) throw promiseError;
+
+      const firstDate = payload.map(row => row.due_date).sort()[0];
 
       onClose();
 
@@ -81,7 +159,7 @@ export default function TicketPromiseDateModal({
             ticketId: ticketId,
             ticketNumber: ticketNumber,
             customerName: customerName,
-            promiseDate: promiseDate
+            promiseDate: firstDate
           }
         });
       } else {
@@ -89,21 +167,22 @@ export default function TicketPromiseDateModal({
         onSuccess();
       }
     } catch (err) {
-      console.error('Error saving promise date:', err);
-      setError(err instanceof Error ? err.message : 'Failed to save promise date');
+      console.error('Error saving promise:', err);
+      setError(err instanceof Error ? err.message : 'Failed to save promise');
     } finally {
       setSaving(false);
     }
   };
 
   const minDate = getLocalToday();
+  const canSave = installments.every(row => row.due_date && Number(row.amount) > 0);
 
   return (
     <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
-      <div className="bg-white rounded-lg shadow-xl max-w-md w-full">
+      <div className="bg-white rounded-lg shadow-xl max-w-lg w-full max-h-[90vh] flex flex-col">
         <div className="flex items-center justify-between p-6 border-b">
           <div>
-            <h2 className="text-xl font-bold text-gray-900">Set Promise Date</h2>
+            <h2 className="text-xl font-bold text-gray-900">Record Promise to Pay</h2>
             <p className="text-sm text-gray-600 mt-1">Ticket #{ticketNumber}</p>
           </div>
           <button
@@ -114,10 +193,10 @@ export default function TicketPromiseDateModal({
           </button>
         </div>
 
-        <div className="p-6 space-y-4">
+        <div className="p-6 space-y-4 overflow-y-auto">
           <div className="p-4 bg-blue-50 border border-blue-200 rounded-lg">
             <p className="text-sm text-blue-900">
-              <strong>{customerName}</strong> has promised to pay off this ticket
+              <strong>{customerName}</strong> has promised to pay
             </p>
           </div>
 
@@ -128,21 +207,128 @@ export default function TicketPromiseDateModal({
           )}
 
           <div>
-            <label className="flex items-center gap-2 text-sm font-medium text-gray-700 mb-2">
+            <p className="text-sm font-medium text-gray-700 mb-2">Invoices covered</p>
+            {loadingInvoices ? (
+              <div className="flex items-center gap-2 text-sm text-gray-500">
+                <Loader2 className="w-4 h-4 animate-spin" /> Loading invoices...
+              </div>
+            ) : invoices.length === 0 ? (
+              <p className="text-xs text-gray-500">
+                No open invoices on this ticket; any payment from the customer will count toward the promise.
+              </p>
+            ) : (
+              <div className="border border-gray-200 rounded-lg divide-y divide-gray-100 max-h-40 overflow-y-auto">
+                {invoices.map(inv => (
+                  <label key={inv.reference_number} className="flex items-center justify-between px-3 py-2 text-sm cursor-pointer hover:bg-gray-50">
+                    <span className="flex items-center gap-2">
+                      <input
+                        type="checkbox"
+                        checked={selectedInvoices.has(inv.reference_number)}
+                        onChange={() => toggleInvoice(inv.reference_number)}
+                        className="w-4 h-4 text-blue-600 rounded focus:ring-blue-500"
+                      />
+                      <span className="font-medium text-gray-900">{inv.reference_number}</span>
+                      {inv.due_date && <span className="text-xs text-gray-500">due {formatDate(inv.due_date)}</span>}
+                    </span>
+                    <span className="text-gray-700">{formatCurrency(inv.balance)}</span>
+                  </label>
+                ))}
+              </div>
+            )}
+          </div>
+
+          <div className="flex items-center justify-between">
+            <label className="flex items-center gap-2 text-sm font-medium text-gray-700">
               <Calendar className="w-4 h-4" />
-              Promise Payment Date
+              {isPlan ? 'Installment Plan' : 'Promise'}
             </label>
-            <input
-              type="date"
-              value={promiseDate}
-              onChange={(e) => setPromiseDate(e.target.value)}
-              min={minDate}
-              className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
-              required
-            />
-            <p className="text-xs text-gray-500 mt-1">
-              When did the customer promise to pay?
-            </p>
+            <label className="flex items-center gap-2 text-sm text-gray-600 cursor-pointer">
+              <input
+                type="checkbox"
+                checked={isPlan}
+                onChange={(e) => handlePlanToggle(e.target.checked)}
+                className="w-4 h-4 text-blue-600 rounded focus:ring-blue-500"
+              />
+              Pay in installments
+            </label>
+          </div>
+
+          <div className="space-y-2">
+            {installments.map((row, index) => (
+              <div key={index} className="flex items-center gap-2">
+                {isPlan && <span className="w-5 text-xs text-gray-500 text-right">{index + 1}.</span>}
+                <input
+                  type="date"
+                  value={row.due_date}
+                  onChange={(e) => updateInstallment(index, 'due_date', e.target.value)}
+                  min={minDate}
+                  className="flex-1 px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                  required
+                />
+                <div className="relative w-36">
+                  <span className="absolute left-3 top-1/2 -translate-y-1/2 text-gray-500 text-sm">$</span>
+                  <input
+                    type="number"
+                    min="0"
+                    step="0.01"
+                    value={row.amount}
+                    onChange={(e) => updateInstallment(index, 'amount', e.target.value)}
+                    className="w-full pl-7 pr-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                    placeholder="0.00"
+                  />
+                </div>
+                {isPlan && installments.length > 2 && (
+                  <button
+                    onClick={() => setInstallments(rows => rows.filter((_, i) => i !== index))}
+                    className="p-1.5 text-gray-400 hover:text-red-600"
+                    title="Remove installment"
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </button>
+                )}
+              </div>
+            ))}
+            {isPlan && (
+              <div className="flex items-center justify-between">
+                <button
+                  onClick={() => setInstallments(rows => [...rows, { due_date: '', amount: '' }])}
+                  className="flex items-center gap-1 text-sm text-blue-600 hover:text-blue-700"
+                >
+                  <Plus className="w-4 h-4" /> Add installment
+                </button>
+                <span className="text-sm text-gray-600">Total {formatCurrency(planTotal)}</span>
+              </div>
+            )}
+            {selectedTotal > 0 && Math.abs(planTotal - selectedTotal) >= 0.01 && (
+              <p className="text-xs text-amber-600">
+                Promised amount differs from the selected invoices ({formatCurrency(selectedTotal)})
+              </p>
+            )}
+          </div>
+
+          <div className="grid grid-cols-2 gap-3">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Channel</label>
+              <select
+                value={channel}
+                onChange={(e) => setChannel(e.target.value as PromiseChannel)}
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+              >
+                {(Object.keys(CHANNEL_LABELS) as PromiseChannel[]).map(value => (
+                  <option key={value} value={value}>{CHANNEL_LABELS[value]}</option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Notes</label>
+              <input
+                type="text"
+                value={notes}
+                onChange={(e) => setNotes(e.target.value)}
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                placeholder="Optional"
+              />
+            </div>
           </div>
 
           <div className="border-t pt-4">
@@ -176,10 +362,10 @@ export default function TicketPromiseDateModal({
           </button>
           <button
             onClick={handleSave}
-            disabled={saving || !promiseDate}
+            disabled={saving || !canSave}
             className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed"
           >
-            {saving ? 'Saving...' : 'Save Promise Date'}
+            {saving ? 'Saving...' : 'Save Promise'}
           </button>
         </div>
       </div>
@@ -11,6 +11,7 @@ export default function MyAssignments({ onBack }: MyAssignmentsProps) {
       onBack={onBack}
       title="My Assignments"
       showCalendar={true}
+      showWorkQueue={true}
     />
   );
 }
@@ -19,6 +19,7 @@ export interface Assignment {
   assignment_notes: string;
   promise_date?: string | null;
   collection_date?: string | null;
+  pending_cash?: number;
   memo_count?: number;
   has_attachments?: boolean;
   last_memo?: {
@@ -93,3 +94,45 @@ export interface TicketStatusOption {
   color_class: string;
   sort_order: number;
 }
+
+export type WorkQueueAction = 'call' | 'email' | 'escalate';
+
+export type WorkQueueItemStatus = 'pending' | 'completed' | 'snoozed';
+
+export interface WorkQueueReason {
+  reason: 'balance_at_risk' | 'days_overdue' | 'promise_due' | 'unanswered_reply' | 'reminder_due';
+  label: string;
+  points: number;
+  detail: string;
+}
+
+export interface WorkQueueItem {
+  id: string;
+  collector_id: string;
+  queue_date: string;
+  rank: number;
+  priority_score: number;
+  customer_id: string;
+  customer_name: string | null;
+  ticket_id: string | null;
+  reasons: WorkQueueReason[];
+  suggested_action: WorkQueueAction;
+  action_reason: string | null;
+  balance_at_risk: number;
+  max_days_overdue: number;
+  status: WorkQueueItemStatus;
+  snoozed_until: string | null;
+  completed_at: string | null;
+  outcome_note: string | null;
+}
+
+export interface WorkQueueCompletion {
+  collector_id: string;
+  collector_name: string;
+  total_items: number;
+  completed_items: number;
+  snoozed_items: number;
+  pending_items: number;
+  completion_rate: number;
+  last_completed_at: string | null;
+}
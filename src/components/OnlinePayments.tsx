@@ -0,0 +1,271 @@
+import { useState, useEffect } from 'react';
+import { ArrowLeft, Loader2, Search, CreditCard, ExternalLink, Clock, CheckCircle } from 'lucide-react';
+import { supabase } from '../lib/supabase';
+import { useToast } from '../contexts/ToastContext';
+import { formatDateTime } from '../lib/dateUtils';
+import { getAcumaticaInvoiceUrl, getAcumaticaPaymentUrl } from '../lib/acumaticaLinks';
+
+interface OnlinePaymentsProps {
+  onBack: () => void;
+}
+
+type PostingStatus = 'pending_posting' | 'posted';
+
+interface StripeInvoicePayment {
+  id: string;
+  payment_record_id: string;
+  invoice_reference_number: string;
+  amount_paid: number;
+  balance_at_payment: number | null;
+  status: PostingStatus;
+  acumatica_payment_reference: string | null;
+  posted_at: string | null;
+}
+
+interface StripePaymentRecord {
+  id: string;
+  payment_intent_id: string;
+  customer_id: string;
+  customer_name: string | null;
+  amount_paid: number;
+  payment_method: string | null;
+  receipt_url: string | null;
+  posting_status: PostingStatus;
+  posted_at: string | null;
+  paid_at: string;
+  invoices: StripeInvoicePayment[];
+}
+
+const STATUS_STYLES: Record<PostingStatus, string> = {
+  pending_posting: 'bg-amber-100 text-amber-700',
+  posted: 'bg-green-100 text-green-700',
+};
+
+const STATUS_LABELS: Record<PostingStatus, string> = {
+  pending_posting: 'Pending posting',
+  posted: 'Posted',
+};
+
+const formatCurrency = (value: number | null) =>
+  `$${(Number(value) || 0).toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+
+export default function OnlinePayments({ onBack }: OnlinePaymentsProps) {
+  const [payments, setPayments] = useState<StripePaymentRecord[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [statusFilter, setStatusFilter] = useState<PostingStatus | 'all'>('pending_posting');
+  const [search, setSearch] = useState('');
+
+  const { showToast } = useToast();
+
+  useEffect(() => {
+    fetchPayments();
+  }, []);
+
+  const fetchPayments = async () => {
+    try {
+      const { data: records, error } = await supabase
+        .from('stripe_payment_records')
+        .select('id, payment_intent_id, customer_id, customer_name, amount_paid, payment_method, receipt_url, posting_status, posted_at, paid_at')
+        .order('paid_at', { ascending: false })
+        .limit(500);
+      if (error) throw error;
+
+      const ids = (records || []).map(r => r.id);
+      const { data: invoiceRows, error: invoiceError } = ids.length > 0
+        ? await supabase
+          .from('stripe_invoice_payments')
+          .select('id, payment_record_id, invoice_reference_number, amount_paid, balance_at_payment, status, acumatica_payment_reference, posted_at')
+          .in('payment_record_id', ids)
+        : { data: [], error: null };
+      if (invoiceError) throw invoiceError;
+
+      setPayments((records || []).map(record => ({
+        ...record,
+        invoices: (invoiceRows || []).filter(row => row.payment_record_id === record.id),
+      })));
+    } catch (error: any) {
+      showToast(error.message, 'error');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const term = search.trim().toLowerCase();
+  const filtered = payments.filter(p =>
+    (statusFilter === 'all' || p.posting_status === statusFilter) &&
+    (!term ||
+      p.customer_id.toLowerCase().includes(term) ||
+      (p.customer_name || '').toLowerCase().includes(term) ||
+      p.invoices.some(inv => inv.invoice_reference_number.toLowerCase().includes(term)))
+  );
+
+  const pending = payments.filter(p => p.posting_status === 'pending_posting');
+  const monthAgo = Date.now() - 30 * 24 * 60 * 60 * 1000;
+  const recent = payments.filter(p => new Date(p.paid_at).getTime() >= monthAgo);
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center h-64">
+        <Loader2 className="w-8 h-8 animate-spin text-blue-600" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center space-x-4">
+        <button onClick={onBack} className="p-2 hover:bg-gray-100 rounded-lg transition-colors">
+          <ArrowLeft className="w-5 h-5" />
+        </button>
+        <div>
+          <h1 className="text-2xl font-bold text-gray-900">Online Payments</h1>
+          <p className="text-gray-600 mt-0.5 text-sm">
+            Card payments made from "Pay now" links; invoices stay pending until the Acumatica sync shows them applied
+          </p>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+        <div className="bg-white rounded-xl border border-gray-200 p-4">
+          <p className="text-xs text-gray-500 uppercase font-semibold">Pending Posting</p>
+          <p className="text-2xl font-bold text-amber-700 mt-1">{pending.length}</p>
+        </div>
+        <div className="bg-white rounded-xl border border-gray-200 p-4">
+          <p className="text-xs text-gray-500 uppercase font-semibold">Pending Amount</p>
+          <p className="text-2xl font-bold text-amber-700 mt-1">
+            {formatCurrency(pending.reduce((sum, p) => sum + Number(p.amount_paid), 0))}
+          </p>
+        </div>
+        <div className="bg-white rounded-xl border border-gray-200 p-4">
+          <p className="text-xs text-gray-500 uppercase font-semibold">Payments (30d)</p>
+          <p className="text-2xl font-bold text-gray-900 mt-1">{recent.length}</p>
+        </div>
+        <div className="bg-white rounded-xl border border-gray-200 p-4">
+          <p className="text-xs text-gray-500 uppercase font-semibold">Collected Online (30d)</p>
+          <p className="text-2xl font-bold text-green-700 mt-1">
+            {formatCurrency(recent.reduce((sum, p) => sum + Number(p.amount_paid), 0))}
+          </p>
+        </div>
+      </div>
+
+      <div className="flex items-center justify-between flex-wrap gap-3">
+        <div className="flex rounded-lg border border-gray-300 overflow-hidden text-sm">
+          {([
+            ['pending_posting', 'Pending Posting'],
+            ['posted', 'Posted'],
+            ['all', 'All'],
+          ] as [PostingStatus | 'all', string][]).map(([value, label]) => (
+            <button
+              key={value}
+              onClick={() => setStatusFilter(value)}
+              className={`px-3 py-1.5 ${statusFilter === value ? 'bg-blue-600 text-white' : 'bg-white text-gray-700 hover:bg-gray-50'}`}
+            >
+              {label}
+            </button>
+          ))}
+        </div>
+        <div className="relative">
+          <Search className="w-4 h-4 text-gray-400 absolute left-3 top-1/2 -translate-y-1/2" />
+          <input
+            type="text"
+            value={search}
+            onChange={(e) => setSearch(e.target.value)}
+            placeholder="Search customer or invoice..."
+            className="pl-9 pr-3 py-2 w-72 border border-gray-300 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+          />
+        </div>
+      </div>
+
+      <div className="bg-white rounded-xl border border-gray-200 overflow-x-auto">
+        <table className="w-full text-sm">
+          <thead className="bg-gray-50">
+            <tr className="text-xs text-gray-500 uppercase">
+              <th className="text-left py-2.5 px-4 font-semibold">Paid</th>
+              <th className="text-left py-2.5 px-4 font-semibold">Customer</th>
+              <th className="text-left py-2.5 px-4 font-semibold">Invoices</th>
+              <th className="text-right py-2.5 px-4 font-semibold">Amount</th>
+              <th className="text-left py-2.5 px-4 font-semibold">Method</th>
+              <th className="text-left py-2.5 px-4 font-semibold">Status</th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-gray-100">
+            {filtered.length === 0 ? (
+              <tr>
+                <td colSpan={6} className="py-16 text-center text-gray-500">
+                  <CreditCard className="w-10 h-10 text-gray-300 mx-auto mb-2" />
+                  No online payments found
+                </td>
+              </tr>
+            ) : (
+              filtered.map(payment => (
+                <tr key={payment.id} className="align-top">
+                  <td className="py-3 px-4 text-gray-700 whitespace-nowrap">
+                    {formatDateTime(payment.paid_at)}
+                    {payment.receipt_url && (
+                      <a
+                        href={payment.receipt_url}
+                        target="_blank"
+                        rel="noopener noreferrer"
+                        className="flex items-center gap-1 text-xs text-blue-600 hover:underline mt-0.5"
+                      >
+                        Receipt
+                        <ExternalLink className="w-3 h-3" />
+                      </a>
+                    )}
+                  </td>
+                  <td className="py-3 px-4">
+                    <span className="font-medium text-gray-900">{payment.customer_name || payment.customer_id}</span>
+                    <span className="block text-xs text-gray-500">{payment.customer_id}</span>
+                  </td>
+                  <td className="py-3 px-4">
+                    <div className="space-y-1">
+                      {payment.invoices.map(inv => (
+                        <div key={inv.id} className="flex items-center gap-2 text-xs">
+                          {inv.status === 'posted'
+                            ? <CheckCircle className="w-3.5 h-3.5 text-green-600" />
+                            : <Clock className="w-3.5 h-3.5 text-amber-600" />}
+                          <a
+                            href={getAcumaticaInvoiceUrl(inv.invoice_reference_number)}
+                            target="_blank"
+                            rel="noopener noreferrer"
+                            className="font-medium text-blue-700 hover:underline"
+                          >
+                            {inv.invoice_reference_number}
+                          </a>
+                          <span className="text-gray-600">{formatCurrency(inv.amount_paid)}</span>
+                          {inv.balance_at_payment != null && inv.amount_paid < inv.balance_at_payment && (
+                            <span className="text-gray-400">partial of {formatCurrency(inv.balance_at_payment)}</span>
+                          )}
+                          {inv.acumatica_payment_reference && (
+                            <a
+                              href={getAcumaticaPaymentUrl(inv.acumatica_payment_reference)}
+                              target="_blank"
+                              rel="noopener noreferrer"
+                              className="text-gray-500 hover:text-blue-700"
+                            >
+                              via {inv.acumatica_payment_reference}
+                            </a>
+                          )}
+                        </div>
+                      ))}
+                    </div>
+                  </td>
+                  <td className="py-3 px-4 text-right font-semibold text-gray-900">{formatCurrency(payment.amount_paid)}</td>
+                  <td className="py-3 px-4 text-gray-600 capitalize">{(payment.payment_method || '').replace(/_/g, ' ')}</td>
+                  <td className="py-3 px-4">
+                    <span className={`px-2 py-0.5 rounded-full text-[10px] font-semibold uppercase whitespace-nowrap ${STATUS_STYLES[payment.posting_status]}`}>
+                      {STATUS_LABELS[payment.posting_status]}
+                    </span>
+                    {payment.posted_at && (
+                      <span className="block text-xs text-gray-400 mt-1">{formatDateTime(payment.posted_at)}</span>
+                    )}
+                  </td>
+                </tr>
+              ))
+            )}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,9 @@
+import PaymentMatchingPage from './PaymentMatching/index';
+
+interface PaymentMatchingProps {
+  onBack: () => void;
+}
+
+export default function PaymentMatching({ onBack }: PaymentMatchingProps) {
+  return <PaymentMatchingPage onBack={onBack} />;
+}
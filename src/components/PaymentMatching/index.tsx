@@ -0,0 +1,453 @@
+import { useState, useEffect } from 'react';
+import { ArrowLeft, Loader2, Search, RefreshCw, Check, X, ExternalLink, GitMerge, CheckCircle } from 'lucide-react';
+import { supabase } from '../../lib/supabase';
+import { useToast } from '../../contexts/ToastContext';
+import { formatDate, formatDateTime } from '../../lib/dateUtils';
+import { getAcumaticaInvoiceUrl, getAcumaticaPaymentUrl } from '../../lib/acumaticaLinks';
+import {
+  PaymentMatchSuggestion,
+  MatchSourceGroup,
+  SOURCE_TYPE_LABELS,
+  STATUS_LABELS,
+  STATUS_STYLES,
+  REASON_LABELS,
+  scoreStyle,
+  formatCurrency,
+} from './types';
+
+interface PaymentMatchingPageProps {
+  onBack: () => void;
+}
+
+type Tab = 'review' | 'posting' | 'history';
+
+const PAGE_SIZE = 1000;
+
+export default function PaymentMatchingPage({ onBack }: PaymentMatchingPageProps) {
+  const [suggestions, setSuggestions] = useState<PaymentMatchSuggestion[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [running, setRunning] = useState(false);
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const [notes, setNotes] = useState<Record<string, string>>({});
+
+  const [tab, setTab] = useState<Tab>('review');
+  const [search, setSearch] = useState('');
+
+  const { showToast } = useToast();
+
+  useEffect(() => {
+    fetchSuggestions();
+  }, []);
+
+  const fetchSuggestions = async () => {
+    try {
+      const rows: PaymentMatchSuggestion[] = [];
+      let from = 0;
+      let hasMore = true;
+      while (hasMore) {
+        const { data, error } = await supabase
+          .from('payment_match_suggestions')
+          .select('*')
+          .order('score', { ascending: false })
+          .order('created_at', { ascending: false })
+          .range(from, from + PAGE_SIZE - 1);
+        if (error) throw error;
+        rows.push(...(data || []));
+        hasMore = !!data && data.length === PAGE_SIZE;
+        from += PAGE_SIZE;
+      }
+      setSuggestions(rows);
+    } catch (error: any) {
+      showToast(error.message, 'error');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const runMatching = async () => {
+    setRunning(true);
+    try {
+      const { data, error } = await supabase.rpc('refresh_payment_match_suggestions');
+      if (error) throw error;
+      showToast(`Matching complete: ${data} suggestion${data === 1 ? '' : 's'} to review`, 'success');
+      await fetchSuggestions();
+    } catch (error: any) {
+      showToast(error.message, 'error');
+    } finally {
+      setRunning(false);
+    }
+  };
+
+  const reviewSuggestion = async (suggestion: PaymentMatchSuggestion, decision: 'accepted' | 'rejected') => {
+    setBusyId(suggestion.id);
+    try {
+      const { error } = await supabase.rpc('review_payment_match', {
+        p_suggestion_id: suggestion.id,
+        p_decision: decision,
+        p_note: notes[suggestion.source_id] || null,
+      });
+      if (error) throw error;
+      showToast(
+        decision === 'accepted'
+          ? `Match accepted for ${suggestion.source_reference}; ready for AR to post`
+          : 'Suggestion rejected',
+        'success'
+      );
+      await fetchSuggestions();
+    } catch (error: any) {
+      showToast(error.message, 'error');
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const markPosted = async (suggestion: PaymentMatchSuggestion) => {
+    setBusyId(suggestion.id);
+    try {
+      const { error } = await supabase.rpc('mark_payment_match_posted', { p_suggestion_id: suggestion.id });
+      if (error) throw error;
+      showToast(`${suggestion.source_reference} marked as posted`, 'success');
+      await fetchSuggestions();
+    } catch (error: any) {
+      showToast(error.message, 'error');
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const term = search.trim().toLowerCase();
+  const matchesSearch = (s: PaymentMatchSuggestion) =>
+    !term ||
+    s.source_reference.toLowerCase().includes(term) ||
+    (s.customer_name || '').toLowerCase().includes(term) ||
+    (s.customer_id || '').toLowerCase().includes(term) ||
+    s.invoice_references.some(ref => ref.toLowerCase().includes(term));
+
+  const pending = suggestions.filter(s => s.status === 'pending');
+  const accepted = suggestions.filter(s => s.status === 'accepted');
+  const history = suggestions.filter(s => s.status !== 'pending' && s.status !== 'accepted');
+
+  const groups = new Map<string, MatchSourceGroup>();
+  pending.filter(matchesSearch).forEach(s => {
+    const key = `${s.source_type}:${s.source_id}`;
+    const group = groups.get(key) || {
+      key,
+      source_type: s.source_type,
+      source_reference: s.source_reference,
+      source_doc_type: s.source_doc_type,
+      source_date: s.source_date,
+      customer_id: s.customer_id,
+      customer_name: s.customer_name,
+      source_amount: s.source_amount,
+      source_text: s.source_text,
+      suggestions: [],
+    };
+    group.suggestions.push(s);
+    groups.set(key, group);
+  });
+  const reviewGroups = Array.from(groups.values()).sort(
+    (a, b) => b.suggestions[0].score - a.suggestions[0].score
+  );
+
+  const summary = {
+    sources: new Set(pending.map(s => `${s.source_type}:${s.source_id}`)).size,
+    unapplied: Array.from(
+      new Map(pending.map(s => [`${s.source_type}:${s.source_id}`, s.source_amount])).values()
+    ).reduce((sum, amount) => sum + amount, 0),
+    awaitingPosting: accepted.length,
+    posted: suggestions.filter(s => s.status === 'posted').length,
+  };
+
+  const sourceUrl = (s: { source_type: string; source_reference: string; source_doc_type: string }) =>
+    s.source_type === 'credit_memo'
+      ? getAcumaticaInvoiceUrl(s.source_reference, s.source_doc_type)
+      : getAcumaticaPaymentUrl(s.source_reference, s.source_doc_type);
+
+  const renderAllocations = (s: PaymentMatchSuggestion) => (
+    <div className="flex flex-wrap gap-2">
+      {s.allocations.map(alloc => (
+        <a
+          key={alloc.invoice_reference}
+          href={getAcumaticaInvoiceUrl(alloc.invoice_reference)}
+          target="_blank"
+          rel="noopener noreferrer"
+          className="px-2.5 py-1 rounded-lg bg-blue-50 border border-blue-200 text-xs text-blue-800 hover:bg-blue-100"
+          title="View in Acumatica"
+        >
+          <span className="font-semibold">{alloc.invoice_reference}</span>
+          {` · ${formatCurrency(alloc.amount)}`}
+          {alloc.customer_id !== s.customer_id && ` · ${alloc.customer_id}`}
+        </a>
+      ))}
+    </div>
+  );
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center h-64">
+        <Loader2 className="w-8 h-8 animate-spin text-blue-600" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex items-center justify-between flex-wrap gap-4">
+        <div className="flex items-center space-x-4">
+          <button onClick={onBack} className="p-2 hover:bg-gray-100 rounded-lg transition-colors">
+            <ArrowLeft className="w-5 h-5" />
+          </button>
+          <div>
+            <h1 className="text-2xl font-bold text-gray-900">Payment Matching</h1>
+            <p className="text-gray-600 mt-0.5 text-sm">
+              Suggested invoices for unapplied payments, prepayments and credit memos
+            </p>
+          </div>
+        </div>
+        <button
+          onClick={runMatching}
+          disabled={running}
+          className="flex items-center space-x-2 px-4 py-2.5 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50 text-sm font-medium"
+        >
+          {running ? <Loader2 className="w-4 h-4 animate-spin" /> : <RefreshCw className="w-4 h-4" />}
+          <span>{running ? 'Matching...' : 'Run Matching'}</span>
+        </button>
+      </div>
+
+      {/* Summary */}
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+        <div className="bg-white rounded-xl border border-gray-200 p-4">
+          <p className="text-xs text-gray-500 uppercase font-semibold">Documents to Review</p>
+          <p className="text-2xl font-bold text-gray-900 mt-1">{summary.sources}</p>
+        </div>
+        <div className="bg-white rounded-xl border border-gray-200 p-4">
+          <p className="text-xs text-gray-500 uppercase font-semibold">Unapplied Amount</p>
+          <p className="text-2xl font-bold text-amber-700 mt-1">{formatCurrency(summary.unapplied)}</p>
+        </div>
+        <div className="bg-white rounded-xl border border-gray-200 p-4">
+          <p className="text-xs text-gray-500 uppercase font-semibold">Awaiting Posting</p>
+          <p className="text-2xl font-bold text-blue-700 mt-1">{summary.awaitingPosting}</p>
+        </div>
+        <div className="bg-white rounded-xl border border-gray-200 p-4">
+          <p className="text-xs text-gray-500 uppercase font-semibold">Posted</p>
+          <p className="text-2xl font-bold text-green-700 mt-1">{summary.posted}</p>
+        </div>
+      </div>
+
+      {/* Filters */}
+      <div className="flex items-center justify-between flex-wrap gap-3">
+        <div className="flex rounded-lg border border-gray-300 overflow-hidden text-sm">
+          {([
+            ['review', `Review (${summary.sources})`],
+            ['posting', `Awaiting Posting (${accepted.length})`],
+            ['history', 'History'],
+          ] as [Tab, string][]).map(([value, label]) => (
+            <button
+              key={value}
+              onClick={() => setTab(value)}
+              className={`px-3 py-1.5 ${tab === value ? 'bg-blue-600 text-white' : 'bg-white text-gray-700 hover:bg-gray-50'}`}
+            >
+              {label}
+            </button>
+          ))}
+        </div>
+        <div className="relative">
+          <Search className="w-4 h-4 text-gray-400 absolute left-3 top-1/2 -translate-y-1/2" />
+          <input
+            type="text"
+            value={search}
+            onChange={(e) => setSearch(e.target.value)}
+            placeholder="Search reference, customer or invoice..."
+            className="pl-9 pr-3 py-2 w-72 border border-gray-300 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+          />
+        </div>
+      </div>
+
+      {/* Review queue */}
+      {tab === 'review' && (
+        reviewGroups.length === 0 ? (
+          <div className="bg-white rounded-xl border border-gray-200 py-16 text-center">
+            <GitMerge className="w-12 h-12 text-gray-300 mx-auto mb-3" />
+            <p className="text-gray-500">No suggestions waiting for review</p>
+          </div>
+        ) : (
+          <div className="space-y-4">
+            {reviewGroups.map(group => (
+              <div key={group.key} className="bg-white rounded-xl border border-gray-200">
+                <div className="flex items-start justify-between px-5 py-4 border-b border-gray-100 flex-wrap gap-3">
+                  <div>
+                    <div className="flex items-center gap-2">
+                      <span className="text-xs font-semibold uppercase text-gray-500">
+                        {SOURCE_TYPE_LABELS[group.source_type]}
+                      </span>
+                      <a
+                        href={sourceUrl(group)}
+                        target="_blank"
+                        rel="noopener noreferrer"
+                        className="flex items-center gap-1 font-semibold text-gray-900 hover:text-blue-700"
+                      >
+                        {group.source_reference}
+                        <ExternalLink className="w-3.5 h-3.5" />
+                      </a>
+                      <span className="text-sm text-gray-500">
+                        {group.customer_name || group.customer_id} · {formatDate(group.source_date)}
+                      </span>
+                    </div>
+                    {group.source_text && (
+                      <p className="text-xs text-gray-500 mt-1 italic">"{group.source_text}"</p>
+                    )}
+                  </div>
+                  <div className="text-right">
+                    <p className="text-xs text-gray-500">Unapplied</p>
+                    <p className="text-lg font-bold text-amber-700">{formatCurrency(group.source_amount)}</p>
+                  </div>
+                </div>
+
+                <div className="divide-y divide-gray-100">
+                  {group.suggestions.map(s => (
+                    <div key={s.id} className="px-5 py-3 flex items-start gap-4">
+                      <span className={`mt-0.5 px-2 py-1 rounded-lg text-sm font-bold ${scoreStyle(s.score)}`}>
+                        {s.score}
+                      </span>
+                      <div className="flex-1 space-y-2">
+                        {renderAllocations(s)}
+                        <div className="flex flex-wrap gap-1.5">
+                          {s.reasons.map(reason => (
+                            <span key={reason} className="px-2 py-0.5 rounded-full bg-gray-100 text-gray-600 text-[11px]">
+                              {REASON_LABELS[reason] || reason}
+                            </span>
+                          ))}
+                          <span className="text-[11px] text-gray-500">
+                            Invoices total {formatCurrency(s.invoice_total)}
+                          </span>
+                        </div>
+                      </div>
+                      <div className="flex items-center gap-2">
+                        <button
+                          onClick={() => reviewSuggestion(s, 'accepted')}
+                          disabled={busyId !== null}
+                          className="flex items-center gap-1 px-3 py-1.5 bg-green-600 text-white rounded-lg hover:bg-green-700 disabled:opacity-50 text-xs font-medium"
+                        >
+                          <Check className="w-3.5 h-3.5" />
+                          Accept
+                        </button>
+                        <button
+                          onClick={() => reviewSuggestion(s, 'rejected')}
+                          disabled={busyId !== null}
+                          className="flex items-center gap-1 px-3 py-1.5 border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 disabled:opacity-50 text-xs font-medium"
+                        >
+                          <X className="w-3.5 h-3.5" />
+                          Reject
+                        </button>
+                      </div>
+                    </div>
+                  ))}
+                </div>
+
+                <div className="px-5 py-3 border-t border-gray-100 bg-gray-50 rounded-b-xl">
+                  <input
+                    type="text"
+                    value={notes[group.suggestions[0].source_id] || ''}
+                    onChange={(e) => setNotes({ ...notes, [group.suggestions[0].source_id]: e.target.value })}
+                    placeholder="Review note (optional, saved with your decision)"
+                    className="w-full px-3 py-1.5 border border-gray-300 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  />
+                </div>
+              </div>
+            ))}
+          </div>
+        )
+      )}
+
+      {/* Accepted, waiting for AR */}
+      {tab === 'posting' && (
+        <div className="bg-white rounded-xl border border-gray-200 divide-y divide-gray-100">
+          {accepted.filter(matchesSearch).length === 0 ? (
+            <p className="py-16 text-center text-gray-500">No accepted matches waiting to be posted</p>
+          ) : (
+            accepted.filter(matchesSearch).map(s => (
+              <div key={s.id} className="px-5 py-4 flex items-start justify-between gap-4 flex-wrap">
+                <div className="space-y-2">
+                  <div className="flex items-center gap-2 text-sm">
+                    <span className="text-xs font-semibold uppercase text-gray-500">{SOURCE_TYPE_LABELS[s.source_type]}</span>
+                    <a
+                      href={sourceUrl(s)}
+                      target="_blank"
+                      rel="noopener noreferrer"
+                      className="flex items-center gap-1 font-semibold text-gray-900 hover:text-blue-700"
+                    >
+                      {s.source_reference}
+                      <ExternalLink className="w-3.5 h-3.5" />
+                    </a>
+                    <span className="text-gray-500">{s.customer_name || s.customer_id}</span>
+                    <span className="font-semibold text-gray-900">{formatCurrency(s.source_amount)}</span>
+                  </div>
+                  {renderAllocations(s)}
+                  <p className="text-xs text-gray-500">
+                    Accepted {formatDateTime(s.reviewed_at)}
+                    {s.review_note && ` · "${s.review_note}"`}
+                  </p>
+                </div>
+                <button
+                  onClick={() => markPosted(s)}
+                  disabled={busyId !== null}
+                  className="flex items-center gap-1.5 px-3 py-1.5 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50 text-xs font-medium"
+                >
+                  <CheckCircle className="w-3.5 h-3.5" />
+                  Mark Posted in Acumatica
+                </button>
+              </div>
+            ))
+          )}
+        </div>
+      )}
+
+      {/* History */}
+      {tab === 'history' && (
+        <div className="bg-white rounded-xl border border-gray-200 overflow-x-auto">
+          <table className="w-full text-sm">
+            <thead className="bg-gray-50">
+              <tr className="text-xs text-gray-500 uppercase">
+                <th className="text-left py-2.5 px-4 font-semibold">Document</th>
+                <th className="text-left py-2.5 px-4 font-semibold">Customer</th>
+                <th className="text-left py-2.5 px-4 font-semibold">Invoices</th>
+                <th className="text-right py-2.5 px-4 font-semibold">Score</th>
+                <th className="text-left py-2.5 px-4 font-semibold">Status</th>
+                <th className="text-left py-2.5 px-4 font-semibold">Reviewed</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-100">
+              {history.filter(matchesSearch).length === 0 ? (
+                <tr>
+                  <td colSpan={6} className="py-10 text-center text-gray-500">No reviewed suggestions yet</td>
+                </tr>
+              ) : (
+                history.filter(matchesSearch).map(s => (
+                  <tr key={s.id}>
+                    <td className="py-2 px-4">
+                      <span className="font-medium text-gray-900">{s.source_reference}</span>
+                      <span className="ml-2 text-xs text-gray-500">{formatCurrency(s.source_amount)}</span>
+                    </td>
+                    <td className="py-2 px-4 text-gray-700">{s.customer_name || s.customer_id}</td>
+                    <td className="py-2 px-4 text-gray-700">{s.invoice_references.join(', ')}</td>
+                    <td className="py-2 px-4 text-right">{s.score}</td>
+                    <td className="py-2 px-4">
+                      <span className={`px-2 py-0.5 rounded-full text-[10px] font-semibold uppercase ${STATUS_STYLES[s.status]}`}>
+                        {STATUS_LABELS[s.status]}
+                      </span>
+                    </td>
+                    <td className="py-2 px-4 text-xs text-gray-500">
+                      {formatDateTime(s.posted_at || s.reviewed_at)}
+                      {s.review_note && <span className="block italic">"{s.review_note}"</span>}
+                    </td>
+                  </tr>
+                ))
+              )}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+}
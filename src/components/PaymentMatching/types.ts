@@ -0,0 +1,94 @@
+export type MatchSourceType = 'payment' | 'prepayment' | 'credit_memo';
+
+export type MatchStatus = 'pending' | 'accepted' | 'rejected' | 'superseded' | 'posted';
+
+export type MatchReason =
+  | 'same_customer'
+  | 'exact_amount'
+  | 'near_amount'
+  | 'partial_payment'
+  | 'invoice_reference'
+  | 'order_reference'
+  | 'invoice_combination';
+
+export interface MatchAllocation {
+  invoice_reference: string;
+  customer_id: string;
+  amount: number;
+}
+
+export interface PaymentMatchSuggestion {
+  id: string;
+  source_type: MatchSourceType;
+  source_id: string;
+  source_reference: string;
+  source_doc_type: string;
+  source_date: string | null;
+  customer_id: string | null;
+  customer_name: string | null;
+  source_amount: number;
+  source_text: string | null;
+  invoice_references: string[];
+  allocations: MatchAllocation[];
+  invoice_total: number;
+  score: number;
+  reasons: MatchReason[];
+  status: MatchStatus;
+  reviewed_by: string | null;
+  reviewed_at: string | null;
+  review_note: string | null;
+  posted_by: string | null;
+  posted_at: string | null;
+  created_at: string;
+}
+
+export interface MatchSourceGroup {
+  key: string;
+  source_type: MatchSourceType;
+  source_reference: string;
+  source_doc_type: string;
+  source_date: string | null;
+  customer_id: string | null;
+  customer_name: string | null;
+  source_amount: number;
+  source_text: string | null;
+  suggestions: PaymentMatchSuggestion[];
+}
+
+export const SOURCE_TYPE_LABELS: Record<MatchSourceType, string> = {
+  payment: 'Payment',
+  prepayment: 'Prepayment',
+  credit_memo: 'Credit Memo',
+};
+
+export const STATUS_LABELS: Record<MatchStatus, string> = {
+  pending: 'Pending',
+  accepted: 'Accepted',
+  rejected: 'Rejected',
+  superseded: 'Superseded',
+  posted: 'Posted',
+};
+
+export const STATUS_STYLES: Record<MatchStatus, string> = {
+  pending: 'bg-amber-100 text-amber-700',
+  accepted: 'bg-blue-100 text-blue-700',
+  rejected: 'bg-red-100 text-red-700',
+  superseded: 'bg-gray-100 text-gray-600',
+  posted: 'bg-green-100 text-green-700',
+};
+
+export const REASON_LABELS: Record<MatchReason, string> = {
+  same_customer: 'Same customer',
+  exact_amount: 'Exact amount',
+  near_amount: 'Near amount',
+  partial_payment: 'Partial payment',
+  invoice_reference: 'Invoice # in reference',
+  order_reference: 'Order # in reference',
+  invoice_combination: 'Invoices sum to amount',
+};
+
+export const scoreStyle = (score: number) =>
+  score >= 80 ? 'bg-green-100 text-green-800' : score >= 60 ? 'bg-blue-100 text-blue-800' : 'bg-gray-100 text-gray-700';
+
+export const formatCurrency = (value: number | null) =>
+  `$${(value || 0).toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
@@ -0,0 +1,9 @@
+import PaymentPromisesPage from './PaymentPromises/index';
+
+interface PaymentPromisesProps {
+  onBack: () => void;
+}
+
+export default function PaymentPromises({ onBack }: PaymentPromisesProps) {
+  return <PaymentPromisesPage onBack={onBack} />;
+}
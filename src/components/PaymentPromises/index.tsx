@@ -0,0 +1,371 @@
+import { useState, useEffect } from 'react';
+import { ArrowLeft, Loader2, Search, RefreshCw, ChevronDown, ChevronRight, CalendarCheck, X } from 'lucide-react';
+import { supabase } from '../../lib/supabase';
+import { useToast } from '../../contexts/ToastContext';
+import { useOrgNavigation } from '../../hooks/useOrgNavigation';
+import { formatDate, formatDateTime } from '../../lib/dateUtils';
+import { getAcumaticaInvoiceUrl } from '../../lib/acumaticaLinks';
+import {
+  PaymentPromise,
+  PromiseStatus,
+  CHANNEL_LABELS,
+  STATUS_LABELS,
+  STATUS_STYLES,
+  INSTALLMENT_STYLES,
+  formatCurrency,
+} from './types';
+
+interface PaymentPromisesPageProps {
+  onBack: () => void;
+}
+
+type Tab = 'open' | 'missed' | 'kept' | 'all';
+
+const TAB_STATUSES: Record<Tab, PromiseStatus[] | null> = {
+  open: ['open'],
+  missed: ['broken', 'partially_kept'],
+  kept: ['kept'],
+  all: null,
+};
+
+export default function PaymentPromisesPage({ onBack }: PaymentPromisesPageProps) {
+  const [promises, setPromises] = useState<PaymentPromise[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [evaluating, setEvaluating] = useState(false);
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+
+  const [tab, setTab] = useState<Tab>('open');
+  const [search, setSearch] = useState('');
+
+  const { showToast } = useToast();
+  const { navigate } = useOrgNavigation();
+
+  useEffect(() => {
+    fetchPromises();
+  }, []);
+
+  const fetchPromises = async () => {
+    try {
+      const { data, error } = await supabase
+        .from('payment_promises')
+        .select(`
+          *,
+          installments:payment_promise_installments(*),
+          invoices:payment_promise_invoices(*),
+          taken_by_profile:user_profiles!payment_promises_taken_by_fkey(full_name, email),
+          ticket:collection_tickets(ticket_number)
+        `)
+        .order('promise_date', { ascending: true })
+        .limit(1000);
+      if (error) throw error;
+
+      setPromises((data || []).map((row: any) => ({
+        ...row,
+        installments: [...(row.installments || [])].sort((a, b) => a.installment_number - b.installment_number),
+        taken_by_name: row.taken_by_profile?.full_name || row.taken_by_profile?.email || null,
+        ticket_number: row.ticket?.ticket_number || null,
+      })));
+    } catch (error: any) {
+      showToast(error.message, 'error');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const evaluateNow = async () => {
+    setEvaluating(true);
+    try {
+      const { data, error } = await supabase.rpc('refresh_payment_promises');
+      if (error) throw error;
+      showToast(
+        data > 0 ? `${data} promise${data === 1 ? '' : 's'} closed` : 'No promise changed status',
+        'success'
+      );
+      await fetchPromises();
+    } catch (error: any) {
+      showToast(error.message, 'error');
+    } finally {
+      setEvaluating(false);
+    }
+  };
+
+  const cancelPromise = async (promise: PaymentPromise) => {
+    const reason = window.prompt(`Cancel the promise from ${promise.customer_name || promise.customer_id}? Reason (optional):`);
+    if (reason === null) return;
+
+    setBusyId(promise.id);
+    try {
+      const { error } = await supabase.rpc('cancel_payment_promise', {
+        p_promise_id: promise.id,
+        p_reason: reason.trim() || null,
+      });
+      if (error) throw error;
+      showToast('Promise cancelled', 'success');
+      await fetchPromises();
+    } catch (error: any) {
+      showToast(error.message, 'error');
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const term = search.trim().toLowerCase();
+  const statuses = TAB_STATUSES[tab];
+  const filtered = promises.filter(p =>
+    (!statuses || statuses.includes(p.status)) &&
+    (!term ||
+      p.customer_id.toLowerCase().includes(term) ||
+      (p.customer_name || '').toLowerCase().includes(term) ||
+      (p.ticket_number || '').toLowerCase().includes(term) ||
+      p.invoices.some(inv => inv.invoice_reference_number.toLowerCase().includes(term)))
+  );
+
+  const open = promises.filter(p => p.status === 'open');
+  const ninetyDaysAgo = Date.now() - 90 * 24 * 60 * 60 * 1000;
+  const recentlyClosed = promises.filter(p =>
+    ['kept', 'partially_kept', 'broken'].includes(p.status) &&
+    p.closed_at && new Date(p.closed_at).getTime() >= ninetyDaysAgo
+  );
+  const keptRate = recentlyClosed.length > 0
+    ? Math.round((recentlyClosed.filter(p => p.status === 'kept').length / recentlyClosed.length) * 100)
+    : null;
+
+  const nextDue = (p: PaymentPromise) =>
+    p.installments.find(i => i.status === 'pending')?.due_date || p.promise_date;
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center h-64">
+        <Loader2 className="w-8 h-8 animate-spin text-blue-600" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex items-center justify-between flex-wrap gap-4">
+        <div className="flex items-center space-x-4">
+          <button onClick={onBack} className="p-2 hover:bg-gray-100 rounded-lg transition-colors">
+            <ArrowLeft className="w-5 h-5" />
+          </button>
+          <div>
+            <h1 className="text-2xl font-bold text-gray-900">Payment Promises</h1>
+            <p className="text-gray-600 mt-0.5 text-sm">
+              Promises to pay, checked every hour against payments applied in Acumatica
+            </p>
+          </div>
+        </div>
+        <button
+          onClick={evaluateNow}
+          disabled={evaluating}
+          className="flex items-center space-x-2 px-4 py-2.5 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50 text-sm font-medium"
+        >
+          {evaluating ? <Loader2 className="w-4 h-4 animate-spin" /> : <RefreshCw className="w-4 h-4" />}
+          <span>{evaluating ? 'Checking...' : 'Check Now'}</span>
+        </button>
+      </div>
+
+      {/* Summary */}
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+        <div className="bg-white rounded-xl border border-gray-200 p-4">
+          <p className="text-xs text-gray-500 uppercase font-semibold">Open Promises</p>
+          <p className="text-2xl font-bold text-gray-900 mt-1">{open.length}</p>
+        </div>
+        <div className="bg-white rounded-xl border border-gray-200 p-4">
+          <p className="text-xs text-gray-500 uppercase font-semibold">Still Expected</p>
+          <p className="text-2xl font-bold text-blue-700 mt-1">
+            {formatCurrency(open.reduce((sum, p) => sum + Math.max(Number(p.promised_amount) - Number(p.amount_paid), 0), 0))}
+          </p>
+        </div>
+        <div className="bg-white rounded-xl border border-gray-200 p-4">
+          <p className="text-xs text-gray-500 uppercase font-semibold">Kept Rate (90d)</p>
+          <p className="text-2xl font-bold text-green-700 mt-1">{keptRate === null ? '--' : `${keptRate}%`}</p>
+        </div>
+        <div className="bg-white rounded-xl border border-gray-200 p-4">
+          <p className="text-xs text-gray-500 uppercase font-semibold">Missed (90d)</p>
+          <p className="text-2xl font-bold text-red-700 mt-1">
+            {recentlyClosed.filter(p => p.status !== 'kept').length}
+          </p>
+        </div>
+      </div>
+
+      {/* Filters */}
+      <div className="flex items-center justify-between flex-wrap gap-3">
+        <div className="flex rounded-lg border border-gray-300 overflow-hidden text-sm">
+          {([
+            ['open', `Open (${open.length})`],
+            ['missed', 'Broken / Partial'],
+            ['kept', 'Kept'],
+            ['all', 'All'],
+          ] as [Tab, string][]).map(([value, label]) => (
+            <button
+              key={value}
+              onClick={() => setTab(value)}
+              className={`px-3 py-1.5 ${tab === value ? 'bg-blue-600 text-white' : 'bg-white text-gray-700 hover:bg-gray-50'}`}
+            >
+              {label}
+            </button>
+          ))}
+        </div>
+        <div className="relative">
+          <Search className="w-4 h-4 text-gray-400 absolute left-3 top-1/2 -translate-y-1/2" />
+          <input
+            type="text"
+            value={search}
+            onChange={(e) => setSearch(e.target.value)}
+            placeholder="Search customer, ticket or invoice..."
+            className="pl-9 pr-3 py-2 w-72 border border-gray-300 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+          />
+        </div>
+      </div>
+
+      {/* Promises */}
+      <div className="bg-white rounded-xl border border-gray-200 overflow-x-auto">
+        <table className="w-full text-sm">
+          <thead className="bg-gray-50">
+            <tr className="text-xs text-gray-500 uppercase">
+              <th className="w-8" />
+              <th className="text-left py-2.5 px-4 font-semibold">Customer</th>
+              <th className="text-right py-2.5 px-4 font-semibold">Promised</th>
+              <th className="text-right py-2.5 px-4 font-semibold">Received</th>
+              <th className="text-left py-2.5 px-4 font-semibold">Next Due</th>
+              <th className="text-left py-2.5 px-4 font-semibold">Taken</th>
+              <th className="text-left py-2.5 px-4 font-semibold">Status</th>
+              <th className="w-10" />
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-gray-100">
+            {filtered.length === 0 ? (
+              <tr>
+                <td colSpan={8} className="py-16 text-center text-gray-500">
+                  <CalendarCheck className="w-10 h-10 text-gray-300 mx-auto mb-2" />
+                  No promises found
+                </td>
+              </tr>
+            ) : (
+              filtered.map(promise => {
+                const expanded = expandedId === promise.id;
+                return [
+                  <tr key={promise.id} className="align-top hover:bg-gray-50">
+                    <td className="py-3 pl-3">
+                      <button
+                        onClick={() => setExpandedId(expanded ? null : promise.id)}
+                        className="p-1 text-gray-400 hover:text-gray-700"
+                      >
+                        {expanded ? <ChevronDown className="w-4 h-4" /> : <ChevronRight className="w-4 h-4" />}
+                      </button>
+                    </td>
+                    <td className="py-3 px-4">
+                      <span className="font-medium text-gray-900">{promise.customer_name || promise.customer_id}</span>
+                      <span className="block text-xs text-gray-500">
+                        {promise.customer_id}
+                        {promise.ticket_id && (
+                          <>
+                            {' · '}
+                            <button
+                              onClick={() => navigate(`/ticket/${promise.ticket_id}`)}
+                              className="text-blue-600 hover:underline"
+                            >
+                              {promise.ticket_number || 'Ticket'}
+                            </button>
+                          </>
+                        )}
+                      </span>
+                    </td>
+                    <td className="py-3 px-4 text-right">
+                      <span className="font-semibold text-gray-900">{formatCurrency(promise.promised_amount)}</span>
+                      {promise.installments.length > 1 && (
+                        <span className="block text-xs text-gray-500">{promise.installments.length} installments</span>
+                      )}
+                    </td>
+                    <td className="py-3 px-4 text-right text-gray-700">{formatCurrency(promise.amount_paid)}</td>
+                    <td className="py-3 px-4 text-gray-700 whitespace-nowrap">
+                      {promise.status === 'open' ? formatDate(nextDue(promise)) : formatDate(promise.promise_date)}
+                    </td>
+                    <td className="py-3 px-4 text-gray-600">
+                      <span className="block">{promise.taken_by_name || '—'}</span>
+                      <span className="block text-xs text-gray-400">
+                        {CHANNEL_LABELS[promise.channel]} · {formatDate(promise.created_at)}
+                      </span>
+                    </td>
+                    <td className="py-3 px-4">
+                      <span className={`px-2 py-0.5 rounded-full text-[10px] font-semibold uppercase whitespace-nowrap ${STATUS_STYLES[promise.status]}`}>
+                        {STATUS_LABELS[promise.status]}
+                      </span>
+                    </td>
+                    <td className="py-3 pr-3">
+                      {promise.status === 'open' && (
+                        <button
+                          onClick={() => cancelPromise(promise)}
+                          disabled={busyId === promise.id}
+                          className="p-1.5 text-gray-400 hover:text-red-600 disabled:opacity-50"
+                          title="Cancel promise"
+                        >
+                          {busyId === promise.id ? <Loader2 className="w-4 h-4 animate-spin" /> : <X className="w-4 h-4" />}
+                        </button>
+                      )}
+                    </td>
+                  </tr>,
+                  expanded && (
+                    <tr key={`${promise.id}-details`} className="bg-gray-50/60">
+                      <td />
+                      <td colSpan={7} className="py-3 px-4">
+                        <div className="grid md:grid-cols-2 gap-6">
+                          <div>
+                            <p className="text-xs font-semibold text-gray-500 uppercase mb-2">Installments</p>
+                            <div className="space-y-1">
+                              {promise.installments.map(inst => (
+                                <div key={inst.id} className="flex items-center gap-3 text-xs">
+                                  <span className="w-4 text-gray-400">{inst.installment_number}.</span>
+                                  <span className="w-24 text-gray-700">{formatDate(inst.due_date)}</span>
+                                  <span className="w-24 text-right font-medium text-gray-900">{formatCurrency(inst.amount)}</span>
+                                  <span className="w-24 text-right text-gray-500">{formatCurrency(inst.amount_paid)} paid</span>
+                                  <span className={`px-1.5 py-0.5 rounded text-[10px] font-semibold uppercase ${INSTALLMENT_STYLES[inst.status]}`}>
+                                    {inst.status.replace('_', ' ')}
+                                  </span>
+                                </div>
+                              ))}
+                            </div>
+                          </div>
+                          <div>
+                            <p className="text-xs font-semibold text-gray-500 uppercase mb-2">Invoices Covered</p>
+                            {promise.invoices.length === 0 ? (
+                              <p className="text-xs text-gray-500">Any payment from the customer counts</p>
+                            ) : (
+                              <div className="flex flex-wrap gap-2">
+                                {promise.invoices.map(inv => (
+                                  <a
+                                    key={inv.invoice_reference_number}
+                                    href={getAcumaticaInvoiceUrl(inv.invoice_reference_number)}
+                                    target="_blank"
+                                    rel="noopener noreferrer"
+                                    className="px-2.5 py-1 rounded-lg bg-blue-50 border border-blue-200 text-xs text-blue-800 hover:bg-blue-100"
+                                  >
+                                    <span className="font-semibold">{inv.invoice_reference_number}</span>
+                                    {inv.balance_at_promise != null && ` · ${formatCurrency(inv.balance_at_promise)}`}
+                                  </a>
+                                ))}
+                              </div>
+                            )}
+                            {promise.notes && (
+                              <p className="text-xs text-gray-600 mt-3 whitespace-pre-wrap">{promise.notes}</p>
+                            )}
+                            {promise.evaluated_at && (
+                              <p className="text-[11px] text-gray-400 mt-2">Last checked {formatDateTime(promise.evaluated_at)}</p>
+                            )}
+                          </div>
+                        </div>
+                      </td>
+                    </tr>
+                  ),
+                ];
+              })
+            )}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,94 @@
+export type PromiseStatus = 'open' | 'kept' | 'partially_kept' | 'broken' | 'cancelled';
+
+export type InstallmentStatus = 'pending' | 'kept' | 'partially_kept' | 'broken';
+
+export type PromiseChannel = 'phone' | 'email' | 'meeting' | 'portal' | 'other';
+
+export interface PromiseInstallment {
+  id: string;
+  promise_id: string;
+  installment_number: number;
+  due_date: string;
+  amount: number;
+  amount_paid: number;
+  status: InstallmentStatus;
+  evaluated_at: string | null;
+}
+
+export interface PromiseInvoice {
+  promise_id: string;
+  invoice_reference_number: string;
+  balance_at_promise: number | null;
+}
+
+export interface PaymentPromise {
+  id: string;
+  customer_id: string;
+  customer_name: string | null;
+  ticket_id: string | null;
+  promised_amount: number;
+  amount_paid: number;
+  promise_date: string;
+  channel: PromiseChannel;
+  taken_by: string | null;
+  notes: string | null;
+  status: PromiseStatus;
+  evaluated_at: string | null;
+  closed_at: string | null;
+  created_at: string;
+  installments: PromiseInstallment[];
+  invoices: PromiseInvoice[];
+  taken_by_name?: string | null;
+  ticket_number?: string | null;
+}
+
+export interface InstallmentDraft {
+  due_date: string;
+  amount: string;
+}
+
+export const CHANNEL_LABELS: Record<PromiseChannel, string> = {
+  phone: 'Phone',
+  email: 'Email',
+  meeting: 'Meeting',
+  portal: 'Customer portal',
+  other: 'Other',
+};
+
+export const STATUS_LABELS: Record<PromiseStatus, string> = {
+  open: 'Open',
+  kept: 'Kept',
+  partially_kept: 'Partially Kept',
+  broken: 'Broken',
+  cancelled: 'Cancelled',
+};
+
+export const STATUS_STYLES: Record<PromiseStatus, string> = {
+  open: 'bg-blue-100 text-blue-700',
+  kept: 'bg-green-100 text-green-700',
+  partially_kept: 'bg-amber-100 text-amber-700',
+  broken: 'bg-red-100 text-red-700',
+  cancelled: 'bg-gray-100 text-gray-600',
+};
+
+export const INSTALLMENT_STYLES: Record<InstallmentStatus, string> = {
+  pending: 'bg-gray-100 text-gray-600',
+  kept: 'bg-green-100 text-green-700',
+  partially_kept: 'bg-amber-100 text-amber-700',
+  broken: 'bg-red-100 text-red-700',
+};
+
+export const formatCurrency = (value: number | null) =>
+  `$${(Number(value) || 0).toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+
+/**
+ * Converts the form rows into the `p_installments` payload of
+ * `create_payment_promise`, or returns an error message.
+ */
+export function toInstallmentPayload(rows: InstallmentDraft[]): { due_date: string; amount: number }[] | string {
+  if (rows.length === 0) return 'Add at least one payment date';
+  const payload = rows.map(row => ({ due_date: row.due_date, amount: Math.round(Number(row.amount) * 100) / 100 }));
+  if (payload.some(row => !row.due_date)) return 'Every installment needs a date';
+  if (payload.some(row => !(row.amount > 0))) return 'Every installment needs an amount greater than zero';
+  return payload;
+}
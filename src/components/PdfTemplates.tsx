@@ -0,0 +1,9 @@
+import PdfTemplatesPage from './PdfTemplates/index';
+
+interface PdfTemplatesProps {
+  onBack: () => void;
+}
+
+export default function PdfTemplates({ onBack }: PdfTemplatesProps) {
+  return <PdfTemplatesPage onBack={onBack} />;
+}
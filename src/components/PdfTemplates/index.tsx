@@ -0,0 +1,443 @@
+import { useState, useEffect } from 'react';
+import { ArrowLeft, Loader2, Plus, Save, Trash2, Eye, Upload, X, Star, FileText } from 'lucide-react';
+import { supabase } from '../../lib/supabase';
+import { useAuth } from '../../contexts/AuthContext';
+import { useToast } from '../../contexts/ToastContext';
+import { usePermissions } from '../../contexts/PermissionsContext';
+import { PERMISSIONS } from '../../lib/permissions';
+import {
+  DOCUMENT_BUCKET,
+  PDF_DOCUMENT_TYPE_LABELS,
+  PdfDocumentType,
+  PdfTemplate,
+  fetchPdfTemplates,
+  previewPdfTemplate,
+} from '../../lib/customerPdf';
+import { ACCENT_PRESETS, PdfTemplateForm, SECTION_TOGGLES, newTemplateForm, toForm } from './types';
+
+interface PdfTemplatesPageProps {
+  onBack: () => void;
+}
+
+const inputClass = 'mt-1 w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-blue-500 disabled:bg-gray-50';
+
+export default function PdfTemplatesPage({ onBack }: PdfTemplatesPageProps) {
+  const { user, profile } = useAuth();
+  const { showToast } = useToast();
+  const { can } = usePermissions();
+  const canEdit = can(PERMISSIONS.STATEMENTS, 'edit');
+
+  const [templates, setTemplates] = useState<PdfTemplate[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [form, setForm] = useState<PdfTemplateForm | null>(null);
+  const [logoUrl, setLogoUrl] = useState<string | null>(null);
+  const [saving, setSaving] = useState(false);
+  const [uploading, setUploading] = useState(false);
+  const [previewing, setPreviewing] = useState(false);
+
+  useEffect(() => {
+    loadTemplates();
+  }, []);
+
+  useEffect(() => {
+    setLogoUrl(null);
+    if (!form?.logo_path) return;
+    supabase.storage
+      .from(DOCUMENT_BUCKET)
+      .createSignedUrl(form.logo_path, 3600)
+      .then(({ data }) => setLogoUrl(data?.signedUrl ?? null));
+  }, [form?.logo_path]);
+
+  const loadTemplates = async (selectId?: string) => {
+    try {
+      const data = await fetchPdfTemplates();
+      setTemplates(data);
+      const selected = data.find(t => t.id === (selectId ?? form?.id)) || data[0];
+      setForm(selected ? toForm(selected) : null);
+    } catch (error: any) {
+      showToast(error.message, 'error');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const update = (changes: Partial<PdfTemplateForm>) => {
+    if (form) setForm({ ...form, ...changes });
+  };
+
+  const startNew = (documentType: PdfDocumentType) => {
+    const basedOn = templates.find(t => t.document_type === documentType && t.is_default);
+    setForm(newTemplateForm(documentType, basedOn));
+  };
+
+  const handleSave = async () => {
+    if (!form) return;
+    if (!form.name.trim()) {
+      showToast('Give the template a name', 'error');
+      return;
+    }
+    setSaving(true);
+    try {
+      // Only one default per document type is allowed, so clear the old one first
+      if (form.is_default) {
+        let clear = supabase
+          .from('pdf_templates')
+          .update({ is_default: false })
+          .eq('document_type', form.document_type)
+          .eq('is_default', true);
+        if (form.id) clear = clear.neq('id', form.id);
+        const { error: clearError } = await clear;
+        if (clearError) throw clearError;
+      }
+
+      const { id, ...fields } = form;
+      const values = { ...fields, name: form.name.trim(), updated_by: user?.id };
+      const { data, error } = id
+        ? await supabase.from('pdf_templates').update(values).eq('id', id).select().single()
+        : await supabase.from('pdf_templates').insert({ ...values, created_by: user?.id }).select().single();
+      if (error) throw error;
+
+      showToast('PDF template saved', 'success');
+      await loadTemplates(data.id);
+    } catch (error: any) {
+      showToast(error.message, 'error');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!form?.id) return;
+    if (!confirm(`Delete "${form.name}"? Report templates using it fall back to the default layout.`)) return;
+    try {
+      const { error } = await supabase.from('pdf_templates').delete().eq('id', form.id);
+      if (error) throw error;
+      showToast('PDF template deleted', 'success');
+      setForm(null);
+      await loadTemplates();
+    } catch (error: any) {
+      showToast(error.message, 'error');
+    }
+  };
+
+  const handleLogoUpload = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    if (!file || !form) return;
+    if (!['image/png', 'image/jpeg'].includes(file.type)) {
+      showToast('Logos must be PNG or JPEG images', 'error');
+      event.target.value = '';
+      return;
+    }
+    setUploading(true);
+    try {
+      const path = `${profile?.organization_id}/branding/${Date.now()}_${file.name.replace(/[^a-zA-Z0-9._-]/g, '_')}`;
+      const { error } = await supabase.storage
+        .from(DOCUMENT_BUCKET)
+        .upload(path, file, { contentType: file.type });
+      if (error) throw error;
+      update({ logo_path: path });
+    } catch (error: any) {
+      showToast(error.message, 'error');
+    } finally {
+      setUploading(false);
+      event.target.value = '';
+    }
+  };
+
+  const handlePreview = async () => {
+    if (!form) return;
+    setPreviewing(true);
+    try {
+      const { id, ...fields } = form;
+      const blob = await previewPdfTemplate({ ...fields, id: id ?? undefined });
+      window.open(URL.createObjectURL(blob), '_blank');
+    } catch (error: any) {
+      showToast(error.message, 'error');
+    } finally {
+      setPreviewing(false);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center h-64">
+        <Loader2 className="w-8 h-8 animate-spin text-blue-600" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex items-center justify-between flex-wrap gap-4">
+        <div className="flex items-center space-x-4">
+          <button onClick={onBack} className="p-2 hover:bg-gray-100 rounded-lg transition-colors">
+            <ArrowLeft className="w-5 h-5" />
+          </button>
+          <div>
+            <h1 className="text-2xl font-bold text-gray-900">PDF Templates</h1>
+            <p className="text-gray-600 mt-0.5 text-sm">
+              Branding and layout of the statement and invoice PDFs attached to customer emails
+            </p>
+          </div>
+        </div>
+        {canEdit && (
+          <div className="flex items-center gap-2">
+            {(['statement', 'invoice'] as PdfDocumentType[]).map(type => (
+              <button
+                key={type}
+                onClick={() => startNew(type)}
+                className="flex items-center space-x-2 px-4 py-2.5 bg-blue-600 text-white rounded-lg hover:bg-blue-700 text-sm font-medium"
+              >
+                <Plus className="w-4 h-4" />
+                <span>New {PDF_DOCUMENT_TYPE_LABELS[type]} Layout</span>
+              </button>
+            ))}
+          </div>
+        )}
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+        {/* Template list */}
+        <div className="bg-white rounded-xl border border-gray-200 divide-y divide-gray-100 self-start">
+          {templates.length === 0 && (
+            <p className="px-4 py-6 text-sm text-gray-500 text-center">No PDF templates yet</p>
+          )}
+          {templates.map(template => (
+            <button
+              key={template.id}
+              onClick={() => setForm(toForm(template))}
+              className={`w-full text-left px-4 py-3 transition-colors ${
+                template.id === form?.id ? 'bg-blue-50' : 'hover:bg-gray-50'
+              }`}
+            >
+              <div className="flex items-center justify-between gap-2">
+                <span className="text-sm font-medium text-gray-900 flex items-center gap-1.5">
+                  <span className="w-3 h-3 rounded-full" style={{ backgroundColor: template.accent_color }} />
+                  {template.name}
+                </span>
+                {template.is_default && (
+                  <span className="flex items-center gap-1 text-xs text-amber-700">
+                    <Star className="w-3 h-3 fill-current" />
+                    Default
+                  </span>
+                )}
+              </div>
+              <p className="text-xs text-gray-500 mt-0.5">{PDF_DOCUMENT_TYPE_LABELS[template.document_type]}</p>
+            </button>
+          ))}
+        </div>
+
+        {/* Editor */}
+        {form ? (
+          <div className="lg:col-span-2 bg-white rounded-xl border border-gray-200 p-6 space-y-6">
+            <div className="flex items-start justify-between gap-3">
+              <div>
+                <h2 className="text-lg font-semibold text-gray-900">
+                  {form.id ? form.name : `New ${PDF_DOCUMENT_TYPE_LABELS[form.document_type].toLowerCase()} layout`}
+                </h2>
+                <p className="text-sm text-gray-500">
+                  {form.is_default
+                    ? `Used for every ${form.document_type} unless a report template picks another layout.`
+                    : 'Report templates can pick this layout for their PDF attachment.'}
+                </p>
+              </div>
+              {canEdit && form.id && !form.is_default && (
+                <button
+                  onClick={handleDelete}
+                  className="p-2 rounded-lg text-red-500 hover:bg-red-50 transition-colors"
+                  title="Delete template"
+                >
+                  <Trash2 className="w-4 h-4" />
+                </button>
+              )}
+            </div>
+
+            <fieldset disabled={!canEdit} className="space-y-6">
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                <label className="block">
+                  <span className="text-sm font-medium text-gray-700">Template name</span>
+                  <input
+                    type="text"
+                    value={form.name}
+                    onChange={(e) => update({ name: e.target.value })}
+                    placeholder="e.g. Standard Statement"
+                    className={inputClass}
+                  />
+                </label>
+                <label className="flex items-center gap-2 md:mt-7">
+                  <input
+                    type="checkbox"
+                    checked={form.is_default}
+                    onChange={(e) => update({ is_default: e.target.checked })}
+                    className="w-4 h-4 text-blue-600 rounded"
+                  />
+                  <span className="text-sm text-gray-700">Default {form.document_type} layout</span>
+                </label>
+              </div>
+
+              {/* Branding */}
+              <div className="space-y-4">
+                <h3 className="text-sm font-semibold text-gray-900 uppercase tracking-wide">Branding</h3>
+                <div className="flex items-center gap-4">
+                  <div className="w-40 h-16 border border-dashed border-gray-300 rounded-lg flex items-center justify-center overflow-hidden bg-gray-50">
+                    {logoUrl ? (
+                      <img src={logoUrl} alt="Logo" className="max-w-full max-h-full object-contain" />
+                    ) : (
+                      <span className="text-xs text-gray-400">No logo</span>
+                    )}
+                  </div>
+                  {canEdit && (
+                    <div className="flex items-center gap-2">
+                      <label className="flex items-center gap-1.5 px-3 py-2 border border-gray-300 rounded-lg text-sm text-gray-700 hover:bg-gray-50 cursor-pointer">
+                        {uploading ? <Loader2 className="w-4 h-4 animate-spin" /> : <Upload className="w-4 h-4" />}
+                        {form.logo_path ? 'Replace logo' : 'Upload logo'}
+                        <input type="file" accept="image/png,image/jpeg" onChange={handleLogoUpload} className="hidden" disabled={uploading} />
+                      </label>
+                      {form.logo_path && (
+                        <button
+                          type="button"
+                          onClick={() => update({ logo_path: null })}
+                          className="flex items-center gap-1 px-3 py-2 text-sm text-gray-600 hover:text-red-600"
+                        >
+                          <X className="w-4 h-4" />
+                          Remove
+                        </button>
+                      )}
+                    </div>
+                  )}
+                </div>
+                <div>
+                  <span className="text-sm font-medium text-gray-700">Accent color</span>
+                  <div className="mt-1 flex items-center gap-2">
+                    <input
+                      type="color"
+                      value={form.accent_color}
+                      onChange={(e) => update({ accent_color: e.target.value })}
+                      className="w-10 h-9 border border-gray-300 rounded cursor-pointer"
+                    />
+                    {ACCENT_PRESETS.map(color => (
+                      <button
+                        key={color}
+                        type="button"
+                        onClick={() => update({ accent_color: color })}
+                        className={`w-7 h-7 rounded-full border-2 ${form.accent_color === color ? 'border-gray-900' : 'border-transparent'}`}
+                        style={{ backgroundColor: color }}
+                        title={color}
+                      />
+                    ))}
+                  </div>
+                </div>
+              </div>
+
+              {/* Addresses */}
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+                <div className="space-y-3">
+                  <h3 className="text-sm font-semibold text-gray-900 uppercase tracking-wide">Company</h3>
+                  <label className="block">
+                    <span className="text-sm font-medium text-gray-700">Name</span>
+                    <input type="text" value={form.company_name} onChange={(e) => update({ company_name: e.target.value })} className={inputClass} />
+                  </label>
+                  <label className="block">
+                    <span className="text-sm font-medium text-gray-700">Address</span>
+                    <textarea rows={3} value={form.company_address} onChange={(e) => update({ company_address: e.target.value })} className={inputClass} />
+                  </label>
+                  <div className="grid grid-cols-2 gap-3">
+                    <label className="block">
+                      <span className="text-sm font-medium text-gray-700">Phone</span>
+                      <input type="text" value={form.company_phone || ''} onChange={(e) => update({ company_phone: e.target.value || null })} className={inputClass} />
+                    </label>
+                    <label className="block">
+                      <span className="text-sm font-medium text-gray-700">Email</span>
+                      <input type="email" value={form.company_email || ''} onChange={(e) => update({ company_email: e.target.value || null })} className={inputClass} />
+                    </label>
+                  </div>
+                </div>
+                <div className="space-y-3">
+                  <h3 className="text-sm font-semibold text-gray-900 uppercase tracking-wide">Remit To</h3>
+                  <label className="block">
+                    <span className="text-sm font-medium text-gray-700">Payee</span>
+                    <input type="text" value={form.remit_to_name} onChange={(e) => update({ remit_to_name: e.target.value })} className={inputClass} />
+                  </label>
+                  <label className="block">
+                    <span className="text-sm font-medium text-gray-700">Address</span>
+                    <textarea rows={3} value={form.remit_to_address} onChange={(e) => update({ remit_to_address: e.target.value })} className={inputClass} />
+                    <span className="text-xs text-gray-500 mt-1 block">Printed on the payment coupon, e.g. your lockbox address</span>
+                  </label>
+                </div>
+              </div>
+
+              {/* Sections */}
+              <div className="space-y-3">
+                <h3 className="text-sm font-semibold text-gray-900 uppercase tracking-wide">Sections</h3>
+                {SECTION_TOGGLES.map(toggle => (
+                  <label key={toggle.key} className="flex items-start gap-2">
+                    <input
+                      type="checkbox"
+                      checked={form[toggle.key]}
+                      onChange={(e) => update({ [toggle.key]: e.target.checked })}
+                      className="w-4 h-4 mt-0.5 text-blue-600 rounded"
+                    />
+                    <span>
+                      <span className="text-sm text-gray-900">{toggle.label}</span>
+                      <span className="text-xs text-gray-500 block">{toggle.description}</span>
+                    </span>
+                  </label>
+                ))}
+              </div>
+
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                <label className="block">
+                  <span className="text-sm font-medium text-gray-700">Header note</span>
+                  <textarea
+                    rows={3}
+                    value={form.header_note || ''}
+                    onChange={(e) => update({ header_note: e.target.value || null })}
+                    placeholder="Shown above the invoice table"
+                    className={inputClass}
+                  />
+                </label>
+                <label className="block">
+                  <span className="text-sm font-medium text-gray-700">Footer note</span>
+                  <textarea
+                    rows={3}
+                    value={form.footer_note || ''}
+                    onChange={(e) => update({ footer_note: e.target.value || null })}
+                    placeholder="Shown at the bottom of every page"
+                    className={inputClass}
+                  />
+                </label>
+              </div>
+            </fieldset>
+
+            <div className="flex justify-end gap-2 pt-2 border-t border-gray-100">
+              <button
+                onClick={handlePreview}
+                disabled={previewing}
+                className="flex items-center gap-1.5 px-4 py-2 border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 disabled:opacity-50 text-sm"
+              >
+                {previewing ? <Loader2 className="w-4 h-4 animate-spin" /> : <Eye className="w-4 h-4" />}
+                Preview
+              </button>
+              {canEdit && (
+                <button
+                  onClick={handleSave}
+                  disabled={saving}
+                  className="flex items-center gap-1.5 px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50 text-sm font-medium"
+                >
+                  {saving ? <Loader2 className="w-4 h-4 animate-spin" /> : <Save className="w-4 h-4" />}
+                  Save Template
+                </button>
+              )}
+            </div>
+          </div>
+        ) : (
+          <div className="lg:col-span-2 bg-white rounded-xl border border-gray-200 p-12 text-center">
+            <FileText className="w-10 h-10 text-gray-300 mx-auto mb-3" />
+            <p className="text-sm text-gray-500">Select a template to edit it</p>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
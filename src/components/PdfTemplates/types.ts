@@ -0,0 +1,61 @@
+import { PdfDocumentType, PdfTemplate } from '../../lib/customerPdf';
+
+export type PdfTemplateForm = Omit<PdfTemplate, 'id' | 'organization_id' | 'created_at' | 'updated_at'> & {
+  id: string | null;
+};
+
+export type SectionToggle = 'show_aging_summary' | 'show_invoice_table' | 'show_payment_coupon';
+
+export const SECTION_TOGGLES: { key: SectionToggle; label: string; description: string }[] = [
+  { key: 'show_aging_summary', label: 'Aging summary', description: 'Open balance by days past due (statements only)' },
+  { key: 'show_invoice_table', label: 'Invoice table', description: 'Every open invoice and credit with its balance' },
+  { key: 'show_payment_coupon', label: 'Payment coupon', description: 'Detachable slip with amount due and remit-to address' },
+];
+
+export const ACCENT_PRESETS = ['#1e3a8a', '#0f766e', '#7c2d12', '#4c1d95', '#111827'];
+
+export function toForm(template: PdfTemplate): PdfTemplateForm {
+  return {
+    id: template.id,
+    name: template.name,
+    document_type: template.document_type,
+    is_default: template.is_default,
+    logo_path: template.logo_path,
+    company_name: template.company_name,
+    company_address: template.company_address,
+    company_phone: template.company_phone,
+    company_email: template.company_email,
+    remit_to_name: template.remit_to_name,
+    remit_to_address: template.remit_to_address,
+    accent_color: template.accent_color,
+    header_note: template.header_note,
+    footer_note: template.footer_note,
+    show_aging_summary: template.show_aging_summary,
+    show_invoice_table: template.show_invoice_table,
+    show_payment_coupon: template.show_payment_coupon,
+  };
+}
+
+export function newTemplateForm(documentType: PdfDocumentType, basedOn?: PdfTemplate): PdfTemplateForm {
+  return {
+    ...(basedOn ? toForm(basedOn) : {
+      logo_path: null,
+      company_name: '',
+      company_address: '',
+      company_phone: null,
+      company_email: null,
+      remit_to_name: '',
+      remit_to_address: '',
+      accent_color: ACCENT_PRESETS[0],
+      header_note: null,
+      footer_note: null,
+      show_aging_summary: documentType === 'statement',
+      show_invoice_table: true,
+      show_payment_coupon: true,
+    }),
+    id: null,
+    name: '',
+    document_type: documentType,
+    is_default: false,
+  };
+}
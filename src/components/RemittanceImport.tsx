@@ -0,0 +1,9 @@
+import RemittanceImportPage from './RemittanceImport/index';
+
+interface RemittanceImportProps {
+  onBack: () => void;
+}
+
+export default function RemittanceImport({ onBack }: RemittanceImportProps) {
+  return <RemittanceImportPage onBack={onBack} />;
+}
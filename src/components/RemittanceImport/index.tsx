@@ -0,0 +1,571 @@
+import { useState, useEffect, useRef } from 'react';
+import { ArrowLeft, Loader2, Upload, Check, X, Landmark, AlertTriangle, UserCheck, Search } from 'lucide-react';
+import { supabase } from '../../lib/supabase';
+import { useToast } from '../../contexts/ToastContext';
+import { formatDate, formatDateTime } from '../../lib/dateUtils';
+import { getAcumaticaInvoiceUrl } from '../../lib/acumaticaLinks';
+import { parseRemittanceFile, hashRemittanceFile, ParsedRemittanceFile } from '../../lib/remittances';
+import {
+  RemittanceImportRecord,
+  RemittanceLine,
+  STATUS_LABELS,
+  STATUS_STYLES,
+  REASON_LABELS,
+  scoreStyle,
+  formatCurrency,
+} from './types';
+
+interface RemittanceImportPageProps {
+  onBack: () => void;
+}
+
+type Tab = 'review' | 'pending' | 'all';
+
+interface PendingFile {
+  name: string;
+  content: string;
+  parsed: ParsedRemittanceFile;
+}
+
+interface ManualMatch {
+  customerId: string;
+  invoices: string;
+}
+
+const PAGE_SIZE = 1000;
+
+export default function RemittanceImportPage({ onBack }: RemittanceImportPageProps) {
+  const [imports, setImports] = useState<RemittanceImportRecord[]>([]);
+  const [selectedImportId, setSelectedImportId] = useState<string | null>(null);
+  const [lines, setLines] = useState<RemittanceLine[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [linesLoading, setLinesLoading] = useState(false);
+  const [importing, setImporting] = useState(false);
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const [pendingFile, setPendingFile] = useState<PendingFile | null>(null);
+  const [manual, setManual] = useState<Record<string, ManualMatch>>({});
+  const [notes, setNotes] = useState<Record<string, string>>({});
+
+  const [tab, setTab] = useState<Tab>('review');
+  const [search, setSearch] = useState('');
+
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const { showToast } = useToast();
+
+  useEffect(() => {
+    fetchImports();
+  }, []);
+
+  useEffect(() => {
+    if (selectedImportId) {
+      fetchLines(selectedImportId);
+    } else {
+      setLines([]);
+    }
+  }, [selectedImportId]);
+
+  const fetchImports = async (selectId?: string) => {
+    try {
+      const { data, error } = await supabase
+        .from('remittance_imports')
+        .select('*')
+        .order('created_at', { ascending: false })
+        .limit(50);
+      if (error) throw error;
+      setImports(data || []);
+      setSelectedImportId(current => selectId || current || data?.[0]?.id || null);
+    } catch (error: any) {
+      showToast(error.message, 'error');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const fetchLines = async (importId: string) => {
+    setLinesLoading(true);
+    try {
+      const rows: RemittanceLine[] = [];
+      let from = 0;
+      let hasMore = true;
+      while (hasMore) {
+        const { data, error } = await supabase
+          .from('remittance_lines')
+          .select('*')
+          .eq('import_id', importId)
+          .order('line_number')
+          .range(from, from + PAGE_SIZE - 1);
+        if (error) throw error;
+        rows.push(...(data || []));
+        hasMore = !!data && data.length === PAGE_SIZE;
+        from += PAGE_SIZE;
+      }
+      setLines(rows);
+    } catch (error: any) {
+      showToast(error.message, 'error');
+    } finally {
+      setLinesLoading(false);
+    }
+  };
+
+  const handleFileSelected = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+    try {
+      const content = await file.text();
+      const parsed = parseRemittanceFile(content);
+      if (parsed.deposits.length === 0) {
+        showToast('No deposits found in this file', 'error');
+        return;
+      }
+      setPendingFile({ name: file.name, content, parsed });
+    } catch (error: any) {
+      showToast(`Could not read ${file.name}: ${error.message}`, 'error');
+    }
+  };
+
+  const confirmImport = async () => {
+    if (!pendingFile) return;
+    setImporting(true);
+    try {
+      const fileHash = await hashRemittanceFile(pendingFile.content);
+      const { data, error } = await supabase.rpc('import_remittance_file', {
+        p_file_name: pendingFile.name,
+        p_file_format: pendingFile.parsed.format,
+        p_file_hash: fileHash,
+        p_deposits: pendingFile.parsed.deposits,
+      });
+      if (error) throw error;
+      showToast(`${pendingFile.name} imported`, 'success');
+      setPendingFile(null);
+      setTab('review');
+      await fetchImports(data as string);
+    } catch (error: any) {
+      showToast(error.message, 'error');
+    } finally {
+      setImporting(false);
+    }
+  };
+
+  const reviewLine = async (line: RemittanceLine, decision: 'matched' | 'rejected', useManual = false) => {
+    const manualMatch = manual[line.id];
+    setBusyId(line.id);
+    try {
+      const { error } = await supabase.rpc('review_remittance_line', {
+        p_line_id: line.id,
+        p_decision: decision,
+        p_customer_id: useManual ? manualMatch?.customerId.trim() || null : null,
+        p_invoice_refs: useManual
+          ? (manualMatch?.invoices || '').split(/[;,\s]+/).filter(Boolean)
+          : null,
+        p_note: notes[line.id] || null,
+      });
+      if (error) throw error;
+      showToast(
+        decision === 'matched'
+          ? 'Cash marked as received, pending posting'
+          : 'Line rejected',
+        'success'
+      );
+      setManual(prev => {
+        const next = { ...prev };
+        delete next[line.id];
+        return next;
+      });
+      await Promise.all([fetchLines(line.import_id), fetchImports()]);
+    } catch (error: any) {
+      showToast(error.message, 'error');
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const term = search.trim().toLowerCase();
+  const matchesSearch = (line: RemittanceLine) =>
+    !term ||
+    (line.payer_name || '').toLowerCase().includes(term) ||
+    (line.check_number || '').toLowerCase().includes(term) ||
+    (line.customer_name || '').toLowerCase().includes(term) ||
+    (line.customer_id || '').toLowerCase().includes(term) ||
+    line.allocations.some(a => a.invoice_reference.toLowerCase().includes(term)) ||
+    line.invoice_hints.some(h => h.reference.toLowerCase().includes(term));
+
+  const toReview = lines.filter(l => l.status === 'suggested' || l.status === 'unmatched');
+  const pendingPosting = lines.filter(l => l.status === 'matched');
+  const visibleLines = (tab === 'review' ? toReview : tab === 'pending' ? pendingPosting : lines).filter(matchesSearch);
+
+  const selectedImport = imports.find(i => i.id === selectedImportId) || null;
+  const previewSummary = pendingFile && {
+    lines: pendingFile.parsed.deposits.reduce((sum, d) => sum + d.lines.length, 0),
+    total: pendingFile.parsed.deposits.reduce((sum, d) => sum + d.amount, 0),
+  };
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center h-64">
+        <Loader2 className="w-8 h-8 animate-spin text-blue-600" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex items-center justify-between flex-wrap gap-4">
+        <div className="flex items-center space-x-4">
+          <button onClick={onBack} className="p-2 hover:bg-gray-100 rounded-lg transition-colors">
+            <ArrowLeft className="w-5 h-5" />
+          </button>
+          <div>
+            <h1 className="text-2xl font-bold text-gray-900">Bank Remittances</h1>
+            <p className="text-gray-600 mt-0.5 text-sm">
+              Import BAI2 or lockbox CSV files to see cash that has reached the bank before it is posted in Acumatica
+            </p>
+          </div>
+        </div>
+        <button
+          onClick={() => fileInputRef.current?.click()}
+          disabled={importing}
+          className="flex items-center space-x-2 px-4 py-2.5 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50 text-sm font-medium"
+        >
+          <Upload className="w-4 h-4" />
+          <span>Import File</span>
+        </button>
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept=".bai,.bai2,.txt,.csv"
+          onChange={handleFileSelected}
+          className="hidden"
+        />
+      </div>
+
+      {/* Preview before import */}
+      {pendingFile && previewSummary && (
+        <div className="bg-white rounded-xl border border-blue-200 p-5 space-y-4">
+          <div className="flex items-start justify-between flex-wrap gap-3">
+            <div>
+              <p className="font-semibold text-gray-900">{pendingFile.name}</p>
+              <p className="text-sm text-gray-600 mt-0.5">
+                {pendingFile.parsed.format === 'bai2' ? 'BAI2' : 'CSV lockbox'} ·{' '}
+                {pendingFile.parsed.deposits.length} deposit{pendingFile.parsed.deposits.length === 1 ? '' : 's'} ·{' '}
+                {previewSummary.lines} payment{previewSummary.lines === 1 ? '' : 's'} ·{' '}
+                {formatCurrency(previewSummary.total)}
+              </p>
+            </div>
+            <div className="flex items-center gap-2">
+              <button
+                onClick={() => setPendingFile(null)}
+                disabled={importing}
+                className="px-3 py-1.5 border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 disabled:opacity-50 text-sm"
+              >
+                Cancel
+              </button>
+              <button
+                onClick={confirmImport}
+                disabled={importing}
+                className="flex items-center gap-1.5 px-3 py-1.5 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50 text-sm font-medium"
+              >
+                {importing ? <Loader2 className="w-4 h-4 animate-spin" /> : <Check className="w-4 h-4" />}
+                {importing ? 'Importing...' : 'Import and Match'}
+              </button>
+            </div>
+          </div>
+          {pendingFile.parsed.warnings.length > 0 && (
+            <div className="bg-amber-50 border border-amber-200 rounded-lg p-3 space-y-1">
+              {pendingFile.parsed.warnings.map((warning, index) => (
+                <p key={index} className="flex items-start gap-2 text-xs text-amber-800">
+                  <AlertTriangle className="w-3.5 h-3.5 mt-0.5 flex-shrink-0" />
+                  {warning}
+                </p>
+              ))}
+            </div>
+          )}
+          <div className="overflow-x-auto max-h-64 border border-gray-100 rounded-lg">
+            <table className="w-full text-sm">
+              <thead className="bg-gray-50 sticky top-0">
+                <tr className="text-xs text-gray-500 uppercase">
+                  <th className="text-left py-2 px-3 font-semibold">Date</th>
+                  <th className="text-left py-2 px-3 font-semibold">Payer</th>
+                  <th className="text-left py-2 px-3 font-semibold">Check / Ref</th>
+                  <th className="text-left py-2 px-3 font-semibold">Invoices</th>
+                  <th className="text-right py-2 px-3 font-semibold">Amount</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-100">
+                {pendingFile.parsed.deposits.flatMap((deposit, di) =>
+                  deposit.lines.map((line, li) => (
+                    <tr key={`${di}-${li}`}>
+                      <td className="py-1.5 px-3 text-gray-700">{formatDate(deposit.deposit_date)}</td>
+                      <td className="py-1.5 px-3 text-gray-900">{line.payer_name || line.payer_account || '—'}</td>
+                      <td className="py-1.5 px-3 text-gray-700">{line.check_number || '—'}</td>
+                      <td className="py-1.5 px-3 text-gray-700">
+                        {line.invoice_hints.map(h => h.reference).join(', ') || '—'}
+                      </td>
+                      <td className="py-1.5 px-3 text-right font-medium text-gray-900">{formatCurrency(line.amount)}</td>
+                    </tr>
+                  ))
+                )}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      )}
+
+      {imports.length === 0 ? (
+        <div className="bg-white rounded-xl border border-gray-200 py-16 text-center">
+          <Landmark className="w-12 h-12 text-gray-300 mx-auto mb-3" />
+          <p className="text-gray-500">No remittance files imported yet</p>
+        </div>
+      ) : (
+        <>
+          {/* Import selector and summary */}
+          <div className="flex items-center gap-3 flex-wrap">
+            <select
+              value={selectedImportId || ''}
+              onChange={(e) => setSelectedImportId(e.target.value)}
+              className="px-3 py-2 border border-gray-300 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+            >
+              {imports.map(i => (
+                <option key={i.id} value={i.id}>
+                  {i.file_name} · {formatDateTime(i.created_at)}
+                </option>
+              ))}
+            </select>
+            {selectedImport && (
+              <span className="text-sm text-gray-600">
+                {selectedImport.deposit_count} deposits · {selectedImport.line_count} payments ·{' '}
+                {formatCurrency(selectedImport.total_amount)}
+              </span>
+            )}
+          </div>
+
+          {selectedImport && (
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+              <div className="bg-white rounded-xl border border-gray-200 p-4">
+                <p className="text-xs text-gray-500 uppercase font-semibold">To Review</p>
+                <p className="text-2xl font-bold text-amber-700 mt-1">{toReview.length}</p>
+              </div>
+              <div className="bg-white rounded-xl border border-gray-200 p-4">
+                <p className="text-xs text-gray-500 uppercase font-semibold">Pending Posting</p>
+                <p className="text-2xl font-bold text-blue-700 mt-1">
+                  {formatCurrency(pendingPosting.reduce((sum, l) => sum + l.amount, 0))}
+                </p>
+              </div>
+              <div className="bg-white rounded-xl border border-gray-200 p-4">
+                <p className="text-xs text-gray-500 uppercase font-semibold">Posted</p>
+                <p className="text-2xl font-bold text-green-700 mt-1">
+                  {lines.filter(l => l.status === 'posted').length}
+                </p>
+              </div>
+              <div className="bg-white rounded-xl border border-gray-200 p-4">
+                <p className="text-xs text-gray-500 uppercase font-semibold">Rejected</p>
+                <p className="text-2xl font-bold text-gray-700 mt-1">
+                  {lines.filter(l => l.status === 'rejected').length}
+                </p>
+              </div>
+            </div>
+          )}
+
+          {/* Filters */}
+          <div className="flex items-center justify-between flex-wrap gap-3">
+            <div className="flex rounded-lg border border-gray-300 overflow-hidden text-sm">
+              {([
+                ['review', `Review (${toReview.length})`],
+                ['pending', `Pending Posting (${pendingPosting.length})`],
+                ['all', 'All'],
+              ] as [Tab, string][]).map(([value, label]) => (
+                <button
+                  key={value}
+                  onClick={() => setTab(value)}
+                  className={`px-3 py-1.5 ${tab === value ? 'bg-blue-600 text-white' : 'bg-white text-gray-700 hover:bg-gray-50'}`}
+                >
+                  {label}
+                </button>
+              ))}
+            </div>
+            <div className="relative">
+              <Search className="w-4 h-4 text-gray-400 absolute left-3 top-1/2 -translate-y-1/2" />
+              <input
+                type="text"
+                value={search}
+                onChange={(e) => setSearch(e.target.value)}
+                placeholder="Search payer, check, customer or invoice..."
+                className="pl-9 pr-3 py-2 w-72 border border-gray-300 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+              />
+            </div>
+          </div>
+
+          {/* Lines */}
+          {linesLoading ? (
+            <div className="flex items-center justify-center h-32">
+              <Loader2 className="w-6 h-6 animate-spin text-blue-600" />
+            </div>
+          ) : visibleLines.length === 0 ? (
+            <div className="bg-white rounded-xl border border-gray-200 py-12 text-center text-gray-500">
+              {tab === 'review' ? 'Nothing left to review in this file' : 'No payments to show'}
+            </div>
+          ) : (
+            <div className="bg-white rounded-xl border border-gray-200 divide-y divide-gray-100">
+              {visibleLines.map(line => {
+                const reviewable = line.status === 'suggested' || line.status === 'unmatched' || line.status === 'matched';
+                const manualMatch = manual[line.id];
+                return (
+                  <div key={line.id} className="px-5 py-4 space-y-3">
+                    <div className="flex items-start justify-between flex-wrap gap-3">
+                      <div className="space-y-1">
+                        <div className="flex items-center gap-2 flex-wrap text-sm">
+                          <span className="font-semibold text-gray-900">{formatCurrency(line.amount)}</span>
+                          <span className="text-gray-500">{formatDate(line.deposit_date)}</span>
+                          {line.check_number && <span className="text-gray-500">Check {line.check_number}</span>}
+                          <span className="text-gray-700">{line.payer_name || line.payer_account || 'Unknown payer'}</span>
+                          <span className={`px-2 py-0.5 rounded-full text-[10px] font-semibold uppercase ${STATUS_STYLES[line.status]}`}>
+                            {STATUS_LABELS[line.status]}
+                          </span>
+                        </div>
+                        {line.remittance_text && (
+                          <p className="text-xs text-gray-500 italic">"{line.remittance_text}"</p>
+                        )}
+                        {line.invoice_hints.length > 0 && (
+                          <p className="text-xs text-gray-500">
+                            Remittance lists: {line.invoice_hints.map(h => h.reference).join(', ')}
+                          </p>
+                        )}
+                      </div>
+                      {line.match_score > 0 && (
+                        <span className={`px-2 py-1 rounded-lg text-sm font-bold ${scoreStyle(line.match_score)}`}>
+                          {line.match_score}
+                        </span>
+                      )}
+                    </div>
+
+                    {line.customer_id && (
+                      <div className="flex items-center gap-2 flex-wrap">
+                        <span className="text-sm text-gray-700">
+                          {line.customer_name || line.customer_id}
+                          <span className="text-xs text-gray-500 ml-1">({line.customer_id})</span>
+                        </span>
+                        {line.allocations.length === 0 ? (
+                          <span className="px-2.5 py-1 rounded-lg bg-gray-50 border border-gray-200 text-xs text-gray-600">
+                            On account
+                          </span>
+                        ) : (
+                          line.allocations.map(alloc => (
+                            <a
+                              key={alloc.invoice_reference}
+                              href={getAcumaticaInvoiceUrl(alloc.invoice_reference)}
+                              target="_blank"
+                              rel="noopener noreferrer"
+                              className="px-2.5 py-1 rounded-lg bg-blue-50 border border-blue-200 text-xs text-blue-800 hover:bg-blue-100"
+                              title="View in Acumatica"
+                            >
+                              <span className="font-semibold">{alloc.invoice_reference}</span>
+                              {` · ${formatCurrency(alloc.amount)}`}
+                            </a>
+                          ))
+                        )}
+                        {line.match_reasons.map(reason => (
+                          <span key={reason} className="px-2 py-0.5 rounded-full bg-gray-100 text-gray-600 text-[11px]">
+                            {REASON_LABELS[reason] || reason}
+                          </span>
+                        ))}
+                      </div>
+                    )}
+
+                    {(line.reviewed_at || line.posted_at) && (
+                      <p className="text-xs text-gray-500">
+                        {line.posted_at ? `Posted in Acumatica ${formatDateTime(line.posted_at)}` : `Reviewed ${formatDateTime(line.reviewed_at)}`}
+                        {line.review_note && ` · "${line.review_note}"`}
+                      </p>
+                    )}
+
+                    {reviewable && (
+                      <div className="flex items-center gap-2 flex-wrap">
+                        {line.status !== 'matched' && line.customer_id && (
+                          <button
+                            onClick={() => reviewLine(line, 'matched')}
+                            disabled={busyId !== null}
+                            className="flex items-center gap-1 px-3 py-1.5 bg-green-600 text-white rounded-lg hover:bg-green-700 disabled:opacity-50 text-xs font-medium"
+                          >
+                            <Check className="w-3.5 h-3.5" />
+                            Confirm
+                          </button>
+                        )}
+                        <button
+                          onClick={() => setManual(prev => ({
+                            ...prev,
+                            [line.id]: prev[line.id] || {
+                              customerId: line.customer_id || '',
+                              invoices: line.allocations.map(a => a.invoice_reference).join(', '),
+                            },
+                          }))}
+                          disabled={busyId !== null}
+                          className="flex items-center gap-1 px-3 py-1.5 border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 disabled:opacity-50 text-xs font-medium"
+                        >
+                          <UserCheck className="w-3.5 h-3.5" />
+                          Assign
+                        </button>
+                        <button
+                          onClick={() => reviewLine(line, 'rejected')}
+                          disabled={busyId !== null}
+                          className="flex items-center gap-1 px-3 py-1.5 border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 disabled:opacity-50 text-xs font-medium"
+                        >
+                          <X className="w-3.5 h-3.5" />
+                          Reject
+                        </button>
+                        <input
+                          type="text"
+                          value={notes[line.id] || ''}
+                          onChange={(e) => setNotes({ ...notes, [line.id]: e.target.value })}
+                          placeholder="Note (optional)"
+                          className="flex-1 min-w-[12rem] px-3 py-1.5 border border-gray-300 rounded-lg text-xs focus:outline-none focus:ring-2 focus:ring-blue-500"
+                        />
+                      </div>
+                    )}
+
+                    {manualMatch && (
+                      <div className="flex items-center gap-2 flex-wrap bg-gray-50 rounded-lg p-3">
+                        <input
+                          type="text"
+                          value={manualMatch.customerId}
+                          onChange={(e) => setManual({ ...manual, [line.id]: { ...manualMatch, customerId: e.target.value } })}
+                          placeholder="Customer ID"
+                          className="w-40 px-3 py-1.5 border border-gray-300 rounded-lg text-xs focus:outline-none focus:ring-2 focus:ring-blue-500"
+                        />
+                        <input
+                          type="text"
+                          value={manualMatch.invoices}
+                          onChange={(e) => setManual({ ...manual, [line.id]: { ...manualMatch, invoices: e.target.value } })}
+                          placeholder="Invoice numbers (blank = on account)"
+                          className="flex-1 min-w-[14rem] px-3 py-1.5 border border-gray-300 rounded-lg text-xs focus:outline-none focus:ring-2 focus:ring-blue-500"
+                        />
+                        <button
+                          onClick={() => reviewLine(line, 'matched', true)}
+                          disabled={busyId !== null || !manualMatch.customerId.trim()}
+                          className="flex items-center gap-1 px-3 py-1.5 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50 text-xs font-medium"
+                        >
+                          {busyId === line.id ? <Loader2 className="w-3.5 h-3.5 animate-spin" /> : <Check className="w-3.5 h-3.5" />}
+                          Save Match
+                        </button>
+                        <button
+                          onClick={() => setManual(prev => {
+                            const next = { ...prev };
+                            delete next[line.id];
+                            return next;
+                          })}
+                          className="px-3 py-1.5 text-gray-600 hover:text-gray-900 text-xs"
+                        >
+                          Cancel
+                        </button>
+                      </div>
+                    )}
+                  </div>
+                );
+              })}
+            </div>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
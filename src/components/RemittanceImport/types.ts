@@ -0,0 +1,88 @@
+import { InvoiceHint, RemittanceFormat } from '../../lib/remittances';
+
+export type RemittanceLineStatus = 'unmatched' | 'suggested' | 'matched' | 'rejected' | 'posted';
+
+export type RemittanceMatchReason =
+  | 'payer_account'
+  | 'payer_name'
+  | 'invoice_reference'
+  | 'exact_amount'
+  | 'near_amount'
+  | 'partial_payment'
+  | 'invoice_combination'
+  | 'manual';
+
+export interface RemittanceAllocation {
+  invoice_reference: string;
+  customer_id: string;
+  amount: number;
+}
+
+export interface RemittanceImportRecord {
+  id: string;
+  file_name: string;
+  file_format: RemittanceFormat;
+  deposit_count: number;
+  line_count: number;
+  total_amount: number;
+  matched_count: number;
+  suggested_count: number;
+  imported_by: string | null;
+  created_at: string;
+}
+
+export interface RemittanceLine {
+  id: string;
+  import_id: string;
+  deposit_id: string;
+  line_number: number;
+  deposit_date: string;
+  payer_name: string | null;
+  payer_account: string | null;
+  check_number: string | null;
+  amount: number;
+  invoice_hints: InvoiceHint[];
+  remittance_text: string | null;
+  customer_id: string | null;
+  customer_name: string | null;
+  allocations: RemittanceAllocation[];
+  match_score: number;
+  match_reasons: RemittanceMatchReason[];
+  status: RemittanceLineStatus;
+  reviewed_at: string | null;
+  review_note: string | null;
+  posted_at: string | null;
+}
+
+export const STATUS_LABELS: Record<RemittanceLineStatus, string> = {
+  unmatched: 'Unmatched',
+  suggested: 'Suggested',
+  matched: 'Pending posting',
+  rejected: 'Rejected',
+  posted: 'Posted',
+};
+
+export const STATUS_STYLES: Record<RemittanceLineStatus, string> = {
+  unmatched: 'bg-gray-100 text-gray-700',
+  suggested: 'bg-amber-100 text-amber-700',
+  matched: 'bg-blue-100 text-blue-700',
+  rejected: 'bg-red-100 text-red-700',
+  posted: 'bg-green-100 text-green-700',
+};
+
+export const REASON_LABELS: Record<RemittanceMatchReason, string> = {
+  payer_account: 'Payer account',
+  payer_name: 'Payer name',
+  invoice_reference: 'Invoice # in remittance',
+  exact_amount: 'Exact amount',
+  near_amount: 'Near amount',
+  partial_payment: 'Partial payment',
+  invoice_combination: 'Invoices sum to amount',
+  manual: 'Chosen by reviewer',
+};
+
+export const scoreStyle = (score: number) =>
+  score >= 80 ? 'bg-green-100 text-green-800' : score >= 60 ? 'bg-blue-100 text-blue-800' : 'bg-gray-100 text-gray-700';
+
+export const formatCurrency = (value: number | null) =>
+  `$${(value || 0).toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
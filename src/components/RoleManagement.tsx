@@ -0,0 +1,9 @@
+import RoleManagementPage from './RoleManagement/index';
+
+interface RoleManagementProps {
+  onBack: () => void;
+}
+
+export default function RoleManagement({ onBack }: RoleManagementProps) {
+  return <RoleManagementPage onBack={onBack} />;
+}
@@ -0,0 +1,71 @@
+import { SystemPermission, PermissionGrant, PermissionFlag, PERMISSION_FLAGS, emptyGrant } from './types';
+
+interface PermissionMatrixProps {
+  permissions: SystemPermission[];
+  grants: Record<string, PermissionGrant>;
+  readOnly: boolean;
+  allGranted?: boolean;
+  onChange: (grant: PermissionGrant) => void;
+}
+
+export default function PermissionMatrix({ permissions, grants, readOnly, allGranted, onChange }: PermissionMatrixProps) {
+  const categories = Array.from(new Set(permissions.map(p => p.category)));
+
+  const toggle = (permissionKey: string, flag: PermissionFlag, value: boolean) => {
+    const next = { ...(grants[permissionKey] || emptyGrant(permissionKey)), [flag]: value };
+    // Any write access implies being able to see the data
+    if (flag !== 'can_view' && value) next.can_view = true;
+    if (flag === 'can_view' && !value) {
+      next.can_create = false;
+      next.can_edit = false;
+      next.can_delete = false;
+    }
+    onChange(next);
+  };
+
+  return (
+    <div className="overflow-x-auto">
+      <table className="w-full text-sm">
+        <thead>
+          <tr className="text-left text-xs text-gray-500 uppercase border-b border-gray-200">
+            <th className="py-2 pr-4 font-semibold">Permission</th>
+            {PERMISSION_FLAGS.map(flag => (
+              <th key={flag.key} className="py-2 px-3 font-semibold text-center w-20">{flag.label}</th>
+            ))}
+          </tr>
+        </thead>
+        {categories.map(category => (
+          <tbody key={category} className="divide-y divide-gray-100">
+            <tr>
+              <td colSpan={PERMISSION_FLAGS.length + 1} className="pt-4 pb-1 text-xs font-semibold text-gray-700 uppercase tracking-wide">
+                {category}
+              </td>
+            </tr>
+            {permissions.filter(p => p.category === category).map(permission => {
+              const grant = grants[permission.permission_key] || emptyGrant(permission.permission_key);
+              return (
+                <tr key={permission.permission_key}>
+                  <td className="py-2 pr-4">
+                    <p className="text-gray-900">{permission.permission_name}</p>
+                    {permission.description && <p className="text-xs text-gray-500">{permission.description}</p>}
+                  </td>
+                  {PERMISSION_FLAGS.map(flag => (
+                    <td key={flag.key} className="py-2 px-3 text-center">
+                      <input
+                        type="checkbox"
+                        checked={allGranted || grant[flag.key]}
+                        disabled={readOnly}
+                        onChange={(e) => toggle(permission.permission_key, flag.key, e.target.checked)}
+                        className="rounded border-gray-300 disabled:opacity-50"
+                      />
+                    </td>
+                  ))}
+                </tr>
+              );
+            })}
+          </tbody>
+        ))}
+      </table>
+    </div>
+  );
+}
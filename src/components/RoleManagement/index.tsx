@@ -0,0 +1,393 @@
+import { useState, useEffect } from 'react';
+import { ArrowLeft, Loader2, Plus, Save, Shield, Trash2, Edit2, X, Lock } from 'lucide-react';
+import { supabase } from '../../lib/supabase';
+import { useAuth } from '../../contexts/AuthContext';
+import { useToast } from '../../contexts/ToastContext';
+import { usePermissions } from '../../contexts/PermissionsContext';
+import { PERMISSIONS } from '../../lib/permissions';
+import PermissionMatrix from './PermissionMatrix';
+import {
+  BaseRole,
+  CustomRole,
+  PermissionGrant,
+  RoleEntry,
+  RolePermission,
+  SystemPermission,
+  BUILT_IN_ROLES,
+  BASE_ROLE_OPTIONS,
+} from './types';
+
+interface RoleManagementPageProps {
+  onBack: () => void;
+}
+
+interface RoleForm {
+  id: string | null;
+  name: string;
+  description: string;
+  base_role: BaseRole;
+}
+
+interface Member {
+  role: string;
+  custom_role_id: string | null;
+}
+
+export default function RoleManagementPage({ onBack }: RoleManagementPageProps) {
+  const { profile } = useAuth();
+  const { showToast } = useToast();
+  const { can, reload: reloadOwnPermissions } = usePermissions();
+  const isAdmin = profile?.role === 'admin';
+  const canCreate = can(PERMISSIONS.ADMIN_ROLES, 'create');
+  const canEdit = can(PERMISSIONS.ADMIN_ROLES, 'edit');
+  const canDelete = can(PERMISSIONS.ADMIN_ROLES, 'delete');
+
+  const [permissions, setPermissions] = useState<SystemPermission[]>([]);
+  const [rolePermissions, setRolePermissions] = useState<RolePermission[]>([]);
+  const [customRoles, setCustomRoles] = useState<CustomRole[]>([]);
+  const [members, setMembers] = useState<Member[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  const [selectedKey, setSelectedKey] = useState('manager');
+  const [draft, setDraft] = useState<Record<string, PermissionGrant>>({});
+  const [dirty, setDirty] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [form, setForm] = useState<RoleForm | null>(null);
+  const [savingRole, setSavingRole] = useState(false);
+
+  useEffect(() => {
+    fetchAll();
+  }, []);
+
+  useEffect(() => {
+    setDraft(grantsFor(selectedKey));
+    setDirty(false);
+  }, [selectedKey, rolePermissions]);
+
+  const fetchAll = async () => {
+    try {
+      const [permissionsResult, grantsResult, rolesResult, membersResult] = await Promise.all([
+        supabase
+          .from('system_permissions')
+          .select('permission_key, permission_name, category, description')
+          .order('category')
+          .order('permission_name'),
+        supabase
+          .from('role_permissions')
+          .select('role, permission_key, can_view, can_create, can_edit, can_delete'),
+        supabase
+          .from('custom_roles')
+          .select('*')
+          .order('name'),
+        supabase
+          .from('user_profiles')
+          .select('role, custom_role_id'),
+      ]);
+      if (permissionsResult.error) throw permissionsResult.error;
+      if (grantsResult.error) throw grantsResult.error;
+      if (rolesResult.error) throw rolesResult.error;
+      setPermissions(permissionsResult.data || []);
+      setRolePermissions(grantsResult.data || []);
+      setCustomRoles(rolesResult.data || []);
+      setMembers(membersResult.data || []);
+    } catch (error: any) {
+      showToast(error.message, 'error');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const grantsFor = (roleKey: string) => {
+    const grants: Record<string, PermissionGrant> = {};
+    for (const grant of rolePermissions.filter(rp => rp.role === roleKey)) {
+      grants[grant.permission_key] = grant;
+    }
+    return grants;
+  };
+
+  const roles: RoleEntry[] = [
+    ...BUILT_IN_ROLES,
+    ...customRoles.map(role => ({
+      key: role.role_key,
+      name: role.name,
+      description: role.description,
+      builtIn: false,
+      customRole: role,
+    })),
+  ];
+  const selected = roles.find(r => r.key === selectedKey) || roles[0];
+
+  const memberCount = (role: RoleEntry) =>
+    role.customRole
+      ? members.filter(m => m.custom_role_id === role.customRole!.id).length
+      : members.filter(m => m.role === role.key && !m.custom_role_id).length;
+
+  // Built-in roles apply across the whole system, so only admins may change them
+  const readOnly = selected.key === 'admin' || (selected.builtIn ? !isAdmin : !canEdit);
+
+  const selectRole = (key: string) => {
+    if (dirty && !confirm('Discard unsaved permission changes?')) return;
+    setSelectedKey(key);
+  };
+
+  const handleSavePermissions = async () => {
+    setSaving(true);
+    try {
+      const { error } = await supabase.rpc('set_role_permissions', {
+        p_role: selected.key,
+        p_permissions: Object.values(draft),
+      });
+      if (error) throw error;
+      showToast(`Permissions saved for ${selected.name}`, 'success');
+      await fetchAll();
+      await reloadOwnPermissions();
+    } catch (error: any) {
+      showToast(error.message, 'error');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleSaveRole = async () => {
+    if (!form) return;
+    if (!form.name.trim()) {
+      showToast('Give the role a name', 'error');
+      return;
+    }
+    setSavingRole(true);
+    try {
+      const { data, error } = await supabase.rpc('save_custom_role', {
+        p_role_id: form.id,
+        p_name: form.name.trim(),
+        p_description: form.description.trim() || null,
+        p_base_role: form.base_role,
+      });
+      if (error) throw error;
+      showToast(form.id ? 'Role updated' : 'Role created from its base role\'s permissions', 'success');
+      setForm(null);
+      await fetchAll();
+      if (data?.role_key) setSelectedKey(data.role_key);
+    } catch (error: any) {
+      showToast(error.message, 'error');
+    } finally {
+      setSavingRole(false);
+    }
+  };
+
+  const handleDeleteRole = async (role: CustomRole) => {
+    const count = members.filter(m => m.custom_role_id === role.id).length;
+    const warning = count > 0
+      ? `${count} user(s) have this role and will fall back to ${role.base_role}. Delete "${role.name}"?`
+      : `Delete "${role.name}"?`;
+    if (!confirm(warning)) return;
+    try {
+      const { error } = await supabase.rpc('delete_custom_role', { p_role_id: role.id });
+      if (error) throw error;
+      showToast('Role deleted', 'success');
+      setSelectedKey('manager');
+      await fetchAll();
+    } catch (error: any) {
+      showToast(error.message, 'error');
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center h-64">
+        <Loader2 className="w-8 h-8 animate-spin text-blue-600" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex items-center justify-between flex-wrap gap-4">
+        <div className="flex items-center space-x-4">
+          <button onClick={onBack} className="p-2 hover:bg-gray-100 rounded-lg transition-colors">
+            <ArrowLeft className="w-5 h-5" />
+          </button>
+          <div>
+            <h1 className="text-2xl font-bold text-gray-900">Roles & Permissions</h1>
+            <p className="text-gray-600 mt-0.5 text-sm">
+              Define custom roles and choose what each role can view, create, edit and delete
+            </p>
+          </div>
+        </div>
+        {canCreate && (
+          <button
+            onClick={() => setForm({ id: null, name: '', description: '', base_role: 'collector' })}
+            className="flex items-center space-x-2 px-4 py-2.5 bg-blue-600 text-white rounded-lg hover:bg-blue-700 text-sm font-medium"
+          >
+            <Plus className="w-4 h-4" />
+            <span>New Role</span>
+          </button>
+        )}
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+        {/* Role list */}
+        <div className="bg-white rounded-xl border border-gray-200 divide-y divide-gray-100 self-start">
+          {roles.map(role => (
+            <button
+              key={role.key}
+              onClick={() => selectRole(role.key)}
+              className={`w-full text-left px-4 py-3 transition-colors ${
+                role.key === selected.key ? 'bg-blue-50' : 'hover:bg-gray-50'
+              }`}
+            >
+              <div className="flex items-center justify-between gap-2">
+                <span className="text-sm font-medium text-gray-900 flex items-center gap-1.5">
+                  {role.builtIn ? <Lock className="w-3.5 h-3.5 text-gray-400" /> : <Shield className="w-3.5 h-3.5 text-blue-500" />}
+                  {role.name}
+                </span>
+                <span className="text-xs text-gray-500">
+                  {memberCount(role)} {memberCount(role) === 1 ? 'user' : 'users'}
+                </span>
+              </div>
+              <p className="text-xs text-gray-500 mt-0.5 truncate">
+                {role.customRole ? `Based on ${role.customRole.base_role}` : role.description}
+                {role.customRole?.description && ` · ${role.customRole.description}`}
+              </p>
+            </button>
+          ))}
+        </div>
+
+        {/* Permissions */}
+        <div className="lg:col-span-2 bg-white rounded-xl border border-gray-200 p-6 space-y-4">
+          <div className="flex items-start justify-between gap-3">
+            <div>
+              <h2 className="text-lg font-semibold text-gray-900">{selected.name}</h2>
+              <p className="text-sm text-gray-500">
+                {selected.key === 'admin'
+                  ? 'Admins always have every permission.'
+                  : selected.builtIn
+                    ? 'Built-in role. Changes apply to every user with this role.'
+                    : `Custom role based on ${selected.customRole?.base_role}. Pages that are not permission-controlled follow the base role.`}
+              </p>
+            </div>
+            {selected.customRole && (
+              <div className="flex items-center gap-1.5">
+                {canEdit && (
+                  <button
+                    onClick={() => setForm({
+                      id: selected.customRole!.id,
+                      name: selected.customRole!.name,
+                      description: selected.customRole!.description || '',
+                      base_role: selected.customRole!.base_role,
+                    })}
+                    className="p-2 rounded-lg text-blue-600 hover:bg-blue-50 transition-colors"
+                    title="Edit role"
+                  >
+                    <Edit2 className="w-4 h-4" />
+                  </button>
+                )}
+                {canDelete && (
+                  <button
+                    onClick={() => handleDeleteRole(selected.customRole!)}
+                    className="p-2 rounded-lg text-red-500 hover:bg-red-50 transition-colors"
+                    title="Delete role"
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </button>
+                )}
+              </div>
+            )}
+          </div>
+
+          <PermissionMatrix
+            permissions={permissions}
+            grants={draft}
+            readOnly={readOnly}
+            allGranted={selected.key === 'admin'}
+            onChange={(grant) => {
+              setDraft(prev => ({ ...prev, [grant.permission_key]: grant }));
+              setDirty(true);
+            }}
+          />
+
+          {!readOnly && (
+            <div className="flex justify-end pt-2">
+              <button
+                onClick={handleSavePermissions}
+                disabled={saving || !dirty}
+                className="flex items-center gap-1.5 px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50 text-sm font-medium"
+              >
+                {saving ? <Loader2 className="w-4 h-4 animate-spin" /> : <Save className="w-4 h-4" />}
+                Save Permissions
+              </button>
+            </div>
+          )}
+        </div>
+      </div>
+
+      {/* Create / edit role */}
+      {form && (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+          <div className="bg-white rounded-xl shadow-xl w-full max-w-md">
+            <div className="flex items-center justify-between px-5 py-4 border-b border-gray-200">
+              <h3 className="font-semibold text-gray-900">{form.id ? 'Edit role' : 'New role'}</h3>
+              <button onClick={() => setForm(null)} className="p-1 hover:bg-gray-100 rounded">
+                <X className="w-5 h-5 text-gray-500" />
+              </button>
+            </div>
+            <div className="px-5 py-4 space-y-4">
+              <label className="block">
+                <span className="text-sm font-medium text-gray-700">Name</span>
+                <input
+                  type="text"
+                  value={form.name}
+                  onChange={(e) => setForm({ ...form, name: e.target.value })}
+                  placeholder="e.g. Senior Collector"
+                  className="mt-1 w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+                />
+              </label>
+              <label className="block">
+                <span className="text-sm font-medium text-gray-700">Description</span>
+                <input
+                  type="text"
+                  value={form.description}
+                  onChange={(e) => setForm({ ...form, description: e.target.value })}
+                  className="mt-1 w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+                />
+              </label>
+              <label className="block">
+                <span className="text-sm font-medium text-gray-700">Base role</span>
+                <select
+                  value={form.base_role}
+                  onChange={(e) => setForm({ ...form, base_role: e.target.value as BaseRole })}
+                  className="mt-1 w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+                >
+                  {BASE_ROLE_OPTIONS.map(option => (
+                    <option key={option.value} value={option.value}>{option.label}</option>
+                  ))}
+                </select>
+                <span className="text-xs text-gray-500 mt-1 block">
+                  {form.id
+                    ? 'Members are moved to the new base role. Permissions set above are kept.'
+                    : 'The new role starts with the base role\'s permissions.'}
+                </span>
+              </label>
+            </div>
+            <div className="flex justify-end gap-2 px-5 py-4 border-t border-gray-200">
+              <button
+                onClick={() => setForm(null)}
+                className="px-4 py-2 border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 text-sm"
+              >
+                Cancel
+              </button>
+              <button
+                onClick={handleSaveRole}
+                disabled={savingRole}
+                className="flex items-center gap-1.5 px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50 text-sm font-medium"
+              >
+                {savingRole && <Loader2 className="w-4 h-4 animate-spin" />}
+                {form.id ? 'Save Role' : 'Create Role'}
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
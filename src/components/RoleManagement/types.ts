@@ -0,0 +1,69 @@
+export type BaseRole = 'manager' | 'collector' | 'secretary' | 'viewer' | 'user';
+
+export type PermissionFlag = 'can_view' | 'can_create' | 'can_edit' | 'can_delete';
+
+export interface SystemPermission {
+  permission_key: string;
+  permission_name: string;
+  category: string;
+  description: string | null;
+}
+
+export interface PermissionGrant {
+  permission_key: string;
+  can_view: boolean;
+  can_create: boolean;
+  can_edit: boolean;
+  can_delete: boolean;
+}
+
+export interface RolePermission extends PermissionGrant {
+  role: string;
+}
+
+export interface CustomRole {
+  id: string;
+  role_key: string;
+  name: string;
+  description: string | null;
+  base_role: BaseRole;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface RoleEntry {
+  key: string;
+  name: string;
+  description: string | null;
+  builtIn: boolean;
+  customRole?: CustomRole;
+}
+
+export const BUILT_IN_ROLES: RoleEntry[] = [
+  { key: 'admin', name: 'Admin', description: 'Always has every permission', builtIn: true },
+  { key: 'manager', name: 'Manager', description: 'Management and analytics access', builtIn: true },
+  { key: 'collector', name: 'Collector', description: 'Customer and collection access', builtIn: true },
+  { key: 'secretary', name: 'Secretary', description: 'Office and correspondence access', builtIn: true },
+  { key: 'developer', name: 'Developer', description: 'Integrations and API access', builtIn: true },
+  { key: 'viewer', name: 'Viewer', description: 'Read-only access', builtIn: true },
+  { key: 'user', name: 'User', description: 'Default access for new accounts', builtIn: true },
+];
+
+export const BASE_ROLE_OPTIONS: { value: BaseRole; label: string }[] = [
+  { value: 'manager', label: 'Manager' },
+  { value: 'collector', label: 'Collector' },
+  { value: 'secretary', label: 'Secretary' },
+  { value: 'viewer', label: 'Viewer' },
+  { value: 'user', label: 'User' },
+];
+
+export const PERMISSION_FLAGS: { key: PermissionFlag; label: string }[] = [
+  { key: 'can_view', label: 'View' },
+  { key: 'can_create', label: 'Create' },
+  { key: 'can_edit', label: 'Edit' },
+  { key: 'can_delete', label: 'Delete' },
+];
+
+export function emptyGrant(permissionKey: string): PermissionGrant {
+  return { permission_key: permissionKey, can_view: false, can_create: false, can_edit: false, can_delete: false };
+}
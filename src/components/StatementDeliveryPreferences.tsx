@@ -0,0 +1,213 @@
+import { useState, useEffect } from 'react';
+import { Loader2, Save, X, BellOff } from 'lucide-react';
+import { useAuth } from '../contexts/AuthContext';
+import { useToast } from '../contexts/ToastContext';
+import { usePermissions } from '../contexts/PermissionsContext';
+import { PERMISSIONS } from '../lib/permissions';
+import {
+  STATEMENT_FORMAT_LABELS,
+  StatementFormat,
+  fetchDeliveryPreference,
+  saveDeliveryPreference,
+} from '../lib/statementRuns';
+
+interface StatementDeliveryPreferencesProps {
+  customerId: string;
+  // Shown as the default recipient until the list is set
+  customerEmail: string | null;
+}
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+export default function StatementDeliveryPreferences({ customerId, customerEmail }: StatementDeliveryPreferencesProps) {
+  const { user, profile } = useAuth();
+  const { showToast } = useToast();
+  const { can } = usePermissions();
+  const canEdit = can(PERMISSIONS.STATEMENTS, 'create');
+
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [recipients, setRecipients] = useState<string[]>([]);
+  const [newRecipient, setNewRecipient] = useState('');
+  const [format, setFormat] = useState<StatementFormat>('excel');
+  const [ccCollector, setCcCollector] = useState(false);
+  const [optedOut, setOptedOut] = useState(false);
+  const [optOutReason, setOptOutReason] = useState('');
+
+  useEffect(() => {
+    setLoading(true);
+    fetchDeliveryPreference(customerId)
+      .then(preference => {
+        setRecipients(preference?.recipients ?? []);
+        setFormat(preference?.format ?? 'excel');
+        setCcCollector(preference?.cc_collector ?? false);
+        setOptedOut(preference?.opted_out ?? false);
+        setOptOutReason(preference?.opt_out_reason ?? '');
+      })
+      .catch(error => showToast(error.message, 'error'))
+      .finally(() => setLoading(false));
+  }, [customerId]);
+
+  const addRecipient = () => {
+    const email = newRecipient.trim().toLowerCase();
+    if (!email) return;
+    if (!EMAIL_PATTERN.test(email)) {
+      showToast('Enter a valid email address', 'error');
+      return;
+    }
+    if (!recipients.includes(email)) setRecipients([...recipients, email]);
+    setNewRecipient('');
+  };
+
+  const handleSave = async () => {
+    if (!profile?.organization_id || !user) return;
+    setSaving(true);
+    try {
+      await saveDeliveryPreference(
+        profile.organization_id,
+        customerId,
+        {
+          recipients,
+          format,
+          cc_collector: ccCollector,
+          opted_out: optedOut,
+          opt_out_reason: optOutReason.trim() || null,
+        },
+        user.id
+      );
+      showToast('Statement delivery preferences saved', 'success');
+    } catch (error: any) {
+      showToast(error.message, 'error');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center py-6">
+        <Loader2 className="w-5 h-5 animate-spin text-blue-600" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="border border-gray-200 rounded-lg p-4 space-y-4">
+      <div className="flex items-center justify-between gap-3">
+        <div>
+          <h3 className="text-sm font-semibold text-gray-900">Statement delivery</h3>
+          <p className="text-xs text-gray-500">Used by scheduled statement runs</p>
+        </div>
+        {optedOut && (
+          <span className="inline-flex items-center gap-1 px-2 py-0.5 rounded-full text-xs font-medium bg-amber-100 text-amber-800">
+            <BellOff className="w-3 h-3" />
+            Opted out
+          </span>
+        )}
+      </div>
+
+      <fieldset disabled={!canEdit} className="space-y-4">
+        <div>
+          <span className="text-sm font-medium text-gray-700">Recipients</span>
+          <div className="mt-1 flex flex-wrap gap-1.5">
+            {recipients.length === 0 && (
+              <span className="text-xs text-gray-500">
+                {customerEmail ? `Customer email on file (${customerEmail})` : 'No email on file; add a recipient'}
+              </span>
+            )}
+            {recipients.map(email => (
+              <span key={email} className="inline-flex items-center gap-1 px-2 py-0.5 rounded-full bg-gray-100 text-xs text-gray-800">
+                {email}
+                {canEdit && (
+                  <button onClick={() => setRecipients(recipients.filter(r => r !== email))} className="text-gray-400 hover:text-gray-700">
+                    <X className="w-3 h-3" />
+                  </button>
+                )}
+              </span>
+            ))}
+          </div>
+          {canEdit && (
+            <div className="mt-2 flex gap-2">
+              <input
+                type="email"
+                value={newRecipient}
+                onChange={e => setNewRecipient(e.target.value)}
+                onKeyDown={e => {
+                  if (e.key === 'Enter') {
+                    e.preventDefault();
+                    addRecipient();
+                  }
+                }}
+                placeholder="ap@customer.com"
+                className="flex-1 px-3 py-1.5 border border-gray-300 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+              />
+              <button
+                onClick={addRecipient}
+                className="px-3 py-1.5 border border-gray-300 rounded-lg text-sm text-gray-700 hover:bg-gray-50"
+              >
+                Add
+              </button>
+            </div>
+          )}
+        </div>
+
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <label className="block">
+            <span className="text-sm font-medium text-gray-700">Attachment</span>
+            <select
+              value={format}
+              onChange={e => setFormat(e.target.value as StatementFormat)}
+              className="mt-1 w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-blue-500 disabled:bg-gray-50"
+            >
+              {(Object.keys(STATEMENT_FORMAT_LABELS) as StatementFormat[]).map(key => (
+                <option key={key} value={key}>{STATEMENT_FORMAT_LABELS[key]}</option>
+              ))}
+            </select>
+          </label>
+          <label className="flex items-center gap-2 md:mt-6">
+            <input
+              type="checkbox"
+              checked={ccCollector}
+              onChange={e => setCcCollector(e.target.checked)}
+              className="rounded border-gray-300 text-blue-600"
+            />
+            <span className="text-sm text-gray-700">CC the assigned collector</span>
+          </label>
+        </div>
+
+        <div>
+          <label className="flex items-center gap-2">
+            <input
+              type="checkbox"
+              checked={optedOut}
+              onChange={e => setOptedOut(e.target.checked)}
+              className="rounded border-gray-300 text-blue-600"
+            />
+            <span className="text-sm text-gray-700">Do not send scheduled statements</span>
+          </label>
+          {optedOut && (
+            <input
+              value={optOutReason}
+              onChange={e => setOptOutReason(e.target.value)}
+              placeholder="Reason (e.g. customer pulls statements from the portal)"
+              className="mt-2 w-full px-3 py-1.5 border border-gray-300 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+            />
+          )}
+        </div>
+      </fieldset>
+
+      {canEdit && (
+        <div className="flex justify-end">
+          <button
+            onClick={handleSave}
+            disabled={saving}
+            className="flex items-center gap-1.5 px-3 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50 text-sm font-medium"
+          >
+            {saving ? <Loader2 className="w-4 h-4 animate-spin" /> : <Save className="w-4 h-4" />}
+            Save Preferences
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
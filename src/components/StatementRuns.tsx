@@ -0,0 +1,9 @@
+import StatementRunsPage from './StatementRuns/index';
+
+interface StatementRunsProps {
+  onBack: () => void;
+}
+
+export default function StatementRuns({ onBack }: StatementRunsProps) {
+  return <StatementRunsPage onBack={onBack} />;
+}
@@ -0,0 +1,195 @@
+import { Save, Trash2, Loader2 } from 'lucide-react';
+import { StatementCycle, WEEKDAY_LABELS } from '../../lib/statementRuns';
+import { formatDateTime } from '../../lib/dateUtils';
+import { CYCLE_PRESETS, CycleForm, describeAudience } from './types';
+
+interface CycleEditorProps {
+  form: CycleForm;
+  cycle: StatementCycle | undefined;
+  templates: { id: string; name: string }[];
+  canEdit: boolean;
+  saving: boolean;
+  onChange: (changes: Partial<CycleForm>) => void;
+  onSave: () => void;
+  onDelete: () => void;
+}
+
+const inputClass = 'mt-1 w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-blue-500 disabled:bg-gray-50';
+
+export default function CycleEditor({ form, cycle, templates, canEdit, saving, onChange, onSave, onDelete }: CycleEditorProps) {
+  return (
+    <div className="bg-white rounded-xl border border-gray-200 p-6 space-y-6">
+      <div className="flex items-start justify-between gap-3">
+        <div>
+          <h2 className="text-lg font-semibold text-gray-900">{form.id ? form.name : 'New statement cycle'}</h2>
+          <p className="text-sm text-gray-500">
+            {cycle?.is_active && cycle.next_run_at
+              ? `Next run ${formatDateTime(cycle.next_run_at)} UTC`
+              : 'Paused cycles only run when started by hand.'}
+            {cycle?.last_run_at && ` · Last run ${formatDateTime(cycle.last_run_at)} UTC`}
+          </p>
+        </div>
+        {canEdit && form.id && (
+          <button
+            onClick={onDelete}
+            className="p-2 rounded-lg text-red-500 hover:bg-red-50 transition-colors"
+            title="Delete cycle"
+          >
+            <Trash2 className="w-4 h-4" />
+          </button>
+        )}
+      </div>
+
+      {canEdit && !form.id && (
+        <div className="flex flex-wrap gap-2">
+          {CYCLE_PRESETS.map(preset => (
+            <button
+              key={preset.label}
+              onClick={() => onChange(preset.form)}
+              className="px-3 py-1.5 rounded-full border border-gray-300 text-xs font-medium text-gray-700 hover:bg-gray-50"
+            >
+              {preset.label}
+            </button>
+          ))}
+        </div>
+      )}
+
+      <fieldset disabled={!canEdit} className="space-y-6">
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <label className="block">
+            <span className="text-sm font-medium text-gray-700">Cycle name</span>
+            <input
+              value={form.name}
+              onChange={e => onChange({ name: e.target.value })}
+              placeholder="Monthly statements"
+              className={inputClass}
+            />
+          </label>
+          <label className="block">
+            <span className="text-sm font-medium text-gray-700">Email template</span>
+            <select
+              value={form.template_id}
+              onChange={e => onChange({ template_id: e.target.value })}
+              className={inputClass}
+            >
+              {templates.map(template => (
+                <option key={template.id} value={template.id}>{template.name}</option>
+              ))}
+            </select>
+          </label>
+        </div>
+
+        <div>
+          <h3 className="text-sm font-semibold text-gray-900 mb-2">Schedule</h3>
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            <label className="block">
+              <span className="text-sm font-medium text-gray-700">Frequency</span>
+              <select
+                value={form.frequency}
+                onChange={e => onChange(e.target.value === 'monthly'
+                  ? { frequency: 'monthly', day_of_month: form.day_of_month ?? 1, day_of_week: null }
+                  : { frequency: 'weekly', day_of_week: form.day_of_week ?? 1, day_of_month: null })}
+                className={inputClass}
+              >
+                <option value="monthly">Monthly</option>
+                <option value="weekly">Weekly</option>
+              </select>
+            </label>
+            {form.frequency === 'monthly' ? (
+              <label className="block">
+                <span className="text-sm font-medium text-gray-700">Day of month</span>
+                <select
+                  value={form.day_of_month ?? 1}
+                  onChange={e => onChange({ day_of_month: Number(e.target.value) })}
+                  className={inputClass}
+                >
+                  {Array.from({ length: 28 }, (_, i) => i + 1).map(day => (
+                    <option key={day} value={day}>{day}</option>
+                  ))}
+                </select>
+              </label>
+            ) : (
+              <label className="block">
+                <span className="text-sm font-medium text-gray-700">Day of week</span>
+                <select
+                  value={form.day_of_week ?? 1}
+                  onChange={e => onChange({ day_of_week: Number(e.target.value) })}
+                  className={inputClass}
+                >
+                  {WEEKDAY_LABELS.map((label, day) => (
+                    <option key={day} value={day}>{label}</option>
+                  ))}
+                </select>
+              </label>
+            )}
+            <label className="block">
+              <span className="text-sm font-medium text-gray-700">Send at (UTC)</span>
+              <select
+                value={form.send_hour}
+                onChange={e => onChange({ send_hour: Number(e.target.value) })}
+                className={inputClass}
+              >
+                {Array.from({ length: 24 }, (_, hour) => (
+                  <option key={hour} value={hour}>{`${String(hour).padStart(2, '0')}:00`}</option>
+                ))}
+              </select>
+            </label>
+          </div>
+        </div>
+
+        <div>
+          <h3 className="text-sm font-semibold text-gray-900 mb-2">Who gets a statement</h3>
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <label className="block">
+              <span className="text-sm font-medium text-gray-700">Minimum balance ($)</span>
+              <input
+                type="number"
+                min={0}
+                step="0.01"
+                value={form.min_balance}
+                onChange={e => onChange({ min_balance: Number(e.target.value) })}
+                className={inputClass}
+              />
+            </label>
+            <label className="block">
+              <span className="text-sm font-medium text-gray-700">Oldest invoice at least (days past due)</span>
+              <input
+                type="number"
+                min={0}
+                value={form.min_days_overdue}
+                onChange={e => onChange({ min_days_overdue: Math.max(0, Math.floor(Number(e.target.value))) })}
+                className={inputClass}
+              />
+            </label>
+          </div>
+          <p className="text-xs text-gray-500 mt-2">
+            {describeAudience(form)}. Test customers and customers who opted out are never sent to.
+          </p>
+        </div>
+
+        <label className="flex items-center gap-2">
+          <input
+            type="checkbox"
+            checked={form.is_active}
+            onChange={e => onChange({ is_active: e.target.checked })}
+            className="rounded border-gray-300 text-blue-600"
+          />
+          <span className="text-sm text-gray-700">Run on schedule</span>
+        </label>
+      </fieldset>
+
+      {canEdit && (
+        <div className="flex justify-end">
+          <button
+            onClick={onSave}
+            disabled={saving}
+            className="flex items-center gap-2 px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50 text-sm font-medium"
+          >
+            {saving ? <Loader2 className="w-4 h-4 animate-spin" /> : <Save className="w-4 h-4" />}
+            Save Cycle
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,253 @@
+import { useState, useEffect, useCallback } from 'react';
+import { ArrowLeft, Download, Loader2, RotateCcw } from 'lucide-react';
+import { useToast } from '../../contexts/ToastContext';
+import { formatDateTime } from '../../lib/dateUtils';
+import { downloadExcelFile } from '../../lib/statementExport';
+import {
+  RUN_ITEM_STATUS_LABELS,
+  STATEMENT_FORMAT_LABELS,
+  StatementRun,
+  StatementRunItem,
+  StatementRunItemStatus,
+  buildRunWorkbook,
+  fetchStatementRunItems,
+  resendRunItems,
+} from '../../lib/statementRuns';
+
+interface RunDetailProps {
+  run: StatementRun;
+  canSend: boolean;
+  onBack: () => void;
+  onChanged: () => void;
+}
+
+const STATUS_STYLES: Record<StatementRunItemStatus, string> = {
+  pending: 'bg-gray-100 text-gray-700',
+  sending: 'bg-blue-100 text-blue-800',
+  sent: 'bg-green-100 text-green-800',
+  failed: 'bg-red-100 text-red-800',
+  skipped: 'bg-amber-100 text-amber-800',
+};
+
+const formatMoney = (value: number) =>
+  `$${Number(value).toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+
+export default function RunDetail({ run, canSend, onBack, onChanged }: RunDetailProps) {
+  const { showToast } = useToast();
+  const [items, setItems] = useState<StatementRunItem[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [filter, setFilter] = useState<StatementRunItemStatus | 'all'>('all');
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
+  const [resending, setResending] = useState(false);
+  const [downloading, setDownloading] = useState(false);
+
+  const loadItems = useCallback(async () => {
+    try {
+      setItems(await fetchStatementRunItems(run.id));
+    } catch (error: any) {
+      showToast(error.message, 'error');
+    } finally {
+      setLoading(false);
+    }
+  }, [run.id]);
+
+  useEffect(() => {
+    loadItems();
+  }, [loadItems]);
+
+  // Keep the log current while the cron works through the queue
+  useEffect(() => {
+    if (run.status !== 'running') return;
+    const interval = setInterval(() => {
+      loadItems();
+      onChanged();
+    }, 15000);
+    return () => clearInterval(interval);
+  }, [run.status, loadItems]);
+
+  const visible = filter === 'all' ? items : items.filter(item => item.status === filter);
+  const resendable = (item: StatementRunItem) => ['sent', 'failed', 'skipped'].includes(item.status);
+
+  const toggle = (id: string) => {
+    const next = new Set(selectedIds);
+    if (next.has(id)) next.delete(id);
+    else next.add(id);
+    setSelectedIds(next);
+  };
+
+  const handleResend = async (ids: string[]) => {
+    if (ids.length === 0) return;
+    if (!confirm(`Send ${ids.length} statement${ids.length === 1 ? '' : 's'} again using each customer's current delivery preferences?`)) return;
+    setResending(true);
+    try {
+      const { sent, failed } = await resendRunItems(ids);
+      showToast(
+        failed > 0 ? `${sent} sent, ${failed} failed` : `${sent} statement${sent === 1 ? '' : 's'} sent`,
+        failed > 0 ? 'error' : 'success'
+      );
+      setSelectedIds(new Set());
+      await loadItems();
+      onChanged();
+    } catch (error: any) {
+      showToast(error.message, 'error');
+    } finally {
+      setResending(false);
+    }
+  };
+
+  const handleDownload = async () => {
+    setDownloading(true);
+    try {
+      const data = await buildRunWorkbook(items);
+      const safeName = run.cycle_name.replace(/[^a-zA-Z0-9]/g, '_');
+      downloadExcelFile(data, `${safeName}_${run.started_at.split('T')[0]}.xlsx`);
+    } catch (error: any) {
+      showToast(error.message, 'error');
+    } finally {
+      setDownloading(false);
+    }
+  };
+
+  const counts = items.reduce<Record<string, number>>((acc, item) => {
+    acc[item.status] = (acc[item.status] || 0) + 1;
+    return acc;
+  }, {});
+
+  return (
+    <div className="bg-white rounded-xl border border-gray-200 p-6 space-y-4">
+      <div className="flex items-start justify-between gap-3 flex-wrap">
+        <div className="flex items-start gap-3">
+          <button onClick={onBack} className="p-2 hover:bg-gray-100 rounded-lg transition-colors">
+            <ArrowLeft className="w-4 h-4" />
+          </button>
+          <div>
+            <h2 className="text-lg font-semibold text-gray-900">{run.cycle_name}</h2>
+            <p className="text-sm text-gray-500">
+              {run.trigger === 'schedule' ? 'Scheduled' : 'Started by hand'} · {formatDateTime(run.started_at)} UTC
+              {run.completed_at && ` · finished ${formatDateTime(run.completed_at)} UTC`}
+            </p>
+          </div>
+        </div>
+        <div className="flex items-center gap-2">
+          {canSend && selectedIds.size > 0 && (
+            <button
+              onClick={() => handleResend([...selectedIds])}
+              disabled={resending}
+              className="flex items-center gap-1.5 px-3 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50 text-sm font-medium"
+            >
+              {resending ? <Loader2 className="w-4 h-4 animate-spin" /> : <RotateCcw className="w-4 h-4" />}
+              Resend {selectedIds.size}
+            </button>
+          )}
+          <button
+            onClick={handleDownload}
+            disabled={downloading || !counts.sent}
+            className="flex items-center gap-1.5 px-3 py-2 border border-gray-300 rounded-lg hover:bg-gray-50 disabled:opacity-50 text-sm font-medium text-gray-700"
+            title="Combined workbook of every customer this run sent to"
+          >
+            {downloading ? <Loader2 className="w-4 h-4 animate-spin" /> : <Download className="w-4 h-4" />}
+            Workbook
+          </button>
+        </div>
+      </div>
+
+      <div className="flex flex-wrap gap-2">
+        {(['all', 'sent', 'failed', 'skipped', 'pending'] as const).map(status => (
+          <button
+            key={status}
+            onClick={() => setFilter(status)}
+            className={`px-3 py-1 rounded-full text-xs font-medium transition-colors ${
+              filter === status ? 'bg-gray-900 text-white' : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
+            }`}
+          >
+            {status === 'all' ? 'All' : RUN_ITEM_STATUS_LABELS[status]}{' '}
+            ({status === 'all' ? items.length : status === 'pending' ? (counts.pending || 0) + (counts.sending || 0) : counts[status] || 0})
+          </button>
+        ))}
+      </div>
+
+      {loading ? (
+        <div className="flex items-center justify-center py-12">
+          <Loader2 className="w-6 h-6 animate-spin text-blue-600" />
+        </div>
+      ) : visible.length === 0 ? (
+        <p className="text-sm text-gray-500 text-center py-8">No customers in this view</p>
+      ) : (
+        <div className="overflow-x-auto">
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-left text-xs text-gray-500 uppercase tracking-wide border-b border-gray-200">
+                {canSend && <th className="py-2 pr-2 w-6" />}
+                <th className="py-2 pr-3 font-medium">Customer</th>
+                <th className="py-2 pr-3 font-medium">Recipients</th>
+                <th className="py-2 pr-3 font-medium">Format</th>
+                <th className="py-2 pr-3 font-medium text-right">Balance</th>
+                <th className="py-2 pr-3 font-medium">Outcome</th>
+                {canSend && <th className="py-2 font-medium" />}
+              </tr>
+            </thead>
+            <tbody>
+              {visible.map(item => (
+                <tr key={item.id} className="border-b border-gray-100 last:border-0 hover:bg-gray-50 align-top">
+                  {canSend && (
+                    <td className="py-2 pr-2">
+                      {resendable(item) && (
+                        <input
+                          type="checkbox"
+                          checked={selectedIds.has(item.id)}
+                          onChange={() => toggle(item.id)}
+                          className="rounded border-gray-300 text-blue-600"
+                        />
+                      )}
+                    </td>
+                  )}
+                  <td className="py-2 pr-3">
+                    <div className="text-gray-900">{item.customer_name}</div>
+                    <div className="text-xs text-gray-500">
+                      {item.customer_id} · {item.max_days_overdue} days oldest
+                    </div>
+                  </td>
+                  <td className="py-2 pr-3 text-gray-700">
+                    <div className="max-w-xs truncate">{item.recipients.join(', ') || '—'}</div>
+                    {item.cc.length > 0 && (
+                      <div className="text-xs text-gray-500 max-w-xs truncate">cc {item.cc.join(', ')}</div>
+                    )}
+                  </td>
+                  <td className="py-2 pr-3 text-gray-700">{STATEMENT_FORMAT_LABELS[item.format]}</td>
+                  <td className="py-2 pr-3 text-right tabular-nums">{formatMoney(item.balance)}</td>
+                  <td className="py-2 pr-3">
+                    <span className={`inline-flex px-2 py-0.5 rounded-full text-xs font-medium ${STATUS_STYLES[item.status]}`}>
+                      {RUN_ITEM_STATUS_LABELS[item.status]}
+                    </span>
+                    {item.sent_at && item.status === 'sent' && (
+                      <div className="text-xs text-gray-500 mt-0.5">{formatDateTime(item.sent_at)} UTC</div>
+                    )}
+                    {(item.error || item.skip_reason) && (
+                      <div className="text-xs text-gray-500 mt-0.5 max-w-xs">{item.error || item.skip_reason}</div>
+                    )}
+                    {item.attempts > 1 && (
+                      <div className="text-xs text-gray-400">{item.attempts} attempts</div>
+                    )}
+                  </td>
+                  {canSend && (
+                    <td className="py-2 text-right">
+                      {resendable(item) && (
+                        <button
+                          onClick={() => handleResend([item.id])}
+                          disabled={resending}
+                          className="text-blue-600 hover:text-blue-800 text-xs font-medium disabled:opacity-50"
+                        >
+                          Resend
+                        </button>
+                      )}
+                    </td>
+                  )}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,304 @@
+import { useState, useEffect } from 'react';
+import { ArrowLeft, Loader2, Plus, Play, CalendarClock, History } from 'lucide-react';
+import { supabase } from '../../lib/supabase';
+import { useAuth } from '../../contexts/AuthContext';
+import { useToast } from '../../contexts/ToastContext';
+import { usePermissions } from '../../contexts/PermissionsContext';
+import { PERMISSIONS } from '../../lib/permissions';
+import { formatDateTime } from '../../lib/dateUtils';
+import {
+  StatementCycle,
+  StatementRun,
+  fetchStatementCycles,
+  fetchStatementRuns,
+  runCycleNow,
+} from '../../lib/statementRuns';
+import CycleEditor from './CycleEditor';
+import RunDetail from './RunDetail';
+import { CycleForm, describeSchedule, newCycleForm, toCycleForm } from './types';
+
+interface StatementRunsPageProps {
+  onBack: () => void;
+}
+
+type Tab = 'cycles' | 'runs';
+
+export default function StatementRunsPage({ onBack }: StatementRunsPageProps) {
+  const { user } = useAuth();
+  const { showToast } = useToast();
+  const { can } = usePermissions();
+  const canEdit = can(PERMISSIONS.STATEMENTS, 'edit');
+  const canSend = can(PERMISSIONS.STATEMENTS, 'create');
+
+  const [tab, setTab] = useState<Tab>('cycles');
+  const [cycles, setCycles] = useState<StatementCycle[]>([]);
+  const [runs, setRuns] = useState<StatementRun[]>([]);
+  const [templates, setTemplates] = useState<{ id: string; name: string }[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [form, setForm] = useState<CycleForm | null>(null);
+  const [saving, setSaving] = useState(false);
+  const [startingId, setStartingId] = useState<string | null>(null);
+  const [selectedRunId, setSelectedRunId] = useState<string | null>(null);
+
+  useEffect(() => {
+    loadAll();
+  }, []);
+
+  const loadAll = async (selectCycleId?: string) => {
+    try {
+      const [cycleData, runData, { data: templateData, error: templateError }] = await Promise.all([
+        fetchStatementCycles(),
+        fetchStatementRuns(),
+        supabase.from('customer_report_templates').select('id, name').order('is_default', { ascending: false }).order('name'),
+      ]);
+      if (templateError) throw templateError;
+      setCycles(cycleData);
+      setRuns(runData);
+      setTemplates(templateData || []);
+      const selected = cycleData.find(c => c.id === (selectCycleId ?? form?.id)) || cycleData[0];
+      setForm(selected ? toCycleForm(selected) : null);
+    } catch (error: any) {
+      showToast(error.message, 'error');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const loadRuns = async () => {
+    try {
+      setRuns(await fetchStatementRuns());
+    } catch (error: any) {
+      showToast(error.message, 'error');
+    }
+  };
+
+  const startNew = () => {
+    if (templates.length === 0) {
+      showToast('Create a report template first; cycles send its subject and body', 'error');
+      return;
+    }
+    setForm(newCycleForm(templates[0].id));
+  };
+
+  const handleSave = async () => {
+    if (!form) return;
+    if (!form.name.trim()) {
+      showToast('Give the cycle a name', 'error');
+      return;
+    }
+    setSaving(true);
+    try {
+      const { id, ...fields } = form;
+      // Links in the email point back at the app the cycle was saved from
+      const values = { ...fields, name: form.name.trim(), portal_base_url: window.location.origin, updated_by: user?.id };
+      const { data, error } = id
+        ? await supabase.from('statement_cycles').update(values).eq('id', id).select().single()
+        : await supabase.from('statement_cycles').insert({ ...values, created_by: user?.id }).select().single();
+      if (error) throw error;
+
+      showToast('Statement cycle saved', 'success');
+      await loadAll(data.id);
+    } catch (error: any) {
+      showToast(error.message, 'error');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!form?.id) return;
+    if (!confirm(`Delete "${form.name}"? Its past runs stay in the run log.`)) return;
+    try {
+      const { error } = await supabase.from('statement_cycles').delete().eq('id', form.id);
+      if (error) throw error;
+      showToast('Statement cycle deleted', 'success');
+      setForm(null);
+      await loadAll();
+    } catch (error: any) {
+      showToast(error.message, 'error');
+    }
+  };
+
+  const handleRunNow = async (cycle: StatementCycle) => {
+    if (!confirm(`Send "${cycle.name}" statements to every matching customer now?`)) return;
+    setStartingId(cycle.id);
+    try {
+      const runId = await runCycleNow(cycle.id);
+      showToast('Statement run started', 'success');
+      await loadAll(cycle.id);
+      setSelectedRunId(runId);
+      setTab('runs');
+    } catch (error: any) {
+      showToast(error.message, 'error');
+    } finally {
+      setStartingId(null);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center py-24">
+        <Loader2 className="w-8 h-8 animate-spin text-blue-600" />
+      </div>
+    );
+  }
+
+  const selectedRun = runs.find(r => r.id === selectedRunId);
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex items-center justify-between flex-wrap gap-4">
+        <div className="flex items-center space-x-4">
+          <button onClick={onBack} className="p-2 hover:bg-gray-100 rounded-lg transition-colors">
+            <ArrowLeft className="w-5 h-5" />
+          </button>
+          <div>
+            <h1 className="text-2xl font-bold text-gray-900">Statement Runs</h1>
+            <p className="text-gray-600 mt-0.5 text-sm">
+              Send statements on a schedule and review what went to each customer
+            </p>
+          </div>
+        </div>
+        {canEdit && tab === 'cycles' && (
+          <button
+            onClick={startNew}
+            className="flex items-center space-x-2 px-4 py-2.5 bg-blue-600 text-white rounded-lg hover:bg-blue-700 text-sm font-medium"
+          >
+            <Plus className="w-4 h-4" />
+            <span>New Cycle</span>
+          </button>
+        )}
+      </div>
+
+      <div className="flex gap-1 border-b border-gray-200">
+        {([
+          { id: 'cycles', label: 'Cycles', icon: CalendarClock },
+          { id: 'runs', label: 'Run Log', icon: History },
+        ] as const).map(({ id, label, icon: Icon }) => (
+          <button
+            key={id}
+            onClick={() => setTab(id)}
+            className={`flex items-center gap-1.5 px-4 py-2 text-sm font-medium border-b-2 -mb-px transition-colors ${
+              tab === id ? 'border-blue-600 text-blue-600' : 'border-transparent text-gray-500 hover:text-gray-700'
+            }`}
+          >
+            <Icon className="w-4 h-4" />
+            {label}
+          </button>
+        ))}
+      </div>
+
+      {tab === 'cycles' ? (
+        <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+          <div className="bg-white rounded-xl border border-gray-200 divide-y divide-gray-100 self-start">
+            {cycles.length === 0 && (
+              <p className="px-4 py-6 text-sm text-gray-500 text-center">No statement cycles yet</p>
+            )}
+            {cycles.map(cycle => (
+              <div
+                key={cycle.id}
+                className={`px-4 py-3 transition-colors ${cycle.id === form?.id ? 'bg-blue-50' : 'hover:bg-gray-50'}`}
+              >
+                <div className="flex items-start justify-between gap-2">
+                  <button onClick={() => setForm(toCycleForm(cycle))} className="text-left flex-1 min-w-0">
+                    <span className="text-sm font-medium text-gray-900 flex items-center gap-1.5">
+                      <span className={`w-2 h-2 rounded-full ${cycle.is_active ? 'bg-green-500' : 'bg-gray-300'}`} />
+                      {cycle.name}
+                    </span>
+                    <p className="text-xs text-gray-500 mt-0.5">{describeSchedule(cycle)}</p>
+                  </button>
+                  {canSend && (
+                    <button
+                      onClick={() => handleRunNow(cycle)}
+                      disabled={startingId !== null}
+                      className="p-1.5 rounded-lg text-blue-600 hover:bg-blue-100 disabled:opacity-50"
+                      title="Run now"
+                    >
+                      {startingId === cycle.id ? <Loader2 className="w-4 h-4 animate-spin" /> : <Play className="w-4 h-4" />}
+                    </button>
+                  )}
+                </div>
+              </div>
+            ))}
+          </div>
+
+          <div className="lg:col-span-2">
+            {form ? (
+              <CycleEditor
+                form={form}
+                cycle={cycles.find(c => c.id === form.id)}
+                templates={templates}
+                canEdit={canEdit}
+                saving={saving}
+                onChange={changes => setForm({ ...form, ...changes })}
+                onSave={handleSave}
+                onDelete={handleDelete}
+              />
+            ) : (
+              <div className="bg-white rounded-xl border border-gray-200 p-12 text-center text-sm text-gray-500">
+                {canEdit ? 'Create a cycle to start sending statements on a schedule' : 'No statement cycles have been set up'}
+              </div>
+            )}
+          </div>
+        </div>
+      ) : selectedRun ? (
+        <RunDetail
+          run={selectedRun}
+          canSend={canSend}
+          onBack={() => setSelectedRunId(null)}
+          onChanged={loadRuns}
+        />
+      ) : (
+        <div className="bg-white rounded-xl border border-gray-200 overflow-x-auto">
+          {runs.length === 0 ? (
+            <p className="px-4 py-12 text-sm text-gray-500 text-center">No statement runs yet</p>
+          ) : (
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-left text-xs text-gray-500 uppercase tracking-wide border-b border-gray-200">
+                  <th className="px-4 py-3 font-medium">Started</th>
+                  <th className="px-4 py-3 font-medium">Cycle</th>
+                  <th className="px-4 py-3 font-medium text-right">Customers</th>
+                  <th className="px-4 py-3 font-medium text-right">Sent</th>
+                  <th className="px-4 py-3 font-medium text-right">Failed</th>
+                  <th className="px-4 py-3 font-medium text-right">Skipped</th>
+                  <th className="px-4 py-3 font-medium">Status</th>
+                </tr>
+              </thead>
+              <tbody>
+                {runs.map(run => (
+                  <tr
+                    key={run.id}
+                    onClick={() => setSelectedRunId(run.id)}
+                    className="border-b border-gray-100 last:border-0 hover:bg-gray-50 cursor-pointer"
+                  >
+                    <td className="px-4 py-3 text-gray-700 whitespace-nowrap">{formatDateTime(run.started_at)} UTC</td>
+                    <td className="px-4 py-3">
+                      <div className="text-gray-900">{run.cycle_name}</div>
+                      <div className="text-xs text-gray-500">{run.trigger === 'schedule' ? 'Scheduled' : 'Started by hand'}</div>
+                    </td>
+                    <td className="px-4 py-3 text-right tabular-nums">{run.total_count}</td>
+                    <td className="px-4 py-3 text-right tabular-nums text-green-700">{run.sent_count}</td>
+                    <td className={`px-4 py-3 text-right tabular-nums ${run.failed_count > 0 ? 'text-red-700 font-medium' : 'text-gray-500'}`}>
+                      {run.failed_count}
+                    </td>
+                    <td className="px-4 py-3 text-right tabular-nums text-gray-500">{run.skipped_count}</td>
+                    <td className="px-4 py-3">
+                      <span className={`inline-flex items-center gap-1 px-2 py-0.5 rounded-full text-xs font-medium ${
+                        run.status === 'running' ? 'bg-blue-100 text-blue-800' : 'bg-gray-100 text-gray-700'
+                      }`}>
+                        {run.status === 'running' && <Loader2 className="w-3 h-3 animate-spin" />}
+                        {run.status === 'running' ? 'Sending' : 'Completed'}
+                      </span>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,75 @@
+import { StatementCycle, StatementFrequency, WEEKDAY_LABELS } from '../../lib/statementRuns';
+
+export type CycleForm = Pick<
+  StatementCycle,
+  'name' | 'is_active' | 'frequency' | 'day_of_month' | 'day_of_week' | 'send_hour' | 'template_id' | 'min_balance' | 'min_days_overdue'
+> & {
+  id: string | null;
+};
+
+export const CYCLE_PRESETS: { label: string; form: Partial<CycleForm> }[] = [
+  {
+    label: 'Monthly, all balances',
+    form: { name: 'Monthly statements', frequency: 'monthly', day_of_month: 1, day_of_week: null, min_balance: 0.01, min_days_overdue: 0 },
+  },
+  {
+    label: 'Weekly, 90+ days',
+    form: { name: 'Weekly 90+ reminders', frequency: 'weekly', day_of_month: null, day_of_week: 1, min_balance: 0.01, min_days_overdue: 90 },
+  },
+];
+
+export function toCycleForm(cycle: StatementCycle): CycleForm {
+  return {
+    id: cycle.id,
+    name: cycle.name,
+    is_active: cycle.is_active,
+    frequency: cycle.frequency,
+    day_of_month: cycle.day_of_month,
+    day_of_week: cycle.day_of_week,
+    send_hour: cycle.send_hour,
+    template_id: cycle.template_id,
+    min_balance: cycle.min_balance,
+    min_days_overdue: cycle.min_days_overdue,
+  };
+}
+
+export function newCycleForm(templateId: string): CycleForm {
+  return {
+    id: null,
+    name: '',
+    is_active: true,
+    frequency: 'monthly',
+    day_of_month: 1,
+    day_of_week: null,
+    send_hour: 13,
+    template_id: templateId,
+    min_balance: 0.01,
+    min_days_overdue: 0,
+  };
+}
+
+const ordinal = (n: number) => {
+  const suffix = n % 10 === 1 && n !== 11 ? 'st' : n % 10 === 2 && n !== 12 ? 'nd' : n % 10 === 3 && n !== 13 ? 'rd' : 'th';
+  return `${n}${suffix}`;
+};
+
+export function describeSchedule(cycle: {
+  frequency: StatementFrequency;
+  day_of_month: number | null;
+  day_of_week: number | null;
+  send_hour: number;
+}): string {
+  const hour = `${String(cycle.send_hour).padStart(2, '0')}:00 UTC`;
+  return cycle.frequency === 'monthly'
+    ? `Monthly on the ${ordinal(cycle.day_of_month ?? 1)} at ${hour}`
+    : `Every ${WEEKDAY_LABELS[cycle.day_of_week ?? 1]} at ${hour}`;
+}
+
+export function describeAudience(cycle: { min_balance: number; min_days_overdue: number }): string {
+  const balance = Number(cycle.min_balance) > 0.01
+    ? `balance of $${Number(cycle.min_balance).toLocaleString('en-US')} or more`
+    : 'an open balance';
+  return cycle.min_days_overdue > 0
+    ? `Customers with ${balance} and an invoice ${cycle.min_days_overdue}+ days past due`
+    : `Customers with ${balance}`;
+}
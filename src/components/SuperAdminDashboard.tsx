@@ -1,8 +1,9 @@
 import { useState, useEffect } from 'react';
 import { useNavigate } from 'react-router-dom';
-import { ArrowLeft, Building2, Plus, Users, Check, X, Shield, Mail, Clock, CheckCircle, XCircle } from 'lucide-react';
+import { ArrowLeft, Building2, Plus, Users, Check, X, Shield, Mail, Clock, CheckCircle, XCircle, BarChart3 } from 'lucide-react';
 import { supabase } from '../lib/supabase';
 import { useAuth } from '../contexts/AuthContext';
+import ArMetricTrends from './ArMetricTrends';
 
 interface Organization {
   id: string;
@@ -34,7 +35,7 @@ export default function SuperAdminDashboard() {
   const [newOrgSlug, setNewOrgSlug] = useState('');
   const [creating, setCreating] = useState(false);
   const [error, setError] = useState('');
-  const [activeTab, setActiveTab] = useState<'requests' | 'organizations'>('requests');
+  const [activeTab, setActiveTab] = useState<'requests' | 'organizations' | 'metrics'>('requests');
 
   // Login state
   const [loginEmail, setLoginEmail] = useState('');
@@ -245,6 +246,15 @@ export default function SuperAdminDashboard() {
             <Building2 className="w-4 h-4" />
             Organizations
           </button>
+          <button
+            onClick={() => setActiveTab('metrics')}
+            className={`flex items-center gap-2 px-4 py-2 text-sm font-medium rounded-lg transition-colors ${
+              activeTab === 'metrics' ? 'bg-blue-600 text-white' : 'text-slate-400 hover:text-white'
+            }`}
+          >
+            <BarChart3 className="w-4 h-4" />
+            AR Metrics
+          </button>
         </div>
 
         {loading ? (
@@ -397,6 +407,9 @@ export default function SuperAdminDashboard() {
                 </div>
               </div>
             )}
+
+            {/* AR Metrics Tab */}
+            {activeTab === 'metrics' && <ArMetricTrends organizations={organizations} />}
           </>
         )}
 
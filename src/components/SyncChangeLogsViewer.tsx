@@ -1,8 +1,9 @@
 import { useState, useEffect } from 'react';
 import { useNavigate } from 'react-router-dom';
 import { supabase } from '../lib/supabase';
-import { ArrowLeft, Filter, RefreshCw, Clock, Database, User, FileText, DollarSign, AlertCircle, CheckCircle, Activity } from 'lucide-react';
+import { ArrowLeft, Filter, RefreshCw, Clock, Database, User, FileText, DollarSign, AlertCircle, CheckCircle, Activity, Upload } from 'lucide-react';
 import { formatDateTime as formatDateTimeUtil } from '../lib/dateUtils';
+import WritebackQueuePanel from './WritebackQueuePanel';
 
 interface SyncChangeLog {
   id: string;
@@ -31,6 +32,7 @@ export default function SyncChangeLogsViewer({ onBack }: Props) {
   const [filterType, setFilterType] = useState<string>('all');
   const [filterAction, setFilterAction] = useState<string>('all');
   const [filterSource, setFilterSource] = useState<string>('all');
+  const [view, setView] = useState<'inbound' | 'writeback'>('inbound');
 
   useEffect(() => {
     loadLogs();
@@ -86,6 +88,8 @@ export default function SyncChangeLogsViewer({ onBack }: Props) {
       'reopened': 'bg-yellow-500/20 text-yellow-400 border-yellow-500/30',
       'paid': 'bg-emerald-500/20 text-emerald-400 border-emerald-500/30',
       'status_changed': 'bg-purple-500/20 text-purple-400 border-purple-500/30',
+      'pushed': 'bg-cyan-500/20 text-cyan-400 border-cyan-500/30',
+      'push_failed': 'bg-red-500/20 text-red-400 border-red-500/30',
     };
 
     return (
@@ -102,6 +106,7 @@ export default function SyncChangeLogsViewer({ onBack }: Props) {
       'manual_sync': <User className="w-3 h-3" />,
       'bulk_fetch': <Database className="w-3 h-3" />,
       'batch_processing': <RefreshCw className="w-3 h-3" />,
+      'writeback': <Upload className="w-3 h-3" />,
     };
 
     return (
@@ -139,6 +144,29 @@ export default function SyncChangeLogsViewer({ onBack }: Props) {
           </button>
         </div>
 
+        <div className="flex gap-2 mb-6">
+          <button
+            onClick={() => setView('inbound')}
+            className={`px-4 py-2 rounded-lg text-sm font-medium transition-colors ${
+              view === 'inbound' ? 'bg-blue-600 text-white' : 'bg-slate-800/50 text-slate-400 hover:bg-slate-700/50'
+            }`}
+          >
+            Change Logs
+          </button>
+          <button
+            onClick={() => setView('writeback')}
+            className={`px-4 py-2 rounded-lg text-sm font-medium transition-colors ${
+              view === 'writeback' ? 'bg-blue-600 text-white' : 'bg-slate-800/50 text-slate-400 hover:bg-slate-700/50'
+            }`}
+          >
+            Write-back Queue
+          </button>
+        </div>
+
+        {view === 'writeback' ? (
+          <WritebackQueuePanel />
+        ) : (
+        <>
         <div className="bg-slate-800/50 backdrop-blur-sm border border-slate-700 rounded-xl p-6 mb-6">
           <div className="flex items-center gap-2 mb-4">
             <Filter className="w-5 h-5 text-slate-400" />
@@ -174,6 +202,8 @@ export default function SyncChangeLogsViewer({ onBack }: Props) {
                 <option value="reopened">Reopened</option>
                 <option value="status_changed">Status Changed</option>
                 <option value="paid">Paid</option>
+                <option value="pushed">Pushed to Acumatica</option>
+                <option value="push_failed">Push Failed</option>
               </select>
             </div>
 
@@ -190,6 +220,7 @@ export default function SyncChangeLogsViewer({ onBack }: Props) {
                 <option value="manual_sync">Manual Sync</option>
                 <option value="bulk_fetch">Bulk Fetch</option>
                 <option value="batch_processing">Batch Processing</option>
+                <option value="writeback">Write-back</option>
               </select>
             </div>
           </div>
@@ -314,6 +345,8 @@ export default function SyncChangeLogsViewer({ onBack }: Props) {
             </div>
           </div>
         )}
+        </>
+        )}
       </div>
     </div>
   );
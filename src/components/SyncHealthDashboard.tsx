@@ -2,6 +2,7 @@ import React, { useEffect, useState } from 'react';
 import { supabase } from '../lib/supabase';
 import { AlertTriangle, CheckCircle, Clock, XCircle, RefreshCw, Play, ArrowLeft } from 'lucide-react';
 import { useNavigate, useParams } from 'react-router-dom';
+import SyncReconciliationReports from './SyncReconciliationReports';
 
 interface SyncLog {
   id: string;
@@ -275,6 +276,8 @@ const SyncHealthDashboard: React.FC = () => {
         </div>
       )}
 
+      <SyncReconciliationReports />
+
       {/* Recent Sync History */}
       <div className="bg-white rounded-lg shadow">
         <div className="px-4 py-3 border-b border-gray-200">
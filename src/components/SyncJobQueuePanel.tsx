@@ -0,0 +1,262 @@
+import { useState, useEffect } from 'react';
+import { Layers, Play, RefreshCw, RotateCcw, XCircle } from 'lucide-react';
+import { supabase } from '../lib/supabase';
+import { useAuth } from '../contexts/AuthContext';
+import { formatDateTime } from '../lib/dateUtils';
+import {
+  SyncJob,
+  SyncJobEntity,
+  SyncJobMode,
+  SYNC_ENTITY_LABELS,
+  SYNC_ENTITY_ORDER,
+  SYNC_JOB_STATUS_STYLES,
+  describeSyncJobProgress,
+  fetchSyncJobs,
+} from '../lib/syncJobs';
+
+export default function SyncJobQueuePanel() {
+  const { profile } = useAuth();
+  const isAdmin = profile?.role === 'admin';
+  const [jobs, setJobs] = useState<SyncJob[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [mode, setMode] = useState<SyncJobMode>('incremental');
+  const [entities, setEntities] = useState<SyncJobEntity[]>(SYNC_ENTITY_ORDER);
+  const [startDate, setStartDate] = useState('');
+  const [endDate, setEndDate] = useState('');
+  const [chunkDays, setChunkDays] = useState(7);
+  const [maxRunning, setMaxRunning] = useState(1);
+  const [submitting, setSubmitting] = useState(false);
+  const [message, setMessage] = useState('');
+
+  useEffect(() => {
+    loadJobs();
+    loadLimit();
+    const interval = setInterval(loadJobs, 10000);
+    return () => clearInterval(interval);
+  }, []);
+
+  const loadJobs = async () => {
+    try {
+      setJobs(await fetchSyncJobs({ limit: 40 }));
+    } catch (err) {
+      console.error('Error loading sync jobs:', err);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const loadLimit = async () => {
+    const { data } = await supabase.from('sync_concurrency_limits').select('max_running').maybeSingle();
+    if (data) setMaxRunning(data.max_running);
+  };
+
+  const runAction = async (action: () => PromiseLike<{ error: { message: string } | null }>, success: string) => {
+    setMessage('');
+    const { error } = await action();
+    if (error) {
+      setMessage(`Error: ${error.message}`);
+      return;
+    }
+    setMessage(success);
+    await loadJobs();
+  };
+
+  const handleQueue = async () => {
+    setSubmitting(true);
+    const params = mode === 'date_range' ? { start_date: startDate, end_date: endDate, chunk_days: chunkDays } : {};
+    await runAction(
+      () => supabase.rpc('enqueue_sync_pipeline', { p_mode: mode, p_entities: entities, p_params: params }),
+      `Queued ${entities.length} sync job(s)`
+    );
+    setSubmitting(false);
+  };
+
+  const toggleEntity = (entity: SyncJobEntity) => {
+    setEntities(prev =>
+      prev.includes(entity)
+        ? prev.filter(e => e !== entity)
+        : SYNC_ENTITY_ORDER.filter(e => e === entity || prev.includes(e))
+    );
+  };
+
+  const canQueue = entities.length > 0 && (mode === 'incremental' || (startDate && endDate && startDate <= endDate));
+
+  return (
+    <div className="bg-white rounded-lg shadow-sm p-6 mt-6">
+      <div className="flex items-center justify-between mb-6">
+        <div>
+          <h2 className="text-xl font-bold text-gray-900 flex items-center gap-2">
+            <Layers className="h-5 w-5 text-gray-500" />
+            Sync Job Queue
+          </h2>
+          <p className="text-sm text-gray-600 mt-1">
+            Orchestrated syncs run in order (customers, invoices, payments, applications) and resume from their last checkpoint
+          </p>
+        </div>
+        <button
+          onClick={loadJobs}
+          className="flex items-center gap-2 px-4 py-2 text-sm text-gray-700 bg-gray-100 hover:bg-gray-200 rounded-lg transition-colors"
+        >
+          <RefreshCw className="h-4 w-4" />
+          Refresh
+        </button>
+      </div>
+
+      {message && (
+        <div className={`mb-4 p-3 rounded-lg text-sm ${
+          message.startsWith('Error')
+            ? 'bg-red-50 border border-red-200 text-red-700'
+            : 'bg-green-50 border border-green-200 text-green-700'
+        }`}>
+          {message}
+        </div>
+      )}
+
+      {isAdmin && (
+        <div className="border border-gray-200 rounded-lg p-4 mb-6 space-y-3">
+          <div className="flex flex-wrap items-center gap-4">
+            <div className="flex bg-gray-100 rounded-lg p-0.5">
+              {(['incremental', 'date_range'] as SyncJobMode[]).map(m => (
+                <button
+                  key={m}
+                  onClick={() => setMode(m)}
+                  className={`px-3 py-1.5 text-xs font-medium rounded-md ${
+                    mode === m ? 'bg-white text-gray-900 shadow-sm' : 'text-gray-500 hover:text-gray-700'
+                  }`}
+                >
+                  {m === 'incremental' ? 'Incremental' : 'Date Range'}
+                </button>
+              ))}
+            </div>
+            {SYNC_ENTITY_ORDER.map(entity => (
+              <label key={entity} className="flex items-center gap-1.5 text-sm text-gray-700">
+                <input
+                  type="checkbox"
+                  checked={entities.includes(entity)}
+                  onChange={() => toggleEntity(entity)}
+                  className="rounded border-gray-300"
+                />
+                {SYNC_ENTITY_LABELS[entity]}
+              </label>
+            ))}
+          </div>
+          {mode === 'date_range' && (
+            <div className="flex flex-wrap items-center gap-3 text-sm">
+              <input type="date" value={startDate} onChange={e => setStartDate(e.target.value)} className="px-3 py-1.5 border border-gray-300 rounded-lg" />
+              <span className="text-gray-500">to</span>
+              <input type="date" value={endDate} onChange={e => setEndDate(e.target.value)} className="px-3 py-1.5 border border-gray-300 rounded-lg" />
+              <label className="flex items-center gap-2 text-gray-600">
+                Chunk
+                <input
+                  type="number"
+                  min={1}
+                  max={31}
+                  value={chunkDays}
+                  onChange={e => setChunkDays(Math.max(1, Number(e.target.value) || 1))}
+                  className="w-16 px-2 py-1.5 border border-gray-300 rounded-lg"
+                />
+                days
+              </label>
+            </div>
+          )}
+          <div className="flex flex-wrap items-center justify-between gap-3">
+            <button
+              onClick={handleQueue}
+              disabled={!canQueue || submitting}
+              className="flex items-center gap-2 px-4 py-2 bg-blue-600 hover:bg-blue-700 text-white text-sm font-medium rounded-lg disabled:opacity-50"
+            >
+              <Play className="h-4 w-4" />
+              Queue Sync
+            </button>
+            <label className="flex items-center gap-2 text-sm text-gray-600">
+              Jobs running at once
+              <select
+                value={maxRunning}
+                onChange={e => {
+                  const value = Number(e.target.value);
+                  setMaxRunning(value);
+                  runAction(() => supabase.rpc('set_sync_concurrency_limit', { p_max_running: value }), `Concurrency limit set to ${value}`);
+                }}
+                className="px-2 py-1.5 border border-gray-300 rounded-lg"
+              >
+                {[1, 2, 3, 4, 5].map(n => <option key={n} value={n}>{n}</option>)}
+              </select>
+            </label>
+          </div>
+        </div>
+      )}
+
+      {loading ? (
+        <div className="flex items-center justify-center py-8">
+          <RefreshCw className="h-6 w-6 animate-spin text-gray-400" />
+        </div>
+      ) : jobs.length === 0 ? (
+        <div className="text-center py-8 text-gray-500 text-sm">No orchestrated sync jobs yet</div>
+      ) : (
+        <div className="overflow-x-auto">
+          <table className="w-full text-sm">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase">Job</th>
+                <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase">Status</th>
+                <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase">Progress</th>
+                <th className="px-3 py-2 text-right text-xs font-medium text-gray-500 uppercase">Records</th>
+                <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase">Queued</th>
+                <th className="px-3 py-2" />
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-100">
+              {jobs.map(job => (
+                <tr key={job.id} className="align-top">
+                  <td className="px-3 py-2">
+                    <div className="font-medium text-gray-900">{SYNC_ENTITY_LABELS[job.entity_type]}</div>
+                    <div className="text-xs text-gray-500">
+                      {job.mode === 'date_range' ? `${job.params.start_date} to ${job.params.end_date}` : 'Incremental'}
+                    </div>
+                  </td>
+                  <td className="px-3 py-2">
+                    <span className={`px-2 py-0.5 rounded-full text-xs font-semibold ${SYNC_JOB_STATUS_STYLES[job.status]}`}>
+                      {job.cancel_requested && job.status === 'running' ? 'cancelling' : job.status}
+                    </span>
+                    {job.attempts > 1 && <div className="text-xs text-gray-500 mt-1">Attempt {job.attempts}/{job.max_attempts}</div>}
+                  </td>
+                  <td className="px-3 py-2 text-xs text-gray-600">
+                    {describeSyncJobProgress(job)}
+                    {job.last_error && job.status !== 'succeeded' && (
+                      <div className="text-red-600 mt-1 break-words max-w-md">{job.last_error}</div>
+                    )}
+                  </td>
+                  <td className="px-3 py-2 text-right text-xs text-gray-600 tabular-nums whitespace-nowrap">
+                    {job.progress.fetched} fetched
+                    <div>{job.progress.created} new · {job.progress.updated} updated</div>
+                  </td>
+                  <td className="px-3 py-2 text-xs text-gray-500 whitespace-nowrap">{formatDateTime(job.created_at)}</td>
+                  <td className="px-3 py-2 text-right whitespace-nowrap">
+                    {isAdmin && (job.status === 'queued' || job.status === 'waiting' || (job.status === 'running' && !job.cancel_requested)) && (
+                      <button
+                        onClick={() => runAction(() => supabase.rpc('cancel_sync_job', { p_job_id: job.id }), 'Cancellation requested')}
+                        className="p-1.5 text-gray-500 hover:text-red-600 hover:bg-red-50 rounded"
+                        title="Cancel"
+                      >
+                        <XCircle className="h-4 w-4" />
+                      </button>
+                    )}
+                    {isAdmin && (job.status === 'failed' || job.status === 'cancelled') && (
+                      <button
+                        onClick={() => runAction(() => supabase.rpc('retry_sync_job', { p_job_id: job.id }), 'Job re-queued')}
+                        className="p-1.5 text-gray-500 hover:text-blue-600 hover:bg-blue-50 rounded"
+                        title="Retry from last checkpoint"
+                      >
+                        <RotateCcw className="h-4 w-4" />
+                      </button>
+                    )}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,401 @@
+import { useEffect, useState } from 'react';
+import { GitCompare, Play, RefreshCw } from 'lucide-react';
+import { supabase } from '../lib/supabase';
+import { formatDateTime } from '../lib/dateUtils';
+
+type ReconciliationEntity = 'invoice' | 'payment' | 'payment_application';
+type Classification = 'missing_local' | 'stale' | 'extra' | 'amount_mismatch';
+
+interface MonthTotals {
+  count: number;
+  amount: number;
+  balance: number;
+}
+
+interface MonthSummary {
+  month: string;
+  entity_type: ReconciliationEntity;
+  acumatica: MonthTotals;
+  local: MonthTotals;
+  missing_local: number;
+  stale: number;
+  extra: number;
+  amount_mismatch: number;
+}
+
+interface ReconciliationReport {
+  id: string;
+  report_date: string;
+  triggered_by: 'cron' | 'manual';
+  status: 'running' | 'completed' | 'failed';
+  period_start: string;
+  period_end: string;
+  auto_heal: boolean;
+  summary: MonthSummary[];
+  total_discrepancies: number;
+  healed_count: number;
+  queued_count: number;
+  error_message: string | null;
+  emailed_at: string | null;
+  started_at: string;
+}
+
+interface Discrepancy {
+  id: string;
+  entity_type: ReconciliationEntity;
+  month: string;
+  document_type: string | null;
+  reference_number: string;
+  classification: Classification;
+  detail: string | null;
+  heal_status: 'healed' | 'queued' | 'failed' | null;
+  heal_note: string | null;
+}
+
+interface ReconciliationSettings {
+  id: string;
+  auto_heal: boolean;
+  months_back: number;
+  email_report: boolean;
+}
+
+const ENTITY_LABELS: Record<ReconciliationEntity, string> = {
+  invoice: 'Invoices',
+  payment: 'Payments',
+  payment_application: 'Applications',
+};
+
+const CLASSIFICATION_LABELS: Record<Classification, string> = {
+  missing_local: 'Missing locally',
+  stale: 'Stale',
+  extra: 'Extra',
+  amount_mismatch: 'Amount mismatch',
+};
+
+const CLASSIFICATION_STYLES: Record<Classification, string> = {
+  missing_local: 'bg-red-100 text-red-800',
+  stale: 'bg-yellow-100 text-yellow-800',
+  extra: 'bg-purple-100 text-purple-800',
+  amount_mismatch: 'bg-orange-100 text-orange-800',
+};
+
+const formatMoney = (value: number) =>
+  `$${Number(value || 0).toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+
+export default function SyncReconciliationReports() {
+  const [reports, setReports] = useState<ReconciliationReport[]>([]);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [discrepancies, setDiscrepancies] = useState<Discrepancy[]>([]);
+  const [settings, setSettings] = useState<ReconciliationSettings | null>(null);
+  const [classFilter, setClassFilter] = useState<Classification | 'all'>('all');
+  const [loading, setLoading] = useState(true);
+  const [starting, setStarting] = useState(false);
+  const [message, setMessage] = useState('');
+
+  const selected = reports.find(r => r.id === selectedId) || null;
+
+  useEffect(() => {
+    loadReports();
+    loadSettings();
+  }, []);
+
+  useEffect(() => {
+    if (selectedId) loadDiscrepancies(selectedId);
+  }, [selectedId]);
+
+  // Poll while a run is in progress so the report appears when it finishes
+  useEffect(() => {
+    if (!reports.some(r => r.status === 'running')) return;
+    const interval = setInterval(loadReports, 15000);
+    return () => clearInterval(interval);
+  }, [reports]);
+
+  const loadReports = async () => {
+    try {
+      const { data, error } = await supabase
+        .from('sync_reconciliation_reports')
+        .select('*')
+        .order('started_at', { ascending: false })
+        .limit(14);
+      if (error) throw error;
+      const rows = (data || []) as ReconciliationReport[];
+      setReports(rows);
+      setSelectedId(prev => (prev && rows.some(r => r.id === prev) ? prev : rows[0]?.id ?? null));
+    } catch (error) {
+      console.error('Error loading reconciliation reports:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const loadSettings = async () => {
+    const { data } = await supabase
+      .from('sync_reconciliation_settings')
+      .select('id, auto_heal, months_back, email_report')
+      .limit(1)
+      .maybeSingle();
+    if (data) setSettings(data);
+  };
+
+  const loadDiscrepancies = async (reportId: string) => {
+    const { data, error } = await supabase
+      .from('sync_reconciliation_discrepancies')
+      .select('id, entity_type, month, document_type, reference_number, classification, detail, heal_status, heal_note')
+      .eq('report_id', reportId)
+      .order('month', { ascending: false })
+      .order('entity_type')
+      .limit(500);
+    if (error) {
+      console.error('Error loading discrepancies:', error);
+      return;
+    }
+    setDiscrepancies((data || []) as Discrepancy[]);
+  };
+
+  const updateSettings = async (changes: Partial<Omit<ReconciliationSettings, 'id'>>) => {
+    if (!settings) return;
+    const { data: { user } } = await supabase.auth.getUser();
+    const { error } = await supabase
+      .from('sync_reconciliation_settings')
+      .update({ ...changes, updated_by: user?.id, updated_at: new Date().toISOString() })
+      .eq('id', settings.id);
+    if (error) {
+      setMessage(`Error: ${error.message}`);
+      return;
+    }
+    setSettings({ ...settings, ...changes });
+  };
+
+  const runNow = async () => {
+    setStarting(true);
+    setMessage('');
+    try {
+      const { data, error } = await supabase.functions.invoke('sync-reconciliation', {
+        body: { triggeredBy: 'manual' },
+      });
+      if (error) throw error;
+      if (data && !data.success) throw new Error(data.error);
+      setMessage('Reconciliation started. The report will appear here when it finishes.');
+      await loadReports();
+    } catch (error: any) {
+      setMessage(`Error: ${error.message}`);
+    } finally {
+      setStarting(false);
+    }
+  };
+
+  const visibleDiscrepancies = classFilter === 'all'
+    ? discrepancies
+    : discrepancies.filter(d => d.classification === classFilter);
+
+  return (
+    <div className="bg-white rounded-lg shadow">
+      <div className="px-4 py-3 border-b border-gray-200 flex flex-wrap items-center justify-between gap-3">
+        <div className="flex items-center gap-2">
+          <GitCompare className="w-5 h-5 text-gray-500" />
+          <h3 className="font-semibold text-gray-900">Reconciliation Reports</h3>
+        </div>
+        <div className="flex flex-wrap items-center gap-4 text-sm">
+          {settings && (
+            <>
+              <label className="flex items-center gap-1.5 text-gray-700">
+                <input
+                  type="checkbox"
+                  checked={settings.auto_heal}
+                  onChange={e => updateSettings({ auto_heal: e.target.checked })}
+                  className="rounded border-gray-300"
+                />
+                Auto-heal
+              </label>
+              <label className="flex items-center gap-1.5 text-gray-700">
+                <input
+                  type="checkbox"
+                  checked={settings.email_report}
+                  onChange={e => updateSettings({ email_report: e.target.checked })}
+                  className="rounded border-gray-300"
+                />
+                Email report
+              </label>
+              <label className="flex items-center gap-1.5 text-gray-700">
+                Months
+                <select
+                  value={settings.months_back}
+                  onChange={e => updateSettings({ months_back: Number(e.target.value) })}
+                  className="px-2 py-1 border border-gray-300 rounded"
+                >
+                  {[1, 2, 3, 6, 12].map(n => <option key={n} value={n}>{n}</option>)}
+                </select>
+              </label>
+            </>
+          )}
+          <button
+            onClick={runNow}
+            disabled={starting || reports.some(r => r.status === 'running')}
+            className="flex items-center gap-2 px-3 py-1.5 bg-blue-600 text-white rounded hover:bg-blue-700 disabled:opacity-50"
+          >
+            <Play className="w-4 h-4" />
+            Run Now
+          </button>
+        </div>
+      </div>
+
+      {message && (
+        <div className={`mx-4 mt-4 p-3 rounded text-sm ${
+          message.startsWith('Error') ? 'bg-red-50 text-red-700' : 'bg-green-50 text-green-700'
+        }`}>
+          {message}
+        </div>
+      )}
+
+      {loading ? (
+        <div className="flex justify-center py-8">
+          <RefreshCw className="w-6 h-6 animate-spin text-gray-400" />
+        </div>
+      ) : reports.length === 0 ? (
+        <p className="px-4 py-8 text-center text-sm text-gray-500">
+          No reconciliation has run yet. It runs nightly, or use Run Now.
+        </p>
+      ) : (
+        <div className="p-4 space-y-4">
+          <div className="flex flex-wrap items-center gap-3 text-sm">
+            <select
+              value={selectedId || ''}
+              onChange={e => setSelectedId(e.target.value)}
+              className="px-3 py-1.5 border border-gray-300 rounded"
+            >
+              {reports.map(r => (
+                <option key={r.id} value={r.id}>
+                  {r.report_date} ({r.triggered_by}) - {r.status === 'completed' ? `${r.total_discrepancies} differences` : r.status}
+                </option>
+              ))}
+            </select>
+            {selected && (
+              <span className="text-gray-600">
+                {selected.period_start} to {selected.period_end}
+                {selected.auto_heal && ` · ${selected.healed_count} healed, ${selected.queued_count} queued for sync`}
+                {selected.emailed_at && ` · emailed ${formatDateTime(selected.emailed_at)}`}
+              </span>
+            )}
+          </div>
+
+          {selected?.status === 'running' && (
+            <p className="flex items-center gap-2 text-sm text-blue-700">
+              <RefreshCw className="w-4 h-4 animate-spin" />
+              Comparing with Acumatica, started {formatDateTime(selected.started_at)}
+            </p>
+          )}
+          {selected?.error_message && (
+            <p className={`text-sm ${selected.status === 'failed' ? 'text-red-600' : 'text-yellow-700'}`}>
+              {selected.error_message}
+            </p>
+          )}
+
+          {selected && selected.summary.length > 0 && (
+            <div className="overflow-x-auto">
+              <table className="min-w-full divide-y divide-gray-200 text-sm">
+                <thead className="bg-gray-50">
+                  <tr>
+                    <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase">Month</th>
+                    <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase">Entity</th>
+                    <th className="px-3 py-2 text-right text-xs font-medium text-gray-500 uppercase">Acumatica</th>
+                    <th className="px-3 py-2 text-right text-xs font-medium text-gray-500 uppercase">Local</th>
+                    <th className="px-3 py-2 text-right text-xs font-medium text-gray-500 uppercase">Missing</th>
+                    <th className="px-3 py-2 text-right text-xs font-medium text-gray-500 uppercase">Stale</th>
+                    <th className="px-3 py-2 text-right text-xs font-medium text-gray-500 uppercase">Extra</th>
+                    <th className="px-3 py-2 text-right text-xs font-medium text-gray-500 uppercase">Mismatch</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-100">
+                  {selected.summary.map(m => {
+                    const inSync = m.acumatica.count === m.local.count && Math.abs(m.acumatica.amount - m.local.amount) < 0.01;
+                    return (
+                      <tr key={`${m.month}-${m.entity_type}`}>
+                        <td className="px-3 py-2 font-medium text-gray-900">{m.month}</td>
+                        <td className="px-3 py-2 text-gray-700">{ENTITY_LABELS[m.entity_type]}</td>
+                        <td className="px-3 py-2 text-right tabular-nums">
+                          {m.acumatica.count}
+                          <div className="text-xs text-gray-500">{formatMoney(m.acumatica.amount)}</div>
+                        </td>
+                        <td className={`px-3 py-2 text-right tabular-nums ${inSync ? '' : 'text-red-600'}`}>
+                          {m.local.count}
+                          <div className="text-xs">{formatMoney(m.local.amount)}</div>
+                        </td>
+                        <td className="px-3 py-2 text-right tabular-nums">{m.missing_local}</td>
+                        <td className="px-3 py-2 text-right tabular-nums">{m.stale}</td>
+                        <td className="px-3 py-2 text-right tabular-nums">{m.extra}</td>
+                        <td className="px-3 py-2 text-right tabular-nums">{m.amount_mismatch}</td>
+                      </tr>
+                    );
+                  })}
+                </tbody>
+              </table>
+            </div>
+          )}
+
+          {discrepancies.length > 0 && (
+            <div>
+              <div className="flex flex-wrap gap-2 mb-2">
+                {(['all', 'missing_local', 'stale', 'extra', 'amount_mismatch'] as const).map(c => (
+                  <button
+                    key={c}
+                    onClick={() => setClassFilter(c)}
+                    className={`px-2.5 py-1 rounded-full text-xs font-medium ${
+                      classFilter === c ? 'bg-gray-900 text-white' : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
+                    }`}
+                  >
+                    {c === 'all' ? `All (${discrepancies.length})` : `${CLASSIFICATION_LABELS[c]} (${discrepancies.filter(d => d.classification === c).length})`}
+                  </button>
+                ))}
+              </div>
+              <div className="overflow-x-auto max-h-96">
+                <table className="min-w-full divide-y divide-gray-200 text-sm">
+                  <thead className="bg-gray-50 sticky top-0">
+                    <tr>
+                      <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase">Document</th>
+                      <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase">Month</th>
+                      <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase">Difference</th>
+                      <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase">Detail</th>
+                      <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase">Heal</th>
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-gray-100">
+                    {visibleDiscrepancies.map(d => (
+                      <tr key={d.id}>
+                        <td className="px-3 py-2">
+                          <div className="font-medium text-gray-900">{d.reference_number}</div>
+                          <div className="text-xs text-gray-500">{ENTITY_LABELS[d.entity_type]}{d.document_type ? ` · ${d.document_type}` : ''}</div>
+                        </td>
+                        <td className="px-3 py-2 text-gray-600">{d.month}</td>
+                        <td className="px-3 py-2">
+                          <span className={`px-2 py-0.5 rounded-full text-xs font-semibold ${CLASSIFICATION_STYLES[d.classification]}`}>
+                            {CLASSIFICATION_LABELS[d.classification]}
+                          </span>
+                        </td>
+                        <td className="px-3 py-2 text-xs text-gray-600">{d.detail}</td>
+                        <td className="px-3 py-2 text-xs">
+                          {d.heal_status ? (
+                            <span
+                              className={d.heal_status === 'failed' ? 'text-red-600' : d.heal_status === 'healed' ? 'text-green-600' : 'text-blue-600'}
+                              title={d.heal_note || undefined}
+                            >
+                              {d.heal_status}
+                            </span>
+                          ) : (
+                            <span className="text-gray-400">--</span>
+                          )}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+              {discrepancies.length >= 500 && (
+                <p className="text-xs text-gray-500 mt-2">Showing the first 500 differences</p>
+              )}
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
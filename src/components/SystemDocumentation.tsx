@@ -569,7 +569,7 @@ export default function SystemDocumentation({ onBack }: SystemDocumentationProps
           <InfoCard title="Sync Flow" color="blue">
             <ol className="list-decimal pl-4 space-y-1">
               <li><strong>Cron trigger:</strong> <code className="bg-gray-100 px-1 rounded text-xs">acumatica-auto-sync</code> fires every 5 minutes</li>
-              <li><strong>Master sync:</strong> <code className="bg-gray-100 px-1 rounded text-xs">acumatica-master-sync</code> orchestrates sequential sync: Customer, Invoice, Payment</li>
+              <li><strong>Master sync:</strong> <code className="bg-gray-100 px-1 rounded text-xs">acumatica-master-sync</code> orchestrates sequential sync: Customer, Contact, Invoice, Payment</li>
               <li><strong>Session management:</strong> Shared Acumatica session manager handles login/logout, respecting concurrent user limits</li>
               <li><strong>Incremental sync:</strong> Each entity sync queries by LastModifiedDateTime to fetch only changed records</li>
               <li><strong>Upsert logic:</strong> Records are upserted by unique reference (customer_id, reference_number+type)</li>
@@ -661,7 +661,7 @@ export default function SystemDocumentation({ onBack }: SystemDocumentationProps
           </InfoCard>
 
           <SubHeading id="customers-monthly" title="Monthly Communication Sheet" />
-          <p className="text-sm text-gray-700 mb-3">Calendar-style monthly tracking per customer. Shows status per month (pending, active, sent, responded, postponed, inactive, no_response). Tracks emails sent/received, file uploads, and notes. Stored in <code className="bg-gray-100 px-1 rounded text-xs">customer_monthly_tracking</code> table.</p>
+          <p className="text-sm text-gray-700 mb-3">Calendar-style monthly tracking per customer. Shows status per month (pending, active, sent, responded, completed, postponed, inactive, no_response); a month becomes completed when an attached census is read and covers that month. Tracks emails sent/received, file uploads, and notes. Stored in <code className="bg-gray-100 px-1 rounded text-xs">customer_monthly_tracking</code> table.</p>
 
           <SubHeading id="customers-assignments" title="Email Assignments" />
           <p className="text-sm text-gray-700 mb-3">Links customers to email automation campaigns. Each assignment connects a customer to an email formula (schedule) and template (content) with a configurable start day of month and timezone. The email scheduler cron evaluates these assignments to determine when to send.</p>
@@ -857,7 +857,10 @@ export default function SystemDocumentation({ onBack }: SystemDocumentationProps
               <li><strong>Outbound:</strong> SendGrid for all email sending (statements, automated campaigns, reminders, sync reports)</li>
               <li><strong>Inbound:</strong> Mailgun webhook routes incoming customer emails to <code className="bg-gray-100 px-1 rounded text-xs">email-receiver</code> edge function</li>
               <li><strong>AI Processing:</strong> GPT-4 analyzes inbound email intent (file_attached, stop, postpone, question, general)</li>
+              <li><strong>AI Actions:</strong> stop / postpone intents are applied only when auto-apply is on and confidence meets the intent's threshold; the rest wait in the inbox <em>AI Review</em> queue, and every applied action can be undone from its audit log</li>
+              <li><strong>Attachments:</strong> stored files are read by <code className="bg-gray-100 px-1 rounded text-xs">extract-attachment-data</code>; only a census for the month the file was filed under marks the customer as responded and stops that month's reminders</li>
               <li><strong>Tracking:</strong> SendGrid webhooks update delivery status, open counts, click counts, bounce reasons</li>
+              <li><strong>Contacts:</strong> each customer has contacts in <code className="bg-gray-100 px-1 rounded text-xs">customer_contacts</code>, synced from Acumatica or added by collectors, with roles (AP clerk, billing, controller, owner, facility admin) and a do-not-contact flag. Statement sends, scheduled emails and the ticket composer pick recipients by role, and inbound emails are matched to the contact who sent them (<code className="bg-gray-100 px-1 rounded text-xs">inbound_emails.contact_id</code>)</li>
               <li><strong>Department Senders:</strong> Configurable per-department from/reply-to addresses (AR, Census, Tickets, Reminders, NoReply)</li>
             </ul>
           </InfoCard>
@@ -872,7 +875,8 @@ export default function SystemDocumentation({ onBack }: SystemDocumentationProps
               <li>The <code className="bg-gray-100 px-1 rounded text-xs">email-scheduler</code> edge function runs every minute via cron</li>
               <li>It evaluates all active assignments against their formula's schedule (day of month + time slots)</li>
               <li>Respects customer timezone settings for accurate send timing</li>
-              <li>Skips inactive, postponed, or already-sent-today customers</li>
+              <li>Skips inactive, postponed, or already-sent-today customers, and customers whose address belongs to a do-not-contact contact</li>
+              <li>Adds the customer's contacts in the assignment's <code className="bg-gray-100 px-1 rounded text-xs">recipient_roles</code> as recipients</li>
               <li>Prevents duplicate sends via <code className="bg-gray-100 px-1 rounded text-xs">dedup_key</code> in email_logs</li>
               <li>Sends via SendGrid and logs results to <code className="bg-gray-100 px-1 rounded text-xs">email_logs</code> and <code className="bg-gray-100 px-1 rounded text-xs">scheduler_execution_logs</code></li>
             </ol>
@@ -888,7 +892,9 @@ export default function SystemDocumentation({ onBack }: SystemDocumentationProps
           <InfoCard title="Email Sending Functions" color="green">
             <ul className="list-disc pl-4 space-y-1">
               <li><strong>send-email-reply:</strong> General-purpose email sending via SendGrid. Supports flexible from/reply-to, text/HTML content, department-based sender config.</li>
-              <li><strong>send-customer-invoice-email:</strong> Sends formatted invoice statements with HTML tables, PDF/Excel attachments, variable substitution. Tracks in <code className="bg-gray-100 px-1 rounded text-xs">customer_email_logs</code>.</li>
+              <li><strong>send-customer-invoice-email:</strong> Sends formatted invoice statements with HTML tables, Excel attachments, variable substitution. When the report template has <code className="bg-gray-100 px-1 rounded text-xs">include_pdf_attachment</code> set, renders the statement PDF with the template's PDF layout and attaches it. Given <code className="bg-gray-100 px-1 rounded text-xs">recipientRoles</code>, sends to the customer's contacts with those roles instead of the customer email; addresses of do-not-contact contacts are always dropped. Tracks in <code className="bg-gray-100 px-1 rounded text-xs">customer_email_logs</code>; attached PDFs are archived in <code className="bg-gray-100 px-1 rounded text-xs">customer_documents</code> with the log id.</li>
+              <li><strong>process-statement-runs:</strong> Works through scheduled statement runs. Each due <code className="bg-gray-100 px-1 rounded text-xs">statement_cycles</code> row queues one <code className="bg-gray-100 px-1 rounded text-xs">statement_run_items</code> row per matching customer, resolving recipients, format and collector CC from <code className="bg-gray-100 px-1 rounded text-xs">statement_delivery_preferences</code>; opted-out customers and customers without an email are recorded as skipped. Queued items are sent through send-customer-invoice-email with the cycle's report template. Also starts manual runs and resends selected items.</li>
+              <li><strong>render-customer-pdf:</strong> Renders a customer's statement (or a single invoice) from a branded <code className="bg-gray-100 px-1 rounded text-xs">pdf_templates</code> layout: logo, remit-to address, aging summary, invoice table and payment coupon. Downloads are archived per customer; template previews use sample data and are not stored.</li>
               <li><strong>send-reminder-emails:</strong> Internal staff notifications for due reminders. Includes priority indicators, action links, and due dates.</li>
               <li><strong>send-sync-report:</strong> Twice-daily HTML sync status reports to configured recipients.</li>
               <li><strong>send-temporary-password:</strong> Welcome emails to new admin users with temporary passwords and login instructions.</li>
@@ -971,21 +977,26 @@ export default function SystemDocumentation({ onBack }: SystemDocumentationProps
             <CronRow name="acumatica-auto-sync" schedule="*/5 * * * *" desc="Triggers the master Acumatica sync: customers, invoices, and payments sequentially" />
             <CronRow name="send-reminder-emails" schedule="*/5 * * * *" desc="Sends email notifications for reminders that have email notification enabled" />
             <CronRow name="auto-red-status-checker" schedule="*/5 * * * *" desc="Auto-marks invoices RED when past due or untouched 30+ days; clears RED when paid" />
+            <CronRow name="process-statement-runs" schedule="*/5 * * * *" desc="Starts statement cycles that are due and sends queued statements to each customer's delivery preferences; only calls the edge function when there is work" />
 
             <p className="text-xs font-semibold text-gray-500 uppercase tracking-wider mt-4 mb-2">Every 10 Minutes</p>
             <CronRow name="auto-close-paid-tickets" schedule="*/10 * * * *" desc="Safety net: auto-closes collection tickets where all linked invoices are paid, closed, or voided. Catches cases missed by the real-time trigger (bulk syncs, direct DB updates, invoices arriving already closed)." />
+            <CronRow name="extract-attachment-data" schedule="*/10 * * * *" desc="Reads queued inbound and uploaded attachments (PDF, spreadsheet, image), extracts remittance lines and census counts, links remittance lines to invoices and completes the month when a census matches it" />
             <CronRow name="refresh-payment-month-summary" schedule="*/10 * * * *" desc="Refreshes materialized view of monthly payment aggregates for Payment Breakdown page" />
 
             <p className="text-xs font-semibold text-gray-500 uppercase tracking-wider mt-4 mb-2">Hourly</p>
             <CronRow name="refresh-payment-analytics" schedule="0 * * * *" desc="Refreshes daily, monthly, and yearly cached payment analytics" />
             <CronRow name="refresh-invoice-month-summary" schedule="15 * * * *" desc="Refreshes invoice month summary materialized view" />
+            <CronRow name="clear-posted-remittance-lines" schedule="20 * * * *" desc="Marks imported bank remittances as posted once Acumatica shows the payment, removing their pending-posting badges" />
             <CronRow name="refresh-invoice-analytics" schedule="30 * * * *" desc="Refreshes cached invoice analytics (monthly + yearly) for Invoice Analytics page" />
 
             <p className="text-xs font-semibold text-gray-500 uppercase tracking-wider mt-4 mb-2">Daily</p>
             <CronRow name="cleanup-old-sync-logs" schedule="0 2 * * *" desc="Deletes sync_change_logs older than 30 days in 10K row batches (2:00 AM UTC)" />
             <CronRow name="reconcile-balanced-invoices" schedule="0 5 * * *" desc="Daily reconciliation of Balanced invoices with Acumatica (5:00 AM UTC)" />
+            <CronRow name="capture-customer-credit-status" schedule="30 5 * * *" desc="Measures exposure against credit limits, flags over-limit customers and opens hold / release reviews (5:30 AM UTC)" />
             <CronRow name="process-auto-ticket-rules" schedule="0 6 * * *" desc="Processes all active auto-ticket rules and creates/updates collection tickets (6:00 AM UTC)" />
             <CronRow name="payment-sync-health-check" schedule="0 6 * * *" desc="Samples 100 recent payments and verifies data integrity with Acumatica (6:00 AM UTC)" />
+            <CronRow name="sync-reconciliation-nightly" schedule="30 7 * * *" desc="Compares invoices, payments and applications with Acumatica by month, optionally auto-heals, and mails the report (7:30 AM UTC)" />
 
             <p className="text-xs font-semibold text-gray-500 uppercase tracking-wider mt-4 mb-2">Twice Daily</p>
             <CronRow name="send-sync-report-morning" schedule="0 12 * * *" desc="Sends morning sync status report to recipients (8:00 AM Eastern)" />
@@ -1207,7 +1218,7 @@ export default function SystemDocumentation({ onBack }: SystemDocumentationProps
           <SubHeading id="ef-sync" title="Sync Functions" />
           <div className="space-y-2 mb-4">
             {[
-              ['acumatica-master-sync', 'Orchestrates sequential sync of all entities (Customer > Invoice > Payment)'],
+              ['acumatica-master-sync', 'Orchestrates sequential sync of all entities (Customer > Contact > Invoice > Payment)'],
               ['acumatica-invoice-incremental-sync', 'Fetches and upserts recently modified invoices from Acumatica'],
               ['acumatica-invoice-bulk-fetch', 'Bulk fetch of all invoices for initial load or recovery'],
               ['acumatica-invoice-date-range-sync', 'Syncs invoices within a specific date range'],
@@ -1217,6 +1228,7 @@ export default function SystemDocumentation({ onBack }: SystemDocumentationProps
               ['acumatica-customer-incremental-sync', 'Fetches and upserts recently modified customers'],
               ['acumatica-customer-bulk-fetch', 'Bulk fetch of all customers for initial load or recovery'],
               ['acumatica-customer-date-range-sync', 'Syncs customers within a specific date range'],
+              ['acumatica-contact-incremental-sync', 'Fetches recently modified Acumatica contacts into customer_contacts by business account; roles and contact preferences set in the app are kept'],
               ['acumatica-invoice-webhook', 'Handles real-time invoice change webhooks from Acumatica'],
               ['acumatica-payment-webhook', 'Handles real-time payment change webhooks from Acumatica'],
               ['acumatica-customer-webhook', 'Handles real-time customer change webhooks from Acumatica'],
@@ -1242,7 +1254,8 @@ export default function SystemDocumentation({ onBack }: SystemDocumentationProps
               ['email-receiver', 'Receives inbound customer emails via Mailgun webhook, analyzes intent with GPT-4, stores attachments'],
               ['email-scheduler', 'Processes scheduled email campaigns based on formula schedules and customer assignments'],
               ['send-email-reply', 'General-purpose email sending via SendGrid with department sender support'],
-              ['send-customer-invoice-email', 'Sends formatted invoice statements with HTML tables and PDF/Excel attachments'],
+              ['send-customer-invoice-email', 'Sends formatted invoice statements with HTML tables, Excel attachments and server-rendered PDF statements'],
+              ['render-customer-pdf', 'Renders branded statement and invoice PDFs and archives them against the customer'],
               ['send-reminder-emails', 'Sends internal reminder notifications to staff for due reminders'],
               ['send-sync-report', 'Generates and sends comprehensive HTML sync status reports twice daily'],
               ['send-temporary-password', 'Sends welcome emails with temporary passwords to new users'],
@@ -212,6 +212,7 @@ export default function TestTemplateEmailModal({ template, onClose }: TestTempla
         : 0;
 
       const creditMemoCount = creditMemos.length;
+      const { data: { session } } = await supabase.auth.getSession();
       const creditMemoTotal = creditMemos.reduce((sum, inv) => sum + (inv.balance || 0), 0);
 
       const response = await fetch(
@@ -219,7 +220,7 @@ export default function TestTemplateEmailModal({ template, onClose }: TestTempla
         {
           method: 'POST',
           headers: {
-            'Authorization': `Bearer ${import.meta.env.VITE_SUPABASE_ANON_KEY}`,
+            'Authorization': `Bearer ${session?.access_token}`,
             'Content-Type': 'application/json',
           },
           body: JSON.stringify({
@@ -11,10 +11,12 @@ interface TicketNote {
   attachment_type: 'voice' | 'image' | 'document' | null;
   document_urls: string[] | null;
   created_at: string;
-  created_by_user_id: string;
+  created_by_user_id: string | null;
+  author_name: string | null;
+  source: 'staff' | 'customer_portal';
   user_profiles: {
     full_name: string;
-  };
+  } | null;
 }
 
 interface TicketNoteModalProps {
@@ -421,7 +423,12 @@ export default function TicketNoteModal({ ticketId, ticketNumber, onClose, onSav
                   <div key={note.id} className="p-4 bg-gray-50 border border-gray-200 rounded-lg">
                     <div className="flex items-start justify-between mb-2">
                       <div className="flex-1">
-                        <p className="font-medium text-gray-900">{note.user_profiles?.full_name || 'Unknown User'}</p>
+                        <p className="font-medium text-gray-900">
+                          {note.user_profiles?.full_name || note.author_name || 'Unknown User'}
+                          {note.source === 'customer_portal' && (
+                            <span className="ml-2 px-1.5 py-0.5 rounded text-[10px] font-medium bg-teal-100 text-teal-700">Customer portal</span>
+                          )}
+                        </p>
                         <p className="text-xs text-gray-500">{new Date(note.created_at).toLocaleString()}</p>
                       </div>
 
@@ -24,18 +24,21 @@ import IndividualInvoiceCard from './MyAssignments/IndividualInvoiceCard';
 import BatchActionToolbar from './MyAssignments/BatchActionToolbar';
 import TicketBatchActionToolbar from './MyAssignments/TicketBatchActionToolbar';
 import BatchNoteModal from './MyAssignments/BatchNoteModal';
-import PromiseDateModal from './MyAssignments/PromiseDateModal';
+import PromiseDateModal, { InvoicePromiseDetails } from './MyAssignments/PromiseDateModal';
 import { sortTicketsByPriority } from './MyAssignments/utils';
 import TicketFilterSidebar, { TicketAdvancedFilters, emptyFilters } from './MyAssignments/TicketFilterSidebar';
 import CollectorCalendar from './MyAssignments/CollectorCalendar';
+import DailyWorkQueue from './MyAssignments/DailyWorkQueue';
 import { format } from 'date-fns';
 import { isDatePast, formatDate as formatDateUtil } from '../lib/dateUtils';
+import { fetchPendingCashByInvoice } from '../lib/remittances';
 
 interface UnifiedTicketingSystemProps {
   showOnlyAssigned?: boolean;
   onBack?: () => void;
   title?: string;
   showCalendar?: boolean;
+  showWorkQueue?: boolean;
 }
 
 interface Customer {
@@ -63,7 +66,8 @@ export default function UnifiedTicketingSystem({
   showOnlyAssigned = false,
   onBack,
   title = 'Ticketing System',
-  showCalendar = false
+  showCalendar = false,
+  showWorkQueue = false
 }: UnifiedTicketingSystemProps) {
   const { user, profile } = useAuth();
   const rawNavigate = useNavigate();
@@ -656,7 +660,7 @@ export default function UnifiedTicketingSystem({
       const uniqueCustomerIds = [...new Set(ticketGroupsArray.map(t => t.customer_id))];
       const allInvoiceRefs = ticketGroupsArray.flatMap(t => t.invoices.map(inv => inv.invoice_reference_number));
 
-      const [enrichmentResult, customerStatsResult, appResult] = await Promise.all([
+      const [enrichmentResult, customerStatsResult, appResult, pendingCash] = await Promise.all([
         ticketIds.length > 0
           ? supabase.rpc('get_ticket_enrichment_bulk', { p_ticket_ids: ticketIds })
           : { data: [], error: null },
@@ -670,11 +674,26 @@ export default function UnifiedTicketingSystem({
               .in('invoice_reference_number', allInvoiceRefs)
               .gt('amount_paid', 0)
               .order('application_date', { ascending: false })
-          : { data: [], error: null }
+          : { data: [], error: null },
+        fetchPendingCashByInvoice([
+          ...allInvoiceRefs,
+          ...individualList.map(inv => inv.invoice_reference_number)
+        ]).catch(err => {
+          console.error('Error loading pending cash:', err);
+          return new Map<string, number>();
+        })
       ]);
 
       applyEnrichment(ticketGroupsArray, enrichmentResult, customerStatsResult, appResult);
 
+      // Cash already at the bank but not yet posted in Acumatica
+      if (pendingCash.size > 0) {
+        [...ticketGroupsArray.flatMap(t => t.invoices), ...individualList].forEach(inv => {
+          inv.pending_cash = pendingCash.get(inv.invoice_reference_number);
+        });
+        setIndividualAssignments([...individualList]);
+      }
+
       const sortedEnriched = sortTicketsByPriority([...ticketGroupsArray]);
       setTickets(sortedEnriched);
       setEnriching(false);
@@ -954,19 +973,27 @@ export default function UnifiedTicketingSystem({
     }
   };
 
-  const handlePromiseDateConfirm = async (promiseDate: string) => {
+  const handlePromiseDateConfirm = async ({ date: promiseDate, amount, channel }: InvoicePromiseDetails) => {
     if (!profile?.id || !promiseDateModalInvoice) return;
 
     try {
       const { data: invoice } = await supabase
         .from('acumatica_invoices')
-        .select('id, reference_number, customer_name')
+        .select('id, reference_number, customer, customer_name')
         .neq('status', 'On Hold')
         .eq('reference_number', promiseDateModalInvoice)
         .maybeSingle();
 
       if (!invoice) throw new Error('Invoice not found');
 
+      const { error: promiseError } = await supabase.rpc('create_payment_promise', {
+        p_customer_id: invoice.customer,
+        p_installments: [{ due_date: promiseDate, amount }],
+        p_invoice_references: [invoice.reference_number],
+        p_channel: channel,
+      });
+      if (promiseError) throw promiseError;
+
       await supabase
         .from('acumatica_invoices')
         .update({
@@ -1531,6 +1558,12 @@ export default function UnifiedTicketingSystem({
         </div>
       </div>
 
+      {showWorkQueue && (
+        <div className="px-6 pt-4 flex-shrink-0">
+          <DailyWorkQueue />
+        </div>
+      )}
+
       {showCalendar && (
         <div className="px-6 pt-4 flex-shrink-0">
           <CollectorCalendar />
@@ -1987,6 +2020,8 @@ export default function UnifiedTicketingSystem({
       {promiseDateModalInvoice && (
         <PromiseDateModal
           invoiceNumber={promiseDateModalInvoice}
+          defaultAmount={[...tickets.flatMap(t => t.invoices), ...individualAssignments]
+            .find(inv => inv.invoice_reference_number === promiseDateModalInvoice)?.balance}
           onConfirm={handlePromiseDateConfirm}
           onCancel={() => setPromiseDateModalInvoice(null)}
         />
@@ -15,6 +15,14 @@ interface User {
   role: string;
   assigned_color: string | null;
   can_be_assigned_as_collector: boolean;
+  custom_role_id: string | null;
+}
+
+interface CustomRole {
+  id: string;
+  role_key: string;
+  name: string;
+  description: string | null;
 }
 
 interface ComponentLock {
@@ -47,6 +55,7 @@ const ALL_COMPONENT_KEYS = Object.values(LOCKABLE_COMPONENTS);
 export default function UserManagementSidebar({ onClose, isOpen }: UserManagementSidebarProps) {
   const { profile, impersonateUser } = useAuth();
   const [users, setUsers] = useState<User[]>([]);
+  const [customRoles, setCustomRoles] = useState<CustomRole[]>([]);
   const [selectedUser, setSelectedUser] = useState<User | null>(null);
   const [locks, setLocks] = useState<ComponentLock[]>([]);
   const [loading, setLoading] = useState(true);
@@ -71,13 +80,21 @@ export default function UserManagementSidebar({ onClose, isOpen }: UserManagemen
   const loadUsers = async () => {
     setLoading(true);
     try {
-      const { data, error } = await supabase
-        .from('user_profiles')
-        .select('id, email, role, assigned_color, can_be_assigned_as_collector')
-        .order('email');
-
-      if (error) throw error;
-      setUsers(data || []);
+      const [usersResult, rolesResult] = await Promise.all([
+        supabase
+          .from('user_profiles')
+          .select('id, email, role, assigned_color, can_be_assigned_as_collector, custom_role_id')
+          .order('email'),
+        supabase
+          .from('custom_roles')
+          .select('id, role_key, name, description')
+          .order('name'),
+      ]);
+
+      if (usersResult.error) throw usersResult.error;
+      if (rolesResult.error) throw rolesResult.error;
+      setUsers(usersResult.data || []);
+      setCustomRoles(rolesResult.data || []);
     } catch (error) {
       console.error('Error loading users:', error);
     } finally {
@@ -133,28 +150,41 @@ export default function UserManagementSidebar({ onClose, isOpen }: UserManagemen
     }
   };
 
+  // Custom roles are selected by their role_key; the user keeps the custom
+  // role's base role in user_profiles.role so built-in checks still apply.
+  const roleValue = (user: User) =>
+    customRoles.find(r => r.id === user.custom_role_id)?.role_key || user.role;
+
   const updateRole = async (userId: string, newRole: string) => {
     setSaving(true);
     try {
-      const { error } = await supabase
-        .from('user_profiles')
-        .update({ role: newRole })
-        .eq('id', userId);
+      const { error } = await supabase.rpc('assign_user_role', {
+        p_user_id: userId,
+        p_role: newRole,
+      });
 
       if (error) throw error;
 
+      const { data: updated, error: reloadError } = await supabase
+        .from('user_profiles')
+        .select('role, custom_role_id')
+        .eq('id', userId)
+        .single();
+
+      if (reloadError) throw reloadError;
+
       setUsers(prev =>
         prev.map(user =>
-          user.id === userId ? { ...user, role: newRole } : user
+          user.id === userId ? { ...user, ...updated } : user
         )
       );
 
       if (selectedUser?.id === userId) {
-        setSelectedUser(prev => prev ? { ...prev, role: newRole } : null);
+        setSelectedUser(prev => prev ? { ...prev, ...updated } : null);
       }
-    } catch (error) {
+    } catch (error: any) {
       console.error('Error updating role:', error);
-      alert('Failed to update role');
+      alert(error.message || 'Failed to update role');
     } finally {
       setSaving(false);
     }
@@ -326,7 +356,10 @@ export default function UserManagementSidebar({ onClose, isOpen }: UserManagemen
               <div className="p-6">
                 <div className="grid gap-4">
                   {users.map((user) => {
-                    const roleConfig = ROLES.find(r => r.value === user.role) || ROLES[3];
+                    const customRole = customRoles.find(r => r.id === user.custom_role_id);
+                    const roleConfig = customRole
+                      ? { label: customRole.name, description: customRole.description || `Custom ${user.role} role` }
+                      : ROLES.find(r => r.value === user.role) || ROLES[3];
                     return (
                       <div
                         key={user.id}
@@ -435,7 +468,7 @@ export default function UserManagementSidebar({ onClose, isOpen }: UserManagemen
                       Role
                     </label>
                     <select
-                      value={selectedUser.role}
+                      value={roleValue(selectedUser)}
                       onChange={(e) => updateRole(selectedUser.id, e.target.value)}
                       disabled={saving}
                       className="w-full px-4 py-2 border-2 border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 disabled:opacity-50"
@@ -445,6 +478,15 @@ export default function UserManagementSidebar({ onClose, isOpen }: UserManagemen
                           {role.label} - {role.description}
                         </option>
                       ))}
+                      {customRoles.length > 0 && (
+                        <optgroup label="Custom roles">
+                          {customRoles.map(role => (
+                            <option key={role.id} value={role.role_key}>
+                              {role.name}{role.description ? ` - ${role.description}` : ''}
+                            </option>
+                          ))}
+                        </optgroup>
+                      )}
                     </select>
                   </div>
 
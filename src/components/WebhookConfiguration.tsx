@@ -1,6 +1,6 @@
 import { useState, useEffect } from 'react';
 import { useNavigate } from 'react-router-dom';
-import { ArrowLeft, Copy, Check, Webhook, Activity, Clock, AlertCircle, CheckCircle } from 'lucide-react';
+import { ArrowLeft, Copy, Check, Webhook, Activity, Clock, AlertCircle, CheckCircle, ShieldCheck, ShieldAlert, RefreshCw, Eye, EyeOff, Save } from 'lucide-react';
 import { supabase } from '../lib/supabase';
 import { formatDateTime as formatDateTimeUtil } from '../lib/dateUtils';
 
@@ -8,11 +8,28 @@ interface WebhookConfigurationProps {
   onBack?: () => void;
 }
 
+interface WebhookSecret {
+  source: 'acumatica' | 'sendgrid';
+  secret: string | null;
+  previous_valid_until: string | null;
+  public_key: string | null;
+  enforce: boolean;
+  max_skew_seconds: number;
+  rotated_at: string | null;
+}
+
 export default function WebhookConfiguration({ onBack }: WebhookConfigurationProps) {
   const navigate = useNavigate();
   const [copied, setCopied] = useState<string | null>(null);
   const [webhookLogs, setWebhookLogs] = useState<any[]>([]);
   const [loading, setLoading] = useState(true);
+  const [secrets, setSecrets] = useState<Record<string, WebhookSecret>>({});
+  const [showSecret, setShowSecret] = useState(false);
+  const [rotating, setRotating] = useState(false);
+  const [sendgridKey, setSendgridKey] = useState('');
+  const [savingSecurity, setSavingSecurity] = useState<string | null>(null);
+  const [securityError, setSecurityError] = useState<string | null>(null);
+  const [rejectedOnly, setRejectedOnly] = useState(false);
 
   const handleBack = () => {
     if (onBack) {
@@ -49,18 +66,100 @@ export default function WebhookConfiguration({ onBack }: WebhookConfigurationPro
   ];
 
   useEffect(() => {
-    loadWebhookLogs();
+    loadSecrets();
   }, []);
 
+  useEffect(() => {
+    loadWebhookLogs();
+  }, [rejectedOnly]);
+
+  const loadSecrets = async () => {
+    const { data, error } = await supabase
+      .from('webhook_secrets')
+      .select('source, secret, previous_valid_until, public_key, enforce, max_skew_seconds, rotated_at');
+
+    if (error) {
+      console.error('Error loading webhook secrets:', error);
+      return;
+    }
+
+    const bySource: Record<string, WebhookSecret> = {};
+    (data || []).forEach((row: WebhookSecret) => {
+      bySource[row.source] = row;
+    });
+    setSecrets(bySource);
+    setSendgridKey(bySource.sendgrid?.public_key || '');
+  };
+
+  const handleRotateSecret = async () => {
+    const hasSecret = !!secrets.acumatica?.secret;
+    if (hasSecret && !confirm('Rotate the Acumatica webhook secret? The current secret stays valid for 24 hours so you can update the push notification headers in Acumatica.')) {
+      return;
+    }
+
+    setRotating(true);
+    setSecurityError(null);
+    try {
+      const { error } = await supabase.rpc('rotate_webhook_secret', { p_source: 'acumatica' });
+      if (error) throw error;
+      setShowSecret(true);
+      await loadSecrets();
+    } catch (error: any) {
+      console.error('Error rotating webhook secret:', error);
+      setSecurityError(error.message || 'Failed to rotate secret');
+    } finally {
+      setRotating(false);
+    }
+  };
+
+  const updateSecurity = async (source: 'acumatica' | 'sendgrid', updates: Partial<WebhookSecret>) => {
+    setSavingSecurity(source);
+    setSecurityError(null);
+    try {
+      const { error } = await supabase
+        .from('webhook_secrets')
+        .update({ ...updates, updated_at: new Date().toISOString() })
+        .eq('source', source);
+      if (error) throw error;
+      await loadSecrets();
+    } catch (error: any) {
+      console.error('Error updating webhook security:', error);
+      setSecurityError(error.message || 'Failed to save');
+    } finally {
+      setSavingSecurity(null);
+    }
+  };
+
+  const handleToggleEnforce = (source: 'acumatica' | 'sendgrid') => {
+    const current = secrets[source];
+    if (!current) return;
+    if (!current.enforce) {
+      const configured = source === 'acumatica' ? !!current.secret : !!current.public_key;
+      if (!configured) {
+        setSecurityError(source === 'acumatica'
+          ? 'Generate a secret and add it to Acumatica before enforcing verification.'
+          : 'Save the SendGrid verification key before enforcing verification.');
+        return;
+      }
+    }
+    updateSecurity(source, { enforce: !current.enforce });
+  };
+
   const loadWebhookLogs = async () => {
     setLoading(true);
     try {
-      const { data, error } = await supabase
+      let query = supabase
         .from('webhook_logs')
         .select('*')
         .order('received_at', { ascending: false })
         .limit(50);
 
+      if (rejectedOnly) {
+        query = query.eq('status', 'rejected');
+      }
+
+      const { data, error } = await query;
+
       if (error) throw error;
       setWebhookLogs(data || []);
     } catch (error) {
@@ -83,6 +182,7 @@ export default function WebhookConfiguration({ onBack }: WebhookConfigurationPro
       case 'pending_credentials':
         return 'text-yellow-500';
       case 'error':
+      case 'rejected':
         return 'text-red-500';
       default:
         return 'text-slate-400';
@@ -97,6 +197,8 @@ export default function WebhookConfiguration({ onBack }: WebhookConfigurationPro
         return <Clock className="w-4 h-4" />;
       case 'error':
         return <AlertCircle className="w-4 h-4" />;
+      case 'rejected':
+        return <ShieldAlert className="w-4 h-4" />;
       default:
         return <Activity className="w-4 h-4" />;
     }
@@ -143,6 +245,122 @@ export default function WebhookConfiguration({ onBack }: WebhookConfigurationPro
           </div>
         </div>
 
+        <div className="bg-slate-800 border border-slate-700 rounded-lg p-6 mb-8">
+          <div className="flex items-center gap-3 mb-2">
+            <ShieldCheck className="w-6 h-6 text-emerald-500" />
+            <h2 className="text-xl font-semibold text-white">Webhook Security</h2>
+          </div>
+          <p className="text-slate-400 text-sm mb-6">
+            Requests are verified before any data is touched and enforcement is on by default, so nothing is processed until the secret or key below is set. Switch a source to log only while rolling out: failures are then logged as rejected but still processed.
+          </p>
+
+          {securityError && (
+            <div className="mb-4 p-3 bg-red-900/20 border border-red-700 rounded text-sm text-red-400">
+              {securityError}
+            </div>
+          )}
+
+          <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+            <div className="bg-slate-900/50 border border-slate-700 rounded-lg p-4">
+              <div className="flex items-center justify-between mb-3">
+                <h3 className="text-white font-semibold">Acumatica Shared Secret</h3>
+                <button
+                  onClick={() => handleToggleEnforce('acumatica')}
+                  disabled={savingSecurity === 'acumatica' || !secrets.acumatica}
+                  className={`px-3 py-1 rounded-full text-xs font-medium transition-colors ${
+                    secrets.acumatica?.enforce
+                      ? 'bg-emerald-600/20 text-emerald-400 border border-emerald-600'
+                      : 'bg-yellow-600/20 text-yellow-400 border border-yellow-600'
+                  }`}
+                >
+                  {secrets.acumatica?.enforce ? 'Enforced' : 'Log only'}
+                </button>
+              </div>
+
+              <div className="flex items-center gap-2 mb-3">
+                <div className="flex-1 bg-slate-900 border border-slate-700 rounded-lg p-3 font-mono text-xs text-slate-300 overflow-x-auto">
+                  {secrets.acumatica?.secret
+                    ? (showSecret ? secrets.acumatica.secret : '•'.repeat(32))
+                    : 'No secret generated yet'}
+                </div>
+                {secrets.acumatica?.secret && (
+                  <>
+                    <button
+                      onClick={() => setShowSecret(!showSecret)}
+                      className="p-3 rounded-lg bg-slate-700 hover:bg-slate-600 text-slate-300"
+                      title={showSecret ? 'Hide' : 'Reveal'}
+                    >
+                      {showSecret ? <EyeOff className="w-4 h-4" /> : <Eye className="w-4 h-4" />}
+                    </button>
+                    <button
+                      onClick={() => copyToClipboard(secrets.acumatica.secret || '', 'acumatica-secret')}
+                      className="p-3 rounded-lg bg-slate-700 hover:bg-slate-600 text-slate-300"
+                      title="Copy"
+                    >
+                      {copied === 'acumatica-secret' ? <Check className="w-4 h-4" /> : <Copy className="w-4 h-4" />}
+                    </button>
+                  </>
+                )}
+              </div>
+
+              <button
+                onClick={handleRotateSecret}
+                disabled={rotating}
+                className="flex items-center gap-2 px-4 py-2 bg-blue-600 hover:bg-blue-700 disabled:bg-slate-700 text-white rounded-lg text-sm font-medium transition-colors"
+              >
+                <RefreshCw className={`w-4 h-4 ${rotating ? 'animate-spin' : ''}`} />
+                {secrets.acumatica?.secret ? 'Rotate Secret' : 'Generate Secret'}
+              </button>
+
+              <div className="mt-3 text-xs text-slate-500 space-y-1">
+                <p>Add header <code className="text-white bg-slate-800 px-1">X-Webhook-Secret</code> with this value to each push notification destination.</p>
+                {secrets.acumatica?.rotated_at && <p>Last rotated {formatDateTimeUtil(secrets.acumatica.rotated_at)}</p>}
+                {secrets.acumatica?.previous_valid_until && new Date(secrets.acumatica.previous_valid_until) > new Date() && (
+                  <p className="text-yellow-400">Previous secret accepted until {formatDateTimeUtil(secrets.acumatica.previous_valid_until)}</p>
+                )}
+              </div>
+            </div>
+
+            <div className="bg-slate-900/50 border border-slate-700 rounded-lg p-4">
+              <div className="flex items-center justify-between mb-3">
+                <h3 className="text-white font-semibold">SendGrid Event Webhook Key</h3>
+                <button
+                  onClick={() => handleToggleEnforce('sendgrid')}
+                  disabled={savingSecurity === 'sendgrid' || !secrets.sendgrid}
+                  className={`px-3 py-1 rounded-full text-xs font-medium transition-colors ${
+                    secrets.sendgrid?.enforce
+                      ? 'bg-emerald-600/20 text-emerald-400 border border-emerald-600'
+                      : 'bg-yellow-600/20 text-yellow-400 border border-yellow-600'
+                  }`}
+                >
+                  {secrets.sendgrid?.enforce ? 'Enforced' : 'Log only'}
+                </button>
+              </div>
+
+              <textarea
+                value={sendgridKey}
+                onChange={(e) => setSendgridKey(e.target.value)}
+                rows={3}
+                placeholder="MFkwEwYHKoZIzj0CAQYIKoZIzj0DAQcDQgAE..."
+                className="w-full bg-slate-900 border border-slate-700 rounded-lg p-3 font-mono text-xs text-slate-300 focus:outline-none focus:ring-2 focus:ring-blue-500 mb-3"
+              />
+
+              <button
+                onClick={() => updateSecurity('sendgrid', { public_key: sendgridKey.trim() || null })}
+                disabled={savingSecurity === 'sendgrid' || sendgridKey.trim() === (secrets.sendgrid?.public_key || '')}
+                className="flex items-center gap-2 px-4 py-2 bg-blue-600 hover:bg-blue-700 disabled:bg-slate-700 text-white rounded-lg text-sm font-medium transition-colors"
+              >
+                <Save className="w-4 h-4" />
+                {secrets.sendgrid?.public_key ? 'Replace Key' : 'Save Key'}
+              </button>
+
+              <p className="mt-3 text-xs text-slate-500">
+                In SendGrid go to <strong className="text-white">Settings → Mail Settings → Event Webhook</strong>, enable Signed Event Webhook Requests and paste the verification key here.
+              </p>
+            </div>
+          </div>
+        </div>
+
         <div className="space-y-6 mb-8">
           <h2 className="text-2xl font-bold text-white">Webhook URLs</h2>
 
@@ -281,8 +499,15 @@ export default function WebhookConfiguration({ onBack }: WebhookConfigurationPro
                       </div>
                     </div>
 
-                    <div className="mt-3 text-xs text-slate-500">
-                      Optional: Add more headers if needed for authentication
+                    <div className="space-y-2 mt-2">
+                      <div className="bg-slate-900 p-2 rounded">
+                        <div className="text-xs text-slate-500">Header Name:</div>
+                        <div className="text-white font-mono text-xs">X-Webhook-Secret</div>
+                      </div>
+                      <div className="bg-slate-900 p-2 rounded">
+                        <div className="text-xs text-slate-500">Header Value:</div>
+                        <div className="text-white font-mono text-xs">The Acumatica shared secret from Webhook Security above</div>
+                      </div>
                     </div>
                   </div>
                 </div>
@@ -316,6 +541,16 @@ export default function WebhookConfiguration({ onBack }: WebhookConfigurationPro
         <div className="bg-slate-800 border border-slate-700 rounded-lg p-6">
           <div className="flex items-center justify-between mb-6">
             <h2 className="text-2xl font-bold text-white">Recent Webhook Activity</h2>
+            <div className="flex items-center gap-3">
+            <label className="flex items-center gap-2 text-sm text-slate-300">
+              <input
+                type="checkbox"
+                checked={rejectedOnly}
+                onChange={(e) => setRejectedOnly(e.target.checked)}
+                className="rounded border-slate-600 bg-slate-900"
+              />
+              Rejected only
+            </label>
             <button
               onClick={loadWebhookLogs}
               disabled={loading}
@@ -324,6 +559,7 @@ export default function WebhookConfiguration({ onBack }: WebhookConfigurationPro
               <Activity className={`w-5 h-5 ${loading ? 'animate-spin' : ''}`} />
               Refresh
             </button>
+            </div>
           </div>
 
           {loading ? (
@@ -362,11 +598,13 @@ export default function WebhookConfiguration({ onBack }: WebhookConfigurationPro
                           {log.status === 'processed' && 'Successfully processed'}
                           {log.status === 'pending_credentials' && 'Awaiting Acumatica credentials'}
                           {log.status === 'error' && (log.error_message || 'Processing failed')}
+                          {log.status === 'rejected' && `Rejected: ${log.rejection_reason || log.error_message || 'verification failed'}`}
                         </p>
                       </div>
                     </div>
                     <div className="text-right text-sm text-slate-400">
                       {formatDateTimeUtil(log.received_at)}
+                      {log.source_ip && <div className="text-xs text-slate-500 font-mono">{log.source_ip}</div>}
                     </div>
                   </div>
                 </div>
@@ -0,0 +1,110 @@
+import { useState, useEffect } from 'react';
+import { ListChecks, Loader2 } from 'lucide-react';
+import { supabase } from '../lib/supabase';
+import { formatDateTime, getLocalToday } from '../lib/dateUtils';
+import { WorkQueueCompletion as CollectorCompletion } from './MyAssignments/types';
+
+export default function WorkQueueCompletion() {
+  const [queueDate, setQueueDate] = useState(getLocalToday());
+  const [rows, setRows] = useState<CollectorCompletion[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    loadCompletion();
+  }, [queueDate]);
+
+  const loadCompletion = async () => {
+    try {
+      setLoading(true);
+      const { data, error } = await supabase.rpc('get_work_queue_completion', { p_queue_date: queueDate });
+      if (error) throw error;
+      setRows((data || []) as CollectorCompletion[]);
+    } catch (error) {
+      console.error('Error loading work queue completion:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const totals = rows.reduce(
+    (acc, row) => ({ total: acc.total + row.total_items, completed: acc.completed + row.completed_items }),
+    { total: 0, completed: 0 }
+  );
+
+  return (
+    <div className="p-6">
+      <div className="flex justify-between items-center mb-6">
+        <div>
+          <h2 className="text-xl font-semibold">Daily Queue Completion</h2>
+          <p className="text-sm text-gray-500 mt-1">
+            {totals.total > 0
+              ? `${totals.completed} of ${totals.total} queued accounts worked across ${rows.length} collector(s)`
+              : 'How far each collector got through their ranked daily queue'}
+          </p>
+        </div>
+        <input
+          type="date"
+          value={queueDate}
+          max={getLocalToday()}
+          onChange={e => e.target.value && setQueueDate(e.target.value)}
+          className="px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+        />
+      </div>
+
+      {loading ? (
+        <div className="flex justify-center py-12">
+          <Loader2 className="w-6 h-6 animate-spin text-gray-400" />
+        </div>
+      ) : rows.length === 0 ? (
+        <div className="text-center py-12 text-gray-500">
+          <ListChecks className="w-10 h-10 mx-auto mb-3 text-gray-300" />
+          No work queues were generated for this date
+        </div>
+      ) : (
+        <div className="overflow-x-auto">
+          <table className="w-full">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase">Collector</th>
+                <th className="px-4 py-3 text-right text-xs font-medium text-gray-500 uppercase">Queued</th>
+                <th className="px-4 py-3 text-right text-xs font-medium text-gray-500 uppercase">Done</th>
+                <th className="px-4 py-3 text-right text-xs font-medium text-gray-500 uppercase">Snoozed</th>
+                <th className="px-4 py-3 text-right text-xs font-medium text-gray-500 uppercase">Pending</th>
+                <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase w-56">Completion</th>
+                <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase">Last Completed</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-200">
+              {rows.map(row => {
+                const rate = Number(row.completion_rate) || 0;
+                return (
+                  <tr key={row.collector_id} className="hover:bg-gray-50">
+                    <td className="px-4 py-3 text-sm font-medium text-gray-900">{row.collector_name}</td>
+                    <td className="px-4 py-3 text-sm text-right tabular-nums">{row.total_items}</td>
+                    <td className="px-4 py-3 text-sm text-right tabular-nums text-green-700">{row.completed_items}</td>
+                    <td className="px-4 py-3 text-sm text-right tabular-nums text-amber-600">{row.snoozed_items}</td>
+                    <td className="px-4 py-3 text-sm text-right tabular-nums text-gray-600">{row.pending_items}</td>
+                    <td className="px-4 py-3">
+                      <div className="flex items-center gap-2">
+                        <div className="flex-1 h-2 bg-gray-100 rounded-full overflow-hidden">
+                          <div
+                            className={`h-full rounded-full ${rate >= 80 ? 'bg-green-500' : rate >= 50 ? 'bg-yellow-500' : 'bg-red-500'}`}
+                            style={{ width: `${rate}%` }}
+                          />
+                        </div>
+                        <span className="text-xs text-gray-600 tabular-nums w-12 text-right">{rate}%</span>
+                      </div>
+                    </td>
+                    <td className="px-4 py-3 text-sm text-gray-600">
+                      {row.last_completed_at ? formatDateTime(row.last_completed_at) : '--'}
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,249 @@
+import { useState, useEffect } from 'react';
+import { supabase } from '../lib/supabase';
+import { useAuth } from '../contexts/AuthContext';
+import { RefreshCw, Upload, AlertCircle, CheckCircle, Clock, XCircle, RotateCcw, SkipForward } from 'lucide-react';
+import { formatDateTime as formatDateTimeUtil } from '../lib/dateUtils';
+
+interface WritebackItem {
+  id: string;
+  action_type: 'memo' | 'promise_date' | 'color_status';
+  invoice_reference: string;
+  invoice_type: string | null;
+  payload: any;
+  status: 'pending' | 'processing' | 'pushed' | 'failed' | 'skipped';
+  attempts: number;
+  max_attempts: number;
+  next_attempt_at: string;
+  last_error: string | null;
+  pushed_at: string | null;
+  created_at: string;
+}
+
+const STATUS_STYLES: Record<WritebackItem['status'], string> = {
+  pending: 'bg-yellow-500/20 text-yellow-400 border-yellow-500/30',
+  processing: 'bg-blue-500/20 text-blue-400 border-blue-500/30',
+  pushed: 'bg-green-500/20 text-green-400 border-green-500/30',
+  failed: 'bg-red-500/20 text-red-400 border-red-500/30',
+  skipped: 'bg-slate-500/20 text-slate-400 border-slate-500/30',
+};
+
+const STATUS_ICONS: Record<WritebackItem['status'], JSX.Element> = {
+  pending: <Clock className="w-3 h-3" />,
+  processing: <RefreshCw className="w-3 h-3 animate-spin" />,
+  pushed: <CheckCircle className="w-3 h-3" />,
+  failed: <XCircle className="w-3 h-3" />,
+  skipped: <SkipForward className="w-3 h-3" />,
+};
+
+function describePayload(item: WritebackItem): string {
+  switch (item.action_type) {
+    case 'memo':
+      return item.payload?.memo_text || '';
+    case 'promise_date':
+      return item.payload?.promise_date
+        ? `Promise date ${String(item.payload.promise_date).split('T')[0]}`
+        : 'Promise date cleared';
+    case 'color_status':
+      return `Color status ${item.payload?.old_color_status || 'none'} → ${item.payload?.color_status || 'none'}`;
+  }
+}
+
+export default function WritebackQueuePanel() {
+  const { profile } = useAuth();
+  const canManage = profile?.role === 'admin' || profile?.role === 'manager';
+  const [items, setItems] = useState<WritebackItem[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [filterStatus, setFilterStatus] = useState<string>('all');
+  const [runningSync, setRunningSync] = useState(false);
+
+  useEffect(() => {
+    loadItems();
+  }, [filterStatus]);
+
+  const loadItems = async () => {
+    try {
+      setLoading(true);
+      let query = supabase
+        .from('acumatica_writeback_queue')
+        .select('id, action_type, invoice_reference, invoice_type, payload, status, attempts, max_attempts, next_attempt_at, last_error, pushed_at, created_at')
+        .order('created_at', { ascending: false })
+        .limit(500);
+
+      if (filterStatus !== 'all') {
+        query = query.eq('status', filterStatus);
+      }
+
+      const { data, error } = await query;
+      if (error) throw error;
+      setItems(data || []);
+    } catch (error) {
+      console.error('Error loading writeback queue:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleRetry = async (item: WritebackItem) => {
+    const { error } = await supabase
+      .from('acumatica_writeback_queue')
+      .update({
+        status: 'pending',
+        attempts: 0,
+        next_attempt_at: new Date().toISOString(),
+        updated_at: new Date().toISOString(),
+      })
+      .eq('id', item.id);
+
+    if (error) {
+      console.error('Error retrying writeback item:', error);
+      return;
+    }
+    await loadItems();
+  };
+
+  const handleSkip = async (item: WritebackItem) => {
+    const { error } = await supabase
+      .from('acumatica_writeback_queue')
+      .update({ status: 'skipped', last_error: 'Skipped manually', updated_at: new Date().toISOString() })
+      .eq('id', item.id);
+
+    if (error) {
+      console.error('Error skipping writeback item:', error);
+      return;
+    }
+    await loadItems();
+  };
+
+  const handleRunNow = async () => {
+    setRunningSync(true);
+    try {
+      const { error } = await supabase.functions.invoke('acumatica-writeback-sync', { body: {} });
+      if (error) throw error;
+      await loadItems();
+    } catch (error) {
+      console.error('Error running writeback sync:', error);
+    } finally {
+      setRunningSync(false);
+    }
+  };
+
+  const counts = items.reduce<Record<string, number>>((acc, item) => {
+    acc[item.status] = (acc[item.status] || 0) + 1;
+    return acc;
+  }, {});
+
+  return (
+    <div className="space-y-4">
+      <div className="bg-slate-800/50 backdrop-blur-sm border border-slate-700 rounded-xl p-6">
+        <div className="flex items-center justify-between gap-4 flex-wrap">
+          <div>
+            <h2 className="text-lg font-semibold text-white flex items-center gap-2">
+              <Upload className="w-5 h-5 text-slate-400" />
+              Write-back to Acumatica
+            </h2>
+            <p className="text-slate-400 text-sm mt-1">
+              Collector memos, promise dates and color status pushed onto Acumatica invoices
+            </p>
+          </div>
+          <div className="flex items-center gap-3">
+            <select
+              value={filterStatus}
+              onChange={(e) => setFilterStatus(e.target.value)}
+              className="bg-slate-700/50 border border-slate-600 rounded-lg px-4 py-2 text-white focus:outline-none focus:ring-2 focus:ring-blue-500"
+            >
+              <option value="all">All Statuses</option>
+              <option value="pending">Pending</option>
+              <option value="processing">Processing</option>
+              <option value="pushed">Pushed</option>
+              <option value="failed">Failed</option>
+              <option value="skipped">Skipped</option>
+            </select>
+            {canManage && (
+              <button
+                onClick={handleRunNow}
+                disabled={runningSync}
+                className="flex items-center gap-2 px-4 py-2 bg-blue-600 hover:bg-blue-500 text-white rounded-lg transition-colors disabled:opacity-50"
+              >
+                <Upload className={`w-4 h-4 ${runningSync ? 'animate-pulse' : ''}`} />
+                Push Now
+              </button>
+            )}
+          </div>
+        </div>
+
+        <div className="grid grid-cols-2 md:grid-cols-5 gap-3 mt-4">
+          {(['pending', 'processing', 'pushed', 'failed', 'skipped'] as const).map(status => (
+            <div key={status} className={`rounded-lg border px-3 py-2 ${STATUS_STYLES[status]}`}>
+              <div className="text-xs uppercase">{status}</div>
+              <div className="text-xl font-semibold">{counts[status] || 0}</div>
+            </div>
+          ))}
+        </div>
+      </div>
+
+      {loading ? (
+        <div className="flex items-center justify-center py-12">
+          <RefreshCw className="w-8 h-8 text-blue-500 animate-spin" />
+        </div>
+      ) : items.length === 0 ? (
+        <div className="text-center py-12">
+          <AlertCircle className="w-12 h-12 text-slate-600 mx-auto mb-4" />
+          <p className="text-slate-400">No write-back entries found</p>
+        </div>
+      ) : (
+        <div className="space-y-2">
+          {items.map(item => (
+            <div key={item.id} className="bg-slate-800/50 backdrop-blur-sm border border-slate-700 rounded-xl p-4">
+              <div className="flex items-start justify-between gap-4">
+                <div className="flex-1 min-w-0">
+                  <div className="flex items-center gap-2 mb-1 flex-wrap">
+                    <span className="text-white font-medium">{item.invoice_reference}</span>
+                    <span className="px-2 py-1 rounded-md text-xs bg-slate-700/50 text-slate-300">
+                      {item.action_type.replace('_', ' ')}
+                    </span>
+                    <span className={`inline-flex items-center gap-1 px-2 py-1 rounded-md text-xs font-medium border ${STATUS_STYLES[item.status]}`}>
+                      {STATUS_ICONS[item.status]}
+                      {item.status}
+                    </span>
+                  </div>
+                  <p className="text-slate-300 text-sm mb-2 truncate">{describePayload(item)}</p>
+                  <div className="flex items-center gap-3 text-xs text-slate-500 flex-wrap">
+                    <span>Queued {formatDateTimeUtil(item.created_at)}</span>
+                    <span>Attempts {item.attempts}/{item.max_attempts}</span>
+                    {item.pushed_at && <span className="text-green-400">Pushed {formatDateTimeUtil(item.pushed_at)}</span>}
+                    {item.status === 'pending' && item.attempts > 0 && (
+                      <span>Next try {formatDateTimeUtil(item.next_attempt_at)}</span>
+                    )}
+                  </div>
+                  {item.last_error && item.status !== 'pushed' && (
+                    <p className="text-red-400 text-xs mt-2 break-words">{item.last_error}</p>
+                  )}
+                </div>
+                {canManage && (item.status === 'failed' || item.status === 'pending') && (
+                  <div className="flex items-center gap-2">
+                    {item.status === 'failed' && (
+                      <button
+                        onClick={() => handleRetry(item)}
+                        className="p-2 hover:bg-slate-700/50 rounded-lg transition-colors text-slate-300"
+                        title="Retry"
+                      >
+                        <RotateCcw className="w-4 h-4" />
+                      </button>
+                    )}
+                    <button
+                      onClick={() => handleSkip(item)}
+                      className="p-2 hover:bg-slate-700/50 rounded-lg transition-colors text-slate-300"
+                      title="Skip"
+                    >
+                      <SkipForward className="w-4 h-4" />
+                    </button>
+                  </div>
+                )}
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,99 @@
+import { createContext, useContext, useState, useEffect, useCallback, useMemo, ReactNode } from 'react';
+import { supabase } from '../lib/supabase';
+import { useAuth } from './AuthContext';
+import type { PermissionKey, PermissionAction } from '../lib/permissions';
+
+interface EffectivePermission {
+  permission_key: string;
+  can_view: boolean;
+  can_create: boolean;
+  can_edit: boolean;
+  can_delete: boolean;
+}
+
+interface PermissionsContextType {
+  loading: boolean;
+  customRoleName: string | null;
+  can: (permissionKey: PermissionKey, action?: PermissionAction) => boolean;
+  reload: () => Promise<void>;
+}
+
+const PermissionsContext = createContext<PermissionsContextType | undefined>(undefined);
+
+export function PermissionsProvider({ children }: { children: ReactNode }) {
+  const { profile } = useAuth();
+  const [permissions, setPermissions] = useState<Map<string, EffectivePermission>>(new Map());
+  const [customRoleName, setCustomRoleName] = useState<string | null>(null);
+  const [loading, setLoading] = useState(true);
+
+  const profileId = profile?.id;
+  const customRoleId = profile?.custom_role_id || null;
+  const isAdmin = profile?.role === 'admin';
+
+  const reload = useCallback(async () => {
+    if (!profileId) {
+      setPermissions(new Map());
+      setCustomRoleName(null);
+      setLoading(false);
+      return;
+    }
+
+    setLoading(true);
+    try {
+      const [permissionsResult, roleResult] = await Promise.all([
+        supabase.rpc('get_user_permissions', { user_uuid: profileId }),
+        customRoleId
+          ? supabase.from('custom_roles').select('name').eq('id', customRoleId).maybeSingle()
+          : Promise.resolve({ data: null }),
+      ]);
+      if (permissionsResult.error) throw permissionsResult.error;
+      const rows = (permissionsResult.data || []) as EffectivePermission[];
+      setPermissions(new Map(rows.map(row => [row.permission_key, row])));
+      setCustomRoleName(roleResult.data?.name || null);
+    } catch (error) {
+      console.error('Error loading permissions:', error);
+      setPermissions(new Map());
+    } finally {
+      setLoading(false);
+    }
+  }, [profileId, customRoleId]);
+
+  useEffect(() => {
+    reload();
+  }, [reload]);
+
+  const can = useCallback((permissionKey: PermissionKey, action: PermissionAction = 'view') => {
+    if (isAdmin) return true;
+    const permission = permissions.get(permissionKey);
+    if (!permission) return false;
+    switch (action) {
+      case 'view':
+        return permission.can_view;
+      case 'create':
+        return permission.can_create;
+      case 'edit':
+        return permission.can_edit;
+      case 'delete':
+        return permission.can_delete;
+    }
+  }, [isAdmin, permissions]);
+
+  const contextValue = useMemo(
+    () => ({ loading, customRoleName, can, reload }),
+    [loading, customRoleName, can, reload]
+  );
+
+  return (
+    <PermissionsContext.Provider value={contextValue}>
+      {children}
+    </PermissionsContext.Provider>
+  );
+}
+
+export function usePermissions() {
+  const context = useContext(PermissionsContext);
+  if (context === undefined) {
+    throw new Error('usePermissions must be used within a PermissionsProvider');
+  }
+  return context;
+}
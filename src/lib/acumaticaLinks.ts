@@ -31,11 +31,19 @@ export function getAcumaticaInvoiceUrl(referenceNumber: string, type?: string):
   return `${BASE}?${params.toString()}`;
 }
 
-export function getAcumaticaPaymentUrl(referenceNumber: string): string {
+// Same rule on AR302000 (Payments and Applications): Payment -> PMT, Prepayment -> PPM.
+const AR_PAYMENT_DOC_TYPE: Record<string, string> = {
+  'Payment': 'PMT',
+  'Prepayment': 'PPM',
+  PMT: 'PMT', PPM: 'PPM',
+};
+
+export function getAcumaticaPaymentUrl(referenceNumber: string, type?: string): string {
+  const docType = (type && AR_PAYMENT_DOC_TYPE[type.trim()]) || 'PMT';
   const params = new URLSearchParams({
     CompanyID: COMPANY,
     ScreenId: 'AR302000',
-    DocType: 'PMT',
+    DocType: docType,
     RefNbr: referenceNumber,
   });
   return `${BASE}?${params.toString()}`;
@@ -0,0 +1,113 @@
+import { supabase } from './supabase';
+
+export interface ArMetricSnapshot {
+  id: string;
+  organization_id: string;
+  collector_id: string | null;
+  snapshot_date: string;
+  customer_count: number;
+  ar_balance: number;
+  overdue_balance: number;
+  credit_sales: number;
+  collections: number;
+  dso: number | null;
+  add_days: number | null;
+  cei: number | null;
+  promises_due: number;
+  promises_kept: number;
+  promise_kept_rate: number | null;
+  touched_payments: number;
+  touch_to_payment_days: number | null;
+  captured_at: string;
+}
+
+export type ArMetricKey = 'dso' | 'cei' | 'add_days' | 'promise_kept_rate' | 'touch_to_payment_days';
+
+export interface ArMetricDefinition {
+  key: ArMetricKey;
+  label: string;
+  unit: 'days' | 'percent';
+  higherIsBetter: boolean;
+  color: string;
+  description: string;
+}
+
+export const AR_METRICS: ArMetricDefinition[] = [
+  {
+    key: 'dso',
+    label: 'DSO',
+    unit: 'days',
+    higherIsBetter: false,
+    color: '#3b82f6',
+    description: 'Days Sales Outstanding: open AR over the last 90 days of credit sales',
+  },
+  {
+    key: 'cei',
+    label: 'CEI',
+    unit: 'percent',
+    higherIsBetter: true,
+    color: '#10b981',
+    description: 'Collection Effectiveness Index: share of collectible AR collected in the last 30 days',
+  },
+  {
+    key: 'add_days',
+    label: 'ADD',
+    unit: 'days',
+    higherIsBetter: false,
+    color: '#ef4444',
+    description: 'Average Days Delinquent: DSO minus best possible DSO',
+  },
+  {
+    key: 'promise_kept_rate',
+    label: 'Promises Kept',
+    unit: 'percent',
+    higherIsBetter: true,
+    color: '#8b5cf6',
+    description: 'Ticket promise dates in the last 90 days that were paid on time (3 day grace)',
+  },
+  {
+    key: 'touch_to_payment_days',
+    label: 'Touch to Payment',
+    unit: 'days',
+    higherIsBetter: false,
+    color: '#f59e0b',
+    description: 'Average days from the last collector touch to the customer\'s payment',
+  },
+];
+
+export function formatMetric(value: number | null | undefined, unit: ArMetricDefinition['unit']): string {
+  if (value === null || value === undefined) return '—';
+  return unit === 'percent' ? `${Number(value).toFixed(1)}%` : `${Number(value).toFixed(1)}d`;
+}
+
+/**
+ * Snapshot history for the organization-wide row (collectorId null) or one
+ * collector, oldest first. Pass organizationId when the caller can see more
+ * than one organization (super admins).
+ */
+export async function fetchArMetricHistory(options: {
+  collectorId: string | null;
+  days: number;
+  organizationId?: string;
+}): Promise<ArMetricSnapshot[]> {
+  const since = new Date();
+  since.setDate(since.getDate() - options.days);
+
+  let query = supabase
+    .from('ar_metric_snapshots')
+    .select('*')
+    .gte('snapshot_date', since.toISOString().split('T')[0])
+    .order('snapshot_date', { ascending: true });
+
+  query = options.collectorId
+    ? query.eq('collector_id', options.collectorId)
+    : query.is('collector_id', null);
+
+  if (options.organizationId) {
+    query = query.eq('organization_id', options.organizationId);
+  }
+
+  const { data, error } = await query;
+  if (error) throw error;
+  return data || [];
+}
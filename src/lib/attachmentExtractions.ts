@@ -0,0 +1,124 @@
+import { supabase } from './supabase';
+
+export type ExtractionStatus = 'pending' | 'processing' | 'completed' | 'failed' | 'unsupported';
+
+export type ExtractedDocumentType = 'remittance_advice' | 'census' | 'other';
+
+export type RemittanceMatchStatus = 'matched' | 'other_customer' | 'not_found';
+
+export interface RemittanceLine {
+  id: string;
+  line_number: number;
+  invoice_reference: string;
+  amount_paid: number | null;
+  invoice_id: string | null;
+  invoice_customer: string | null;
+  invoice_balance: number | null;
+  match_status: RemittanceMatchStatus;
+}
+
+export interface ExtractedFields {
+  summary?: string | null;
+  payer_name?: string | null;
+  payment_date?: string | null;
+  check_number?: string | null;
+  total_amount?: number | null;
+  facility_name?: string | null;
+  patient_count?: number | null;
+  admissions?: number | null;
+  discharges?: number | null;
+  patient_days?: number | null;
+}
+
+export interface AttachmentExtraction {
+  id: string;
+  storage_path: string;
+  filename: string;
+  acumatica_customer_id: string | null;
+  requested_month: number;
+  requested_year: number;
+  status: ExtractionStatus;
+  attempts: number;
+  document_type: ExtractedDocumentType | null;
+  confidence: number | null;
+  extracted_data: ExtractedFields;
+  document_month: number | null;
+  document_year: number | null;
+  month_matches: boolean | null;
+  completed_tracking: boolean;
+  error: string | null;
+  extracted_at: string | null;
+  attachment_remittance_lines: RemittanceLine[];
+}
+
+export const EXTRACTION_STATUS_LABELS: Record<ExtractionStatus, string> = {
+  pending: 'Waiting to be read',
+  processing: 'Reading',
+  completed: 'Read',
+  failed: 'Could not read',
+  unsupported: 'File type not supported',
+};
+
+export const DOCUMENT_TYPE_LABELS: Record<ExtractedDocumentType, string> = {
+  remittance_advice: 'Remittance advice',
+  census: 'Monthly census',
+  other: 'Other document',
+};
+
+export const DOCUMENT_TYPE_STYLES: Record<ExtractedDocumentType, string> = {
+  remittance_advice: 'bg-emerald-100 text-emerald-800',
+  census: 'bg-blue-100 text-blue-800',
+  other: 'bg-gray-100 text-gray-700',
+};
+
+export const MATCH_STATUS_LABELS: Record<RemittanceMatchStatus, string> = {
+  matched: 'Matched',
+  other_customer: 'Other customer',
+  not_found: 'Not found',
+};
+
+const IN_BATCH_SIZE = 200;
+
+/**
+ * Extraction results for the given storage paths, keyed by path. Files
+ * stored before extraction existed have no entry.
+ */
+export async function fetchExtractionsByPath(storagePaths: string[]): Promise<Map<string, AttachmentExtraction>> {
+  const extractions = new Map<string, AttachmentExtraction>();
+  const unique = Array.from(new Set(storagePaths.filter(Boolean)));
+
+  for (let i = 0; i < unique.length; i += IN_BATCH_SIZE) {
+    const { data, error } = await supabase
+      .from('attachment_extractions')
+      .select('*, attachment_remittance_lines(*)')
+      .in('storage_path', unique.slice(i, i + IN_BATCH_SIZE));
+    if (error) throw error;
+    (data as AttachmentExtraction[] || []).forEach(extraction => {
+      extraction.attachment_remittance_lines = [...(extraction.attachment_remittance_lines || [])]
+        .sort((a, b) => a.line_number - b.line_number);
+      extractions.set(extraction.storage_path, extraction);
+    });
+  }
+  return extractions;
+}
+
+/**
+ * Puts an extraction back in the queue and reads it right away instead of
+ * waiting for the next scheduled run.
+ */
+export async function rerunExtraction(extractionId: string): Promise<void> {
+  const { error } = await supabase.rpc('requeue_attachment_extraction', { p_extraction_id: extractionId });
+  if (error) throw error;
+
+  const { data, error: invokeError } = await supabase.functions.invoke('extract-attachment-data', {
+    body: { extractionId },
+  });
+  if (invokeError) throw invokeError;
+  if (data && !data.success) throw new Error(data.error || 'Extraction failed');
+}
+
+export function formatDocumentPeriod(extraction: AttachmentExtraction): string | null {
+  if (!extraction.document_month || !extraction.document_year) return null;
+  return new Date(Date.UTC(extraction.document_year, extraction.document_month - 1, 1))
+    .toLocaleDateString('en-US', { month: 'long', year: 'numeric', timeZone: 'UTC' });
+}
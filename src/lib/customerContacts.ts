@@ -0,0 +1,149 @@
+import { supabase } from './supabase';
+
+export type ContactRole = 'ap' | 'billing' | 'controller' | 'owner' | 'facility_admin';
+export type ContactChannel = 'email' | 'phone' | 'sms';
+
+export interface CustomerContact {
+  id: string;
+  organization_id: string;
+  customer_id: string;
+  source: 'acumatica' | 'local';
+  acumatica_contact_id: string | null;
+  first_name: string | null;
+  last_name: string | null;
+  display_name: string;
+  job_title: string | null;
+  email: string | null;
+  phone: string | null;
+  mobile_phone: string | null;
+  roles: ContactRole[];
+  preferred_channel: ContactChannel;
+  is_primary: boolean;
+  do_not_contact: boolean;
+  do_not_contact_reason: string | null;
+  notes: string | null;
+  is_active: boolean;
+  acumatica_last_modified: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export const CONTACT_ROLE_LABELS: Record<ContactRole, string> = {
+  ap: 'AP clerk',
+  billing: 'Billing',
+  controller: 'Controller',
+  owner: 'Owner',
+  facility_admin: 'Facility admin',
+};
+
+export const CONTACT_CHANNEL_LABELS: Record<ContactChannel, string> = {
+  email: 'Email',
+  phone: 'Phone',
+  sms: 'Text message',
+};
+
+/** Fields collectors may set on any contact, synced or local. */
+export type ContactPreferences = Pick<
+  CustomerContact,
+  'roles' | 'preferred_channel' | 'is_primary' | 'do_not_contact' | 'do_not_contact_reason' | 'notes'
+>;
+
+/** Fields that Acumatica owns for synced contacts. */
+export type ContactDetails = Pick<
+  CustomerContact,
+  'first_name' | 'last_name' | 'job_title' | 'email' | 'phone' | 'mobile_phone'
+>;
+
+export const contactName = (contact: Pick<CustomerContact, 'first_name' | 'last_name'>) =>
+  [contact.first_name?.trim(), contact.last_name?.trim()].filter(Boolean).join(' ');
+
+export async function fetchCustomerContacts(customerId: string): Promise<CustomerContact[]> {
+  const { data, error } = await supabase
+    .from('customer_contacts')
+    .select('*')
+    .eq('customer_id', customerId)
+    .order('is_primary', { ascending: false })
+    .order('display_name');
+  if (error) throw error;
+  return data || [];
+}
+
+/** Contacts that can be emailed: active, with an address and not flagged do-not-contact. */
+export const emailableContacts = (contacts: CustomerContact[]) =>
+  contacts.filter(contact => contact.is_active && contact.email && !contact.do_not_contact);
+
+/** Addresses of the emailable contacts holding any of the roles. */
+export const contactEmailsForRoles = (contacts: CustomerContact[], roles: ContactRole[]) => [
+  ...new Set(
+    emailableContacts(contacts)
+      .filter(contact => contact.roles.some(role => roles.includes(role)))
+      .map(contact => contact.email as string)
+  ),
+];
+
+// A customer has at most one primary contact
+async function clearPrimary(customerId: string, exceptId?: string) {
+  let query = supabase
+    .from('customer_contacts')
+    .update({ is_primary: false })
+    .eq('customer_id', customerId)
+    .eq('is_primary', true);
+  if (exceptId) query = query.neq('id', exceptId);
+  const { error } = await query;
+  if (error) throw error;
+}
+
+export async function createLocalContact(
+  organizationId: string,
+  customerId: string,
+  details: ContactDetails,
+  preferences: ContactPreferences,
+  userId: string
+): Promise<void> {
+  if (preferences.is_primary) await clearPrimary(customerId);
+  const { error } = await supabase.from('customer_contacts').insert({
+    organization_id: organizationId,
+    customer_id: customerId,
+    source: 'local',
+    ...details,
+    display_name: contactName(details) || details.email || 'Unnamed contact',
+    email: details.email?.trim().toLowerCase() || null,
+    ...preferences,
+    do_not_contact_reason: preferences.do_not_contact ? preferences.do_not_contact_reason : null,
+    created_by: userId,
+    updated_by: userId,
+  });
+  if (error) throw error;
+}
+
+/**
+ * Saves a contact. Details are only written for local contacts; a synced
+ * contact's name, email and phones are changed in Acumatica.
+ */
+export async function updateContact(
+  contact: CustomerContact,
+  details: ContactDetails | null,
+  preferences: ContactPreferences,
+  userId: string
+): Promise<void> {
+  if (preferences.is_primary && !contact.is_primary) await clearPrimary(contact.customer_id, contact.id);
+  const values = {
+    ...preferences,
+    do_not_contact_reason: preferences.do_not_contact ? preferences.do_not_contact_reason : null,
+    updated_by: userId,
+    ...(details && contact.source === 'local'
+      ? {
+          ...details,
+          display_name: contactName(details) || details.email || contact.display_name,
+          email: details.email?.trim().toLowerCase() || null,
+        }
+      : {}),
+  };
+  const { error } = await supabase.from('customer_contacts').update(values).eq('id', contact.id);
+  if (error) throw error;
+}
+
+export async function deleteLocalContact(contactId: string): Promise<void> {
+  const { error } = await supabase.from('customer_contacts').delete().eq('id', contactId);
+  if (error) throw error;
+}
@@ -0,0 +1,146 @@
+import { supabase } from './supabase';
+
+export type PdfDocumentType = 'statement' | 'invoice';
+
+export interface PdfTemplate {
+  id: string;
+  organization_id: string;
+  name: string;
+  document_type: PdfDocumentType;
+  is_default: boolean;
+  logo_path: string | null;
+  company_name: string;
+  company_address: string;
+  company_phone: string | null;
+  company_email: string | null;
+  remit_to_name: string;
+  remit_to_address: string;
+  accent_color: string;
+  header_note: string | null;
+  footer_note: string | null;
+  show_aging_summary: boolean;
+  show_invoice_table: boolean;
+  show_payment_coupon: boolean;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface CustomerDocument {
+  id: string;
+  customer_id: string;
+  document_type: PdfDocumentType;
+  invoice_reference_number: string | null;
+  pdf_template_id: string | null;
+  storage_path: string;
+  filename: string;
+  file_size: number;
+  total_balance: number | null;
+  invoice_count: number | null;
+  source: 'email' | 'download';
+  customer_email_log_id: string | null;
+  generated_by: string | null;
+  created_at: string;
+}
+
+export interface RenderedCustomerPdf {
+  documentId: string | null;
+  filename: string;
+  blob: Blob;
+}
+
+export const DOCUMENT_BUCKET = 'customer-documents';
+
+export const PDF_DOCUMENT_TYPE_LABELS: Record<PdfDocumentType, string> = {
+  statement: 'Statement',
+  invoice: 'Invoice',
+};
+
+export const DOCUMENT_SOURCE_LABELS: Record<CustomerDocument['source'], string> = {
+  email: 'Emailed',
+  download: 'Downloaded',
+};
+
+function base64ToBlob(base64: string): Blob {
+  const binary = atob(base64);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+  return new Blob([bytes], { type: 'application/pdf' });
+}
+
+/**
+ * Renders a customer's statement (or one invoice) on the server. The PDF is
+ * archived against the customer before it is returned.
+ */
+export async function renderCustomerPdf(options: {
+  customerId: string;
+  documentType?: PdfDocumentType;
+  invoiceReference?: string;
+  templateId?: string | null;
+}): Promise<RenderedCustomerPdf> {
+  const { data, error } = await supabase.functions.invoke('render-customer-pdf', {
+    body: {
+      customerId: options.customerId,
+      documentType: options.documentType || 'statement',
+      invoiceReference: options.invoiceReference,
+      templateId: options.templateId || undefined,
+    },
+  });
+  if (error) throw error;
+  if (!data?.success) throw new Error(data?.error || 'Failed to render PDF');
+  return { documentId: data.documentId, filename: data.filename, blob: base64ToBlob(data.pdfBase64) };
+}
+
+/** Renders unsaved template settings against sample data; nothing is archived. */
+export async function previewPdfTemplate(template: Partial<PdfTemplate> & { document_type: PdfDocumentType }): Promise<Blob> {
+  const { data, error } = await supabase.functions.invoke('render-customer-pdf', {
+    body: {
+      preview: true,
+      documentType: template.document_type,
+      templateId: template.id,
+      template,
+    },
+  });
+  if (error) throw error;
+  if (!data?.success) throw new Error(data?.error || 'Failed to render preview');
+  return base64ToBlob(data.pdfBase64);
+}
+
+export async function fetchPdfTemplates(): Promise<PdfTemplate[]> {
+  const { data, error } = await supabase
+    .from('pdf_templates')
+    .select('*')
+    .order('document_type')
+    .order('is_default', { ascending: false })
+    .order('name');
+  if (error) throw error;
+  return data || [];
+}
+
+export async function fetchCustomerDocuments(customerId: string): Promise<CustomerDocument[]> {
+  const { data, error } = await supabase
+    .from('customer_documents')
+    .select('*')
+    .eq('customer_id', customerId)
+    .order('created_at', { ascending: false });
+  if (error) throw error;
+  return data || [];
+}
+
+export async function openCustomerDocument(storagePath: string): Promise<void> {
+  const { data, error } = await supabase.storage
+    .from(DOCUMENT_BUCKET)
+    .createSignedUrl(storagePath, 300);
+  if (error) throw error;
+  window.open(data.signedUrl, '_blank');
+}
+
+export function saveBlob(blob: Blob, filename: string) {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  URL.revokeObjectURL(url);
+}
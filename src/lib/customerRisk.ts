@@ -0,0 +1,101 @@
+import { supabase } from './supabase';
+
+export type RiskLevel = 'low' | 'medium' | 'high' | 'critical';
+
+export type RiskFactorKey =
+  | 'days_to_pay_trend'
+  | 'overdue_percentage'
+  | 'payment_amount_drop'
+  | 'credit_utilization'
+  | 'payment_frequency_change'
+  | 'broken_promises'
+  | 'dispute_frequency';
+
+export interface RiskFactor {
+  factor: RiskFactorKey;
+  label: string;
+  value: number | null;
+  points: number;
+  max_points: number;
+  detail: string;
+}
+
+export interface CustomerRiskScore {
+  customer_id: string;
+  customer_name: string | null;
+  score: number;
+  risk_level: RiskLevel;
+  factors: RiskFactor[];
+  previous_score: number | null;
+  score_date: string;
+  computed_at: string;
+}
+
+export interface CustomerRiskHistoryPoint {
+  score_date: string;
+  score: number;
+  risk_level: RiskLevel;
+  factors: RiskFactor[];
+}
+
+export const RISK_LEVEL_LABELS: Record<RiskLevel, string> = {
+  low: 'Low',
+  medium: 'Medium',
+  high: 'High',
+  critical: 'Critical',
+};
+
+export const RISK_LEVEL_STYLES: Record<RiskLevel, string> = {
+  low: 'bg-green-100 text-green-700',
+  medium: 'bg-yellow-100 text-yellow-800',
+  high: 'bg-orange-100 text-orange-700',
+  critical: 'bg-red-100 text-red-700',
+};
+
+export const RISK_LEVEL_COLORS: Record<RiskLevel, string> = {
+  low: '#16a34a',
+  medium: '#ca8a04',
+  high: '#ea580c',
+  critical: '#dc2626',
+};
+
+// Lower bound of each level; mirrors compute_customer_risk_score()
+export const RISK_LEVEL_THRESHOLDS: Record<Exclude<RiskLevel, 'low'>, number> = {
+  medium: 25,
+  high: 50,
+  critical: 70,
+};
+
+const PAGE_SIZE = 1000;
+
+/**
+ * Latest nightly risk score of every scored customer in the organization,
+ * keyed by customer id. Customers without open invoices or recent payments
+ * are not scored and are missing from the map.
+ */
+export async function fetchCustomerRiskScores(): Promise<Map<string, CustomerRiskScore>> {
+  const scores = new Map<string, CustomerRiskScore>();
+  for (let from = 0; ; from += PAGE_SIZE) {
+    const { data, error } = await supabase
+      .from('customer_risk_scores')
+      .select('customer_id, customer_name, score, risk_level, factors, previous_score, score_date, computed_at')
+      .order('customer_id')
+      .range(from, from + PAGE_SIZE - 1);
+    if (error) throw error;
+    (data || []).forEach(row => scores.set(row.customer_id, row as CustomerRiskScore));
+    if (!data || data.length < PAGE_SIZE) break;
+  }
+  return scores;
+}
+
+export async function fetchCustomerRiskHistory(customerId: string, days = 180): Promise<CustomerRiskHistoryPoint[]> {
+  const since = new Date(Date.now() - days * 24 * 60 * 60 * 1000).toISOString().split('T')[0];
+  const { data, error } = await supabase
+    .from('customer_risk_score_history')
+    .select('score_date, score, risk_level, factors')
+    .eq('customer_id', customerId)
+    .gte('score_date', since)
+    .order('score_date', { ascending: true });
+  if (error) throw error;
+  return (data || []) as CustomerRiskHistoryPoint[];
+}
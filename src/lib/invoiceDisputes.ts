@@ -0,0 +1,82 @@
+import { supabase } from './supabase';
+
+export const ACTIVE_DISPUTE_STATUSES = ['open', 'investigating', 'awaiting_customer'];
+
+const PAGE_SIZE = 1000;
+const IN_BATCH_SIZE = 200;
+
+/**
+ * Reference numbers of invoices under an active dispute. Pass the invoices
+ * you care about to limit the lookup; with no argument every disputed invoice
+ * in the organization is returned.
+ */
+export async function fetchDisputedInvoiceRefs(referenceNumbers?: string[]): Promise<Set<string>> {
+  const refs = new Set<string>();
+
+  if (referenceNumbers) {
+    for (let i = 0; i < referenceNumbers.length; i += IN_BATCH_SIZE) {
+      const batch = referenceNumbers.slice(i, i + IN_BATCH_SIZE);
+      const { data, error } = await supabase
+        .from('invoice_dispute_invoices')
+        .select('invoice_reference_number, dispute:invoice_disputes!inner(status)')
+        .in('dispute.status', ACTIVE_DISPUTE_STATUSES)
+        .in('invoice_reference_number', batch);
+      if (error) throw error;
+      (data || []).forEach((row: any) => refs.add(row.invoice_reference_number));
+    }
+    return refs;
+  }
+
+  let from = 0;
+  let hasMore = true;
+  while (hasMore) {
+    const { data, error } = await supabase
+      .from('invoice_dispute_invoices')
+      .select('invoice_reference_number, dispute:invoice_disputes!inner(status)')
+      .in('dispute.status', ACTIVE_DISPUTE_STATUSES)
+      .range(from, from + PAGE_SIZE - 1);
+    if (error) throw error;
+    (data || []).forEach((row: any) => refs.add(row.invoice_reference_number));
+    hasMore = !!data && data.length === PAGE_SIZE;
+    from += PAGE_SIZE;
+  }
+  return refs;
+}
+
+export const DISPUTE_ATTACHMENT_BUCKET = 'invoice-dispute-attachments';
+
+/**
+ * Uploads supporting documents under the dispute's folder and records them
+ * in invoice_dispute_attachments. Storage policies key off the first path
+ * segment, so the dispute id must lead the path.
+ */
+export async function uploadDisputeAttachments(disputeId: string, files: File[], userId?: string) {
+  for (const file of files) {
+    const sanitizedName = file.name.replace(/[^a-zA-Z0-9.-]/g, '_');
+    const storagePath = `${disputeId}/${Date.now()}_${sanitizedName}`;
+
+    const { error: uploadError } = await supabase.storage
+      .from(DISPUTE_ATTACHMENT_BUCKET)
+      .upload(storagePath, file, { contentType: file.type || 'application/octet-stream' });
+    if (uploadError) throw uploadError;
+
+    const { error: insertError } = await supabase
+      .from('invoice_dispute_attachments')
+      .insert({
+        dispute_id: disputeId,
+        file_name: file.name,
+        storage_path: storagePath,
+        content_type: file.type || null,
+        file_size: file.size,
+        uploaded_by: userId || null,
+      });
+    if (insertError) throw insertError;
+
+    await supabase.from('invoice_dispute_events').insert({
+      dispute_id: disputeId,
+      event_type: 'attachment_added',
+      to_value: file.name,
+      created_by: userId || null,
+    });
+  }
+}
@@ -20,6 +20,26 @@ export const COMPONENT_LABELS: Record<LockableComponent, { name: string; descrip
   payment_analytics: { name: 'Payment Analytics', description: 'Payment analytics dashboard and breakdown' },
 };
 
+// Keys of `system_permissions` checked directly by the app. Each carries
+// view / create / edit / delete flags resolved per role (see PermissionsContext).
+export const PERMISSIONS = {
+  CUSTOMERS_ALL: 'customers_all',
+  CUSTOMERS_FILES: 'customers_files',
+  CUSTOMER_CONTACTS: 'customer_contacts',
+  AUTO_TICKET_RULES: 'auto_ticket_rules',
+  STATEMENTS: 'statements',
+  INVOICE_DISPUTES: 'invoice_disputes',
+  CREDIT_MANAGEMENT: 'credit_management',
+  API_KEYS: 'api_keys',
+  EMAIL_INTENT_REVIEW: 'email_intent_review',
+  ADMIN_USERS: 'admin_users',
+  ADMIN_ROLES: 'admin_roles',
+} as const;
+
+export type PermissionKey = typeof PERMISSIONS[keyof typeof PERMISSIONS];
+
+export type PermissionAction = 'view' | 'create' | 'edit' | 'delete';
+
 interface ComponentLock {
   component_key: string;
   is_locked: boolean;
@@ -0,0 +1,397 @@
+import * as XLSX from 'xlsx';
+import { supabase } from './supabase';
+
+export type RemittanceFormat = 'bai2' | 'csv';
+
+export interface InvoiceHint {
+  reference: string;
+  amount: number | null;
+}
+
+export interface ParsedRemittanceLine {
+  payer_name: string | null;
+  payer_account: string | null;
+  check_number: string | null;
+  amount: number;
+  invoice_hints: InvoiceHint[];
+  remittance_text: string | null;
+}
+
+export interface ParsedDeposit {
+  deposit_date: string;
+  bank_account: string | null;
+  bank_reference: string | null;
+  amount: number;
+  lines: ParsedRemittanceLine[];
+}
+
+export interface ParsedRemittanceFile {
+  format: RemittanceFormat;
+  deposits: ParsedDeposit[];
+  warnings: string[];
+}
+
+export interface PendingCashEntry {
+  line_id: string;
+  customer_id: string | null;
+  invoice_reference_number: string | null;
+  amount: number;
+  deposit_date: string;
+  check_number: string | null;
+  payer_name: string | null;
+}
+
+const roundCents = (value: number) => Math.round(value * 100) / 100;
+
+function parseAmount(raw: unknown): number | null {
+  const text = String(raw ?? '').trim();
+  if (!text) return null;
+  const negative = /^\(.*\)$/.test(text) || text.startsWith('-');
+  const value = parseFloat(text.replace(/[^0-9.]/g, ''));
+  if (isNaN(value)) return null;
+  return roundCents(negative ? -value : value);
+}
+
+function toIsoDate(raw: unknown): string | null {
+  const text = String(raw ?? '').trim();
+  let match = text.match(/^(\d{4})-(\d{1,2})-(\d{1,2})/);
+  if (match) return `${match[1]}-${match[2].padStart(2, '0')}-${match[3].padStart(2, '0')}`;
+  match = text.match(/^(\d{1,2})\/(\d{1,2})\/(\d{2}|\d{4})$/);
+  if (match) {
+    const year = match[3].length === 2 ? `20${match[3]}` : match[3];
+    return `${year}-${match[1].padStart(2, '0')}-${match[2].padStart(2, '0')}`;
+  }
+  match = text.match(/^(\d{4})(\d{2})(\d{2})$/);
+  if (match) return `${match[1]}-${match[2]}-${match[3]}`;
+  return null;
+}
+
+// --- BAI2 ---------------------------------------------------------------
+
+// Credit detail type codes are 100-399. 115 is a lockbox deposit whose
+// individual checks follow as 116 items.
+const BAI2_LOCKBOX_DEPOSIT = '115';
+const BAI2_LOCKBOX_ITEM = '116';
+
+const bai2Field = (value: string | undefined) => (value || '').replace(/\/$/, '').trim();
+
+function bai2Payer(text: string) {
+  const name = text.match(
+    /(?:ORIG(?:INATOR)?\s*CO\s*NAME|ORIGINATOR|ORG|B\/O)\s*[:=]\s*([A-Z0-9&.,'\- ]+?)(?=\s+[A-Z][A-Z ]{1,20}\s*[:=]|$)/i
+  );
+  const account = text.match(/IND\s*ID\s*[:=]\s*([^\s/]+)/i);
+  return {
+    payer_name: name ? name[1].trim() : null,
+    payer_account: account ? account[1].trim() : null,
+  };
+}
+
+/**
+ * Parses a BAI2 prior-day / intraday file. Every credit detail (16) record
+ * becomes a deposit with one remittance line, except lockbox deposits (115)
+ * whose 116 item records become that deposit's lines. Addenda text on the
+ * 16 record and its 88 continuations is kept for invoice matching.
+ */
+export function parseBai2(content: string): ParsedRemittanceFile {
+  const warnings: string[] = [];
+  const records: string[] = [];
+
+  content.split(/\r?\n/).forEach(raw => {
+    const line = raw.trim();
+    if (!line) return;
+    if (line.startsWith('88,') && records.length > 0) {
+      records[records.length - 1] = `${records[records.length - 1].replace(/\/$/, '')} ${line.slice(3)}`;
+    } else {
+      records.push(line);
+    }
+  });
+
+  if (!records[0]?.startsWith('01,')) {
+    throw new Error('Not a BAI2 file: the first record must be a 01 file header');
+  }
+
+  const deposits: ParsedDeposit[] = [];
+  let asOfDate: string | null = null;
+  let account: string | null = null;
+  let lockbox: ParsedDeposit | null = null;
+  let skippedDebits = 0;
+
+  records.forEach(record => {
+    const fields = record.split(',');
+    switch (fields[0]) {
+      case '02': {
+        const yymmdd = bai2Field(fields[4]);
+        asOfDate = /^\d{6}$/.test(yymmdd)
+          ? `20${yymmdd.slice(0, 2)}-${yymmdd.slice(2, 4)}-${yymmdd.slice(4, 6)}`
+          : null;
+        break;
+      }
+      case '03':
+        account = bai2Field(fields[1]) || null;
+        lockbox = null;
+        break;
+      case '16': {
+        let i = 1;
+        const typeCode = bai2Field(fields[i++]);
+        const cents = parseInt(bai2Field(fields[i++]), 10);
+        const fundsType = bai2Field(fields[i++]).toUpperCase();
+        if (fundsType === 'S') i += 3;
+        else if (fundsType === 'V') i += 2;
+        else if (fundsType === 'D') i += 1 + 2 * (parseInt(bai2Field(fields[i]), 10) || 0);
+        const bankReference = bai2Field(fields[i++]) || null;
+        const customerReference = bai2Field(fields[i++]) || null;
+        const text = fields.slice(i).join(',').replace(/\/$/, '').trim();
+
+        const code = parseInt(typeCode, 10);
+        if (!(code >= 100 && code < 400)) {
+          skippedDebits++;
+          return;
+        }
+        if (isNaN(cents) || !asOfDate) {
+          warnings.push(`Skipped unreadable 16 record: ${record.slice(0, 60)}`);
+          return;
+        }
+
+        const line: ParsedRemittanceLine = {
+          ...bai2Payer(text),
+          check_number: customerReference,
+          amount: roundCents(cents / 100),
+          invoice_hints: [],
+          remittance_text: text || null,
+        };
+
+        if (typeCode === BAI2_LOCKBOX_ITEM && lockbox) {
+          lockbox.lines.push(line);
+          return;
+        }
+
+        const deposit: ParsedDeposit = {
+          deposit_date: asOfDate,
+          bank_account: account,
+          bank_reference: bankReference,
+          amount: line.amount,
+          lines: typeCode === BAI2_LOCKBOX_DEPOSIT ? [] : [line],
+        };
+        deposits.push(deposit);
+        lockbox = typeCode === BAI2_LOCKBOX_DEPOSIT ? deposit : null;
+        if (!lockbox && typeCode === BAI2_LOCKBOX_ITEM) {
+          warnings.push(`Lockbox item ${customerReference || bankReference || ''} has no 115 deposit; imported on its own`);
+        }
+        break;
+      }
+      default:
+        break;
+    }
+  });
+
+  deposits.forEach(deposit => {
+    if (deposit.lines.length === 0) {
+      deposit.lines.push({
+        payer_name: null,
+        payer_account: null,
+        check_number: deposit.bank_reference,
+        amount: deposit.amount,
+        invoice_hints: [],
+        remittance_text: null,
+      });
+      return;
+    }
+    const itemTotal = roundCents(deposit.lines.reduce((sum, l) => sum + l.amount, 0));
+    if (Math.abs(itemTotal - deposit.amount) >= 0.01) {
+      warnings.push(
+        `Lockbox deposit ${deposit.bank_reference || ''} totals ${deposit.amount.toFixed(2)} but its items add up to ${itemTotal.toFixed(2)}`
+      );
+    }
+  });
+
+  if (skippedDebits > 0) {
+    warnings.push(`${skippedDebits} debit or non-credit transaction${skippedDebits === 1 ? '' : 's'} ignored`);
+  }
+
+  return { format: 'bai2', deposits, warnings };
+}
+
+// --- CSV lockbox ----------------------------------------------------------
+
+const CSV_COLUMNS = {
+  date: ['depositdate', 'date', 'batchdate', 'processdate', 'paymentdate', 'checkdate'],
+  batch: ['batch', 'batchid', 'batchnumber', 'deposit', 'depositid', 'depositnumber', 'lockboxbatch'],
+  bankAccount: ['bankaccount', 'lockbox', 'lockboxnumber'],
+  check: ['checknumber', 'check', 'checkno', 'checknum', 'itemnumber', 'item', 'paymentnumber'],
+  amount: ['checkamount', 'paymentamount', 'amount', 'remitamount'],
+  invoiceAmount: ['invoiceamount', 'appliedamount', 'amountpaid', 'paidamount', 'remittanceamount'],
+  payer: ['payername', 'payer', 'remitter', 'remittername', 'customername', 'name', 'drawer'],
+  account: ['customerid', 'customernumber', 'customerno', 'customer', 'payeraccount', 'accountnumber'],
+  invoice: ['invoicenumber', 'invoice', 'invoiceno', 'invoicenum', 'invoiceref', 'documentnumber'],
+  memo: ['memo', 'remittance', 'description', 'notes', 'comment'],
+};
+
+type CsvColumn = keyof typeof CSV_COLUMNS;
+
+const normalizeHeader = (header: string) => header.toLowerCase().replace(/[^a-z0-9]/g, '');
+
+/**
+ * Parses a lockbox / remittance CSV. Columns are recognised by common header
+ * names. A check that pays several invoices may span several rows (same
+ * check number, one invoice per row); those rows are combined into one
+ * remittance line whose invoice hints carry the per-invoice amounts.
+ */
+export function parseLockboxCsv(content: string): ParsedRemittanceFile {
+  const warnings: string[] = [];
+  const workbook = XLSX.read(content, { type: 'string', raw: true });
+  const sheet = workbook.Sheets[workbook.SheetNames[0]];
+  const rows = XLSX.utils.sheet_to_json<Record<string, unknown>>(sheet, { defval: '', raw: false });
+
+  if (rows.length === 0) {
+    throw new Error('The CSV file has no data rows');
+  }
+
+  const headers = Object.keys(rows[0]);
+  const columns = {} as Record<CsvColumn, string | undefined>;
+  (Object.keys(CSV_COLUMNS) as CsvColumn[]).forEach(key => {
+    for (const alias of CSV_COLUMNS[key]) {
+      const header = headers.find(h => normalizeHeader(h) === alias);
+      if (header && !Object.values(columns).includes(header)) {
+        columns[key] = header;
+        break;
+      }
+    }
+  });
+
+  if (!columns.date) throw new Error('Could not find a deposit date column');
+  if (!columns.amount && !columns.invoiceAmount) throw new Error('Could not find an amount column');
+
+  const cell = (row: Record<string, unknown>, key: CsvColumn) =>
+    columns[key] ? String(row[columns[key] as string] ?? '').trim() : '';
+
+  const depositMap = new Map<string, ParsedDeposit>();
+  const lineMap = new Map<string, ParsedRemittanceLine>();
+  // Lines without a check amount column are the sum of their invoice rows
+  const summedLines = new Set<ParsedRemittanceLine>();
+
+  rows.forEach((row, index) => {
+    const rowNumber = index + 2;
+    const depositDate = toIsoDate(cell(row, 'date'));
+    if (!depositDate) {
+      if (Object.values(row).some(v => String(v).trim())) {
+        warnings.push(`Row ${rowNumber}: unreadable date "${cell(row, 'date')}", skipped`);
+      }
+      return;
+    }
+
+    const checkAmount = columns.amount ? parseAmount(cell(row, 'amount')) : null;
+    const invoiceAmount = columns.invoiceAmount ? parseAmount(cell(row, 'invoiceAmount')) : null;
+    if (checkAmount === null && invoiceAmount === null) {
+      warnings.push(`Row ${rowNumber}: no amount, skipped`);
+      return;
+    }
+
+    const batch = cell(row, 'batch');
+    const depositKey = `${depositDate}|${batch}`;
+    let deposit = depositMap.get(depositKey);
+    if (!deposit) {
+      deposit = {
+        deposit_date: depositDate,
+        bank_account: cell(row, 'bankAccount') || null,
+        bank_reference: batch || null,
+        amount: 0,
+        lines: [],
+      };
+      depositMap.set(depositKey, deposit);
+    }
+
+    const checkNumber = cell(row, 'check');
+    const invoices = cell(row, 'invoice').split(/[;,\s]+/).filter(Boolean);
+    const hints: InvoiceHint[] = invoices.map(reference => ({
+      reference,
+      amount: invoices.length === 1 ? invoiceAmount : null,
+    }));
+
+    const lineKey = checkNumber ? `${depositKey}|${checkNumber}|${cell(row, 'account') || cell(row, 'payer')}` : `${depositKey}|row${rowNumber}`;
+    const existing = lineMap.get(lineKey);
+    if (existing) {
+      existing.invoice_hints.push(...hints);
+      if (summedLines.has(existing)) existing.amount = roundCents(existing.amount + (invoiceAmount ?? 0));
+      const memo = cell(row, 'memo');
+      if (memo && !existing.remittance_text?.includes(memo)) {
+        existing.remittance_text = [existing.remittance_text, memo].filter(Boolean).join(' ');
+      }
+      return;
+    }
+
+    const line: ParsedRemittanceLine = {
+      payer_name: cell(row, 'payer') || null,
+      payer_account: cell(row, 'account') || null,
+      check_number: checkNumber || null,
+      amount: (checkAmount ?? invoiceAmount) as number,
+      invoice_hints: hints,
+      remittance_text: cell(row, 'memo') || null,
+    };
+    if (checkAmount === null) summedLines.add(line);
+    lineMap.set(lineKey, line);
+    deposit.lines.push(line);
+  });
+
+  const deposits = Array.from(depositMap.values())
+    .map(deposit => {
+      deposit.lines = deposit.lines.filter(line => {
+        if (line.amount > 0) return true;
+        warnings.push(`Check ${line.check_number || ''} has a zero or negative amount, skipped`);
+        return false;
+      });
+      deposit.amount = roundCents(deposit.lines.reduce((sum, l) => sum + l.amount, 0));
+      return deposit;
+    })
+    .filter(deposit => deposit.lines.length > 0);
+
+  return { format: 'csv', deposits, warnings };
+}
+
+/**
+ * Picks the parser from the content: BAI2 files always start with a 01
+ * record, anything else is treated as CSV.
+ */
+export function parseRemittanceFile(content: string): ParsedRemittanceFile {
+  return /^\s*01,/.test(content) ? parseBai2(content) : parseLockboxCsv(content);
+}
+
+export async function hashRemittanceFile(content: string): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(content));
+  return Array.from(new Uint8Array(digest))
+    .map(b => b.toString(16).padStart(2, '0'))
+    .join('');
+}
+
+// --- Pending cash ---------------------------------------------------------
+
+const IN_BATCH_SIZE = 200;
+
+/**
+ * Cash received at the bank and matched to these invoices but not yet
+ * posted in Acumatica, summed per invoice reference number.
+ */
+export async function fetchPendingCashByInvoice(referenceNumbers: string[]): Promise<Map<string, number>> {
+  const totals = new Map<string, number>();
+  const unique = Array.from(new Set(referenceNumbers.filter(Boolean)));
+
+  for (let i = 0; i < unique.length; i += IN_BATCH_SIZE) {
+    const { data, error } = await supabase.rpc('get_pending_cash', {
+      p_invoice_refs: unique.slice(i, i + IN_BATCH_SIZE),
+    });
+    if (error) throw error;
+    (data as PendingCashEntry[] || []).forEach(entry => {
+      if (!entry.invoice_reference_number) return;
+      totals.set(
+        entry.invoice_reference_number,
+        roundCents((totals.get(entry.invoice_reference_number) || 0) + Number(entry.amount))
+      );
+    });
+  }
+  return totals;
+}
+
+export async function fetchCustomerPendingCash(customerId: string): Promise<PendingCashEntry[]> {
+  const { data, error } = await supabase.rpc('get_pending_cash', { p_customer_id: customerId });
+  if (error) throw error;
+  return (data || []) as PendingCashEntry[];
+}
@@ -10,6 +10,7 @@ export interface StatementInvoice {
   description: string;
   days_overdue: number;
   type: string;
+  disputed?: boolean;
 }
 
 export interface StatementCustomerData {
@@ -31,7 +32,7 @@ const fmtDate = (s: string) => {
   return d.toLocaleDateString('en-US', { month: '2-digit', day: '2-digit', year: 'numeric' });
 };
 
-function getAgingBucket(daysOverdue: number): string {
+export function getAgingBucket(daysOverdue: number): string {
   if (daysOverdue <= 0) return 'Current';
   if (daysOverdue <= 30) return '1-30';
   if (daysOverdue <= 60) return '31-60';
@@ -39,12 +40,15 @@ function getAgingBucket(daysOverdue: number): string {
   return '90+';
 }
 
-function calculateAging(invoices: StatementInvoice[]) {
-  const buckets = { current: 0, '1_30': 0, '31_60': 0, '61_90': 0, '90_plus': 0 };
+// Invoices under an active dispute are reported in their own bucket rather
+// than by age.
+export function calculateAging(invoices: StatementInvoice[]) {
+  const buckets = { current: 0, '1_30': 0, '31_60': 0, '61_90': 0, '90_plus': 0, disputed: 0 };
   invoices.forEach(inv => {
     if (inv.balance <= 0) return;
     const d = inv.days_overdue;
-    if (d <= 0) buckets.current += inv.balance;
+    if (inv.disputed) buckets.disputed += inv.balance;
+    else if (d <= 0) buckets.current += inv.balance;
     else if (d <= 30) buckets['1_30'] += inv.balance;
     else if (d <= 60) buckets['31_60'] += inv.balance;
     else if (d <= 90) buckets['61_90'] += inv.balance;
@@ -53,6 +57,38 @@ function calculateAging(invoices: StatementInvoice[]) {
   return buckets;
 }
 
+function getInvoiceAgingLabel(inv: StatementInvoice): string {
+  if (inv.balance < 0) return 'Credit';
+  if (inv.disputed) return 'Disputed';
+  return getAgingBucket(inv.days_overdue);
+}
+
+/** Maps open acumatica_invoices rows the way statements show them: credits negative, disputes flagged. */
+export function mapStatementInvoices(data: any[], disputedRefs: Set<string> = new Set()): StatementInvoice[] {
+  const today = new Date();
+  return data.map((inv: any) => {
+    const dueDate = inv.due_date ? new Date(inv.due_date) : today;
+    const daysOverdue = Math.max(0, Math.floor((today.getTime() - dueDate.getTime()) / 86400000));
+    const isCredit = inv.type === 'Credit Memo' || inv.type === 'Credit WO';
+    const rawAmount = Number(inv.amount) || Number(inv.dac_total) || 0;
+    const rawBalance = Number(inv.balance) || 0;
+    return {
+      reference_number: inv.reference_number,
+      date: inv.date,
+      due_date: inv.due_date,
+      amount: isCredit ? -Math.abs(rawAmount) : rawAmount,
+      balance: isCredit ? -Math.abs(rawBalance) : rawBalance,
+      status: inv.status,
+      description: inv.description || '',
+      days_overdue: isCredit ? 0 : daysOverdue,
+      type: inv.type || 'Invoice',
+      disputed: !isCredit && disputedRefs.has(inv.reference_number),
+    };
+  });
+}
+
+// Scheduled statement runs build the same workbook server-side
+// (supabase/functions/_shared/statement-excel.ts); change both together.
 export function generateCustomerStatementExcel(customer: StatementCustomerData): Uint8Array {
   const wb = XLSX.utils.book_new();
   const aging = calculateAging(customer.invoices);
@@ -69,13 +105,14 @@ export function generateCustomerStatementExcel(customer: StatementCustomerData):
     ['Total Open Balance:', fmtCurrency(customer.total_balance)],
     [],
     ['Aging Summary'],
-    ['Current', '1-30 Days', '31-60 Days', '61-90 Days', '90+ Days', 'Total'],
+    ['Current', '1-30 Days', '31-60 Days', '61-90 Days', '90+ Days', 'Disputed', 'Total'],
     [
       fmtCurrency(aging.current),
       fmtCurrency(aging['1_30']),
       fmtCurrency(aging['31_60']),
       fmtCurrency(aging['61_90']),
       fmtCurrency(aging['90_plus']),
+      fmtCurrency(aging.disputed),
       fmtCurrency(customer.total_balance),
     ],
     [],
@@ -96,7 +133,7 @@ export function generateCustomerStatementExcel(customer: StatementCustomerData):
       fmtCurrency(inv.amount),
       fmtCurrency(inv.balance),
       inv.balance < 0 ? '' : inv.days_overdue,
-      inv.balance < 0 ? 'Credit' : getAgingBucket(inv.days_overdue),
+      getInvoiceAgingLabel(inv),
     ]);
   });
 
@@ -128,7 +165,7 @@ export function generateBatchStatementExcel(customers: StatementCustomerData[]):
     ['Customer Statement Summary'],
     [`Generated: ${today}`],
     [],
-    ['Customer ID', 'Customer Name', 'Email', 'Terms', 'Open Invoices', 'Total Balance', 'Max Days Overdue', 'Current', '1-30', '31-60', '61-90', '90+'],
+    ['Customer ID', 'Customer Name', 'Email', 'Terms', 'Open Invoices', 'Total Balance', 'Max Days Overdue', 'Current', '1-30', '31-60', '61-90', '90+', 'Disputed'],
   ];
 
   const sorted = [...customers].sort((a, b) => b.total_balance - a.total_balance);
@@ -150,6 +187,7 @@ export function generateBatchStatementExcel(customers: StatementCustomerData[]):
       fmtCurrency(aging['31_60']),
       fmtCurrency(aging['61_90']),
       fmtCurrency(aging['90_plus']),
+      fmtCurrency(aging.disputed),
     ]);
   });
 
@@ -160,7 +198,7 @@ export function generateBatchStatementExcel(customers: StatementCustomerData[]):
   summaryWs['!cols'] = [
     { wch: 16 }, { wch: 30 }, { wch: 28 }, { wch: 12 },
     { wch: 14 }, { wch: 16 }, { wch: 16 },
-    { wch: 14 }, { wch: 14 }, { wch: 14 }, { wch: 14 }, { wch: 14 },
+    { wch: 14 }, { wch: 14 }, { wch: 14 }, { wch: 14 }, { wch: 14 }, { wch: 14 },
   ];
   XLSX.utils.book_append_sheet(wb, summaryWs, 'Summary');
 
@@ -187,7 +225,7 @@ export function generateBatchStatementExcel(customers: StatementCustomerData[]):
         fmtCurrency(inv.amount),
         fmtCurrency(inv.balance),
         inv.balance < 0 ? '' : inv.days_overdue,
-        inv.balance < 0 ? 'Credit' : getAgingBucket(inv.days_overdue),
+        getInvoiceAgingLabel(inv),
       ]);
     });
   });
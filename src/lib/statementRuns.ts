@@ -0,0 +1,226 @@
+import { supabase } from './supabase';
+import { fetchDisputedInvoiceRefs } from './invoiceDisputes';
+import { StatementCustomerData, generateBatchStatementExcel, mapStatementInvoices } from './statementExport';
+
+export type StatementFormat = 'excel' | 'pdf' | 'both';
+export type StatementFrequency = 'monthly' | 'weekly';
+export type StatementRunItemStatus = 'pending' | 'sending' | 'sent' | 'failed' | 'skipped';
+
+export interface StatementDeliveryPreference {
+  id: string;
+  organization_id: string;
+  customer_id: string;
+  recipients: string[];
+  format: StatementFormat;
+  cc_collector: boolean;
+  opted_out: boolean;
+  opt_out_reason: string | null;
+  updated_by: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface StatementCycle {
+  id: string;
+  organization_id: string;
+  name: string;
+  is_active: boolean;
+  frequency: StatementFrequency;
+  day_of_month: number | null;
+  day_of_week: number | null;
+  send_hour: number;
+  template_id: string;
+  min_balance: number;
+  min_days_overdue: number;
+  portal_base_url: string | null;
+  next_run_at: string | null;
+  last_run_at: string | null;
+  created_by: string | null;
+  updated_by: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface StatementRun {
+  id: string;
+  organization_id: string;
+  cycle_id: string | null;
+  cycle_name: string;
+  template_id: string | null;
+  trigger: 'schedule' | 'manual';
+  status: 'running' | 'completed';
+  total_count: number;
+  sent_count: number;
+  failed_count: number;
+  skipped_count: number;
+  started_by: string | null;
+  started_at: string;
+  completed_at: string | null;
+}
+
+export interface StatementRunItem {
+  id: string;
+  run_id: string;
+  customer_id: string;
+  customer_name: string;
+  recipients: string[];
+  cc: string[];
+  format: StatementFormat;
+  balance: number;
+  invoice_count: number;
+  max_days_overdue: number;
+  status: StatementRunItemStatus;
+  skip_reason: string | null;
+  error: string | null;
+  attempts: number;
+  customer_email_log_id: string | null;
+  sent_at: string | null;
+  updated_at: string;
+}
+
+export const STATEMENT_FORMAT_LABELS: Record<StatementFormat, string> = {
+  excel: 'Excel',
+  pdf: 'PDF',
+  both: 'Excel + PDF',
+};
+
+export const RUN_ITEM_STATUS_LABELS: Record<StatementRunItemStatus, string> = {
+  pending: 'Queued',
+  sending: 'Sending',
+  sent: 'Sent',
+  failed: 'Failed',
+  skipped: 'Skipped',
+};
+
+export const WEEKDAY_LABELS = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+
+const IN_BATCH_SIZE = 20;
+
+export async function fetchStatementCycles(): Promise<StatementCycle[]> {
+  const { data, error } = await supabase
+    .from('statement_cycles')
+    .select('*')
+    .order('is_active', { ascending: false })
+    .order('name');
+  if (error) throw error;
+  return data || [];
+}
+
+export async function fetchStatementRuns(limit = 50): Promise<StatementRun[]> {
+  const { data, error } = await supabase
+    .from('statement_runs')
+    .select('*')
+    .order('started_at', { ascending: false })
+    .limit(limit);
+  if (error) throw error;
+  return data || [];
+}
+
+export async function fetchStatementRunItems(runId: string): Promise<StatementRunItem[]> {
+  const { data, error } = await supabase
+    .from('statement_run_items')
+    .select('*')
+    .eq('run_id', runId)
+    .order('customer_name');
+  if (error) throw error;
+  return data || [];
+}
+
+export async function fetchDeliveryPreference(customerId: string): Promise<StatementDeliveryPreference | null> {
+  const { data, error } = await supabase
+    .from('statement_delivery_preferences')
+    .select('*')
+    .eq('customer_id', customerId)
+    .maybeSingle();
+  if (error) throw error;
+  return data;
+}
+
+export async function saveDeliveryPreference(
+  organizationId: string,
+  customerId: string,
+  preference: Pick<StatementDeliveryPreference, 'recipients' | 'format' | 'cc_collector' | 'opted_out' | 'opt_out_reason'>,
+  userId: string
+): Promise<void> {
+  const { error } = await supabase
+    .from('statement_delivery_preferences')
+    .upsert({
+      organization_id: organizationId,
+      customer_id: customerId,
+      ...preference,
+      opt_out_reason: preference.opted_out ? preference.opt_out_reason : null,
+      updated_by: userId,
+    }, { onConflict: 'organization_id,customer_id' });
+  if (error) throw error;
+}
+
+/** Starts a run of the cycle now; its schedule is left alone. */
+export async function runCycleNow(cycleId: string): Promise<string> {
+  const { data, error } = await supabase.functions.invoke('process-statement-runs', {
+    body: { cycleId },
+  });
+  if (error) throw error;
+  if (!data?.success) throw new Error(data?.error || 'Failed to start statement run');
+  return data.runId;
+}
+
+/** Sends the items again using each customer's current delivery preferences. */
+export async function resendRunItems(itemIds: string[]): Promise<{ sent: number; failed: number }> {
+  const { data, error } = await supabase.functions.invoke('process-statement-runs', {
+    body: { resendItemIds: itemIds },
+  });
+  if (error) throw error;
+  if (!data?.success) throw new Error(data?.error || 'Failed to resend statements');
+  return { sent: data.sent, failed: data.failed };
+}
+
+/**
+ * Combined workbook for the customers a run sent to, built from their
+ * current open invoices.
+ */
+export async function buildRunWorkbook(items: StatementRunItem[]): Promise<Uint8Array> {
+  const sent = items.filter(item => item.status === 'sent');
+  const customerIds = sent.map(item => item.customer_id);
+  const invoiceRows: Record<string, any[]> = {};
+
+  for (let i = 0; i < customerIds.length; i += IN_BATCH_SIZE) {
+    const batch = customerIds.slice(i, i + IN_BATCH_SIZE);
+    const { data, error } = await supabase
+      .from('acumatica_invoices')
+      .select('customer, reference_number, date, due_date, amount, dac_total, balance, status, description, type')
+      .in('customer', batch)
+      .gt('balance', 0)
+      .not('status', 'in', '("Voided","Draft","On Hold")')
+      .order('due_date', { ascending: true });
+    if (error) throw error;
+    (data || []).forEach((inv: any) => {
+      (invoiceRows[inv.customer] ||= []).push(inv);
+    });
+  }
+
+  const allRows = Object.values(invoiceRows).flat();
+  const disputedRefs = await fetchDisputedInvoiceRefs(allRows.map(inv => inv.reference_number));
+  const { data: customers, error } = customerIds.length
+    ? await supabase.from('acumatica_customers').select('customer_id, terms').in('customer_id', customerIds)
+    : { data: [], error: null };
+  if (error) throw error;
+  const terms = new Map((customers || []).map((c: any) => [c.customer_id, c.terms || '']));
+
+  const statements: StatementCustomerData[] = sent.map(item => {
+    const invoices = mapStatementInvoices(invoiceRows[item.customer_id] || [], disputedRefs);
+    const open = invoices.filter(inv => inv.balance > 0);
+    return {
+      customer_id: item.customer_id,
+      customer_name: item.customer_name,
+      email: item.recipients.join(', '),
+      terms: terms.get(item.customer_id) || '',
+      total_balance: open.reduce((sum, inv) => sum + inv.balance, 0),
+      credit_memo_balance: invoices.filter(inv => inv.balance < 0).reduce((sum, inv) => sum + Math.abs(inv.balance), 0),
+      open_invoice_count: open.length,
+      max_days_overdue: open.reduce((max, inv) => Math.max(max, inv.days_overdue), 0),
+      invoices,
+    };
+  });
+
+  return generateBatchStatementExcel(statements);
+}
@@ -71,6 +71,7 @@ export type UserProfile = {
   can_be_assigned_as_collector?: boolean;
   is_super_admin?: boolean;
   organization_id?: string;
+  custom_role_id?: string | null;
   created_at: string;
   updated_at: string;
 };
@@ -0,0 +1,75 @@
+import { supabase } from './supabase';
+
+export type SyncJobStatus = 'queued' | 'running' | 'waiting' | 'succeeded' | 'failed' | 'cancelled';
+
+export type SyncJobEntity = 'customer' | 'invoice' | 'payment' | 'payment_application';
+
+export type SyncJobMode = 'incremental' | 'date_range';
+
+export interface SyncJob {
+  id: string;
+  pipeline_id: string;
+  entity_type: SyncJobEntity;
+  mode: SyncJobMode;
+  params: { start_date?: string; end_date?: string; chunk_days?: number; lookback_minutes?: number };
+  depends_on: string[];
+  status: SyncJobStatus;
+  checkpoint: { window_start?: string; child_job_id?: string; skip?: number };
+  progress: { fetched: number; created: number; updated: number; errors: number };
+  chunks_completed: number;
+  chunks_total: number | null;
+  attempts: number;
+  max_attempts: number;
+  next_attempt_at: string;
+  cancel_requested: boolean;
+  last_error: string | null;
+  created_at: string;
+  started_at: string | null;
+  finished_at: string | null;
+  updated_at: string;
+}
+
+// Dependency order the orchestrator chains pipeline steps in
+export const SYNC_ENTITY_ORDER: SyncJobEntity[] = ['customer', 'invoice', 'payment', 'payment_application'];
+
+export const SYNC_ENTITY_LABELS: Record<SyncJobEntity, string> = {
+  customer: 'Customers',
+  invoice: 'Invoices',
+  payment: 'Payments',
+  payment_application: 'Payment Applications',
+};
+
+export const SYNC_JOB_STATUS_STYLES: Record<SyncJobStatus, string> = {
+  queued: 'bg-gray-100 text-gray-700',
+  running: 'bg-blue-100 text-blue-800',
+  waiting: 'bg-indigo-100 text-indigo-800',
+  succeeded: 'bg-green-100 text-green-800',
+  failed: 'bg-red-100 text-red-800',
+  cancelled: 'bg-yellow-100 text-yellow-800',
+};
+
+const SYNC_JOB_COLUMNS =
+  'id, pipeline_id, entity_type, mode, params, depends_on, status, checkpoint, progress, chunks_completed, chunks_total, attempts, max_attempts, next_attempt_at, cancel_requested, last_error, created_at, started_at, finished_at, updated_at';
+
+export async function fetchSyncJobs(options: { statuses?: SyncJobStatus[]; limit?: number } = {}): Promise<SyncJob[]> {
+  let query = supabase
+    .from('sync_jobs')
+    .select(SYNC_JOB_COLUMNS)
+    .order('created_at', { ascending: false })
+    .limit(options.limit ?? 50);
+  if (options.statuses) {
+    query = query.in('status', options.statuses);
+  }
+  const { data, error } = await query;
+  if (error) throw error;
+  return (data || []) as SyncJob[];
+}
+
+export function describeSyncJobProgress(job: SyncJob): string {
+  if (job.status === 'queued' && job.depends_on.length > 0 && job.chunks_completed === 0) {
+    return 'Waiting for the previous step';
+  }
+  const chunks = job.chunks_total ? `${job.chunks_completed} / ${job.chunks_total} chunks` : `${job.chunks_completed} chunks`;
+  const at = job.checkpoint.window_start && job.status !== 'succeeded' ? ` -- at ${job.checkpoint.window_start}` : '';
+  return `${chunks}${at}`;
+}
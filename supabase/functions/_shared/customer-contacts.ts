@@ -0,0 +1,63 @@
+export const CONTACT_ROLES = ['ap', 'billing', 'controller', 'owner', 'facility_admin'];
+
+export interface ResolvedContact {
+  contact_id: string;
+  organization_id: string;
+  customer_id: string;
+  display_name: string;
+  do_not_contact: boolean;
+}
+
+// Emails of the customer's active contacts holding any of the roles.
+// Contacts flagged do-not-contact are never returned.
+export async function loadContactEmails(
+  supabase: any,
+  organizationId: string,
+  customerId: string,
+  roles: string[]
+): Promise<string[]> {
+  const wanted = roles.filter(role => CONTACT_ROLES.includes(role));
+  if (wanted.length === 0) return [];
+
+  const { data, error } = await supabase.rpc('customer_contact_emails', {
+    p_organization_id: organizationId,
+    p_customer_id: customerId,
+    p_roles: wanted,
+  });
+  if (error) throw error;
+  return data || [];
+}
+
+// Addresses among the customer's contacts that must not be emailed
+export async function loadDoNotContactEmails(
+  supabase: any,
+  organizationId: string,
+  customerId: string
+): Promise<Set<string>> {
+  const { data, error } = await supabase
+    .from('customer_contacts')
+    .select('email')
+    .eq('organization_id', organizationId)
+    .eq('customer_id', customerId)
+    .eq('do_not_contact', true)
+    .not('email', 'is', null);
+  if (error) throw error;
+  return new Set((data || []).map((row: { email: string }) => row.email));
+}
+
+// The contact behind an email address, across every customer. Requires
+// the service role.
+export async function resolveContactByEmail(
+  supabase: any,
+  email: string
+): Promise<ResolvedContact | null> {
+  if (!email) return null;
+  const { data, error } = await supabase
+    .rpc('resolve_contact_by_email', { p_email: email })
+    .maybeSingle();
+  if (error) {
+    console.error('Error resolving contact:', error);
+    return null;
+  }
+  return data ?? null;
+}
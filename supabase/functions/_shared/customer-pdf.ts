@@ -0,0 +1,652 @@
+import { PDFDocument, PDFFont, PDFImage, PDFPage, StandardFonts, rgb } from "npm:pdf-lib@1.17.1";
+
+// Server-side statement / invoice PDFs built from a branded `pdf_templates`
+// row. Shared by render-customer-pdf (downloads, previews) and
+// send-customer-invoice-email (attachments); both archive what they emit.
+
+export type PdfDocumentType = 'statement' | 'invoice';
+
+export interface PdfTemplate {
+  id: string | null;
+  name: string;
+  document_type: PdfDocumentType;
+  logo_path: string | null;
+  company_name: string;
+  company_address: string;
+  company_phone: string | null;
+  company_email: string | null;
+  remit_to_name: string;
+  remit_to_address: string;
+  accent_color: string;
+  header_note: string | null;
+  footer_note: string | null;
+  show_aging_summary: boolean;
+  show_invoice_table: boolean;
+  show_payment_coupon: boolean;
+}
+
+export interface PdfCustomer {
+  customer_id: string;
+  customer_name: string;
+  address_lines: string[];
+  terms: string | null;
+}
+
+export interface PdfInvoice {
+  reference_number: string;
+  type: string | null;
+  date: string | null;
+  due_date: string | null;
+  amount: number;
+  balance: number;
+  description: string | null;
+}
+
+/** A PDF ready to attach or archive; `template` is unset for caller-supplied files. */
+export interface CustomerPdfFile {
+  bytes: Uint8Array;
+  filename: string;
+  template?: PdfTemplate | null;
+  totalBalance: number;
+  invoiceCount: number;
+}
+
+const PAGE_WIDTH = 612;
+const PAGE_HEIGHT = 792;
+const MARGIN = 40;
+const ROW_HEIGHT = 16;
+const COUPON_HEIGHT = 150;
+const FOOTER_HEIGHT = 30;
+const LOGO_MAX_WIDTH = 160;
+const LOGO_MAX_HEIGHT = 50;
+const CREDIT_TYPES = ['Credit Memo', 'Credit WO'];
+const DOCUMENTS_BUCKET = 'customer-documents';
+
+export const AGING_LABELS = ['Current', '1-30 Days', '31-60 Days', '61-90 Days', 'Over 90 Days'];
+
+export const DEFAULT_PDF_TEMPLATE: PdfTemplate = {
+  id: null,
+  name: 'Standard',
+  document_type: 'statement',
+  logo_path: null,
+  company_name: '',
+  company_address: '',
+  company_phone: null,
+  company_email: null,
+  remit_to_name: '',
+  remit_to_address: '',
+  accent_color: '#1e3a8a',
+  header_note: null,
+  footer_note: null,
+  show_aging_summary: true,
+  show_invoice_table: true,
+  show_payment_coupon: true,
+};
+
+const TEMPLATE_COLUMNS = 'id, name, document_type, logo_path, company_name, company_address, company_phone, company_email, remit_to_name, remit_to_address, accent_color, header_note, footer_note, show_aging_summary, show_invoice_table, show_payment_coupon';
+
+const round2 = (value: number) => Math.round(value * 100) / 100;
+
+const formatCurrency = (amount: number) =>
+  new Intl.NumberFormat('en-US', { style: 'currency', currency: 'USD' }).format(amount);
+
+function formatDate(value: string | Date | null): string {
+  if (!value) return '';
+  const date = typeof value === 'string' ? new Date(value.length === 10 ? `${value}T00:00:00Z` : value) : value;
+  if (isNaN(date.getTime())) return '';
+  return date.toLocaleDateString('en-US', { month: '2-digit', day: '2-digit', year: 'numeric', timeZone: 'UTC' });
+}
+
+// The standard fonts only cover WinAnsi; anything else would make pdf-lib throw
+function clean(text: string | null | undefined): string {
+  return (text || '')
+    .replace(/[\u2018\u2019]/g, "'")
+    .replace(/[\u201C\u201D]/g, '"')
+    .replace(/[\u2013\u2014]/g, '-')
+    .replace(/[^\x20-\x7E\u00A0-\u00FF]/g, '');
+}
+
+function hexToRgb(hex: string) {
+  const match = /^#?([0-9a-f]{2})([0-9a-f]{2})([0-9a-f]{2})$/i.exec(hex);
+  if (!match) return rgb(0.12, 0.23, 0.54);
+  return rgb(parseInt(match[1], 16) / 255, parseInt(match[2], 16) / 255, parseInt(match[3], 16) / 255);
+}
+
+function signedBalance(invoice: PdfInvoice): number {
+  return CREDIT_TYPES.includes(invoice.type || '') ? -Math.abs(invoice.balance) : invoice.balance;
+}
+
+function signedAmount(invoice: PdfInvoice): number {
+  return CREDIT_TYPES.includes(invoice.type || '') ? -Math.abs(invoice.amount) : invoice.amount;
+}
+
+/**
+ * Open balance per aging bucket (by days past due as of `asOf`). Credits
+ * count against the current bucket.
+ */
+export function computeAging(invoices: PdfInvoice[], asOf: Date): number[] {
+  const buckets = [0, 0, 0, 0, 0];
+  for (const invoice of invoices) {
+    const balance = signedBalance(invoice);
+    let index = 0;
+    if (balance > 0 && invoice.due_date) {
+      const days = Math.floor((asOf.getTime() - new Date(`${invoice.due_date.slice(0, 10)}T00:00:00Z`).getTime()) / 86400000);
+      index = days <= 0 ? 0 : days <= 30 ? 1 : days <= 60 ? 2 : days <= 90 ? 3 : 4;
+    }
+    buckets[index] = round2(buckets[index] + balance);
+  }
+  return buckets;
+}
+
+interface Fonts {
+  regular: PDFFont;
+  bold: PDFFont;
+}
+
+interface TextOptions {
+  font: PDFFont;
+  size: number;
+  color?: ReturnType<typeof rgb>;
+  align?: 'left' | 'right';
+  maxWidth?: number;
+}
+
+function drawText(page: PDFPage, value: string, x: number, y: number, opts: TextOptions) {
+  let text = clean(value);
+  if (opts.maxWidth && opts.font.widthOfTextAtSize(text, opts.size) > opts.maxWidth) {
+    while (text.length > 1 && opts.font.widthOfTextAtSize(`${text}...`, opts.size) > opts.maxWidth) {
+      text = text.slice(0, -1);
+    }
+    text = `${text.trimEnd()}...`;
+  }
+  const width = opts.font.widthOfTextAtSize(text, opts.size);
+  page.drawText(text, {
+    x: opts.align === 'right' ? x - width : x,
+    y,
+    size: opts.size,
+    font: opts.font,
+    color: opts.color ?? rgb(0.2, 0.25, 0.33),
+  });
+}
+
+function wrapText(value: string, font: PDFFont, size: number, maxWidth: number): string[] {
+  const lines: string[] = [];
+  for (const paragraph of value.split('\n').map(clean)) {
+    let line = '';
+    for (const word of paragraph.split(/\s+/).filter(Boolean)) {
+      const candidate = line ? `${line} ${word}` : word;
+      if (font.widthOfTextAtSize(candidate, size) > maxWidth && line) {
+        lines.push(line);
+        line = word;
+      } else {
+        line = candidate;
+      }
+    }
+    lines.push(line);
+  }
+  return lines;
+}
+
+function addressLines(value: string | null | undefined): string[] {
+  return (value || '').split('\n').map(line => line.trim()).filter(Boolean);
+}
+
+const TABLE_COLUMNS = [
+  { label: 'Invoice #', x: MARGIN + 4, align: 'left' as const, width: 76 },
+  { label: 'Date', x: 124, align: 'left' as const, width: 60 },
+  { label: 'Due Date', x: 188, align: 'left' as const, width: 60 },
+  { label: 'Description', x: 252, align: 'left' as const, width: 170 },
+  { label: 'Amount', x: 500, align: 'right' as const, width: 70 },
+  { label: 'Balance', x: PAGE_WIDTH - MARGIN - 4, align: 'right' as const, width: 70 },
+];
+
+function drawTableHeader(page: PDFPage, y: number, fonts: Fonts, accent: ReturnType<typeof rgb>): number {
+  page.drawRectangle({ x: MARGIN, y: y - 5, width: PAGE_WIDTH - MARGIN * 2, height: ROW_HEIGHT + 2, color: accent });
+  for (const column of TABLE_COLUMNS) {
+    drawText(page, column.label, column.x, y, { font: fonts.bold, size: 8.5, color: rgb(1, 1, 1), align: column.align });
+  }
+  return y - ROW_HEIGHT - 4;
+}
+
+export async function renderCustomerPdf(input: {
+  documentType: PdfDocumentType;
+  template: PdfTemplate;
+  customer: PdfCustomer;
+  invoices: PdfInvoice[];
+  asOf: Date;
+  logo?: { bytes: Uint8Array; mimeType: string } | null;
+}): Promise<Uint8Array> {
+  const { documentType, template, customer, invoices, asOf } = input;
+  const pdf = await PDFDocument.create();
+  pdf.setTitle(`${documentType === 'invoice' ? 'Invoice' : 'Statement'} - ${clean(customer.customer_name)}`);
+  pdf.setProducer(clean(template.company_name) || 'Statement service');
+
+  const fonts: Fonts = {
+    regular: await pdf.embedFont(StandardFonts.Helvetica),
+    bold: await pdf.embedFont(StandardFonts.HelveticaBold),
+  };
+  const accent = hexToRgb(template.accent_color);
+  const muted = rgb(0.45, 0.5, 0.58);
+  const dark = rgb(0.12, 0.16, 0.23);
+  const right = PAGE_WIDTH - MARGIN;
+
+  let logo: PDFImage | null = null;
+  if (input.logo) {
+    try {
+      logo = input.logo.mimeType.includes('png') ? await pdf.embedPng(input.logo.bytes) : await pdf.embedJpg(input.logo.bytes);
+    } catch (error) {
+      console.error('Logo could not be embedded:', error);
+    }
+  }
+
+  const totalDue = round2(invoices.reduce((sum, inv) => sum + signedBalance(inv), 0));
+  const title = documentType === 'invoice' ? 'INVOICE' : 'STATEMENT';
+  const invoice = documentType === 'invoice' ? invoices[0] : null;
+
+  let page = pdf.addPage([PAGE_WIDTH, PAGE_HEIGHT]);
+  let y = PAGE_HEIGHT - MARGIN;
+
+  // ── Header: logo / company on the left, title and document facts on the right
+  let leftY = y;
+  if (logo) {
+    const scale = Math.min(LOGO_MAX_WIDTH / logo.width, LOGO_MAX_HEIGHT / logo.height, 1);
+    const height = logo.height * scale;
+    page.drawImage(logo, { x: MARGIN, y: leftY - height, width: logo.width * scale, height });
+    leftY -= height + 14;
+  } else {
+    leftY -= 14;
+  }
+  if (template.company_name) {
+    drawText(page, template.company_name, MARGIN, leftY, { font: fonts.bold, size: logo ? 10 : 15, color: logo ? dark : accent });
+    leftY -= logo ? 13 : 18;
+  }
+  const companyLines = [
+    ...addressLines(template.company_address),
+    template.company_phone ? `Phone: ${template.company_phone}` : '',
+    template.company_email || '',
+  ].filter(Boolean);
+  for (const line of companyLines) {
+    drawText(page, line, MARGIN, leftY, { font: fonts.regular, size: 9, color: muted });
+    leftY -= 12;
+  }
+
+  let rightY = y - 18;
+  drawText(page, title, right, rightY, { font: fonts.bold, size: 22, color: accent, align: 'right' });
+  rightY -= 22;
+  const facts: [string, string][] = [
+    [documentType === 'invoice' ? 'Invoice Date' : 'Statement Date', formatDate(invoice?.date ?? asOf)],
+    ...(invoice ? [['Invoice #', invoice.reference_number] as [string, string], ['Due Date', formatDate(invoice.due_date)] as [string, string]] : []),
+    ['Customer ID', customer.customer_id],
+    ...(customer.terms ? [['Terms', customer.terms] as [string, string]] : []),
+  ];
+  for (const [label, value] of facts) {
+    drawText(page, `${label}:`, right - 100, rightY, { font: fonts.bold, size: 9, color: muted, align: 'right' });
+    drawText(page, value, right, rightY, { font: fonts.regular, size: 9, color: dark, align: 'right' });
+    rightY -= 13;
+  }
+
+  y = Math.min(leftY, rightY) - 16;
+
+  // ── Bill to / remit to
+  const boxWidth = (PAGE_WIDTH - MARGIN * 2 - 20) / 2;
+  const billTo = [customer.customer_name, ...customer.address_lines];
+  const remitTo = [template.remit_to_name || template.company_name, ...addressLines(template.remit_to_address)].filter(Boolean);
+  const boxLines = Math.max(billTo.length, remitTo.length, 1);
+  const boxHeight = 24 + boxLines * 12;
+  for (const [index, block] of [['BILL TO', billTo], ['REMIT TO', remitTo]].entries()) {
+    const [label, lines] = block as [string, string[]];
+    const x = MARGIN + index * (boxWidth + 20);
+    page.drawRectangle({ x, y: y - boxHeight, width: boxWidth, height: boxHeight, borderColor: rgb(0.85, 0.87, 0.9), borderWidth: 1 });
+    drawText(page, label, x + 8, y - 14, { font: fonts.bold, size: 8, color: accent });
+    lines.forEach((line, lineIndex) => {
+      drawText(page, line, x + 8, y - 28 - lineIndex * 12, {
+        font: lineIndex === 0 ? fonts.bold : fonts.regular, size: 9, color: dark, maxWidth: boxWidth - 16,
+      });
+    });
+  }
+  y -= boxHeight + 18;
+
+  if (template.header_note) {
+    for (const line of wrapText(template.header_note, fonts.regular, 9, PAGE_WIDTH - MARGIN * 2)) {
+      drawText(page, line, MARGIN, y, { font: fonts.regular, size: 9, color: dark });
+      y -= 12;
+    }
+    y -= 8;
+  }
+
+  // ── Aging summary
+  if (template.show_aging_summary && documentType === 'statement') {
+    const aging = computeAging(invoices, asOf);
+    const cells = [...AGING_LABELS.map((label, i) => [label, aging[i]] as [string, number]), ['Total Due', totalDue] as [string, number]];
+    const cellWidth = (PAGE_WIDTH - MARGIN * 2) / cells.length;
+    page.drawRectangle({ x: MARGIN, y: y - 34, width: PAGE_WIDTH - MARGIN * 2, height: 40, borderColor: rgb(0.85, 0.87, 0.9), borderWidth: 1 });
+    page.drawRectangle({ x: MARGIN, y: y - 10, width: PAGE_WIDTH - MARGIN * 2, height: 16, color: rgb(0.95, 0.96, 0.98) });
+    cells.forEach(([label, value], i) => {
+      const center = MARGIN + cellWidth * i + cellWidth / 2;
+      const labelWidth = fonts.bold.widthOfTextAtSize(label, 8);
+      drawText(page, label, center - labelWidth / 2, y - 5, { font: fonts.bold, size: 8, color: muted });
+      const amount = formatCurrency(value);
+      const isTotal = i === cells.length - 1;
+      const amountFont = isTotal ? fonts.bold : fonts.regular;
+      const amountWidth = amountFont.widthOfTextAtSize(amount, 9.5);
+      drawText(page, amount, center - amountWidth / 2, y - 26, {
+        font: amountFont, size: 9.5, color: isTotal ? accent : i >= 3 && value > 0 ? rgb(0.75, 0.15, 0.15) : dark,
+      });
+    });
+    y -= 56;
+  }
+
+  // ── Invoice table
+  const bottomLimit = MARGIN + FOOTER_HEIGHT;
+  if (template.show_invoice_table) {
+    y = drawTableHeader(page, y, fonts, accent);
+    invoices.forEach((inv, index) => {
+      if (y < bottomLimit + ROW_HEIGHT) {
+        page = pdf.addPage([PAGE_WIDTH, PAGE_HEIGHT]);
+        y = PAGE_HEIGHT - MARGIN;
+        drawText(page, `${title} - ${customer.customer_name} (continued)`, MARGIN, y, { font: fonts.bold, size: 10, color: accent });
+        y = drawTableHeader(page, y - 24, fonts, accent);
+      }
+      if (index % 2 === 1) {
+        page.drawRectangle({ x: MARGIN, y: y - 5, width: PAGE_WIDTH - MARGIN * 2, height: ROW_HEIGHT, color: rgb(0.97, 0.98, 0.99) });
+      }
+      const isCredit = CREDIT_TYPES.includes(inv.type || '');
+      const rowColor = isCredit ? rgb(0.11, 0.3, 0.85) : dark;
+      const values = [
+        inv.reference_number,
+        formatDate(inv.date),
+        isCredit ? '' : formatDate(inv.due_date),
+        isCredit ? (inv.description || inv.type || '') : (inv.description || ''),
+        formatCurrency(signedAmount(inv)),
+        formatCurrency(signedBalance(inv)),
+      ];
+      TABLE_COLUMNS.forEach((column, i) => {
+        drawText(page, values[i], column.x, y, {
+          font: i === 5 ? fonts.bold : fonts.regular, size: 8.5, color: rowColor, align: column.align, maxWidth: column.width,
+        });
+      });
+      y -= ROW_HEIGHT;
+    });
+
+    if (y < bottomLimit + 24) {
+      page = pdf.addPage([PAGE_WIDTH, PAGE_HEIGHT]);
+      y = PAGE_HEIGHT - MARGIN;
+    }
+    page.drawLine({ start: { x: MARGIN, y: y + 8 }, end: { x: right, y: y + 8 }, thickness: 1, color: rgb(0.8, 0.83, 0.87) });
+    drawText(page, 'Total Balance Due', 500 - 80, y - 6, { font: fonts.bold, size: 10, color: dark, align: 'right' });
+    drawText(page, formatCurrency(totalDue), right - 4, y - 6, { font: fonts.bold, size: 11, color: accent, align: 'right' });
+    y -= 30;
+  }
+
+  // ── Payment coupon, always at the foot of the last page
+  if (template.show_payment_coupon) {
+    if (y < bottomLimit + COUPON_HEIGHT) {
+      page = pdf.addPage([PAGE_WIDTH, PAGE_HEIGHT]);
+    }
+    const top = bottomLimit + COUPON_HEIGHT - 10;
+    page.drawLine({
+      start: { x: MARGIN, y: top }, end: { x: right, y: top },
+      thickness: 1, color: muted, dashArray: [4, 3],
+    });
+    drawText(page, 'Please detach and return this portion with your payment.', MARGIN, top - 14, { font: fonts.regular, size: 8, color: muted });
+    drawText(page, 'PAYMENT COUPON', right, top - 14, { font: fonts.bold, size: 9, color: accent, align: 'right' });
+
+    const couponFacts: [string, string][] = [
+      ['Customer', customer.customer_name],
+      ['Customer ID', customer.customer_id],
+      invoice ? ['Invoice #', invoice.reference_number] : ['Statement Date', formatDate(asOf)],
+      ['Amount Due', formatCurrency(invoice ? signedBalance(invoice) : totalDue)],
+    ];
+    couponFacts.forEach(([label, value], i) => {
+      const rowY = top - 36 - i * 16;
+      drawText(page, `${label}:`, MARGIN, rowY, { font: fonts.bold, size: 9, color: muted });
+      drawText(page, value, MARGIN + 80, rowY, {
+        font: label === 'Amount Due' ? fonts.bold : fonts.regular, size: 9.5, color: dark, maxWidth: 200,
+      });
+    });
+    drawText(page, 'Amount Enclosed:', MARGIN, top - 36 - couponFacts.length * 16 - 4, { font: fonts.bold, size: 9, color: muted });
+    page.drawLine({
+      start: { x: MARGIN + 80, y: top - 36 - couponFacts.length * 16 - 6 },
+      end: { x: MARGIN + 220, y: top - 36 - couponFacts.length * 16 - 6 },
+      thickness: 0.75, color: dark,
+    });
+
+    const remitX = PAGE_WIDTH / 2 + 30;
+    drawText(page, 'Make checks payable to / mail to:', remitX, top - 36, { font: fonts.bold, size: 9, color: muted });
+    remitTo.forEach((line, i) => {
+      drawText(page, line, remitX, top - 52 - i * 12, {
+        font: i === 0 ? fonts.bold : fonts.regular, size: 9.5, color: dark, maxWidth: right - remitX,
+      });
+    });
+  }
+
+  // ── Footer on every page
+  const pages = pdf.getPages();
+  pages.forEach((p, i) => {
+    if (template.footer_note) {
+      drawText(p, template.footer_note, MARGIN, MARGIN - 10, { font: fonts.regular, size: 8, color: muted, maxWidth: PAGE_WIDTH - MARGIN * 2 - 80 });
+    }
+    drawText(p, `Page ${i + 1} of ${pages.length}`, right, MARGIN - 10, { font: fonts.regular, size: 8, color: muted, align: 'right' });
+  });
+
+  return await pdf.save();
+}
+
+/** Organization of the caller, or of the customer for service-role calls. */
+export async function resolveOrganizationId(supabase: any, customerId: string, userId: string | null): Promise<string | null> {
+  if (userId) {
+    const { data: profile } = await supabase
+      .from('user_profiles')
+      .select('organization_id')
+      .eq('id', userId)
+      .maybeSingle();
+    if (profile?.organization_id) return profile.organization_id;
+  }
+
+  const { data: customer } = await supabase
+    .from('acumatica_customers')
+    .select('organization_id')
+    .eq('customer_id', customerId)
+    .limit(1)
+    .maybeSingle();
+  return customer?.organization_id ?? null;
+}
+
+/**
+ * The given template, else the organization's default for the document
+ * type, else the built-in layout branded with the organization name.
+ */
+export async function loadPdfTemplate(
+  supabase: any,
+  organizationId: string,
+  documentType: PdfDocumentType,
+  templateId?: string | null
+): Promise<PdfTemplate> {
+  if (templateId) {
+    const { data } = await supabase
+      .from('pdf_templates')
+      .select(TEMPLATE_COLUMNS)
+      .eq('id', templateId)
+      .eq('organization_id', organizationId)
+      .maybeSingle();
+    if (data) return data;
+  }
+
+  const { data: fallback } = await supabase
+    .from('pdf_templates')
+    .select(TEMPLATE_COLUMNS)
+    .eq('organization_id', organizationId)
+    .eq('document_type', documentType)
+    .eq('is_default', true)
+    .maybeSingle();
+  if (fallback) return fallback;
+
+  const { data: org } = await supabase
+    .from('organizations')
+    .select('name')
+    .eq('id', organizationId)
+    .maybeSingle();
+  return { ...DEFAULT_PDF_TEMPLATE, document_type: documentType, company_name: org?.name || '', remit_to_name: org?.name || '' };
+}
+
+export async function loadLogo(supabase: any, template: PdfTemplate): Promise<{ bytes: Uint8Array; mimeType: string } | null> {
+  if (!template.logo_path) return null;
+  const { data, error } = await supabase.storage.from(DOCUMENTS_BUCKET).download(template.logo_path);
+  if (error || !data) {
+    console.error('Logo download failed:', error?.message);
+    return null;
+  }
+  return { bytes: new Uint8Array(await data.arrayBuffer()), mimeType: data.type || (template.logo_path.endsWith('.png') ? 'image/png' : 'image/jpeg') };
+}
+
+export async function loadCustomerDocumentData(
+  supabase: any,
+  organizationId: string,
+  customerId: string,
+  documentType: PdfDocumentType,
+  invoiceReference?: string | null
+): Promise<{ customer: PdfCustomer; invoices: PdfInvoice[] }> {
+  const { data: row, error: customerError } = await supabase
+    .from('acumatica_customers')
+    .select('customer_id, customer_name, city, billing_state, country, terms')
+    .eq('organization_id', organizationId)
+    .eq('customer_id', customerId)
+    .maybeSingle();
+
+  if (customerError) throw customerError;
+  if (!row) throw new Error(`Customer ${customerId} not found`);
+
+  let query = supabase
+    .from('acumatica_invoices')
+    .select('reference_number, type, date, due_date, amount, dac_total, balance, description, status')
+    .eq('organization_id', organizationId)
+    .eq('customer', customerId);
+
+  if (documentType === 'invoice') {
+    if (!invoiceReference) throw new Error('An invoice reference is required');
+    query = query.eq('reference_number', invoiceReference);
+  } else {
+    query = query
+      .gt('balance', 0)
+      .not('status', 'in', '("Voided","Draft","On Hold")')
+      .order('due_date', { ascending: true });
+  }
+
+  const { data: invoiceRows, error: invoiceError } = await query;
+  if (invoiceError) throw invoiceError;
+  if (documentType === 'invoice' && !invoiceRows?.length) throw new Error(`Invoice ${invoiceReference} not found`);
+
+  const cityLine = [row.city, row.billing_state].filter(Boolean).join(', ');
+  return {
+    customer: {
+      customer_id: row.customer_id,
+      customer_name: row.customer_name || row.customer_id,
+      address_lines: [cityLine, row.country && row.country !== 'US' ? row.country : ''].filter(Boolean),
+      terms: row.terms || null,
+    },
+    invoices: (invoiceRows || []).map((inv: any) => ({
+      reference_number: inv.reference_number,
+      type: inv.type,
+      date: inv.date,
+      due_date: inv.due_date,
+      amount: Number(inv.amount ?? inv.dac_total ?? 0),
+      balance: Number(inv.balance ?? 0),
+      description: inv.description,
+    })),
+  };
+}
+
+export function pdfFilename(documentType: PdfDocumentType, customerName: string, invoiceReference: string | null, asOf: Date): string {
+  const date = asOf.toISOString().split('T')[0];
+  return documentType === 'invoice'
+    ? `Invoice_${(invoiceReference || '').replace(/[^a-zA-Z0-9-]/g, '_')}_${date}.pdf`
+    : `Statement_${customerName.replace(/[^a-zA-Z0-9]/g, '_')}_${date}.pdf`;
+}
+
+/** Loads the customer's data and template and renders the PDF. */
+export async function generateCustomerPdf(supabase: any, options: {
+  organizationId: string;
+  customerId: string;
+  documentType: PdfDocumentType;
+  invoiceReference?: string | null;
+  templateId?: string | null;
+}): Promise<CustomerPdfFile> {
+  const asOf = new Date();
+  const template = await loadPdfTemplate(supabase, options.organizationId, options.documentType, options.templateId);
+  const [{ customer, invoices }, logo] = await Promise.all([
+    loadCustomerDocumentData(supabase, options.organizationId, options.customerId, options.documentType, options.invoiceReference),
+    loadLogo(supabase, template),
+  ]);
+
+  const bytes = await renderCustomerPdf({ documentType: options.documentType, template, customer, invoices, asOf, logo });
+  return {
+    bytes,
+    filename: pdfFilename(options.documentType, customer.customer_name, options.invoiceReference ?? null, asOf),
+    template,
+    totalBalance: round2(invoices.reduce((sum, inv) => sum + signedBalance(inv), 0)),
+    invoiceCount: invoices.length,
+  };
+}
+
+/** Stores an emitted PDF and records it against the customer. */
+export async function archiveCustomerPdf(supabase: any, options: {
+  organizationId: string;
+  customerId: string;
+  documentType: PdfDocumentType;
+  invoiceReference?: string | null;
+  rendered: CustomerPdfFile;
+  source: 'email' | 'download';
+  emailLogId?: string | null;
+  generatedBy?: string | null;
+}): Promise<{ id: string; storage_path: string } | null> {
+  const safeCustomer = options.customerId.replace(/[^a-zA-Z0-9_-]/g, '_');
+  const storagePath = `${options.organizationId}/${safeCustomer}/${new Date().getUTCFullYear()}/${Date.now()}_${options.rendered.filename}`;
+
+  const { error: uploadError } = await supabase.storage
+    .from(DOCUMENTS_BUCKET)
+    .upload(storagePath, options.rendered.bytes, { contentType: 'application/pdf', upsert: false });
+
+  if (uploadError) {
+    console.error('PDF archive upload failed:', uploadError);
+    return null;
+  }
+
+  const { data, error } = await supabase
+    .from('customer_documents')
+    .insert({
+      organization_id: options.organizationId,
+      customer_id: options.customerId,
+      document_type: options.documentType,
+      invoice_reference_number: options.invoiceReference || null,
+      pdf_template_id: options.rendered.template?.id || null,
+      storage_path: storagePath,
+      filename: options.rendered.filename,
+      file_size: options.rendered.bytes.length,
+      total_balance: options.rendered.totalBalance,
+      invoice_count: options.rendered.invoiceCount,
+      source: options.source,
+      customer_email_log_id: options.emailLogId || null,
+      generated_by: options.generatedBy || null,
+    })
+    .select('id, storage_path')
+    .single();
+
+  if (error) {
+    console.error('PDF archive record failed:', error);
+    return null;
+  }
+  return data;
+}
+
+export function bytesToBase64(bytes: Uint8Array): string {
+  let binary = '';
+  const chunk = 0x8000;
+  for (let i = 0; i < bytes.length; i += chunk) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + chunk));
+  }
+  return btoa(binary);
+}
+
+export function base64ToBytes(base64: string): Uint8Array {
+  return Uint8Array.from(atob(base64), c => c.charCodeAt(0));
+}
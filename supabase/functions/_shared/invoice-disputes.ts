@@ -0,0 +1,39 @@
+export const ACTIVE_DISPUTE_STATUSES = ['open', 'investigating', 'awaiting_customer'];
+
+const PAGE_SIZE = 1000;
+
+// Reference numbers of invoices under an active dispute. Collections
+// automation (dunning, auto-ticket rules) leaves these invoices alone until
+// the dispute is closed.
+export async function loadDisputedInvoiceRefs(
+  supabase: any,
+  organizationId?: string
+): Promise<Set<string>> {
+  const refs = new Set<string>();
+  let from = 0;
+  let hasMore = true;
+
+  while (hasMore) {
+    let query = supabase
+      .from('invoice_dispute_invoices')
+      .select('invoice_reference_number, dispute:invoice_disputes!inner(status)')
+      .in('dispute.status', ACTIVE_DISPUTE_STATUSES)
+      .range(from, from + PAGE_SIZE - 1);
+
+    if (organizationId) {
+      query = query.eq('organization_id', organizationId);
+    }
+
+    const { data, error } = await query;
+    if (error) throw error;
+
+    for (const row of data || []) {
+      refs.add(row.invoice_reference_number);
+    }
+
+    hasMore = !!data && data.length === PAGE_SIZE;
+    from += PAGE_SIZE;
+  }
+
+  return refs;
+}
@@ -0,0 +1,19 @@
+export type PermissionAction = 'view' | 'create' | 'edit' | 'delete';
+
+// Resolves a permission the same way RLS does (admin, per-user override,
+// custom role, built-in role). Edge functions run with the service role, so
+// the user is passed explicitly instead of relying on auth.uid().
+export async function userHasPermission(
+  supabase: any,
+  userId: string,
+  permissionKey: string,
+  action: PermissionAction = 'view'
+): Promise<boolean> {
+  const { data, error } = await supabase.rpc('user_has_permission', {
+    p_user_id: userId,
+    p_permission_key: permissionKey,
+    p_action: action,
+  });
+  if (error) throw error;
+  return data === true;
+}
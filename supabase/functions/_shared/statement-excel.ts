@@ -0,0 +1,172 @@
+import * as XLSX from "npm:xlsx@0.18.5";
+
+// Server copy of generateCustomerStatementExcel in src/lib/statementExport.ts
+// for statements sent without a browser (scheduled runs). Keep the two
+// layouts in step so a customer gets the same workbook either way.
+
+export interface StatementInvoice {
+  reference_number: string;
+  date: string;
+  due_date: string;
+  amount: number;
+  balance: number;
+  status: string;
+  description: string;
+  days_overdue: number;
+  type: string;
+  disputed?: boolean;
+}
+
+export interface StatementCustomerData {
+  customer_id: string;
+  customer_name: string;
+  email: string;
+  terms: string;
+  total_balance: number;
+  invoices: StatementInvoice[];
+}
+
+const CREDIT_TYPES = ['Credit Memo', 'Credit WO'];
+
+const fmtCurrency = (n: number) => n < 0 ? `-$${Math.abs(n).toFixed(2)}` : `$${n.toFixed(2)}`;
+const fmtDate = (s: string) => {
+  if (!s) return '';
+  const d = new Date(s);
+  return d.toLocaleDateString('en-US', { month: '2-digit', day: '2-digit', year: 'numeric' });
+};
+
+function getAgingBucket(daysOverdue: number): string {
+  if (daysOverdue <= 0) return 'Current';
+  if (daysOverdue <= 30) return '1-30';
+  if (daysOverdue <= 60) return '31-60';
+  if (daysOverdue <= 90) return '61-90';
+  return '90+';
+}
+
+function calculateAging(invoices: StatementInvoice[]) {
+  const buckets = { current: 0, '1_30': 0, '31_60': 0, '61_90': 0, '90_plus': 0, disputed: 0 };
+  invoices.forEach(inv => {
+    if (inv.balance <= 0) return;
+    const d = inv.days_overdue;
+    if (inv.disputed) buckets.disputed += inv.balance;
+    else if (d <= 0) buckets.current += inv.balance;
+    else if (d <= 30) buckets['1_30'] += inv.balance;
+    else if (d <= 60) buckets['31_60'] += inv.balance;
+    else if (d <= 90) buckets['61_90'] += inv.balance;
+    else buckets['90_plus'] += inv.balance;
+  });
+  return buckets;
+}
+
+function getInvoiceAgingLabel(inv: StatementInvoice): string {
+  if (inv.balance < 0) return 'Credit';
+  if (inv.disputed) return 'Disputed';
+  return getAgingBucket(inv.days_overdue);
+}
+
+/** Open invoices as the Statements page lists them: credits negative, disputes flagged. */
+export async function loadStatementInvoices(
+  supabase: any,
+  organizationId: string,
+  customerId: string,
+  disputedRefs: Set<string>
+): Promise<StatementInvoice[]> {
+  const { data, error } = await supabase
+    .from('acumatica_invoices')
+    .select('reference_number, date, due_date, amount, dac_total, balance, status, description, type')
+    .eq('organization_id', organizationId)
+    .eq('customer', customerId)
+    .gt('balance', 0)
+    .not('status', 'in', '("Voided","Draft","On Hold")')
+    .order('due_date', { ascending: true });
+  if (error) throw error;
+
+  const today = new Date();
+  return (data || []).map((inv: any) => {
+    const dueDate = inv.due_date ? new Date(inv.due_date) : today;
+    const daysOverdue = Math.max(0, Math.floor((today.getTime() - dueDate.getTime()) / 86400000));
+    const isCredit = CREDIT_TYPES.includes(inv.type);
+    const rawAmount = Number(inv.amount) || Number(inv.dac_total) || 0;
+    const rawBalance = Number(inv.balance) || 0;
+    return {
+      reference_number: inv.reference_number,
+      date: inv.date,
+      due_date: inv.due_date,
+      amount: isCredit ? -Math.abs(rawAmount) : rawAmount,
+      balance: isCredit ? -Math.abs(rawBalance) : rawBalance,
+      status: inv.status,
+      description: inv.description || '',
+      days_overdue: isCredit ? 0 : daysOverdue,
+      type: inv.type || 'Invoice',
+      disputed: !isCredit && disputedRefs.has(inv.reference_number),
+    };
+  });
+}
+
+export function generateCustomerStatementExcel(customer: StatementCustomerData): Uint8Array {
+  const wb = XLSX.utils.book_new();
+  const aging = calculateAging(customer.invoices);
+  const today = new Date().toLocaleDateString('en-US', { month: '2-digit', day: '2-digit', year: 'numeric' });
+
+  const headerRows: any[][] = [
+    ['Account Statement'],
+    [],
+    ['Customer:', customer.customer_name],
+    ['Customer ID:', customer.customer_id],
+    ['Email:', customer.email || 'N/A'],
+    ['Terms:', customer.terms || 'N/A'],
+    ['Statement Date:', today],
+    ['Total Open Balance:', fmtCurrency(customer.total_balance)],
+    [],
+    ['Aging Summary'],
+    ['Current', '1-30 Days', '31-60 Days', '61-90 Days', '90+ Days', 'Disputed', 'Total'],
+    [
+      fmtCurrency(aging.current),
+      fmtCurrency(aging['1_30']),
+      fmtCurrency(aging['31_60']),
+      fmtCurrency(aging['61_90']),
+      fmtCurrency(aging['90_plus']),
+      fmtCurrency(aging.disputed),
+      fmtCurrency(customer.total_balance),
+    ],
+    [],
+    ['Open Invoices'],
+    ['Invoice #', 'Date', 'Due Date', 'Description', 'Amount', 'Balance', 'Days Overdue', 'Aging'],
+  ];
+
+  const sortedInvoices = [...customer.invoices]
+    .filter(inv => inv.balance !== 0)
+    .sort((a, b) => new Date(a.date).getTime() - new Date(b.date).getTime());
+
+  sortedInvoices.forEach(inv => {
+    headerRows.push([
+      inv.reference_number,
+      fmtDate(inv.date),
+      fmtDate(inv.due_date),
+      inv.description || '',
+      fmtCurrency(inv.amount),
+      fmtCurrency(inv.balance),
+      inv.balance < 0 ? '' : inv.days_overdue,
+      getInvoiceAgingLabel(inv),
+    ]);
+  });
+
+  const netBalance = sortedInvoices.reduce((s, inv) => s + inv.balance, 0);
+  headerRows.push([]);
+  headerRows.push(['', '', '', 'TOTAL:', '', fmtCurrency(netBalance), '', '']);
+
+  const ws = XLSX.utils.aoa_to_sheet(headerRows);
+  ws['!cols'] = [
+    { wch: 18 },
+    { wch: 14 },
+    { wch: 14 },
+    { wch: 35 },
+    { wch: 14 },
+    { wch: 14 },
+    { wch: 10 },
+    { wch: 10 },
+  ];
+
+  XLSX.utils.book_append_sheet(wb, ws, 'Statement');
+  return new Uint8Array(XLSX.write(wb, { type: 'array', bookType: 'xlsx' }));
+}
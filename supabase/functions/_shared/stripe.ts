@@ -0,0 +1,169 @@
+// Minimal Stripe REST client for Checkout. Calls go through fetch rather than
+// the Stripe SDK so STRIPE_API_BASE can point at a local stand-in (for
+// example stripe-mock on http://localhost:12111) during development.
+// stripe-webhook/stand-in.ts runs the whole Pay Now flow against one.
+
+const encoder = new TextEncoder();
+
+const DEFAULT_API_BASE = 'https://api.stripe.com';
+const SIGNATURE_TOLERANCE_SECONDS = 300;
+
+export class StripeError extends Error {
+  constructor(message: string, public status: number) {
+    super(message);
+  }
+}
+
+export interface CheckoutLineItem {
+  name: string;
+  description?: string;
+  amountCents: number;
+}
+
+export interface CreateCheckoutSessionParams {
+  lineItems: CheckoutLineItem[];
+  currency: string;
+  successUrl: string;
+  cancelUrl: string;
+  customerEmail?: string;
+  clientReferenceId?: string;
+  metadata?: Record<string, string>;
+  idempotencyKey?: string;
+}
+
+export interface CheckoutSession {
+  id: string;
+  url: string | null;
+  expires_at: number | null;
+  payment_intent: string | null;
+}
+
+export interface StripeEvent {
+  id: string;
+  type: string;
+  data: { object: any };
+}
+
+function stripeConfig() {
+  const secretKey = Deno.env.get('STRIPE_SECRET_KEY');
+  if (!secretKey) {
+    throw new StripeError('Online payments are not configured.', 503);
+  }
+  return {
+    secretKey,
+    apiBase: (Deno.env.get('STRIPE_API_BASE') || DEFAULT_API_BASE).replace(/\/+$/, ''),
+  };
+}
+
+// Stripe takes application/x-www-form-urlencoded bodies with bracketed keys
+// for nested objects and arrays (line_items[0][price_data][currency]=usd).
+function toFormBody(value: unknown, prefix = '', params = new URLSearchParams()): URLSearchParams {
+  if (value === undefined || value === null) return params;
+  if (Array.isArray(value)) {
+    value.forEach((item, index) => toFormBody(item, `${prefix}[${index}]`, params));
+  } else if (typeof value === 'object') {
+    for (const [key, child] of Object.entries(value as Record<string, unknown>)) {
+      toFormBody(child, prefix ? `${prefix}[${key}]` : key, params);
+    }
+  } else {
+    params.append(prefix, String(value));
+  }
+  return params;
+}
+
+async function stripeRequest(method: string, path: string, body?: Record<string, unknown>, idempotencyKey?: string) {
+  const { secretKey, apiBase } = stripeConfig();
+  const headers: Record<string, string> = {
+    'Authorization': `Bearer ${secretKey}`,
+    'Content-Type': 'application/x-www-form-urlencoded',
+  };
+  if (idempotencyKey) headers['Idempotency-Key'] = idempotencyKey;
+
+  const response = await fetch(`${apiBase}${path}`, {
+    method,
+    headers,
+    body: body ? toFormBody(body).toString() : undefined,
+  });
+
+  const result = await response.json().catch(() => ({}));
+  if (!response.ok) {
+    throw new StripeError(result?.error?.message || `Stripe request failed (${response.status})`, response.status);
+  }
+  return result;
+}
+
+export async function createCheckoutSession(params: CreateCheckoutSessionParams): Promise<CheckoutSession> {
+  return await stripeRequest('POST', '/v1/checkout/sessions', {
+    mode: 'payment',
+    success_url: params.successUrl,
+    cancel_url: params.cancelUrl,
+    customer_email: params.customerEmail,
+    client_reference_id: params.clientReferenceId,
+    metadata: params.metadata,
+    payment_intent_data: { metadata: params.metadata },
+    line_items: params.lineItems.map(item => ({
+      quantity: 1,
+      price_data: {
+        currency: params.currency,
+        unit_amount: item.amountCents,
+        product_data: { name: item.name, description: item.description },
+      },
+    })),
+  }, params.idempotencyKey);
+}
+
+// Details the Checkout session object does not carry: the charge, receipt and
+// payment method type.
+export async function retrievePaymentIntent(paymentIntentId: string) {
+  return await stripeRequest('GET', `/v1/payment_intents/${encodeURIComponent(paymentIntentId)}?expand[]=latest_charge`);
+}
+
+function timingSafeEqual(a: string, b: string): boolean {
+  const aBytes = encoder.encode(a);
+  const bBytes = encoder.encode(b);
+  if (aBytes.length !== bBytes.length) return false;
+  let diff = 0;
+  for (let i = 0; i < aBytes.length; i++) {
+    diff |= aBytes[i] ^ bBytes[i];
+  }
+  return diff === 0;
+}
+
+async function hmacSha256Hex(secret: string, message: string): Promise<string> {
+  const key = await crypto.subtle.importKey('raw', encoder.encode(secret), { name: 'HMAC', hash: 'SHA-256' }, false, ['sign']);
+  const signature = await crypto.subtle.sign('HMAC', key, encoder.encode(message));
+  return Array.from(new Uint8Array(signature)).map(b => b.toString(16).padStart(2, '0')).join('');
+}
+
+/**
+ * Verifies a `Stripe-Signature` header (t=<unix>,v1=<hex hmac>[,v1=...])
+ * against the raw request body and returns the parsed event. A local
+ * stand-in only has to sign `${t}.${body}` with the same STRIPE_WEBHOOK_SECRET.
+ */
+export async function verifyStripeEvent(rawBody: string, signatureHeader: string | null, secret: string): Promise<StripeEvent> {
+  if (!signatureHeader) {
+    throw new StripeError('Missing Stripe-Signature header', 400);
+  }
+
+  let timestamp = '';
+  const signatures: string[] = [];
+  for (const part of signatureHeader.split(',')) {
+    const [key, value] = part.split('=', 2).map(s => s.trim());
+    if (key === 't') timestamp = value;
+    if (key === 'v1' && value) signatures.push(value.toLowerCase());
+  }
+
+  if (!timestamp || signatures.length === 0) {
+    throw new StripeError('Malformed Stripe-Signature header', 400);
+  }
+  if (Math.abs(Date.now() / 1000 - Number(timestamp)) > SIGNATURE_TOLERANCE_SECONDS) {
+    throw new StripeError('Stripe signature timestamp outside tolerance', 400);
+  }
+
+  const expected = await hmacSha256Hex(secret, `${timestamp}.${rawBody}`);
+  if (!signatures.some(signature => timingSafeEqual(signature, expected))) {
+    throw new StripeError('Invalid Stripe signature', 400);
+  }
+
+  return JSON.parse(rawBody);
+}
@@ -0,0 +1,290 @@
+import { createClient } from 'npm:@supabase/supabase-js@2';
+
+type WebhookSource = 'acumatica' | 'sendgrid';
+
+interface WebhookSecretRow {
+  source: WebhookSource;
+  secret: string | null;
+  previous_secret: string | null;
+  previous_valid_until: string | null;
+  public_key: string | null;
+  enforce: boolean;
+  max_skew_seconds: number;
+}
+
+export interface VerificationResult {
+  // Whether the caller should go on to process the request.
+  accepted: boolean;
+  // Whether the request actually passed verification (false in rollout mode
+  // for a request that is accepted only because enforcement is off).
+  verified: boolean;
+  reason?: string;
+  rawBody: string;
+  // Forgets the request's nonce. Call it when processing fails, so the
+  // provider's retry of the same request is not rejected as a replay.
+  releaseNonce: () => Promise<void>;
+}
+
+const encoder = new TextEncoder();
+
+// .NET ticks (100ns since 0001-01-01) -> Unix ms. Acumatica push notifications
+// carry their TimeStamp in ticks.
+const TICKS_AT_UNIX_EPOCH = 621355968000000000n;
+
+function timingSafeEqual(a: string, b: string): boolean {
+  const aBytes = encoder.encode(a);
+  const bBytes = encoder.encode(b);
+  if (aBytes.length !== bBytes.length) return false;
+  let diff = 0;
+  for (let i = 0; i < aBytes.length; i++) {
+    diff |= aBytes[i] ^ bBytes[i];
+  }
+  return diff === 0;
+}
+
+function toHex(buffer: ArrayBuffer): string {
+  return Array.from(new Uint8Array(buffer)).map(b => b.toString(16).padStart(2, '0')).join('');
+}
+
+function base64ToBytes(value: string): Uint8Array {
+  const binary = atob(value.trim());
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+  return bytes;
+}
+
+async function hmacSha256Hex(secret: string, message: string): Promise<string> {
+  const key = await crypto.subtle.importKey('raw', encoder.encode(secret), { name: 'HMAC', hash: 'SHA-256' }, false, ['sign']);
+  return toHex(await crypto.subtle.sign('HMAC', key, encoder.encode(message)));
+}
+
+async function sha256Hex(message: string): Promise<string> {
+  return toHex(await crypto.subtle.digest('SHA-256', encoder.encode(message)));
+}
+
+// SendGrid sends an ASN.1 DER ECDSA signature; WebCrypto wants raw r||s.
+function derToRawSignature(der: Uint8Array): Uint8Array {
+  let offset = 2;
+  if (der[1] & 0x80) offset += der[1] & 0x7f;
+
+  const readInt = (): Uint8Array => {
+    if (der[offset] !== 0x02) throw new Error('Invalid DER signature');
+    const length = der[offset + 1];
+    let value = der.slice(offset + 2, offset + 2 + length);
+    offset += 2 + length;
+    while (value.length > 32 && value[0] === 0) value = value.slice(1);
+    const padded = new Uint8Array(32);
+    padded.set(value, 32 - value.length);
+    return padded;
+  };
+
+  const r = readInt();
+  const s = readInt();
+  const raw = new Uint8Array(64);
+  raw.set(r, 0);
+  raw.set(s, 32);
+  return raw;
+}
+
+function acceptableSecrets(row: WebhookSecretRow): string[] {
+  const secrets: string[] = [];
+  if (row.secret) secrets.push(row.secret);
+  if (row.previous_secret && row.previous_valid_until && new Date(row.previous_valid_until) > new Date()) {
+    secrets.push(row.previous_secret);
+  }
+  return secrets;
+}
+
+function isWithinSkew(timestampMs: number, maxSkewSeconds: number): boolean {
+  return Number.isFinite(timestampMs) && Math.abs(Date.now() - timestampMs) <= maxSkewSeconds * 1000;
+}
+
+async function verifyAcumatica(req: Request, rawBody: string, row: WebhookSecretRow): Promise<{ ok: boolean; reason?: string; nonce?: string }> {
+  const secrets = acceptableSecrets(row);
+  if (secrets.length === 0) {
+    return { ok: false, reason: 'No Acumatica webhook secret configured' };
+  }
+
+  let body: any = {};
+  try {
+    body = JSON.parse(rawBody);
+  } catch (_e) {
+    return { ok: false, reason: 'Body is not valid JSON' };
+  }
+
+  const signature = req.headers.get('x-webhook-signature');
+  const headerTimestamp = req.headers.get('x-webhook-timestamp');
+
+  if (signature) {
+    // HMAC mode (signing proxy): signature = hex(HMAC-SHA256(secret, `${timestamp}.${body}`)).
+    if (!headerTimestamp) return { ok: false, reason: 'Missing X-Webhook-Timestamp' };
+    if (!isWithinSkew(Number(headerTimestamp) * 1000, row.max_skew_seconds)) {
+      return { ok: false, reason: 'Timestamp outside allowed window' };
+    }
+    const provided = signature.replace(/^sha256=/, '').toLowerCase();
+    let matched = false;
+    for (const secret of secrets) {
+      if (timingSafeEqual(await hmacSha256Hex(secret, `${headerTimestamp}.${rawBody}`), provided)) {
+        matched = true;
+        break;
+      }
+    }
+    if (!matched) return { ok: false, reason: 'Invalid HMAC signature' };
+    // The nonce must come from signed material; an unsigned nonce header
+    // could be changed to replay the request inside the window.
+    return { ok: true, nonce: await sha256Hex(provided) };
+  }
+
+  // Shared-secret mode: Acumatica push destinations can only send static
+  // headers, so freshness comes from the notification's own Id/TimeStamp.
+  const providedSecret = req.headers.get('x-webhook-secret');
+  if (!providedSecret) return { ok: false, reason: 'Missing X-Webhook-Secret or X-Webhook-Signature header' };
+  if (!secrets.some(secret => timingSafeEqual(secret, providedSecret))) {
+    return { ok: false, reason: 'Invalid shared secret' };
+  }
+
+  if (body?.TimeStamp === undefined || body?.TimeStamp === null) {
+    return { ok: false, reason: 'Missing notification TimeStamp' };
+  }
+  try {
+    const unixMs = Number((BigInt(body.TimeStamp) - TICKS_AT_UNIX_EPOCH) / 10000n);
+    if (!isWithinSkew(unixMs, row.max_skew_seconds)) {
+      return { ok: false, reason: 'Notification TimeStamp outside allowed window' };
+    }
+  } catch (_e) {
+    return { ok: false, reason: 'Unreadable notification TimeStamp' };
+  }
+
+  const nonce = body?.Id ? String(body.Id) : await sha256Hex(rawBody);
+  return { ok: true, nonce };
+}
+
+async function verifySendGrid(req: Request, rawBody: string, row: WebhookSecretRow): Promise<{ ok: boolean; reason?: string; nonce?: string }> {
+  if (!row.public_key) {
+    return { ok: false, reason: 'No SendGrid verification key configured' };
+  }
+
+  const signature = req.headers.get('x-twilio-email-event-webhook-signature');
+  const timestamp = req.headers.get('x-twilio-email-event-webhook-timestamp');
+  if (!signature || !timestamp) {
+    return { ok: false, reason: 'Missing SendGrid signature headers' };
+  }
+
+  if (!isWithinSkew(Number(timestamp) * 1000, row.max_skew_seconds)) {
+    return { ok: false, reason: 'Timestamp outside allowed window' };
+  }
+
+  try {
+    const publicKey = await crypto.subtle.importKey(
+      'spki',
+      base64ToBytes(row.public_key),
+      { name: 'ECDSA', namedCurve: 'P-256' },
+      false,
+      ['verify']
+    );
+    const valid = await crypto.subtle.verify(
+      { name: 'ECDSA', hash: 'SHA-256' },
+      publicKey,
+      derToRawSignature(base64ToBytes(signature)),
+      encoder.encode(timestamp + rawBody)
+    );
+    if (!valid) return { ok: false, reason: 'Invalid ECDSA signature' };
+  } catch (err) {
+    return { ok: false, reason: `Signature verification error: ${err instanceof Error ? err.message : String(err)}` };
+  }
+
+  return { ok: true, nonce: await sha256Hex(signature) };
+}
+
+function safePayload(rawBody: string): any {
+  try {
+    return JSON.parse(rawBody);
+  } catch (_e) {
+    return { raw: rawBody.substring(0, 2000) };
+  }
+}
+
+/**
+ * Reads the request body once and verifies it for the given source. Rejected
+ * requests are written to webhook_logs with status 'rejected'. Callers must
+ * use the returned rawBody instead of reading the request again, and call
+ * releaseNonce if they fail to process an accepted request.
+ */
+export async function verifyWebhookRequest(
+  supabase: ReturnType<typeof createClient>,
+  req: Request,
+  source: WebhookSource,
+  webhookType: string
+): Promise<VerificationResult> {
+  const rawBody = await req.text();
+
+  const { data: row } = await supabase
+    .from('webhook_secrets')
+    .select('source, secret, previous_secret, previous_valid_until, public_key, enforce, max_skew_seconds')
+    .eq('source', source)
+    .maybeSingle();
+
+  const config: WebhookSecretRow = row || {
+    source,
+    secret: null,
+    previous_secret: null,
+    previous_valid_until: null,
+    public_key: null,
+    enforce: true,
+    max_skew_seconds: 300,
+  };
+
+  const check = source === 'acumatica'
+    ? await verifyAcumatica(req, rawBody, config)
+    : await verifySendGrid(req, rawBody, config);
+
+  // The nonce is registered before processing so two concurrent deliveries of
+  // the same request can't both be processed; releaseNonce undoes it on failure.
+  let reason = check.reason;
+  let registeredNonce: string | null = null;
+  if (check.ok && check.nonce) {
+    const { data: fresh, error: nonceError } = await supabase.rpc('register_webhook_nonce', { p_source: source, p_nonce: check.nonce });
+    // A nonce that could not be recorded cannot be shown to be fresh
+    if (nonceError) reason = `Nonce check failed: ${nonceError.message}`;
+    else if (fresh !== true) reason = 'Replayed request (nonce already seen)';
+    else registeredNonce = check.nonce;
+  }
+
+  const releaseNonce = async () => {
+    if (!registeredNonce) return;
+    const { error } = await supabase
+      .from('webhook_nonces')
+      .delete()
+      .eq('source', source)
+      .eq('nonce', registeredNonce);
+    if (error) console.error(`Failed to release ${source} webhook nonce:`, error.message);
+    registeredNonce = null;
+  };
+
+  const verified = check.ok && !reason;
+  if (verified) {
+    return { accepted: true, verified: true, rawBody, releaseNonce };
+  }
+
+  console.warn(`Webhook verification failed for ${webhookType}: ${reason}${config.enforce ? '' : ' (not enforced)'}`);
+
+  const headers: Record<string, string> = {};
+  for (const [key, value] of req.headers.entries()) {
+    if (key === 'authorization' || key === 'apikey' || key === 'x-webhook-secret') continue;
+    headers[key] = value;
+  }
+
+  await supabase.from('webhook_logs').insert({
+    webhook_type: webhookType,
+    entity_id: 'unverified',
+    payload: safePayload(rawBody),
+    status: 'rejected',
+    error_message: config.enforce ? reason : `${reason} (accepted: enforcement off)`,
+    rejection_reason: reason,
+    source_ip: req.headers.get('x-forwarded-for')?.split(',')[0].trim() || null,
+    request_headers: headers,
+    received_at: new Date().toISOString(),
+  });
+
+  return { accepted: !config.enforce, verified: false, reason, rawBody, releaseNonce };
+}
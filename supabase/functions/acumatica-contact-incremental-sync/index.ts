@@ -0,0 +1,204 @@
+import "jsr:@supabase/functions-js/edge-runtime.d.ts";
+import { createClient } from "npm:@supabase/supabase-js@2.57.4";
+import { AcumaticaSessionManager } from "../_shared/acumatica-session.ts";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Methods": "GET, POST, PUT, DELETE, OPTIONS",
+  "Access-Control-Allow-Headers": "Content-Type, Authorization, X-Client-Info, Apikey",
+};
+
+// Only the fields Acumatica owns; roles, preferred channel and notes are
+// edited here and never overwritten by a sync
+const fieldMapping: Record<string, string> = {
+  'ContactID': 'contact_id',
+  'BusinessAccount': 'business_account',
+  'FirstName': 'first_name',
+  'LastName': 'last_name',
+  'DisplayName': 'display_name',
+  'JobTitle': 'job_title',
+  'Email': 'email',
+  'Phone1': 'phone',
+  'Phone2': 'mobile_phone',
+  'Active': 'is_active',
+  'DoNotEmail': 'do_not_email',
+  'LastModifiedDateTime': 'last_modified',
+};
+
+const BATCH_SIZE = 200;
+
+Deno.serve(async (req: Request) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, { status: 200, headers: corsHeaders });
+  }
+
+  try {
+    const supabaseUrl = Deno.env.get("SUPABASE_URL")!;
+    const supabaseKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
+    const supabase = createClient(supabaseUrl, supabaseKey);
+
+    const sessionManager = new AcumaticaSessionManager(supabaseUrl, supabaseKey);
+
+    const requestBody = await req.json().catch(() => ({}));
+    const {
+      lookbackMinutes: lookbackFromRequest,
+      acumaticaUrl: urlFromRequest,
+      username: usernameFromRequest,
+      password: passwordFromRequest,
+      company: companyFromRequest,
+      branch: branchFromRequest
+    } = requestBody;
+
+    let acumaticaUrl = urlFromRequest;
+    let username = usernameFromRequest;
+    let password = passwordFromRequest;
+    let company = companyFromRequest || "";
+    let branch = branchFromRequest || "";
+    let lookbackMinutes = lookbackFromRequest;
+
+    if (!acumaticaUrl || !username || !password || !lookbackMinutes) {
+      console.log('Loading configuration from database...');
+
+      const { data: config, error: configError } = await supabase
+        .from('acumatica_sync_credentials')
+        .select('*')
+        .limit(1)
+        .maybeSingle();
+
+      const { data: syncConfig, error: syncError } = await supabase
+        .from('sync_status')
+        .select('lookback_minutes')
+        .eq('entity_type', 'contact')
+        .maybeSingle();
+
+      if (configError) {
+        console.error('Error loading credentials from database:', configError);
+      }
+
+      if (syncError) {
+        console.error('Error loading sync config from database:', syncError);
+      }
+
+      if (config) {
+        acumaticaUrl = acumaticaUrl || config.acumatica_url;
+        username = username || config.username;
+        password = password || config.password;
+        company = company || config.company || "";
+        branch = branch || config.branch || "";
+        console.log('Loaded credentials from database');
+      }
+
+      if (syncConfig) {
+        lookbackMinutes = lookbackMinutes || syncConfig.lookback_minutes || 10000;
+        console.log(`Loaded lookback from database: ${lookbackMinutes} minutes`);
+      }
+    }
+
+    if (!lookbackMinutes) {
+      lookbackMinutes = 10000;
+      console.log('Using default lookback: 10000 minutes');
+    }
+
+    if (acumaticaUrl && !acumaticaUrl.startsWith("http://") && !acumaticaUrl.startsWith("https://")) {
+      acumaticaUrl = `https://${acumaticaUrl}`;
+    }
+
+    if (!acumaticaUrl || !username || !password) {
+      return new Response(
+        JSON.stringify({ error: "Missing Acumatica credentials. Please configure sync settings first." }),
+        { status: 400, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    const credentials = {
+      acumaticaUrl,
+      username,
+      password,
+      company,
+      branch
+    };
+
+    console.log('Getting Acumatica session...');
+    const sessionCookie = await sessionManager.getSession(credentials);
+    console.log('Session obtained successfully');
+
+    const cutoffTime = new Date(Date.now() - lookbackMinutes * 60 * 1000);
+    const filterDate = cutoffTime.toISOString().split('.')[0];
+
+    const contactsUrl = `${acumaticaUrl}/entity/Default/24.200.001/Contact?$filter=LastModifiedDateTime gt datetimeoffset'${filterDate}'&$select=${Object.keys(fieldMapping).join(',')}`;
+
+    console.log(`Fetching contacts modified after ${filterDate} (last ${lookbackMinutes} minutes)`);
+
+    const contactsResponse = await fetch(contactsUrl, {
+      method: "GET",
+      headers: {
+        "Content-Type": "application/json",
+        "Cookie": sessionCookie,
+      },
+    });
+
+    if (!contactsResponse.ok) {
+      const errorText = await contactsResponse.text();
+      throw new Error(`Failed to fetch contacts: ${contactsResponse.status} ${contactsResponse.statusText}. Details: ${errorText.substring(0, 500)}`);
+    }
+
+    const contactsData = await contactsResponse.json();
+    const contacts = Array.isArray(contactsData) ? contactsData : [];
+
+    const mapped: Record<string, unknown>[] = [];
+    for (const contact of contacts) {
+      const row: Record<string, unknown> = {};
+      for (const [acuKey, dbKey] of Object.entries(fieldMapping)) {
+        if (contact[acuKey]?.value !== undefined) {
+          row[dbKey] = contact[acuKey].value;
+        }
+      }
+      if (row.contact_id === undefined || row.contact_id === null) continue;
+      row.contact_id = String(row.contact_id);
+      mapped.push(row);
+    }
+
+    let created = 0;
+    let updated = 0;
+    let skipped = contacts.length - mapped.length;
+    const errors: string[] = [];
+
+    // Contacts of leads, vendors and prospects come back too; the upsert
+    // keeps only those whose business account is one of our customers
+    for (let i = 0; i < mapped.length; i += BATCH_SIZE) {
+      const batch = mapped.slice(i, i + BATCH_SIZE);
+      const { data, error } = await supabase.rpc('upsert_acumatica_contacts', { p_contacts: batch });
+
+      if (error) {
+        errors.push(`Contacts ${i + 1}-${i + batch.length} failed: ${error.message}`);
+        continue;
+      }
+
+      const counts = Array.isArray(data) ? data[0] : data;
+      created += counts?.created || 0;
+      updated += counts?.updated || 0;
+      skipped += counts?.skipped || 0;
+    }
+
+    return new Response(
+      JSON.stringify({
+        success: true,
+        totalFetched: contacts.length,
+        processed: created + updated,
+        created,
+        updated,
+        skipped,
+        lookbackMinutes,
+        filterDate: cutoffTime.toISOString(),
+        errors,
+      }),
+      { headers: { ...corsHeaders, "Content-Type": "application/json" } }
+    );
+  } catch (err) {
+    console.error('Error in contact incremental sync:', err);
+    return new Response(
+      JSON.stringify({ error: err.message }),
+      { status: 500, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+    );
+  }
+});
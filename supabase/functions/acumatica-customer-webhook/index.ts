@@ -1,6 +1,7 @@
 import "jsr:@supabase/functions-js/edge-runtime.d.ts";
 import { createClient } from "npm:@supabase/supabase-js@2.57.4";
 import { AcumaticaSessionManager } from "../_shared/acumatica-session.ts";
+import { verifyWebhookRequest, VerificationResult } from "../_shared/webhook-verification.ts";
 
 const corsHeaders = {
   "Access-Control-Allow-Origin": "*",
@@ -16,12 +17,24 @@ Deno.serve(async (req: Request) => {
     });
   }
 
+  let verification: VerificationResult | undefined;
   try {
     const supabaseUrl = Deno.env.get("SUPABASE_URL")!;
     const supabaseKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
     const supabase = createClient(supabaseUrl, supabaseKey);
 
-    const webhookData = await req.json();
+    verification = await verifyWebhookRequest(supabase, req, 'acumatica', 'customer');
+    if (!verification.accepted) {
+      return new Response(
+        JSON.stringify({ error: "Webhook verification failed" }),
+        {
+          status: 401,
+          headers: { ...corsHeaders, "Content-Type": "application/json" },
+        }
+      );
+    }
+
+    const webhookData = JSON.parse(verification.rawBody);
     console.log('Received customer webhook:', JSON.stringify(webhookData, null, 2));
 
     const customerId = webhookData.Entity?.CustomerID?.value || webhookData.CustomerID;
@@ -217,6 +230,8 @@ Deno.serve(async (req: Request) => {
 
   } catch (error) {
     console.error('Error in customer webhook:', error);
+    // Let the provider's retry through instead of rejecting it as a replay
+    await verification?.releaseNonce();
     return new Response(
       JSON.stringify({
         error: error instanceof Error ? error.message : "Unknown error occurred"
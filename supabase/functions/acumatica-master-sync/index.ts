@@ -77,11 +77,14 @@ Deno.serve(async (req: Request) => {
     const syncStartTime = Date.now();
     const results: any = {
       customer: { success: false, created: 0, updated: 0, totalFetched: 0, errors: [] },
+      contact: { success: false, created: 0, updated: 0, totalFetched: 0, errors: [] },
       invoice: { success: false, created: 0, updated: 0, totalFetched: 0, errors: [] },
       payment: { success: false, created: 0, updated: 0, totalFetched: 0, errors: [] },
     };
 
-    const entityTypes = ['customer', 'invoice', 'payment'];
+    // Contacts attach to customers by business account, so they run after
+    // customers have been brought up to date
+    const entityTypes = ['customer', 'contact', 'invoice', 'payment'];
 
     const syncEntity = async (entityType: string) => {
       try {
@@ -212,7 +215,7 @@ Deno.serve(async (req: Request) => {
     };
 
     console.log('[MASTER-SYNC] Running syncs SEQUENTIALLY to prevent race conditions');
-    console.log('[MASTER-SYNC] Order: customer → invoice → payment');
+    console.log('[MASTER-SYNC] Order: customer → contact → invoice → payment');
 
     for (const entityType of entityTypes) {
       await syncEntity(entityType);
@@ -220,9 +223,9 @@ Deno.serve(async (req: Request) => {
     }
 
     const totalDuration = Date.now() - syncStartTime;
-    const totalCreated = results.customer.created + results.invoice.created + results.payment.created;
-    const totalUpdated = results.customer.updated + results.invoice.updated + results.payment.updated;
-    const totalFetched = results.customer.totalFetched + results.invoice.totalFetched + results.payment.totalFetched;
+    const totalCreated = results.customer.created + results.contact.created + results.invoice.created + results.payment.created;
+    const totalUpdated = results.customer.updated + results.contact.updated + results.invoice.updated + results.payment.updated;
+    const totalFetched = results.customer.totalFetched + results.contact.totalFetched + results.invoice.totalFetched + results.payment.totalFetched;
 
     return new Response(
       JSON.stringify({
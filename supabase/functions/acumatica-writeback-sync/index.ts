@@ -0,0 +1,266 @@
+import "jsr:@supabase/functions-js/edge-runtime.d.ts";
+import { createClient } from "npm:@supabase/supabase-js@2.57.4";
+import { AcumaticaSessionManager } from "../_shared/acumatica-session.ts";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Methods": "GET, POST, PUT, DELETE, OPTIONS",
+  "Access-Control-Allow-Headers": "Content-Type, Authorization, X-Client-Info, Apikey",
+};
+
+// Invoice attributes the collector fields are written to. Override per tenant
+// with env vars if the Acumatica instance uses different attribute IDs.
+const PROMISE_DATE_ATTRIBUTE = Deno.env.get("ACUMATICA_PROMISE_DATE_ATTRIBUTE") || "PROMISEDT";
+const COLOR_STATUS_ATTRIBUTE = Deno.env.get("ACUMATICA_COLOR_STATUS_ATTRIBUTE") || "COLLSTATUS";
+
+const BATCH_SIZE = 25;
+const BASE_RETRY_DELAY_MIN = 5;
+
+interface QueueItem {
+  id: string;
+  action_type: 'memo' | 'promise_date' | 'color_status';
+  invoice_id: string | null;
+  invoice_reference: string;
+  invoice_type: string | null;
+  payload: any;
+  attempts: number;
+  max_attempts: number;
+  created_at: string;
+}
+
+// Tags each note line with its queue row, so a retry can tell its own line is
+// already on the invoice while an identical change queued separately is
+// still written.
+function queueMarker(item: QueueItem): string {
+  return `(#${item.id.slice(0, 8)})`;
+}
+
+// Stamped with when the change was queued, not when it is pushed.
+function formatNoteLine(item: QueueItem): string {
+  return `${formatNoteText(item)} ${queueMarker(item)}`;
+}
+
+function formatNoteText(item: QueueItem): string {
+  const stamp = (item.created_at || new Date().toISOString()).split('T')[0];
+  switch (item.action_type) {
+    case 'memo': {
+      const author = item.payload?.author ? ` (${item.payload.author})` : '';
+      return `[Collector memo ${stamp}${author}] ${item.payload?.memo_text || ''}`.trim();
+    }
+    case 'promise_date':
+      return item.payload?.promise_date
+        ? `[Collector ${stamp}] Customer promised to pay by ${String(item.payload.promise_date).split('T')[0]}`
+        : `[Collector ${stamp}] Promise date cleared`;
+    case 'color_status':
+      return `[Collector ${stamp}] Collection status set to ${item.payload?.color_status || 'none'}`;
+  }
+}
+
+function buildAttributeUpdate(item: QueueItem): Record<string, any> | null {
+  if (item.action_type === 'promise_date') {
+    return {
+      [`Attribute${PROMISE_DATE_ATTRIBUTE}`]: {
+        type: "CustomDateField",
+        value: item.payload?.promise_date || null,
+      },
+    };
+  }
+  if (item.action_type === 'color_status') {
+    return {
+      [`Attribute${COLOR_STATUS_ATTRIBUTE}`]: {
+        type: "CustomStringField",
+        value: item.payload?.color_status || null,
+      },
+    };
+  }
+  return null;
+}
+
+async function pushItem(
+  sessionManager: AcumaticaSessionManager,
+  credentials: any,
+  item: QueueItem
+): Promise<void> {
+  const invoiceType = item.invoice_type || 'Invoice';
+  const invoiceUrl = `${credentials.acumaticaUrl}/entity/Default/24.200.001/Invoice/${encodeURIComponent(invoiceType)}/${encodeURIComponent(item.invoice_reference)}`;
+
+  // Read the current note so the collector line is appended, never overwriting
+  // what AR staff already wrote in Acumatica.
+  const getResponse = await sessionManager.makeAuthenticatedRequest(credentials, `${invoiceUrl}?$select=ReferenceNbr,Type,note`, {
+    method: "GET",
+    headers: { "Content-Type": "application/json", "Accept": "application/json" },
+  });
+
+  if (!getResponse.ok) {
+    const errorText = await getResponse.text();
+    throw new Error(`Failed to load invoice ${item.invoice_reference}: ${getResponse.status} ${errorText.substring(0, 300)}`);
+  }
+
+  const current = await getResponse.json();
+  const existingNote: string = current?.note?.value || '';
+  const noteLine = formatNoteLine(item);
+  // An earlier attempt may have written the note and then failed
+  const alreadyNoted = existingNote.includes(queueMarker(item));
+  const attributeUpdate = buildAttributeUpdate(item);
+
+  if (alreadyNoted && !attributeUpdate) {
+    return;
+  }
+
+  const body: any = {
+    Type: { value: invoiceType },
+    ReferenceNbr: { value: item.invoice_reference },
+  };
+
+  if (!alreadyNoted) {
+    body.note = { value: existingNote ? `${existingNote}\n${noteLine}` : noteLine };
+  }
+
+  if (attributeUpdate) {
+    body.custom = { Document: attributeUpdate };
+  }
+
+  const putResponse = await sessionManager.makeAuthenticatedRequest(
+    credentials,
+    `${credentials.acumaticaUrl}/entity/Default/24.200.001/Invoice`,
+    {
+      method: "PUT",
+      headers: { "Content-Type": "application/json", "Accept": "application/json" },
+      body: JSON.stringify(body),
+    }
+  );
+
+  if (!putResponse.ok) {
+    const errorText = await putResponse.text();
+    throw new Error(`Acumatica rejected update for ${item.invoice_reference}: ${putResponse.status} ${errorText.substring(0, 300)}`);
+  }
+}
+
+Deno.serve(async (req: Request) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, { status: 200, headers: corsHeaders });
+  }
+
+  try {
+    const supabaseUrl = Deno.env.get("SUPABASE_URL")!;
+    const supabaseKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
+    const supabase = createClient(supabaseUrl, supabaseKey);
+    const sessionManager = new AcumaticaSessionManager(supabaseUrl, supabaseKey);
+
+    const requestBody = await req.json().catch(() => ({}));
+    const limit = Math.min(Number(requestBody.limit) || BATCH_SIZE, 100);
+
+    const { data: config, error: configError } = await supabase
+      .from('acumatica_sync_credentials')
+      .select('*')
+      .limit(1)
+      .maybeSingle();
+
+    if (configError || !config) {
+      return new Response(
+        JSON.stringify({ error: "Missing Acumatica credentials. Please configure sync settings first." }),
+        { status: 400, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    let acumaticaUrl = config.acumatica_url;
+    if (acumaticaUrl && !acumaticaUrl.startsWith("http://") && !acumaticaUrl.startsWith("https://")) {
+      acumaticaUrl = `https://${acumaticaUrl}`;
+    }
+
+    const credentials = {
+      acumaticaUrl,
+      username: config.username,
+      password: config.password,
+      company: config.company || "",
+      branch: config.branch || "",
+    };
+
+    const { data: items, error: claimError } = await supabase.rpc('claim_acumatica_writeback_batch', { p_limit: limit });
+    if (claimError) throw claimError;
+
+    const queue: QueueItem[] = items || [];
+    let pushed = 0;
+    let failed = 0;
+    let retrying = 0;
+    const errors: string[] = [];
+
+    for (const item of queue) {
+      try {
+        await pushItem(sessionManager, credentials, item);
+
+        await supabase
+          .from('acumatica_writeback_queue')
+          .update({
+            status: 'pushed',
+            pushed_at: new Date().toISOString(),
+            last_error: null,
+            updated_at: new Date().toISOString(),
+          })
+          .eq('id', item.id);
+
+        await supabase.rpc('log_sync_change', {
+          p_sync_type: 'invoice',
+          p_action_type: 'pushed',
+          p_entity_id: item.invoice_id,
+          p_entity_reference: item.invoice_reference,
+          p_entity_name: `Invoice ${item.invoice_reference}`,
+          p_change_summary: `Pushed collector ${item.action_type.replace('_', ' ')} to Acumatica invoice ${item.invoice_reference}`,
+          p_change_details: { queue_id: item.id, action: item.action_type, attempts: item.attempts },
+          p_sync_source: 'writeback'
+        });
+
+        pushed++;
+      } catch (err) {
+        const message = err instanceof Error ? err.message : String(err);
+        errors.push(message);
+        const exhausted = item.attempts >= item.max_attempts;
+        const delayMinutes = BASE_RETRY_DELAY_MIN * Math.pow(2, item.attempts - 1);
+
+        await supabase
+          .from('acumatica_writeback_queue')
+          .update({
+            status: exhausted ? 'failed' : 'pending',
+            last_error: message.substring(0, 1000),
+            next_attempt_at: new Date(Date.now() + delayMinutes * 60 * 1000).toISOString(),
+            updated_at: new Date().toISOString(),
+          })
+          .eq('id', item.id);
+
+        if (exhausted) {
+          failed++;
+          await supabase.rpc('log_sync_change', {
+            p_sync_type: 'invoice',
+            p_action_type: 'push_failed',
+            p_entity_id: item.invoice_id,
+            p_entity_reference: item.invoice_reference,
+            p_entity_name: `Invoice ${item.invoice_reference}`,
+            p_change_summary: `Gave up pushing collector ${item.action_type.replace('_', ' ')} after ${item.attempts} attempts`,
+            p_change_details: { queue_id: item.id, action: item.action_type, error: message.substring(0, 200) },
+            p_sync_source: 'writeback'
+          });
+        } else {
+          retrying++;
+        }
+      }
+    }
+
+    return new Response(
+      JSON.stringify({
+        success: true,
+        claimed: queue.length,
+        pushed,
+        retrying,
+        failed,
+        errors: errors.slice(0, 10),
+      }),
+      { headers: { ...corsHeaders, "Content-Type": "application/json" } }
+    );
+  } catch (err) {
+    console.error('Error in acumatica writeback sync:', err);
+    return new Response(
+      JSON.stringify({ success: false, error: err.message }),
+      { status: 500, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+    );
+  }
+});
@@ -0,0 +1,581 @@
+import "jsr:@supabase/functions-js/edge-runtime.d.ts";
+import { createClient } from "npm:@supabase/supabase-js@2.57.4";
+import { loadDisputedInvoiceRefs } from "../_shared/invoice-disputes.ts";
+import { createCheckoutSession, StripeError } from "../_shared/stripe.ts";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Methods": "POST, OPTIONS",
+  "Access-Control-Allow-Headers": "Content-Type, Authorization, X-Client-Info, Apikey",
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const PAYMENT_HISTORY_DAYS = 365;
+const MAX_SUBMISSIONS_PER_DAY = 10;
+const MAX_MESSAGE_LENGTH = 2000;
+const DISPUTE_REASONS = ["pricing", "damaged", "not_received", "duplicate_billing", "other"];
+const MAX_CHECKOUTS_PER_DAY = 20;
+const MIN_CHECKOUT_AMOUNT = 0.5;
+
+interface PortalToken {
+  id: string;
+  organization_id: string;
+  customer_id: string;
+  expires_at: string;
+  revoked_at: string | null;
+  access_count: number;
+  created_via: string;
+}
+
+interface SubmitRequest {
+  submission_type: 'promise_to_pay' | 'dispute';
+  reason_code?: string;
+  invoice_reference_numbers?: string[];
+  promise_date?: string;
+  amount?: number;
+  message?: string;
+  contact_name?: string;
+  contact_email?: string;
+}
+
+interface CheckoutRequest {
+  allocations?: { invoice_reference: string; amount: number }[];
+  ticket_id?: string;
+}
+
+class PortalError extends Error {
+  constructor(message: string, public status: number) {
+    super(message);
+  }
+}
+
+function jsonResponse(body: unknown, status = 200) {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, "Content-Type": "application/json" },
+  });
+}
+
+async function sha256Hex(value: string): Promise<string> {
+  const digest = await crypto.subtle.digest("SHA-256", new TextEncoder().encode(value));
+  return Array.from(new Uint8Array(digest))
+    .map((b) => b.toString(16).padStart(2, "0"))
+    .join("");
+}
+
+async function resolveToken(supabase: any, token: unknown): Promise<PortalToken> {
+  if (typeof token !== "string" || !/^[0-9a-f]{64}$/.test(token)) {
+    throw new PortalError("This link is not valid.", 401);
+  }
+
+  const { data, error } = await supabase
+    .from("customer_portal_tokens")
+    .select("id, organization_id, customer_id, expires_at, revoked_at, access_count, created_via")
+    .eq("token_hash", await sha256Hex(token))
+    .maybeSingle();
+
+  if (error) throw error;
+  if (!data || data.revoked_at) {
+    throw new PortalError("This link is not valid.", 401);
+  }
+  if (new Date(data.expires_at).getTime() < Date.now()) {
+    throw new PortalError("This link has expired. Please contact us for a new statement.", 410);
+  }
+
+  await supabase
+    .from("customer_portal_tokens")
+    .update({ last_accessed_at: new Date().toISOString(), access_count: data.access_count + 1 })
+    .eq("id", data.id);
+
+  return data;
+}
+
+// Same invoice set and sign handling as the staff statements page, so the
+// customer sees the statement they were emailed.
+async function loadOpenInvoices(supabase: any, portalToken: PortalToken) {
+  const { data, error } = await supabase
+    .from("acumatica_invoices")
+    .select("reference_number, date, due_date, amount, dac_total, balance, status, description, type")
+    .eq("organization_id", portalToken.organization_id)
+    .eq("customer", portalToken.customer_id)
+    .gt("balance", 0)
+    .neq("status", "On Hold")
+    .neq("status", "Voided")
+    .neq("status", "Draft")
+    .order("due_date", { ascending: true });
+
+  if (error) throw error;
+
+  const disputedRefs = await loadDisputedInvoiceRefs(supabase, portalToken.organization_id);
+
+  // Online payments Acumatica has not applied yet; shown as pending and not
+  // payable again.
+  const { data: pendingRows } = await supabase
+    .from("stripe_invoice_payments")
+    .select("invoice_reference_number, amount_paid")
+    .eq("organization_id", portalToken.organization_id)
+    .eq("customer_id", portalToken.customer_id)
+    .eq("status", "pending_posting");
+
+  const pendingByRef = new Map<string, number>();
+  (pendingRows || []).forEach((row: any) => {
+    pendingByRef.set(row.invoice_reference_number, (pendingByRef.get(row.invoice_reference_number) || 0) + Number(row.amount_paid));
+  });
+
+  const today = Date.now();
+  return (data || []).map((inv: any) => {
+    const dueTime = inv.due_date ? new Date(inv.due_date).getTime() : today;
+    const daysOverdue = Math.max(0, Math.floor((today - dueTime) / DAY_MS));
+    const isCredit = inv.type === "Credit Memo" || inv.type === "Credit WO";
+    const rawAmount = Number(inv.amount) || Number(inv.dac_total) || 0;
+    const rawBalance = Number(inv.balance) || 0;
+    return {
+      reference_number: inv.reference_number,
+      date: inv.date,
+      due_date: inv.due_date,
+      amount: isCredit ? -Math.abs(rawAmount) : rawAmount,
+      balance: isCredit ? -Math.abs(rawBalance) : rawBalance,
+      status: inv.status,
+      description: inv.description || "",
+      days_overdue: isCredit ? 0 : daysOverdue,
+      type: inv.type || "Invoice",
+      disputed: !isCredit && disputedRefs.has(inv.reference_number),
+      payment_pending: isCredit ? 0 : pendingByRef.get(inv.reference_number) || 0,
+    };
+  });
+}
+
+async function handleView(supabase: any, portalToken: PortalToken) {
+  const { data: customer, error: customerError } = await supabase
+    .from("acumatica_customers")
+    .select("customer_id, customer_name, email_address, billing_email, terms")
+    .eq("organization_id", portalToken.organization_id)
+    .eq("customer_id", portalToken.customer_id)
+    .maybeSingle();
+
+  if (customerError) throw customerError;
+  if (!customer) throw new PortalError("Account not found.", 404);
+
+  const invoices = await loadOpenInvoices(supabase, portalToken);
+
+  const since = new Date(Date.now() - PAYMENT_HISTORY_DAYS * DAY_MS).toISOString().split("T")[0];
+  const { data: payments, error: paymentsError } = await supabase
+    .from("acumatica_payments")
+    .select("reference_number, type, status, application_date, doc_date, payment_amount, payment_method, description")
+    .eq("organization_id", portalToken.organization_id)
+    .eq("customer_id", portalToken.customer_id)
+    .neq("status", "Voided")
+    .gte("application_date", since)
+    .order("application_date", { ascending: false })
+    .limit(200);
+
+  if (paymentsError) throw paymentsError;
+
+  const { data: submissions } = await supabase
+    .from("customer_portal_submissions")
+    .select("id, submission_type, invoice_reference_numbers, promise_date, amount, created_at")
+    .eq("customer_id", portalToken.customer_id)
+    .eq("organization_id", portalToken.organization_id)
+    .order("created_at", { ascending: false })
+    .limit(20);
+
+  return {
+    success: true,
+    customer: {
+      customer_id: customer.customer_id,
+      customer_name: customer.customer_name,
+      email: customer.billing_email || customer.email_address || "",
+      terms: customer.terms || "",
+    },
+    invoices,
+    payments: payments || [],
+    submissions: submissions || [],
+    expires_at: portalToken.expires_at,
+  };
+}
+
+function buildNoteText(request: SubmitRequest, invoiceRefs: string[]): string {
+  const lines: string[] = [];
+  const who = [request.contact_name, request.contact_email].filter(Boolean).join(" / ") || "Customer";
+
+  if (request.submission_type === "promise_to_pay") {
+    const amount = request.amount ? ` of $${Number(request.amount).toFixed(2)}` : "";
+    lines.push(`[Customer portal] Promise to pay${amount} by ${request.promise_date}, submitted by ${who}.`);
+  } else {
+    const reason = request.reason_code ? ` (${request.reason_code.replace(/_/g, " ")})` : "";
+    lines.push(`[Customer portal] Dispute${reason} submitted by ${who}.`);
+  }
+  if (invoiceRefs.length > 0) {
+    lines.push(`Invoices: ${invoiceRefs.join(", ")}`);
+  }
+  if (request.message) {
+    lines.push(`Message: ${request.message}`);
+  }
+  return lines.join("\n");
+}
+
+async function findOrCreateTicket(
+  supabase: any,
+  portalToken: PortalToken,
+  customerName: string,
+  invoiceRefs: string[]
+): Promise<string> {
+  const { data: existing } = await supabase
+    .from("collection_tickets")
+    .select("id")
+    .eq("organization_id", portalToken.organization_id)
+    .eq("customer_id", portalToken.customer_id)
+    .not("status", "in", "(closed,resolved)")
+    .order("created_at", { ascending: false })
+    .limit(1)
+    .maybeSingle();
+
+  if (existing) return existing.id;
+
+  const { data: assignment } = await supabase
+    .from("collector_customer_assignments")
+    .select("assigned_collector_id")
+    .eq("customer_id", portalToken.customer_id)
+    .maybeSingle();
+
+  const collectorId = assignment?.assigned_collector_id || null;
+
+  const { data: ticket, error: ticketError } = await supabase
+    .from("collection_tickets")
+    .insert({
+      organization_id: portalToken.organization_id,
+      customer_id: portalToken.customer_id,
+      customer_name: customerName,
+      assigned_collector_id: collectorId,
+      priority: "medium",
+      status: "open",
+      ticket_type: "overdue payment",
+    })
+    .select("id")
+    .single();
+
+  if (ticketError) throw ticketError;
+
+  if (collectorId) {
+    for (const refNumber of invoiceRefs) {
+      await supabase.from("invoice_assignments").upsert({
+        invoice_reference_number: refNumber,
+        assigned_collector_id: collectorId,
+        ticket_id: ticket.id,
+      }, {
+        onConflict: "invoice_reference_number",
+      });
+    }
+  }
+
+  await supabase.from("ticket_activity_log").insert({
+    ticket_id: ticket.id,
+    activity_type: "created",
+    description: "Created from a customer portal submission",
+    metadata: { source: "customer_portal" },
+  });
+
+  return ticket.id;
+}
+
+async function openPortalDispute(
+  supabase: any,
+  portalToken: PortalToken,
+  customerName: string,
+  request: SubmitRequest,
+  invoices: any[],
+  invoiceRefs: string[],
+  ticketId: string,
+  submissionId: string
+) {
+  const disputed = invoices.filter((inv) => invoiceRefs.includes(inv.reference_number));
+
+  const { data: dispute, error: disputeError } = await supabase
+    .from("invoice_disputes")
+    .insert({
+      organization_id: portalToken.organization_id,
+      customer_id: portalToken.customer_id,
+      customer_name: customerName,
+      reason_code: DISPUTE_REASONS.includes(request.reason_code || "") ? request.reason_code : "other",
+      description: request.message,
+      disputed_amount: disputed.reduce((sum, inv) => sum + inv.balance, 0),
+      source: "customer_portal",
+      portal_submission_id: submissionId,
+      ticket_id: ticketId,
+    })
+    .select("id")
+    .single();
+
+  if (disputeError) throw disputeError;
+
+  const { error: invoicesError } = await supabase
+    .from("invoice_dispute_invoices")
+    .insert(disputed.map((inv) => ({
+      organization_id: portalToken.organization_id,
+      dispute_id: dispute.id,
+      invoice_reference_number: inv.reference_number,
+      balance_at_dispute: inv.balance,
+    })));
+
+  if (invoicesError) throw invoicesError;
+}
+
+async function handleSubmit(supabase: any, portalToken: PortalToken, request: SubmitRequest, sourceIp: string | null) {
+  if (request.submission_type !== "promise_to_pay" && request.submission_type !== "dispute") {
+    throw new PortalError("Unknown submission type.", 400);
+  }
+
+  const since = new Date(Date.now() - DAY_MS).toISOString();
+  const { count } = await supabase
+    .from("customer_portal_submissions")
+    .select("id", { count: "exact", head: true })
+    .eq("token_id", portalToken.id)
+    .gte("created_at", since);
+
+  if ((count || 0) >= MAX_SUBMISSIONS_PER_DAY) {
+    throw new PortalError("Too many submissions from this link today. Please contact us directly.", 429);
+  }
+
+  const invoices = await loadOpenInvoices(supabase, portalToken);
+  const openRefs = new Set(invoices.map((inv: any) => inv.reference_number));
+  const invoiceRefs = (request.invoice_reference_numbers || []).filter((ref) => openRefs.has(ref));
+  const message = (request.message || "").trim().slice(0, MAX_MESSAGE_LENGTH);
+
+  let amount: number | undefined;
+  if (request.submission_type === "promise_to_pay") {
+    if (!request.promise_date || Number.isNaN(new Date(request.promise_date).getTime())) {
+      throw new PortalError("Please choose the date you expect to pay.", 400);
+    }
+    // The amount is optional; when given it must be a positive number
+    if (request.amount !== undefined && request.amount !== null && String(request.amount).trim() !== "") {
+      amount = Number(request.amount);
+      if (!Number.isFinite(amount) || amount <= 0) {
+        throw new PortalError("Please enter the amount you expect to pay as a positive number.", 400);
+      }
+    }
+  } else if (invoiceRefs.length === 0 || !message) {
+    throw new PortalError("Please select the disputed invoice(s) and describe the issue.", 400);
+  }
+
+  const { data: customer } = await supabase
+    .from("acumatica_customers")
+    .select("customer_name")
+    .eq("organization_id", portalToken.organization_id)
+    .eq("customer_id", portalToken.customer_id)
+    .maybeSingle();
+
+  const customerName = customer?.customer_name || portalToken.customer_id;
+  const cleaned: SubmitRequest = {
+    ...request,
+    amount,
+    message,
+    contact_name: request.contact_name?.trim().slice(0, 200) || undefined,
+    contact_email: request.contact_email?.trim().slice(0, 200) || undefined,
+  };
+
+  const ticketId = await findOrCreateTicket(supabase, portalToken, customerName, invoiceRefs);
+
+  const { data: note, error: noteError } = await supabase
+    .from("ticket_notes")
+    .insert({
+      ticket_id: ticketId,
+      note_text: buildNoteText(cleaned, invoiceRefs),
+      source: "customer_portal",
+      author_name: cleaned.contact_name || customerName,
+    })
+    .select("id")
+    .single();
+
+  if (noteError) throw noteError;
+
+  const { data: submission, error: submissionError } = await supabase
+    .from("customer_portal_submissions")
+    .insert({
+      organization_id: portalToken.organization_id,
+      token_id: portalToken.id,
+      customer_id: portalToken.customer_id,
+      submission_type: cleaned.submission_type,
+      invoice_reference_numbers: invoiceRefs,
+      promise_date: cleaned.submission_type === "promise_to_pay" ? cleaned.promise_date : null,
+      amount: cleaned.amount ?? null,
+      message: message || null,
+      contact_name: cleaned.contact_name || null,
+      contact_email: cleaned.contact_email || null,
+      ticket_id: ticketId,
+      ticket_note_id: note.id,
+      source_ip: sourceIp,
+    })
+    .select("id")
+    .single();
+
+  if (submissionError) throw submissionError;
+
+  if (cleaned.submission_type === "dispute") {
+    await openPortalDispute(supabase, portalToken, customerName, cleaned, invoices, invoiceRefs, ticketId, submission.id);
+  }
+
+  return { success: true };
+}
+
+async function handleCheckout(supabase: any, portalToken: PortalToken, token: string, request: CheckoutRequest) {
+  const since = new Date(Date.now() - DAY_MS).toISOString();
+  const { count } = await supabase
+    .from("stripe_checkout_sessions")
+    .select("id", { count: "exact", head: true })
+    .eq("portal_token_id", portalToken.id)
+    .gte("created_at", since);
+
+  if ((count || 0) >= MAX_CHECKOUTS_PER_DAY) {
+    throw new PortalError("Too many payment attempts from this link today. Please contact us directly.", 429);
+  }
+
+  // Stripe sends the customer back to the portal on our own domain, never to
+  // an address taken from the request
+  const portalBaseUrl = Deno.env.get("PORTAL_BASE_URL");
+  if (!portalBaseUrl) {
+    throw new PortalError("Online payments are not configured.", 503);
+  }
+  const returnBase = `${portalBaseUrl.replace(/\/+$/, "")}/portal/${token}`;
+
+  const invoices = await loadOpenInvoices(supabase, portalToken);
+  const byRef = new Map(invoices.map((inv: any) => [inv.reference_number, inv]));
+  const seen = new Set<string>();
+  const allocations: { invoice_reference: string; amount: number }[] = [];
+
+  for (const alloc of request.allocations || []) {
+    const inv: any = byRef.get(alloc.invoice_reference);
+    if (!inv || inv.balance <= 0 || seen.has(alloc.invoice_reference)) {
+      throw new PortalError(`Invoice ${alloc.invoice_reference} is not open for payment.`, 400);
+    }
+    seen.add(alloc.invoice_reference);
+
+    const amount = Math.round(Number(alloc.amount) * 100) / 100;
+    const payable = Math.round((inv.balance - inv.payment_pending) * 100) / 100;
+    if (!(amount > 0) || amount > payable) {
+      throw new PortalError(`The amount for invoice ${inv.reference_number} must be between $0.01 and $${payable.toFixed(2)}.`, 400);
+    }
+    allocations.push({ invoice_reference: inv.reference_number, amount });
+  }
+
+  if (allocations.length === 0) {
+    throw new PortalError("Please choose at least one invoice to pay.", 400);
+  }
+
+  const total = Math.round(allocations.reduce((sum, a) => sum + a.amount, 0) * 100) / 100;
+  if (total < MIN_CHECKOUT_AMOUNT) {
+    throw new PortalError(`The minimum online payment is $${MIN_CHECKOUT_AMOUNT.toFixed(2)}.`, 400);
+  }
+
+  // Only link the session to a ticket of this customer (ticket emails pass it
+  // through the pay link).
+  let ticketId: string | null = null;
+  if (request.ticket_id) {
+    const { data: ticket } = await supabase
+      .from("collection_tickets")
+      .select("id")
+      .eq("id", request.ticket_id)
+      .eq("organization_id", portalToken.organization_id)
+      .eq("customer_id", portalToken.customer_id)
+      .maybeSingle();
+    ticketId = ticket?.id || null;
+  }
+
+  const { data: customer } = await supabase
+    .from("acumatica_customers")
+    .select("customer_name, email_address, billing_email")
+    .eq("organization_id", portalToken.organization_id)
+    .eq("customer_id", portalToken.customer_id)
+    .maybeSingle();
+
+  const checkoutId = crypto.randomUUID();
+  const customerEmail = customer?.billing_email || customer?.email_address || undefined;
+  const metadata = {
+    checkout_id: checkoutId,
+    organization_id: portalToken.organization_id,
+    customer_id: portalToken.customer_id,
+    invoices: allocations.map((a) => a.invoice_reference).join(",").slice(0, 500),
+  };
+
+  let session;
+  try {
+    session = await createCheckoutSession({
+      currency: "usd",
+      successUrl: `${returnBase}?payment=success`,
+      cancelUrl: `${returnBase}?payment=cancelled`,
+      customerEmail,
+      clientReferenceId: portalToken.customer_id,
+      metadata,
+      idempotencyKey: checkoutId,
+      lineItems: allocations.map((a) => {
+        const inv: any = byRef.get(a.invoice_reference);
+        const partial = a.amount < inv.balance;
+        return {
+          name: `Invoice ${a.invoice_reference}`,
+          description: partial ? `Partial payment of ${inv.balance.toFixed(2)} balance` : inv.description || undefined,
+          amountCents: Math.round(a.amount * 100),
+        };
+      }),
+    });
+  } catch (err) {
+    if (err instanceof StripeError) {
+      console.error("Stripe checkout error:", err.message);
+      throw new PortalError(err.status === 503 ? err.message : "We could not start the payment. Please try again later.", 502);
+    }
+    throw err;
+  }
+
+  const { error: insertError } = await supabase.from("stripe_checkout_sessions").insert({
+    id: checkoutId,
+    organization_id: portalToken.organization_id,
+    customer_id: portalToken.customer_id,
+    customer_name: customer?.customer_name || null,
+    customer_email: customerEmail || null,
+    session_id: session.id,
+    checkout_url: session.url,
+    payment_intent_id: session.payment_intent,
+    amount: total,
+    source: portalToken.created_via === "statement_email" || portalToken.created_via === "ticket_email"
+      ? portalToken.created_via
+      : "portal",
+    portal_token_id: portalToken.id,
+    ticket_id: ticketId,
+    allocations,
+    expires_at: session.expires_at ? new Date(session.expires_at * 1000).toISOString() : null,
+  });
+
+  if (insertError) throw insertError;
+
+  return { success: true, url: session.url };
+}
+
+Deno.serve(async (req: Request) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, { status: 200, headers: corsHeaders });
+  }
+
+  try {
+    const supabaseUrl = Deno.env.get("SUPABASE_URL")!;
+    const supabaseServiceKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
+    const supabase = createClient(supabaseUrl, supabaseServiceKey);
+
+    const body = await req.json().catch(() => ({}));
+    const portalToken = await resolveToken(supabase, body.token);
+
+    if (body.action === "checkout") {
+      return jsonResponse(await handleCheckout(supabase, portalToken, body.token, body as CheckoutRequest));
+    }
+
+    if (body.action === "submit") {
+      const sourceIp = req.headers.get("x-forwarded-for")?.split(",")[0].trim() || null;
+      return jsonResponse(await handleSubmit(supabase, portalToken, body as SubmitRequest, sourceIp));
+    }
+
+    return jsonResponse(await handleView(supabase, portalToken));
+  } catch (err) {
+    if (err instanceof PortalError) {
+      return jsonResponse({ success: false, error: err.message }, err.status);
+    }
+    console.error("Customer portal error:", err);
+    return jsonResponse({ success: false, error: "Something went wrong. Please try again later." }, 500);
+  }
+});
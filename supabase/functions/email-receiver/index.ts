@@ -1,5 +1,6 @@
 import "jsr:@supabase/functions-js/edge-runtime.d.ts";
 import { createClient } from "npm:@supabase/supabase-js@2.57.4";
+import { resolveContactByEmail } from "../_shared/customer-contacts.ts";
 
 const corsHeaders = {
   "Access-Control-Allow-Origin": "*",
@@ -90,6 +91,74 @@ Return a JSON object with:
   }
 }
 
+// Stop / postpone change whether a customer hears from us, so they are
+// recorded as proposals and applied straight away only when auto-apply is on
+// for the intent and the model is at least as confident as its threshold.
+// Everything else waits for a person in the inbox review queue.
+async function proposeIntentAction(
+  supabase: any,
+  inboundEmailId: string,
+  customerId: string,
+  analysis: EmailAnalysis
+): Promise<string> {
+  const { data: setting } = await supabase
+    .from('email_intent_settings')
+    .select('auto_apply, min_confidence, postpone_days')
+    .eq('intent', analysis.intent)
+    .maybeSingle();
+
+  const confidence = Math.min(Math.max(Number(analysis.confidence) || 0, 0), 1);
+  let actionType: string;
+  let proposedChanges: Record<string, unknown>;
+
+  if (analysis.intent === 'stop') {
+    actionType = 'deactivate_customer';
+    proposedChanges = { is_active: false };
+  } else {
+    const postponeDate = new Date();
+    postponeDate.setDate(postponeDate.getDate() + (setting?.postpone_days || 7));
+    actionType = 'postpone_emails';
+    proposedChanges = {
+      postpone_until: postponeDate.toISOString(),
+      postpone_reason: 'Customer requested more time (AI-detected)',
+    };
+  }
+
+  const { data: action, error } = await supabase
+    .from('email_intent_actions')
+    .insert({
+      inbound_email_id: inboundEmailId,
+      customer_id: customerId,
+      intent: analysis.intent,
+      action_type: actionType,
+      confidence,
+      reasoning: analysis.reasoning,
+      proposed_changes: proposedChanges,
+    })
+    .select('id')
+    .single();
+
+  if (error) throw error;
+
+  if (!setting?.auto_apply || confidence < Number(setting.min_confidence)) {
+    return 'queued_for_review';
+  }
+
+  const { error: applyError } = await supabase.rpc('apply_email_intent_action', {
+    p_action_id: action.id,
+    p_changes: null,
+    p_user_id: null,
+    p_note: `Applied automatically at ${Math.round(confidence * 100)}% confidence`,
+  });
+
+  if (applyError) {
+    console.error('Auto-apply failed, left for review:', applyError);
+    return 'queued_for_review';
+  }
+
+  return actionType === 'deactivate_customer' ? 'deactivated_customer' : 'postponed_emails';
+}
+
 function extractTextFromHtml(html: string): string {
   return html
     .replace(/<style[^>]*>[\s\S]*?<\/style>/gi, '')
@@ -118,6 +187,141 @@ function cleanEmailBody(body: string): string {
   return cleaned;
 }
 
+// SendGrid Inbound Parse posts the raw header block in `headers`; threading
+// headers only arrive as separate fields from other senders.
+function readHeader(payload: Record<string, string>, name: string): string | undefined {
+  const direct = payload[name] || payload[name.toLowerCase()];
+  if (direct) return direct;
+  if (!payload.headers) return undefined;
+
+  const unfolded = payload.headers.replace(/\r?\n[ \t]+/g, ' ');
+  const match = unfolded.match(new RegExp(`^${name}:[ \\t]*(.*)$`, 'im'));
+  return match ? match[1].trim() : undefined;
+}
+
+// Outbound ticket emails carry this marker (see send-ticket-email).
+const TICKET_REPLY_MARKER = /\[ref:([0-9a-f]{24})\]/i;
+
+interface TicketThread {
+  id: string;
+  ticket_id: string;
+  customer_id: string;
+  from_email: string;
+}
+
+async function findTicketThread(supabase: any, referencedIds: string[], rawText: string): Promise<TicketThread | null> {
+  if (referencedIds.length > 0) {
+    const { data } = await supabase
+      .from('ticket_email_threads')
+      .select('id, ticket_id, customer_id, from_email')
+      .eq('direction', 'outbound')
+      .in('message_id', referencedIds)
+      .order('created_at', { ascending: false })
+      .limit(1)
+      .maybeSingle();
+
+    if (data) return data;
+  }
+
+  const marker = rawText.match(TICKET_REPLY_MARKER);
+  if (marker) {
+    const { data } = await supabase
+      .from('ticket_email_threads')
+      .select('id, ticket_id, customer_id, from_email')
+      .eq('reply_token', marker[1].toLowerCase())
+      .maybeSingle();
+
+    return data;
+  }
+
+  return null;
+}
+
+async function routeTicketReply(
+  supabase: any,
+  thread: TicketThread,
+  reply: { inboundEmailId: string; senderEmail: string; contactId: string | null; toEmail: string; subject: string; body: string; messageId: string | null }
+) {
+  if (reply.messageId) {
+    const { data: duplicate } = await supabase
+      .from('ticket_email_threads')
+      .select('id')
+      .eq('ticket_id', thread.ticket_id)
+      .eq('direction', 'inbound')
+      .eq('message_id', reply.messageId)
+      .maybeSingle();
+
+    if (duplicate) return;
+  }
+
+  const { data: ticket } = await supabase
+    .from('collection_tickets')
+    .select('id, ticket_number, customer_name, status, assigned_collector_id')
+    .eq('id', thread.ticket_id)
+    .maybeSingle();
+
+  if (!ticket) return;
+
+  const { data: inboundThread, error: threadError } = await supabase
+    .from('ticket_email_threads')
+    .insert({
+      ticket_id: ticket.id,
+      customer_id: thread.customer_id,
+      subject: reply.subject,
+      direction: 'inbound',
+      from_email: reply.senderEmail,
+      contact_id: reply.contactId,
+      to_email: reply.toEmail || thread.from_email,
+      body_text: reply.body,
+      in_reply_to: thread.id,
+      message_id: reply.messageId,
+      inbound_email_id: reply.inboundEmailId,
+    })
+    .select('id')
+    .single();
+
+  if (threadError) throw threadError;
+
+  await supabase.from('ticket_activity_log').insert({
+    ticket_id: ticket.id,
+    activity_type: 'email_received',
+    description: `Customer replied from ${reply.senderEmail}: "${reply.subject}"`,
+    metadata: { email_thread_id: inboundThread.id, inbound_email_id: reply.inboundEmailId },
+  });
+
+  const { data: settings } = await supabase
+    .from('email_settings')
+    .select('reopen_ticket_on_reply, notify_collector_on_reply')
+    .limit(1)
+    .maybeSingle();
+
+  if ((settings?.reopen_ticket_on_reply ?? true) && (ticket.status === 'closed' || ticket.status === 'resolved')) {
+    await supabase
+      .from('collection_tickets')
+      .update({ status: 'open', resolved_at: null, updated_at: new Date().toISOString() })
+      .eq('id', ticket.id);
+
+    await supabase.from('ticket_activity_log').insert({
+      ticket_id: ticket.id,
+      activity_type: 'status_change',
+      description: `Status changed from ${ticket.status} to open (customer replied by email)`,
+      metadata: { old_status: ticket.status, new_status: 'open', source: 'email_reply' },
+    });
+  }
+
+  if ((settings?.notify_collector_on_reply ?? true) && ticket.assigned_collector_id) {
+    await supabase.from('invoice_reminders').insert({
+      user_id: ticket.assigned_collector_id,
+      reminder_date: new Date().toISOString(),
+      title: `${ticket.customer_name} replied on ticket ${ticket.ticket_number}`,
+      description: reply.body.slice(0, 500),
+      priority: 'high',
+      reminder_type: 'email',
+      send_email_notification: true,
+    });
+  }
+}
+
 Deno.serve(async (req: Request) => {
   if (req.method === "OPTIONS") {
     return new Response(null, { status: 200, headers: corsHeaders });
@@ -208,8 +412,13 @@ Deno.serve(async (req: Request) => {
       console.error('Customer lookup error:', customerError);
     }
 
+    // The specific person who wrote, among synced and local customer contacts
+    const contact = await resolveContactByEmail(supabase, senderEmail);
+    if (contact) {
+      console.log('Sender matched contact:', contact.contact_id, contact.customer_id);
+    }
+
     const processingStatus = customer ? 'pending' : 'customer_not_found';
-    const folder = customer ? 'inbox' : 'spam';
 
     let normalizedSubject = subject.toLowerCase();
     while (normalizedSubject.match(/^(re:|fwd:|fw:)\s*/i)) {
@@ -217,28 +426,38 @@ Deno.serve(async (req: Request) => {
     }
     normalizedSubject = normalizedSubject.replace(/\s+/g, ' ').trim();
 
-    const inReplyTo = payload['In-Reply-To'] || payload['in-reply-to'];
-    const references = payload['References'] || payload['references'];
-    const messageId = payload['Message-ID'] || payload['message-id'];
+    const inReplyTo = readHeader(payload, 'In-Reply-To');
+    const references = readHeader(payload, 'References');
+    const messageId = readHeader(payload, 'Message-ID');
 
     console.log('Email headers:', { inReplyTo, references, messageId, normalizedSubject });
 
+    const referencedIds: string[] = [];
+    if (inReplyTo) referencedIds.push(inReplyTo);
+    if (references) referencedIds.push(...references.split(/\s+/).filter(Boolean));
+
+    const ticketThread = await findTicketThread(
+      supabase,
+      referencedIds,
+      `${subject}\n${payload.text || ''}\n${payload.html || ''}`
+    );
+    if (ticketThread) {
+      console.log('Reply to ticket email thread:', ticketThread.id);
+    }
+
     const now = new Date();
     const currentMonth = now.getMonth() + 1;
     const currentYear = now.getFullYear();
     const startOfMonth = new Date(currentYear, currentMonth - 1, 1).toISOString();
     const endOfMonth = new Date(currentYear, currentMonth, 1).toISOString();
 
+    // Replies to ticket emails are kept even when the sender is not a
+    // known customer contact.
+    const folder = customer || contact || ticketThread ? 'inbox' : 'spam';
+
     let threadId = null;
     if (customer) {
-      if (inReplyTo || references) {
-        const referencedIds = [];
-        if (inReplyTo) referencedIds.push(inReplyTo);
-        if (references) {
-          const refList = references.split(/\s+/);
-          referencedIds.push(...refList);
-        }
-
+      if (referencedIds.length > 0) {
         const { data: existingEmail } = await supabase
           .from('inbound_emails')
           .select('thread_id, received_at')
@@ -286,6 +505,7 @@ Deno.serve(async (req: Request) => {
       .from('inbound_emails')
       .insert({
         customer_id: customer?.id || null,
+        contact_id: contact?.contact_id || null,
         sender_email: senderEmail,
         subject: subject,
         body: emailBody,
@@ -308,14 +528,36 @@ Deno.serve(async (req: Request) => {
 
     console.log('Email saved:', inboundEmail.id);
 
+    if (ticketThread) {
+      try {
+        await routeTicketReply(supabase, ticketThread, {
+          inboundEmailId: inboundEmail.id,
+          senderEmail,
+          contactId: contact?.contact_id || null,
+          toEmail: payload.to || '',
+          subject,
+          body: emailBody,
+          messageId: messageId || null,
+        });
+      } catch (error) {
+        console.error('Ticket reply routing error:', error);
+      }
+    }
+
     if (!customer) {
-      console.log('Email from non-customer moved to spam:', senderEmail);
+      console.log(`Email from non-customer saved to ${folder}:`, senderEmail);
       return new Response(
         JSON.stringify({
           success: true,
-          message: 'Email received but customer not found - moved to spam',
+          message: ticketThread
+            ? 'Email received from unknown sender - attached to ticket'
+            : contact
+              ? 'Email received from customer contact - kept in inbox'
+              : 'Email received but customer not found - moved to spam',
           email_id: inboundEmail.id,
-          folder: 'spam',
+          folder,
+          contact_id: contact?.contact_id || null,
+          ticket_id: ticketThread?.ticket_id || null,
         }),
         { status: 200, headers: { ...corsHeaders, "Content-Type": "application/json" } }
       );
@@ -378,120 +620,19 @@ Deno.serve(async (req: Request) => {
         }
       }
 
-      await supabase
-        .from('customers')
-        .update({ responded_this_month: true })
-        .eq('id', customer.id);
-
-      const { data: acumaticaCustomer } = await supabase
-        .from('acumatica_customers')
-        .select('customer_id')
-        .or(`email_address.ilike.${senderEmail},general_email.ilike.${senderEmail},billing_email.ilike.${senderEmail}`)
-        .limit(1)
-        .maybeSingle();
-
-      if (acumaticaCustomer?.customer_id) {
-        const acId = acumaticaCustomer.customer_id;
-
-        const { data: existingTracking } = await supabase
-          .from('customer_monthly_tracking')
-          .select('id')
-          .eq('acumatica_customer_id', acId)
-          .eq('month', currentMonth)
-          .eq('year', currentYear)
-          .maybeSingle();
-
-        if (!existingTracking) {
-          await supabase
-            .from('customer_monthly_tracking')
-            .insert({
-              acumatica_customer_id: acId,
-              month: currentMonth,
-              year: currentYear,
-              status: 'responded',
-              emails_received_count: 1,
-              last_response_at: new Date().toISOString(),
-            });
-        } else {
-          await supabase
-            .from('customer_monthly_tracking')
-            .update({
-              status: 'responded',
-              emails_received_count: existingTracking.emails_received_count ? existingTracking.emails_received_count + 1 : 1,
-              last_response_at: new Date().toISOString(),
-            })
-            .eq('id', existingTracking.id);
-        }
-
-        const { data: trackingRecord } = await supabase
-          .from('customer_monthly_tracking')
-          .select('id')
-          .eq('acumatica_customer_id', acId)
-          .eq('month', currentMonth)
-          .eq('year', currentYear)
-          .maybeSingle();
-
-        if (trackingRecord) {
-          for (const { file, name } of attachmentFiles) {
-            const timestamp = Date.now();
-            const sanitizedFilename = name.replace(/[^a-zA-Z0-9._-]/g, '_');
-            const storagePath = `${customer.id}/${currentYear}/${currentMonth}/${timestamp}_${sanitizedFilename}`;
-
-            const { data: existingFile } = await supabase
-              .from('customer_monthly_files')
-              .select('id')
-              .eq('acumatica_customer_id', acId)
-              .eq('month', currentMonth)
-              .eq('year', currentYear)
-              .eq('filename', name)
-              .maybeSingle();
-
-            if (!existingFile) {
-              await supabase
-                .from('customer_monthly_files')
-                .insert({
-                  tracking_id: trackingRecord.id,
-                  acumatica_customer_id: acId,
-                  month: currentMonth,
-                  year: currentYear,
-                  filename: name,
-                  storage_path: storagePath,
-                  file_size: file.size,
-                  mime_type: file.type,
-                  upload_source: 'email',
-                  inbound_email_id: inboundEmail.id,
-                });
-
-              console.log('Crossposted attachment to monthly files:', name);
-            }
-          }
-        }
-      }
-
-      actionTaken = 'marked_responded';
+      // Monthly tracking and the monthly file list are updated by the
+      // customer_files / inbound_emails triggers. The customer only counts as
+      // responded once extract-attachment-data finds a census for this month.
+      actionTaken = 'queued_for_extraction';
       analysis.intent = 'file_attached';
       analysis.confidence = Math.max(analysis.confidence, 0.9);
-    } else if (analysis.intent === 'stop') {
-      await supabase
-        .from('customers')
-        .update({ is_active: false })
-        .eq('id', customer.id);
-
-      actionTaken = 'deactivated_customer';
-    } else if (analysis.intent === 'postpone') {
-      const postponeDate = new Date();
-      postponeDate.setDate(postponeDate.getDate() + 7);
-
-      await supabase
-        .from('customers')
-        .update({
-          postpone_until: postponeDate.toISOString(),
-          postpone_reason: 'Customer requested more time (AI-detected)'
-        })
-        .eq('id', customer.id);
-
-      actionTaken = 'postponed_emails';
-      console.log('Customer postponed until:', postponeDate.toISOString());
+    } else if (analysis.intent === 'stop' || analysis.intent === 'postpone') {
+      try {
+        actionTaken = await proposeIntentAction(supabase, inboundEmail.id, customer.id, analysis);
+        console.log(`Intent "${analysis.intent}" action:`, actionTaken);
+      } catch (error) {
+        console.error('Intent action error:', error);
+      }
     }
 
     await supabase
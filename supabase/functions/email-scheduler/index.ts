@@ -1,5 +1,6 @@
 import "jsr:@supabase/functions-js/edge-runtime.d.ts";
 import { createClient } from "npm:@supabase/supabase-js@2.57.4";
+import { loadContactEmails, resolveContactByEmail } from "../_shared/customer-contacts.ts";
 
 const corsHeaders = {
   "Access-Control-Allow-Origin": "*",
@@ -64,7 +65,7 @@ const isTimeToSend = (
 };
 
 const sendEmail = async (
-  to: string,
+  to: string[],
   subject: string,
   body: string,
   fromEmail: string,
@@ -76,7 +77,7 @@ const sendEmail = async (
   const emailData = {
     personalizations: [
       {
-        to: [{ email: to }],
+        to: to.map(email => ({ email })),
         subject: subject,
       },
     ],
@@ -133,7 +134,7 @@ const processEmailSchedule = async (
 
   const { data: assignments, error: assignmentsError } = await supabase
     .from('customer_assignments')
-    .select('id, customer_id, template_id, formula_id, start_day_of_month, timezone, is_active')
+    .select('id, customer_id, template_id, formula_id, start_day_of_month, timezone, is_active, recipient_roles')
     .eq('is_active', true);
 
   if (assignmentsError) {
@@ -228,6 +229,32 @@ const processEmailSchedule = async (
         );
 
         if (shouldSend) {
+          // The customer's address is matched to a synced or local contact;
+          // that contact's customer supplies the role recipients
+          const contact = await resolveContactByEmail(supabase, customer.email);
+          if (contact?.do_not_contact) {
+            results.push({
+              assignment_id: assignment.id,
+              customer_id: customer.id,
+              customer_name: customer.name,
+              status: 'skipped',
+              reason: 'Contact is marked do not contact',
+              scheduled_time: sendTime,
+            });
+            continue;
+          }
+
+          let recipients: string[] = [customer.email.trim().toLowerCase()];
+          if (contact && assignment.recipient_roles?.length) {
+            const roleEmails = await loadContactEmails(
+              supabase,
+              contact.organization_id,
+              contact.customer_id,
+              assignment.recipient_roles
+            );
+            recipients = [...new Set([...recipients, ...roleEmails])];
+          }
+
           const tz = getTimeInTimezone(assignment.timezone || 'America/New_York');
           const todayStr = `${tz.year}-${String(tz.month).padStart(2, '0')}-${String(tz.day).padStart(2, '0')}`;
           const dedupKey = `${assignment.id}_${todayStr}_${sendTime}`;
@@ -265,7 +292,7 @@ const processEmailSchedule = async (
 
           if (sendgridApiKey) {
             const result = await sendEmail(
-              customer.email,
+              recipients,
               template.subject,
               template.body,
               fromEmail,
@@ -0,0 +1,391 @@
+import "jsr:@supabase/functions-js/edge-runtime.d.ts";
+import { createClient } from "npm:@supabase/supabase-js@2.57.4";
+import * as pdfjs from "npm:pdfjs-dist@4.0.379";
+import * as XLSX from "npm:xlsx@0.18.5";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Methods": "GET, POST, PUT, DELETE, OPTIONS",
+  "Access-Control-Allow-Headers": "Content-Type, Authorization, X-Client-Info, Apikey",
+};
+
+const BATCH_SIZE = 5;
+const MAX_ATTEMPTS = 3;
+const MAX_TEXT_CHARS = 30000;
+// A PDF with less text than this is treated as a scan and read from page images
+const MIN_PDF_TEXT_CHARS = 200;
+const MAX_VISION_PAGES = 3;
+// Rows stuck in 'processing' longer than this were dropped by a timed-out run
+const STALE_PROCESSING_MINUTES = 15;
+
+type DocumentType = 'remittance_advice' | 'census' | 'other';
+
+interface Extraction {
+  id: string;
+  storage_path: string;
+  filename: string;
+  mime_type: string | null;
+  requested_month: number;
+  requested_year: number;
+  attempts: number;
+}
+
+// Either text to read or page images for the vision model
+interface DocumentContent {
+  text?: string;
+  images?: { base64: string; mimeType: string }[];
+}
+
+interface ModelResult {
+  document_type: DocumentType;
+  confidence: number;
+  document_month: number | null;
+  document_year: number | null;
+  remittance?: {
+    payer_name?: string | null;
+    payment_date?: string | null;
+    check_number?: string | null;
+    total_amount?: number | null;
+    lines?: { invoice_reference: string; amount_paid: number | null }[];
+  };
+  census?: {
+    facility_name?: string | null;
+    patient_count?: number | null;
+    admissions?: number | null;
+    discharges?: number | null;
+    patient_days?: number | null;
+  };
+  summary?: string;
+}
+
+class UnsupportedFileError extends Error {}
+
+const IMAGE_TYPES = ['image/png', 'image/jpeg', 'image/jpg', 'image/webp', 'image/gif'];
+const SPREADSHEET_EXTENSIONS = ['xlsx', 'xls', 'xlsm', 'ods'];
+
+function fileKind(extraction: Extraction): 'pdf' | 'spreadsheet' | 'csv' | 'image' | null {
+  const mime = (extraction.mime_type || '').toLowerCase();
+  const ext = extraction.filename.split('.').pop()?.toLowerCase() || '';
+
+  if (mime === 'application/pdf' || ext === 'pdf') return 'pdf';
+  if (mime === 'text/csv' || ext === 'csv') return 'csv';
+  if (SPREADSHEET_EXTENSIONS.includes(ext) || mime.includes('spreadsheet') || mime.includes('excel')) return 'spreadsheet';
+  if (IMAGE_TYPES.includes(mime) || ['png', 'jpg', 'jpeg', 'webp', 'gif'].includes(ext)) return 'image';
+  return null;
+}
+
+function toBase64(bytes: Uint8Array): string {
+  let binary = '';
+  const chunk = 0x8000;
+  for (let i = 0; i < bytes.length; i += chunk) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + chunk));
+  }
+  return btoa(binary);
+}
+
+async function readPdf(bytes: Uint8Array, supabaseUrl: string, supabaseKey: string): Promise<DocumentContent> {
+  // pdf.js detaches the buffer it is given, and the bytes may still be needed for rendering
+  const pdf = await pdfjs.getDocument({ data: bytes.slice() }).promise;
+  const pages: string[] = [];
+
+  for (let pageNum = 1; pageNum <= pdf.numPages; pageNum++) {
+    const page = await pdf.getPage(pageNum);
+    const content = await page.getTextContent();
+    pages.push(content.items.map((item: any) => item.str ?? '').join(' '));
+  }
+
+  const text = pages.join('\n\n').replace(/[ \t]+/g, ' ').trim();
+  if (text.length >= MIN_PDF_TEXT_CHARS) {
+    return { text: text.slice(0, MAX_TEXT_CHARS) };
+  }
+
+  const response = await fetch(`${supabaseUrl}/functions/v1/convert-pdf-to-jpg`, {
+    method: 'POST',
+    headers: {
+      'Authorization': `Bearer ${supabaseKey}`,
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify({ pdfBase64: toBase64(bytes), quality: 80 }),
+  });
+
+  if (!response.ok) {
+    throw new Error(`PDF page rendering failed: ${response.status}`);
+  }
+
+  const rendered = await response.json();
+  if (!rendered.success || !rendered.images?.length) {
+    throw new Error(rendered.error || 'PDF page rendering returned no pages');
+  }
+
+  return {
+    images: rendered.images.slice(0, MAX_VISION_PAGES).map((base64: string) => ({ base64, mimeType: 'image/jpeg' })),
+  };
+}
+
+function readSpreadsheet(bytes: Uint8Array): DocumentContent {
+  const workbook = XLSX.read(bytes, { type: 'array' });
+  const sheets = workbook.SheetNames.map((name: string) => {
+    const csv = XLSX.utils.sheet_to_csv(workbook.Sheets[name], { blankrows: false });
+    return `Sheet "${name}":\n${csv}`;
+  });
+  return { text: sheets.join('\n\n').slice(0, MAX_TEXT_CHARS) };
+}
+
+async function readDocument(
+  extraction: Extraction,
+  bytes: Uint8Array,
+  supabaseUrl: string,
+  supabaseKey: string
+): Promise<DocumentContent> {
+  switch (fileKind(extraction)) {
+    case 'pdf':
+      return readPdf(bytes, supabaseUrl, supabaseKey);
+    case 'spreadsheet':
+      return readSpreadsheet(bytes);
+    case 'csv':
+      return { text: new TextDecoder().decode(bytes).slice(0, MAX_TEXT_CHARS) };
+    case 'image': {
+      const mimeType = IMAGE_TYPES.includes((extraction.mime_type || '').toLowerCase())
+        ? extraction.mime_type!.toLowerCase().replace('image/jpg', 'image/jpeg')
+        : 'image/jpeg';
+      return { images: [{ base64: toBase64(bytes), mimeType }] };
+    }
+    default:
+      throw new UnsupportedFileError(`Cannot read ${extraction.mime_type || 'this file type'}`);
+  }
+}
+
+const SYSTEM_PROMPT = `You read documents that healthcare facilities send to their billing company and return structured data as JSON only.
+
+Classify the document as one of:
+- "remittance_advice": a payment advice / remittance listing the invoices being paid
+- "census": a monthly census or patient count report for a facility
+- "other": anything else
+
+Return:
+{
+  "document_type": "remittance_advice" | "census" | "other",
+  "confidence": 0.0-1.0,
+  "document_month": 1-12 or null,
+  "document_year": four-digit year or null,
+  "remittance": {
+    "payer_name": string or null,
+    "payment_date": "YYYY-MM-DD" or null,
+    "check_number": string or null,
+    "total_amount": number or null,
+    "lines": [{ "invoice_reference": string, "amount_paid": number or null }]
+  },
+  "census": {
+    "facility_name": string or null,
+    "patient_count": number or null,
+    "admissions": number or null,
+    "discharges": number or null,
+    "patient_days": number or null
+  },
+  "summary": "one sentence describing the document"
+}
+
+Rules:
+- document_month / document_year are the period the document covers (the census month, or the month of the payment date), not the date it was printed.
+- Only include "remittance" for remittance advices and "census" for census reports.
+- Copy invoice numbers exactly as printed; amounts are plain numbers without currency symbols.
+- Never invent values; use null when a value is not in the document.`;
+
+async function analyzeDocument(
+  content: DocumentContent,
+  extraction: Extraction,
+  openaiKey: string
+): Promise<ModelResult> {
+  const intro = `File name: ${extraction.filename}\nThe file was filed for ${extraction.requested_month}/${extraction.requested_year}.`;
+  const userContent: any[] = [{ type: 'text', text: content.text ? `${intro}\n\nDocument content:\n${content.text}` : intro }];
+
+  for (const image of content.images || []) {
+    userContent.push({
+      type: 'image_url',
+      image_url: { url: `data:${image.mimeType};base64,${image.base64}`, detail: 'high' },
+    });
+  }
+
+  const response = await fetch("https://api.openai.com/v1/chat/completions", {
+    method: "POST",
+    headers: {
+      "Authorization": `Bearer ${openaiKey}`,
+      "Content-Type": "application/json",
+    },
+    body: JSON.stringify({
+      model: "gpt-4o",
+      messages: [
+        { role: "system", content: SYSTEM_PROMPT },
+        { role: "user", content: userContent },
+      ],
+      response_format: { type: "json_object" },
+      temperature: 0,
+      max_tokens: 2000,
+    }),
+  });
+
+  if (!response.ok) {
+    throw new Error(`OpenAI API error: ${response.status}`);
+  }
+
+  const data = await response.json();
+  return JSON.parse(data.choices[0].message.content);
+}
+
+function toNumber(value: unknown): number | null {
+  if (value === null || value === undefined || value === '') return null;
+  const parsed = typeof value === 'number' ? value : Number(String(value).replace(/[$,\s]/g, ''));
+  return Number.isFinite(parsed) ? parsed : null;
+}
+
+function normalizeResult(result: ModelResult) {
+  const documentType: DocumentType = ['remittance_advice', 'census'].includes(result.document_type)
+    ? result.document_type
+    : 'other';
+  const month = toNumber(result.document_month);
+  const year = toNumber(result.document_year);
+  const lines = documentType === 'remittance_advice'
+    ? (result.remittance?.lines || [])
+        .filter(line => line?.invoice_reference)
+        .map(line => ({ invoice_reference: String(line.invoice_reference), amount_paid: toNumber(line.amount_paid) }))
+    : [];
+
+  const data: Record<string, any> = { summary: result.summary || null };
+  if (documentType === 'remittance_advice') {
+    data.payer_name = result.remittance?.payer_name || null;
+    data.payment_date = result.remittance?.payment_date || null;
+    data.check_number = result.remittance?.check_number || null;
+    data.total_amount = toNumber(result.remittance?.total_amount);
+  } else if (documentType === 'census') {
+    data.facility_name = result.census?.facility_name || null;
+    data.patient_count = toNumber(result.census?.patient_count);
+    data.admissions = toNumber(result.census?.admissions);
+    data.discharges = toNumber(result.census?.discharges);
+    data.patient_days = toNumber(result.census?.patient_days);
+  }
+
+  return {
+    documentType,
+    confidence: Math.min(Math.max(toNumber(result.confidence) ?? 0, 0), 1),
+    data,
+    month: month && month >= 1 && month <= 12 ? Math.trunc(month) : null,
+    year: year && year >= 2000 && year <= 2100 ? Math.trunc(year) : null,
+    lines,
+  };
+}
+
+async function processExtraction(
+  supabase: any,
+  extraction: Extraction,
+  ctx: { supabaseUrl: string; supabaseKey: string; openaiKey: string }
+): Promise<string> {
+  const attempts = extraction.attempts + 1;
+
+  const { data: claimed } = await supabase
+    .from('attachment_extractions')
+    .update({ status: 'processing', attempts })
+    .eq('id', extraction.id)
+    .eq('status', 'pending')
+    .select('id')
+    .maybeSingle();
+
+  // Another run picked it up first
+  if (!claimed) return 'skipped';
+
+  try {
+    const { data: blob, error: downloadError } = await supabase.storage
+      .from('customer-files')
+      .download(extraction.storage_path);
+
+    if (downloadError || !blob) {
+      throw new Error(`Download failed: ${downloadError?.message || 'file not found'}`);
+    }
+
+    const bytes = new Uint8Array(await blob.arrayBuffer());
+    const content = await readDocument(extraction, bytes, ctx.supabaseUrl, ctx.supabaseKey);
+    const result = normalizeResult(await analyzeDocument(content, extraction, ctx.openaiKey));
+
+    const { error: recordError } = await supabase.rpc('record_attachment_extraction', {
+      p_extraction_id: extraction.id,
+      p_document_type: result.documentType,
+      p_confidence: result.confidence,
+      p_data: result.data,
+      p_document_month: result.month,
+      p_document_year: result.year,
+      p_lines: result.lines,
+    });
+
+    if (recordError) throw new Error(recordError.message);
+
+    console.log(`Extracted ${extraction.filename}: ${result.documentType} (${result.confidence})`);
+    return 'completed';
+  } catch (error: any) {
+    const unsupported = error instanceof UnsupportedFileError;
+    const status = unsupported ? 'unsupported' : attempts >= MAX_ATTEMPTS ? 'failed' : 'pending';
+
+    console.error(`Extraction ${extraction.id} (${extraction.filename}) failed:`, error.message);
+
+    await supabase
+      .from('attachment_extractions')
+      .update({ status, error: error.message })
+      .eq('id', extraction.id);
+
+    return status;
+  }
+}
+
+Deno.serve(async (req: Request) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, { status: 200, headers: corsHeaders });
+  }
+
+  try {
+    const supabaseUrl = Deno.env.get("SUPABASE_URL")!;
+    const supabaseKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
+    const openaiKey = Deno.env.get("OPENAI_API_KEY");
+    const supabase = createClient(supabaseUrl, supabaseKey);
+
+    if (!openaiKey) {
+      return new Response(
+        JSON.stringify({ success: false, error: 'OPENAI_API_KEY is not configured' }),
+        { status: 500, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    const body = await req.json().catch(() => ({}));
+
+    await supabase
+      .from('attachment_extractions')
+      .update({ status: 'pending' })
+      .eq('status', 'processing')
+      .lt('updated_at', new Date(Date.now() - STALE_PROCESSING_MINUTES * 60 * 1000).toISOString());
+
+    let query = supabase
+      .from('attachment_extractions')
+      .select('id, storage_path, filename, mime_type, requested_month, requested_year, attempts')
+      .eq('status', 'pending');
+
+    query = body.extractionId
+      ? query.eq('id', body.extractionId)
+      : query.order('created_at', { ascending: true }).limit(BATCH_SIZE);
+
+    const { data: pending, error } = await query;
+    if (error) throw error;
+
+    const results: Record<string, string> = {};
+    for (const extraction of pending || []) {
+      results[extraction.id] = await processExtraction(supabase, extraction, { supabaseUrl, supabaseKey, openaiKey });
+    }
+
+    return new Response(
+      JSON.stringify({ success: true, processed: Object.keys(results).length, results }),
+      { status: 200, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+    );
+  } catch (error: any) {
+    console.error('Error:', error);
+    return new Response(
+      JSON.stringify({ success: false, error: error.message }),
+      { status: 500, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+    );
+  }
+});
@@ -1,9 +1,10 @@
 import "jsr:@supabase/functions-js/edge-runtime.d.ts";
 import { createClient } from "npm:@supabase/supabase-js@2.57.4";
+import { userHasPermission } from "../_shared/permissions.ts";
 
 const corsHeaders = {
   "Access-Control-Allow-Origin": "*",
-  "Access-Control-Allow-Methods": "GET, POST, PUT, DELETE, OPTIONS",
+  "Access-Control-Allow-Methods": "GET, POST, PUT, PATCH, DELETE, OPTIONS",
   "Access-Control-Allow-Headers":
     "Content-Type, Authorization, X-Client-Info, Apikey, X-Api-Key",
 };
@@ -37,20 +38,46 @@ function generateApiKey(): string {
   return key;
 }
 
+const READ_SCOPES = [
+  "read:customers",
+  "read:invoices",
+  "read:payments",
+  "read:tickets",
+  "read:analytics",
+  "read:emails",
+];
+const WRITE_SCOPES = ["write:tickets", "write:notes", "write:invoices"];
+const ALL_SCOPES = [...READ_SCOPES, ...WRITE_SCOPES];
+
+const TICKET_PRIORITIES = ["low", "medium", "high", "urgent"];
+
+interface ApiKeyContext {
+  id: string;
+  name: string;
+  scopes: string[];
+  createdBy: string | null;
+  // null means unrestricted
+  customerIds: string[] | null;
+  collectorIds: string[] | null;
+  rateLimit: number;
+}
+
 async function validateApiKey(
   supabase: ReturnType<typeof createClient>,
   apiKey: string
-): Promise<boolean> {
+): Promise<ApiKeyContext | null> {
   const hash = await hashKey(apiKey);
   const { data } = await supabase
     .from("api_keys")
-    .select("id, is_active, expires_at, usage_count")
+    .select(
+      "id, name, is_active, expires_at, usage_count, created_by, scopes, allowed_customer_ids, allowed_collector_ids, rate_limit_per_minute"
+    )
     .eq("key_hash", hash)
     .eq("is_active", true)
     .maybeSingle();
 
-  if (!data) return false;
-  if (data.expires_at && new Date(data.expires_at) < new Date()) return false;
+  if (!data) return null;
+  if (data.expires_at && new Date(data.expires_at) < new Date()) return null;
 
   await supabase
     .from("api_keys")
@@ -61,7 +88,64 @@ async function validateApiKey(
     })
     .eq("id", data.id);
 
-  return true;
+  const collectorIds: string[] | null = data.allowed_collector_ids?.length
+    ? data.allowed_collector_ids
+    : null;
+  let customerIds: string[] | null = data.allowed_customer_ids?.length
+    ? data.allowed_customer_ids
+    : null;
+
+  // A collector restriction limits the key to those collectors' customers
+  if (collectorIds) {
+    const { data: assignments } = await supabase
+      .from("collector_customer_assignments")
+      .select("customer_id")
+      .in("assigned_collector_id", collectorIds);
+    const assigned = [...new Set((assignments || []).map((a: any) => a.customer_id as string))];
+    customerIds = customerIds
+      ? customerIds.filter((id) => assigned.includes(id))
+      : assigned;
+  }
+
+  return {
+    id: data.id,
+    name: data.name,
+    scopes: data.scopes || READ_SCOPES,
+    createdBy: data.created_by,
+    customerIds,
+    collectorIds,
+    rateLimit: data.rate_limit_per_minute || 60,
+  };
+}
+
+function hasScope(key: ApiKeyContext, scope: string) {
+  return key.scopes.includes(scope);
+}
+
+function customerAllowed(key: ApiKeyContext, customerId: string | null) {
+  return !key.customerIds || (!!customerId && key.customerIds.includes(customerId));
+}
+
+function collectorAllowed(key: ApiKeyContext, collectorId: string | null) {
+  return !key.collectorIds || (!!collectorId && key.collectorIds.includes(collectorId));
+}
+
+function ticketAllowed(
+  key: ApiKeyContext,
+  ticket: { customer_id: string | null; assigned_collector_id: string | null }
+) {
+  return customerAllowed(key, ticket.customer_id) && collectorAllowed(key, ticket.assigned_collector_id);
+}
+
+function isRestricted(key: ApiKeyContext) {
+  return !!key.customerIds || !!key.collectorIds;
+}
+
+function restrictedKeyResponse() {
+  return errorResponse(
+    "This report covers all customers and is not available to API keys restricted to specific customers or collectors.",
+    403
+  );
 }
 
 function parseParams(url: URL): Record<string, string> {
@@ -75,7 +159,8 @@ function parseParams(url: URL): Record<string, string> {
 // ── Route: GET /customers ───────────────────────────────────────────────
 async function handleCustomers(
   supabase: ReturnType<typeof createClient>,
-  params: Record<string, string>
+  params: Record<string, string>,
+  key: ApiKeyContext
 ) {
   const search = params.search || "";
   const limit = Math.min(parseInt(params.limit || "50"), 200);
@@ -85,7 +170,7 @@ async function handleCustomers(
 
   // For balance sorting, use the dedicated customer-balances endpoint
   if (sortBy === "balance" || sortBy === "open_invoice_count") {
-    return handleCustomerBalances(supabase, params);
+    return handleCustomerBalances(supabase, params, key);
   }
 
   let query = supabase
@@ -101,6 +186,7 @@ async function handleCustomers(
     );
   }
 
+  if (key.customerIds) query = query.in("customer_id", key.customerIds);
   if (params.status) query = query.eq("customer_status", params.status);
   if (params.customer_class)
     query = query.eq("customer_class", params.customer_class);
@@ -123,8 +209,11 @@ async function handleCustomers(
 // ── Route: GET /customers/:id ───────────────────────────────────────────
 async function handleCustomerDetail(
   supabase: ReturnType<typeof createClient>,
-  customerId: string
+  customerId: string,
+  key: ApiKeyContext
 ) {
+  if (!customerAllowed(key, customerId)) return errorResponse("Customer not found", 404);
+
   const { data: customer, error } = await supabase
     .from("acumatica_customers")
     .select("*")
@@ -210,7 +299,8 @@ async function handleCustomerDetail(
 // ── Route: GET /invoices ────────────────────────────────────────────────
 async function handleInvoices(
   supabase: ReturnType<typeof createClient>,
-  params: Record<string, string>
+  params: Record<string, string>,
+  key: ApiKeyContext
 ) {
   const limit = Math.min(parseInt(params.limit || "50"), 200);
   const offset = parseInt(params.offset || "0");
@@ -228,6 +318,7 @@ async function handleInvoices(
       `reference_number.ilike.%${params.search}%,customer_name.ilike.%${params.search}%,customer.ilike.%${params.search}%,description.ilike.%${params.search}%`
     );
   }
+  if (key.customerIds) query = query.in("customer", key.customerIds);
   if (params.status) query = query.eq("status", params.status);
   if (params.type) query = query.eq("type", params.type);
   if (params.customer_id) query = query.eq("customer", params.customer_id);
@@ -255,7 +346,8 @@ async function handleInvoices(
 // ── Route: GET /invoices/:ref ───────────────────────────────────────────
 async function handleInvoiceDetail(
   supabase: ReturnType<typeof createClient>,
-  refNumber: string
+  refNumber: string,
+  key: ApiKeyContext
 ) {
   const { data: invoice, error } = await supabase
     .from("acumatica_invoices")
@@ -264,7 +356,8 @@ async function handleInvoiceDetail(
     .maybeSingle();
 
   if (error) return errorResponse(error.message, 500);
-  if (!invoice) return errorResponse("Invoice not found", 404);
+  if (!invoice || !customerAllowed(key, invoice.customer))
+    return errorResponse("Invoice not found", 404);
 
   const { data: memos } = await supabase
     .from("invoice_memos")
@@ -306,7 +399,8 @@ async function handleInvoiceDetail(
 // ── Route: GET /payments ────────────────────────────────────────────────
 async function handlePayments(
   supabase: ReturnType<typeof createClient>,
-  params: Record<string, string>
+  params: Record<string, string>,
+  key: ApiKeyContext
 ) {
   const limit = Math.min(parseInt(params.limit || "50"), 200);
   const offset = parseInt(params.offset || "0");
@@ -323,6 +417,7 @@ async function handlePayments(
       `reference_number.ilike.%${params.search}%,customer_id.ilike.%${params.search}%,customer_name.ilike.%${params.search}%,description.ilike.%${params.search}%,payment_ref.ilike.%${params.search}%`
     );
   }
+  if (key.customerIds) query = query.in("customer_id", key.customerIds);
   if (params.status) query = query.eq("status", params.status);
   if (params.type) query = query.eq("type", params.type);
   if (params.customer_id) query = query.eq("customer_id", params.customer_id);
@@ -349,7 +444,8 @@ async function handlePayments(
 // ── Route: GET /payments/:ref ───────────────────────────────────────────
 async function handlePaymentDetail(
   supabase: ReturnType<typeof createClient>,
-  refNumber: string
+  refNumber: string,
+  key: ApiKeyContext
 ) {
   const { data: payment, error } = await supabase
     .from("acumatica_payments")
@@ -358,7 +454,8 @@ async function handlePaymentDetail(
     .maybeSingle();
 
   if (error) return errorResponse(error.message, 500);
-  if (!payment) return errorResponse("Payment not found", 404);
+  if (!payment || !customerAllowed(key, payment.customer_id))
+    return errorResponse("Payment not found", 404);
 
   const { data: applications } = await supabase
     .from("payment_invoice_applications")
@@ -377,7 +474,8 @@ async function handlePaymentDetail(
 // ── Route: GET /tickets ─────────────────────────────────────────────────
 async function handleTickets(
   supabase: ReturnType<typeof createClient>,
-  params: Record<string, string>
+  params: Record<string, string>,
+  key: ApiKeyContext
 ) {
   const limit = Math.min(parseInt(params.limit || "50"), 200);
   const offset = parseInt(params.offset || "0");
@@ -389,6 +487,8 @@ async function handleTickets(
       { count: "exact" }
     );
 
+  if (key.customerIds) query = query.in("customer_id", key.customerIds);
+  if (key.collectorIds) query = query.in("assigned_collector_id", key.collectorIds);
   if (params.status) query = query.eq("status", params.status);
   if (params.priority) query = query.eq("priority", params.priority);
   if (params.customer_id) query = query.eq("customer_id", params.customer_id);
@@ -414,7 +514,8 @@ async function handleTickets(
 // ── Route: GET /tickets/:id ─────────────────────────────────────────────
 async function handleTicketDetail(
   supabase: ReturnType<typeof createClient>,
-  ticketId: string
+  ticketId: string,
+  key: ApiKeyContext
 ) {
   const { data: ticket, error } = await supabase
     .from("collection_tickets")
@@ -423,7 +524,7 @@ async function handleTicketDetail(
     .maybeSingle();
 
   if (error) return errorResponse(error.message, 500);
-  if (!ticket) return errorResponse("Ticket not found", 404);
+  if (!ticket || !ticketAllowed(key, ticket)) return errorResponse("Ticket not found", 404);
 
   const { data: invoices } = await supabase
     .from("ticket_invoices")
@@ -486,22 +587,29 @@ async function handleTicketDetail(
 
 // ── Route: GET /collectors ──────────────────────────────────────────────
 async function handleCollectors(
-  supabase: ReturnType<typeof createClient>
+  supabase: ReturnType<typeof createClient>,
+  key: ApiKeyContext
 ) {
-  const { data: collectors, error } = await supabase
+  let collectorQuery = supabase
     .from("user_profiles")
     .select("id, email, full_name, role, account_status")
     .in("role", ["collector", "admin", "manager"])
     .eq("account_status", "approved");
+  if (key.collectorIds) collectorQuery = collectorQuery.in("id", key.collectorIds);
+
+  const { data: collectors, error } = await collectorQuery;
 
   if (error) return errorResponse(error.message, 500);
 
   const results = [];
   for (const collector of collectors || []) {
-    const { data: assignments } = await supabase
+    const { data: allAssignments } = await supabase
       .from("collector_customer_assignments")
       .select("customer_id, customer_name")
       .eq("assigned_collector_id", collector.id);
+    const assignments = (allAssignments || []).filter((a: any) =>
+      customerAllowed(key, a.customer_id)
+    );
 
     const { count: openTicketCount } = await supabase
       .from("collection_tickets")
@@ -529,8 +637,11 @@ async function handleCollectors(
 
 // ── Route: GET /analytics/overview ──────────────────────────────────────
 async function handleAnalyticsOverview(
-  supabase: ReturnType<typeof createClient>
+  supabase: ReturnType<typeof createClient>,
+  key: ApiKeyContext
 ) {
+  if (isRestricted(key)) return restrictedKeyResponse();
+
   const { count: customerCount } = await supabase
     .from("acumatica_customers")
     .select("id", { count: "exact", head: true });
@@ -589,18 +700,22 @@ async function handleAnalyticsOverview(
 
 // ── Route: GET /analytics/aging ─────────────────────────────────────────
 async function handleAnalyticsAging(
-  supabase: ReturnType<typeof createClient>
+  supabase: ReturnType<typeof createClient>,
+  key: ApiKeyContext
 ) {
   const today = new Date();
   const todayStr = today.toISOString().split("T")[0];
 
-  const { data: openInvoices } = await supabase
+  let openInvoiceQuery = supabase
     .from("acumatica_invoices")
     .select(
       "reference_number, customer, customer_name, date, due_date, amount, balance, type"
     )
     .eq("status", "Open")
     .gt("balance", 0);
+  if (key.customerIds) openInvoiceQuery = openInvoiceQuery.in("customer", key.customerIds);
+
+  const { data: openInvoices } = await openInvoiceQuery;
 
   const buckets = {
     current: { count: 0, amount: 0, balance: 0 },
@@ -689,8 +804,11 @@ async function handleAnalyticsAging(
 // ── Route: GET /analytics/monthly-summary ───────────────────────────────
 async function handleMonthlySummary(
   supabase: ReturnType<typeof createClient>,
-  params: Record<string, string>
+  params: Record<string, string>,
+  key: ApiKeyContext
 ) {
+  if (isRestricted(key)) return restrictedKeyResponse();
+
   const entityType = params.entity || "invoices";
 
   if (entityType === "payments") {
@@ -707,8 +825,11 @@ async function handleMonthlySummary(
 // ── Route: GET /analytics/customer-balances ─────────────────────────────
 async function handleCustomerBalances(
   supabase: ReturnType<typeof createClient>,
-  params: Record<string, string>
+  params: Record<string, string>,
+  key: ApiKeyContext
 ) {
+  if (isRestricted(key)) return restrictedKeyResponse();
+
   const limit = Math.min(parseInt(params.limit || "50"), 200);
   const offset = parseInt(params.offset || "0");
   const sortBy = params.sort_by || "balance";
@@ -741,7 +862,8 @@ async function handleCustomerBalances(
 // ── Route: GET /emails ──────────────────────────────────────────────────
 async function handleEmails(
   supabase: ReturnType<typeof createClient>,
-  params: Record<string, string>
+  params: Record<string, string>,
+  key: ApiKeyContext
 ) {
   const limit = Math.min(parseInt(params.limit || "50"), 200);
   const offset = parseInt(params.offset || "0");
@@ -753,6 +875,7 @@ async function handleEmails(
       { count: "exact" }
     );
 
+  if (key.customerIds) query = query.in("customer_id", key.customerIds);
   if (params.customer_id) query = query.eq("customer_id", params.customer_id);
   if (params.status) query = query.eq("status", params.status);
   if (params.date_from) query = query.gte("sent_at", params.date_from);
@@ -774,7 +897,8 @@ async function handleEmails(
 // ── Route: GET /search ──────────────────────────────────────────────────
 async function handleGlobalSearch(
   supabase: ReturnType<typeof createClient>,
-  params: Record<string, string>
+  params: Record<string, string>,
+  key: ApiKeyContext
 ) {
   const query = params.q || params.query || "";
   if (!query || query.length < 2)
@@ -782,37 +906,52 @@ async function handleGlobalSearch(
 
   const limit = Math.min(parseInt(params.limit || "10"), 25);
   const likePattern = `%${query}%`;
+  const empty = Promise.resolve({ data: [] as any[] });
+
+  // Sections the key has no read scope for are skipped; restricted keys only
+  // see their own customers.
+  let customerQuery = supabase
+    .from("acumatica_customers")
+    .select("customer_id, customer_name, customer_class, general_email, customer_status")
+    .or(`customer_name.ilike.${likePattern},customer_id.ilike.${likePattern},general_email.ilike.${likePattern}`);
+  if (key.customerIds) customerQuery = customerQuery.in("customer_id", key.customerIds);
+
+  let invoiceQuery = supabase
+    .from("acumatica_invoices")
+    .select("reference_number, type, status, customer, customer_name, amount, balance, date, due_date")
+    .or(`reference_number.ilike.${likePattern},customer_name.ilike.${likePattern},customer.ilike.${likePattern}`);
+  if (key.customerIds) invoiceQuery = invoiceQuery.in("customer", key.customerIds);
+
+  let paymentQuery = supabase
+    .from("acumatica_payments")
+    .select("reference_number, type, status, customer_id, customer_name, payment_amount, application_date, payment_ref")
+    .or(`reference_number.ilike.${likePattern},customer_name.ilike.${likePattern},customer_id.ilike.${likePattern},payment_ref.ilike.${likePattern}`);
+  if (key.customerIds) paymentQuery = paymentQuery.in("customer_id", key.customerIds);
+
+  let ticketQuery = supabase
+    .from("collection_tickets")
+    .select("ticket_number, customer_id, customer_name, status, priority, ticket_type")
+    .or(`ticket_number.ilike.${likePattern},customer_name.ilike.${likePattern},customer_id.ilike.${likePattern}`);
+  if (key.customerIds) ticketQuery = ticketQuery.in("customer_id", key.customerIds);
+  if (key.collectorIds) ticketQuery = ticketQuery.in("assigned_collector_id", key.collectorIds);
 
   // Run 5 fast, independent queries in parallel (each individually limited)
   const [customers, customerBalances, invoices, payments, tickets] = await Promise.all([
-    supabase
-      .from("acumatica_customers")
-      .select("customer_id, customer_name, customer_class, general_email, customer_status")
-      .or(`customer_name.ilike.${likePattern},customer_id.ilike.${likePattern},general_email.ilike.${likePattern}`)
-      .limit(limit),
-    supabase.rpc("get_api_customer_balances", {
-      p_search: query,
-      p_sort_by: "balance",
-      p_sort_asc: false,
-      p_limit: limit,
-      p_offset: 0,
-    }),
-    supabase
-      .from("acumatica_invoices")
-      .select("reference_number, type, status, customer, customer_name, amount, balance, date, due_date")
-      .or(`reference_number.ilike.${likePattern},customer_name.ilike.${likePattern},customer.ilike.${likePattern}`)
-      .order("balance", { ascending: false })
-      .limit(limit),
-    supabase
-      .from("acumatica_payments")
-      .select("reference_number, type, status, customer_id, customer_name, payment_amount, application_date, payment_ref")
-      .or(`reference_number.ilike.${likePattern},customer_name.ilike.${likePattern},customer_id.ilike.${likePattern},payment_ref.ilike.${likePattern}`)
-      .limit(limit),
-    supabase
-      .from("collection_tickets")
-      .select("ticket_number, customer_id, customer_name, status, priority, ticket_type")
-      .or(`ticket_number.ilike.${likePattern},customer_name.ilike.${likePattern},customer_id.ilike.${likePattern}`)
-      .limit(limit),
+    hasScope(key, "read:customers") ? customerQuery.limit(limit) : empty,
+    hasScope(key, "read:customers")
+      ? supabase.rpc("get_api_customer_balances", {
+          p_search: query,
+          p_sort_by: "balance",
+          p_sort_asc: false,
+          p_limit: limit,
+          p_offset: 0,
+        })
+      : empty,
+    hasScope(key, "read:invoices")
+      ? invoiceQuery.order("balance", { ascending: false }).limit(limit)
+      : empty,
+    hasScope(key, "read:payments") ? paymentQuery.limit(limit) : empty,
+    hasScope(key, "read:tickets") ? ticketQuery.limit(limit) : empty,
   ]);
 
   // Merge computed balances into customer results
@@ -840,6 +979,352 @@ async function handleGlobalSearch(
   });
 }
 
+// ── Write helpers ───────────────────────────────────────────────────────
+// Writes are attributed to the admin who issued the key; the key itself is
+// recorded in the activity metadata.
+function apiActivityMetadata(key: ApiKeyContext, extra: Record<string, unknown> = {}) {
+  return { source: "api", api_key_id: key.id, api_key_name: key.name, ...extra };
+}
+
+async function findTicket(
+  supabase: ReturnType<typeof createClient>,
+  ticketNumber: string,
+  key: ApiKeyContext
+) {
+  const { data: ticket } = await supabase
+    .from("collection_tickets")
+    .select("id, ticket_number, customer_id, customer_name, status, priority, assigned_collector_id, promise_date")
+    .eq("ticket_number", ticketNumber)
+    .maybeSingle();
+
+  if (!ticket || !ticketAllowed(key, ticket)) return null;
+  return ticket;
+}
+
+function isValidDate(value: unknown) {
+  return typeof value === "string" && /^\d{4}-\d{2}-\d{2}$/.test(value) && !isNaN(Date.parse(value));
+}
+
+// ── Route: POST /tickets ────────────────────────────────────────────────
+async function handleCreateTicket(
+  supabase: ReturnType<typeof createClient>,
+  body: any,
+  key: ApiKeyContext
+) {
+  const customerId = typeof body.customer_id === "string" ? body.customer_id.trim() : "";
+  if (!customerId) return errorResponse("customer_id is required");
+  if (!customerAllowed(key, customerId)) return errorResponse("Customer not found", 404);
+
+  const priority = body.priority || "medium";
+  if (!TICKET_PRIORITIES.includes(priority))
+    return errorResponse(`priority must be one of: ${TICKET_PRIORITIES.join(", ")}`);
+  if (body.due_date && !isValidDate(body.due_date))
+    return errorResponse("due_date must be YYYY-MM-DD");
+
+  const invoiceRefs: string[] = Array.isArray(body.invoice_reference_numbers)
+    ? [...new Set(body.invoice_reference_numbers.map((r: unknown) => String(r)))]
+    : [];
+
+  const { data: customer } = await supabase
+    .from("acumatica_customers")
+    .select("customer_id, customer_name, organization_id")
+    .eq("customer_id", customerId)
+    .maybeSingle();
+  if (!customer) return errorResponse("Customer not found", 404);
+
+  // Default to the collector the customer is assigned to
+  let collectorId: string | null = body.assigned_collector_id || null;
+  if (!collectorId) {
+    const { data: assignment } = await supabase
+      .from("collector_customer_assignments")
+      .select("assigned_collector_id")
+      .eq("customer_id", customerId)
+      .limit(1)
+      .maybeSingle();
+    collectorId = assignment?.assigned_collector_id || null;
+  }
+  if (!collectorId)
+    return errorResponse("assigned_collector_id is required: the customer has no assigned collector");
+  if (!collectorAllowed(key, collectorId))
+    return errorResponse("This API key cannot assign tickets to that collector", 403);
+
+  if (invoiceRefs.length > 0) {
+    const { data: invoices } = await supabase
+      .from("acumatica_invoices")
+      .select("reference_number")
+      .eq("customer", customerId)
+      .in("reference_number", invoiceRefs);
+    const found = new Set((invoices || []).map((i: any) => i.reference_number));
+    const missing = invoiceRefs.filter((ref) => !found.has(ref));
+    if (missing.length > 0)
+      return errorResponse(`Invoices not found for customer ${customerId}: ${missing.join(", ")}`);
+  }
+
+  const { data: ticket, error } = await supabase
+    .from("collection_tickets")
+    .insert({
+      organization_id: customer.organization_id,
+      customer_id: customerId,
+      customer_name: customer.customer_name || customerId,
+      assigned_collector_id: collectorId,
+      status: "open",
+      priority,
+      ticket_type: body.ticket_type || "overdue payment",
+      due_date: body.due_date || null,
+      notes: body.notes || null,
+      created_by: key.createdBy,
+    })
+    .select("id, ticket_number, customer_id, customer_name, status, priority, ticket_type, assigned_collector_id, due_date, created_at")
+    .single();
+
+  if (error) return errorResponse(error.message, 500);
+
+  if (invoiceRefs.length > 0) {
+    const { error: invoiceError } = await supabase.from("ticket_invoices").insert(
+      invoiceRefs.map((ref) => ({
+        ticket_id: ticket.id,
+        invoice_reference_number: ref,
+        added_by: key.createdBy,
+      }))
+    );
+    if (invoiceError) return errorResponse(invoiceError.message, 500);
+  }
+
+  await supabase.from("ticket_activity_log").insert({
+    ticket_id: ticket.id,
+    activity_type: "created",
+    description: `Ticket created via API key "${key.name}" with ${invoiceRefs.length} invoice(s)`,
+    created_by: key.createdBy,
+    metadata: apiActivityMetadata(key, { invoice_reference_numbers: invoiceRefs }),
+  });
+
+  return jsonResponse({ ticket, invoice_reference_numbers: invoiceRefs }, 201);
+}
+
+// ── Route: PATCH /tickets/:id ───────────────────────────────────────────
+async function handleUpdateTicket(
+  supabase: ReturnType<typeof createClient>,
+  ticketNumber: string,
+  body: any,
+  key: ApiKeyContext
+) {
+  const ticket = await findTicket(supabase, ticketNumber, key);
+  if (!ticket) return errorResponse("Ticket not found", 404);
+
+  const updates: Record<string, unknown> = {};
+  const activity: { activity_type: string; description: string; metadata: Record<string, unknown> }[] = [];
+
+  if (body.status !== undefined && body.status !== ticket.status) {
+    // Statuses are configurable; only active ones can be set
+    const { data: option } = await supabase
+      .from("ticket_status_options")
+      .select("status_name")
+      .eq("status_name", body.status)
+      .eq("is_active", true)
+      .maybeSingle();
+    if (!option) return errorResponse(`Unknown status: ${body.status}`);
+    updates.status = body.status;
+    activity.push({
+      activity_type: "status_change",
+      description: `Status changed from ${ticket.status} to ${body.status}`,
+      metadata: { old_status: ticket.status, new_status: body.status },
+    });
+  }
+
+  if (body.priority !== undefined && body.priority !== ticket.priority) {
+    if (!TICKET_PRIORITIES.includes(body.priority))
+      return errorResponse(`priority must be one of: ${TICKET_PRIORITIES.join(", ")}`);
+    updates.priority = body.priority;
+    activity.push({
+      activity_type: "priority_changed",
+      description: `Priority changed from ${ticket.priority} to ${body.priority}`,
+      metadata: { old_priority: ticket.priority, new_priority: body.priority },
+    });
+  }
+
+  if (body.promise_date !== undefined && body.promise_date !== ticket.promise_date) {
+    if (body.promise_date !== null && !isValidDate(body.promise_date))
+      return errorResponse("promise_date must be YYYY-MM-DD or null");
+    updates.promise_date = body.promise_date;
+    updates.promise_by_user_id = body.promise_date ? key.createdBy : null;
+    activity.push({
+      activity_type: "note",
+      description: body.promise_date
+        ? `Promise date set to ${body.promise_date}`
+        : "Promise date cleared",
+      metadata: { promise_date: body.promise_date },
+    });
+  }
+
+  if (
+    body.assigned_collector_id !== undefined &&
+    body.assigned_collector_id !== ticket.assigned_collector_id
+  ) {
+    if (!body.assigned_collector_id || !collectorAllowed(key, body.assigned_collector_id))
+      return errorResponse("This API key cannot assign tickets to that collector", 403);
+    updates.assigned_collector_id = body.assigned_collector_id;
+    activity.push({
+      activity_type: "assignment_change",
+      description: "Ticket reassigned",
+      metadata: {
+        old_collector_id: ticket.assigned_collector_id,
+        new_collector_id: body.assigned_collector_id,
+      },
+    });
+  }
+
+  if (Object.keys(updates).length === 0)
+    return jsonResponse({ ticket, message: "No changes" });
+
+  const { data: updated, error } = await supabase
+    .from("collection_tickets")
+    .update({ ...updates, updated_at: new Date().toISOString() })
+    .eq("id", ticket.id)
+    .select("id, ticket_number, customer_id, customer_name, status, priority, assigned_collector_id, promise_date, updated_at")
+    .single();
+
+  if (error) return errorResponse(error.message, 400);
+
+  await supabase.from("ticket_activity_log").insert(
+    activity.map((a) => ({
+      ticket_id: ticket.id,
+      activity_type: a.activity_type,
+      description: `${a.description} (via API key "${key.name}")`,
+      created_by: key.createdBy,
+      metadata: apiActivityMetadata(key, a.metadata),
+    }))
+  );
+
+  // The ticket promise trigger only queues write-backs for signed-in users,
+  // so push the promise date to each of the ticket's invoices here.
+  if ("promise_date" in updates) {
+    const { data: assignments } = await supabase
+      .from("invoice_assignments")
+      .select("invoice_reference_number")
+      .eq("ticket_id", ticket.id);
+    const refs = new Set((assignments || []).map((a: any) => a.invoice_reference_number));
+    for (const ref of refs) {
+      await supabase.rpc("enqueue_acumatica_writeback", {
+        p_action_type: "promise_date",
+        p_invoice_reference: ref,
+        p_payload: { promise_date: updates.promise_date, ticket_number: ticket.ticket_number },
+        p_source_table: "collection_tickets",
+        p_source_id: ticket.id,
+      });
+    }
+  }
+
+  return jsonResponse({ ticket: updated });
+}
+
+// ── Route: POST /tickets/:id/notes ──────────────────────────────────────
+async function handleAddTicketNote(
+  supabase: ReturnType<typeof createClient>,
+  ticketNumber: string,
+  body: any,
+  key: ApiKeyContext
+) {
+  const noteText = typeof body.note_text === "string" ? body.note_text.trim() : "";
+  if (!noteText) return errorResponse("note_text is required");
+
+  const ticket = await findTicket(supabase, ticketNumber, key);
+  if (!ticket) return errorResponse("Ticket not found", 404);
+
+  const { data: note, error } = await supabase
+    .from("ticket_notes")
+    .insert({
+      ticket_id: ticket.id,
+      note_text: noteText,
+      created_by_user_id: key.createdBy,
+    })
+    .select("id, note_text, created_at")
+    .single();
+
+  if (error) return errorResponse(error.message, 500);
+
+  await supabase.from("ticket_activity_log").insert({
+    ticket_id: ticket.id,
+    activity_type: "note",
+    description: `Note added via API key "${key.name}"`,
+    created_by: key.createdBy,
+    metadata: apiActivityMetadata(key, { note_id: note.id }),
+  });
+
+  return jsonResponse({ ticket_number: ticket.ticket_number, note }, 201);
+}
+
+// ── Route: PATCH /invoices/:ref ─────────────────────────────────────────
+async function handleUpdateInvoice(
+  supabase: ReturnType<typeof createClient>,
+  refNumber: string,
+  body: any,
+  key: ApiKeyContext
+) {
+  const { data: invoice } = await supabase
+    .from("acumatica_invoices")
+    .select("id, reference_number, customer, color_status, promise_date")
+    .eq("reference_number", refNumber)
+    .maybeSingle();
+
+  if (!invoice || !customerAllowed(key, invoice.customer))
+    return errorResponse("Invoice not found", 404);
+
+  const updates: Record<string, unknown> = {};
+
+  if (body.color_status !== undefined && body.color_status !== invoice.color_status) {
+    if (body.color_status !== null) {
+      const { data: option } = await supabase
+        .from("invoice_color_status_options")
+        .select("status_name")
+        .eq("status_name", body.color_status)
+        .maybeSingle();
+      if (!option) return errorResponse(`Unknown color_status: ${body.color_status}`);
+    }
+    updates.color_status = body.color_status;
+  }
+
+  if (body.promise_date !== undefined && body.promise_date !== invoice.promise_date) {
+    if (body.promise_date !== null && !isValidDate(body.promise_date))
+      return errorResponse("promise_date must be YYYY-MM-DD or null");
+    updates.promise_date = body.promise_date;
+  }
+
+  if (Object.keys(updates).length === 0)
+    return jsonResponse({ invoice, message: "No changes" });
+
+  const { data: updated, error } = await supabase
+    .from("acumatica_invoices")
+    .update(updates)
+    .eq("id", invoice.id)
+    .select("reference_number, customer, customer_name, status, balance, color_status, promise_date")
+    .single();
+
+  if (error) return errorResponse(error.message, 400);
+
+  // The write-back trigger skips service-role updates (those are the syncs),
+  // so queue the Acumatica push explicitly.
+  if ("color_status" in updates) {
+    await supabase.rpc("enqueue_acumatica_writeback", {
+      p_action_type: "color_status",
+      p_invoice_reference: refNumber,
+      p_payload: { old_color_status: invoice.color_status, color_status: updates.color_status },
+      p_source_table: "acumatica_invoices",
+      p_source_id: invoice.id,
+    });
+  }
+  if ("promise_date" in updates) {
+    await supabase.rpc("enqueue_acumatica_writeback", {
+      p_action_type: "promise_date",
+      p_invoice_reference: refNumber,
+      p_payload: { promise_date: updates.promise_date },
+      p_source_table: "acumatica_invoices",
+      p_source_id: invoice.id,
+    });
+  }
+
+  return jsonResponse({ invoice: updated });
+}
+
 // ── Route: POST /keys/generate ──────────────────────────────────────────
 async function handleGenerateKey(
   supabase: ReturnType<typeof createClient>,
@@ -847,6 +1332,23 @@ async function handleGenerateKey(
 ) {
   const name = body.name || "GPT API Key";
   const expiresAt = body.expires_at || null;
+  const scopes: string[] = Array.isArray(body.scopes) ? body.scopes : READ_SCOPES;
+  const invalidScopes = scopes.filter((scope) => !ALL_SCOPES.includes(scope));
+  if (scopes.length === 0 || invalidScopes.length > 0)
+    return errorResponse(
+      `scopes must be a non-empty list drawn from: ${ALL_SCOPES.join(", ")}`
+    );
+
+  const rateLimit = body.rate_limit_per_minute ? parseInt(body.rate_limit_per_minute) : 60;
+  if (!(rateLimit >= 1 && rateLimit <= 10000))
+    return errorResponse("rate_limit_per_minute must be between 1 and 10000");
+
+  const allowedCustomerIds: string[] | null = body.allowed_customer_ids?.length
+    ? body.allowed_customer_ids
+    : null;
+  const allowedCollectorIds: string[] | null = body.allowed_collector_ids?.length
+    ? body.allowed_collector_ids
+    : null;
 
   const plainKey = generateApiKey();
   const hash = await hashKey(plainKey);
@@ -860,6 +1362,10 @@ async function handleGenerateKey(
       key_prefix: prefix,
       expires_at: expiresAt,
       created_by: body.created_by || null,
+      scopes,
+      allowed_customer_ids: allowedCustomerIds,
+      allowed_collector_ids: allowedCollectorIds,
+      rate_limit_per_minute: rateLimit,
     })
     .select()
     .single();
@@ -874,119 +1380,208 @@ async function handleGenerateKey(
     key_prefix: prefix,
     name,
     expires_at: expiresAt,
+    scopes,
+    allowed_customer_ids: allowedCustomerIds,
+    allowed_collector_ids: allowedCollectorIds,
+    rate_limit_per_minute: rateLimit,
+  });
+}
+
+interface EndpointDefinition {
+  method: string;
+  path: string;
+  scope?: string;
+  description: string;
+  params?: string;
+  body?: string;
+}
+
+const ENDPOINTS: EndpointDefinition[] = [
+  {
+    method: "GET",
+    path: "/customers",
+    scope: "read:customers",
+    description:
+      "List/search customers with filtering and pagination",
+    params:
+      "search, status, customer_class, country, sort_by, sort_order, limit, offset",
+  },
+  {
+    method: "GET",
+    path: "/customers/{customer_id}",
+    scope: "read:customers",
+    description:
+      "Get full customer detail with invoice stats, collector assignments, recent tickets, and recent emails",
+  },
+  {
+    method: "GET",
+    path: "/invoices",
+    scope: "read:invoices",
+    description:
+      "List/search invoices with comprehensive filtering",
+    params:
+      "search, status, type, customer_id, color_status, date_from, date_to, due_date_from, due_date_to, min_amount, max_amount, min_balance, max_balance, sort_by, sort_order, limit, offset",
+  },
+  {
+    method: "GET",
+    path: "/invoices/{reference_number}",
+    scope: "read:invoices",
+    description:
+      "Get full invoice detail with memos, status history, payment applications, and reminders",
+  },
+  {
+    method: "GET",
+    path: "/payments",
+    scope: "read:payments",
+    description: "List/search payments with filtering",
+    params:
+      "search, status, type, customer_id, date_from, date_to, min_amount, max_amount, payment_method, sort_by, sort_order, limit, offset",
+  },
+  {
+    method: "GET",
+    path: "/payments/{reference_number}",
+    scope: "read:payments",
+    description: "Get full payment detail with invoice applications",
+  },
+  {
+    method: "GET",
+    path: "/tickets",
+    scope: "read:tickets",
+    description: "List/search collection tickets",
+    params:
+      "search, status, priority, customer_id, collector_id, sort_by, sort_order, limit, offset",
+  },
+  {
+    method: "GET",
+    path: "/tickets/{ticket_number}",
+    scope: "read:tickets",
+    description:
+      "Get full ticket detail with enriched invoices, notes, activity log, status history, and collector info",
+  },
+  {
+    method: "GET",
+    path: "/collectors",
+    scope: "read:tickets",
+    description:
+      "List all active collectors with their assignments, open ticket counts, and closed ticket counts",
+  },
+  {
+    method: "GET",
+    path: "/analytics/overview",
+    scope: "read:analytics",
+    description:
+      "High-level dashboard metrics: customer count, open balances by type, tickets, payments this month",
+  },
+  {
+    method: "GET",
+    path: "/analytics/aging",
+    scope: "read:analytics",
+    description:
+      "AR aging report with buckets (current, 1-30, 31-60, 61-90, 91-120, 121+) and top 25 customers",
+  },
+  {
+    method: "GET",
+    path: "/analytics/monthly-summary",
+    scope: "read:analytics",
+    description:
+      "Month-by-month summary of invoices or payments",
+    params: "entity (invoices|payments)",
+  },
+  {
+    method: "GET",
+    path: "/analytics/customer-balances",
+    scope: "read:analytics",
+    description: "Customers ranked by outstanding balance",
+    params: "sort_by, sort_order, limit, offset",
+  },
+  {
+    method: "GET",
+    path: "/emails",
+    scope: "read:emails",
+    description:
+      "Email sending history with delivery/open tracking",
+    params: "search, customer_id, status, date_from, date_to, limit, offset",
+  },
+  {
+    method: "GET",
+    path: "/search",
+    scope: "read:customers",
+    description:
+      "Global search across customers, invoices, and payments",
+    params: "q (query string, min 2 chars)",
+  },
+  {
+    method: "POST",
+    path: "/tickets",
+    scope: "write:tickets",
+    description:
+      "Create a collection ticket for a customer, optionally attaching invoices. Defaults to the customer's assigned collector.",
+    body:
+      "customer_id (required), invoice_reference_numbers[], priority (low|medium|high|urgent), ticket_type, assigned_collector_id, due_date, notes",
+  },
+  {
+    method: "PATCH",
+    path: "/tickets/{ticket_number}",
+    scope: "write:tickets",
+    description:
+      "Update a ticket's status, priority, promise date or assigned collector. Each change is logged on the ticket timeline.",
+    body: "status, priority, promise_date (YYYY-MM-DD or null), assigned_collector_id",
+  },
+  {
+    method: "POST",
+    path: "/tickets/{ticket_number}/notes",
+    scope: "write:notes",
+    description: "Add a note to a ticket",
+    body: "note_text (required)",
+  },
+  {
+    method: "PATCH",
+    path: "/invoices/{reference_number}",
+    scope: "write:invoices",
+    description:
+      "Set an invoice's color status or promise date. The change is queued for write-back to Acumatica.",
+    body: "color_status (configured status name or null), promise_date (YYYY-MM-DD or null)",
+  },
+  {
+    method: "GET",
+    path: "/endpoints",
+    description: "List all available API endpoints (this endpoint)",
+  },
+];
+
+function findEndpoint(method: string, pathParts: string[]) {
+  return ENDPOINTS.find((e) => {
+    const segments = e.path.split("/").filter(Boolean);
+    return (
+      e.method === method &&
+      segments.length === pathParts.length &&
+      segments.every((seg, i) => seg.startsWith("{") || seg === pathParts[i])
+    );
   });
 }
 
 // ── Route: GET /endpoints ───────────────────────────────────────────────
-function handleListEndpoints() {
+// Without a key every endpoint is listed with the scope it needs; with a key
+// only the endpoints that key may call are listed.
+function handleListEndpoints(key: ApiKeyContext | null) {
+  const endpoints = key
+    ? ENDPOINTS.filter((e) => !e.scope || hasScope(key, e.scope))
+    : ENDPOINTS;
+
   return jsonResponse({
-    endpoints: [
-      {
-        method: "GET",
-        path: "/customers",
-        description:
-          "List/search customers with filtering and pagination",
-        params:
-          "search, status, customer_class, country, sort_by, sort_order, limit, offset",
-      },
-      {
-        method: "GET",
-        path: "/customers/{customer_id}",
-        description:
-          "Get full customer detail with invoice stats, collector assignments, recent tickets, and recent emails",
-      },
-      {
-        method: "GET",
-        path: "/invoices",
-        description:
-          "List/search invoices with comprehensive filtering",
-        params:
-          "search, status, type, customer_id, color_status, date_from, date_to, due_date_from, due_date_to, min_amount, max_amount, min_balance, max_balance, sort_by, sort_order, limit, offset",
-      },
-      {
-        method: "GET",
-        path: "/invoices/{reference_number}",
-        description:
-          "Get full invoice detail with memos, status history, payment applications, and reminders",
-      },
-      {
-        method: "GET",
-        path: "/payments",
-        description: "List/search payments with filtering",
-        params:
-          "search, status, type, customer_id, date_from, date_to, min_amount, max_amount, payment_method, sort_by, sort_order, limit, offset",
-      },
-      {
-        method: "GET",
-        path: "/payments/{reference_number}",
-        description: "Get full payment detail with invoice applications",
-      },
-      {
-        method: "GET",
-        path: "/tickets",
-        description: "List/search collection tickets",
-        params:
-          "search, status, priority, customer_id, collector_id, sort_by, sort_order, limit, offset",
-      },
-      {
-        method: "GET",
-        path: "/tickets/{ticket_number}",
-        description:
-          "Get full ticket detail with enriched invoices, notes, activity log, status history, and collector info",
-      },
-      {
-        method: "GET",
-        path: "/collectors",
-        description:
-          "List all active collectors with their assignments, open ticket counts, and closed ticket counts",
-      },
-      {
-        method: "GET",
-        path: "/analytics/overview",
-        description:
-          "High-level dashboard metrics: customer count, open balances by type, tickets, payments this month",
-      },
-      {
-        method: "GET",
-        path: "/analytics/aging",
-        description:
-          "AR aging report with buckets (current, 1-30, 31-60, 61-90, 91-120, 121+) and top 25 customers",
-      },
-      {
-        method: "GET",
-        path: "/analytics/monthly-summary",
-        description:
-          "Month-by-month summary of invoices or payments",
-        params: "entity (invoices|payments)",
-      },
-      {
-        method: "GET",
-        path: "/analytics/customer-balances",
-        description: "Customers ranked by outstanding balance",
-        params: "sort_by, sort_order, limit, offset",
-      },
-      {
-        method: "GET",
-        path: "/emails",
-        description:
-          "Email sending history with delivery/open tracking",
-        params: "search, customer_id, status, date_from, date_to, limit, offset",
-      },
-      {
-        method: "GET",
-        path: "/search",
-        description:
-          "Global search across customers, invoices, and payments",
-        params: "q (query string, min 2 chars)",
-      },
-      {
-        method: "GET",
-        path: "/endpoints",
-        description: "List all available API endpoints (this endpoint)",
-      },
-    ],
+    endpoints,
     authentication:
       "Include header: X-Api-Key: your_api_key",
+    scopes: ALL_SCOPES,
+    ...(key && {
+      key: {
+        name: key.name,
+        scopes: key.scopes,
+        restricted_to_customers: key.customerIds,
+        restricted_to_collectors: key.collectorIds,
+        rate_limit_per_minute: key.rateLimit,
+      },
+    }),
   });
 }
 
@@ -1011,12 +1606,19 @@ Deno.serve(async (req: Request) => {
     const subRoute = pathParts[1] || "";
     const params = parseParams(url);
 
-    // /endpoints route is public
+    const apiKey =
+      req.headers.get("X-Api-Key") ||
+      req.headers.get("x-api-key") ||
+      params.api_key ||
+      "";
+
+    // /endpoints route is public; with a key it lists only what the key can call
     if (route === "endpoints" && req.method === "GET") {
-      return handleListEndpoints();
+      const key = apiKey ? await validateApiKey(supabase, apiKey) : null;
+      return handleListEndpoints(key);
     }
 
-    // Key generation requires Supabase auth (admin only) - not API key
+    // Key generation requires Supabase auth and the api_keys permission - not API key
     if (route === "keys" && subRoute === "generate" && req.method === "POST") {
       const authHeader = req.headers.get("Authorization");
       if (!authHeader)
@@ -1027,18 +1629,9 @@ Deno.serve(async (req: Request) => {
       } = await supabase.auth.getUser(token);
       if (!user) return errorResponse("Invalid token", 401);
 
-      const { data: profile } = await supabase
-        .from("user_profiles")
-        .select("role")
-        .eq("id", user.id)
-        .maybeSingle();
-
-      if (
-        !profile ||
-        !["admin", "developer"].includes(profile.role)
-      ) {
+      if (!(await userHasPermission(supabase, user.id, "api_keys", "create"))) {
         return errorResponse(
-          "Only admins can generate API keys",
+          "You do not have permission to generate API keys",
           403
         );
       }
@@ -1051,11 +1644,6 @@ Deno.serve(async (req: Request) => {
     }
 
     // All data routes require API key auth
-    const apiKey =
-      req.headers.get("X-Api-Key") ||
-      req.headers.get("x-api-key") ||
-      params.api_key ||
-      "";
     if (!apiKey) {
       return errorResponse(
         "API key required. Include header X-Api-Key or query param api_key",
@@ -1063,46 +1651,100 @@ Deno.serve(async (req: Request) => {
       );
     }
 
-    const isValid = await validateApiKey(supabase, apiKey);
-    if (!isValid) {
+    const key = await validateApiKey(supabase, apiKey);
+    if (!key) {
       return errorResponse("Invalid or expired API key", 401);
     }
 
+    const { data: requestCount, error: rateLimitError } = await supabase.rpc("consume_api_key_request", {
+      p_key_id: key.id,
+    });
+    if (rateLimitError) {
+      // Without a count the limit can't be enforced; refuse rather than let the request through
+      console.error("Rate limit check failed:", rateLimitError.message);
+      return errorResponse("Rate limit check unavailable, try again shortly", 503);
+    }
+    if ((requestCount || 0) > key.rateLimit) {
+      return new Response(
+        JSON.stringify({
+          error: `Rate limit of ${key.rateLimit} requests per minute exceeded`,
+        }),
+        {
+          status: 429,
+          headers: {
+            ...corsHeaders,
+            "Content-Type": "application/json",
+            "Retry-After": String(60 - new Date().getUTCSeconds()),
+          },
+        }
+      );
+    }
+
+    const endpoint = findEndpoint(req.method, pathParts);
+    if (!endpoint) {
+      return errorResponse(
+        "Unknown route. GET /endpoints to see all available routes.",
+        404
+      );
+    }
+    if (endpoint.scope && !hasScope(key, endpoint.scope)) {
+      return errorResponse(`This API key does not have the ${endpoint.scope} scope`, 403);
+    }
+    if (endpoint.scope?.startsWith("write:") && !key.createdBy) {
+      return errorResponse(
+        "This API key has no issuing user to attribute changes to. Generate a new key to use write scopes.",
+        403
+      );
+    }
+
+    const body =
+      req.method === "POST" || req.method === "PATCH"
+        ? await req.json().catch(() => ({}))
+        : {};
+
     // Route dispatch
     switch (route) {
       case "customers":
         if (subRoute)
-          return handleCustomerDetail(supabase, decodeURIComponent(subRoute));
-        return handleCustomers(supabase, params);
+          return handleCustomerDetail(supabase, decodeURIComponent(subRoute), key);
+        return handleCustomers(supabase, params, key);
 
       case "invoices":
+        if (req.method === "PATCH")
+          return handleUpdateInvoice(supabase, decodeURIComponent(subRoute), body, key);
         if (subRoute)
-          return handleInvoiceDetail(supabase, decodeURIComponent(subRoute));
-        return handleInvoices(supabase, params);
+          return handleInvoiceDetail(supabase, decodeURIComponent(subRoute), key);
+        return handleInvoices(supabase, params, key);
 
       case "payments":
         if (subRoute)
-          return handlePaymentDetail(supabase, decodeURIComponent(subRoute));
-        return handlePayments(supabase, params);
+          return handlePaymentDetail(supabase, decodeURIComponent(subRoute), key);
+        return handlePayments(supabase, params, key);
 
       case "tickets":
+        if (req.method === "POST" && subRoute)
+          return handleAddTicketNote(supabase, decodeURIComponent(subRoute), body, key);
+        if (req.method === "POST")
+          return handleCreateTicket(supabase, body, key);
+        if (req.method === "PATCH")
+          return handleUpdateTicket(supabase, decodeURIComponent(subRoute), body, key);
         if (subRoute)
-          return handleTicketDetail(supabase, decodeURIComponent(subRoute));
-        return handleTickets(supabase, params);
+          return handleTicketDetail(supabase, decodeURIComponent(subRoute), key);
+        return handleTickets(supabase, params, key);
 
       case "collectors":
-        return handleCollectors(supabase);
+        return handleCollectors(supabase, key);
 
       case "analytics":
         switch (subRoute) {
           case "overview":
-            return handleAnalyticsOverview(supabase);
+            return handleAnalyticsOverview(supabase, key);
           case "aging":
-            return handleAnalyticsAging(supabase);
+            return handleAnalyticsAging(supabase, key);
           case "monthly-summary":
-            return handleMonthlySummary(supabase, params);
+            return handleMonthlySummary(supabase, params, key);
           case "customer-balances":
-            return handleCustomerBalances(supabase, params);
+            return handleCustomerBalances(supabase, params, key);
           default:
             return errorResponse(
               "Unknown analytics route. Try: overview, aging, monthly-summary, customer-balances"
@@ -1110,10 +1752,10 @@ Deno.serve(async (req: Request) => {
         }
 
       case "emails":
-        return handleEmails(supabase, params);
+        return handleEmails(supabase, params, key);
 
       case "search":
-        return handleGlobalSearch(supabase, params);
+        return handleGlobalSearch(supabase, params, key);
 
       default:
         return errorResponse(
@@ -0,0 +1,638 @@
+import "jsr:@supabase/functions-js/edge-runtime.d.ts";
+import { createClient } from "npm:@supabase/supabase-js@2.57.4";
+import { loadDisputedInvoiceRefs } from "../_shared/invoice-disputes.ts";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Methods": "GET, POST, OPTIONS",
+  "Access-Control-Allow-Headers": "Content-Type, Authorization, X-Client-Info, Apikey",
+};
+
+const PAGE_SIZE = 1000;
+const DAY_MS = 24 * 60 * 60 * 1000;
+// A customer whose enrollment completed this recently is not enrolled again,
+// so paying off and slipping back overdue does not restart at step 1.
+const REENROLL_AFTER_DAYS = 30;
+// A step that fails is retried on later runs with a doubling delay, and
+// given up after this many attempts so the sequence can move on.
+const MAX_STEP_ATTEMPTS = 3;
+// Runs are daily; don't let a run that starts a little early skip a retry.
+const RETRY_SLACK_MS = 60 * 60 * 1000;
+
+interface DunningStep {
+  id: string;
+  step_order: number;
+  name: string;
+  days_overdue: number;
+  channel: 'email' | 'ticket' | 'email_and_ticket';
+  template_id: string | null;
+  ticket_priority: string;
+  stop_on_payment: boolean;
+  stop_on_promise_date: boolean;
+  stop_on_ticket_closed: boolean;
+}
+
+interface DunningSequence {
+  id: string;
+  organization_id: string;
+  name: string;
+  is_default: boolean;
+  created_by: string | null;
+  steps: DunningStep[];
+}
+
+interface Enrollment {
+  id: string;
+  sequence_id: string;
+  customer_id: string;
+  customer_name: string | null;
+  status: 'active' | 'paused' | 'stopped' | 'completed';
+  current_step_order: number;
+  ticket_id: string | null;
+  enrolled_at: string;
+  resumed_at: string | null;
+  last_step_at: string | null;
+}
+
+interface CustomerAging {
+  customer_id: string;
+  customer_name: string;
+  max_days_overdue: number;
+  overdue_balance: number;
+  overdue_invoices: string[];
+  has_promise_date: boolean;
+}
+
+interface Sender {
+  fromEmail: string;
+  fromName: string;
+  replyTo: string;
+}
+
+// Oldest-overdue aging per customer, from open invoices that are past due.
+async function loadOverdueAging(supabase: any, organizationId: string): Promise<Map<string, CustomerAging>> {
+  const aging = new Map<string, CustomerAging>();
+  const today = new Date();
+  today.setUTCHours(0, 0, 0, 0);
+  const todayStr = today.toISOString().split('T')[0];
+  const disputedRefs = await loadDisputedInvoiceRefs(supabase, organizationId);
+
+  let from = 0;
+  let hasMore = true;
+  while (hasMore) {
+    const { data, error } = await supabase
+      .from('acumatica_invoices')
+      .select('reference_number, customer, customer_name, due_date, balance, promise_date')
+      .eq('organization_id', organizationId)
+      .eq('status', 'Open')
+      .eq('type', 'Invoice')
+      .gt('balance', 0)
+      .lt('due_date', todayStr)
+      .range(from, from + PAGE_SIZE - 1);
+
+    if (error) throw error;
+
+    for (const invoice of data || []) {
+      if (disputedRefs.has(invoice.reference_number)) continue;
+      const daysOverdue = Math.floor((today.getTime() - new Date(invoice.due_date).getTime()) / DAY_MS);
+      const entry = aging.get(invoice.customer) || {
+        customer_id: invoice.customer,
+        customer_name: invoice.customer_name,
+        max_days_overdue: 0,
+        overdue_balance: 0,
+        overdue_invoices: [],
+        has_promise_date: false,
+      };
+      entry.max_days_overdue = Math.max(entry.max_days_overdue, daysOverdue);
+      entry.overdue_balance += Number(invoice.balance) || 0;
+      entry.overdue_invoices.push(invoice.reference_number);
+      if (invoice.promise_date && new Date(invoice.promise_date) >= today) {
+        entry.has_promise_date = true;
+      }
+      aging.set(invoice.customer, entry);
+    }
+
+    hasMore = !!data && data.length === PAGE_SIZE;
+    from += PAGE_SIZE;
+  }
+
+  return aging;
+}
+
+async function checkStopConditions(
+  supabase: any,
+  step: DunningStep,
+  enrollment: Enrollment,
+  aging: CustomerAging
+): Promise<string | null> {
+  if (step.stop_on_payment) {
+    const since = [enrollment.enrolled_at, enrollment.resumed_at, enrollment.last_step_at]
+      .filter((d): d is string => !!d)
+      .sort()
+      .pop()!
+      .split('T')[0];
+    const { data: payments } = await supabase
+      .from('acumatica_payments')
+      .select('id')
+      .eq('customer_id', enrollment.customer_id)
+      .in('type', ['Payment', 'Prepayment'])
+      .neq('status', 'Voided')
+      .gte('application_date', since)
+      .limit(1);
+    if (payments && payments.length > 0) return 'Payment received';
+  }
+
+  if (step.stop_on_promise_date) {
+    if (aging.has_promise_date) return 'Promise date set on an invoice';
+    const { data: promisedTickets } = await supabase
+      .from('collection_tickets')
+      .select('id')
+      .eq('customer_id', enrollment.customer_id)
+      .not('status', 'in', '(closed,resolved)')
+      .gte('promise_date', new Date().toISOString().split('T')[0])
+      .limit(1);
+    if (promisedTickets && promisedTickets.length > 0) return 'Promise date set on a ticket';
+  }
+
+  if (step.stop_on_ticket_closed && enrollment.ticket_id) {
+    const { data: ticket } = await supabase
+      .from('collection_tickets')
+      .select('status')
+      .eq('id', enrollment.ticket_id)
+      .maybeSingle();
+    if (ticket && (ticket.status === 'closed' || ticket.status === 'resolved')) {
+      return 'Dunning ticket closed';
+    }
+  }
+
+  return null;
+}
+
+function fillTemplate(text: string, aging: CustomerAging): string {
+  const month = new Date().toLocaleString('en-US', { month: 'long', year: 'numeric' });
+  return text
+    .replace(/\{customer_name\}/g, aging.customer_name || aging.customer_id)
+    .replace(/\{month\}/g, month)
+    .replace(/\{days_overdue\}/g, String(aging.max_days_overdue))
+    .replace(/\{overdue_balance\}/g, aging.overdue_balance.toLocaleString('en-US', { style: 'currency', currency: 'USD' }))
+    .replace(/\{invoice_count\}/g, String(aging.overdue_invoices.length));
+}
+
+async function sendStepEmail(
+  supabase: any,
+  sendgridApiKey: string | undefined,
+  sender: Sender,
+  step: DunningStep,
+  aging: CustomerAging
+): Promise<{ to?: string; subject?: string; error?: string }> {
+  if (!step.template_id) return { error: 'Step has no email template' };
+
+  const { data: template } = await supabase
+    .from('email_templates')
+    .select('subject, body')
+    .eq('id', step.template_id)
+    .maybeSingle();
+  if (!template) return { error: 'Email template not found' };
+
+  const { data: customer } = await supabase
+    .from('acumatica_customers')
+    .select('email_address, billing_email, general_email')
+    .eq('customer_id', aging.customer_id)
+    .maybeSingle();
+
+  const to = customer?.billing_email || customer?.email_address || customer?.general_email;
+  if (!to) return { error: 'Customer has no email address' };
+
+  const subject = fillTemplate(template.subject, aging);
+  const body = fillTemplate(template.body, aging);
+
+  if (!sendgridApiKey) return { to, subject, error: 'SendGrid API key not configured' };
+
+  const response = await fetch('https://api.sendgrid.com/v3/mail/send', {
+    method: 'POST',
+    headers: {
+      'Authorization': `Bearer ${sendgridApiKey}`,
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify({
+      personalizations: [{ to: [{ email: to }], subject }],
+      from: { email: sender.fromEmail, name: sender.fromName },
+      reply_to: { email: sender.replyTo, name: sender.fromName },
+      content: [{ type: 'text/html', value: body.replace(/\n/g, '<br>') }],
+      tracking_settings: {
+        click_tracking: { enable: false, enable_text: false },
+        open_tracking: { enable: false },
+      },
+    }),
+  });
+
+  if (!response.ok) {
+    const errorText = await response.text();
+    return { to, subject, error: `SendGrid error: ${errorText.substring(0, 300)}` };
+  }
+
+  return { to, subject };
+}
+
+// Opens a collection ticket for the enrollment, or escalates the one a
+// previous step opened if it is still open.
+async function openOrEscalateTicket(
+  supabase: any,
+  sequence: DunningSequence,
+  step: DunningStep,
+  enrollment: Enrollment,
+  aging: CustomerAging
+): Promise<string> {
+  if (enrollment.ticket_id) {
+    const { data: existing } = await supabase
+      .from('collection_tickets')
+      .select('id, status, priority')
+      .eq('id', enrollment.ticket_id)
+      .maybeSingle();
+
+    if (existing && existing.status !== 'closed' && existing.status !== 'resolved') {
+      if (existing.priority !== step.ticket_priority) {
+        await supabase
+          .from('collection_tickets')
+          .update({ priority: step.ticket_priority })
+          .eq('id', existing.id);
+        await supabase.from('ticket_activity_log').insert({
+          ticket_id: existing.id,
+          activity_type: 'priority_changed',
+          description: `Dunning step "${step.name}" reached (${aging.max_days_overdue} days overdue)`,
+          created_by: sequence.created_by,
+          metadata: { from: existing.priority, to: step.ticket_priority, dunning_sequence_id: sequence.id, dunning_step_id: step.id },
+        });
+      }
+      return existing.id;
+    }
+  }
+
+  const { data: assignment } = await supabase
+    .from('collector_customer_assignments')
+    .select('assigned_collector_id')
+    .eq('customer_id', aging.customer_id)
+    .maybeSingle();
+
+  const collectorId = assignment?.assigned_collector_id || null;
+
+  const { data: ticket, error: ticketError } = await supabase
+    .from('collection_tickets')
+    .insert({
+      organization_id: sequence.organization_id,
+      customer_id: aging.customer_id,
+      customer_name: aging.customer_name,
+      assigned_collector_id: collectorId,
+      created_by: sequence.created_by,
+      priority: step.ticket_priority,
+      status: 'open',
+      ticket_type: 'overdue payment',
+    })
+    .select('id')
+    .single();
+
+  if (ticketError) throw ticketError;
+
+  if (collectorId) {
+    for (const refNumber of aging.overdue_invoices) {
+      await supabase.from('invoice_assignments').upsert({
+        invoice_reference_number: refNumber,
+        assigned_collector_id: collectorId,
+        ticket_id: ticket.id,
+        assigned_by: sequence.created_by,
+      }, {
+        onConflict: 'invoice_reference_number'
+      });
+    }
+  }
+
+  await supabase.from('ticket_activity_log').insert({
+    ticket_id: ticket.id,
+    activity_type: 'created',
+    description: `Created by dunning sequence "${sequence.name}", step "${step.name}" with ${aging.overdue_invoices.length} overdue invoice(s)`,
+    created_by: sequence.created_by,
+    metadata: { dunning_sequence_id: sequence.id, dunning_step_id: step.id },
+  });
+
+  return ticket.id;
+}
+
+async function recordExecution(
+  supabase: any,
+  sequence: DunningSequence,
+  enrollment: Enrollment,
+  step: DunningStep,
+  status: 'sent' | 'skipped' | 'failed' | 'stopped',
+  aging: CustomerAging | null,
+  extra: { email_to?: string; email_subject?: string; ticket_id?: string | null; detail?: string } = {}
+) {
+  await supabase.from('dunning_step_executions').insert({
+    organization_id: sequence.organization_id,
+    enrollment_id: enrollment.id,
+    step_id: step.id,
+    customer_id: enrollment.customer_id,
+    step_order: step.step_order,
+    channel: step.channel,
+    status,
+    days_overdue: aging?.max_days_overdue ?? null,
+    email_to: extra.email_to || null,
+    email_subject: extra.email_subject || null,
+    ticket_id: extra.ticket_id || null,
+    detail: extra.detail || null,
+  });
+}
+
+// Executions of the enrollment since it was enrolled or last resumed
+async function loadStepHistory(
+  supabase: any,
+  enrollment: Enrollment
+): Promise<{ step_id: string | null; status: string; executed_at: string }[]> {
+  const { data, error } = await supabase
+    .from('dunning_step_executions')
+    .select('step_id, status, executed_at')
+    .eq('enrollment_id', enrollment.id)
+    .gte('executed_at', enrollment.resumed_at || enrollment.enrolled_at)
+    .order('executed_at', { ascending: true });
+  if (error) throw error;
+  return data || [];
+}
+
+async function getSender(supabase: any): Promise<Sender> {
+  let sender: Sender = {
+    fromEmail: 'ar@ventureresp.app',
+    fromName: 'Venture Respiratory - AR',
+    replyTo: 'ar@ventureresp.app',
+  };
+
+  const { data: deptSender } = await supabase
+    .from('department_email_senders')
+    .select('from_email, from_name, reply_to_email')
+    .eq('department_key', 'ar')
+    .eq('is_active', true)
+    .maybeSingle();
+
+  if (deptSender?.from_email) {
+    return {
+      fromEmail: deptSender.from_email,
+      fromName: deptSender.from_name || sender.fromName,
+      replyTo: deptSender.reply_to_email || deptSender.from_email,
+    };
+  }
+
+  const { data: emailSettings } = await supabase
+    .from('email_settings')
+    .select('ar_from_email, ar_from_name, reply_to_email')
+    .limit(1)
+    .maybeSingle();
+
+  if (emailSettings) {
+    sender = {
+      fromEmail: emailSettings.ar_from_email || sender.fromEmail,
+      fromName: emailSettings.ar_from_name || sender.fromName,
+      replyTo: emailSettings.reply_to_email || emailSettings.ar_from_email || sender.replyTo,
+    };
+  }
+
+  return sender;
+}
+
+Deno.serve(async (req: Request) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, { status: 200, headers: corsHeaders });
+  }
+
+  try {
+    const supabaseUrl = Deno.env.get("SUPABASE_URL")!;
+    const supabaseServiceKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
+    const sendgridApiKey = Deno.env.get("SENDGRID_API_KEY");
+    const supabase = createClient(supabaseUrl, supabaseServiceKey);
+
+    const requestBody = await req.json().catch(() => ({}));
+    const onlyCustomerId: string | undefined = requestBody.customer_id;
+
+    const { data: sequenceRows, error: sequenceError } = await supabase
+      .from('dunning_sequences')
+      .select('id, organization_id, name, is_default, created_by, steps:dunning_steps(*)')
+      .eq('is_active', true);
+
+    if (sequenceError) throw sequenceError;
+
+    const sequences: DunningSequence[] = (sequenceRows || []).map((s: any) => ({
+      ...s,
+      steps: (s.steps || []).sort((a: DunningStep, b: DunningStep) => a.step_order - b.step_order),
+    }));
+
+    const sender = await getSender(supabase);
+    const agingByOrg = new Map<string, Map<string, CustomerAging>>();
+    const summary = { enrolled: 0, steps_sent: 0, stopped: 0, completed: 0, failed: 0, errors: [] as string[] };
+
+    for (const sequence of sequences) {
+      if (sequence.steps.length === 0) continue;
+
+      if (!agingByOrg.has(sequence.organization_id)) {
+        agingByOrg.set(sequence.organization_id, await loadOverdueAging(supabase, sequence.organization_id));
+      }
+      const aging = agingByOrg.get(sequence.organization_id)!;
+
+      // The default sequence picks up every overdue customer not already in a
+      // sequence. Stopped enrollments (payment, promise, closed ticket) and
+      // recently completed ones count as enrolled; a user resumes or re-enrolls
+      // those explicitly.
+      if (sequence.is_default) {
+        const completedSince = new Date(Date.now() - REENROLL_AFTER_DAYS * DAY_MS).toISOString();
+        const { data: openEnrollments, error: openError } = await supabase
+          .from('dunning_enrollments')
+          .select('customer_id')
+          .eq('organization_id', sequence.organization_id)
+          .or(`status.in.(active,paused,stopped),and(status.eq.completed,last_evaluated_at.gte.${completedSince})`);
+
+        if (openError) throw openError;
+
+        const enrolled = new Set((openEnrollments || []).map((e: any) => e.customer_id));
+        const firstThreshold = sequence.steps[0].days_overdue;
+        const newEnrollments = Array.from(aging.values())
+          .filter(a => !enrolled.has(a.customer_id) && a.max_days_overdue >= firstThreshold)
+          .filter(a => !onlyCustomerId || a.customer_id === onlyCustomerId)
+          .map(a => ({
+            organization_id: sequence.organization_id,
+            sequence_id: sequence.id,
+            customer_id: a.customer_id,
+            customer_name: a.customer_name,
+          }));
+
+        for (let i = 0; i < newEnrollments.length; i += 500) {
+          const { error } = await supabase.from('dunning_enrollments').insert(newEnrollments.slice(i, i + 500));
+          if (error) summary.errors.push(`Enrollment for ${sequence.name}: ${error.message}`);
+          else summary.enrolled += Math.min(500, newEnrollments.length - i);
+        }
+      }
+
+      let enrollmentQuery = supabase
+        .from('dunning_enrollments')
+        .select('id, sequence_id, customer_id, customer_name, status, current_step_order, ticket_id, enrolled_at, resumed_at, last_step_at')
+        .eq('sequence_id', sequence.id)
+        .in('status', ['active', 'stopped']);
+
+      if (onlyCustomerId) enrollmentQuery = enrollmentQuery.eq('customer_id', onlyCustomerId);
+
+      const { data: enrollments, error: enrollmentError } = await enrollmentQuery;
+      if (enrollmentError) throw enrollmentError;
+
+      for (const enrollment of (enrollments || []) as Enrollment[]) {
+        const customerAging = aging.get(enrollment.customer_id);
+        const now = new Date().toISOString();
+
+        // Nothing overdue any more: the sequence has done its job.
+        if (!customerAging) {
+          await supabase
+            .from('dunning_enrollments')
+            .update({ status: 'completed', max_days_overdue: 0, last_evaluated_at: now, updated_at: now })
+            .eq('id', enrollment.id);
+          summary.completed++;
+          continue;
+        }
+
+        // Stopped enrollments stay stopped until resumed or paid off.
+        if (enrollment.status === 'stopped') continue;
+
+        const targetStep = [...sequence.steps]
+          .reverse()
+          .find(s => s.days_overdue <= customerAging.max_days_overdue);
+
+        if (!targetStep || targetStep.step_order <= enrollment.current_step_order) {
+          await supabase
+            .from('dunning_enrollments')
+            .update({ max_days_overdue: customerAging.max_days_overdue, last_evaluated_at: now, updated_at: now })
+            .eq('id', enrollment.id);
+          continue;
+        }
+
+        let previousFailures = 0;
+        try {
+          const history = await loadStepHistory(supabase, enrollment);
+          const failures = history.filter(h => h.step_id === targetStep.id && h.status === 'failed');
+          previousFailures = failures.length;
+          const lastFailure = failures[failures.length - 1];
+          if (lastFailure) {
+            const retryAfter = new Date(lastFailure.executed_at).getTime() + DAY_MS * 2 ** (failures.length - 1) - RETRY_SLACK_MS;
+            if (Date.now() < retryAfter) {
+              await supabase
+                .from('dunning_enrollments')
+                .update({ max_days_overdue: customerAging.max_days_overdue, last_evaluated_at: now, updated_at: now })
+                .eq('id', enrollment.id);
+              continue;
+            }
+          }
+
+          const stopReason = await checkStopConditions(supabase, targetStep, enrollment, customerAging);
+          if (stopReason) {
+            await recordExecution(supabase, sequence, enrollment, targetStep, 'stopped', customerAging, { detail: stopReason });
+            await supabase
+              .from('dunning_enrollments')
+              .update({
+                status: 'stopped',
+                stopped_reason: stopReason,
+                max_days_overdue: customerAging.max_days_overdue,
+                last_evaluated_at: now,
+                updated_at: now,
+              })
+              .eq('id', enrollment.id);
+            summary.stopped++;
+            continue;
+          }
+
+          // Steps the customer aged past between runs are not sent late.
+          const alreadySkipped = new Set(history.filter(h => h.status === 'skipped').map(h => h.step_id));
+          for (const skipped of sequence.steps.filter(s =>
+            s.step_order > enrollment.current_step_order && s.step_order < targetStep.step_order && !alreadySkipped.has(s.id)
+          )) {
+            await recordExecution(supabase, sequence, enrollment, skipped, 'skipped', customerAging, {
+              detail: `Superseded by "${targetStep.name}"`,
+            });
+          }
+
+          let ticketId = enrollment.ticket_id;
+          let emailResult: { to?: string; subject?: string; error?: string } = {};
+
+          if (targetStep.channel === 'ticket' || targetStep.channel === 'email_and_ticket') {
+            ticketId = await openOrEscalateTicket(supabase, sequence, targetStep, enrollment, customerAging);
+          }
+
+          if (targetStep.channel === 'email' || targetStep.channel === 'email_and_ticket') {
+            emailResult = await sendStepEmail(supabase, sendgridApiKey, sender, targetStep, customerAging);
+            if (!emailResult.error && ticketId) {
+              await supabase.from('ticket_activity_log').insert({
+                ticket_id: ticketId,
+                activity_type: 'note',
+                description: `Dunning email sent to ${emailResult.to}: "${emailResult.subject}"`,
+                created_by: sequence.created_by,
+                metadata: { dunning_step_id: targetStep.id },
+              });
+            }
+          }
+
+          const status = emailResult.error ? 'failed' : 'sent';
+          const givenUp = status === 'failed' && failures.length + 1 >= MAX_STEP_ATTEMPTS;
+          await recordExecution(supabase, sequence, enrollment, targetStep, status, customerAging, {
+            email_to: emailResult.to,
+            email_subject: emailResult.subject,
+            ticket_id: ticketId,
+            detail: givenUp ? `${emailResult.error} (gave up after ${MAX_STEP_ATTEMPTS} attempts)` : emailResult.error,
+          });
+
+          // A failed email is retried on later runs until the step is given
+          // up; a created ticket is kept either way.
+          const advance = status === 'sent' || givenUp;
+          await supabase
+            .from('dunning_enrollments')
+            .update({
+              current_step_id: advance ? targetStep.id : undefined,
+              current_step_order: advance ? targetStep.step_order : enrollment.current_step_order,
+              last_step_at: status === 'sent' ? now : enrollment.last_step_at,
+              ticket_id: ticketId,
+              max_days_overdue: customerAging.max_days_overdue,
+              last_evaluated_at: now,
+              updated_at: now,
+            })
+            .eq('id', enrollment.id);
+
+          if (status === 'sent') summary.steps_sent++;
+          else {
+            summary.failed++;
+            summary.errors.push(`${enrollment.customer_id}: ${emailResult.error}`);
+          }
+        } catch (err) {
+          const message = err instanceof Error ? err.message : String(err);
+          summary.failed++;
+          summary.errors.push(`${enrollment.customer_id}: ${message}`);
+          const givenUp = previousFailures + 1 >= MAX_STEP_ATTEMPTS;
+          await recordExecution(supabase, sequence, enrollment, targetStep, 'failed', customerAging, {
+            detail: givenUp ? `${message.substring(0, 450)} (gave up after ${MAX_STEP_ATTEMPTS} attempts)` : message.substring(0, 500),
+          });
+          if (givenUp) {
+            await supabase
+              .from('dunning_enrollments')
+              .update({ current_step_id: targetStep.id, current_step_order: targetStep.step_order, last_evaluated_at: now, updated_at: now })
+              .eq('id', enrollment.id);
+          }
+        }
+      }
+    }
+
+    return new Response(
+      JSON.stringify({
+        success: true,
+        sequences: sequences.length,
+        ...summary,
+        errors: summary.errors.slice(0, 20),
+      }),
+      { headers: { ...corsHeaders, "Content-Type": "application/json" } }
+    );
+  } catch (err) {
+    console.error('Error processing dunning sequences:', err);
+    return new Response(
+      JSON.stringify({ success: false, error: err.message }),
+      { status: 500, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+    );
+  }
+});
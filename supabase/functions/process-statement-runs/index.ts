@@ -0,0 +1,343 @@
+import 'jsr:@supabase/functions-js/edge-runtime.d.ts';
+import { createClient } from 'jsr:@supabase/supabase-js@2';
+import { userHasPermission } from '../_shared/permissions.ts';
+import { loadDisputedInvoiceRefs } from '../_shared/invoice-disputes.ts';
+import { generateCustomerStatementExcel, loadStatementInvoices } from '../_shared/statement-excel.ts';
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Methods': 'POST, OPTIONS',
+  'Access-Control-Allow-Headers': 'Content-Type, Authorization, X-Client-Info, Apikey',
+};
+
+// Items sent per invocation; the cron picks up the rest five minutes later
+const BATCH_SIZE = 25;
+const TIME_BUDGET_MS = 110_000;
+// An item left in `sending` this long belongs to an invocation that died
+const STALE_SENDING_MS = 15 * 60 * 1000;
+
+interface RequestBody {
+  // Start a run of this cycle now (manual), instead of waiting for its schedule
+  cycleId?: string;
+  // Send these run items again with the customer's current preferences
+  resendItemIds?: string[];
+}
+
+interface RunItem {
+  id: string;
+  run_id: string;
+  organization_id: string;
+  customer_id: string;
+  customer_name: string;
+  recipients: string[];
+  cc: string[];
+  format: 'excel' | 'pdf' | 'both';
+  attempts: number;
+}
+
+interface Run {
+  id: string;
+  template_id: string | null;
+  portal_base_url: string | null;
+  started_by: string | null;
+}
+
+const jsonResponse = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+  });
+
+function toBase64(bytes: Uint8Array): string {
+  let binary = '';
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(binary);
+}
+
+async function sendItem(
+  supabase: any,
+  supabaseUrl: string,
+  serviceKey: string,
+  item: RunItem,
+  run: Run,
+  template: any,
+  disputedRefs: Set<string>
+): Promise<{ logId: string | null }> {
+  if (!template) throw new Error('The cycle\'s report template no longer exists');
+
+  const { data: customer } = await supabase
+    .from('acumatica_customers')
+    .select('customer_name, terms')
+    .eq('organization_id', item.organization_id)
+    .eq('customer_id', item.customer_id)
+    .maybeSingle();
+
+  const invoices = await loadStatementInvoices(supabase, item.organization_id, item.customer_id, disputedRefs);
+  const openInvoices = invoices.filter(inv => inv.balance > 0);
+  const totalBalance = openInvoices.reduce((sum, inv) => sum + inv.balance, 0);
+  if (totalBalance <= 0) throw new Error('No open balance left to send');
+
+  const oldestInvoice = openInvoices.reduce<typeof openInvoices[number] | null>(
+    (oldest, inv) => (!oldest || new Date(inv.date) < new Date(oldest.date) ? inv : oldest),
+    null
+  );
+  const daysOverdue = oldestInvoice?.due_date
+    ? Math.max(0, Math.floor((Date.now() - new Date(oldestInvoice.due_date).getTime()) / 86400000))
+    : 0;
+
+  const customerName = customer?.customer_name || item.customer_name;
+  const excelBase64 = item.format === 'pdf'
+    ? undefined
+    : toBase64(generateCustomerStatementExcel({
+        customer_id: item.customer_id,
+        customer_name: customerName,
+        email: item.recipients[0],
+        terms: customer?.terms || '',
+        total_balance: totalBalance,
+        invoices,
+      }));
+
+  const response = await fetch(`${supabaseUrl}/functions/v1/send-customer-invoice-email`, {
+    method: 'POST',
+    headers: {
+      'Authorization': `Bearer ${serviceKey}`,
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify({
+      templateId: template.id,
+      templateName: template.name,
+      template: {
+        subject: template.subject,
+        body: template.body,
+        include_invoice_table: false,
+      },
+      customerData: {
+        customer_name: customerName,
+        customer_id: item.customer_id,
+        customer_email: item.recipients[0],
+        balance: totalBalance,
+        total_invoices: openInvoices.length,
+        invoices: invoices
+          .filter(inv => inv.balance !== 0)
+          .sort((a, b) => new Date(a.date).getTime() - new Date(b.date).getTime())
+          .map(inv => ({
+            reference_number: inv.reference_number,
+            invoice_date: inv.date,
+            due_date: inv.due_date,
+            amount: inv.amount,
+            balance: inv.balance,
+            description: inv.description,
+          })),
+        oldest_invoice_date: oldestInvoice?.date || '',
+        days_overdue: daysOverdue,
+      },
+      additionalRecipients: item.recipients.slice(1),
+      ccEmails: item.cc,
+      excelBase64,
+      attachPdf: item.format !== 'excel',
+      sentByUserId: run.started_by,
+      department: 'ar',
+      portalBaseUrl: run.portal_base_url || undefined,
+    }),
+  });
+
+  const result = await response.json().catch(() => ({}));
+  if (!response.ok) {
+    throw new Error(result.error || result.details || `Send failed (${response.status})`);
+  }
+  return { logId: result.logId || null };
+}
+
+Deno.serve(async (req: Request) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { status: 200, headers: corsHeaders });
+  }
+
+  const startedAt = Date.now();
+
+  try {
+    const body: RequestBody = await req.json().catch(() => ({}));
+
+    const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
+    const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
+    const supabase = createClient(supabaseUrl, supabaseServiceKey);
+
+    // ── Starting or resending from the UI needs statements create; the
+    // scheduled call only works through what is already due. ──
+    let userId: string | null = null;
+    if (body.cycleId || body.resendItemIds?.length) {
+      const authToken = req.headers.get('Authorization')?.replace('Bearer ', '');
+      if (authToken !== supabaseServiceKey) {
+        const anonClient = createClient(supabaseUrl, Deno.env.get('SUPABASE_ANON_KEY')!);
+        const { data: { user: caller } } = authToken
+          ? await anonClient.auth.getUser(authToken)
+          : { data: { user: null } };
+        if (!caller) return jsonResponse({ error: 'Unauthorized' }, 401);
+        if (!(await userHasPermission(supabase, caller.id, 'statements', 'create'))) {
+          return jsonResponse({ error: 'You do not have permission to send statements' }, 403);
+        }
+        userId = caller.id;
+
+        const { data: profile } = await supabase
+          .from('user_profiles')
+          .select('organization_id')
+          .eq('id', caller.id)
+          .maybeSingle();
+        const orgId = profile?.organization_id;
+
+        if (body.cycleId) {
+          const { data: cycle } = await supabase
+            .from('statement_cycles')
+            .select('organization_id')
+            .eq('id', body.cycleId)
+            .maybeSingle();
+          if (!cycle || cycle.organization_id !== orgId) return jsonResponse({ error: 'Statement cycle not found' }, 404);
+        }
+        if (body.resendItemIds?.length) {
+          const { count } = await supabase
+            .from('statement_run_items')
+            .select('id', { count: 'exact', head: true })
+            .in('id', body.resendItemIds)
+            .neq('organization_id', orgId);
+          if (count) return jsonResponse({ error: 'Run items not found' }, 404);
+        }
+      }
+    }
+
+    let runId: string | null = null;
+    let requeued = 0;
+
+    if (body.cycleId) {
+      const { data, error } = await supabase.rpc('start_statement_run', {
+        p_cycle_id: body.cycleId,
+        p_trigger: 'manual',
+        p_started_by: userId,
+      });
+      if (error) throw error;
+      runId = data;
+    } else if (body.resendItemIds?.length) {
+      const { data, error } = await supabase.rpc('requeue_statement_run_items', { p_item_ids: body.resendItemIds });
+      if (error) throw error;
+      requeued = data || 0;
+    } else {
+      const { data: dueCycles, error: dueError } = await supabase
+        .from('statement_cycles')
+        .select('id, name')
+        .eq('is_active', true)
+        .lte('next_run_at', new Date().toISOString());
+      if (dueError) throw dueError;
+
+      for (const cycle of dueCycles || []) {
+        const { error } = await supabase.rpc('start_statement_run', {
+          p_cycle_id: cycle.id,
+          p_trigger: 'schedule',
+          p_started_by: null,
+        });
+        if (error) console.error(`Could not start statement cycle ${cycle.name}:`, error);
+      }
+    }
+
+    // ── Recover items from an invocation that timed out mid-send ──
+    await supabase
+      .from('statement_run_items')
+      .update({ status: 'pending' })
+      .eq('status', 'sending')
+      .lt('updated_at', new Date(Date.now() - STALE_SENDING_MS).toISOString());
+
+    const runs = new Map<string, Run>();
+    const templates = new Map<string, any>();
+    const disputedByOrg = new Map<string, Set<string>>();
+    const touchedRuns = new Set<string>(runId ? [runId] : []);
+    let sent = 0;
+    let failed = 0;
+
+    while (Date.now() - startedAt < TIME_BUDGET_MS) {
+      let query = supabase
+        .from('statement_run_items')
+        .select('id, run_id, organization_id, customer_id, customer_name, recipients, cc, format, attempts')
+        .eq('status', 'pending')
+        .order('created_at', { ascending: true })
+        .limit(BATCH_SIZE);
+      if (body.resendItemIds?.length) query = query.in('id', body.resendItemIds);
+      else if (runId) query = query.eq('run_id', runId);
+
+      const { data: pending, error: pendingError } = await query;
+      if (pendingError) throw pendingError;
+      if (!pending?.length) break;
+
+      for (const candidate of pending as RunItem[]) {
+        if (Date.now() - startedAt >= TIME_BUDGET_MS) break;
+
+        // Claim the item so an overlapping invocation does not send it twice
+        const { data: claimed } = await supabase
+          .from('statement_run_items')
+          .update({ status: 'sending', attempts: candidate.attempts + 1 })
+          .eq('id', candidate.id)
+          .eq('status', 'pending')
+          .select('id')
+          .maybeSingle();
+        if (!claimed) continue;
+        touchedRuns.add(candidate.run_id);
+
+        try {
+          if (!runs.has(candidate.run_id)) {
+            const { data: run } = await supabase
+              .from('statement_runs')
+              .select('id, template_id, portal_base_url, started_by')
+              .eq('id', candidate.run_id)
+              .single();
+            runs.set(candidate.run_id, run);
+          }
+          const run = runs.get(candidate.run_id)!;
+
+          if (run.template_id && !templates.has(run.template_id)) {
+            const { data: template } = await supabase
+              .from('customer_report_templates')
+              .select('id, name, subject, body')
+              .eq('id', run.template_id)
+              .maybeSingle();
+            templates.set(run.template_id, template);
+          }
+
+          if (!disputedByOrg.has(candidate.organization_id)) {
+            disputedByOrg.set(candidate.organization_id, await loadDisputedInvoiceRefs(supabase, candidate.organization_id));
+          }
+
+          const { logId } = await sendItem(
+            supabase,
+            supabaseUrl,
+            supabaseServiceKey,
+            candidate,
+            run,
+            run.template_id ? templates.get(run.template_id) : null,
+            disputedByOrg.get(candidate.organization_id)!
+          );
+
+          await supabase
+            .from('statement_run_items')
+            .update({ status: 'sent', error: null, customer_email_log_id: logId, sent_at: new Date().toISOString() })
+            .eq('id', candidate.id);
+          sent++;
+        } catch (error) {
+          console.error(`Statement for ${candidate.customer_id} failed:`, error);
+          await supabase
+            .from('statement_run_items')
+            .update({ status: 'failed', error: error instanceof Error ? error.message : String(error) })
+            .eq('id', candidate.id);
+          failed++;
+        }
+      }
+    }
+
+    for (const id of touchedRuns) {
+      await supabase.rpc('refresh_statement_run', { p_run_id: id });
+    }
+
+    return jsonResponse({ success: true, runId, requeued, sent, failed });
+  } catch (error) {
+    console.error('Error processing statement runs:', error);
+    return jsonResponse({ error: error instanceof Error ? error.message : 'Failed to process statement runs' }, 500);
+  }
+});
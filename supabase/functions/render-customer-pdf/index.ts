@@ -0,0 +1,138 @@
+import 'jsr:@supabase/functions-js/edge-runtime.d.ts';
+import { createClient } from 'jsr:@supabase/supabase-js@2';
+import { userHasPermission } from '../_shared/permissions.ts';
+import {
+  PdfDocumentType,
+  PdfInvoice,
+  PdfTemplate,
+  archiveCustomerPdf,
+  bytesToBase64,
+  generateCustomerPdf,
+  loadLogo,
+  loadPdfTemplate,
+  renderCustomerPdf,
+  resolveOrganizationId,
+} from '../_shared/customer-pdf.ts';
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Methods': 'POST, OPTIONS',
+  'Access-Control-Allow-Headers': 'Content-Type, Authorization, X-Client-Info, Apikey',
+};
+
+interface RequestBody {
+  customerId?: string;
+  documentType?: PdfDocumentType;
+  invoiceReference?: string;
+  templateId?: string;
+  // Preview renders unsaved template edits against sample data and is not archived
+  preview?: boolean;
+  template?: Partial<PdfTemplate>;
+  generatedByUserId?: string;
+}
+
+const jsonResponse = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+  });
+
+function sampleInvoices(documentType: PdfDocumentType): PdfInvoice[] {
+  const daysAgo = (days: number) => new Date(Date.now() - days * 86400000).toISOString().split('T')[0];
+  const invoices: PdfInvoice[] = [
+    { reference_number: '012345', type: 'Invoice', date: daysAgo(20), due_date: daysAgo(-10), amount: 1250, balance: 1250, description: 'Monthly services' },
+    { reference_number: '012201', type: 'Invoice', date: daysAgo(65), due_date: daysAgo(35), amount: 980.5, balance: 480.5, description: 'Monthly services' },
+    { reference_number: '011876', type: 'Invoice', date: daysAgo(130), due_date: daysAgo(100), amount: 2110, balance: 2110, description: 'Equipment rental' },
+    { reference_number: 'CM0042', type: 'Credit Memo', date: daysAgo(12), due_date: null, amount: 150, balance: 150, description: 'Billing adjustment' },
+  ];
+  return documentType === 'invoice' ? invoices.slice(0, 1) : invoices;
+}
+
+Deno.serve(async (req: Request) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { status: 200, headers: corsHeaders });
+  }
+
+  try {
+    const body: RequestBody = await req.json();
+    const documentType: PdfDocumentType = body.documentType === 'invoice' ? 'invoice' : 'statement';
+
+    const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
+    const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
+    const supabase = createClient(supabaseUrl, supabaseServiceKey);
+
+    // ── AuthZ: staff who can view statements, or a service-role caller ──
+    let userId = body.generatedByUserId || null;
+    const authToken = req.headers.get('Authorization')?.replace('Bearer ', '');
+    if (authToken !== supabaseServiceKey) {
+      const anonClient = createClient(supabaseUrl, Deno.env.get('SUPABASE_ANON_KEY')!);
+      const { data: { user: caller } } = authToken
+        ? await anonClient.auth.getUser(authToken)
+        : { data: { user: null } };
+      if (!caller) return jsonResponse({ error: 'Unauthorized' }, 401);
+      if (!(await userHasPermission(supabase, caller.id, 'statements', 'view'))) {
+        return jsonResponse({ error: 'You do not have permission to view statements' }, 403);
+      }
+      userId = caller.id;
+    }
+
+    if (body.preview) {
+      if (!userId) return jsonResponse({ error: 'Previews need a user' }, 400);
+      const organizationId = await resolveOrganizationId(supabase, '', userId);
+      if (!organizationId) return jsonResponse({ error: 'No organization found' }, 400);
+
+      const saved = await loadPdfTemplate(supabase, organizationId, documentType, body.templateId);
+      const template: PdfTemplate = { ...saved, ...body.template, document_type: documentType };
+      const bytes = await renderCustomerPdf({
+        documentType,
+        template,
+        customer: {
+          customer_id: 'SAMPLE01',
+          customer_name: 'Sample Customer LLC',
+          address_lines: ['Springfield, IL'],
+          terms: '30D',
+        },
+        invoices: sampleInvoices(documentType),
+        asOf: new Date(),
+        logo: await loadLogo(supabase, template),
+      });
+      return jsonResponse({ success: true, pdfBase64: bytesToBase64(bytes) });
+    }
+
+    if (!body.customerId) return jsonResponse({ error: 'customerId is required' }, 400);
+    if (documentType === 'invoice' && !body.invoiceReference) {
+      return jsonResponse({ error: 'invoiceReference is required for invoice PDFs' }, 400);
+    }
+
+    const organizationId = await resolveOrganizationId(supabase, body.customerId, userId);
+    if (!organizationId) return jsonResponse({ error: 'Customer not found' }, 404);
+
+    const rendered = await generateCustomerPdf(supabase, {
+      organizationId,
+      customerId: body.customerId,
+      documentType,
+      invoiceReference: body.invoiceReference,
+      templateId: body.templateId,
+    });
+
+    const archived = await archiveCustomerPdf(supabase, {
+      organizationId,
+      customerId: body.customerId,
+      documentType,
+      invoiceReference: body.invoiceReference,
+      rendered,
+      source: 'download',
+      generatedBy: userId,
+    });
+
+    return jsonResponse({
+      success: true,
+      documentId: archived?.id ?? null,
+      filename: rendered.filename,
+      pdfBase64: bytesToBase64(rendered.bytes),
+    });
+  } catch (error) {
+    console.error('Error rendering PDF:', error);
+    return jsonResponse({ error: error instanceof Error ? error.message : 'Failed to render PDF' }, 500);
+  }
+});
@@ -1,5 +1,15 @@
 import 'jsr:@supabase/functions-js/edge-runtime.d.ts';
 import { createClient } from 'jsr:@supabase/supabase-js@2';
+import { userHasPermission } from '../_shared/permissions.ts';
+import {
+  CustomerPdfFile,
+  archiveCustomerPdf,
+  base64ToBytes,
+  bytesToBase64,
+  generateCustomerPdf,
+  resolveOrganizationId,
+} from '../_shared/customer-pdf.ts';
+import { loadContactEmails, loadDoNotContactEmails } from '../_shared/customer-contacts.ts';
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
@@ -28,6 +38,7 @@ interface CustomerData {
   oldest_invoice_date?: string;
   days_overdue?: number;
   payment_url?: string;
+  portal_url?: string;
 }
 
 interface Template {
@@ -44,8 +55,16 @@ interface RequestBody {
   customerData: CustomerData;
   pdfBase64?: string;
   excelBase64?: string;
+  // Overrides the report template's include_pdf_attachment (delivery preferences)
+  attachPdf?: boolean;
+  additionalRecipients?: string[];
+  ccEmails?: string[];
+  // Send to the customer's contacts with these roles instead of the
+  // customer email, when any such contacts exist
+  recipientRoles?: string[];
   sentByUserId?: string;
   department?: string;
+  portalBaseUrl?: string;
 }
 
 const formatCurrency = (amount: number) => {
@@ -105,6 +124,14 @@ const generateInvoiceTable = (invoices: Invoice[]) => {
   `;
 };
 
+// Kept on one line: the body's newlines are turned into <br> tags below.
+const generatePortalLink = (portalUrl: string, paymentUrl?: string) =>
+  `<div style="margin: 24px 0; padding: 16px; background-color: #f8fafc; border: 1px solid #e2e8f0; border-radius: 8px;">` +
+  `View your invoices, payment history and statement online, or let us know when to expect payment: ` +
+  `<a href="${portalUrl}" style="color: #2563eb; font-weight: 600;">View your account</a>` +
+  (paymentUrl ? ` &middot; <a href="${paymentUrl}" style="color: #16a34a; font-weight: 600;">Pay now by card</a>` : '') +
+  `</div>`;
+
 const replacePlaceholders = (text: string, data: CustomerData) => {
   const replacements: { [key: string]: string } = {
     '{{customer_name}}': data.customer_name,
@@ -119,6 +146,7 @@ const replacePlaceholders = (text: string, data: CustomerData) => {
     '{{oldest_invoice_date}}': data.oldest_invoice_date ? formatDate(data.oldest_invoice_date) : '',
     '{{days_overdue}}': data.days_overdue?.toString() || '0',
     '{{payment_url}}': data.payment_url || '',
+    '{{portal_url}}': data.portal_url || '',
   };
 
   let result = text;
@@ -139,7 +167,7 @@ Deno.serve(async (req: Request) => {
 
   try {
     const body: RequestBody = await req.json();
-    const { templateId, templateName, template, customerData, pdfBase64, excelBase64, sentByUserId, department } = body;
+    const { templateId, templateName, template, customerData, pdfBase64, excelBase64, attachPdf, sentByUserId, department, portalBaseUrl } = body;
 
     if (!template || !customerData || !customerData.customer_email) {
       return new Response(
@@ -166,6 +194,26 @@ Deno.serve(async (req: Request) => {
     const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
     const supabase = createClient(supabaseUrl, supabaseServiceKey);
 
+    // ── AuthZ: staff with the statements permission, OR a server-to-server
+    // call with the service-role key (which names the sender itself). ──
+    let senderId = sentByUserId || null;
+    const authToken = req.headers.get('Authorization')?.replace('Bearer ', '');
+    if (authToken !== supabaseServiceKey) {
+      const anonClient = createClient(supabaseUrl, Deno.env.get('SUPABASE_ANON_KEY')!);
+      const { data: { user: caller } } = authToken
+        ? await anonClient.auth.getUser(authToken)
+        : { data: { user: null } };
+      if (!caller) {
+        return new Response(JSON.stringify({ error: 'Unauthorized' }),
+          { status: 401, headers: { ...corsHeaders, 'Content-Type': 'application/json' } });
+      }
+      if (!(await userHasPermission(supabase, caller.id, 'statements', 'create'))) {
+        return new Response(JSON.stringify({ error: 'You do not have permission to send statements' }),
+          { status: 403, headers: { ...corsHeaders, 'Content-Type': 'application/json' } });
+      }
+      senderId = caller.id;
+    }
+
     const { data: emailSettings } = await supabase
       .from('email_settings')
       .select('*')
@@ -195,6 +243,26 @@ Deno.serve(async (req: Request) => {
       }
     }
 
+    const baseUrl = (portalBaseUrl || '').replace(/\/+$/, '');
+    if (baseUrl && customerData.customer_id) {
+      const { data: portalToken, error: portalError } = await supabase.rpc('create_customer_portal_token', {
+        p_customer_id: customerData.customer_id,
+        p_valid_days: 30,
+        p_created_via: 'statement_email',
+      });
+
+      if (portalError) {
+        console.error('Error creating portal link:', portalError);
+      } else if (portalToken) {
+        customerData.portal_url = `${baseUrl}/portal/${portalToken}`;
+        // The pay link opens the same portal with every open invoice
+        // preselected for online payment.
+        if (!customerData.payment_url && customerData.balance > 0) {
+          customerData.payment_url = `${customerData.portal_url}?pay=all`;
+        }
+      }
+    }
+
     let emailSubject = replacePlaceholders(template.subject, customerData);
     let emailBody = replacePlaceholders(template.body, customerData);
 
@@ -207,12 +275,56 @@ Deno.serve(async (req: Request) => {
 
     emailBody = emailBody.replace(/\{\{payment_table\}\}/g, '');
 
+    if (customerData.portal_url && !template.body.includes('{{portal_url}}')) {
+      emailBody += generatePortalLink(
+        customerData.portal_url,
+        template.body.includes('{{payment_url}}') ? undefined : customerData.payment_url
+      );
+    }
+
     const htmlContent = `
       <div style="font-family: Arial, sans-serif; max-width: 700px; margin: 0 auto; padding: 20px;">
         ${emailBody.replace(/\n/g, '<br>')}
       </div>
     `;
 
+    // ── PDF: the report template decides whether one is attached; it is
+    // rendered here unless the caller already supplied one. ──
+    let pdf: CustomerPdfFile | null = null;
+    let organizationId: string | null = null;
+    if (pdfBase64) {
+      pdf = {
+        bytes: base64ToBytes(pdfBase64),
+        filename: `Statement_${customerData.customer_name.replace(/[^a-zA-Z0-9]/g, '_')}_${new Date().toISOString().split('T')[0]}.pdf`,
+        totalBalance: customerData.balance || 0,
+        invoiceCount: customerData.invoices?.length || 0,
+      };
+    } else if (templateId && customerData.customer_id) {
+      const { data: reportTemplate } = await supabase
+        .from('customer_report_templates')
+        .select('include_pdf_attachment, pdf_template_id')
+        .eq('id', templateId)
+        .maybeSingle();
+
+      if (attachPdf ?? reportTemplate?.include_pdf_attachment) {
+        organizationId = await resolveOrganizationId(supabase, customerData.customer_id, senderId);
+        if (organizationId) {
+          try {
+            pdf = await generateCustomerPdf(supabase, {
+              organizationId,
+              customerId: customerData.customer_id,
+              documentType: 'statement',
+              templateId: reportTemplate?.pdf_template_id,
+            });
+          } catch (pdfError) {
+            // Send without the attachment rather than not at all; the log
+            // records that no PDF went out.
+            console.error('Error rendering statement PDF:', pdfError);
+          }
+        }
+      }
+    }
+
     const attachments = [];
     if (excelBase64) {
       attachments.push({
@@ -221,19 +333,48 @@ Deno.serve(async (req: Request) => {
         type: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
         disposition: 'attachment',
       });
-    } else if (pdfBase64) {
+    }
+    if (pdf) {
       attachments.push({
-        content: pdfBase64,
-        filename: `Invoice_Statement_${new Date().toISOString().split('T')[0]}.pdf`,
+        content: pdfBase64 || bytesToBase64(pdf.bytes),
+        filename: pdf.filename,
         type: 'application/pdf',
         disposition: 'attachment',
       });
     }
 
+    let roleEmails: string[] = [];
+    let doNotContact = new Set<string>();
+    if (customerData.customer_id) {
+      organizationId ??= await resolveOrganizationId(supabase, customerData.customer_id, senderId);
+      if (organizationId) {
+        if (body.recipientRoles?.length) {
+          roleEmails = await loadContactEmails(supabase, organizationId, customerData.customer_id, body.recipientRoles);
+        }
+        doNotContact = await loadDoNotContactEmails(supabase, organizationId, customerData.customer_id);
+      }
+    }
+
+    const to = [...(roleEmails.length > 0 ? roleEmails : [customerData.customer_email]), ...(body.additionalRecipients || [])]
+      .map(email => email?.trim().toLowerCase())
+      .filter((email, i, all) => email && !doNotContact.has(email) && all.indexOf(email) === i);
+    const cc = (body.ccEmails || []).filter((email, i, all) => email && !to.includes(email) && all.indexOf(email) === i);
+
+    if (to.length === 0) {
+      return new Response(
+        JSON.stringify({ error: 'No recipients to send to; every address is missing or marked do not contact' }),
+        {
+          status: 400,
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        }
+      );
+    }
+
     const emailData = {
       personalizations: [
         {
-          to: [{ email: customerData.customer_email, name: customerData.customer_name }],
+          to: to.map(email => ({ email, name: customerData.customer_name })),
+          ...(cc.length > 0 ? { cc: cc.map(email => ({ email })) } : {}),
           subject: emailSubject,
         },
       ],
@@ -279,7 +420,7 @@ Deno.serve(async (req: Request) => {
       await supabase.from('customer_email_logs').insert({
         customer_id: customerData.customer_id,
         customer_name: customerData.customer_name,
-        customer_email: customerData.customer_email,
+        customer_email: to.join(', '),
         template_id: templateId || null,
         template_name: templateName || 'Custom Template',
         subject: emailSubject,
@@ -287,8 +428,8 @@ Deno.serve(async (req: Request) => {
         error_message: errorText,
         invoice_count: customerData.invoices?.length || 0,
         total_balance: customerData.balance || 0,
-        had_pdf_attachment: !!(excelBase64 || pdfBase64),
-        sent_by_user_id: sentByUserId || null,
+        had_pdf_attachment: !!(excelBase64 || pdf),
+        sent_by_user_id: senderId,
       });
 
       return new Response(
@@ -307,7 +448,7 @@ Deno.serve(async (req: Request) => {
       .insert({
         customer_id: customerData.customer_id,
         customer_name: customerData.customer_name,
-        customer_email: customerData.customer_email,
+        customer_email: to.join(', '),
         template_id: templateId || null,
         template_name: templateName || 'Custom Template',
         subject: emailSubject,
@@ -315,8 +456,8 @@ Deno.serve(async (req: Request) => {
         status: 'sent',
         invoice_count: customerData.invoices?.length || 0,
         total_balance: customerData.balance || 0,
-        had_pdf_attachment: !!(excelBase64 || pdfBase64),
-        sent_by_user_id: sentByUserId || null,
+        had_pdf_attachment: !!(excelBase64 || pdf),
+        sent_by_user_id: senderId,
       })
       .select()
       .single();
@@ -325,6 +466,21 @@ Deno.serve(async (req: Request) => {
       console.error('Error creating log entry:', logError);
     }
 
+    if (pdf && customerData.customer_id) {
+      organizationId ??= await resolveOrganizationId(supabase, customerData.customer_id, senderId);
+      if (organizationId) {
+        await archiveCustomerPdf(supabase, {
+          organizationId,
+          customerId: customerData.customer_id,
+          documentType: 'statement',
+          rendered: pdf,
+          source: 'email',
+          emailLogId: logEntry?.id,
+          generatedBy: senderId,
+        });
+      }
+    }
+
     return new Response(
       JSON.stringify({
         success: true,
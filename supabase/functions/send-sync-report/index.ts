@@ -28,6 +28,52 @@ interface SyncLogRow {
   created_at: string;
 }
 
+interface ReconciliationTotals {
+  count: number;
+  amount: number;
+  balance: number;
+}
+
+interface ReconciliationMonth {
+  month: string;
+  entity_type: string;
+  acumatica: ReconciliationTotals;
+  local: ReconciliationTotals;
+  missing_local: number;
+  stale: number;
+  extra: number;
+  amount_mismatch: number;
+}
+
+interface ReconciliationReport {
+  id: string;
+  report_date: string;
+  status: string;
+  auto_heal: boolean;
+  summary: ReconciliationMonth[];
+  total_discrepancies: number;
+  healed_count: number;
+  queued_count: number;
+  error_message: string | null;
+  completed_at: string | null;
+}
+
+interface ReconciliationDiscrepancyRow {
+  entity_type: string;
+  month: string;
+  document_type: string | null;
+  reference_number: string;
+  classification: string;
+  detail: string | null;
+  heal_status: string | null;
+}
+
+const RECONCILIATION_ENTITY_LABELS: Record<string, string> = {
+  invoice: 'Invoices',
+  payment: 'Payments',
+  payment_application: 'Applications',
+};
+
 function formatDate(dateStr: string | null): string {
   if (!dateStr) return 'Never';
   const d = new Date(dateStr);
@@ -67,6 +113,74 @@ function minutesAgo(dateStr: string | null): string {
   return `${days}d ${hours % 24}h ago`;
 }
 
+function buildReconciliationSection(
+  report: ReconciliationReport | null,
+  openDiscrepancies: ReconciliationDiscrepancyRow[],
+): string {
+  if (!report) return '';
+
+  const heading = `<h2 style="margin:28px 0 12px 0;font-size:18px;color:#1e293b;border-bottom:2px solid #e2e8f0;padding-bottom:8px;">Reconciliation (${report.report_date})</h2>`;
+  if (report.status === 'failed') {
+    return `${heading}<p style="color:#dc2626;font-size:14px;">Reconciliation run failed: ${report.error_message || 'Unknown error'}</p>`;
+  }
+
+  const cell = 'padding:8px 12px;border-bottom:1px solid #e5e7eb;font-size:13px;';
+  const money = (value: number) => `$${Number(value || 0).toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+
+  const monthRows = report.summary.map(m => {
+    const differences = m.missing_local + m.stale + m.extra + m.amount_mismatch;
+    const countColor = m.acumatica.count === m.local.count ? '#059669' : '#dc2626';
+    const amountColor = Math.abs(m.acumatica.amount - m.local.amount) < 0.01 ? '#059669' : '#dc2626';
+    return `
+      <tr style="background:${differences > 0 ? '#fffbeb' : '#ffffff'};">
+        <td style="${cell}font-weight:600;">${m.month}</td>
+        <td style="${cell}">${RECONCILIATION_ENTITY_LABELS[m.entity_type] || m.entity_type}</td>
+        <td style="${cell}color:${countColor};">${m.acumatica.count} / ${m.local.count}</td>
+        <td style="${cell}color:${amountColor};">${money(m.acumatica.amount)} / ${money(m.local.amount)}</td>
+        <td style="${cell}">${m.missing_local}</td>
+        <td style="${cell}">${m.stale}</td>
+        <td style="${cell}">${m.extra}</td>
+        <td style="${cell}">${m.amount_mismatch}</td>
+      </tr>`;
+  }).join('');
+
+  const discrepancyRows = openDiscrepancies.map(d => `
+      <tr>
+        <td style="${cell}">${RECONCILIATION_ENTITY_LABELS[d.entity_type] || d.entity_type}</td>
+        <td style="${cell}font-weight:500;">${d.document_type ? `${d.document_type} ` : ''}${d.reference_number}</td>
+        <td style="${cell}">${d.classification.replace('_', ' ')}</td>
+        <td style="${cell}color:#6b7280;">${d.detail || ''}</td>
+      </tr>`).join('');
+
+  const healText = report.auto_heal
+    ? ` Auto-heal re-fetched ${report.healed_count} and queued ${report.queued_count} for a date-range sync.`
+    : '';
+
+  return `
+        ${heading}
+        <p style="margin:0 0 12px 0;font-size:14px;color:#334155;">${report.total_discrepancies} difference(s) between Acumatica and the local mirror.${healText}</p>
+        <table style="width:100%;border-collapse:collapse;border:1px solid #e5e7eb;">
+          <thead>
+            <tr style="background:#f8fafc;">
+              <th style="${cell}text-align:left;color:#64748b;">Month</th>
+              <th style="${cell}text-align:left;color:#64748b;">Entity</th>
+              <th style="${cell}text-align:left;color:#64748b;">Count (Acu / Local)</th>
+              <th style="${cell}text-align:left;color:#64748b;">Total (Acu / Local)</th>
+              <th style="${cell}text-align:left;color:#64748b;">Missing</th>
+              <th style="${cell}text-align:left;color:#64748b;">Stale</th>
+              <th style="${cell}text-align:left;color:#64748b;">Extra</th>
+              <th style="${cell}text-align:left;color:#64748b;">Mismatch</th>
+            </tr>
+          </thead>
+          <tbody>${monthRows}</tbody>
+        </table>
+        ${discrepancyRows ? `
+        <h3 style="margin:20px 0 8px 0;font-size:15px;color:#1e293b;">Unresolved Differences</h3>
+        <table style="width:100%;border-collapse:collapse;border:1px solid #e5e7eb;">
+          <tbody>${discrepancyRows}</tbody>
+        </table>` : ''}`;
+}
+
 function buildReportHtml(
   syncStatuses: SyncStatusRow[],
   recentLogs: SyncLogRow[],
@@ -75,6 +189,7 @@ function buildReportHtml(
   triggerUrl: string,
   errors: string[],
   reportTime: string,
+  reconciliationSection: string,
 ): string {
   const hasErrors = errors.length > 0;
   const allHealthy = syncStatuses.every(s => s.status !== 'failed' && s.last_successful_sync);
@@ -202,6 +317,8 @@ function buildReportHtml(
           <tbody>${cronRows}</tbody>
         </table>` : '<p style="color:#6b7280;font-style:italic;">No cron run data available.</p>'}
 
+        ${reconciliationSection}
+
         <div style="margin:32px 0;text-align:center;">
           <a href="${triggerUrl}" style="display:inline-block;padding:14px 32px;background:linear-gradient(135deg,#2563eb,#1d4ed8);color:white;text-decoration:none;border-radius:8px;font-weight:600;font-size:16px;box-shadow:0 4px 6px rgba(37,99,235,0.3);">
             Trigger Acumatica Sync Now
@@ -229,6 +346,8 @@ Deno.serve(async (req: Request) => {
     const sendgridApiKey = Deno.env.get("SENDGRID_API_KEY")!;
     const supabase = createClient(supabaseUrl, supabaseServiceKey);
 
+    const body = await req.json().catch(() => ({}));
+
     const { data: syncStatuses } = await supabase
       .from('sync_status')
       .select('*')
@@ -256,6 +375,36 @@ Deno.serve(async (req: Request) => {
 
     const { data: cronHealth } = await supabase.rpc('get_cron_run_details', { p_limit: 10 });
 
+    // A reconciliation run mails its own report; the regular reports include
+    // the most recent one from the last day and a half.
+    const reconciliationColumns = 'id, report_date, status, auto_heal, summary, total_discrepancies, healed_count, queued_count, error_message, completed_at';
+    const { data: reconciliation } = body.reconciliationReportId
+      ? await supabase
+        .from('sync_reconciliation_reports')
+        .select(reconciliationColumns)
+        .eq('id', body.reconciliationReportId)
+        .maybeSingle()
+      : await supabase
+        .from('sync_reconciliation_reports')
+        .select(reconciliationColumns)
+        .neq('status', 'running')
+        .gte('started_at', new Date(Date.now() - 36 * 60 * 60 * 1000).toISOString())
+        .order('started_at', { ascending: false })
+        .limit(1)
+        .maybeSingle();
+
+    let openDiscrepancies: ReconciliationDiscrepancyRow[] = [];
+    if (reconciliation?.status === 'completed' && reconciliation.total_discrepancies > 0) {
+      const { data } = await supabase
+        .from('sync_reconciliation_discrepancies')
+        .select('entity_type, month, document_type, reference_number, classification, detail, heal_status')
+        .eq('report_id', reconciliation.id)
+        .or('heal_status.is.null,heal_status.eq.failed')
+        .order('month', { ascending: false })
+        .limit(25);
+      openDiscrepancies = data || [];
+    }
+
     const errors: string[] = [];
     for (const s of (syncStatuses || [])) {
       if (s.status === 'failed') {
@@ -281,6 +430,15 @@ Deno.serve(async (req: Request) => {
       errors.push('No sync activity recorded in the last 24 hours');
     }
 
+    if (reconciliation?.status === 'failed') {
+      errors.push(`Reconciliation run on ${reconciliation.report_date} failed: ${reconciliation.error_message || 'Unknown error'}`);
+    } else if (reconciliation) {
+      const unresolved = reconciliation.total_discrepancies - reconciliation.healed_count - reconciliation.queued_count;
+      if (unresolved > 0) {
+        errors.push(`Reconciliation on ${reconciliation.report_date} found ${unresolved} unresolved difference(s) with Acumatica`);
+      }
+    }
+
     const triggerUrl = `${supabaseUrl}/functions/v1/acumatica-master-sync`;
 
     const reportTime = new Date().toLocaleString('en-US', {
@@ -306,6 +464,7 @@ Deno.serve(async (req: Request) => {
       triggerUrl,
       errors,
       reportTime,
+      buildReconciliationSection(reconciliation as ReconciliationReport | null, openDiscrepancies),
     );
 
     const { data: recipients } = await supabase
@@ -1,5 +1,6 @@
 import "jsr:@supabase/functions-js/edge-runtime.d.ts";
 import { createClient } from "npm:@supabase/supabase-js@2.57.4";
+import { loadDoNotContactEmails } from "../_shared/customer-contacts.ts";
 
 const corsHeaders = {
   "Access-Control-Allow-Origin": "*",
@@ -7,6 +8,44 @@ const corsHeaders = {
   "Access-Control-Allow-Headers": "Content-Type, Authorization, X-Client-Info, Apikey",
 };
 
+// Replies are matched back to the ticket by Message-ID (In-Reply-To /
+// References) or, when a mail client drops those, by this marker in the
+// quoted body.
+const replyMarker = (token: string) => `[ref:${token}]`;
+
+const ticketMessageId = (ticketId: string, token: string, fromAddress: string) =>
+  `<ticket-${ticketId}.${token}@${fromAddress.split("@")[1] || "ventureresp.app"}>`;
+
+function newReplyToken(): string {
+  return Array.from(crypto.getRandomValues(new Uint8Array(12)))
+    .map((b) => b.toString(16).padStart(2, "0"))
+    .join("");
+}
+
+// Mints a portal link for the ticket's customer with the ticket's invoices
+// preselected for online payment. Returns null when no link can be made.
+async function buildPayLink(supabase: any, portalBaseUrl: string, ticketId: string, customerId: string) {
+  const { data: portalToken, error } = await supabase.rpc("create_customer_portal_token", {
+    p_customer_id: customerId,
+    p_valid_days: 30,
+    p_created_via: "ticket_email",
+  });
+
+  if (error || !portalToken) {
+    console.error("Error creating pay link:", error);
+    return null;
+  }
+
+  const { data: ticketInvoices } = await supabase
+    .from("ticket_invoices")
+    .select("invoice_reference_number")
+    .eq("ticket_id", ticketId);
+
+  const refs = (ticketInvoices || []).map((row: any) => row.invoice_reference_number);
+  const pay = refs.length > 0 ? refs.map(encodeURIComponent).join(",") : "all";
+  return `${portalBaseUrl.replace(/\/+$/, "")}/portal/${portalToken}?pay=${pay}&ticket=${ticketId}`;
+}
+
 Deno.serve(async (req: Request) => {
   if (req.method === "OPTIONS") {
     return new Response(null, { status: 200, headers: corsHeaders });
@@ -44,6 +83,7 @@ Deno.serve(async (req: Request) => {
       ticket_id,
       customer_id,
       to_email,
+      to_emails = [],
       subject,
       body_text,
       send_via = "sendgrid",
@@ -52,15 +92,60 @@ Deno.serve(async (req: Request) => {
       reminder_date = null,
       reminder_note = null,
       ticket_creation_mode = "manual",
+      include_pay_link = false,
+      portal_base_url = "",
     } = body;
 
-    if (!ticket_id || !to_email || !subject || !body_text) {
+    // to_emails carries the recipients picked from the customer's contacts;
+    // to_email is kept for callers that send to a single address
+    const recipients: string[] = [to_email, ...to_emails]
+      .map((email: string | null | undefined) => email?.trim().toLowerCase())
+      .filter((email: string | undefined, i: number, all: (string | undefined)[]): email is string =>
+        !!email && all.indexOf(email) === i
+      );
+
+    if (!ticket_id || recipients.length === 0 || !subject || !body_text) {
       return new Response(JSON.stringify({ error: "Missing required fields" }), {
         status: 400,
         headers: { ...corsHeaders, "Content-Type": "application/json" },
       });
     }
 
+    if (customer_id) {
+      const { data: profile } = await supabase
+        .from("user_profiles")
+        .select("organization_id")
+        .eq("id", user.id)
+        .maybeSingle();
+
+      if (profile?.organization_id) {
+        const doNotContact = await loadDoNotContactEmails(supabase, profile.organization_id, customer_id);
+        const blocked = recipients.filter((email) => doNotContact.has(email));
+        if (blocked.length > 0) {
+          return new Response(JSON.stringify({ error: `Marked do not contact: ${blocked.join(", ")}` }), {
+            status: 400,
+            headers: { ...corsHeaders, "Content-Type": "application/json" },
+          });
+        }
+      }
+    }
+
+    const toAddresses = recipients.join(", ");
+
+    let emailText = body_text;
+    let emailHtml = body_text.replace(/\n/g, "<br>");
+    if (include_pay_link && portal_base_url && customer_id) {
+      const payUrl = await buildPayLink(supabase, portal_base_url, ticket_id, customer_id);
+      if (payUrl) {
+        emailText += `\n\nPay online: ${payUrl}`;
+        emailHtml += `<br><br><a href="${payUrl}" style="color: #16a34a; font-weight: 600;">Pay now by card</a>`;
+      }
+    }
+
+    const replyToken = newReplyToken();
+    emailText += `\n\n${replyMarker(replyToken)}`;
+    emailHtml += `<br><br><span style="color: #9ca3af; font-size: 11px;">${replyMarker(replyToken)}</span>`;
+
     // Get sender configuration
     let fromEmail = "ar@ventureresp.app";
     let fromName = "Venture Respiratory - AR";
@@ -93,6 +178,8 @@ Deno.serve(async (req: Request) => {
       replyTo = emailSettings.reply_to_email || fromEmail;
     }
 
+    let messageId = ticketMessageId(ticket_id, replyToken, fromEmail);
+
     let sentSuccessfully = false;
     let sendError = "";
 
@@ -115,6 +202,7 @@ Deno.serve(async (req: Request) => {
       // For SMTP, we use the smtp config values
       fromEmail = smtpConfig.from_email;
       fromName = smtpConfig.from_name || fromName;
+      messageId = ticketMessageId(ticket_id, replyToken, fromEmail);
 
       // Use SendGrid as fallback since Deno Edge Functions can't do raw SMTP
       // The SMTP config tells us which "from" address to use via SendGrid
@@ -127,13 +215,14 @@ Deno.serve(async (req: Request) => {
             "Content-Type": "application/json",
           },
           body: JSON.stringify({
-            personalizations: [{ to: [{ email: to_email }] }],
+            personalizations: [{ to: recipients.map((email) => ({ email })) }],
             from: { email: fromEmail, name: fromName },
             reply_to: { email: replyTo, name: fromName },
             subject,
+            headers: { "Message-ID": messageId },
             content: [
-              { type: "text/plain", value: body_text },
-              { type: "text/html", value: body_text.replace(/\n/g, "<br>") },
+              { type: "text/plain", value: emailText },
+              { type: "text/html", value: emailHtml },
             ],
             tracking_settings: {
               click_tracking: { enable: false },
@@ -167,13 +256,14 @@ Deno.serve(async (req: Request) => {
           "Content-Type": "application/json",
         },
         body: JSON.stringify({
-          personalizations: [{ to: [{ email: to_email }] }],
+          personalizations: [{ to: recipients.map((email) => ({ email })) }],
           from: { email: fromEmail, name: fromName },
           reply_to: { email: replyTo, name: fromName },
           subject,
+          headers: { "Message-ID": messageId },
           content: [
-            { type: "text/plain", value: body_text },
-            { type: "text/html", value: body_text.replace(/\n/g, "<br>") },
+            { type: "text/plain", value: emailText },
+            { type: "text/html", value: emailHtml },
           ],
           tracking_settings: {
             click_tracking: { enable: false },
@@ -206,12 +296,14 @@ Deno.serve(async (req: Request) => {
         subject,
         direction: "outbound",
         from_email: fromEmail,
-        to_email: to_email,
-        body_text,
-        body_html: body_text.replace(/\n/g, "<br>"),
+        to_email: toAddresses,
+        body_text: emailText,
+        body_html: emailHtml,
         sent_via: send_via,
         smtp_config_id: send_via === "smtp" ? smtp_config_id : null,
         sent_by: user.id,
+        message_id: messageId,
+        reply_token: replyToken,
       })
       .select("id")
       .single();
@@ -221,11 +313,12 @@ Deno.serve(async (req: Request) => {
     }
 
     // Log activity on the ticket
-    await supabase.from("collection_ticket_activity").insert({
+    await supabase.from("ticket_activity_log").insert({
       ticket_id,
       activity_type: "email_sent",
-      description: `Email sent to ${to_email}: "${subject}"`,
+      description: `Email sent to ${toAddresses}: "${subject}"`,
       created_by: user.id,
+      metadata: { email_thread_id: threadEntry?.id || null },
     });
 
     // Handle after-send actions
@@ -1,5 +1,6 @@
 import 'jsr:@supabase/functions-js/edge-runtime.d.ts';
 import { createClient } from 'jsr:@supabase/supabase-js@2';
+import { verifyWebhookRequest, VerificationResult } from '../_shared/webhook-verification.ts';
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
@@ -26,12 +27,24 @@ Deno.serve(async (req: Request) => {
     });
   }
 
+  let verification: VerificationResult | undefined;
   try {
     const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
     const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
     const supabase = createClient(supabaseUrl, supabaseServiceKey);
 
-    const events: SendGridEvent[] = await req.json();
+    verification = await verifyWebhookRequest(supabase, req, 'sendgrid', 'sendgrid');
+    if (!verification.accepted) {
+      return new Response(
+        JSON.stringify({ error: 'Webhook verification failed' }),
+        {
+          status: 401,
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        }
+      );
+    }
+
+    const events: SendGridEvent[] = JSON.parse(verification.rawBody);
 
     console.log(`Received ${events.length} SendGrid events`);
 
@@ -118,6 +131,8 @@ Deno.serve(async (req: Request) => {
     );
   } catch (error) {
     console.error('Error processing webhook:', error);
+    // Let the provider's retry through instead of rejecting it as a replay
+    await verification?.releaseNonce();
     return new Response(
       JSON.stringify({ error: error.message || 'Internal server error' }),
       {
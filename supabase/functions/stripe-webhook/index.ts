@@ -0,0 +1,152 @@
+import 'jsr:@supabase/functions-js/edge-runtime.d.ts';
+import { createClient } from 'npm:@supabase/supabase-js@2.57.4';
+import { retrievePaymentIntent, StripeError, verifyStripeEvent } from '../_shared/stripe.ts';
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Methods': 'POST, OPTIONS',
+  'Access-Control-Allow-Headers': 'Content-Type, Authorization, X-Client-Info, Apikey, Stripe-Signature',
+};
+
+function jsonResponse(body: unknown, status = 200) {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+  });
+}
+
+async function recordPayment(supabase: any, session: any) {
+  const paymentIntentId = typeof session.payment_intent === 'string'
+    ? session.payment_intent
+    : session.payment_intent?.id;
+
+  if (!paymentIntentId) {
+    throw new Error(`Checkout session ${session.id} has no payment intent`);
+  }
+
+  // Charge, receipt and method are nice to have; a stand-in or a transient
+  // Stripe error should not stop the payment from being recorded.
+  let charge: any = null;
+  let paymentMethod: string | null = null;
+  try {
+    const intent = await retrievePaymentIntent(paymentIntentId);
+    charge = intent.latest_charge && typeof intent.latest_charge === 'object' ? intent.latest_charge : null;
+    paymentMethod = charge?.payment_method_details?.type || intent.payment_method_types?.[0] || null;
+  } catch (err) {
+    console.warn(`Could not load payment intent ${paymentIntentId}:`, err instanceof Error ? err.message : err);
+  }
+
+  const { data: recordId, error } = await supabase.rpc('record_stripe_checkout_payment', {
+    p_session_id: session.id,
+    p_payment_intent_id: paymentIntentId,
+    p_amount_paid: Number(session.amount_total || 0) / 100,
+    p_charge_id: charge?.id || null,
+    p_payment_method: paymentMethod,
+    p_receipt_url: charge?.receipt_url || null,
+    p_stripe_customer_id: typeof session.customer === 'string' ? session.customer : null,
+    p_metadata: session.metadata || {},
+  });
+
+  if (error) throw error;
+  return recordId;
+}
+
+async function closeSession(supabase: any, sessionId: string, status: 'expired' | 'failed') {
+  const { error } = await supabase
+    .from('stripe_checkout_sessions')
+    .update({ status, updated_at: new Date().toISOString() })
+    .eq('session_id', sessionId)
+    .eq('status', 'pending');
+
+  if (error) throw error;
+}
+
+Deno.serve(async (req: Request) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { status: 200, headers: corsHeaders });
+  }
+
+  const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
+  const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
+  const supabase = createClient(supabaseUrl, supabaseServiceKey);
+
+  const webhookSecret = Deno.env.get('STRIPE_WEBHOOK_SECRET');
+  if (!webhookSecret) {
+    console.error('STRIPE_WEBHOOK_SECRET is not configured');
+    return jsonResponse({ error: 'Stripe webhook secret not configured' }, 500);
+  }
+
+  const rawBody = await req.text();
+  let event;
+  try {
+    event = await verifyStripeEvent(rawBody, req.headers.get('stripe-signature'), webhookSecret);
+  } catch (err) {
+    const reason = err instanceof Error ? err.message : String(err);
+    console.warn(`Stripe webhook rejected: ${reason}`);
+    await supabase.from('webhook_logs').insert({
+      webhook_type: 'stripe',
+      entity_id: 'unverified',
+      payload: { raw: rawBody.substring(0, 2000) },
+      status: 'rejected',
+      error_message: reason,
+      rejection_reason: reason,
+      source_ip: req.headers.get('x-forwarded-for')?.split(',')[0].trim() || null,
+      received_at: new Date().toISOString(),
+    });
+    return jsonResponse({ error: reason }, err instanceof StripeError ? err.status : 400);
+  }
+
+  const session = event.data?.object || {};
+  const receivedAt = new Date().toISOString();
+
+  try {
+    let status = 'processed';
+
+    switch (event.type) {
+      case 'checkout.session.completed':
+        // Bank debits and similar complete later, via async_payment_succeeded.
+        if (session.payment_status === 'paid') {
+          await recordPayment(supabase, session);
+        } else {
+          status = 'awaiting_payment';
+        }
+        break;
+      case 'checkout.session.async_payment_succeeded':
+        await recordPayment(supabase, session);
+        break;
+      case 'checkout.session.async_payment_failed':
+        await closeSession(supabase, session.id, 'failed');
+        break;
+      case 'checkout.session.expired':
+        await closeSession(supabase, session.id, 'expired');
+        break;
+      default:
+        status = 'ignored';
+    }
+
+    await supabase.from('webhook_logs').insert({
+      webhook_type: 'stripe',
+      entity_id: session.id || event.id,
+      payload: event,
+      status,
+      received_at: receivedAt,
+      processed_at: new Date().toISOString(),
+    });
+
+    return jsonResponse({ received: true, status });
+  } catch (error: any) {
+    console.error(`Error processing Stripe event ${event.id}:`, error);
+
+    await supabase.from('webhook_logs').insert({
+      webhook_type: 'stripe',
+      entity_id: session.id || event.id,
+      payload: event,
+      status: 'error',
+      error_message: error.message,
+      received_at: receivedAt,
+    });
+
+    // Non-2xx makes Stripe retry the event; recording is idempotent.
+    return jsonResponse({ error: error.message }, 500);
+  }
+});
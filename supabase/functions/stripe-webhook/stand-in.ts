@@ -0,0 +1,206 @@
+// Local end-to-end check of Stripe Pay Now without a Stripe account. Not a
+// deployed function: run it with Deno next to `supabase functions serve`.
+//
+// It starts a stand-in for the Stripe API, starts a checkout through
+// customer-portal (which creates the session against the stand-in), then
+// posts a signed checkout.session.completed event to stripe-webhook and checks
+// that record_stripe_checkout_payment marked the session completed and
+// recorded exactly one payment, also when the event is delivered twice. Bad
+// and stale signatures must be rejected.
+//
+// 1. supabase start
+// 2. Serve the functions with an env file containing
+//      STRIPE_SECRET_KEY=sk_test_stand_in
+//      STRIPE_WEBHOOK_SECRET=whsec_stand_in
+//      STRIPE_API_BASE=http://host.docker.internal:12111
+//      PORTAL_BASE_URL=http://localhost:5173
+//    supabase functions serve --env-file supabase/.env.stand-in
+// 3. deno run --allow-net --allow-env supabase/functions/stripe-webhook/stand-in.ts
+//    with SUPABASE_SERVICE_ROLE_KEY and PORTAL_TOKEN (a customer portal link
+//    token whose customer has an open invoice) set. SUPABASE_URL,
+//    STRIPE_WEBHOOK_SECRET and STAND_IN_PORT default to the values above.
+
+import { createClient } from 'npm:@supabase/supabase-js@2.57.4';
+import { verifyStripeEvent } from '../_shared/stripe.ts';
+
+const supabaseUrl = (Deno.env.get('SUPABASE_URL') || 'http://127.0.0.1:54321').replace(/\/+$/, '');
+const serviceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY');
+const portalToken = Deno.env.get('PORTAL_TOKEN');
+const webhookSecret = Deno.env.get('STRIPE_WEBHOOK_SECRET') || 'whsec_stand_in';
+const port = Number(Deno.env.get('STAND_IN_PORT') || 12111);
+
+if (!serviceKey || !portalToken) {
+  console.error('Set SUPABASE_SERVICE_ROLE_KEY and PORTAL_TOKEN.');
+  Deno.exit(1);
+}
+
+const encoder = new TextEncoder();
+const sessions = new Map<string, any>();
+let failures = 0;
+
+function check(condition: boolean, description: string) {
+  console.log(`${condition ? 'ok  ' : 'FAIL'} ${description}`);
+  if (!condition) failures++;
+}
+
+const randomId = (prefix: string) => `${prefix}_test_${crypto.randomUUID().replace(/-/g, '').slice(0, 24)}`;
+
+// ---------------------------------------------------------------------------
+// Stripe API stand-in: the two endpoints _shared/stripe.ts calls
+// ---------------------------------------------------------------------------
+const server = Deno.serve({ port, onListen: () => {} }, async (req) => {
+  const url = new URL(req.url);
+  if (!req.headers.get('authorization')?.startsWith('Bearer sk_')) {
+    return Response.json({ error: { message: 'Invalid API key' } }, { status: 401 });
+  }
+
+  if (req.method === 'POST' && url.pathname === '/v1/checkout/sessions') {
+    const form = new URLSearchParams(await req.text());
+    let amountTotal = 0;
+    for (let i = 0; form.has(`line_items[${i}][price_data][unit_amount]`); i++) {
+      amountTotal += Number(form.get(`line_items[${i}][price_data][unit_amount]`));
+    }
+    const metadata: Record<string, string> = {};
+    for (const [key, value] of form) {
+      const match = key.match(/^metadata\[(.+)\]$/);
+      if (match) metadata[match[1]] = value;
+    }
+    const id = randomId('cs');
+    const session = {
+      id,
+      object: 'checkout.session',
+      url: `http://localhost:${port}/pay/${id}`,
+      expires_at: Math.floor(Date.now() / 1000) + 3600,
+      payment_intent: randomId('pi'),
+      amount_total: amountTotal,
+      currency: form.get('line_items[0][price_data][currency]'),
+      metadata,
+      idempotency_key: req.headers.get('idempotency-key'),
+    };
+    sessions.set(id, session);
+    return Response.json(session);
+  }
+
+  const intentMatch = url.pathname.match(/^\/v1\/payment_intents\/([^/]+)$/);
+  if (req.method === 'GET' && intentMatch) {
+    return Response.json({
+      id: intentMatch[1],
+      payment_method_types: ['card'],
+      latest_charge: {
+        id: randomId('ch'),
+        receipt_url: `http://localhost:${port}/receipts/${intentMatch[1]}`,
+        payment_method_details: { type: 'card' },
+      },
+    });
+  }
+
+  return Response.json({ error: { message: `No stand-in for ${req.method} ${url.pathname}` } }, { status: 404 });
+});
+
+// ---------------------------------------------------------------------------
+// Signed event fixture
+// ---------------------------------------------------------------------------
+async function sign(payload: string, timestamp: number, secret = webhookSecret): Promise<string> {
+  const key = await crypto.subtle.importKey('raw', encoder.encode(secret), { name: 'HMAC', hash: 'SHA-256' }, false, ['sign']);
+  const signature = await crypto.subtle.sign('HMAC', key, encoder.encode(`${timestamp}.${payload}`));
+  const hex = Array.from(new Uint8Array(signature)).map(b => b.toString(16).padStart(2, '0')).join('');
+  return `t=${timestamp},v1=${hex}`;
+}
+
+function completedEvent(session: any): string {
+  return JSON.stringify({
+    id: randomId('evt'),
+    type: 'checkout.session.completed',
+    data: {
+      object: {
+        id: session.id,
+        object: 'checkout.session',
+        payment_status: 'paid',
+        payment_intent: session.payment_intent,
+        amount_total: session.amount_total,
+        currency: session.currency,
+        customer: null,
+        metadata: session.metadata,
+      },
+    },
+  });
+}
+
+async function callFunction(name: string, body: string, headers: Record<string, string> = {}) {
+  const response = await fetch(`${supabaseUrl}/functions/v1/${name}`, {
+    method: 'POST',
+    headers: { 'Authorization': `Bearer ${serviceKey}`, 'Content-Type': 'application/json', ...headers },
+    body,
+  });
+  return { status: response.status, body: await response.json().catch(() => ({})) };
+}
+
+// ---------------------------------------------------------------------------
+// Run
+// ---------------------------------------------------------------------------
+try {
+  const supabase = createClient(supabaseUrl, serviceKey);
+
+  const view = await callFunction('customer-portal', JSON.stringify({ token: portalToken }));
+  const invoice = (view.body.invoices || []).find((inv: any) =>
+    inv.balance - (inv.payment_pending || 0) >= 1 && !inv.disputed
+  );
+  if (!invoice) throw new Error('The portal token has no open, undisputed invoice of at least $1.00 to pay.');
+
+  const amount = Math.min(1, invoice.balance);
+  const checkout = await callFunction('customer-portal', JSON.stringify({
+    action: 'checkout',
+    token: portalToken,
+    allocations: [{ invoice_reference: invoice.reference_number, amount }],
+  }));
+  const sessionId = [...sessions.keys()].pop();
+  const session = sessionId ? sessions.get(sessionId) : null;
+
+  check(checkout.status === 200 && !!session, 'customer-portal created a checkout session through STRIPE_API_BASE');
+  if (!session) throw new Error(`Checkout failed: ${checkout.status} ${JSON.stringify(checkout.body)}`);
+  check(checkout.body.url === session.url, 'portal returned the session URL');
+  check(session.amount_total === Math.round(amount * 100), 'line items total the allocated amount in cents');
+  check(!!session.idempotency_key && session.metadata.checkout_id === session.idempotency_key, 'request carried the checkout id as idempotency key');
+
+  const payload = completedEvent(session);
+  const now = Math.floor(Date.now() / 1000);
+  const signature = await sign(payload, now);
+
+  const parsed = await verifyStripeEvent(payload, signature, webhookSecret).catch(() => null);
+  check(parsed?.data.object.id === session.id, 'verifyStripeEvent accepts the signed fixture');
+
+  const forged = await callFunction('stripe-webhook', payload, { 'Stripe-Signature': await sign(payload, now, 'whsec_wrong') });
+  check(forged.status === 400, 'stripe-webhook rejects a signature made with another secret');
+
+  const stale = await callFunction('stripe-webhook', payload, { 'Stripe-Signature': await sign(payload, now - 3600) });
+  check(stale.status === 400, 'stripe-webhook rejects a signature outside the tolerance');
+
+  const delivered = await callFunction('stripe-webhook', payload, { 'Stripe-Signature': signature });
+  check(delivered.status === 200 && delivered.body.status === 'processed', 'stripe-webhook processes the signed event');
+
+  const redelivered = await callFunction('stripe-webhook', payload, { 'Stripe-Signature': signature });
+  check(redelivered.status === 200, 'stripe-webhook accepts a redelivery');
+
+  const { data: stored } = await supabase
+    .from('stripe_checkout_sessions')
+    .select('status, payment_intent_id')
+    .eq('session_id', session.id)
+    .maybeSingle();
+  check(stored?.status === 'completed' && stored.payment_intent_id === session.payment_intent, 'record_stripe_checkout_payment completed the session');
+
+  const { data: records } = await supabase
+    .from('stripe_payment_records')
+    .select('id, amount_paid, payment_method, receipt_url')
+    .eq('payment_intent_id', session.payment_intent);
+  check(records?.length === 1, 'exactly one payment record after two deliveries');
+  check(Number(records?.[0]?.amount_paid) === amount, 'payment record carries the paid amount');
+  check(records?.[0]?.payment_method === 'card' && !!records?.[0]?.receipt_url, 'charge details came from the payment intent stand-in');
+} catch (err) {
+  failures++;
+  console.error(err instanceof Error ? err.message : err);
+} finally {
+  await server.shutdown();
+}
+
+console.log(failures === 0 ? '\nAll checks passed.' : `\n${failures} check(s) failed.`);
+Deno.exit(failures === 0 ? 0 : 1);
@@ -0,0 +1,337 @@
+import "jsr:@supabase/functions-js/edge-runtime.d.ts";
+import { createClient } from "npm:@supabase/supabase-js@2.57.4";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Methods": "GET, POST, PUT, DELETE, OPTIONS",
+  "Access-Control-Allow-Headers": "Content-Type, Authorization, X-Client-Info, Apikey",
+};
+
+// Stop claiming new chunks after this long so the run ends well inside the
+// edge-function wall clock; whatever is left resumes on the next invocation.
+const TIME_BUDGET_MS = 100_000;
+const LEASE_SECONDS = 300;
+const DEFAULT_CHUNK_DAYS = 7;
+const APPLICATION_BATCH_SIZE = 50;
+// How long to wait before polling an async child sync again
+const CHILD_POLL_SECONDS = 20;
+const CHILD_TIMEOUT_MS = 30 * 60 * 1000;
+
+type EntityType = 'customer' | 'invoice' | 'payment' | 'payment_application';
+
+interface SyncJob {
+  id: string;
+  entity_type: EntityType;
+  mode: 'incremental' | 'date_range';
+  params: Record<string, any>;
+  checkpoint: Record<string, any>;
+  progress: { fetched: number; created: number; updated: number; errors: number };
+  chunks_completed: number;
+  chunks_total: number | null;
+  created_at: string;
+}
+
+interface ChunkResult {
+  done: boolean;
+  checkpoint: Record<string, any>;
+  fetched?: number;
+  created?: number;
+  updated?: number;
+  errors?: number;
+  chunksTotal?: number | null;
+  // Set when the chunk is waiting on an async child sync rather than done
+  waitSeconds?: number;
+}
+
+async function callFunction(supabaseUrl: string, supabaseKey: string, name: string, body: Record<string, any>) {
+  const response = await fetch(`${supabaseUrl}/functions/v1/${name}`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      'Authorization': `Bearer ${supabaseKey}`,
+    },
+    body: JSON.stringify(body),
+  });
+
+  // Read once as text: a failing child often returns HTML or plain text
+  const responseText = await response.text();
+  let result: any;
+  try {
+    result = JSON.parse(responseText);
+  } catch {
+    throw new Error(`${name} returned ${response.status}: ${responseText.substring(0, 300)}`);
+  }
+  if (!response.ok || result.success === false) {
+    throw new Error(`${name} failed: ${result.error || result.message || response.status}`);
+  }
+  return result;
+}
+
+function addDays(date: string, days: number): string {
+  const d = new Date(`${date}T00:00:00Z`);
+  d.setUTCDate(d.getUTCDate() + days);
+  return d.toISOString().split('T')[0];
+}
+
+function countWindows(startDate: string, endDate: string, chunkDays: number): number {
+  const days = Math.round((Date.parse(endDate) - Date.parse(startDate)) / 86_400_000) + 1;
+  return Math.max(1, Math.ceil(days / chunkDays));
+}
+
+/**
+ * Payment applications are fetched in pages of payments that still have no
+ * applications; `skip` in the checkpoint is the next page.
+ */
+async function runApplicationChunk(
+  supabaseUrl: string,
+  supabaseKey: string,
+  job: SyncJob,
+  syncedAfter: string
+): Promise<ChunkResult> {
+  const skip = Number(job.checkpoint.skip) || 0;
+  const result = await callFunction(supabaseUrl, supabaseKey, 'backfill-payment-applications', {
+    batchSize: APPLICATION_BATCH_SIZE,
+    skip,
+    onlyWithoutApplications: true,
+    syncedAfter,
+  });
+
+  const remaining = Number(result.remaining) || 0;
+  const total = Number(result.total_without_apps) || 0;
+  return {
+    done: remaining <= 0 || !result.processed,
+    checkpoint: { skip: result.nextSkip ?? skip + APPLICATION_BATCH_SIZE },
+    fetched: result.processed || 0,
+    created: result.applicationsFound || 0,
+    errors: Array.isArray(result.errors) ? result.errors.length : 0,
+    chunksTotal: total > 0 ? Math.ceil(total / APPLICATION_BATCH_SIZE) : null,
+  };
+}
+
+async function runIncrementalChunk(
+  supabaseUrl: string,
+  supabaseKey: string,
+  job: SyncJob
+): Promise<ChunkResult> {
+  const lookbackMinutes = Number(job.params.lookback_minutes) || undefined;
+
+  if (job.entity_type === 'payment_application') {
+    const minutes = lookbackMinutes || 24 * 60;
+    const syncedAfter = new Date(Date.parse(job.created_at) - minutes * 60_000).toISOString();
+    return await runApplicationChunk(supabaseUrl, supabaseKey, job, syncedAfter);
+  }
+
+  const result = await callFunction(
+    supabaseUrl,
+    supabaseKey,
+    `acumatica-${job.entity_type}-incremental-sync`,
+    lookbackMinutes ? { lookbackMinutes } : {}
+  );
+  return {
+    done: true,
+    checkpoint: {},
+    fetched: result.totalFetched || 0,
+    created: result.created || 0,
+    updated: result.updated || 0,
+    errors: Array.isArray(result.errors) ? result.errors.length : 0,
+    chunksTotal: 1,
+  };
+}
+
+/**
+ * Date range jobs walk the range in windows of `chunk_days`. Invoice and
+ * payment syncs run in the background and report through async_sync_jobs,
+ * so their window is only finished once that child job completes.
+ */
+async function runDateRangeChunk(
+  supabase: any,
+  supabaseUrl: string,
+  supabaseKey: string,
+  job: SyncJob
+): Promise<ChunkResult> {
+  const startDate: string = job.params.start_date;
+  const endDate: string = job.params.end_date;
+  const chunkDays = Math.max(1, Number(job.params.chunk_days) || DEFAULT_CHUNK_DAYS);
+
+  if (job.entity_type === 'payment_application') {
+    return await runApplicationChunk(supabaseUrl, supabaseKey, job, `${startDate}T00:00:00Z`);
+  }
+
+  const chunksTotal = countWindows(startDate, endDate, chunkDays);
+  const windowStart: string = job.checkpoint.window_start || startDate;
+  const windowEnd = [addDays(windowStart, chunkDays - 1), endDate].sort()[0];
+  const nextWindow = addDays(windowEnd, 1);
+  const done = nextWindow > endDate;
+
+  if (job.checkpoint.child_job_id) {
+    const { data: child, error } = await supabase
+      .from('async_sync_jobs')
+      .select('status, progress, error_message, created_at')
+      .eq('id', job.checkpoint.child_job_id)
+      .maybeSingle();
+    if (error) throw error;
+    if (!child) throw new Error(`Child sync job ${job.checkpoint.child_job_id} disappeared`);
+
+    if (child.status === 'failed') {
+      // Drop the child so a retry starts this window over
+      job.checkpoint = { window_start: windowStart };
+      throw new Error(`${job.entity_type} sync for ${windowStart} to ${windowEnd} failed: ${child.error_message || 'unknown error'}`);
+    }
+    if (child.status !== 'completed') {
+      if (Date.now() - Date.parse(child.created_at) > CHILD_TIMEOUT_MS) {
+        job.checkpoint = { window_start: windowStart };
+        throw new Error(`${job.entity_type} sync for ${windowStart} to ${windowEnd} did not finish within 30 minutes`);
+      }
+      return { done: false, checkpoint: job.checkpoint, chunksTotal, waitSeconds: CHILD_POLL_SECONDS };
+    }
+
+    const progress = child.progress || {};
+    return {
+      done,
+      checkpoint: { window_start: nextWindow },
+      fetched: progress.total || 0,
+      created: progress.created || 0,
+      updated: progress.updated || 0,
+      errors: Array.isArray(progress.errors) ? progress.errors.length : 0,
+      chunksTotal,
+    };
+  }
+
+  const result = await callFunction(supabaseUrl, supabaseKey, `acumatica-${job.entity_type}-date-range-sync`, {
+    startDate: `${windowStart}T00:00:00Z`,
+    endDate: `${windowEnd}T23:59:59Z`,
+  });
+
+  if (result.async) {
+    return {
+      done: false,
+      checkpoint: { window_start: windowStart, child_job_id: result.jobId },
+      chunksTotal,
+      waitSeconds: CHILD_POLL_SECONDS,
+    };
+  }
+
+  return {
+    done,
+    checkpoint: { window_start: nextWindow },
+    fetched: result.total || 0,
+    created: result.created || 0,
+    updated: result.updated || 0,
+    errors: Number(result.errors) || 0,
+    chunksTotal,
+  };
+}
+
+Deno.serve(async (req: Request) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, { status: 200, headers: corsHeaders });
+  }
+
+  const startedAt = Date.now();
+  const workerId = crypto.randomUUID();
+  const summary: { jobId: string; entity: string; outcome: string; error?: string }[] = [];
+
+  try {
+    const supabaseUrl = Deno.env.get("SUPABASE_URL")!;
+    const supabaseKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
+    const supabase = createClient(supabaseUrl, supabaseKey);
+
+    while (Date.now() - startedAt < TIME_BUDGET_MS) {
+      const { data: claimed, error: claimError } = await supabase.rpc('claim_next_sync_job', {
+        p_worker_id: workerId,
+        p_lease_seconds: LEASE_SECONDS,
+      });
+      if (claimError) throw claimError;
+
+      const job: SyncJob | undefined = claimed?.[0];
+      if (!job) break;
+
+      console.log(`[sync-orchestrator] Running ${job.mode} ${job.entity_type} job ${job.id} from chunk ${job.chunks_completed}`);
+
+      let outcome: 'succeeded' | 'yielded' | 'waiting' | 'failed' | 'cancelled' = 'yielded';
+      let delaySeconds = 0;
+      let errorMessage: string | null = null;
+
+      try {
+        // Keep running chunks of this job while there is time left
+        for (;;) {
+          const result = job.mode === 'date_range'
+            ? await runDateRangeChunk(supabase, supabaseUrl, supabaseKey, job)
+            : await runIncrementalChunk(supabaseUrl, supabaseKey, job);
+
+          const advanced = !result.waitSeconds;
+          job.checkpoint = result.checkpoint;
+          job.progress = {
+            fetched: (job.progress?.fetched || 0) + (result.fetched || 0),
+            created: (job.progress?.created || 0) + (result.created || 0),
+            updated: (job.progress?.updated || 0) + (result.updated || 0),
+            errors: (job.progress?.errors || 0) + (result.errors || 0),
+          };
+          if (advanced) job.chunks_completed += 1;
+
+          const { data: cancelRequested, error: reportError } = await supabase.rpc('report_sync_job_progress', {
+            p_job_id: job.id,
+            p_worker_id: workerId,
+            p_checkpoint: job.checkpoint,
+            p_progress: job.progress,
+            p_chunks_completed: job.chunks_completed,
+            p_chunks_total: result.done ? job.chunks_completed : result.chunksTotal ?? null,
+            p_lease_seconds: LEASE_SECONDS,
+          });
+          if (reportError) throw reportError;
+
+          if (result.done) {
+            outcome = 'succeeded';
+            break;
+          }
+          if (cancelRequested) {
+            outcome = 'cancelled';
+            break;
+          }
+          if (result.waitSeconds) {
+            // Keeps the job's concurrency slot while the child sync runs
+            outcome = 'waiting';
+            delaySeconds = result.waitSeconds;
+            break;
+          }
+          if (Date.now() - startedAt >= TIME_BUDGET_MS) break;
+        }
+      } catch (err: any) {
+        console.error(`[sync-orchestrator] Job ${job.id} failed:`, err.message);
+        outcome = 'failed';
+        errorMessage = err.message;
+        // Save a checkpoint rewound by the chunk (e.g. a failed child window)
+        await supabase.rpc('report_sync_job_progress', {
+          p_job_id: job.id,
+          p_worker_id: workerId,
+          p_checkpoint: job.checkpoint,
+          p_progress: job.progress,
+          p_chunks_completed: job.chunks_completed,
+          p_lease_seconds: LEASE_SECONDS,
+        });
+      }
+
+      const { error: finishError } = await supabase.rpc('finish_sync_job_run', {
+        p_job_id: job.id,
+        p_worker_id: workerId,
+        p_outcome: outcome,
+        p_error: errorMessage,
+        p_delay_seconds: delaySeconds,
+      });
+      if (finishError) throw finishError;
+
+      summary.push({ jobId: job.id, entity: job.entity_type, outcome, ...(errorMessage ? { error: errorMessage } : {}) });
+    }
+
+    return new Response(
+      JSON.stringify({ success: true, workerId, runs: summary, durationMs: Date.now() - startedAt }),
+      { headers: { ...corsHeaders, "Content-Type": "application/json" } }
+    );
+  } catch (err: any) {
+    console.error('[sync-orchestrator] Fatal error:', err);
+    return new Response(
+      JSON.stringify({ success: false, error: err.message, runs: summary }),
+      { status: 500, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+    );
+  }
+});
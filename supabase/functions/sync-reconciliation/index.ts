@@ -0,0 +1,812 @@
+import "jsr:@supabase/functions-js/edge-runtime.d.ts";
+import { createClient } from "npm:@supabase/supabase-js@2.57.4";
+import { AcumaticaSessionManager } from "../_shared/acumatica-session.ts";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Methods": "GET, POST, PUT, DELETE, OPTIONS",
+  "Access-Control-Allow-Headers": "Content-Type, Authorization, X-Client-Info, Apikey",
+};
+
+const API_BASE = "entity/Default/24.200.001";
+const PAGE_SIZE = 1000;
+// Extras are looked up one by one to tell "deleted in Acumatica" apart from
+// "dated differently there"; past this many they stay unverified.
+const EXTRA_LOOKUP_LIMIT = 50;
+// Documents re-fetched individually per run; the rest go to the orchestrator
+const MAX_DOCUMENT_HEALS = 100;
+const MAX_STORED_DISCREPANCIES = 5000;
+const INSERT_BATCH = 500;
+
+type EntityType = 'invoice' | 'payment' | 'payment_application';
+type Classification = 'missing_local' | 'stale' | 'extra' | 'amount_mismatch';
+
+interface DocumentValues {
+  type: string;
+  ref: string;
+  date: string | null;
+  status: string | null;
+  amount: number;
+  balance: number;
+}
+
+interface Discrepancy {
+  entity_type: EntityType;
+  month: string;
+  document_type: string | null;
+  reference_number: string;
+  classification: Classification;
+  acumatica_values: Record<string, any> | null;
+  local_values: Record<string, any> | null;
+  detail: string;
+  heal_status?: 'healed' | 'queued' | 'failed';
+  heal_note?: string;
+}
+
+interface Totals {
+  count: number;
+  amount: number;
+  balance: number;
+}
+
+interface MonthSummary {
+  month: string;
+  entity_type: EntityType;
+  acumatica: Totals;
+  local: Totals;
+  missing_local: number;
+  stale: number;
+  extra: number;
+  amount_mismatch: number;
+}
+
+interface Settings {
+  auto_heal: boolean;
+  months_back: number;
+  amount_tolerance: number;
+  email_report: boolean;
+}
+
+interface AcumaticaContext {
+  sessionManager: AcumaticaSessionManager;
+  credentials: any;
+  acumaticaUrl: string;
+}
+
+// Payment types resync-single-payment knows how to look up
+const SINGLE_RESYNC_PAYMENT_TYPES = ['Payment', 'Voided Payment'];
+
+function round2(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+function normalizeRef(ref: string): string {
+  const trimmed = (ref || '').trim();
+  return /^[0-9]+$/.test(trimmed) ? trimmed.padStart(6, '0') : trimmed;
+}
+
+function monthKey(date: string | null): string {
+  return date ? date.substring(0, 7) : 'undated';
+}
+
+function formatMoney(value: number): string {
+  return value.toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+}
+
+/** First day of the month `monthsBack - 1` months ago through the end of this month. */
+function reconciliationPeriod(monthsBack: number): { start: string; endExclusive: string; months: string[] } {
+  const now = new Date();
+  const months: string[] = [];
+  for (let i = monthsBack - 1; i >= 0; i--) {
+    const d = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth() - i, 1));
+    months.push(d.toISOString().substring(0, 7));
+  }
+  const next = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth() + 1, 1));
+  return { start: `${months[0]}-01`, endExclusive: next.toISOString().split('T')[0], months };
+}
+
+function lastDayOfMonth(month: string): string {
+  const [year, m] = month.split('-').map(Number);
+  return `${month}-${String(new Date(Date.UTC(year, m, 0)).getUTCDate()).padStart(2, '0')}`;
+}
+
+async function fetchAcumaticaDocuments(
+  ctx: AcumaticaContext,
+  entity: 'Invoice' | 'Payment',
+  filter: string,
+  select: string
+): Promise<any[]> {
+  const items: any[] = [];
+  let skip = 0;
+  let hasMore = true;
+
+  while (hasMore) {
+    const url = `${ctx.acumaticaUrl}/${API_BASE}/${entity}?$filter=${encodeURIComponent(filter)}&$select=${select}&$top=${PAGE_SIZE}&$skip=${skip}&$orderby=ReferenceNbr asc`;
+    const response = await ctx.sessionManager.makeAuthenticatedRequest(ctx.credentials, url, {
+      method: "GET",
+      headers: { "Content-Type": "application/json" },
+    });
+
+    if (!response.ok) {
+      const errorText = await response.text();
+      throw new Error(`Acumatica ${entity} query failed (${response.status}): ${errorText.substring(0, 200)}`);
+    }
+
+    const data = await response.json();
+    const page = Array.isArray(data) ? data : [];
+    items.push(...page);
+    hasMore = page.length >= PAGE_SIZE;
+    skip += PAGE_SIZE;
+  }
+
+  return items;
+}
+
+async function fetchLocalRows(
+  supabase: any,
+  table: string,
+  select: string,
+  dateColumn: string,
+  start: string,
+  endExclusive: string
+): Promise<any[]> {
+  const rows: any[] = [];
+  let offset = 0;
+  let hasMore = true;
+
+  while (hasMore) {
+    const { data, error } = await supabase
+      .from(table)
+      .select(select)
+      .gte(dateColumn, start)
+      .lt(dateColumn, endExclusive)
+      .order('reference_number', { ascending: true })
+      .range(offset, offset + PAGE_SIZE - 1);
+
+    if (error) throw new Error(`Reading ${table} failed: ${error.message}`);
+    const page = data || [];
+    rows.push(...page);
+    hasMore = page.length >= PAGE_SIZE;
+    offset += PAGE_SIZE;
+  }
+
+  return rows;
+}
+
+async function lookupAcumaticaDocument(
+  ctx: AcumaticaContext,
+  entity: 'Invoice' | 'Payment',
+  doc: DocumentValues,
+  select: string
+): Promise<any | null> {
+  const url = `${ctx.acumaticaUrl}/${API_BASE}/${entity}/${encodeURIComponent(doc.type)}/${encodeURIComponent(doc.ref)}?$select=${select}`;
+  const response = await ctx.sessionManager.makeAuthenticatedRequest(ctx.credentials, url, {
+    method: "GET",
+    headers: { "Content-Type": "application/json" },
+  });
+
+  if (response.status === 404) return null;
+  if (!response.ok) {
+    const errorText = await response.text();
+    throw new Error(`Lookup of ${doc.type} ${doc.ref} failed (${response.status}): ${errorText.substring(0, 200)}`);
+  }
+  return await response.json();
+}
+
+function emptySummary(month: string, entityType: EntityType): MonthSummary {
+  return {
+    month,
+    entity_type: entityType,
+    acumatica: { count: 0, amount: 0, balance: 0 },
+    local: { count: 0, amount: 0, balance: 0 },
+    missing_local: 0,
+    stale: 0,
+    extra: 0,
+    amount_mismatch: 0,
+  };
+}
+
+function describeValues(doc: DocumentValues): Record<string, any> {
+  return { date: doc.date, status: doc.status, amount: doc.amount, balance: doc.balance };
+}
+
+/**
+ * Matches documents on type + reference number across the whole period and
+ * classifies the differences. Month totals are bucketed by each side's own
+ * document date, so they line up with the month views in the app.
+ */
+function compareDocuments(
+  entityType: 'invoice' | 'payment',
+  remote: Map<string, DocumentValues>,
+  local: Map<string, DocumentValues>,
+  tolerance: number,
+  summaries: Map<string, MonthSummary>
+): { discrepancies: Discrepancy[]; extras: DocumentValues[] } {
+  const summaryFor = (month: string) => {
+    const key = `${entityType}:${month}`;
+    if (!summaries.has(key)) summaries.set(key, emptySummary(month, entityType));
+    return summaries.get(key)!;
+  };
+
+  for (const doc of remote.values()) {
+    const s = summaryFor(monthKey(doc.date));
+    s.acumatica.count++;
+    s.acumatica.amount += doc.amount;
+    s.acumatica.balance += doc.balance;
+  }
+  for (const doc of local.values()) {
+    const s = summaryFor(monthKey(doc.date));
+    s.local.count++;
+    s.local.amount += doc.amount;
+    s.local.balance += doc.balance;
+  }
+
+  const discrepancies: Discrepancy[] = [];
+  const extras: DocumentValues[] = [];
+
+  for (const [key, doc] of remote) {
+    const mine = local.get(key);
+    const base = {
+      entity_type: entityType,
+      month: monthKey(doc.date),
+      document_type: doc.type,
+      reference_number: doc.ref,
+      acumatica_values: describeValues(doc),
+    };
+
+    if (!mine) {
+      discrepancies.push({ ...base, classification: 'missing_local', local_values: null, detail: 'Not in the local mirror' });
+      continue;
+    }
+
+    const differences: string[] = [];
+    if (Math.abs(doc.amount - mine.amount) > tolerance) {
+      discrepancies.push({
+        ...base,
+        classification: 'amount_mismatch',
+        local_values: describeValues(mine),
+        detail: `Amount ${formatMoney(doc.amount)} in Acumatica vs ${formatMoney(mine.amount)} locally`,
+      });
+      continue;
+    }
+    if ((doc.status || '') !== (mine.status || '')) {
+      differences.push(`status ${doc.status} vs ${mine.status}`);
+    }
+    if (Math.abs(doc.balance - mine.balance) > tolerance) {
+      differences.push(`balance ${formatMoney(doc.balance)} vs ${formatMoney(mine.balance)}`);
+    }
+    if (monthKey(doc.date) !== monthKey(mine.date)) {
+      differences.push(`dated ${doc.date?.split('T')[0]} vs ${mine.date?.split('T')[0]}`);
+    }
+    if (differences.length > 0) {
+      discrepancies.push({
+        ...base,
+        classification: 'stale',
+        local_values: describeValues(mine),
+        detail: `Acumatica vs local: ${differences.join(', ')}`,
+      });
+    }
+  }
+
+  for (const [key, doc] of local) {
+    if (!remote.has(key)) extras.push(doc);
+  }
+
+  return { discrepancies, extras };
+}
+
+/**
+ * A local document missing from the period in Acumatica is either gone there
+ * (extra) or carries a different date there (stale). Look up a bounded
+ * number of them to tell which.
+ */
+async function classifyExtras(
+  ctx: AcumaticaContext,
+  entityType: 'invoice' | 'payment',
+  extras: DocumentValues[]
+): Promise<Discrepancy[]> {
+  const entity = entityType === 'invoice' ? 'Invoice' : 'Payment';
+  const select = entityType === 'invoice'
+    ? 'ReferenceNbr,Type,Date,Status,Amount,Balance'
+    : 'ReferenceNbr,Type,ApplicationDate,Status,PaymentAmount,UnappliedBalance';
+  const results: Discrepancy[] = [];
+
+  for (let i = 0; i < extras.length; i++) {
+    const doc = extras[i];
+    const base = {
+      entity_type: entityType,
+      month: monthKey(doc.date),
+      document_type: doc.type,
+      reference_number: doc.ref,
+      local_values: describeValues(doc),
+    };
+
+    if (i >= EXTRA_LOOKUP_LIMIT) {
+      results.push({ ...base, classification: 'extra', acumatica_values: null, detail: 'Not found in Acumatica for this period (not verified individually)' });
+      continue;
+    }
+
+    try {
+      const found = await lookupAcumaticaDocument(ctx, entity, doc, select);
+      if (!found) {
+        results.push({ ...base, classification: 'extra', acumatica_values: null, detail: 'Does not exist in Acumatica' });
+        continue;
+      }
+      const remoteDate = (entityType === 'invoice' ? found.Date?.value : found.ApplicationDate?.value) || null;
+      results.push({
+        ...base,
+        classification: 'stale',
+        acumatica_values: {
+          date: remoteDate,
+          status: found.Status?.value || null,
+          amount: Number((entityType === 'invoice' ? found.Amount?.value : found.PaymentAmount?.value) || 0),
+          balance: Number((entityType === 'invoice' ? found.Balance?.value : found.UnappliedBalance?.value) || 0),
+        },
+        detail: `Dated ${remoteDate?.split('T')[0] || 'differently'} in Acumatica`,
+      });
+    } catch (error: any) {
+      results.push({ ...base, classification: 'extra', acumatica_values: null, detail: `Lookup failed: ${error.message}` });
+    }
+  }
+
+  return results;
+}
+
+/**
+ * Applications are compared per payment: the amount Acumatica shows as
+ * applied (payment amount less unapplied balance) against the sum of the
+ * local application rows.
+ */
+async function compareApplications(
+  supabase: any,
+  remotePayments: Map<string, DocumentValues>,
+  localPayments: Map<string, DocumentValues>,
+  tolerance: number,
+  summaries: Map<string, MonthSummary>
+): Promise<Discrepancy[]> {
+  const comparable = [...remotePayments.entries()]
+    .filter(([key, doc]) => localPayments.has(key) && (doc.status === 'Open' || doc.status === 'Closed'))
+    .map(([, doc]) => doc);
+
+  const appliedLocally = new Map<string, number>();
+  const refs = [...new Set(comparable.map(doc => doc.ref))];
+  for (let i = 0; i < refs.length; i += 200) {
+    const batch = refs.slice(i, i + 200);
+    const { data, error } = await supabase
+      .from('payment_invoice_applications')
+      .select('payment_reference_number, amount_paid')
+      .in('payment_reference_number', batch)
+      .limit(50000);
+    if (error) throw new Error(`Reading payment_invoice_applications failed: ${error.message}`);
+    for (const row of data || []) {
+      const ref = normalizeRef(row.payment_reference_number);
+      appliedLocally.set(ref, (appliedLocally.get(ref) || 0) + Number(row.amount_paid || 0));
+    }
+  }
+
+  const discrepancies: Discrepancy[] = [];
+  for (const doc of comparable) {
+    const month = monthKey(doc.date);
+    const key = `payment_application:${month}`;
+    if (!summaries.has(key)) summaries.set(key, emptySummary(month, 'payment_application'));
+    const s = summaries.get(key)!;
+
+    const remoteApplied = round2(doc.amount - doc.balance);
+    const localApplied = round2(appliedLocally.get(doc.ref) || 0);
+    s.acumatica.count++;
+    s.acumatica.amount += remoteApplied;
+    s.local.count++;
+    s.local.amount += localApplied;
+
+    if (Math.abs(remoteApplied - localApplied) <= tolerance) continue;
+
+    const classification: Classification = localApplied === 0 && remoteApplied > 0
+      ? 'missing_local'
+      : localApplied > remoteApplied
+        ? 'extra'
+        : 'amount_mismatch';
+    discrepancies.push({
+      entity_type: 'payment_application',
+      month,
+      document_type: doc.type,
+      reference_number: doc.ref,
+      classification,
+      acumatica_values: { applied: remoteApplied },
+      local_values: { applied: localApplied },
+      detail: `Applied ${formatMoney(remoteApplied)} in Acumatica vs ${formatMoney(localApplied)} locally`,
+    });
+  }
+
+  return discrepancies;
+}
+
+async function refreshInvoice(supabase: any, ctx: AcumaticaContext, d: Discrepancy): Promise<void> {
+  const found = await lookupAcumaticaDocument(
+    ctx,
+    'Invoice',
+    { type: d.document_type || 'Invoice', ref: d.reference_number, date: null, status: null, amount: 0, balance: 0 },
+    'ReferenceNbr,Type,Date,DueDate,Status,Amount,Balance,LastModifiedDateTime'
+  );
+  if (!found) throw new Error('No longer exists in Acumatica');
+
+  const { error } = await supabase
+    .from('acumatica_invoices')
+    .update({
+      date: found.Date?.value ? found.Date.value.split('T')[0] : undefined,
+      due_date: found.DueDate?.value ? found.DueDate.value.split('T')[0] : undefined,
+      status: found.Status?.value || null,
+      amount: Number(found.Amount?.value || 0),
+      balance: Number(found.Balance?.value || 0),
+      last_modified_datetime: found.LastModifiedDateTime?.value || null,
+    })
+    .eq('reference_number', d.reference_number)
+    .eq('type', d.document_type);
+  if (error) throw new Error(error.message);
+}
+
+async function resyncPayment(supabaseUrl: string, supabaseKey: string, paymentRef: string): Promise<void> {
+  const response = await fetch(`${supabaseUrl}/functions/v1/resync-single-payment`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      'Authorization': `Bearer ${supabaseKey}`,
+    },
+    body: JSON.stringify({ paymentRef }),
+  });
+  const result = await response.json().catch(() => ({}));
+  if (!response.ok || !result.success) {
+    throw new Error(result.error || `resync-single-payment returned ${response.status}`);
+  }
+}
+
+/**
+ * Re-fetches what can be fixed document by document and queues a date-range
+ * orchestrator job per month for the rest. Extras are left for review.
+ */
+async function healDiscrepancies(
+  supabase: any,
+  supabaseUrl: string,
+  supabaseKey: string,
+  ctx: AcumaticaContext,
+  discrepancies: Discrepancy[]
+): Promise<void> {
+  let documentHeals = 0;
+  const paymentResyncs = new Map<string, string | null>();
+  const queueByMonth = new Map<string, { entities: Set<string>; items: Discrepancy[] }>();
+
+  const queue = (d: Discrepancy, entities: string[]) => {
+    if (!/^\d{4}-\d{2}$/.test(d.month)) {
+      d.heal_status = 'failed';
+      d.heal_note = 'Document has no date to queue a sync for';
+      return;
+    }
+    if (!queueByMonth.has(d.month)) queueByMonth.set(d.month, { entities: new Set(), items: [] });
+    const entry = queueByMonth.get(d.month)!;
+    entities.forEach(e => entry.entities.add(e));
+    entry.items.push(d);
+  };
+
+  for (const d of discrepancies) {
+    if (d.classification === 'extra') continue;
+
+    if (d.entity_type === 'invoice') {
+      if (d.classification === 'missing_local' || documentHeals >= MAX_DOCUMENT_HEALS) {
+        queue(d, ['invoice']);
+        continue;
+      }
+      documentHeals++;
+      try {
+        await refreshInvoice(supabase, ctx, d);
+        d.heal_status = 'healed';
+        d.heal_note = 'Re-fetched from Acumatica';
+      } catch (error: any) {
+        d.heal_status = 'failed';
+        d.heal_note = error.message;
+      }
+      continue;
+    }
+
+    const canResync = SINGLE_RESYNC_PAYMENT_TYPES.includes(d.document_type || '');
+    if (!canResync || (!paymentResyncs.has(d.reference_number) && documentHeals >= MAX_DOCUMENT_HEALS)) {
+      queue(d, ['payment', 'payment_application']);
+      continue;
+    }
+
+    if (!paymentResyncs.has(d.reference_number)) {
+      documentHeals++;
+      try {
+        await resyncPayment(supabaseUrl, supabaseKey, d.reference_number);
+        paymentResyncs.set(d.reference_number, null);
+      } catch (error: any) {
+        paymentResyncs.set(d.reference_number, error.message);
+      }
+    }
+    const failure = paymentResyncs.get(d.reference_number);
+    d.heal_status = failure ? 'failed' : 'healed';
+    d.heal_note = failure || 'Payment and applications re-fetched from Acumatica';
+  }
+
+  const entityOrder = ['invoice', 'payment', 'payment_application'];
+  for (const [month, entry] of queueByMonth) {
+    const { error } = await supabase.rpc('enqueue_sync_pipeline', {
+      p_mode: 'date_range',
+      p_entities: entityOrder.filter(e => entry.entities.has(e)),
+      p_params: { start_date: `${month}-01`, end_date: lastDayOfMonth(month) },
+    });
+    for (const d of entry.items) {
+      d.heal_status = error ? 'failed' : 'queued';
+      d.heal_note = error ? `Could not queue sync: ${error.message}` : `Date-range sync queued for ${month}`;
+    }
+  }
+}
+
+async function runReconciliation(
+  supabase: any,
+  supabaseUrl: string,
+  supabaseKey: string,
+  reportId: string,
+  settings: Settings
+) {
+  try {
+    const { data: config } = await supabase
+      .from('acumatica_sync_credentials')
+      .select('*')
+      .eq('is_active', true)
+      .order('created_at', { ascending: false })
+      .limit(1)
+      .maybeSingle();
+
+    if (!config?.acumatica_url || !config?.username || !config?.password) {
+      throw new Error('Acumatica credentials not configured');
+    }
+
+    const acumaticaUrl = config.acumatica_url.startsWith('http') ? config.acumatica_url : `https://${config.acumatica_url}`;
+    const ctx: AcumaticaContext = {
+      sessionManager: new AcumaticaSessionManager(supabaseUrl, supabaseKey),
+      acumaticaUrl,
+      credentials: {
+        acumaticaUrl,
+        username: config.username,
+        password: config.password,
+        company: config.company || '',
+        branch: config.branch || '',
+      },
+    };
+
+    const period = reconciliationPeriod(settings.months_back);
+    const tolerance = Number(settings.amount_tolerance) || 0;
+    const from = `${period.start}T00:00:00`;
+    const to = `${period.endExclusive}T00:00:00`;
+    const summaries = new Map<string, MonthSummary>();
+    const discrepancies: Discrepancy[] = [];
+
+    // Invoices, bucketed by document date
+    console.log(`[reconciliation] Invoices ${period.start} to ${period.endExclusive}`);
+    const remoteInvoices = new Map<string, DocumentValues>();
+    for (const item of await fetchAcumaticaDocuments(
+      ctx,
+      'Invoice',
+      `Date ge datetimeoffset'${from}' and Date lt datetimeoffset'${to}'`,
+      'ReferenceNbr,Type,Date,Status,Amount,Balance'
+    )) {
+      const ref = normalizeRef(item.ReferenceNbr?.value || '');
+      const type = item.Type?.value || '';
+      if (!ref || !type) continue;
+      remoteInvoices.set(`${type}:${ref}`, {
+        type,
+        ref,
+        date: item.Date?.value || null,
+        status: item.Status?.value || null,
+        amount: Number(item.Amount?.value || 0),
+        balance: Number(item.Balance?.value || 0),
+      });
+    }
+
+    const localInvoices = new Map<string, DocumentValues>();
+    for (const row of await fetchLocalRows(
+      supabase, 'acumatica_invoices', 'reference_number, type, date, status, amount, balance', 'date', period.start, period.endExclusive
+    )) {
+      const ref = normalizeRef(row.reference_number);
+      localInvoices.set(`${row.type}:${ref}`, {
+        type: row.type,
+        ref,
+        date: row.date,
+        status: row.status,
+        amount: Number(row.amount || 0),
+        balance: Number(row.balance || 0),
+      });
+    }
+
+    const invoiceResult = compareDocuments('invoice', remoteInvoices, localInvoices, tolerance, summaries);
+    discrepancies.push(...invoiceResult.discrepancies, ...await classifyExtras(ctx, 'invoice', invoiceResult.extras));
+
+    // Payments, bucketed by application date
+    console.log(`[reconciliation] Payments ${period.start} to ${period.endExclusive}`);
+    const remotePayments = new Map<string, DocumentValues>();
+    for (const item of await fetchAcumaticaDocuments(
+      ctx,
+      'Payment',
+      `ApplicationDate ge datetimeoffset'${from}' and ApplicationDate lt datetimeoffset'${to}'`,
+      'ReferenceNbr,Type,ApplicationDate,Status,PaymentAmount,UnappliedBalance'
+    )) {
+      const ref = normalizeRef(item.ReferenceNbr?.value || '');
+      const type = item.Type?.value || '';
+      if (!ref || !type) continue;
+      remotePayments.set(`${type}:${ref}`, {
+        type,
+        ref,
+        date: item.ApplicationDate?.value || null,
+        status: item.Status?.value || null,
+        amount: Number(item.PaymentAmount?.value || 0),
+        balance: Number(item.UnappliedBalance?.value || 0),
+      });
+    }
+
+    const localPayments = new Map<string, DocumentValues>();
+    for (const row of await fetchLocalRows(
+      supabase, 'acumatica_payments', 'reference_number, type, application_date, status, payment_amount, available_balance', 'application_date', period.start, period.endExclusive
+    )) {
+      const ref = normalizeRef(row.reference_number);
+      localPayments.set(`${row.type}:${ref}`, {
+        type: row.type,
+        ref,
+        date: row.application_date,
+        status: row.status,
+        amount: Number(row.payment_amount || 0),
+        balance: Number(row.available_balance || 0),
+      });
+    }
+
+    const paymentResult = compareDocuments('payment', remotePayments, localPayments, tolerance, summaries);
+    discrepancies.push(...paymentResult.discrepancies, ...await classifyExtras(ctx, 'payment', paymentResult.extras));
+
+    console.log('[reconciliation] Payment applications');
+    discrepancies.push(...await compareApplications(supabase, remotePayments, localPayments, tolerance, summaries));
+
+    for (const d of discrepancies) {
+      const s = summaries.get(`${d.entity_type}:${d.month}`);
+      if (s) s[d.classification]++;
+    }
+
+    if (settings.auto_heal && discrepancies.length > 0) {
+      console.log(`[reconciliation] Healing ${discrepancies.length} discrepancies`);
+      await healDiscrepancies(supabase, supabaseUrl, supabaseKey, ctx, discrepancies);
+    }
+
+    const stored = discrepancies.slice(0, MAX_STORED_DISCREPANCIES);
+    for (let i = 0; i < stored.length; i += INSERT_BATCH) {
+      const { error } = await supabase
+        .from('sync_reconciliation_discrepancies')
+        .insert(stored.slice(i, i + INSERT_BATCH).map(d => ({ ...d, report_id: reportId })));
+      if (error) throw new Error(`Saving discrepancies failed: ${error.message}`);
+    }
+
+    const entityOrder: EntityType[] = ['invoice', 'payment', 'payment_application'];
+    const summary = [...summaries.values()]
+      .filter(s => s.month === 'undated' || period.months.includes(s.month))
+      .map(s => ({
+        ...s,
+        acumatica: { ...s.acumatica, amount: round2(s.acumatica.amount), balance: round2(s.acumatica.balance) },
+        local: { ...s.local, amount: round2(s.local.amount), balance: round2(s.local.balance) },
+      }))
+      .sort((a, b) => a.month.localeCompare(b.month) || entityOrder.indexOf(a.entity_type) - entityOrder.indexOf(b.entity_type));
+
+    await supabase
+      .from('sync_reconciliation_reports')
+      .update({
+        status: 'completed',
+        summary,
+        total_discrepancies: discrepancies.length,
+        healed_count: discrepancies.filter(d => d.heal_status === 'healed').length,
+        queued_count: discrepancies.filter(d => d.heal_status === 'queued').length,
+        error_message: discrepancies.length > stored.length
+          ? `Only the first ${stored.length} of ${discrepancies.length} discrepancies were stored`
+          : null,
+        completed_at: new Date().toISOString(),
+      })
+      .eq('id', reportId);
+
+    console.log(`[reconciliation] Done: ${discrepancies.length} discrepancies`);
+  } catch (error: any) {
+    console.error('[reconciliation] Failed:', error.message);
+    await supabase
+      .from('sync_reconciliation_reports')
+      .update({ status: 'failed', error_message: error.message, completed_at: new Date().toISOString() })
+      .eq('id', reportId);
+  }
+
+  if (settings.email_report) {
+    try {
+      const response = await fetch(`${supabaseUrl}/functions/v1/send-sync-report`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'Authorization': `Bearer ${supabaseKey}`,
+        },
+        body: JSON.stringify({ reconciliationReportId: reportId }),
+      });
+      if (response.ok) {
+        await supabase
+          .from('sync_reconciliation_reports')
+          .update({ emailed_at: new Date().toISOString() })
+          .eq('id', reportId);
+      } else {
+        console.error('[reconciliation] send-sync-report failed:', await response.text());
+      }
+    } catch (error: any) {
+      console.error('[reconciliation] send-sync-report failed:', error.message);
+    }
+  }
+}
+
+Deno.serve(async (req: Request) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, { status: 200, headers: corsHeaders });
+  }
+
+  try {
+    const supabaseUrl = Deno.env.get("SUPABASE_URL")!;
+    const supabaseKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
+    const supabase = createClient(supabaseUrl, supabaseKey);
+
+    const body = await req.json().catch(() => ({}));
+
+    const { data: stored } = await supabase
+      .from('sync_reconciliation_settings')
+      .select('auto_heal, months_back, amount_tolerance, email_report')
+      .limit(1)
+      .maybeSingle();
+
+    // Manual runs may override the stored settings for this run only
+    const settings: Settings = {
+      auto_heal: typeof body.autoHeal === 'boolean' ? body.autoHeal : stored?.auto_heal ?? false,
+      months_back: Math.min(12, Math.max(1, Number(body.monthsBack) || stored?.months_back || 3)),
+      amount_tolerance: Number(stored?.amount_tolerance ?? 0.01),
+      email_report: typeof body.emailReport === 'boolean' ? body.emailReport : stored?.email_report ?? true,
+    };
+
+    const { data: running } = await supabase
+      .from('sync_reconciliation_reports')
+      .select('id')
+      .eq('status', 'running')
+      .gt('started_at', new Date(Date.now() - 30 * 60 * 1000).toISOString())
+      .limit(1)
+      .maybeSingle();
+
+    if (running) {
+      return new Response(
+        JSON.stringify({ success: false, error: 'A reconciliation is already running', reportId: running.id }),
+        { status: 409, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    const period = reconciliationPeriod(settings.months_back);
+    const { data: report, error: reportError } = await supabase
+      .from('sync_reconciliation_reports')
+      .insert({
+        triggered_by: body.triggeredBy === 'cron' ? 'cron' : 'manual',
+        period_start: period.start,
+        period_end: lastDayOfMonth(period.months[period.months.length - 1]),
+        auto_heal: settings.auto_heal,
+      })
+      .select('id')
+      .single();
+
+    if (reportError || !report) {
+      throw new Error(`Failed to create report: ${reportError?.message}`);
+    }
+
+    EdgeRuntime.waitUntil(runReconciliation(supabase, supabaseUrl, supabaseKey, report.id, settings));
+
+    return new Response(
+      JSON.stringify({ success: true, async: true, reportId: report.id }),
+      { status: 200, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+    );
+  } catch (error: any) {
+    console.error("Error starting reconciliation:", error);
+    return new Response(
+      JSON.stringify({ success: false, error: error.message }),
+      { status: 500, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+    );
+  }
+});
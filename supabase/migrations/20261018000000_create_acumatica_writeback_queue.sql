@@ -0,0 +1,409 @@
+/*
+  # Acumatica Write-back Queue
+
+  ## Summary
+  Every Acumatica edge function only pulls data, so what collectors record in
+  the app (invoice memos, promise dates, color status) never reaches AR staff
+  who work directly in Acumatica. This adds an outbound queue that captures
+  those changes and is drained by the `acumatica-writeback-sync` edge function,
+  which pushes them onto the matching Acumatica invoice as notes/attributes.
+
+  ## New Tables
+
+  ### `acumatica_writeback_queue`
+  One row per change to push:
+  - `action_type` text: memo | promise_date | color_status
+  - `invoice_reference` / `invoice_type`: the Acumatica document key
+  - `payload` jsonb: the values to push (memo text, promise date, color...)
+  - `source_table` / `source_id`: the row that produced the change
+  - `status` text: pending | processing | pushed | failed | skipped
+  - `attempts`, `max_attempts`, `next_attempt_at`: retry handling with
+    exponential backoff; a row that exhausts its attempts becomes `failed`
+  - `last_error`, `pushed_at`
+
+  ## Triggers
+  - AFTER INSERT on `invoice_memos` (text memos only) -> memo
+  - AFTER UPDATE OF color_status, promise_date on `acumatica_invoices`
+    -> color_status / promise_date
+  - AFTER UPDATE OF promise_date on `collection_tickets` -> promise_date for
+    every invoice assigned to the ticket
+
+  Sync functions write acumatica_invoices with the service role, so the
+  invoice and ticket triggers ignore updates made without an authenticated
+  user; only collector edits are queued and nothing pulled from Acumatica is
+  echoed back. Ticket promise dates are only queued for members of the
+  ticket's organization.
+
+  ## Cron
+  `trigger_acumatica_writeback_sync()` calls `acumatica-writeback-sync` every
+  5 minutes, and only when something is due.
+
+  ## Security
+  - RLS enabled; org members can view their org's queue
+  - Admins can update rows (retry / skip from the UI)
+  - Inserts come from SECURITY DEFINER triggers and the service role only
+*/
+
+-- =========================================================================
+-- 1. Queue table
+-- =========================================================================
+CREATE TABLE IF NOT EXISTS acumatica_writeback_queue (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  organization_id uuid REFERENCES organizations(id) ON DELETE CASCADE,
+  action_type text NOT NULL CHECK (action_type IN ('memo', 'promise_date', 'color_status')),
+  invoice_id uuid REFERENCES acumatica_invoices(id) ON DELETE SET NULL,
+  invoice_reference text NOT NULL,
+  invoice_type text,
+  payload jsonb NOT NULL DEFAULT '{}'::jsonb,
+  source_table text,
+  source_id uuid,
+  status text NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'processing', 'pushed', 'failed', 'skipped')),
+  attempts integer NOT NULL DEFAULT 0,
+  max_attempts integer NOT NULL DEFAULT 5,
+  next_attempt_at timestamptz NOT NULL DEFAULT now(),
+  last_error text,
+  pushed_at timestamptz,
+  created_by uuid REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_writeback_queue_due
+  ON acumatica_writeback_queue(status, next_attempt_at)
+  WHERE status IN ('pending', 'processing');
+
+CREATE INDEX IF NOT EXISTS idx_writeback_queue_invoice
+  ON acumatica_writeback_queue(invoice_reference, created_at DESC);
+
+CREATE INDEX IF NOT EXISTS idx_writeback_queue_org_created
+  ON acumatica_writeback_queue(organization_id, created_at DESC);
+
+ALTER TABLE acumatica_writeback_queue ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Org members can view writeback queue" ON acumatica_writeback_queue;
+CREATE POLICY "Org members can view writeback queue"
+  ON acumatica_writeback_queue FOR SELECT
+  TO authenticated
+  USING (organization_id = get_user_org_id());
+
+DROP POLICY IF EXISTS "Admins can update writeback queue" ON acumatica_writeback_queue;
+CREATE POLICY "Admins can update writeback queue"
+  ON acumatica_writeback_queue FOR UPDATE
+  TO authenticated
+  USING (
+    organization_id = get_user_org_id()
+    AND EXISTS (
+      SELECT 1 FROM user_profiles
+      WHERE user_profiles.id = auth.uid()
+        AND user_profiles.role IN ('admin', 'manager')
+    )
+  )
+  WITH CHECK (organization_id = get_user_org_id());
+
+-- =========================================================================
+-- 2. Enqueue helper + triggers
+-- =========================================================================
+CREATE OR REPLACE FUNCTION enqueue_acumatica_writeback(
+  p_action_type text,
+  p_invoice_reference text,
+  p_payload jsonb,
+  p_source_table text,
+  p_source_id uuid
+)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_invoice record;
+BEGIN
+  SELECT id, type, organization_id
+  INTO v_invoice
+  FROM acumatica_invoices
+  WHERE reference_number = p_invoice_reference
+  ORDER BY (type = 'Invoice') DESC
+  LIMIT 1;
+
+  IF v_invoice.id IS NULL THEN
+    RETURN;
+  END IF;
+
+  -- Collapse repeated edits of the same value type: a newer promise date or
+  -- color supersedes one that has not been pushed yet. Memos always append.
+  IF p_action_type <> 'memo' THEN
+    UPDATE acumatica_writeback_queue
+    SET status = 'skipped',
+        last_error = 'Superseded by a newer change',
+        updated_at = now()
+    WHERE invoice_reference = p_invoice_reference
+      AND action_type = p_action_type
+      AND status = 'pending';
+  END IF;
+
+  INSERT INTO acumatica_writeback_queue (
+    organization_id, action_type, invoice_id, invoice_reference, invoice_type,
+    payload, source_table, source_id, created_by
+  ) VALUES (
+    v_invoice.organization_id, p_action_type, v_invoice.id, p_invoice_reference, v_invoice.type,
+    p_payload, p_source_table, p_source_id, auth.uid()
+  );
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION queue_invoice_memo_writeback()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.memo_text IS NULL OR btrim(NEW.memo_text) = '' THEN
+    RETURN NEW;
+  END IF;
+
+  PERFORM enqueue_acumatica_writeback(
+    'memo',
+    NEW.invoice_reference,
+    jsonb_build_object(
+      'memo_text', NEW.memo_text,
+      'author', NEW.created_by_user_email,
+      'created_at', NEW.created_at
+    ),
+    'invoice_memos',
+    NEW.id
+  );
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trg_queue_invoice_memo_writeback ON invoice_memos;
+CREATE TRIGGER trg_queue_invoice_memo_writeback
+  AFTER INSERT ON invoice_memos
+  FOR EACH ROW EXECUTE FUNCTION queue_invoice_memo_writeback();
+
+CREATE OR REPLACE FUNCTION queue_invoice_field_writeback()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  -- Service-role writes are the Acumatica syncs themselves; don't echo them.
+  IF auth.uid() IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  IF OLD.color_status IS DISTINCT FROM NEW.color_status THEN
+    PERFORM enqueue_acumatica_writeback(
+      'color_status',
+      NEW.reference_number,
+      jsonb_build_object('old_color_status', OLD.color_status, 'color_status', NEW.color_status),
+      'acumatica_invoices',
+      NEW.id
+    );
+  END IF;
+
+  IF OLD.promise_date IS DISTINCT FROM NEW.promise_date THEN
+    PERFORM enqueue_acumatica_writeback(
+      'promise_date',
+      NEW.reference_number,
+      jsonb_build_object('promise_date', NEW.promise_date),
+      'acumatica_invoices',
+      NEW.id
+    );
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trg_queue_invoice_field_writeback ON acumatica_invoices;
+CREATE TRIGGER trg_queue_invoice_field_writeback
+  AFTER UPDATE OF color_status, promise_date ON acumatica_invoices
+  FOR EACH ROW EXECUTE FUNCTION queue_invoice_field_writeback();
+
+CREATE OR REPLACE FUNCTION queue_ticket_promise_writeback()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_ref text;
+BEGIN
+  IF OLD.promise_date IS NOT DISTINCT FROM NEW.promise_date THEN
+    RETURN NEW;
+  END IF;
+
+  -- Same rule as invoice edits: only a signed-in member of the ticket's
+  -- organization queues a write-back, and only for that organization's invoices.
+  IF auth.uid() IS NULL OR NEW.organization_id IS DISTINCT FROM get_user_org_id() THEN
+    RETURN NEW;
+  END IF;
+
+  FOR v_ref IN
+    SELECT DISTINCT ia.invoice_reference_number
+    FROM invoice_assignments ia
+    WHERE ia.ticket_id = NEW.id
+      AND EXISTS (
+        SELECT 1 FROM acumatica_invoices i
+        WHERE i.reference_number = ia.invoice_reference_number
+          AND i.organization_id = NEW.organization_id
+      )
+  LOOP
+    PERFORM enqueue_acumatica_writeback(
+      'promise_date',
+      v_ref,
+      jsonb_build_object('promise_date', NEW.promise_date, 'ticket_number', NEW.ticket_number),
+      'collection_tickets',
+      NEW.id
+    );
+  END LOOP;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trg_queue_ticket_promise_writeback ON collection_tickets;
+CREATE TRIGGER trg_queue_ticket_promise_writeback
+  AFTER UPDATE OF promise_date ON collection_tickets
+  FOR EACH ROW EXECUTE FUNCTION queue_ticket_promise_writeback();
+
+-- =========================================================================
+-- 3. Claim helper used by the edge function (skip-locked batch claim)
+-- =========================================================================
+CREATE OR REPLACE FUNCTION claim_acumatica_writeback_batch(p_limit integer DEFAULT 25)
+RETURNS SETOF acumatica_writeback_queue
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  -- Rows stuck in 'processing' for >15 minutes belong to a timed-out run.
+  UPDATE acumatica_writeback_queue
+  SET status = 'pending', updated_at = now()
+  WHERE status = 'processing'
+    AND updated_at < now() - interval '15 minutes';
+
+  RETURN QUERY
+  UPDATE acumatica_writeback_queue q
+  SET status = 'processing',
+      attempts = q.attempts + 1,
+      updated_at = now()
+  WHERE q.id IN (
+    SELECT id FROM acumatica_writeback_queue
+    WHERE status = 'pending'
+      AND next_attempt_at <= now()
+    ORDER BY created_at
+    LIMIT p_limit
+    FOR UPDATE SKIP LOCKED
+  )
+  RETURNING q.*;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION claim_acumatica_writeback_batch(integer) FROM PUBLIC, anon, authenticated;
+REVOKE ALL ON FUNCTION enqueue_acumatica_writeback(text, text, jsonb, text, uuid) FROM PUBLIC, anon, authenticated;
+
+-- =========================================================================
+-- 4. Allow write-back entries in sync_change_logs
+-- =========================================================================
+ALTER TABLE sync_change_logs
+DROP CONSTRAINT IF EXISTS sync_change_logs_action_type_check;
+
+ALTER TABLE sync_change_logs
+ADD CONSTRAINT sync_change_logs_action_type_check
+CHECK (action_type = ANY (ARRAY[
+  'created',
+  'updated',
+  'closed',
+  'reopened',
+  'deleted',
+  'status_changed',
+  'paid',
+  'partially_paid',
+  'application_synced',
+  'application_sync_failed',
+  'application_sync_skipped',
+  'application_fetched',
+  'attachment_fetched',
+  'pushed',
+  'push_failed'
+]));
+
+ALTER TABLE sync_change_logs
+DROP CONSTRAINT IF EXISTS sync_change_logs_sync_source_check;
+
+ALTER TABLE sync_change_logs
+ADD CONSTRAINT sync_change_logs_sync_source_check
+CHECK (sync_source = ANY (ARRAY[
+  'webhook',
+  'scheduled_sync',
+  'manual_sync',
+  'bulk_fetch',
+  'batch_processing',
+  'writeback'
+]));
+
+-- =========================================================================
+-- 5. Cron
+-- =========================================================================
+CREATE OR REPLACE FUNCTION trigger_acumatica_writeback_sync()
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $func$
+DECLARE
+  v_supabase_url text;
+  v_anon_key text;
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM acumatica_writeback_queue
+    WHERE status = 'pending' AND next_attempt_at <= now()
+  ) THEN
+    RETURN;
+  END IF;
+
+  SELECT supabase_url, supabase_anon_key
+  INTO v_supabase_url, v_anon_key
+  FROM acumatica_sync_credentials
+  WHERE is_active = true
+    AND supabase_url IS NOT NULL
+    AND supabase_anon_key IS NOT NULL
+  ORDER BY created_at DESC
+  LIMIT 1;
+
+  IF v_supabase_url IS NULL OR v_anon_key IS NULL THEN
+    RAISE NOTICE 'No credentials found for acumatica-writeback-sync';
+    RETURN;
+  END IF;
+
+  PERFORM net.http_post(
+    url := v_supabase_url || '/functions/v1/acumatica-writeback-sync',
+    headers := jsonb_build_object(
+      'Content-Type', 'application/json',
+      'Authorization', 'Bearer ' || v_anon_key,
+      'apikey', v_anon_key
+    ),
+    body := '{}'::jsonb
+  );
+EXCEPTION
+  WHEN OTHERS THEN
+    RAISE NOTICE 'Acumatica writeback sync failed: %', SQLERRM;
+END;
+$func$;
+
+DO $$
+BEGIN
+  IF EXISTS (SELECT 1 FROM cron.job WHERE jobname = 'acumatica-writeback-sync') THEN
+    PERFORM cron.unschedule('acumatica-writeback-sync');
+  END IF;
+END $$;
+
+SELECT cron.schedule(
+  'acumatica-writeback-sync',
+  '3,8,13,18,23,28,33,38,43,48,53,58 * * * *',
+  'SELECT trigger_acumatica_writeback_sync();'
+);
@@ -0,0 +1,233 @@
+/*
+  # Signed, replay-protected inbound webhooks
+
+  ## Summary
+  acumatica-invoice-webhook, acumatica-payment-webhook,
+  acumatica-customer-webhook and sendgrid-webhook accepted any POST body and
+  acted on it with the service-role key. They now verify every request via
+  `_shared/webhook-verification.ts` before touching data.
+
+  ## New Tables
+
+  ### `webhook_secrets`
+  One row per webhook source (`acumatica`, `sendgrid`):
+  - `secret` text: Acumatica shared secret. Sent as the `X-Webhook-Secret`
+    header on the push notification destination, or used as the HMAC-SHA256
+    key for `X-Webhook-Signature` when a signing proxy is in front.
+  - `previous_secret` / `previous_valid_until`: the secret that was rotated
+    out stays valid for a grace period so Acumatica can be updated without
+    dropping notifications
+  - `public_key` text: SendGrid Event Webhook verification key (base64 DER,
+    ECDSA P-256) copied from SendGrid's Mail Settings
+  - `enforce` boolean, on by default: when turned off, failures are logged
+    as rejected but the request is still processed (rollout mode). With
+    enforcement on, webhooks are refused until the secret or SendGrid key
+    has been configured
+  - `max_skew_seconds` integer: oldest accepted timestamp
+
+  ### `webhook_nonces`
+  Every accepted request's nonce (Acumatica notification Id, or a hash of the
+  SendGrid signature). A repeated nonce within the window is a replay. The
+  webhook functions delete the nonce again when processing fails, so the
+  provider's retry is accepted.
+
+  ## Updates
+  `webhook_logs` gains `rejection_reason`, `source_ip` and `request_headers`
+  so rejected requests are visible in WebhookConfiguration.
+
+  ## Functions
+  - `rotate_webhook_secret(p_source)`: admin-only; generates a new random
+    secret and keeps the old one valid for 24 hours
+  - `register_webhook_nonce(p_source, p_nonce)`: returns false for a replay
+  - `cleanup_webhook_nonces()`: daily cron, drops nonces older than 2 days
+    and than twice the source's timestamp window, so a nonce is never
+    forgotten while its request could still be accepted
+
+  ## Security
+  - `webhook_secrets`: admins only (secrets are never readable by collectors)
+  - `webhook_nonces`: service role only
+*/
+
+-- =========================================================================
+-- 1. webhook_secrets
+-- =========================================================================
+CREATE TABLE IF NOT EXISTS webhook_secrets (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  source text NOT NULL UNIQUE CHECK (source IN ('acumatica', 'sendgrid')),
+  secret text,
+  previous_secret text,
+  previous_valid_until timestamptz,
+  public_key text,
+  enforce boolean NOT NULL DEFAULT true,
+  max_skew_seconds integer NOT NULL DEFAULT 300,
+  rotated_at timestamptz,
+  rotated_by uuid REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now()
+);
+
+INSERT INTO webhook_secrets (source)
+VALUES ('acumatica'), ('sendgrid')
+ON CONFLICT (source) DO NOTHING;
+
+ALTER TABLE webhook_secrets ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Admins can view webhook secrets" ON webhook_secrets;
+CREATE POLICY "Admins can view webhook secrets"
+  ON webhook_secrets FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM user_profiles
+      WHERE user_profiles.id = auth.uid()
+        AND user_profiles.role = 'admin'
+    )
+  );
+
+DROP POLICY IF EXISTS "Admins can update webhook secrets" ON webhook_secrets;
+CREATE POLICY "Admins can update webhook secrets"
+  ON webhook_secrets FOR UPDATE
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM user_profiles
+      WHERE user_profiles.id = auth.uid()
+        AND user_profiles.role = 'admin'
+    )
+  )
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM user_profiles
+      WHERE user_profiles.id = auth.uid()
+        AND user_profiles.role = 'admin'
+    )
+  );
+
+-- =========================================================================
+-- 2. webhook_nonces
+-- =========================================================================
+CREATE TABLE IF NOT EXISTS webhook_nonces (
+  source text NOT NULL,
+  nonce text NOT NULL,
+  received_at timestamptz NOT NULL DEFAULT now(),
+  PRIMARY KEY (source, nonce)
+);
+
+CREATE INDEX IF NOT EXISTS idx_webhook_nonces_received_at ON webhook_nonces(received_at);
+
+ALTER TABLE webhook_nonces ENABLE ROW LEVEL SECURITY;
+
+CREATE OR REPLACE FUNCTION register_webhook_nonce(p_source text, p_nonce text)
+RETURNS boolean
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  INSERT INTO webhook_nonces (source, nonce) VALUES (p_source, p_nonce);
+  RETURN true;
+EXCEPTION
+  WHEN unique_violation THEN
+    RETURN false;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION register_webhook_nonce(text, text) FROM PUBLIC, anon, authenticated;
+
+CREATE OR REPLACE FUNCTION cleanup_webhook_nonces()
+RETURNS void
+LANGUAGE sql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  -- A timestamp is accepted from max_skew_seconds before to max_skew_seconds
+  -- after it was issued, so a nonce must outlive twice the window
+  DELETE FROM webhook_nonces n
+  WHERE n.received_at < now() - GREATEST(
+    interval '2 days',
+    COALESCE(
+      (SELECT 2 * ws.max_skew_seconds * interval '1 second' FROM webhook_secrets ws WHERE ws.source = n.source),
+      interval '2 days'
+    )
+  );
+$$;
+
+DO $$
+BEGIN
+  IF EXISTS (SELECT 1 FROM cron.job WHERE jobname = 'cleanup-webhook-nonces') THEN
+    PERFORM cron.unschedule('cleanup-webhook-nonces');
+  END IF;
+END $$;
+
+SELECT cron.schedule(
+  'cleanup-webhook-nonces',
+  '35 2 * * *',
+  'SELECT cleanup_webhook_nonces();'
+);
+
+-- =========================================================================
+-- 3. Secret rotation
+-- =========================================================================
+CREATE OR REPLACE FUNCTION rotate_webhook_secret(p_source text)
+RETURNS text
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, extensions
+AS $$
+DECLARE
+  v_new_secret text;
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM user_profiles
+    WHERE id = auth.uid() AND role = 'admin'
+  ) THEN
+    RAISE EXCEPTION 'Only admins can rotate webhook secrets';
+  END IF;
+
+  IF p_source <> 'acumatica' THEN
+    RAISE EXCEPTION 'Secrets for % are issued by the provider and cannot be generated here', p_source;
+  END IF;
+
+  v_new_secret := encode(gen_random_bytes(32), 'hex');
+
+  UPDATE webhook_secrets
+  SET previous_secret = secret,
+      previous_valid_until = CASE WHEN secret IS NULL THEN NULL ELSE now() + interval '24 hours' END,
+      secret = v_new_secret,
+      rotated_at = now(),
+      rotated_by = auth.uid(),
+      updated_at = now()
+  WHERE source = p_source;
+
+  RETURN v_new_secret;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION rotate_webhook_secret(text) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION rotate_webhook_secret(text) TO authenticated;
+
+-- =========================================================================
+-- 4. webhook_logs: rejected-request details
+-- =========================================================================
+ALTER TABLE webhook_logs
+ADD COLUMN IF NOT EXISTS rejection_reason text,
+ADD COLUMN IF NOT EXISTS source_ip text,
+ADD COLUMN IF NOT EXISTS request_headers jsonb;
+
+CREATE INDEX IF NOT EXISTS idx_webhook_logs_rejected
+  ON webhook_logs(received_at DESC)
+  WHERE status = 'rejected';
+
+-- Webhook payloads can carry customer PII; restrict the log to admins now
+-- that rejected (untrusted) bodies are stored there too.
+DROP POLICY IF EXISTS "Authenticated users can read webhook logs" ON webhook_logs;
+CREATE POLICY "Admins can read webhook logs"
+  ON webhook_logs FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM user_profiles
+      WHERE user_profiles.id = auth.uid()
+        AND user_profiles.role = 'admin'
+    )
+  );
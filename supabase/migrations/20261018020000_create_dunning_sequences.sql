@@ -0,0 +1,314 @@
+/*
+  # Dunning Sequences
+
+  ## Summary
+  Email formulas only describe "send template X on day N of the month".
+  Dunning sequences are ordered, escalating steps driven by how far a
+  customer's oldest open invoice is past due in `acumatica_invoices`
+  (e.g. friendly reminder at 7 days, firm notice at 30, final notice plus a
+  collection ticket at 60). Steps reuse `email_templates` for their content
+  and `collection_tickets` for escalation. The `process-dunning-sequences`
+  edge function advances enrollments once a day.
+
+  ## New Tables
+
+  ### `dunning_sequences`
+  - `name`, `description`, `is_active`
+  - `is_default` boolean: customers with overdue invoices who are not enrolled
+    in any sequence are enrolled in the default sequence automatically (one
+    default per organization)
+
+  ### `dunning_steps`
+  - `sequence_id`, `step_order`, `name`
+  - `days_overdue` integer: the step fires once the customer's oldest open
+    invoice is at least this many days past due
+  - `channel` text: email | ticket | email_and_ticket
+  - `template_id` -> email_templates (required for email channels)
+  - `ticket_priority`: priority of the ticket created / escalated by the step
+  - `stop_on_payment`, `stop_on_promise_date`, `stop_on_ticket_closed`:
+    checked before the step fires; a match stops the enrollment instead
+
+  ### `dunning_enrollments`
+  A customer's position in a sequence:
+  - `customer_id` (acumatica customer id), `sequence_id`
+  - `status` text: active | paused | stopped | completed
+  - `current_step_id` / `current_step_order`: last step executed (0 = none)
+  - `max_days_overdue`: aging at the last evaluation
+  - `ticket_id`: ticket opened by a ticket step, reused by later steps
+  - `stopped_reason`, `last_step_at`, `last_evaluated_at`
+  - `resumed_at`: set when a user resumes a paused or stopped enrollment;
+    payments before it no longer stop the sequence
+  At most one active, paused or stopped enrollment per customer. The
+  default sequence also leaves customers alone for 30 days after their
+  enrollment completed.
+
+  ### `dunning_step_executions`
+  History of every step fired, skipped or failed for an enrollment. A failed
+  step is retried on later runs with a doubling delay and given up after
+  three attempts.
+
+  ## Cron
+  `trigger_process_dunning_sequences()` calls `process-dunning-sequences`
+  daily at 13:15 UTC.
+
+  ## Security
+  - RLS enabled on all tables, scoped to the user's organization
+  - Admins/managers manage sequences and steps
+  - Org members can enroll, pause and resume customers
+  - Executions are written by the service role only
+*/
+
+-- =========================================================================
+-- 1. Tables
+-- =========================================================================
+CREATE TABLE IF NOT EXISTS dunning_sequences (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  organization_id uuid REFERENCES organizations(id) ON DELETE CASCADE,
+  name text NOT NULL,
+  description text,
+  is_active boolean NOT NULL DEFAULT true,
+  is_default boolean NOT NULL DEFAULT false,
+  created_by uuid REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now()
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_dunning_sequences_one_default
+  ON dunning_sequences(organization_id)
+  WHERE is_default = true;
+
+CREATE TABLE IF NOT EXISTS dunning_steps (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  organization_id uuid REFERENCES organizations(id) ON DELETE CASCADE,
+  sequence_id uuid NOT NULL REFERENCES dunning_sequences(id) ON DELETE CASCADE,
+  step_order integer NOT NULL,
+  name text NOT NULL,
+  days_overdue integer NOT NULL CHECK (days_overdue >= 0),
+  channel text NOT NULL DEFAULT 'email' CHECK (channel IN ('email', 'ticket', 'email_and_ticket')),
+  template_id uuid REFERENCES email_templates(id) ON DELETE SET NULL,
+  ticket_priority text NOT NULL DEFAULT 'medium' CHECK (ticket_priority IN ('low', 'medium', 'high', 'urgent')),
+  stop_on_payment boolean NOT NULL DEFAULT true,
+  stop_on_promise_date boolean NOT NULL DEFAULT true,
+  stop_on_ticket_closed boolean NOT NULL DEFAULT false,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now(),
+  UNIQUE (sequence_id, step_order)
+);
+
+CREATE INDEX IF NOT EXISTS idx_dunning_steps_sequence ON dunning_steps(sequence_id, step_order);
+
+CREATE TABLE IF NOT EXISTS dunning_enrollments (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  organization_id uuid REFERENCES organizations(id) ON DELETE CASCADE,
+  sequence_id uuid NOT NULL REFERENCES dunning_sequences(id) ON DELETE CASCADE,
+  customer_id text NOT NULL,
+  customer_name text,
+  status text NOT NULL DEFAULT 'active' CHECK (status IN ('active', 'paused', 'stopped', 'completed')),
+  current_step_id uuid REFERENCES dunning_steps(id) ON DELETE SET NULL,
+  current_step_order integer NOT NULL DEFAULT 0,
+  max_days_overdue integer NOT NULL DEFAULT 0,
+  ticket_id uuid REFERENCES collection_tickets(id) ON DELETE SET NULL,
+  stopped_reason text,
+  enrolled_by uuid REFERENCES auth.users(id) ON DELETE SET NULL,
+  enrolled_at timestamptz NOT NULL DEFAULT now(),
+  resumed_at timestamptz,
+  last_step_at timestamptz,
+  last_evaluated_at timestamptz,
+  updated_at timestamptz DEFAULT now()
+);
+
+-- Stopped enrollments count too, so a customer who paid or promised is not
+-- picked up again from step 1; re-enrolling completes the stopped row first.
+CREATE UNIQUE INDEX IF NOT EXISTS idx_dunning_enrollments_one_open
+  ON dunning_enrollments(customer_id)
+  WHERE status IN ('active', 'paused', 'stopped');
+
+CREATE INDEX IF NOT EXISTS idx_dunning_enrollments_sequence_status
+  ON dunning_enrollments(sequence_id, status);
+
+CREATE TABLE IF NOT EXISTS dunning_step_executions (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  organization_id uuid REFERENCES organizations(id) ON DELETE CASCADE,
+  enrollment_id uuid NOT NULL REFERENCES dunning_enrollments(id) ON DELETE CASCADE,
+  step_id uuid REFERENCES dunning_steps(id) ON DELETE SET NULL,
+  customer_id text NOT NULL,
+  step_order integer NOT NULL,
+  channel text NOT NULL,
+  status text NOT NULL CHECK (status IN ('sent', 'skipped', 'failed', 'stopped')),
+  days_overdue integer,
+  email_to text,
+  email_subject text,
+  ticket_id uuid REFERENCES collection_tickets(id) ON DELETE SET NULL,
+  detail text,
+  executed_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_dunning_executions_enrollment
+  ON dunning_step_executions(enrollment_id, executed_at DESC);
+
+CREATE INDEX IF NOT EXISTS idx_dunning_executions_customer
+  ON dunning_step_executions(customer_id, executed_at DESC);
+
+-- =========================================================================
+-- 2. Org auto-fill
+-- =========================================================================
+DROP TRIGGER IF EXISTS set_org_id_dunning_sequences ON dunning_sequences;
+CREATE TRIGGER set_org_id_dunning_sequences
+  BEFORE INSERT ON dunning_sequences
+  FOR EACH ROW EXECUTE FUNCTION set_org_id_on_insert();
+
+DROP TRIGGER IF EXISTS set_org_id_dunning_steps ON dunning_steps;
+CREATE TRIGGER set_org_id_dunning_steps
+  BEFORE INSERT ON dunning_steps
+  FOR EACH ROW EXECUTE FUNCTION set_org_id_on_insert();
+
+DROP TRIGGER IF EXISTS set_org_id_dunning_enrollments ON dunning_enrollments;
+CREATE TRIGGER set_org_id_dunning_enrollments
+  BEFORE INSERT ON dunning_enrollments
+  FOR EACH ROW EXECUTE FUNCTION set_org_id_on_insert();
+
+-- =========================================================================
+-- 3. RLS
+-- =========================================================================
+ALTER TABLE dunning_sequences ENABLE ROW LEVEL SECURITY;
+ALTER TABLE dunning_steps ENABLE ROW LEVEL SECURITY;
+ALTER TABLE dunning_enrollments ENABLE ROW LEVEL SECURITY;
+ALTER TABLE dunning_step_executions ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Org members can view dunning sequences" ON dunning_sequences;
+CREATE POLICY "Org members can view dunning sequences"
+  ON dunning_sequences FOR SELECT
+  TO authenticated
+  USING (organization_id = get_user_org_id());
+
+DROP POLICY IF EXISTS "Admins can manage dunning sequences" ON dunning_sequences;
+CREATE POLICY "Admins can manage dunning sequences"
+  ON dunning_sequences FOR ALL
+  TO authenticated
+  USING (
+    organization_id = get_user_org_id()
+    AND EXISTS (
+      SELECT 1 FROM user_profiles
+      WHERE user_profiles.id = auth.uid()
+        AND user_profiles.role IN ('admin', 'manager')
+    )
+  )
+  WITH CHECK (
+    organization_id = get_user_org_id()
+    AND EXISTS (
+      SELECT 1 FROM user_profiles
+      WHERE user_profiles.id = auth.uid()
+        AND user_profiles.role IN ('admin', 'manager')
+    )
+  );
+
+DROP POLICY IF EXISTS "Org members can view dunning steps" ON dunning_steps;
+CREATE POLICY "Org members can view dunning steps"
+  ON dunning_steps FOR SELECT
+  TO authenticated
+  USING (organization_id = get_user_org_id());
+
+DROP POLICY IF EXISTS "Admins can manage dunning steps" ON dunning_steps;
+CREATE POLICY "Admins can manage dunning steps"
+  ON dunning_steps FOR ALL
+  TO authenticated
+  USING (
+    organization_id = get_user_org_id()
+    AND EXISTS (
+      SELECT 1 FROM user_profiles
+      WHERE user_profiles.id = auth.uid()
+        AND user_profiles.role IN ('admin', 'manager')
+    )
+  )
+  WITH CHECK (
+    organization_id = get_user_org_id()
+    AND EXISTS (
+      SELECT 1 FROM user_profiles
+      WHERE user_profiles.id = auth.uid()
+        AND user_profiles.role IN ('admin', 'manager')
+    )
+  );
+
+DROP POLICY IF EXISTS "Org members can view dunning enrollments" ON dunning_enrollments;
+CREATE POLICY "Org members can view dunning enrollments"
+  ON dunning_enrollments FOR SELECT
+  TO authenticated
+  USING (organization_id = get_user_org_id());
+
+DROP POLICY IF EXISTS "Org members can enroll customers" ON dunning_enrollments;
+CREATE POLICY "Org members can enroll customers"
+  ON dunning_enrollments FOR INSERT
+  TO authenticated
+  WITH CHECK (organization_id = get_user_org_id());
+
+DROP POLICY IF EXISTS "Org members can update dunning enrollments" ON dunning_enrollments;
+CREATE POLICY "Org members can update dunning enrollments"
+  ON dunning_enrollments FOR UPDATE
+  TO authenticated
+  USING (organization_id = get_user_org_id())
+  WITH CHECK (organization_id = get_user_org_id());
+
+DROP POLICY IF EXISTS "Org members can view dunning executions" ON dunning_step_executions;
+CREATE POLICY "Org members can view dunning executions"
+  ON dunning_step_executions FOR SELECT
+  TO authenticated
+  USING (organization_id = get_user_org_id());
+
+-- =========================================================================
+-- 4. Daily cron
+-- =========================================================================
+CREATE OR REPLACE FUNCTION trigger_process_dunning_sequences()
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $func$
+DECLARE
+  v_supabase_url text;
+  v_anon_key text;
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM dunning_sequences WHERE is_active = true) THEN
+    RETURN;
+  END IF;
+
+  SELECT supabase_url, supabase_anon_key
+  INTO v_supabase_url, v_anon_key
+  FROM acumatica_sync_credentials
+  WHERE is_active = true
+    AND supabase_url IS NOT NULL
+    AND supabase_anon_key IS NOT NULL
+  ORDER BY created_at DESC
+  LIMIT 1;
+
+  IF v_supabase_url IS NULL OR v_anon_key IS NULL THEN
+    RAISE NOTICE 'No credentials found for process-dunning-sequences';
+    RETURN;
+  END IF;
+
+  PERFORM net.http_post(
+    url := v_supabase_url || '/functions/v1/process-dunning-sequences',
+    headers := jsonb_build_object(
+      'Content-Type', 'application/json',
+      'Authorization', 'Bearer ' || v_anon_key,
+      'apikey', v_anon_key
+    ),
+    body := '{}'::jsonb
+  );
+EXCEPTION
+  WHEN OTHERS THEN
+    RAISE NOTICE 'Dunning sequence processing failed: %', SQLERRM;
+END;
+$func$;
+
+DO $$
+BEGIN
+  IF EXISTS (SELECT 1 FROM cron.job WHERE jobname = 'process-dunning-sequences') THEN
+    PERFORM cron.unschedule('process-dunning-sequences');
+  END IF;
+END $$;
+
+SELECT cron.schedule(
+  'process-dunning-sequences',
+  '15 13 * * *',
+  'SELECT trigger_process_dunning_sequences();'
+);
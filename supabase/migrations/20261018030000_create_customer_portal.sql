@@ -0,0 +1,188 @@
+/*
+  # Customer Self-Service Portal
+
+  ## Summary
+  Statement emails can now carry an expiring link to `/portal/<token>`, where
+  the customer sees their open invoices, aging and payment history, downloads
+  their statement, and can submit a promise-to-pay or dispute an invoice.
+  The portal is served by the `customer-portal` edge function; customers
+  never get database access of their own.
+
+  ## New Tables
+
+  ### `customer_portal_tokens`
+  - `customer_id` (acumatica customer id)
+  - `token_hash` text: SHA-256 hex of the token in the link. The token itself
+    is only returned once, when it is minted.
+  - `expires_at`, `revoked_at`
+  - `created_via` text: statement_email | manual
+  - `last_accessed_at`, `access_count`
+
+  ### `customer_portal_submissions`
+  Promise-to-pay and dispute submissions from the portal:
+  - `submission_type` text: promise_to_pay | dispute
+  - `invoice_reference_numbers` text[], `promise_date`, `amount`, `message`
+  - `contact_name`, `contact_email`: who submitted it
+  - `ticket_id` / `ticket_note_id`: the collection ticket note it produced
+
+  ## Changes
+  `ticket_notes.created_by_user_id` becomes nullable and notes gain
+  `source` (staff | customer_portal) and `author_name`, so customer
+  submissions land on the ticket timeline without a user account.
+
+  ## Functions
+  `create_customer_portal_token(p_customer_id, p_valid_days, p_created_via)`
+  mints a token and returns it. Org members may mint links for their own
+  organization's customers; the service role may mint for any customer.
+
+  ## Security
+  - RLS enabled; org members view their org's tokens and submissions
+  - Admins/managers can revoke tokens
+  - Token lookup and submissions go through the edge function only
+*/
+
+-- =========================================================================
+-- 1. Tables
+-- =========================================================================
+CREATE TABLE IF NOT EXISTS customer_portal_tokens (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  organization_id uuid REFERENCES organizations(id) ON DELETE CASCADE,
+  customer_id text NOT NULL,
+  token_hash text NOT NULL UNIQUE,
+  expires_at timestamptz NOT NULL,
+  revoked_at timestamptz,
+  created_via text NOT NULL DEFAULT 'manual' CHECK (created_via IN ('statement_email', 'manual')),
+  created_by uuid REFERENCES auth.users(id) ON DELETE SET NULL,
+  last_accessed_at timestamptz,
+  access_count integer NOT NULL DEFAULT 0,
+  created_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_portal_tokens_customer
+  ON customer_portal_tokens(customer_id, created_at DESC);
+
+CREATE TABLE IF NOT EXISTS customer_portal_submissions (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  organization_id uuid REFERENCES organizations(id) ON DELETE CASCADE,
+  token_id uuid REFERENCES customer_portal_tokens(id) ON DELETE SET NULL,
+  customer_id text NOT NULL,
+  submission_type text NOT NULL CHECK (submission_type IN ('promise_to_pay', 'dispute')),
+  invoice_reference_numbers text[] NOT NULL DEFAULT '{}',
+  promise_date date,
+  amount numeric,
+  message text,
+  contact_name text,
+  contact_email text,
+  ticket_id uuid REFERENCES collection_tickets(id) ON DELETE SET NULL,
+  ticket_note_id uuid REFERENCES ticket_notes(id) ON DELETE SET NULL,
+  source_ip text,
+  created_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_portal_submissions_customer
+  ON customer_portal_submissions(customer_id, created_at DESC);
+
+CREATE INDEX IF NOT EXISTS idx_portal_submissions_token
+  ON customer_portal_submissions(token_id, created_at DESC);
+
+-- =========================================================================
+-- 2. ticket_notes: customer-authored notes
+-- =========================================================================
+ALTER TABLE ticket_notes
+  ALTER COLUMN created_by_user_id DROP NOT NULL;
+
+ALTER TABLE ticket_notes
+ADD COLUMN IF NOT EXISTS source text NOT NULL DEFAULT 'staff',
+ADD COLUMN IF NOT EXISTS author_name text;
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.constraint_column_usage
+    WHERE table_name = 'ticket_notes' AND constraint_name = 'ticket_notes_source_check'
+  ) THEN
+    ALTER TABLE ticket_notes
+      ADD CONSTRAINT ticket_notes_source_check CHECK (source IN ('staff', 'customer_portal'));
+  END IF;
+END $$;
+
+-- =========================================================================
+-- 3. RLS
+-- =========================================================================
+ALTER TABLE customer_portal_tokens ENABLE ROW LEVEL SECURITY;
+ALTER TABLE customer_portal_submissions ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Org members can view portal tokens" ON customer_portal_tokens;
+CREATE POLICY "Org members can view portal tokens"
+  ON customer_portal_tokens FOR SELECT
+  TO authenticated
+  USING (organization_id = get_user_org_id());
+
+DROP POLICY IF EXISTS "Admins can revoke portal tokens" ON customer_portal_tokens;
+CREATE POLICY "Admins can revoke portal tokens"
+  ON customer_portal_tokens FOR UPDATE
+  TO authenticated
+  USING (
+    organization_id = get_user_org_id()
+    AND EXISTS (
+      SELECT 1 FROM user_profiles
+      WHERE user_profiles.id = auth.uid()
+        AND user_profiles.role IN ('admin', 'manager')
+    )
+  )
+  WITH CHECK (organization_id = get_user_org_id());
+
+DROP POLICY IF EXISTS "Org members can view portal submissions" ON customer_portal_submissions;
+CREATE POLICY "Org members can view portal submissions"
+  ON customer_portal_submissions FOR SELECT
+  TO authenticated
+  USING (organization_id = get_user_org_id());
+
+-- =========================================================================
+-- 4. Token minting
+-- =========================================================================
+CREATE OR REPLACE FUNCTION create_customer_portal_token(
+  p_customer_id text,
+  p_valid_days integer DEFAULT 30,
+  p_created_via text DEFAULT 'manual'
+)
+RETURNS text
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, extensions
+AS $$
+DECLARE
+  v_org_id uuid;
+  v_token text;
+BEGIN
+  SELECT organization_id INTO v_org_id
+  FROM acumatica_customers
+  WHERE customer_id = p_customer_id
+  LIMIT 1;
+
+  IF v_org_id IS NULL THEN
+    RAISE EXCEPTION 'Customer % not found', p_customer_id;
+  END IF;
+
+  IF auth.uid() IS NOT NULL AND v_org_id IS DISTINCT FROM get_user_org_id() THEN
+    RAISE EXCEPTION 'Customer % does not belong to your organization', p_customer_id;
+  END IF;
+
+  v_token := encode(gen_random_bytes(32), 'hex');
+
+  INSERT INTO customer_portal_tokens (organization_id, customer_id, token_hash, expires_at, created_via, created_by)
+  VALUES (
+    v_org_id,
+    p_customer_id,
+    encode(digest(v_token, 'sha256'), 'hex'),
+    now() + make_interval(days => LEAST(GREATEST(COALESCE(p_valid_days, 30), 1), 90)),
+    p_created_via,
+    auth.uid()
+  );
+
+  RETURN v_token;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION create_customer_portal_token(text, integer, text) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION create_customer_portal_token(text, integer, text) TO authenticated, service_role;
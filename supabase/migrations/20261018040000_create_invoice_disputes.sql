@@ -0,0 +1,347 @@
+/*
+  # Invoice Disputes
+
+  ## Summary
+  Makes a disputed invoice a first-class record instead of a color status or
+  a free-text memo. A dispute covers one or more invoices of a customer, has
+  a reason code, an owner and a status lifecycle, and can carry supporting
+  attachments. While a dispute is active its invoices are skipped by dunning
+  and by the auto-ticket rules, and reported as their own "Disputed" aging
+  category.
+
+  ## New Tables
+
+  ### `invoice_disputes`
+  - `customer_id`, `customer_name`
+  - `reason_code` text: pricing | damaged | not_received | duplicate_billing | other
+  - `description`, `disputed_amount`
+  - `status` text: open | investigating | awaiting_customer (active),
+    resolved | rejected | withdrawn (closed)
+  - `owner_id` (user_profiles): who is working the dispute
+  - `source` text: staff | customer_portal, plus `portal_submission_id`
+  - `ticket_id`: collection ticket the dispute was raised from, if any
+  - `resolution_notes`, `resolved_at`, `resolved_by`
+
+  ### `invoice_dispute_invoices`
+  - `dispute_id`, `invoice_reference_number`, `balance_at_dispute`
+
+  ### `invoice_dispute_attachments`
+  - `dispute_id`, `file_name`, `storage_path` (bucket `invoice-dispute-attachments`),
+    `content_type`, `file_size`, `uploaded_by`
+
+  ### `invoice_dispute_events`
+  - Timeline of each dispute: created, status_change, owner_change, comment,
+    attachment_added, invoice_added, invoice_removed. Status and owner changes
+    are logged by trigger.
+
+  ## Security
+  - RLS enabled on all tables, scoped to the user's organization
+  - Any org member can open and work disputes; admins/managers can delete them
+  - Attachments are stored under `<dispute_id>/` and readable by members of
+    the dispute's organization
+
+  ## New Functions
+  - `invoice_has_active_dispute(reference_number, organization_id)` - true
+    while the invoice is on an open, investigating or awaiting_customer
+    dispute. SQL-side collections automation (the auto-ticket evaluator) uses
+    it; edge functions use `loadDisputedInvoiceRefs`
+*/
+
+-- =========================================================================
+-- 1. Tables
+-- =========================================================================
+CREATE TABLE IF NOT EXISTS invoice_disputes (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  organization_id uuid REFERENCES organizations(id) ON DELETE CASCADE,
+  customer_id text NOT NULL,
+  customer_name text,
+  reason_code text NOT NULL DEFAULT 'other'
+    CHECK (reason_code IN ('pricing', 'damaged', 'not_received', 'duplicate_billing', 'other')),
+  description text,
+  disputed_amount numeric,
+  status text NOT NULL DEFAULT 'open'
+    CHECK (status IN ('open', 'investigating', 'awaiting_customer', 'resolved', 'rejected', 'withdrawn')),
+  owner_id uuid REFERENCES user_profiles(id) ON DELETE SET NULL,
+  source text NOT NULL DEFAULT 'staff' CHECK (source IN ('staff', 'customer_portal')),
+  portal_submission_id uuid REFERENCES customer_portal_submissions(id) ON DELETE SET NULL,
+  ticket_id uuid REFERENCES collection_tickets(id) ON DELETE SET NULL,
+  resolution_notes text,
+  resolved_at timestamptz,
+  resolved_by uuid REFERENCES user_profiles(id) ON DELETE SET NULL,
+  opened_by uuid REFERENCES user_profiles(id) ON DELETE SET NULL,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_invoice_disputes_customer
+  ON invoice_disputes(customer_id, created_at DESC);
+
+CREATE INDEX IF NOT EXISTS idx_invoice_disputes_status
+  ON invoice_disputes(organization_id, status);
+
+CREATE TABLE IF NOT EXISTS invoice_dispute_invoices (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  organization_id uuid REFERENCES organizations(id) ON DELETE CASCADE,
+  dispute_id uuid NOT NULL REFERENCES invoice_disputes(id) ON DELETE CASCADE,
+  invoice_reference_number text NOT NULL,
+  balance_at_dispute numeric,
+  created_at timestamptz DEFAULT now(),
+  UNIQUE(dispute_id, invoice_reference_number)
+);
+
+CREATE INDEX IF NOT EXISTS idx_dispute_invoices_reference
+  ON invoice_dispute_invoices(invoice_reference_number);
+
+CREATE TABLE IF NOT EXISTS invoice_dispute_attachments (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  organization_id uuid REFERENCES organizations(id) ON DELETE CASCADE,
+  dispute_id uuid NOT NULL REFERENCES invoice_disputes(id) ON DELETE CASCADE,
+  file_name text NOT NULL,
+  storage_path text NOT NULL,
+  content_type text,
+  file_size bigint,
+  uploaded_by uuid REFERENCES user_profiles(id) ON DELETE SET NULL,
+  created_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_dispute_attachments_dispute
+  ON invoice_dispute_attachments(dispute_id);
+
+CREATE TABLE IF NOT EXISTS invoice_dispute_events (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  organization_id uuid REFERENCES organizations(id) ON DELETE CASCADE,
+  dispute_id uuid NOT NULL REFERENCES invoice_disputes(id) ON DELETE CASCADE,
+  event_type text NOT NULL CHECK (event_type IN (
+    'created', 'status_change', 'owner_change', 'comment',
+    'attachment_added', 'invoice_added', 'invoice_removed'
+  )),
+  from_value text,
+  to_value text,
+  note text,
+  created_by uuid REFERENCES user_profiles(id) ON DELETE SET NULL,
+  created_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_dispute_events_dispute
+  ON invoice_dispute_events(dispute_id, created_at DESC);
+
+-- =========================================================================
+-- 2. Triggers
+-- =========================================================================
+DROP TRIGGER IF EXISTS set_org_id_invoice_disputes ON invoice_disputes;
+CREATE TRIGGER set_org_id_invoice_disputes
+  BEFORE INSERT ON invoice_disputes
+  FOR EACH ROW EXECUTE FUNCTION set_org_id_on_insert();
+
+DROP TRIGGER IF EXISTS set_org_id_invoice_dispute_invoices ON invoice_dispute_invoices;
+CREATE TRIGGER set_org_id_invoice_dispute_invoices
+  BEFORE INSERT ON invoice_dispute_invoices
+  FOR EACH ROW EXECUTE FUNCTION set_org_id_on_insert();
+
+DROP TRIGGER IF EXISTS set_org_id_invoice_dispute_attachments ON invoice_dispute_attachments;
+CREATE TRIGGER set_org_id_invoice_dispute_attachments
+  BEFORE INSERT ON invoice_dispute_attachments
+  FOR EACH ROW EXECUTE FUNCTION set_org_id_on_insert();
+
+DROP TRIGGER IF EXISTS set_org_id_invoice_dispute_events ON invoice_dispute_events;
+CREATE TRIGGER set_org_id_invoice_dispute_events
+  BEFORE INSERT ON invoice_dispute_events
+  FOR EACH ROW EXECUTE FUNCTION set_org_id_on_insert();
+
+-- Stamp resolved_at / updated_at on status changes
+CREATE OR REPLACE FUNCTION update_invoice_dispute_timestamps()
+RETURNS TRIGGER AS $$
+BEGIN
+  NEW.updated_at = now();
+  IF NEW.status IS DISTINCT FROM OLD.status THEN
+    IF NEW.status IN ('resolved', 'rejected', 'withdrawn') THEN
+      NEW.resolved_at = COALESCE(NEW.resolved_at, now());
+      NEW.resolved_by = COALESCE(NEW.resolved_by, auth.uid());
+    ELSE
+      NEW.resolved_at = NULL;
+      NEW.resolved_by = NULL;
+    END IF;
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS trigger_update_invoice_dispute_timestamps ON invoice_disputes;
+CREATE TRIGGER trigger_update_invoice_dispute_timestamps
+  BEFORE UPDATE ON invoice_disputes
+  FOR EACH ROW
+  EXECUTE FUNCTION update_invoice_dispute_timestamps();
+
+-- Log creation, status and owner changes to the dispute timeline
+CREATE OR REPLACE FUNCTION log_invoice_dispute_event()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    INSERT INTO invoice_dispute_events (organization_id, dispute_id, event_type, to_value, note, created_by)
+    VALUES (NEW.organization_id, NEW.id, 'created', NEW.status, NEW.description, COALESCE(NEW.opened_by, auth.uid()));
+    RETURN NEW;
+  END IF;
+
+  IF NEW.status IS DISTINCT FROM OLD.status THEN
+    INSERT INTO invoice_dispute_events (organization_id, dispute_id, event_type, from_value, to_value, note, created_by)
+    VALUES (
+      NEW.organization_id, NEW.id, 'status_change', OLD.status, NEW.status,
+      CASE WHEN NEW.status IN ('resolved', 'rejected', 'withdrawn') THEN NEW.resolution_notes END,
+      auth.uid()
+    );
+  END IF;
+
+  IF NEW.owner_id IS DISTINCT FROM OLD.owner_id THEN
+    INSERT INTO invoice_dispute_events (organization_id, dispute_id, event_type, from_value, to_value, created_by)
+    VALUES (NEW.organization_id, NEW.id, 'owner_change', OLD.owner_id::text, NEW.owner_id::text, auth.uid());
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trigger_log_invoice_dispute_event ON invoice_disputes;
+CREATE TRIGGER trigger_log_invoice_dispute_event
+  AFTER INSERT OR UPDATE ON invoice_disputes
+  FOR EACH ROW
+  EXECUTE FUNCTION log_invoice_dispute_event();
+
+-- =========================================================================
+-- 3. RLS
+-- =========================================================================
+ALTER TABLE invoice_disputes ENABLE ROW LEVEL SECURITY;
+ALTER TABLE invoice_dispute_invoices ENABLE ROW LEVEL SECURITY;
+ALTER TABLE invoice_dispute_attachments ENABLE ROW LEVEL SECURITY;
+ALTER TABLE invoice_dispute_events ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Org members can view disputes" ON invoice_disputes;
+CREATE POLICY "Org members can view disputes"
+  ON invoice_disputes FOR SELECT
+  TO authenticated
+  USING (organization_id = get_user_org_id());
+
+DROP POLICY IF EXISTS "Org members can open disputes" ON invoice_disputes;
+CREATE POLICY "Org members can open disputes"
+  ON invoice_disputes FOR INSERT
+  TO authenticated
+  WITH CHECK (organization_id = get_user_org_id());
+
+DROP POLICY IF EXISTS "Org members can update disputes" ON invoice_disputes;
+CREATE POLICY "Org members can update disputes"
+  ON invoice_disputes FOR UPDATE
+  TO authenticated
+  USING (organization_id = get_user_org_id())
+  WITH CHECK (organization_id = get_user_org_id());
+
+DROP POLICY IF EXISTS "Admins can delete disputes" ON invoice_disputes;
+CREATE POLICY "Admins can delete disputes"
+  ON invoice_disputes FOR DELETE
+  TO authenticated
+  USING (
+    organization_id = get_user_org_id()
+    AND EXISTS (
+      SELECT 1 FROM user_profiles
+      WHERE user_profiles.id = auth.uid()
+        AND user_profiles.role IN ('admin', 'manager')
+    )
+  );
+
+DROP POLICY IF EXISTS "Org members can manage dispute invoices" ON invoice_dispute_invoices;
+CREATE POLICY "Org members can manage dispute invoices"
+  ON invoice_dispute_invoices FOR ALL
+  TO authenticated
+  USING (organization_id = get_user_org_id())
+  WITH CHECK (organization_id = get_user_org_id());
+
+DROP POLICY IF EXISTS "Org members can manage dispute attachments" ON invoice_dispute_attachments;
+CREATE POLICY "Org members can manage dispute attachments"
+  ON invoice_dispute_attachments FOR ALL
+  TO authenticated
+  USING (organization_id = get_user_org_id())
+  WITH CHECK (organization_id = get_user_org_id());
+
+DROP POLICY IF EXISTS "Org members can view dispute events" ON invoice_dispute_events;
+CREATE POLICY "Org members can view dispute events"
+  ON invoice_dispute_events FOR SELECT
+  TO authenticated
+  USING (organization_id = get_user_org_id());
+
+DROP POLICY IF EXISTS "Org members can add dispute events" ON invoice_dispute_events;
+CREATE POLICY "Org members can add dispute events"
+  ON invoice_dispute_events FOR INSERT
+  TO authenticated
+  WITH CHECK (organization_id = get_user_org_id());
+
+-- =========================================================================
+-- 4. Attachment storage
+-- =========================================================================
+INSERT INTO storage.buckets (id, name, public)
+VALUES ('invoice-dispute-attachments', 'invoice-dispute-attachments', false)
+ON CONFLICT (id) DO NOTHING;
+
+DROP POLICY IF EXISTS "Org members can upload dispute attachments" ON storage.objects;
+CREATE POLICY "Org members can upload dispute attachments"
+  ON storage.objects FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    bucket_id = 'invoice-dispute-attachments'
+    AND EXISTS (
+      SELECT 1 FROM invoice_disputes
+      WHERE invoice_disputes.id::text = (storage.foldername(name))[1]
+        AND invoice_disputes.organization_id = get_user_org_id()
+    )
+  );
+
+DROP POLICY IF EXISTS "Org members can view dispute attachments" ON storage.objects;
+CREATE POLICY "Org members can view dispute attachments"
+  ON storage.objects FOR SELECT
+  TO authenticated
+  USING (
+    bucket_id = 'invoice-dispute-attachments'
+    AND EXISTS (
+      SELECT 1 FROM invoice_disputes
+      WHERE invoice_disputes.id::text = (storage.foldername(name))[1]
+        AND invoice_disputes.organization_id = get_user_org_id()
+    )
+  );
+
+DROP POLICY IF EXISTS "Org members can delete dispute attachments" ON storage.objects;
+CREATE POLICY "Org members can delete dispute attachments"
+  ON storage.objects FOR DELETE
+  TO authenticated
+  USING (
+    bucket_id = 'invoice-dispute-attachments'
+    AND EXISTS (
+      SELECT 1 FROM invoice_disputes
+      WHERE invoice_disputes.id::text = (storage.foldername(name))[1]
+        AND invoice_disputes.organization_id = get_user_org_id()
+    )
+  );
+
+-- =========================================================================
+-- 5. Collections automation
+-- =========================================================================
+CREATE OR REPLACE FUNCTION invoice_has_active_dispute(
+  p_reference_number text,
+  p_organization_id uuid DEFAULT NULL
+)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1
+    FROM invoice_dispute_invoices di
+    JOIN invoice_disputes d ON d.id = di.dispute_id
+    WHERE di.invoice_reference_number = p_reference_number
+      AND d.status IN ('open', 'investigating', 'awaiting_customer')
+      AND (p_organization_id IS NULL OR d.organization_id = p_organization_id)
+  );
+$$;
+
+GRANT EXECUTE ON FUNCTION invoice_has_active_dispute(text, uuid) TO authenticated, service_role;
@@ -0,0 +1,686 @@
+/*
+  # Auto-Ticket Rule Simulator
+
+  ## Summary
+  Admins can dry-run auto-ticket rules (a saved rule, every active rule, or an
+  unsaved draft from the rule editor) as of a chosen date and see which
+  customers would match, the actual value behind every condition, and how many
+  tickets, invoices and email notifications the run would produce. Nothing is
+  written to collection_tickets.
+
+  The scheduled run and the simulator now share one evaluator, so a dry run
+  reports exactly what `process_auto_ticket_rules()` would do.
+
+  ## New Functions
+  - `auto_ticket_compare(actual, operator, value, value_max)` - applies a rule
+    operator (gt, gte, lt, lte, eq, between) to a measured value
+  - `auto_ticket_open_invoices(customer_id, as_of, organization_id)` - the
+    customer's collectible invoices (type Invoice, so no credit memos) on the
+    as-of date; invoices under an active dispute are left out
+  - `auto_ticket_rule_definition(rule_id)` - a saved rule with its conditions
+    and targets as jsonb, the same shape the rule editor sends for drafts
+  - `evaluate_auto_ticket_condition(customer_id, condition, as_of, organization_id)`
+    - returns `{condition_type, operator, value_numeric, value_numeric_max, actual, met}`
+  - `evaluate_auto_ticket_rule(rule, as_of)` - one row per matching customer
+    with the condition results and the invoices that would go on the ticket.
+    Legacy rules (invoice_only, payment_only, both_and, both_or) are expressed
+    as invoice_age_days / days_since_last_payment conditions.
+  - invoice_age_days and invoice_amount_threshold keep their existing meaning:
+    any open invoice older than / above the value, regardless of operator
+  - `simulate_auto_ticket_rules(as_of, rule_id, draft)` - the dry run
+
+  ## Modified Functions
+  - `process_auto_ticket_rules()` evaluates through `evaluate_auto_ticket_rule`.
+    This also brings back the column names the advanced-conditions rewrite
+    lost (`date`, `assigned_collector_id`, `invoice_reference_number`,
+    `ticket_activity_log`) and stops disputed invoices from being ticketed.
+    The `process-auto-ticket-rules` edge function ("Run Now") calls it too.
+
+  ## Notes
+  - An as-of date replays invoice aging and payment history up to that day.
+    Balances are today's balances and existing tickets are today's tickets;
+    neither is reconstructed historically.
+  - The simulator runs with the caller's permissions, so RLS limits it to the
+    caller's organization.
+*/
+
+CREATE OR REPLACE FUNCTION auto_ticket_compare(
+  p_actual numeric,
+  p_operator text,
+  p_value numeric,
+  p_value_max numeric
+)
+RETURNS boolean
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT CASE
+    WHEN p_actual IS NULL THEN false
+    WHEN p_operator = 'gt' THEN p_actual > COALESCE(p_value, 0)
+    WHEN p_operator = 'gte' THEN p_actual >= COALESCE(p_value, 0)
+    WHEN p_operator = 'lt' THEN p_actual < COALESCE(p_value, 0)
+    WHEN p_operator = 'lte' THEN p_actual <= COALESCE(p_value, 0)
+    WHEN p_operator = 'eq' THEN p_actual = COALESCE(p_value, 0)
+    WHEN p_operator = 'between' THEN p_actual >= COALESCE(p_value, 0) AND p_actual <= COALESCE(p_value_max, p_actual)
+    ELSE false
+  END;
+$$;
+
+CREATE OR REPLACE FUNCTION auto_ticket_open_invoices(
+  p_customer_id text,
+  p_as_of date,
+  p_organization_id uuid DEFAULT NULL
+)
+RETURNS TABLE (
+  reference_number text,
+  type text,
+  invoice_date date,
+  due_date date,
+  balance numeric
+)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT i.reference_number, i.type, i.date, i.due_date::date, i.balance
+  FROM acumatica_invoices i
+  WHERE i.customer = p_customer_id
+    AND i.type = 'Invoice'
+    AND i.status IN ('Open', 'open')
+    AND i.balance > 0
+    AND i.date <= p_as_of
+    AND (p_organization_id IS NULL OR i.organization_id = p_organization_id)
+    AND NOT invoice_has_active_dispute(i.reference_number, i.organization_id);
+$$;
+
+CREATE OR REPLACE FUNCTION auto_ticket_rule_definition(p_rule_id uuid)
+RETURNS jsonb
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT to_jsonb(r) || jsonb_build_object(
+    'conditions', COALESCE((
+      SELECT jsonb_agg(to_jsonb(c) ORDER BY c.created_at)
+      FROM auto_ticket_rule_conditions c
+      WHERE c.rule_id = r.id
+    ), '[]'::jsonb),
+    'targets', COALESCE((
+      SELECT jsonb_agg(to_jsonb(t))
+      FROM auto_ticket_rule_targets t
+      WHERE t.rule_id = r.id
+    ), '[]'::jsonb)
+  )
+  FROM auto_ticket_rules r
+  WHERE r.id = p_rule_id;
+$$;
+
+CREATE OR REPLACE FUNCTION evaluate_auto_ticket_condition(
+  p_customer_id text,
+  p_condition jsonb,
+  p_as_of date DEFAULT CURRENT_DATE,
+  p_organization_id uuid DEFAULT NULL
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+STABLE
+SET search_path = public
+AS $$
+DECLARE
+  v_type text := p_condition->>'condition_type';
+  v_operator text := COALESCE(p_condition->>'operator', 'gt');
+  v_value numeric := NULLIF(p_condition->>'value_numeric', '')::numeric;
+  v_value_max numeric := NULLIF(p_condition->>'value_numeric_max', '')::numeric;
+  v_by_invoice_date boolean := p_condition->>'date_reference' = 'invoice_date';
+  v_month_start date := date_trunc('month', p_as_of)::date;
+  v_actual numeric;
+  v_met boolean := false;
+  v_total int;
+  v_overdue int;
+  v_baseline numeric;
+  v_recent numeric;
+BEGIN
+  CASE v_type
+    WHEN 'balance_threshold' THEN
+      SELECT COALESCE(SUM(o.balance), 0) INTO v_actual
+      FROM auto_ticket_open_invoices(p_customer_id, p_as_of, p_organization_id) o;
+      v_met := auto_ticket_compare(v_actual, v_operator, v_value, v_value_max);
+
+    WHEN 'total_overdue_amount' THEN
+      SELECT COALESCE(SUM(o.balance), 0) INTO v_actual
+      FROM auto_ticket_open_invoices(p_customer_id, p_as_of, p_organization_id) o
+      WHERE o.due_date < p_as_of;
+      v_met := auto_ticket_compare(v_actual, v_operator, v_value, v_value_max);
+
+    WHEN 'invoice_count_overdue' THEN
+      SELECT count(*) INTO v_actual
+      FROM auto_ticket_open_invoices(p_customer_id, p_as_of, p_organization_id) o
+      WHERE CASE WHEN v_by_invoice_date THEN o.invoice_date < p_as_of ELSE o.due_date < p_as_of END;
+      v_met := auto_ticket_compare(v_actual, v_operator, v_value, v_value_max);
+
+    WHEN 'invoice_age_days' THEN
+      -- Legacy age windows count the invoices inside the window. A rule
+      -- condition matches when any invoice is older than the value, whatever
+      -- operator was saved with it.
+      IF (p_condition->>'legacy_window')::boolean THEN
+        SELECT count(*) INTO v_actual
+        FROM auto_ticket_open_invoices(p_customer_id, p_as_of, p_organization_id) o
+        WHERE (p_as_of - CASE WHEN v_by_invoice_date THEN o.invoice_date ELSE o.due_date END)
+          BETWEEN COALESCE(v_value, 0) AND COALESCE(v_value_max, 999999);
+        v_met := v_actual > 0;
+      ELSE
+        v_operator := 'gt';
+        SELECT MAX(p_as_of - CASE WHEN v_by_invoice_date THEN o.invoice_date ELSE o.due_date END) INTO v_actual
+        FROM auto_ticket_open_invoices(p_customer_id, p_as_of, p_organization_id) o;
+        v_met := auto_ticket_compare(v_actual, v_operator, v_value, NULL);
+      END IF;
+
+    WHEN 'days_since_last_payment' THEN
+      SELECT p_as_of - MAX(COALESCE(p.effective_date, p.doc_date, p.created_at)::date) INTO v_actual
+      FROM acumatica_payments p
+      WHERE p.customer_id = p_customer_id
+        AND p.type = 'Payment'
+        AND COALESCE(p.effective_date, p.doc_date, p.created_at)::date <= p_as_of
+        AND (p_organization_id IS NULL OR p.organization_id = p_organization_id);
+      -- A customer who has never paid counts as infinitely overdue.
+      v_met := auto_ticket_compare(COALESCE(v_actual, 999999), v_operator, v_value, v_value_max);
+
+    WHEN 'invoice_amount_threshold' THEN
+      -- Any single invoice above the value, whatever operator was saved
+      v_operator := 'gt';
+      SELECT MAX(o.balance) INTO v_actual
+      FROM auto_ticket_open_invoices(p_customer_id, p_as_of, p_organization_id) o;
+      v_met := auto_ticket_compare(v_actual, v_operator, v_value, NULL);
+
+    WHEN 'overdue_percentage' THEN
+      SELECT count(*), count(*) FILTER (WHERE o.due_date < p_as_of)
+      INTO v_total, v_overdue
+      FROM auto_ticket_open_invoices(p_customer_id, p_as_of, p_organization_id) o;
+      v_actual := CASE WHEN v_total > 0 THEN round(v_overdue::numeric / v_total * 100, 1) ELSE 0 END;
+      v_met := auto_ticket_compare(v_actual, v_operator, v_value, v_value_max);
+
+    WHEN 'payment_amount_drop' THEN
+      -- Average month over the six months before last month, against last month
+      SELECT COALESCE(SUM(p.payment_amount) / NULLIF(count(DISTINCT date_trunc('month', COALESCE(p.effective_date, p.doc_date, p.created_at)::date)), 0), 0)
+      INTO v_baseline
+      FROM acumatica_payments p
+      WHERE p.customer_id = p_customer_id
+        AND p.type = 'Payment'
+        AND COALESCE(p.effective_date, p.doc_date, p.created_at)::date >= p_as_of - interval '7 months'
+        AND COALESCE(p.effective_date, p.doc_date, p.created_at)::date < v_month_start
+        AND (p_organization_id IS NULL OR p.organization_id = p_organization_id);
+
+      SELECT COALESCE(SUM(p.payment_amount), 0) INTO v_recent
+      FROM acumatica_payments p
+      WHERE p.customer_id = p_customer_id
+        AND p.type = 'Payment'
+        AND COALESCE(p.effective_date, p.doc_date, p.created_at)::date >= v_month_start - interval '1 month'
+        AND COALESCE(p.effective_date, p.doc_date, p.created_at)::date < v_month_start
+        AND (p_organization_id IS NULL OR p.organization_id = p_organization_id);
+
+      IF v_baseline > 0 THEN
+        IF v_operator = 'pct_drop' THEN
+          v_actual := round((v_baseline - v_recent) / v_baseline * 100, 1);
+          v_met := v_actual >= COALESCE(v_value, 20);
+        ELSE
+          v_actual := round(v_baseline - v_recent, 2);
+          v_met := auto_ticket_compare(v_actual, v_operator, v_value, v_value_max);
+        END IF;
+      END IF;
+
+    WHEN 'payment_pattern_deviation' THEN
+      SELECT AVG(EXTRACT(day FROM COALESCE(p.effective_date, p.doc_date, p.created_at)::date))
+      INTO v_baseline
+      FROM acumatica_payments p
+      WHERE p.customer_id = p_customer_id
+        AND p.type = 'Payment'
+        AND COALESCE(p.effective_date, p.doc_date, p.created_at)::date >= p_as_of - interval '6 months'
+        AND COALESCE(p.effective_date, p.doc_date, p.created_at)::date < v_month_start
+        AND (p_organization_id IS NULL OR p.organization_id = p_organization_id);
+
+      SELECT EXTRACT(day FROM MAX(COALESCE(p.effective_date, p.doc_date, p.created_at)::date))
+      INTO v_recent
+      FROM acumatica_payments p
+      WHERE p.customer_id = p_customer_id
+        AND p.type = 'Payment'
+        AND COALESCE(p.effective_date, p.doc_date, p.created_at)::date >= v_month_start - interval '1 month'
+        AND COALESCE(p.effective_date, p.doc_date, p.created_at)::date <= p_as_of
+        AND (p_organization_id IS NULL OR p.organization_id = p_organization_id);
+
+      IF v_baseline IS NOT NULL AND v_recent IS NOT NULL THEN
+        v_actual := round(ABS(v_recent - v_baseline), 1);
+        v_met := auto_ticket_compare(v_actual, v_operator, COALESCE(v_value, 3), v_value_max);
+      END IF;
+
+    WHEN 'payment_frequency_change' THEN
+      WITH payment_dates AS (
+        SELECT COALESCE(p.effective_date, p.doc_date, p.created_at)::date AS pdate
+        FROM acumatica_payments p
+        WHERE p.customer_id = p_customer_id
+          AND p.type = 'Payment'
+          AND COALESCE(p.effective_date, p.doc_date, p.created_at)::date >= p_as_of - interval '6 months'
+          AND COALESCE(p.effective_date, p.doc_date, p.created_at)::date <= p_as_of
+          AND (p_organization_id IS NULL OR p.organization_id = p_organization_id)
+      ),
+      intervals AS (
+        SELECT pdate - LAG(pdate) OVER (ORDER BY pdate) AS gap
+        FROM payment_dates
+      )
+      SELECT AVG(gap) INTO v_baseline FROM intervals WHERE gap IS NOT NULL;
+
+      WITH recent_payments AS (
+        SELECT COALESCE(p.effective_date, p.doc_date, p.created_at)::date AS pdate
+        FROM acumatica_payments p
+        WHERE p.customer_id = p_customer_id
+          AND p.type = 'Payment'
+          AND COALESCE(p.effective_date, p.doc_date, p.created_at)::date <= p_as_of
+          AND (p_organization_id IS NULL OR p.organization_id = p_organization_id)
+        ORDER BY pdate DESC
+        LIMIT 2
+      )
+      SELECT MAX(pdate) - MIN(pdate) INTO v_recent FROM recent_payments;
+
+      IF v_baseline > 0 AND v_recent IS NOT NULL THEN
+        v_actual := round(ABS(v_recent - v_baseline), 1);
+        v_met := auto_ticket_compare(v_actual, v_operator, COALESCE(v_value, 7), v_value_max);
+      END IF;
+
+    ELSE
+      v_met := false;
+  END CASE;
+
+  RETURN jsonb_build_object(
+    'condition_type', v_type,
+    'operator', v_operator,
+    'value_numeric', v_value,
+    'value_numeric_max', v_value_max,
+    'actual', v_actual,
+    'met', COALESCE(v_met, false)
+  );
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION evaluate_auto_ticket_rule(
+  p_rule jsonb,
+  p_as_of date DEFAULT CURRENT_DATE
+)
+RETURNS TABLE (
+  customer_id text,
+  condition_results jsonb,
+  invoice_refs text[],
+  open_balance numeric
+)
+LANGUAGE plpgsql
+STABLE
+SET search_path = public
+AS $$
+#variable_conflict use_column
+DECLARE
+  v_org_id uuid := NULLIF(p_rule->>'organization_id', '')::uuid;
+  v_logic text := COALESCE(
+    p_rule->>'condition_logic',
+    CASE WHEN p_rule->>'rule_type' = 'payment_recency' THEN 'payment_only' ELSE 'invoice_only' END
+  );
+  v_advanced boolean := v_logic = 'advanced';
+  v_applies_to text := COALESCE(p_rule->>'applies_to', 'specific');
+  v_rule_customer text := p_rule->>'customer_id';
+  v_min_age int := COALESCE((p_rule->>'min_days_old')::int, 0);
+  v_max_age int := COALESCE((p_rule->>'max_days_old')::int, 999999);
+  v_use_or boolean;
+  v_conditions jsonb := '[]'::jsonb;
+  v_condition jsonb;
+  v_result jsonb;
+  v_results jsonb;
+  v_customer_ids text[];
+  v_cust text;
+  v_all_met boolean;
+  v_any_met boolean;
+  v_payment_met boolean;
+  v_age_window_only boolean;
+  v_refs text[];
+  v_balance numeric;
+BEGIN
+  IF v_advanced THEN
+    v_conditions := COALESCE(p_rule->'conditions', '[]'::jsonb);
+    v_use_or := upper(COALESCE(p_rule->>'logic_operator', 'AND')) = 'OR';
+  ELSE
+    IF v_logic IN ('invoice_only', 'both_and', 'both_or') THEN
+      v_conditions := v_conditions || jsonb_build_object(
+        'condition_type', 'invoice_age_days',
+        'operator', 'between',
+        'value_numeric', v_min_age,
+        'value_numeric_max', v_max_age,
+        'date_reference', 'invoice_date',
+        'legacy_window', true
+      );
+    END IF;
+    IF v_logic IN ('payment_only', 'both_and', 'both_or') THEN
+      v_conditions := v_conditions || jsonb_build_object(
+        'condition_type', 'days_since_last_payment',
+        'operator', 'between',
+        'value_numeric', p_rule->'check_payment_within_days_min',
+        'value_numeric_max', p_rule->'check_payment_within_days_max'
+      );
+    END IF;
+    v_use_or := v_logic = 'both_or';
+  END IF;
+
+  IF jsonb_array_length(v_conditions) = 0 THEN
+    RETURN;
+  END IF;
+
+  -- Customer scope
+  IF v_advanced AND (v_applies_to IN ('all', 'exclude') OR v_rule_customer IN ('__ALL__', '__EXCLUDE__')) THEN
+    SELECT array_agg(DISTINCT i.customer) INTO v_customer_ids
+    FROM acumatica_invoices i
+    WHERE i.status IN ('Open', 'open')
+      AND i.balance > 0
+      AND i.customer IS NOT NULL
+      AND (v_org_id IS NULL OR i.organization_id = v_org_id)
+      AND NOT EXISTS (
+        SELECT 1 FROM jsonb_array_elements(COALESCE(p_rule->'targets', '[]'::jsonb)) t
+        WHERE t->>'target_type' = 'exclude' AND t->>'customer_id' = i.customer
+      );
+  ELSIF v_advanced THEN
+    SELECT array_agg(t->>'customer_id') INTO v_customer_ids
+    FROM jsonb_array_elements(COALESCE(p_rule->'targets', '[]'::jsonb)) t
+    WHERE t->>'target_type' = 'include';
+
+    IF v_customer_ids IS NULL AND v_rule_customer NOT IN ('__ALL__', '__EXCLUDE__', '__MULTI__') THEN
+      v_customer_ids := ARRAY[v_rule_customer];
+    END IF;
+  ELSIF v_rule_customer IS NOT NULL THEN
+    v_customer_ids := ARRAY[v_rule_customer];
+  END IF;
+
+  FOREACH v_cust IN ARRAY COALESCE(v_customer_ids, '{}'::text[])
+  LOOP
+    v_results := '[]'::jsonb;
+    v_all_met := true;
+    v_any_met := false;
+    v_payment_met := false;
+
+    FOR v_condition IN SELECT value FROM jsonb_array_elements(v_conditions)
+    LOOP
+      v_result := evaluate_auto_ticket_condition(v_cust, v_condition, p_as_of, v_org_id);
+      v_results := v_results || v_result;
+
+      IF (v_result->>'met')::boolean THEN
+        v_any_met := true;
+        IF v_condition->>'condition_type' = 'days_since_last_payment' THEN
+          v_payment_met := true;
+        END IF;
+      ELSE
+        v_all_met := false;
+      END IF;
+    END LOOP;
+
+    CONTINUE WHEN NOT (CASE WHEN v_use_or THEN v_any_met ELSE v_all_met END);
+
+    -- Legacy age-window rules only put the invoices inside the window on the
+    -- ticket; payment-based matches take every open invoice.
+    v_age_window_only := NOT v_advanced
+      AND (v_logic IN ('invoice_only', 'both_and') OR (v_logic = 'both_or' AND NOT v_payment_met));
+
+    SELECT array_agg(o.reference_number ORDER BY o.invoice_date), COALESCE(SUM(o.balance), 0)
+    INTO v_refs, v_balance
+    FROM auto_ticket_open_invoices(v_cust, p_as_of, v_org_id) o
+    WHERE NOT v_age_window_only OR (p_as_of - o.invoice_date) BETWEEN v_min_age AND v_max_age;
+
+    CONTINUE WHEN v_refs IS NULL;
+
+    customer_id := v_cust;
+    condition_results := v_results;
+    invoice_refs := v_refs;
+    open_balance := v_balance;
+    RETURN NEXT;
+  END LOOP;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION process_auto_ticket_rules()
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_rule RECORD;
+  v_definition jsonb;
+  v_match RECORD;
+  v_org_id uuid;
+  v_ticket_id uuid;
+  v_ticket_type text;
+  v_customer_name text;
+  v_new_refs text[];
+  v_new_count int;
+  v_processed int := 0;
+  v_tickets_created int := 0;
+  v_tickets_updated int := 0;
+  v_invoices_added int := 0;
+  v_errors text[] := '{}';
+BEGIN
+  FOR v_rule IN
+    SELECT * FROM auto_ticket_rules WHERE active = true
+  LOOP
+    v_processed := v_processed + 1;
+
+    BEGIN
+      v_definition := auto_ticket_rule_definition(v_rule.id);
+      v_org_id := NULLIF(v_definition->>'organization_id', '')::uuid;
+
+      SELECT name INTO v_ticket_type FROM ticket_type_options WHERE id = v_rule.ticket_type_id;
+
+      FOR v_match IN
+        SELECT * FROM evaluate_auto_ticket_rule(v_definition, CURRENT_DATE)
+      LOOP
+        SELECT ct.id INTO v_ticket_id
+        FROM collection_tickets ct
+        WHERE ct.customer_id = v_match.customer_id
+          AND ct.assigned_collector_id = v_rule.assigned_collector_id
+          AND ct.status <> 'closed'
+        ORDER BY ct.created_at DESC
+        LIMIT 1;
+
+        IF v_ticket_id IS NOT NULL THEN
+          SELECT array_agg(ref) INTO v_new_refs
+          FROM unnest(v_match.invoice_refs) AS ref
+          WHERE NOT EXISTS (
+            SELECT 1 FROM ticket_invoices ti
+            WHERE ti.ticket_id = v_ticket_id AND ti.invoice_reference_number = ref
+          );
+          v_new_count := COALESCE(array_length(v_new_refs, 1), 0);
+
+          IF v_new_count > 0 THEN
+            INSERT INTO ticket_invoices (ticket_id, invoice_reference_number, added_by)
+            SELECT v_ticket_id, ref, v_rule.assigned_collector_id
+            FROM unnest(v_new_refs) AS ref;
+
+            INSERT INTO ticket_activity_log (ticket_id, created_by, activity_type, description)
+            VALUES (
+              v_ticket_id,
+              v_rule.assigned_collector_id,
+              'invoice_added',
+              'Auto-rule "' || COALESCE(v_rule.rule_name, 'Unnamed') || '" added ' || v_new_count || ' invoice(s)'
+            );
+
+            v_tickets_updated := v_tickets_updated + 1;
+            v_invoices_added := v_invoices_added + v_new_count;
+          END IF;
+        ELSE
+          SELECT c.customer_name INTO v_customer_name
+          FROM acumatica_customers c
+          WHERE c.customer_id = v_match.customer_id
+            AND (v_org_id IS NULL OR c.organization_id = v_org_id)
+          LIMIT 1;
+
+          INSERT INTO collection_tickets (
+            organization_id,
+            customer_id,
+            customer_name,
+            assigned_collector_id,
+            status,
+            ticket_type,
+            created_by,
+            priority
+          )
+          VALUES (
+            v_org_id,
+            v_match.customer_id,
+            COALESCE(v_customer_name, v_match.customer_id),
+            v_rule.assigned_collector_id,
+            'open',
+            COALESCE(v_ticket_type, 'overdue payment'),
+            v_rule.assigned_collector_id,
+            COALESCE(v_rule.priority, 'medium')
+          )
+          RETURNING id INTO v_ticket_id;
+
+          INSERT INTO ticket_invoices (ticket_id, invoice_reference_number, added_by)
+          SELECT v_ticket_id, ref, v_rule.assigned_collector_id
+          FROM unnest(v_match.invoice_refs) AS ref;
+
+          INSERT INTO ticket_activity_log (ticket_id, created_by, activity_type, description)
+          VALUES (
+            v_ticket_id,
+            v_rule.assigned_collector_id,
+            'created',
+            'Auto-created by rule "' || COALESCE(v_rule.rule_name, 'Unnamed') || '" with ' || array_length(v_match.invoice_refs, 1) || ' invoice(s)'
+          );
+
+          v_tickets_created := v_tickets_created + 1;
+          v_invoices_added := v_invoices_added + array_length(v_match.invoice_refs, 1);
+        END IF;
+      END LOOP;
+
+    EXCEPTION WHEN OTHERS THEN
+      v_errors := array_append(v_errors, 'Rule ' || v_rule.id || ': ' || SQLERRM);
+    END;
+  END LOOP;
+
+  RETURN jsonb_build_object(
+    'processed', v_processed,
+    'tickets_created', v_tickets_created,
+    'tickets_updated', v_tickets_updated,
+    'invoices_added', v_invoices_added,
+    'errors', to_jsonb(v_errors)
+  );
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION process_auto_ticket_rules() TO postgres, service_role;
+
+CREATE OR REPLACE FUNCTION simulate_auto_ticket_rules(
+  p_as_of date DEFAULT CURRENT_DATE,
+  p_rule_id uuid DEFAULT NULL,
+  p_draft jsonb DEFAULT NULL
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+STABLE
+SET search_path = public
+AS $$
+DECLARE
+  v_definition jsonb;
+  v_match RECORD;
+  v_ticket_id uuid;
+  v_new_count int;
+  v_matches jsonb;
+  v_rules jsonb := '[]'::jsonb;
+  v_tickets_created int;
+  v_tickets_updated int;
+  v_invoices_added int;
+  v_emails_per_match int;
+BEGIN
+  FOR v_definition IN
+    SELECT p_draft || jsonb_build_object(
+      'organization_id', COALESCE(p_draft->>'organization_id', get_user_org_id()::text)
+    )
+    WHERE p_draft IS NOT NULL
+    UNION ALL
+    SELECT auto_ticket_rule_definition(r.id)
+    FROM auto_ticket_rules r
+    WHERE p_draft IS NULL
+      AND (r.id = p_rule_id OR (p_rule_id IS NULL AND r.active = true))
+  LOOP
+    v_matches := '[]'::jsonb;
+    v_tickets_created := 0;
+    v_tickets_updated := 0;
+    v_invoices_added := 0;
+
+    -- Recipients configured on the rule plus the admin copy, per matched customer
+    v_emails_per_match := CASE
+      WHEN v_definition->>'action_type' IN ('email_only', 'ticket_and_email') THEN
+        CASE WHEN jsonb_typeof(v_definition->'email_recipients') = 'array'
+          THEN jsonb_array_length(v_definition->'email_recipients') ELSE 0 END
+        + CASE WHEN (v_definition->>'notify_admin')::boolean THEN 1 ELSE 0 END
+      ELSE 0
+    END;
+
+    FOR v_match IN
+      SELECT * FROM evaluate_auto_ticket_rule(v_definition, p_as_of)
+    LOOP
+      SELECT ct.id INTO v_ticket_id
+      FROM collection_tickets ct
+      WHERE ct.customer_id = v_match.customer_id
+        AND ct.assigned_collector_id = NULLIF(v_definition->>'assigned_collector_id', '')::uuid
+        AND ct.status <> 'closed'
+      ORDER BY ct.created_at DESC
+      LIMIT 1;
+
+      IF v_ticket_id IS NULL THEN
+        v_new_count := array_length(v_match.invoice_refs, 1);
+        v_tickets_created := v_tickets_created + 1;
+      ELSE
+        SELECT count(*) INTO v_new_count
+        FROM unnest(v_match.invoice_refs) AS ref
+        WHERE NOT EXISTS (
+          SELECT 1 FROM ticket_invoices ti
+          WHERE ti.ticket_id = v_ticket_id AND ti.invoice_reference_number = ref
+        );
+        IF v_new_count > 0 THEN
+          v_tickets_updated := v_tickets_updated + 1;
+        END IF;
+      END IF;
+
+      v_invoices_added := v_invoices_added + v_new_count;
+
+      v_matches := v_matches || jsonb_build_object(
+        'customer_id', v_match.customer_id,
+        'customer_name', (
+          SELECT c.customer_name FROM acumatica_customers c
+          WHERE c.customer_id = v_match.customer_id
+          LIMIT 1
+        ),
+        'conditions', v_match.condition_results,
+        'invoice_count', array_length(v_match.invoice_refs, 1),
+        'open_balance', v_match.open_balance,
+        'ticket_action', CASE
+          WHEN v_ticket_id IS NULL THEN 'create'
+          WHEN v_new_count > 0 THEN 'update'
+          ELSE 'none'
+        END,
+        'existing_ticket_id', v_ticket_id,
+        'new_invoice_count', v_new_count
+      );
+    END LOOP;
+
+    v_rules := v_rules || jsonb_build_object(
+      'rule_id', v_definition->>'id',
+      'rule_name', COALESCE(NULLIF(v_definition->>'rule_name', ''), 'Unnamed rule'),
+      'is_draft', p_draft IS NOT NULL,
+      'action_type', v_definition->>'action_type',
+      'customers_matched', jsonb_array_length(v_matches),
+      'tickets_created', v_tickets_created,
+      'tickets_updated', v_tickets_updated,
+      'invoices_added', v_invoices_added,
+      'emails', v_emails_per_match * jsonb_array_length(v_matches),
+      'matches', v_matches
+    );
+  END LOOP;
+
+  RETURN jsonb_build_object('as_of', p_as_of, 'rules', v_rules);
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION simulate_auto_ticket_rules(date, uuid, jsonb) TO authenticated;
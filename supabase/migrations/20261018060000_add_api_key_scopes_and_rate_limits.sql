@@ -0,0 +1,106 @@
+/*
+  # API Key Scopes, Restrictions and Rate Limits
+
+  ## Summary
+  Keys issued from API Key Management for `gpt-data-api` used to grant read
+  access to everything. Each key now carries:
+  - a list of scopes; read scopes cover the GET routes and write scopes cover
+    the new POST/PATCH routes
+  - optional customer and collector restrictions that narrow every route to
+    the listed customers, or to the customers assigned to the listed collectors
+  - a per-minute request limit
+
+  ## Modified Tables
+
+  ### `api_keys`
+  - `scopes` text[]: read:customers, read:invoices, read:payments,
+    read:tickets, read:analytics, read:emails, write:tickets, write:notes,
+    write:invoices. Existing keys keep all read scopes and get no write scopes.
+  - `allowed_customer_ids` text[]: NULL means all customers
+  - `allowed_collector_ids` uuid[]: NULL means all collectors
+  - `rate_limit_per_minute` integer, default 60
+
+  ## New Tables
+
+  ### `api_key_rate_windows`
+  Request counters per key and minute, maintained by `consume_api_key_request`.
+  Windows older than an hour are pruned as the key is used.
+
+  ## New Functions
+  - `consume_api_key_request(key_id)` - counts one request against the key's
+    current minute and returns the new count, so the edge function can
+    compare it to `rate_limit_per_minute`
+
+  ## Security
+  - RLS is enabled on `api_key_rate_windows` without policies; only the
+    service role (the edge function) reads or writes it
+  - `consume_api_key_request` is executable by the service role only
+*/
+
+ALTER TABLE api_keys
+  ADD COLUMN IF NOT EXISTS scopes text[] NOT NULL DEFAULT ARRAY[
+    'read:customers', 'read:invoices', 'read:payments',
+    'read:tickets', 'read:analytics', 'read:emails'
+  ]::text[],
+  ADD COLUMN IF NOT EXISTS allowed_customer_ids text[],
+  ADD COLUMN IF NOT EXISTS allowed_collector_ids uuid[],
+  ADD COLUMN IF NOT EXISTS rate_limit_per_minute integer NOT NULL DEFAULT 60;
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_constraint WHERE conname = 'api_keys_scopes_check'
+  ) THEN
+    ALTER TABLE api_keys ADD CONSTRAINT api_keys_scopes_check CHECK (
+      scopes <@ ARRAY[
+        'read:customers', 'read:invoices', 'read:payments',
+        'read:tickets', 'read:analytics', 'read:emails',
+        'write:tickets', 'write:notes', 'write:invoices'
+      ]::text[]
+    );
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_constraint WHERE conname = 'api_keys_rate_limit_check'
+  ) THEN
+    ALTER TABLE api_keys ADD CONSTRAINT api_keys_rate_limit_check
+      CHECK (rate_limit_per_minute BETWEEN 1 AND 10000);
+  END IF;
+END;
+$$;
+
+CREATE TABLE IF NOT EXISTS api_key_rate_windows (
+  api_key_id uuid NOT NULL REFERENCES api_keys(id) ON DELETE CASCADE,
+  window_start timestamptz NOT NULL,
+  request_count integer NOT NULL DEFAULT 0,
+  PRIMARY KEY (api_key_id, window_start)
+);
+
+ALTER TABLE api_key_rate_windows ENABLE ROW LEVEL SECURITY;
+
+CREATE OR REPLACE FUNCTION consume_api_key_request(p_key_id uuid)
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_window timestamptz := date_trunc('minute', now());
+  v_count integer;
+BEGIN
+  INSERT INTO api_key_rate_windows (api_key_id, window_start, request_count)
+  VALUES (p_key_id, v_window, 1)
+  ON CONFLICT (api_key_id, window_start)
+  DO UPDATE SET request_count = api_key_rate_windows.request_count + 1
+  RETURNING request_count INTO v_count;
+
+  DELETE FROM api_key_rate_windows
+  WHERE api_key_id = p_key_id
+    AND window_start < v_window - interval '1 hour';
+
+  RETURN v_count;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION consume_api_key_request(uuid) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION consume_api_key_request(uuid) TO service_role;
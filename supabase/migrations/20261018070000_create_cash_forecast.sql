@@ -0,0 +1,499 @@
+/*
+  # 13-Week Cash Receipts Forecast
+
+  ## Summary
+  Projects expected collections per week for the next 13 weeks from open
+  invoices in `acumatica_invoices`. Each open invoice gets an expected
+  payment date, taken from the first source available:
+  1. `promise` - the promise date of an open ticket the invoice is attached
+     to, or the promise date recorded on the invoice itself
+  2. `history` - the due date shifted by the customer's historical
+     days-to-pay (amount-weighted days between due date and application
+     date in `payment_invoice_applications` over the last 12 months)
+  3. `due_date` - the due date as-is for customers without payment history
+
+  Promise dates that have already passed are treated as broken and ignored.
+  Expected dates that have already passed roll into the current week.
+  Invoices expected more than 90 days ago are reported as `stale` and left
+  out of the weekly buckets. Invoices under an open dispute are excluded.
+
+  To compare forecast against actual once a week closes, the forecast for
+  the current week is captured every Monday into `cash_forecast_snapshots`
+  (and once when this migration runs).
+  Actual receipts are payments and prepayments from `acumatica_payments` by
+  effective date.
+
+  ## New Tables
+
+  ### `cash_forecast_snapshots`
+  - `forecast_week` date: Monday of the week the forecast covers
+  - `customer_id`, `customer_name`, `collector_id`
+  - `expected_amount`, `promised_amount`, `invoice_count`
+  - `captured_at`
+  One row per organization, week and customer.
+
+  ## New Functions
+  - `customer_days_to_pay(organization_id, as_of)` - historical days late per
+    customer
+  - `cash_forecast_invoices(organization_id, as_of)` - every open invoice with
+    its expected date and basis
+  - `get_cash_forecast(as_of, history_weeks)` - weekly totals plus sparse
+    customer/week rows for the UI (past weeks with forecast vs actual)
+  - `get_cash_forecast_customer_invoices(customer_id, as_of)` - invoice-level
+    drill-down for one customer
+  - `capture_cash_forecast_snapshots()` - stores the current week's forecast
+    for every organization; scheduled Mondays at 05:00 UTC
+
+  ## Security
+  - RLS enabled on `cash_forecast_snapshots`; org members can read their own
+    organization's rows, writes happen in `capture_cash_forecast_snapshots`
+  - The capture function is executable by the service role only
+*/
+
+-- =========================================================================
+-- 1. Snapshot table
+-- =========================================================================
+CREATE TABLE IF NOT EXISTS cash_forecast_snapshots (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  organization_id uuid NOT NULL REFERENCES organizations(id) ON DELETE CASCADE,
+  forecast_week date NOT NULL,
+  customer_id text NOT NULL,
+  customer_name text,
+  collector_id uuid REFERENCES user_profiles(id) ON DELETE SET NULL,
+  expected_amount numeric(18, 2) NOT NULL DEFAULT 0,
+  promised_amount numeric(18, 2) NOT NULL DEFAULT 0,
+  invoice_count integer NOT NULL DEFAULT 0,
+  captured_at timestamptz NOT NULL DEFAULT now(),
+  UNIQUE (organization_id, forecast_week, customer_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_cash_forecast_snapshots_week
+  ON cash_forecast_snapshots(organization_id, forecast_week);
+
+ALTER TABLE cash_forecast_snapshots ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Org members can view cash forecast snapshots" ON cash_forecast_snapshots;
+CREATE POLICY "Org members can view cash forecast snapshots"
+  ON cash_forecast_snapshots FOR SELECT
+  TO authenticated
+  USING (organization_id = get_user_org_id());
+
+-- =========================================================================
+-- 2. Forecast building blocks
+-- =========================================================================
+CREATE OR REPLACE FUNCTION customer_days_to_pay(
+  p_organization_id uuid,
+  p_as_of date DEFAULT CURRENT_DATE
+)
+RETURNS TABLE (
+  customer_id text,
+  avg_days_late numeric,
+  paid_invoices integer
+)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT
+    pia.customer_id,
+    ROUND(
+      SUM(pia.amount_paid * (pia.application_date::date - pia.due_date::date))
+        / NULLIF(SUM(pia.amount_paid), 0),
+      1
+    ) AS avg_days_late,
+    COUNT(DISTINCT pia.invoice_reference_number)::integer AS paid_invoices
+  FROM payment_invoice_applications pia
+  JOIN acumatica_payments p
+    ON p.id = pia.payment_id
+   AND p.organization_id = p_organization_id
+  WHERE pia.doc_type = 'Invoice'
+    AND pia.amount_paid > 0
+    AND pia.application_date IS NOT NULL
+    AND pia.due_date IS NOT NULL
+    AND pia.application_date::date > p_as_of - 365
+    AND pia.application_date::date <= p_as_of
+  GROUP BY pia.customer_id;
+$$;
+
+CREATE OR REPLACE FUNCTION cash_forecast_invoices(
+  p_organization_id uuid,
+  p_as_of date DEFAULT CURRENT_DATE
+)
+RETURNS TABLE (
+  reference_number text,
+  customer_id text,
+  customer_name text,
+  collector_id uuid,
+  collector_name text,
+  invoice_date date,
+  due_date date,
+  balance numeric,
+  promise_date date,
+  avg_days_late numeric,
+  basis text,
+  expected_date date,
+  forecast_week date
+)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  WITH history AS (
+    SELECT * FROM customer_days_to_pay(p_organization_id, p_as_of)
+  ),
+  collectors AS (
+    SELECT DISTINCT ON (cca.customer_id)
+      cca.customer_id,
+      cca.assigned_collector_id,
+      COALESCE(up.full_name, up.email) AS collector_name
+    FROM collector_customer_assignments cca
+    LEFT JOIN user_profiles up ON up.id = cca.assigned_collector_id
+    ORDER BY cca.customer_id, cca.assigned_at DESC
+  ),
+  open_invoices AS (
+    SELECT
+      i.reference_number,
+      i.customer AS customer_id,
+      COALESCE(c.customer_name, i.customer_name, i.customer) AS customer_name,
+      i.date AS invoice_date,
+      COALESCE(i.due_date::date, i.date) AS due_date,
+      i.balance,
+      COALESCE(
+        (
+          SELECT MAX(t.promise_date)::date
+          FROM ticket_invoices ti
+          JOIN collection_tickets t ON t.id = ti.ticket_id
+          WHERE ti.invoice_reference_number = i.reference_number
+            AND t.status <> 'closed'
+            AND t.promise_date IS NOT NULL
+        ),
+        i.promise_date::date
+      ) AS promise_date
+    FROM acumatica_invoices i
+    LEFT JOIN acumatica_customers c
+      ON c.customer_id = i.customer
+     AND c.organization_id = i.organization_id
+    WHERE i.organization_id = p_organization_id
+      AND i.type IN ('Invoice', 'Debit Memo')
+      AND i.status IN ('Open', 'open')
+      AND i.balance > 0
+      AND NOT EXISTS (
+        SELECT 1
+        FROM invoice_dispute_invoices di
+        JOIN invoice_disputes d ON d.id = di.dispute_id
+        WHERE di.invoice_reference_number = i.reference_number
+          AND d.status IN ('open', 'investigating', 'awaiting_customer')
+      )
+  ),
+  dated AS (
+    SELECT
+      oi.*,
+      h.avg_days_late,
+      CASE
+        WHEN oi.promise_date IS NOT NULL AND oi.promise_date >= p_as_of THEN 'promise'
+        WHEN h.avg_days_late IS NOT NULL THEN 'history'
+        ELSE 'due_date'
+      END AS basis,
+      CASE
+        WHEN oi.promise_date IS NOT NULL AND oi.promise_date >= p_as_of THEN oi.promise_date
+        WHEN h.avg_days_late IS NOT NULL THEN oi.due_date + GREATEST(ROUND(h.avg_days_late)::integer, 0)
+        ELSE oi.due_date
+      END AS raw_expected_date
+    FROM open_invoices oi
+    LEFT JOIN history h ON h.customer_id = oi.customer_id
+  )
+  SELECT
+    d.reference_number,
+    d.customer_id,
+    d.customer_name,
+    col.assigned_collector_id,
+    col.collector_name,
+    d.invoice_date,
+    d.due_date,
+    d.balance,
+    d.promise_date,
+    d.avg_days_late,
+    CASE WHEN d.raw_expected_date < p_as_of - 90 THEN 'stale' ELSE d.basis END,
+    GREATEST(d.raw_expected_date, p_as_of),
+    CASE
+      WHEN d.raw_expected_date < p_as_of - 90 THEN NULL
+      ELSE date_trunc('week', GREATEST(d.raw_expected_date, p_as_of))::date
+    END
+  FROM dated d
+  LEFT JOIN collectors col ON col.customer_id = d.customer_id;
+$$;
+
+-- =========================================================================
+-- 3. UI entry points
+-- =========================================================================
+CREATE OR REPLACE FUNCTION get_cash_forecast(
+  p_as_of date DEFAULT CURRENT_DATE,
+  p_history_weeks integer DEFAULT 8
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_org_id uuid := get_user_org_id();
+  v_current_week date := date_trunc('week', p_as_of)::date;
+  v_first_week date := v_current_week - (GREATEST(p_history_weeks, 0) * 7);
+  v_last_week date := v_current_week + 12 * 7;
+  v_result jsonb;
+BEGIN
+  IF v_org_id IS NULL THEN
+    RAISE EXCEPTION 'No organization for current user';
+  END IF;
+
+  WITH lines AS (
+    SELECT * FROM cash_forecast_invoices(v_org_id, p_as_of)
+  ),
+  forecast AS (
+    SELECT
+      forecast_week AS week_start,
+      customer_id,
+      MAX(customer_name) AS customer_name,
+      (array_agg(collector_id))[1] AS collector_id,
+      SUM(balance) AS expected,
+      SUM(balance) FILTER (WHERE basis = 'promise') AS promised,
+      SUM(balance) FILTER (WHERE basis = 'history') AS historical,
+      SUM(balance) FILTER (WHERE basis = 'due_date') AS due,
+      COUNT(*) AS invoice_count
+    FROM lines
+    WHERE forecast_week IS NOT NULL
+      AND forecast_week <= v_last_week
+    GROUP BY forecast_week, customer_id
+  ),
+  actuals AS (
+    SELECT
+      date_trunc('week', p.effective_date)::date AS week_start,
+      p.customer_id,
+      MAX(COALESCE(c.customer_name, p.customer_name, p.customer_id)) AS customer_name,
+      SUM(p.payment_amount) AS actual
+    FROM acumatica_payments p
+    LEFT JOIN acumatica_customers c
+      ON c.customer_id = p.customer_id
+     AND c.organization_id = p.organization_id
+    WHERE p.organization_id = v_org_id
+      AND p.type IN ('Payment', 'Prepayment')
+      AND p.status NOT IN ('Voided', 'Cancelled')
+      AND p.effective_date >= v_first_week
+      AND p.effective_date < v_current_week
+    GROUP BY 1, 2
+  ),
+  snapshots AS (
+    SELECT
+      s.forecast_week AS week_start,
+      s.customer_id,
+      s.customer_name,
+      s.collector_id,
+      s.expected_amount AS forecast
+    FROM cash_forecast_snapshots s
+    WHERE s.organization_id = v_org_id
+      AND s.forecast_week >= v_first_week
+      AND s.forecast_week < v_current_week
+  ),
+  past AS (
+    SELECT
+      COALESCE(a.week_start, s.week_start) AS week_start,
+      COALESCE(a.customer_id, s.customer_id) AS customer_id,
+      COALESCE(s.customer_name, a.customer_name) AS customer_name,
+      COALESCE(s.collector_id, cca.assigned_collector_id) AS collector_id,
+      s.forecast,
+      COALESCE(a.actual, 0) AS actual
+    FROM actuals a
+    FULL JOIN snapshots s
+      ON s.week_start = a.week_start
+     AND s.customer_id = a.customer_id
+    LEFT JOIN LATERAL (
+      SELECT assigned_collector_id
+      FROM collector_customer_assignments
+      WHERE customer_id = COALESCE(a.customer_id, s.customer_id)
+      ORDER BY assigned_at DESC
+      LIMIT 1
+    ) cca ON true
+  ),
+  combined AS (
+    SELECT
+      f.week_start, f.customer_id, f.customer_name, f.collector_id,
+      f.expected, f.promised, f.historical, f.due, f.invoice_count,
+      NULL::numeric AS forecast, NULL::numeric AS actual
+    FROM forecast f
+    UNION ALL
+    SELECT
+      p.week_start, p.customer_id, p.customer_name, p.collector_id,
+      NULL, NULL, NULL, NULL, NULL,
+      p.forecast, p.actual
+    FROM past p
+  ),
+  weeks AS (
+    SELECT
+      gs::date AS week_start,
+      COALESCE(SUM(r.expected), 0) AS expected,
+      COALESCE(SUM(r.promised), 0) AS promised,
+      COALESCE(SUM(r.historical), 0) AS historical,
+      COALESCE(SUM(r.due), 0) AS due,
+      SUM(r.forecast) AS forecast,
+      COALESCE(SUM(r.actual), 0) AS actual
+    FROM generate_series(v_first_week, v_last_week, interval '1 week') gs
+    LEFT JOIN combined r ON r.week_start = gs::date
+    GROUP BY gs
+  )
+  SELECT jsonb_build_object(
+    'as_of', p_as_of,
+    'current_week', v_current_week,
+    'weeks', (
+      SELECT jsonb_agg(jsonb_build_object(
+        'week_start', w.week_start,
+        'closed', w.week_start < v_current_week,
+        'expected', w.expected,
+        'promised', w.promised,
+        'historical', w.historical,
+        'due', w.due,
+        'forecast', w.forecast,
+        'actual', CASE WHEN w.week_start < v_current_week THEN w.actual END
+      ) ORDER BY w.week_start)
+      FROM weeks w
+    ),
+    'rows', COALESCE((
+      SELECT jsonb_agg(jsonb_build_object(
+        'week_start', r.week_start,
+        'customer_id', r.customer_id,
+        'customer_name', r.customer_name,
+        'collector_id', r.collector_id,
+        'collector_name', COALESCE(up.full_name, up.email),
+        'expected', r.expected,
+        'promised', r.promised,
+        'invoice_count', r.invoice_count,
+        'forecast', r.forecast,
+        'actual', r.actual
+      ))
+      FROM combined r
+      LEFT JOIN user_profiles up ON up.id = r.collector_id
+    ), '[]'::jsonb),
+    'stale', (
+      SELECT jsonb_build_object(
+        'amount', COALESCE(SUM(balance), 0),
+        'invoice_count', COUNT(*)
+      )
+      FROM lines
+      WHERE basis = 'stale'
+    ),
+    'beyond_horizon', (
+      SELECT COALESCE(SUM(balance), 0)
+      FROM lines
+      WHERE forecast_week > v_last_week
+    )
+  )
+  INTO v_result;
+
+  RETURN v_result;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION get_cash_forecast_customer_invoices(
+  p_customer_id text,
+  p_as_of date DEFAULT CURRENT_DATE
+)
+RETURNS TABLE (
+  reference_number text,
+  invoice_date date,
+  due_date date,
+  balance numeric,
+  promise_date date,
+  avg_days_late numeric,
+  basis text,
+  expected_date date,
+  forecast_week date
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT
+    l.reference_number, l.invoice_date, l.due_date, l.balance, l.promise_date,
+    l.avg_days_late, l.basis, l.expected_date, l.forecast_week
+  FROM cash_forecast_invoices(get_user_org_id(), p_as_of) l
+  WHERE l.customer_id = p_customer_id
+  ORDER BY l.expected_date, l.reference_number;
+$$;
+
+-- =========================================================================
+-- 4. Weekly snapshot
+-- =========================================================================
+CREATE OR REPLACE FUNCTION capture_cash_forecast_snapshots()
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_week date := date_trunc('week', CURRENT_DATE)::date;
+  v_org record;
+  v_count integer;
+  v_total integer := 0;
+BEGIN
+  FOR v_org IN
+    SELECT DISTINCT organization_id
+    FROM acumatica_invoices
+    WHERE organization_id IS NOT NULL
+  LOOP
+    INSERT INTO cash_forecast_snapshots (
+      organization_id, forecast_week, customer_id, customer_name, collector_id,
+      expected_amount, promised_amount, invoice_count, captured_at
+    )
+    SELECT
+      v_org.organization_id,
+      v_week,
+      l.customer_id,
+      MAX(l.customer_name),
+      (array_agg(l.collector_id))[1],
+      SUM(l.balance),
+      COALESCE(SUM(l.balance) FILTER (WHERE l.basis = 'promise'), 0),
+      COUNT(*)
+    FROM cash_forecast_invoices(v_org.organization_id, CURRENT_DATE) l
+    WHERE l.forecast_week = v_week
+    GROUP BY l.customer_id
+    ON CONFLICT (organization_id, forecast_week, customer_id) DO UPDATE SET
+      customer_name = EXCLUDED.customer_name,
+      collector_id = EXCLUDED.collector_id,
+      expected_amount = EXCLUDED.expected_amount,
+      promised_amount = EXCLUDED.promised_amount,
+      invoice_count = EXCLUDED.invoice_count,
+      captured_at = now();
+
+    GET DIAGNOSTICS v_count = ROW_COUNT;
+    v_total := v_total + v_count;
+  END LOOP;
+
+  RETURN v_total;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION customer_days_to_pay(uuid, date) FROM PUBLIC, anon, authenticated;
+REVOKE ALL ON FUNCTION cash_forecast_invoices(uuid, date) FROM PUBLIC, anon, authenticated;
+REVOKE ALL ON FUNCTION capture_cash_forecast_snapshots() FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION capture_cash_forecast_snapshots() TO service_role;
+
+REVOKE ALL ON FUNCTION get_cash_forecast(date, integer) FROM PUBLIC, anon;
+REVOKE ALL ON FUNCTION get_cash_forecast_customer_invoices(text, date) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION get_cash_forecast(date, integer) TO authenticated;
+GRANT EXECUTE ON FUNCTION get_cash_forecast_customer_invoices(text, date) TO authenticated;
+
+DO $$
+BEGIN
+  IF EXISTS (SELECT 1 FROM cron.job WHERE jobname = 'capture-cash-forecast-snapshots') THEN
+    PERFORM cron.unschedule('capture-cash-forecast-snapshots');
+  END IF;
+END $$;
+
+SELECT cron.schedule(
+  'capture-cash-forecast-snapshots',
+  '0 5 * * 1',
+  'SELECT capture_cash_forecast_snapshots();'
+);
+
+SELECT capture_cash_forecast_snapshots();
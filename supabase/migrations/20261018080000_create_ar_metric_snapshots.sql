@@ -0,0 +1,372 @@
+/*
+  # AR Metric Snapshots (DSO, CEI, ADD, Promise-Kept Rate, Touch-to-Payment)
+
+  ## Summary
+  Computes the standard receivables KPIs once a day for every organization
+  and for every collector (over the customers assigned to them in
+  `collector_customer_assignments`), and keeps the results as history so
+  trends can be charted. The `capture-ar-metrics` edge function calls
+  `capture_ar_metric_snapshots()` daily at 06:30 UTC.
+
+  ## Metric definitions (as of the snapshot date D)
+  - `ar_balance`: open balance of open invoices and debit memos
+  - `overdue_balance`: part of `ar_balance` past its due date
+  - `credit_sales`: amount of invoices and debit memos dated in the 90 days
+    up to D
+  - `dso` = ar_balance / credit_sales * 90
+  - `add_days` (Average Days Delinquent) = DSO - best possible DSO
+    = overdue_balance / credit_sales * 90
+  - `collections`: payments applied to invoices in the 30 days up to D
+  - `cei` (Collection Effectiveness Index, %) = collections /
+    (collections + overdue_balance) * 100, i.e. beginning receivables plus
+    credit sales minus ending receivables, over the same minus ending current
+    receivables, rolled forward from the ending balances
+  - `promise_kept_rate` (%): ticket promise dates that fell in the 90 days
+    up to D (after a 3 day grace period) where a payment was applied to the
+    ticket's invoices, or to the customer when the ticket has no invoices,
+    between the ticket's creation and the promise date plus grace
+  - `touch_to_payment_days`: average days between a payment in the last 90
+    days and the most recent collector touch on that customer (ticket note or
+    status change, invoice status change) within the 60 days before it
+
+  For collector rows, promises count tickets assigned to the collector and
+  touches count only the collector's own actions.
+
+  ## New Tables
+
+  ### `ar_metric_snapshots`
+  One row per organization, day and collector (`collector_id` NULL for the
+  organization-wide row) holding the values above plus the counts behind
+  them.
+
+  ## New Functions
+  - `compute_ar_metrics(organization_id, customer_ids, collector_id)`
+  - `capture_ar_metric_snapshots()` - replaces today's snapshots for every
+    organization; service role only
+  - `trigger_capture_ar_metrics()` - cron entry point calling the edge
+    function
+
+  ## Security
+  - RLS enabled; org members read their organization's snapshots, super
+    admins read all organizations
+*/
+
+-- =========================================================================
+-- 1. Snapshot table
+-- =========================================================================
+CREATE TABLE IF NOT EXISTS ar_metric_snapshots (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  organization_id uuid NOT NULL REFERENCES organizations(id) ON DELETE CASCADE,
+  collector_id uuid REFERENCES user_profiles(id) ON DELETE CASCADE,
+  snapshot_date date NOT NULL,
+  customer_count integer NOT NULL DEFAULT 0,
+  ar_balance numeric(18, 2) NOT NULL DEFAULT 0,
+  overdue_balance numeric(18, 2) NOT NULL DEFAULT 0,
+  credit_sales numeric(18, 2) NOT NULL DEFAULT 0,
+  collections numeric(18, 2) NOT NULL DEFAULT 0,
+  dso numeric(10, 1),
+  add_days numeric(10, 1),
+  cei numeric(6, 1),
+  promises_due integer NOT NULL DEFAULT 0,
+  promises_kept integer NOT NULL DEFAULT 0,
+  promise_kept_rate numeric(6, 1),
+  touched_payments integer NOT NULL DEFAULT 0,
+  touch_to_payment_days numeric(10, 1),
+  captured_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_ar_metric_snapshots_unique
+  ON ar_metric_snapshots(
+    organization_id,
+    snapshot_date,
+    COALESCE(collector_id, '00000000-0000-0000-0000-000000000000'::uuid)
+  );
+
+CREATE INDEX IF NOT EXISTS idx_ar_metric_snapshots_collector
+  ON ar_metric_snapshots(collector_id, snapshot_date DESC)
+  WHERE collector_id IS NOT NULL;
+
+ALTER TABLE ar_metric_snapshots ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Org members can view AR metric snapshots" ON ar_metric_snapshots;
+CREATE POLICY "Org members can view AR metric snapshots"
+  ON ar_metric_snapshots FOR SELECT
+  TO authenticated
+  USING (organization_id = get_user_org_id());
+
+DROP POLICY IF EXISTS "Super admins can view all AR metric snapshots" ON ar_metric_snapshots;
+CREATE POLICY "Super admins can view all AR metric snapshots"
+  ON ar_metric_snapshots FOR SELECT
+  TO authenticated
+  USING (is_super_admin());
+
+-- =========================================================================
+-- 2. Metric computation
+-- =========================================================================
+CREATE OR REPLACE FUNCTION compute_ar_metrics(
+  p_organization_id uuid,
+  p_customer_ids text[] DEFAULT NULL,
+  p_collector_id uuid DEFAULT NULL
+)
+RETURNS TABLE (
+  customer_count integer,
+  ar_balance numeric,
+  overdue_balance numeric,
+  credit_sales numeric,
+  collections numeric,
+  dso numeric,
+  add_days numeric,
+  cei numeric,
+  promises_due integer,
+  promises_kept integer,
+  promise_kept_rate numeric,
+  touched_payments integer,
+  touch_to_payment_days numeric
+)
+LANGUAGE plpgsql
+STABLE
+SET search_path = public
+AS $$
+DECLARE
+  v_today date := CURRENT_DATE;
+  v_grace integer := 3;
+BEGIN
+  SELECT
+    COUNT(DISTINCT i.customer) FILTER (WHERE i.status IN ('Open', 'open') AND i.balance > 0),
+    COALESCE(SUM(i.balance) FILTER (WHERE i.status IN ('Open', 'open') AND i.balance > 0), 0),
+    COALESCE(SUM(i.balance) FILTER (
+      WHERE i.status IN ('Open', 'open') AND i.balance > 0 AND i.due_date::date < v_today
+    ), 0),
+    COALESCE(SUM(i.amount) FILTER (WHERE i.date > v_today - 90 AND i.date <= v_today), 0)
+  INTO customer_count, ar_balance, overdue_balance, credit_sales
+  FROM acumatica_invoices i
+  WHERE i.organization_id = p_organization_id
+    AND i.type IN ('Invoice', 'Debit Memo')
+    AND (p_customer_ids IS NULL OR i.customer = ANY(p_customer_ids));
+
+  SELECT COALESCE(SUM(pia.amount_paid), 0)
+  INTO collections
+  FROM payment_invoice_applications pia
+  JOIN acumatica_payments p
+    ON p.id = pia.payment_id
+   AND p.organization_id = p_organization_id
+  WHERE pia.doc_type = 'Invoice'
+    AND pia.application_date::date > v_today - 30
+    AND pia.application_date::date <= v_today
+    AND (p_customer_ids IS NULL OR pia.customer_id = ANY(p_customer_ids));
+
+  dso := CASE WHEN credit_sales > 0 THEN ROUND(ar_balance / credit_sales * 90, 1) END;
+  add_days := CASE WHEN credit_sales > 0 THEN ROUND(overdue_balance / credit_sales * 90, 1) END;
+  cei := CASE
+    WHEN collections + overdue_balance > 0
+      THEN ROUND(collections / (collections + overdue_balance) * 100, 1)
+  END;
+
+  SELECT
+    COUNT(*)::integer,
+    COUNT(*) FILTER (WHERE EXISTS (
+      SELECT 1
+      FROM payment_invoice_applications pia
+      WHERE pia.doc_type = 'Invoice'
+        AND pia.amount_paid > 0
+        AND pia.application_date >= t.created_at
+        AND pia.application_date::date <= t.promise_date::date + v_grace
+        AND (
+          pia.invoice_reference_number IN (
+            SELECT ti.invoice_reference_number FROM ticket_invoices ti WHERE ti.ticket_id = t.id
+          )
+          OR (
+            NOT EXISTS (SELECT 1 FROM ticket_invoices ti WHERE ti.ticket_id = t.id)
+            AND pia.customer_id = t.customer_id
+          )
+        )
+    ))::integer
+  INTO promises_due, promises_kept
+  FROM collection_tickets t
+  WHERE t.organization_id = p_organization_id
+    AND t.promise_date IS NOT NULL
+    AND t.promise_date::date + v_grace < v_today
+    AND t.promise_date::date + v_grace >= v_today - 90
+    AND (p_collector_id IS NULL OR t.assigned_collector_id = p_collector_id)
+    AND (p_customer_ids IS NULL OR p_collector_id IS NOT NULL OR t.customer_id = ANY(p_customer_ids));
+
+  promise_kept_rate := CASE
+    WHEN promises_due > 0 THEN ROUND(promises_kept::numeric / promises_due * 100, 1)
+  END;
+
+  WITH payments AS (
+    SELECT pia.customer_id, MIN(pia.application_date) AS paid_at
+    FROM payment_invoice_applications pia
+    JOIN acumatica_payments p
+      ON p.id = pia.payment_id
+     AND p.organization_id = p_organization_id
+    WHERE pia.doc_type = 'Invoice'
+      AND pia.amount_paid > 0
+      AND pia.application_date::date > v_today - 90
+      AND pia.application_date::date <= v_today
+      AND (p_customer_ids IS NULL OR pia.customer_id = ANY(p_customer_ids))
+    GROUP BY pia.payment_id, pia.customer_id
+  ),
+  touches AS (
+    SELECT t.customer_id, tal.created_at
+    FROM ticket_activity_log tal
+    JOIN collection_tickets t ON t.id = tal.ticket_id
+    WHERE t.organization_id = p_organization_id
+      AND tal.activity_type IN ('note', 'status_change')
+      AND tal.created_at > v_today - 150
+      AND (p_collector_id IS NULL OR tal.created_by = p_collector_id)
+    UNION ALL
+    SELECT i.customer, icl.created_at
+    FROM invoice_change_log icl
+    JOIN acumatica_invoices i
+      ON i.reference_number = icl.invoice_reference_number
+     AND i.organization_id = p_organization_id
+    WHERE icl.created_at > v_today - 150
+      AND (p_collector_id IS NULL OR icl.changed_by = p_collector_id)
+  ),
+  paired AS (
+    SELECT pay.paid_at::date - last_touch.touched_at::date AS days
+    FROM payments pay
+    CROSS JOIN LATERAL (
+      SELECT MAX(tc.created_at) AS touched_at
+      FROM touches tc
+      WHERE tc.customer_id = pay.customer_id
+        AND tc.created_at <= pay.paid_at
+        AND tc.created_at > pay.paid_at - interval '60 days'
+    ) last_touch
+    WHERE last_touch.touched_at IS NOT NULL
+  )
+  SELECT COUNT(*)::integer, ROUND(AVG(days), 1)
+  INTO touched_payments, touch_to_payment_days
+  FROM paired;
+
+  RETURN NEXT;
+END;
+$$;
+
+-- =========================================================================
+-- 3. Daily capture
+-- =========================================================================
+CREATE OR REPLACE FUNCTION capture_ar_metric_snapshots()
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_org record;
+  v_collector record;
+  v_count integer := 0;
+BEGIN
+  FOR v_org IN
+    SELECT DISTINCT organization_id
+    FROM acumatica_invoices
+    WHERE organization_id IS NOT NULL
+  LOOP
+    DELETE FROM ar_metric_snapshots
+    WHERE organization_id = v_org.organization_id
+      AND snapshot_date = CURRENT_DATE;
+
+    INSERT INTO ar_metric_snapshots (
+      organization_id, collector_id, snapshot_date, customer_count,
+      ar_balance, overdue_balance, credit_sales, collections,
+      dso, add_days, cei, promises_due, promises_kept, promise_kept_rate,
+      touched_payments, touch_to_payment_days
+    )
+    SELECT
+      v_org.organization_id, NULL, CURRENT_DATE, m.customer_count,
+      m.ar_balance, m.overdue_balance, m.credit_sales, m.collections,
+      m.dso, m.add_days, m.cei, m.promises_due, m.promises_kept, m.promise_kept_rate,
+      m.touched_payments, m.touch_to_payment_days
+    FROM compute_ar_metrics(v_org.organization_id) m;
+    v_count := v_count + 1;
+
+    FOR v_collector IN
+      SELECT cca.assigned_collector_id, array_agg(DISTINCT cca.customer_id) AS customer_ids
+      FROM collector_customer_assignments cca
+      JOIN user_profiles up ON up.id = cca.assigned_collector_id
+      WHERE up.organization_id = v_org.organization_id
+      GROUP BY cca.assigned_collector_id
+    LOOP
+      INSERT INTO ar_metric_snapshots (
+        organization_id, collector_id, snapshot_date, customer_count,
+        ar_balance, overdue_balance, credit_sales, collections,
+        dso, add_days, cei, promises_due, promises_kept, promise_kept_rate,
+        touched_payments, touch_to_payment_days
+      )
+      SELECT
+        v_org.organization_id, v_collector.assigned_collector_id, CURRENT_DATE, m.customer_count,
+        m.ar_balance, m.overdue_balance, m.credit_sales, m.collections,
+        m.dso, m.add_days, m.cei, m.promises_due, m.promises_kept, m.promise_kept_rate,
+        m.touched_payments, m.touch_to_payment_days
+      FROM compute_ar_metrics(
+        v_org.organization_id,
+        v_collector.customer_ids,
+        v_collector.assigned_collector_id
+      ) m;
+      v_count := v_count + 1;
+    END LOOP;
+  END LOOP;
+
+  RETURN v_count;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION compute_ar_metrics(uuid, text[], uuid) FROM PUBLIC, anon, authenticated;
+REVOKE ALL ON FUNCTION capture_ar_metric_snapshots() FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION capture_ar_metric_snapshots() TO service_role;
+
+-- =========================================================================
+-- 4. Daily cron
+-- =========================================================================
+CREATE OR REPLACE FUNCTION trigger_capture_ar_metrics()
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $func$
+DECLARE
+  v_supabase_url text;
+  v_anon_key text;
+BEGIN
+  SELECT supabase_url, supabase_anon_key
+  INTO v_supabase_url, v_anon_key
+  FROM acumatica_sync_credentials
+  WHERE is_active = true
+    AND supabase_url IS NOT NULL
+    AND supabase_anon_key IS NOT NULL
+  ORDER BY created_at DESC
+  LIMIT 1;
+
+  IF v_supabase_url IS NULL OR v_anon_key IS NULL THEN
+    RAISE NOTICE 'No credentials found for capture-ar-metrics';
+    RETURN;
+  END IF;
+
+  PERFORM net.http_post(
+    url := v_supabase_url || '/functions/v1/capture-ar-metrics',
+    headers := jsonb_build_object(
+      'Content-Type', 'application/json',
+      'Authorization', 'Bearer ' || v_anon_key,
+      'apikey', v_anon_key
+    ),
+    body := '{}'::jsonb
+  );
+EXCEPTION
+  WHEN OTHERS THEN
+    RAISE NOTICE 'AR metric capture failed: %', SQLERRM;
+END;
+$func$;
+
+DO $$
+BEGIN
+  IF EXISTS (SELECT 1 FROM cron.job WHERE jobname = 'capture-ar-metrics') THEN
+    PERFORM cron.unschedule('capture-ar-metrics');
+  END IF;
+END $$;
+
+SELECT cron.schedule(
+  'capture-ar-metrics',
+  '30 6 * * *',
+  'SELECT trigger_capture_ar_metrics();'
+);
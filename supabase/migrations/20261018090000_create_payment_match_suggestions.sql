@@ -0,0 +1,486 @@
+/*
+  # Payment-to-Invoice Match Suggestions
+
+  ## Summary
+  Payments, prepayments and credit memos that still carry an unapplied
+  balance have so far only been surfaced by diagnostics. This adds a matching
+  engine that scores candidate open invoices for each of them, and a review
+  queue where a user accepts or rejects each suggestion. Accepted matches are
+  kept (with the amount to apply per invoice) so AR can post the application
+  in Acumatica and then mark it posted.
+
+  ## Sources
+  - `acumatica_payments` of type Payment / Prepayment with
+    `available_balance` > 0 (not voided, cancelled or on hold)
+  - open `Credit Memo` documents in `acumatica_invoices` with a balance
+
+  ## Scoring (0-100, suggestions below 45 are dropped, top 3 kept per source)
+  Single open invoice or debit memo:
+  - 40 same customer
+  - 35 exact amount (within $0.01), 20 near amount (within 2% or $1),
+    5 when the invoice is larger (partial payment)
+  - 30 invoice number found in the payment's `payment_ref` / description,
+    20 when the invoice's customer order number is found instead;
+    a reference hit also lets invoices of other customers be suggested
+  Combination of 2 or 3 open invoices of the same customer (the 20 oldest):
+  - 40 same customer + 30 exact sum, + 10 when any invoice is referenced
+  Invoices under an open dispute are never suggested.
+
+  ## New Tables
+
+  ### `payment_match_suggestions`
+  - `source_type` text: payment | prepayment | credit_memo
+  - `source_id`, `source_reference`, `source_doc_type`, `customer_id`,
+    `source_amount` (unapplied balance when the suggestion was made)
+  - `invoice_references` text[], `allocations` jsonb
+    ([{invoice_reference, customer_id, amount}]), `invoice_total`
+  - `score` integer, `reasons` text[]
+  - `status` text: pending | accepted | rejected | superseded | posted
+  - `reviewed_by` / `reviewed_at` / `review_note`, `posted_by` / `posted_at`
+
+  Re-running the engine replaces pending suggestions, skips sources that
+  already have an accepted or posted match, and never re-suggests an invoice
+  set that was rejected for the same source.
+
+  ## New Functions
+  - `build_payment_match_suggestions(organization_id)` - the engine
+  - `refresh_payment_match_suggestions()` - runs it for the caller's org
+  - `review_payment_match(suggestion_id, decision, note)` - accept / reject;
+    accepting supersedes the source's other pending suggestions
+  - `mark_payment_match_posted(suggestion_id)`
+  - `refresh_all_payment_match_suggestions()` - nightly at 04:30 UTC
+
+  ## Security
+  - RLS enabled; org members can view their organization's suggestions
+  - Changes go through the SECURITY DEFINER functions above
+*/
+
+-- =========================================================================
+-- 1. Table
+-- =========================================================================
+CREATE TABLE IF NOT EXISTS payment_match_suggestions (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  organization_id uuid NOT NULL REFERENCES organizations(id) ON DELETE CASCADE,
+  source_type text NOT NULL CHECK (source_type IN ('payment', 'prepayment', 'credit_memo')),
+  source_id uuid NOT NULL,
+  source_reference text NOT NULL,
+  source_doc_type text NOT NULL,
+  source_date date,
+  customer_id text,
+  customer_name text,
+  source_amount numeric(18, 2) NOT NULL,
+  source_text text,
+  invoice_references text[] NOT NULL,
+  allocations jsonb NOT NULL DEFAULT '[]'::jsonb,
+  invoice_total numeric(18, 2) NOT NULL DEFAULT 0,
+  score integer NOT NULL CHECK (score BETWEEN 0 AND 100),
+  reasons text[] NOT NULL DEFAULT '{}',
+  status text NOT NULL DEFAULT 'pending'
+    CHECK (status IN ('pending', 'accepted', 'rejected', 'superseded', 'posted')),
+  reviewed_by uuid REFERENCES user_profiles(id) ON DELETE SET NULL,
+  reviewed_at timestamptz,
+  review_note text,
+  posted_by uuid REFERENCES user_profiles(id) ON DELETE SET NULL,
+  posted_at timestamptz,
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_payment_match_suggestions_status
+  ON payment_match_suggestions(organization_id, status, score DESC);
+
+CREATE INDEX IF NOT EXISTS idx_payment_match_suggestions_source
+  ON payment_match_suggestions(source_type, source_id);
+
+ALTER TABLE payment_match_suggestions ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Org members can view payment match suggestions" ON payment_match_suggestions;
+CREATE POLICY "Org members can view payment match suggestions"
+  ON payment_match_suggestions FOR SELECT
+  TO authenticated
+  USING (organization_id = get_user_org_id());
+
+-- =========================================================================
+-- 2. Matching engine
+-- =========================================================================
+CREATE OR REPLACE FUNCTION payment_text_mentions(p_text text, p_reference text)
+RETURNS boolean
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT p_text IS NOT NULL
+    AND p_reference IS NOT NULL
+    AND length(ltrim(p_reference, '0')) >= 4
+    AND p_text ~* (
+      '(^|[^0-9a-z])0*'
+      || regexp_replace(ltrim(p_reference, '0'), '([^0-9A-Za-z])', '\\\1', 'g')
+      || '($|[^0-9a-z])'
+    );
+$$;
+
+CREATE OR REPLACE FUNCTION build_payment_match_suggestions(p_organization_id uuid)
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_source record;
+  v_count integer := 0;
+  v_inserted integer;
+BEGIN
+  DELETE FROM payment_match_suggestions
+  WHERE organization_id = p_organization_id
+    AND status = 'pending';
+
+  CREATE TEMP TABLE IF NOT EXISTS pm_open_invoices (
+    reference_number text,
+    customer_id text,
+    customer_order text,
+    due_date date,
+    balance numeric
+  ) ON COMMIT DROP;
+  TRUNCATE pm_open_invoices;
+
+  INSERT INTO pm_open_invoices
+  SELECT i.reference_number, i.customer, i.customer_order, i.due_date::date, i.balance
+  FROM acumatica_invoices i
+  WHERE i.organization_id = p_organization_id
+    AND i.type IN ('Invoice', 'Debit Memo')
+    AND i.status IN ('Open', 'open')
+    AND i.balance > 0
+    AND NOT EXISTS (
+      SELECT 1
+      FROM invoice_dispute_invoices di
+      JOIN invoice_disputes d ON d.id = di.dispute_id
+      WHERE di.invoice_reference_number = i.reference_number
+        AND d.status IN ('open', 'investigating', 'awaiting_customer')
+    );
+
+  FOR v_source IN
+    SELECT
+      CASE WHEN p.type = 'Prepayment' THEN 'prepayment' ELSE 'payment' END AS source_type,
+      p.id AS source_id,
+      p.reference_number AS source_reference,
+      p.type AS source_doc_type,
+      COALESCE(p.doc_date, p.application_date::date) AS source_date,
+      p.customer_id,
+      COALESCE(c.customer_name, p.customer_name, p.customer_id) AS customer_name,
+      p.available_balance AS amount,
+      NULLIF(trim(concat_ws(' ', p.payment_ref, p.description)), '') AS source_text
+    FROM acumatica_payments p
+    LEFT JOIN acumatica_customers c
+      ON c.customer_id = p.customer_id
+     AND c.organization_id = p.organization_id
+    WHERE p.organization_id = p_organization_id
+      AND p.type IN ('Payment', 'Prepayment')
+      AND p.available_balance > 0
+      AND p.status NOT IN ('Voided', 'Canceled', 'Cancelled', 'On Hold')
+    UNION ALL
+    SELECT
+      'credit_memo',
+      i.id,
+      i.reference_number,
+      i.type,
+      i.date,
+      i.customer,
+      COALESCE(c.customer_name, i.customer_name, i.customer),
+      i.balance,
+      NULLIF(trim(COALESCE(i.description, '')), '')
+    FROM acumatica_invoices i
+    LEFT JOIN acumatica_customers c
+      ON c.customer_id = i.customer
+     AND c.organization_id = i.organization_id
+    WHERE i.organization_id = p_organization_id
+      AND i.type = 'Credit Memo'
+      AND i.status IN ('Open', 'open')
+      AND i.balance > 0
+  LOOP
+    IF EXISTS (
+      SELECT 1 FROM payment_match_suggestions s
+      WHERE s.source_type = v_source.source_type
+        AND s.source_id = v_source.source_id
+        AND s.status IN ('accepted', 'posted')
+    ) THEN
+      CONTINUE;
+    END IF;
+
+    WITH singles AS (
+      SELECT
+        ARRAY[oi.reference_number] AS refs,
+        jsonb_build_array(jsonb_build_object(
+          'invoice_reference', oi.reference_number,
+          'customer_id', oi.customer_id,
+          'amount', LEAST(oi.balance, v_source.amount)
+        )) AS allocations,
+        oi.balance AS total,
+        oi.due_date AS oldest_due,
+        CASE WHEN oi.customer_id = v_source.customer_id THEN 40 ELSE 0 END
+          + CASE
+              WHEN abs(oi.balance - v_source.amount) < 0.01 THEN 35
+              WHEN abs(oi.balance - v_source.amount) <= GREATEST(v_source.amount * 0.02, 1) THEN 20
+              WHEN oi.balance > v_source.amount THEN 5
+              ELSE 0
+            END
+          + CASE
+              WHEN payment_text_mentions(v_source.source_text, oi.reference_number) THEN 30
+              WHEN payment_text_mentions(v_source.source_text, oi.customer_order) THEN 20
+              ELSE 0
+            END AS score,
+        array_remove(ARRAY[
+          CASE WHEN oi.customer_id = v_source.customer_id THEN 'same_customer' END,
+          CASE
+            WHEN abs(oi.balance - v_source.amount) < 0.01 THEN 'exact_amount'
+            WHEN abs(oi.balance - v_source.amount) <= GREATEST(v_source.amount * 0.02, 1) THEN 'near_amount'
+            WHEN oi.balance > v_source.amount THEN 'partial_payment'
+          END,
+          CASE
+            WHEN payment_text_mentions(v_source.source_text, oi.reference_number) THEN 'invoice_reference'
+            WHEN payment_text_mentions(v_source.source_text, oi.customer_order) THEN 'order_reference'
+          END
+        ], NULL) AS reasons
+      FROM pm_open_invoices oi
+      WHERE oi.customer_id = v_source.customer_id
+         OR payment_text_mentions(v_source.source_text, oi.reference_number)
+         OR payment_text_mentions(v_source.source_text, oi.customer_order)
+    ),
+    pool AS (
+      SELECT oi.*, row_number() OVER (ORDER BY oi.due_date, oi.reference_number) AS rn
+      FROM pm_open_invoices oi
+      WHERE oi.customer_id = v_source.customer_id
+        AND oi.balance < v_source.amount
+      ORDER BY oi.due_date, oi.reference_number
+      LIMIT 20
+    ),
+    combos AS (
+      SELECT ARRAY[a.reference_number, b.reference_number] AS refs,
+             ARRAY[a.balance, b.balance] AS amounts,
+             a.balance + b.balance AS total,
+             LEAST(a.due_date, b.due_date) AS oldest_due
+      FROM pool a
+      JOIN pool b ON b.rn > a.rn
+      WHERE abs(a.balance + b.balance - v_source.amount) < 0.01
+      UNION ALL
+      SELECT ARRAY[a.reference_number, b.reference_number, c.reference_number],
+             ARRAY[a.balance, b.balance, c.balance],
+             a.balance + b.balance + c.balance,
+             LEAST(a.due_date, b.due_date, c.due_date)
+      FROM pool a
+      JOIN pool b ON b.rn > a.rn
+      JOIN pool c ON c.rn > b.rn
+      WHERE abs(a.balance + b.balance + c.balance - v_source.amount) < 0.01
+    ),
+    combo_scored AS (
+      SELECT
+        cb.refs,
+        (
+          SELECT jsonb_agg(jsonb_build_object(
+            'invoice_reference', cb.refs[n],
+            'customer_id', v_source.customer_id,
+            'amount', cb.amounts[n]
+          ) ORDER BY n)
+          FROM generate_subscripts(cb.refs, 1) n
+        ) AS allocations,
+        cb.total,
+        cb.oldest_due,
+        70 + CASE
+          WHEN EXISTS (
+            SELECT 1 FROM unnest(cb.refs) r WHERE payment_text_mentions(v_source.source_text, r)
+          ) THEN 10 ELSE 0
+        END AS score,
+        array_remove(ARRAY[
+          'same_customer',
+          'invoice_combination',
+          CASE WHEN EXISTS (
+            SELECT 1 FROM unnest(cb.refs) r WHERE payment_text_mentions(v_source.source_text, r)
+          ) THEN 'invoice_reference' END
+        ], NULL) AS reasons
+      FROM combos cb
+    ),
+    candidates AS (
+      SELECT * FROM singles
+      UNION ALL
+      SELECT * FROM combo_scored
+    ),
+    ranked AS (
+      SELECT c.*
+      FROM candidates c
+      WHERE c.score >= 45
+        AND NOT EXISTS (
+          SELECT 1 FROM payment_match_suggestions s
+          WHERE s.source_type = v_source.source_type
+            AND s.source_id = v_source.source_id
+            AND s.status = 'rejected'
+            AND s.invoice_references @> c.refs
+            AND s.invoice_references <@ c.refs
+        )
+      ORDER BY c.score DESC, c.oldest_due, cardinality(c.refs)
+      LIMIT 3
+    )
+    INSERT INTO payment_match_suggestions (
+      organization_id, source_type, source_id, source_reference, source_doc_type,
+      source_date, customer_id, customer_name, source_amount, source_text,
+      invoice_references, allocations, invoice_total, score, reasons
+    )
+    SELECT
+      p_organization_id, v_source.source_type, v_source.source_id, v_source.source_reference,
+      v_source.source_doc_type, v_source.source_date, v_source.customer_id, v_source.customer_name,
+      v_source.amount, v_source.source_text,
+      r.refs, r.allocations, r.total, LEAST(r.score, 100), r.reasons
+    FROM ranked r;
+
+    GET DIAGNOSTICS v_inserted = ROW_COUNT;
+    v_count := v_count + v_inserted;
+  END LOOP;
+
+  RETURN v_count;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION refresh_payment_match_suggestions()
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_org_id uuid := get_user_org_id();
+BEGIN
+  IF v_org_id IS NULL THEN
+    RAISE EXCEPTION 'No organization for current user';
+  END IF;
+
+  RETURN build_payment_match_suggestions(v_org_id);
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION refresh_all_payment_match_suggestions()
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_org record;
+  v_total integer := 0;
+BEGIN
+  FOR v_org IN
+    SELECT DISTINCT organization_id
+    FROM acumatica_payments
+    WHERE organization_id IS NOT NULL
+  LOOP
+    v_total := v_total + build_payment_match_suggestions(v_org.organization_id);
+  END LOOP;
+
+  RETURN v_total;
+END;
+$$;
+
+-- =========================================================================
+-- 3. Review
+-- =========================================================================
+CREATE OR REPLACE FUNCTION review_payment_match(
+  p_suggestion_id uuid,
+  p_decision text,
+  p_note text DEFAULT NULL
+)
+RETURNS payment_match_suggestions
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_row payment_match_suggestions;
+BEGIN
+  IF p_decision NOT IN ('accepted', 'rejected') THEN
+    RAISE EXCEPTION 'Decision must be accepted or rejected';
+  END IF;
+
+  SELECT * INTO v_row
+  FROM payment_match_suggestions
+  WHERE id = p_suggestion_id
+    AND organization_id = get_user_org_id()
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Suggestion not found';
+  END IF;
+
+  IF v_row.status <> 'pending' THEN
+    RAISE EXCEPTION 'Suggestion has already been %', v_row.status;
+  END IF;
+
+  UPDATE payment_match_suggestions
+  SET status = p_decision,
+      reviewed_by = auth.uid(),
+      reviewed_at = now(),
+      review_note = NULLIF(trim(COALESCE(p_note, '')), '')
+  WHERE id = p_suggestion_id
+  RETURNING * INTO v_row;
+
+  IF p_decision = 'accepted' THEN
+    UPDATE payment_match_suggestions
+    SET status = 'superseded',
+        reviewed_by = auth.uid(),
+        reviewed_at = now()
+    WHERE source_type = v_row.source_type
+      AND source_id = v_row.source_id
+      AND status = 'pending';
+  END IF;
+
+  RETURN v_row;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION mark_payment_match_posted(p_suggestion_id uuid)
+RETURNS payment_match_suggestions
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_row payment_match_suggestions;
+BEGIN
+  UPDATE payment_match_suggestions
+  SET status = 'posted',
+      posted_by = auth.uid(),
+      posted_at = now()
+  WHERE id = p_suggestion_id
+    AND organization_id = get_user_org_id()
+    AND status = 'accepted'
+  RETURNING * INTO v_row;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Only accepted matches can be marked posted';
+  END IF;
+
+  RETURN v_row;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION build_payment_match_suggestions(uuid) FROM PUBLIC, anon, authenticated;
+REVOKE ALL ON FUNCTION refresh_all_payment_match_suggestions() FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION build_payment_match_suggestions(uuid) TO service_role;
+GRANT EXECUTE ON FUNCTION refresh_all_payment_match_suggestions() TO service_role;
+
+REVOKE ALL ON FUNCTION refresh_payment_match_suggestions() FROM PUBLIC, anon;
+REVOKE ALL ON FUNCTION review_payment_match(uuid, text, text) FROM PUBLIC, anon;
+REVOKE ALL ON FUNCTION mark_payment_match_posted(uuid) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION refresh_payment_match_suggestions() TO authenticated;
+GRANT EXECUTE ON FUNCTION review_payment_match(uuid, text, text) TO authenticated;
+GRANT EXECUTE ON FUNCTION mark_payment_match_posted(uuid) TO authenticated;
+
+-- =========================================================================
+-- 4. Nightly refresh
+-- =========================================================================
+DO $$
+BEGIN
+  IF EXISTS (SELECT 1 FROM cron.job WHERE jobname = 'refresh-payment-match-suggestions') THEN
+    PERFORM cron.unschedule('refresh-payment-match-suggestions');
+  END IF;
+END $$;
+
+SELECT cron.schedule(
+  'refresh-payment-match-suggestions',
+  '30 4 * * *',
+  'SELECT refresh_all_payment_match_suggestions();'
+);
@@ -0,0 +1,371 @@
+/*
+  # Online "Pay Now" Invoice Payments (Stripe Checkout)
+
+  ## Summary
+  Statement and ticket emails now carry a "Pay now" link to the customer
+  portal, where the customer picks one or more open invoices, optionally
+  lowers the amount for each (partial payment), and is sent to a Stripe
+  Checkout session. The `stripe-webhook` edge function records completed
+  payments; each paid invoice is held as "payment pending posting" until the
+  Acumatica sync shows the payment applied, at which point it is confirmed
+  automatically.
+
+  The Stripe tables created in 20251221191744 / 20251221194441 were dropped
+  by 20260107035950 before anything used them. They are recreated here with
+  an organization column and invoice-reference based allocations, matching
+  how the rest of the app keys Acumatica documents.
+
+  ## Tables
+
+  ### `stripe_checkout_sessions`
+  One row per Checkout session created from the portal:
+  - `session_id` (Stripe `cs_...`), `checkout_url`, `expires_at`
+  - `portal_token_id`, `ticket_id`: the link the customer came from
+  - `source` text: statement_email | ticket_email | portal
+  - `allocations` jsonb: [{invoice_reference, amount}] as chosen by the customer
+  - `status` text: pending | completed | expired | failed
+
+  ### `stripe_payment_records`
+  One row per succeeded PaymentIntent:
+  - `amount_paid`, `payment_method`, `receipt_url`, `charge_id`
+  - `posting_status` text: pending_posting | posted
+
+  ### `stripe_invoice_payments`
+  One row per invoice paid by a Stripe payment:
+  - `invoice_reference_number`, `amount_paid`, `balance_at_payment`
+  - `status` text: pending_posting | posted
+  - `acumatica_payment_reference`: the Acumatica payment the sync matched
+
+  ## Changes
+  `customer_portal_tokens.created_via` also accepts `ticket_email`.
+
+  ## Functions
+  - `record_stripe_checkout_payment(...)` - called by the webhook; idempotent
+    per PaymentIntent
+  - `confirm_stripe_invoice_postings()` - marks invoice payments posted once
+    Acumatica has an application of the same amount on or after the payment
+    date, or the invoice balance has dropped by at least the amount paid.
+    Runs every 30 minutes.
+
+  ## Security
+  - RLS enabled; org members can view their organization's rows
+  - All writes come from the edge functions (service role)
+*/
+
+-- =========================================================================
+-- 1. Portal token source
+-- =========================================================================
+ALTER TABLE customer_portal_tokens
+  DROP CONSTRAINT IF EXISTS customer_portal_tokens_created_via_check;
+
+ALTER TABLE customer_portal_tokens
+  ADD CONSTRAINT customer_portal_tokens_created_via_check
+  CHECK (created_via IN ('statement_email', 'ticket_email', 'manual'));
+
+-- =========================================================================
+-- 2. Tables
+-- =========================================================================
+CREATE TABLE IF NOT EXISTS stripe_checkout_sessions (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  organization_id uuid REFERENCES organizations(id) ON DELETE CASCADE,
+  customer_id text NOT NULL,
+  customer_name text,
+  customer_email text,
+  session_id text UNIQUE NOT NULL,
+  checkout_url text,
+  payment_intent_id text,
+  amount numeric(18, 2) NOT NULL,
+  currency text NOT NULL DEFAULT 'usd',
+  status text NOT NULL DEFAULT 'pending'
+    CHECK (status IN ('pending', 'completed', 'expired', 'failed')),
+  source text NOT NULL DEFAULT 'portal'
+    CHECK (source IN ('statement_email', 'ticket_email', 'portal')),
+  portal_token_id uuid REFERENCES customer_portal_tokens(id) ON DELETE SET NULL,
+  ticket_id uuid REFERENCES collection_tickets(id) ON DELETE SET NULL,
+  allocations jsonb NOT NULL DEFAULT '[]'::jsonb,
+  expires_at timestamptz,
+  completed_at timestamptz,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_stripe_checkout_sessions_customer
+  ON stripe_checkout_sessions(organization_id, customer_id, created_at DESC);
+
+CREATE INDEX IF NOT EXISTS idx_stripe_checkout_sessions_pending
+  ON stripe_checkout_sessions(organization_id, customer_id)
+  WHERE status = 'pending';
+
+CREATE TABLE IF NOT EXISTS stripe_payment_records (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  organization_id uuid REFERENCES organizations(id) ON DELETE CASCADE,
+  checkout_session_id uuid REFERENCES stripe_checkout_sessions(id) ON DELETE SET NULL,
+  payment_intent_id text UNIQUE NOT NULL,
+  charge_id text,
+  customer_id text NOT NULL,
+  customer_name text,
+  amount_paid numeric(18, 2) NOT NULL,
+  currency text NOT NULL DEFAULT 'usd',
+  payment_method text,
+  receipt_url text,
+  stripe_customer_id text,
+  posting_status text NOT NULL DEFAULT 'pending_posting'
+    CHECK (posting_status IN ('pending_posting', 'posted')),
+  posted_at timestamptz,
+  metadata jsonb NOT NULL DEFAULT '{}'::jsonb,
+  paid_at timestamptz NOT NULL DEFAULT now(),
+  created_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_stripe_payment_records_org
+  ON stripe_payment_records(organization_id, paid_at DESC);
+
+CREATE TABLE IF NOT EXISTS stripe_invoice_payments (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  organization_id uuid REFERENCES organizations(id) ON DELETE CASCADE,
+  payment_record_id uuid NOT NULL REFERENCES stripe_payment_records(id) ON DELETE CASCADE,
+  customer_id text NOT NULL,
+  invoice_reference_number text NOT NULL,
+  amount_paid numeric(18, 2) NOT NULL,
+  balance_at_payment numeric(18, 2),
+  payment_date timestamptz NOT NULL DEFAULT now(),
+  status text NOT NULL DEFAULT 'pending_posting'
+    CHECK (status IN ('pending_posting', 'posted')),
+  acumatica_payment_reference text,
+  posted_at timestamptz,
+  created_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_stripe_invoice_payments_invoice
+  ON stripe_invoice_payments(organization_id, invoice_reference_number);
+
+CREATE INDEX IF NOT EXISTS idx_stripe_invoice_payments_pending
+  ON stripe_invoice_payments(organization_id)
+  WHERE status = 'pending_posting';
+
+-- =========================================================================
+-- 3. RLS
+-- =========================================================================
+ALTER TABLE stripe_checkout_sessions ENABLE ROW LEVEL SECURITY;
+ALTER TABLE stripe_payment_records ENABLE ROW LEVEL SECURITY;
+ALTER TABLE stripe_invoice_payments ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Org members can view checkout sessions" ON stripe_checkout_sessions;
+CREATE POLICY "Org members can view checkout sessions"
+  ON stripe_checkout_sessions FOR SELECT
+  TO authenticated
+  USING (organization_id = get_user_org_id());
+
+DROP POLICY IF EXISTS "Org members can view stripe payments" ON stripe_payment_records;
+CREATE POLICY "Org members can view stripe payments"
+  ON stripe_payment_records FOR SELECT
+  TO authenticated
+  USING (organization_id = get_user_org_id());
+
+DROP POLICY IF EXISTS "Org members can view stripe invoice payments" ON stripe_invoice_payments;
+CREATE POLICY "Org members can view stripe invoice payments"
+  ON stripe_invoice_payments FOR SELECT
+  TO authenticated
+  USING (organization_id = get_user_org_id());
+
+-- =========================================================================
+-- 4. Recording a completed checkout
+-- =========================================================================
+CREATE OR REPLACE FUNCTION record_stripe_checkout_payment(
+  p_session_id text,
+  p_payment_intent_id text,
+  p_amount_paid numeric,
+  p_charge_id text DEFAULT NULL,
+  p_payment_method text DEFAULT NULL,
+  p_receipt_url text DEFAULT NULL,
+  p_stripe_customer_id text DEFAULT NULL,
+  p_metadata jsonb DEFAULT '{}'::jsonb
+)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_session stripe_checkout_sessions;
+  v_record_id uuid;
+  v_remaining numeric := p_amount_paid;
+  v_alloc jsonb;
+  v_amount numeric;
+  v_refs text[] := '{}';
+BEGIN
+  SELECT * INTO v_session
+  FROM stripe_checkout_sessions
+  WHERE session_id = p_session_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Unknown checkout session %', p_session_id;
+  END IF;
+
+  SELECT id INTO v_record_id
+  FROM stripe_payment_records
+  WHERE payment_intent_id = p_payment_intent_id;
+
+  IF v_record_id IS NOT NULL THEN
+    RETURN v_record_id;
+  END IF;
+
+  INSERT INTO stripe_payment_records (
+    organization_id, checkout_session_id, payment_intent_id, charge_id,
+    customer_id, customer_name, amount_paid, currency, payment_method,
+    receipt_url, stripe_customer_id, metadata
+  )
+  VALUES (
+    v_session.organization_id, v_session.id, p_payment_intent_id, p_charge_id,
+    v_session.customer_id, v_session.customer_name, p_amount_paid, v_session.currency, p_payment_method,
+    p_receipt_url, p_stripe_customer_id, COALESCE(p_metadata, '{}'::jsonb)
+  )
+  RETURNING id INTO v_record_id;
+
+  -- Allocations are applied in the order the customer chose them; if Stripe
+  -- reports less than the session total, later invoices get the shortfall.
+  FOR v_alloc IN SELECT * FROM jsonb_array_elements(v_session.allocations)
+  LOOP
+    EXIT WHEN v_remaining <= 0;
+    v_amount := LEAST((v_alloc->>'amount')::numeric, v_remaining);
+    v_remaining := v_remaining - v_amount;
+
+    INSERT INTO stripe_invoice_payments (
+      organization_id, payment_record_id, customer_id, invoice_reference_number,
+      amount_paid, balance_at_payment
+    )
+    VALUES (
+      v_session.organization_id, v_record_id, v_session.customer_id, v_alloc->>'invoice_reference',
+      v_amount,
+      (
+        SELECT i.balance FROM acumatica_invoices i
+        WHERE i.organization_id = v_session.organization_id
+          AND i.reference_number = v_alloc->>'invoice_reference'
+          AND i.type NOT IN ('Credit Memo', 'Credit WO')
+        LIMIT 1
+      )
+    );
+
+    v_refs := v_refs || (v_alloc->>'invoice_reference');
+  END LOOP;
+
+  UPDATE stripe_checkout_sessions
+  SET status = 'completed',
+      payment_intent_id = p_payment_intent_id,
+      completed_at = now(),
+      updated_at = now()
+  WHERE id = v_session.id;
+
+  IF v_session.ticket_id IS NOT NULL THEN
+    INSERT INTO ticket_activity_log (ticket_id, activity_type, description, metadata)
+    VALUES (
+      v_session.ticket_id,
+      'note',
+      format('Customer paid $%s online (%s); pending posting in Acumatica',
+        to_char(p_amount_paid, 'FM999,999,990.00'), array_to_string(v_refs, ', ')),
+      jsonb_build_object('source', 'stripe', 'payment_record_id', v_record_id)
+    );
+  END IF;
+
+  RETURN v_record_id;
+END;
+$$;
+
+-- =========================================================================
+-- 5. Posting confirmation from the Acumatica sync
+-- =========================================================================
+CREATE OR REPLACE FUNCTION confirm_stripe_invoice_postings()
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_confirmed integer := 0;
+  v_count integer;
+BEGIN
+  -- An application of the same amount to the same invoice, dated on or after
+  -- the Stripe payment and not already claimed by another Stripe payment.
+  WITH matched AS (
+    SELECT DISTINCT ON (sip.id)
+      sip.id,
+      p.reference_number
+    FROM stripe_invoice_payments sip
+    JOIN payment_invoice_applications pia
+      ON pia.invoice_reference_number = sip.invoice_reference_number
+     AND pia.application_date::date >= sip.payment_date::date
+     AND abs(pia.amount_paid - sip.amount_paid) <= 0.01
+    JOIN acumatica_payments p
+      ON p.id = pia.payment_id
+     AND p.organization_id = sip.organization_id
+    WHERE sip.status = 'pending_posting'
+      AND NOT EXISTS (
+        SELECT 1 FROM stripe_invoice_payments other
+        WHERE other.organization_id = sip.organization_id
+          AND other.invoice_reference_number = sip.invoice_reference_number
+          AND other.acumatica_payment_reference = p.reference_number
+      )
+    ORDER BY sip.id, pia.application_date
+  )
+  UPDATE stripe_invoice_payments sip
+  SET status = 'posted',
+      acumatica_payment_reference = matched.reference_number,
+      posted_at = now()
+  FROM matched
+  WHERE sip.id = matched.id;
+
+  GET DIAGNOSTICS v_count = ROW_COUNT;
+  v_confirmed := v_confirmed + v_count;
+
+  -- Fallback for applications the sync has not linked yet: the invoice
+  -- balance has come down by at least what was paid online.
+  UPDATE stripe_invoice_payments sip
+  SET status = 'posted',
+      posted_at = now()
+  FROM acumatica_invoices i
+  WHERE sip.status = 'pending_posting'
+    AND sip.balance_at_payment IS NOT NULL
+    AND i.organization_id = sip.organization_id
+    AND i.reference_number = sip.invoice_reference_number
+    AND i.type NOT IN ('Credit Memo', 'Credit WO')
+    AND COALESCE(i.balance, 0) <= sip.balance_at_payment - sip.amount_paid + 0.01;
+
+  GET DIAGNOSTICS v_count = ROW_COUNT;
+  v_confirmed := v_confirmed + v_count;
+
+  UPDATE stripe_payment_records r
+  SET posting_status = 'posted',
+      posted_at = now()
+  WHERE r.posting_status = 'pending_posting'
+    AND EXISTS (SELECT 1 FROM stripe_invoice_payments sip WHERE sip.payment_record_id = r.id)
+    AND NOT EXISTS (
+      SELECT 1 FROM stripe_invoice_payments sip
+      WHERE sip.payment_record_id = r.id
+        AND sip.status = 'pending_posting'
+    );
+
+  RETURN v_confirmed;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION record_stripe_checkout_payment(text, text, numeric, text, text, text, text, jsonb) FROM PUBLIC, anon, authenticated;
+REVOKE ALL ON FUNCTION confirm_stripe_invoice_postings() FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION record_stripe_checkout_payment(text, text, numeric, text, text, text, text, jsonb) TO service_role;
+GRANT EXECUTE ON FUNCTION confirm_stripe_invoice_postings() TO service_role;
+
+-- =========================================================================
+-- 6. Schedule
+-- =========================================================================
+DO $$
+BEGIN
+  IF EXISTS (SELECT 1 FROM cron.job WHERE jobname = 'confirm-stripe-invoice-postings') THEN
+    PERFORM cron.unschedule('confirm-stripe-invoice-postings');
+  END IF;
+END $$;
+
+SELECT cron.schedule(
+  'confirm-stripe-invoice-postings',
+  '*/30 * * * *',
+  'SELECT confirm_stripe_invoice_postings();'
+);
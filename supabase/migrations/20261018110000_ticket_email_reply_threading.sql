@@ -0,0 +1,71 @@
+/*
+  # Ticket Email Reply Threading
+
+  ## Summary
+  Outbound ticket emails are now tagged so a customer's reply can be traced
+  back to the ticket: each one gets a ticket-specific `Message-ID` and a
+  `[ref:<token>]` marker in the body (for mail clients that drop
+  In-Reply-To/References). `email-receiver` matches replies on either, stores
+  them in `ticket_email_threads` as inbound messages, logs them on the ticket
+  timeline, optionally reopens a closed ticket and notifies the assigned
+  collector.
+
+  ## Changes
+
+  ### `ticket_email_threads`
+  - `message_id` text: Message-ID header of the message
+  - `reply_token` text: token in the `[ref:...]` marker of outbound emails
+  - `inbound_email_id` uuid: the `inbound_emails` row a reply was saved as
+
+  ### `email_settings`
+  - `reopen_ticket_on_reply` boolean (default true): a reply to a resolved or
+    closed ticket sets it back to open
+  - `notify_collector_on_reply` boolean (default true): a reply creates a
+    high-priority reminder (with email notification) for the assigned collector
+
+  ### `ticket_activity_log`
+  Activity types `email_sent` and `email_received` are allowed.
+*/
+
+-- =========================================================================
+-- 1. ticket_email_threads
+-- =========================================================================
+ALTER TABLE ticket_email_threads
+ADD COLUMN IF NOT EXISTS message_id text,
+ADD COLUMN IF NOT EXISTS reply_token text,
+ADD COLUMN IF NOT EXISTS inbound_email_id uuid REFERENCES inbound_emails(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_ticket_email_threads_message_id
+  ON ticket_email_threads(message_id)
+  WHERE message_id IS NOT NULL;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_ticket_email_threads_reply_token
+  ON ticket_email_threads(reply_token)
+  WHERE reply_token IS NOT NULL;
+
+-- =========================================================================
+-- 2. email_settings
+-- =========================================================================
+ALTER TABLE email_settings
+ADD COLUMN IF NOT EXISTS reopen_ticket_on_reply boolean NOT NULL DEFAULT true,
+ADD COLUMN IF NOT EXISTS notify_collector_on_reply boolean NOT NULL DEFAULT true;
+
+-- =========================================================================
+-- 3. ticket_activity_log activity types
+-- =========================================================================
+ALTER TABLE ticket_activity_log
+  DROP CONSTRAINT IF EXISTS ticket_activity_log_activity_type_check;
+
+ALTER TABLE ticket_activity_log
+  ADD CONSTRAINT ticket_activity_log_activity_type_check
+  CHECK (activity_type IN (
+    'note',
+    'status_change',
+    'assignment_change',
+    'invoice_added',
+    'invoice_removed',
+    'created',
+    'priority_changed',
+    'email_sent',
+    'email_received'
+  ));
@@ -0,0 +1,721 @@
+/*
+  # Structured Promise-to-Pay Tracking
+
+  ## Summary
+  A promise to pay used to be a single `promise_date` on a ticket or invoice.
+  Promises are now records of their own: amount, one or more installments,
+  the invoices they cover, the channel the promise came through and the user
+  who took it. An hourly job checks each open promise against payments
+  applied in Acumatica and marks it kept, partially kept or broken.
+
+  `collection_tickets.promise_date` / `promise_by_user_id` are still set (to
+  the first installment date) when a promise is recorded on a ticket, so the
+  existing "promised" views and the cash forecast keep working. Promise dates
+  recorded before this migration are left as they are.
+
+  ## Evaluation
+  Payments counted toward a promise are those dated on or after the day the
+  promise was taken:
+  - promises covering invoices: `payment_invoice_applications` against those
+    invoices (by application date)
+  - promises without invoices: the customer's payments and prepayments in
+    `acumatica_payments` (by effective date)
+  Voided and cancelled payments are ignored.
+
+  Installments are checked cumulatively: installment N is kept once the
+  payments received by its due date (plus a grace period, 2 days by default)
+  cover installments 1..N. Past the grace period an installment that is not
+  covered is partially kept (something was paid toward it) or broken.
+  A promise is kept when all of its installments are; as soon as one
+  installment is missed the promise is closed as partially kept or broken.
+
+  When a promise is missed:
+  - a high-priority follow-up reminder (with email notification) is created
+    for the ticket's collector, or else the customer's collector, or else the
+    user who took the promise
+  - the ticket's priority goes up one level (low -> medium -> high -> urgent)
+  - both the outcome and the priority change are logged on the ticket
+
+  Recording a new promise on a ticket cancels the ticket's other open
+  promises (a renegotiated promise replaces the old one).
+
+  ## New Tables
+  - `payment_promises`: customer, optional ticket, `promised_amount`,
+    `amount_paid`, `promise_date` (last installment), `channel`
+    (phone | email | meeting | portal | other), `taken_by`, `notes`,
+    `status` (open | kept | partially_kept | broken | cancelled),
+    `evaluated_at`, `closed_at`
+  - `payment_promise_installments`: `installment_number`, `due_date`,
+    `amount`, `amount_paid`, `status` (pending | kept | partially_kept | broken)
+  - `payment_promise_invoices`: invoices covered, with the balance when the
+    promise was taken
+
+  ## New Functions
+  - `create_payment_promise(customer_id, installments, invoice_references,
+    ticket_id, channel, notes)` - records a promise for the caller's org
+  - `cancel_payment_promise(promise_id, reason)`
+  - `payment_promise_paid_amount(promise_id, through)` - payments counted
+  - `evaluate_payment_promises(organization_id, grace_days)` - the evaluator;
+    scheduled hourly at :15 for all organizations
+  - `refresh_payment_promises()` - runs the evaluator for the caller's org
+  - `get_collector_promise_stats(days_back)` - promise-kept rate per user
+    who took promises, for the Collector Dashboard
+
+  ## Security
+  - RLS enabled on all three tables; org members can read their
+    organization's rows, writes go through the functions above
+  - The evaluator is executable by the service role only
+*/
+
+-- =========================================================================
+-- 1. Tables
+-- =========================================================================
+CREATE TABLE IF NOT EXISTS payment_promises (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  organization_id uuid NOT NULL REFERENCES organizations(id) ON DELETE CASCADE,
+  customer_id text NOT NULL,
+  customer_name text,
+  ticket_id uuid REFERENCES collection_tickets(id) ON DELETE SET NULL,
+  promised_amount numeric(18, 2) NOT NULL CHECK (promised_amount > 0),
+  amount_paid numeric(18, 2) NOT NULL DEFAULT 0,
+  promise_date date NOT NULL,
+  channel text NOT NULL DEFAULT 'phone'
+    CHECK (channel IN ('phone', 'email', 'meeting', 'portal', 'other')),
+  taken_by uuid REFERENCES user_profiles(id) ON DELETE SET NULL,
+  notes text,
+  status text NOT NULL DEFAULT 'open'
+    CHECK (status IN ('open', 'kept', 'partially_kept', 'broken', 'cancelled')),
+  evaluated_at timestamptz,
+  closed_at timestamptz,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_payment_promises_status
+  ON payment_promises(organization_id, status, promise_date);
+
+CREATE INDEX IF NOT EXISTS idx_payment_promises_ticket
+  ON payment_promises(ticket_id)
+  WHERE ticket_id IS NOT NULL;
+
+CREATE INDEX IF NOT EXISTS idx_payment_promises_customer
+  ON payment_promises(organization_id, customer_id);
+
+CREATE INDEX IF NOT EXISTS idx_payment_promises_taken_by
+  ON payment_promises(taken_by, created_at);
+
+CREATE TABLE IF NOT EXISTS payment_promise_installments (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  promise_id uuid NOT NULL REFERENCES payment_promises(id) ON DELETE CASCADE,
+  installment_number integer NOT NULL,
+  due_date date NOT NULL,
+  amount numeric(18, 2) NOT NULL CHECK (amount > 0),
+  amount_paid numeric(18, 2) NOT NULL DEFAULT 0,
+  status text NOT NULL DEFAULT 'pending'
+    CHECK (status IN ('pending', 'kept', 'partially_kept', 'broken')),
+  evaluated_at timestamptz,
+  UNIQUE (promise_id, installment_number)
+);
+
+CREATE TABLE IF NOT EXISTS payment_promise_invoices (
+  promise_id uuid NOT NULL REFERENCES payment_promises(id) ON DELETE CASCADE,
+  invoice_reference_number text NOT NULL,
+  balance_at_promise numeric(18, 2),
+  PRIMARY KEY (promise_id, invoice_reference_number)
+);
+
+CREATE INDEX IF NOT EXISTS idx_payment_promise_invoices_reference
+  ON payment_promise_invoices(invoice_reference_number);
+
+ALTER TABLE payment_promises ENABLE ROW LEVEL SECURITY;
+ALTER TABLE payment_promise_installments ENABLE ROW LEVEL SECURITY;
+ALTER TABLE payment_promise_invoices ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Org members can view payment promises" ON payment_promises;
+CREATE POLICY "Org members can view payment promises"
+  ON payment_promises FOR SELECT
+  TO authenticated
+  USING (organization_id = get_user_org_id());
+
+DROP POLICY IF EXISTS "Org members can view payment promise installments" ON payment_promise_installments;
+CREATE POLICY "Org members can view payment promise installments"
+  ON payment_promise_installments FOR SELECT
+  TO authenticated
+  USING (EXISTS (
+    SELECT 1 FROM payment_promises pp
+    WHERE pp.id = promise_id
+      AND pp.organization_id = get_user_org_id()
+  ));
+
+DROP POLICY IF EXISTS "Org members can view payment promise invoices" ON payment_promise_invoices;
+CREATE POLICY "Org members can view payment promise invoices"
+  ON payment_promise_invoices FOR SELECT
+  TO authenticated
+  USING (EXISTS (
+    SELECT 1 FROM payment_promises pp
+    WHERE pp.id = promise_id
+      AND pp.organization_id = get_user_org_id()
+  ));
+
+-- =========================================================================
+-- 2. Recording and cancelling promises
+-- =========================================================================
+CREATE OR REPLACE FUNCTION create_payment_promise(
+  p_customer_id text,
+  p_installments jsonb,
+  p_invoice_references text[] DEFAULT '{}',
+  p_ticket_id uuid DEFAULT NULL,
+  p_channel text DEFAULT 'phone',
+  p_notes text DEFAULT NULL
+)
+RETURNS payment_promises
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_org_id uuid := get_user_org_id();
+  v_ticket record;
+  v_customer_id text := NULLIF(trim(COALESCE(p_customer_id, '')), '');
+  v_customer_name text;
+  v_total numeric;
+  v_first_date date;
+  v_last_date date;
+  v_count integer;
+  v_promise payment_promises;
+BEGIN
+  IF v_org_id IS NULL THEN
+    RAISE EXCEPTION 'No organization for current user';
+  END IF;
+
+  IF p_ticket_id IS NOT NULL THEN
+    SELECT id, customer_id, customer_name INTO v_ticket
+    FROM collection_tickets
+    WHERE id = p_ticket_id
+      AND organization_id = v_org_id;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Ticket not found';
+    END IF;
+
+    v_customer_id := COALESCE(v_customer_id, v_ticket.customer_id);
+    v_customer_name := v_ticket.customer_name;
+  END IF;
+
+  IF v_customer_id IS NULL THEN
+    RAISE EXCEPTION 'A customer is required';
+  END IF;
+
+  IF p_installments IS NULL
+     OR jsonb_typeof(p_installments) <> 'array'
+     OR jsonb_array_length(p_installments) = 0 THEN
+    RAISE EXCEPTION 'At least one installment is required';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1
+    FROM jsonb_array_elements(p_installments) i
+    WHERE NULLIF(i->>'due_date', '') IS NULL
+       OR COALESCE((i->>'amount')::numeric, 0) <= 0
+  ) THEN
+    RAISE EXCEPTION 'Each installment needs a date and an amount greater than zero';
+  END IF;
+
+  SELECT
+    SUM((i->>'amount')::numeric),
+    MIN((i->>'due_date')::date),
+    MAX((i->>'due_date')::date),
+    COUNT(*)
+  INTO v_total, v_first_date, v_last_date, v_count
+  FROM jsonb_array_elements(p_installments) i;
+
+  IF v_first_date < CURRENT_DATE THEN
+    RAISE EXCEPTION 'Promise dates cannot be in the past';
+  END IF;
+
+  IF v_customer_name IS NULL THEN
+    SELECT customer_name INTO v_customer_name
+    FROM acumatica_customers
+    WHERE customer_id = v_customer_id
+      AND organization_id = v_org_id
+    LIMIT 1;
+  END IF;
+
+  IF p_ticket_id IS NOT NULL THEN
+    UPDATE payment_promises
+    SET status = 'cancelled',
+        closed_at = now(),
+        updated_at = now(),
+        notes = concat_ws(E'\n', notes, 'Replaced by a new promise')
+    WHERE ticket_id = p_ticket_id
+      AND status = 'open';
+  END IF;
+
+  INSERT INTO payment_promises (
+    organization_id, customer_id, customer_name, ticket_id,
+    promised_amount, promise_date, channel, taken_by, notes
+  ) VALUES (
+    v_org_id, v_customer_id, v_customer_name, p_ticket_id,
+    v_total, v_last_date, COALESCE(p_channel, 'phone'), auth.uid(),
+    NULLIF(trim(COALESCE(p_notes, '')), '')
+  )
+  RETURNING * INTO v_promise;
+
+  INSERT INTO payment_promise_installments (promise_id, installment_number, due_date, amount)
+  SELECT
+    v_promise.id,
+    ROW_NUMBER() OVER (ORDER BY (i->>'due_date')::date, ord),
+    (i->>'due_date')::date,
+    ROUND((i->>'amount')::numeric, 2)
+  FROM jsonb_array_elements(p_installments) WITH ORDINALITY AS t(i, ord);
+
+  INSERT INTO payment_promise_invoices (promise_id, invoice_reference_number, balance_at_promise)
+  SELECT
+    v_promise.id,
+    r.reference_number,
+    (
+      SELECT inv.balance
+      FROM acumatica_invoices inv
+      WHERE inv.reference_number = r.reference_number
+        AND inv.organization_id = v_org_id
+      LIMIT 1
+    )
+  FROM (SELECT DISTINCT unnest(COALESCE(p_invoice_references, '{}')) AS reference_number) r
+  WHERE NULLIF(trim(r.reference_number), '') IS NOT NULL;
+
+  IF p_ticket_id IS NOT NULL THEN
+    UPDATE collection_tickets
+    SET promise_date = v_first_date,
+        promise_by_user_id = auth.uid(),
+        status = 'promised',
+        updated_at = now()
+    WHERE id = p_ticket_id;
+
+    INSERT INTO ticket_activity_log (ticket_id, activity_type, description, created_by, metadata)
+    VALUES (
+      p_ticket_id,
+      'note',
+      CASE
+        WHEN v_count > 1 THEN format(
+          'Promise to pay $%s in %s installments, %s to %s (via %s)',
+          to_char(v_total, 'FM999,999,990.00'), v_count,
+          to_char(v_first_date, 'Mon DD, YYYY'), to_char(v_last_date, 'Mon DD, YYYY'),
+          v_promise.channel
+        )
+        ELSE format(
+          'Promise to pay $%s by %s (via %s)',
+          to_char(v_total, 'FM999,999,990.00'), to_char(v_last_date, 'Mon DD, YYYY'),
+          v_promise.channel
+        )
+      END,
+      auth.uid(),
+      jsonb_build_object(
+        'promise_id', v_promise.id,
+        'promise_date', v_first_date,
+        'promised_amount', v_total,
+        'installments', v_count,
+        'customer_name', v_customer_name
+      )
+    );
+  END IF;
+
+  RETURN v_promise;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION cancel_payment_promise(
+  p_promise_id uuid,
+  p_reason text DEFAULT NULL
+)
+RETURNS payment_promises
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_promise payment_promises;
+BEGIN
+  UPDATE payment_promises
+  SET status = 'cancelled',
+      closed_at = now(),
+      updated_at = now(),
+      notes = concat_ws(E'\n', notes, NULLIF(trim(COALESCE(p_reason, '')), ''))
+  WHERE id = p_promise_id
+    AND organization_id = get_user_org_id()
+    AND status = 'open'
+  RETURNING * INTO v_promise;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Only open promises can be cancelled';
+  END IF;
+
+  IF v_promise.ticket_id IS NOT NULL THEN
+    INSERT INTO ticket_activity_log (ticket_id, activity_type, description, created_by, metadata)
+    VALUES (
+      v_promise.ticket_id,
+      'note',
+      format('Promise to pay $%s by %s cancelled',
+        to_char(v_promise.promised_amount, 'FM999,999,990.00'),
+        to_char(v_promise.promise_date, 'Mon DD, YYYY')),
+      auth.uid(),
+      jsonb_build_object('promise_id', v_promise.id, 'reason', p_reason)
+    );
+  END IF;
+
+  RETURN v_promise;
+END;
+$$;
+
+-- =========================================================================
+-- 3. Evaluation
+-- =========================================================================
+CREATE OR REPLACE FUNCTION payment_promise_paid_amount(
+  p_promise_id uuid,
+  p_through date
+)
+RETURNS numeric
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT CASE
+    WHEN EXISTS (SELECT 1 FROM payment_promise_invoices ppi WHERE ppi.promise_id = pp.id) THEN (
+      SELECT COALESCE(SUM(pia.amount_paid), 0)
+      FROM payment_invoice_applications pia
+      JOIN acumatica_payments p
+        ON p.id = pia.payment_id
+       AND p.organization_id = pp.organization_id
+      WHERE pia.invoice_reference_number IN (
+          SELECT ppi.invoice_reference_number
+          FROM payment_promise_invoices ppi
+          WHERE ppi.promise_id = pp.id
+        )
+        AND pia.amount_paid > 0
+        AND p.status NOT IN ('Voided', 'Cancelled')
+        AND pia.application_date::date >= pp.created_at::date
+        AND pia.application_date::date <= p_through
+    )
+    ELSE (
+      SELECT COALESCE(SUM(p.payment_amount), 0)
+      FROM acumatica_payments p
+      WHERE p.organization_id = pp.organization_id
+        AND p.customer_id = pp.customer_id
+        AND p.type IN ('Payment', 'Prepayment')
+        AND p.status NOT IN ('Voided', 'Cancelled')
+        AND p.effective_date::date >= pp.created_at::date
+        AND p.effective_date::date <= p_through
+    )
+  END
+  FROM payment_promises pp
+  WHERE pp.id = p_promise_id;
+$$;
+
+CREATE OR REPLACE FUNCTION handle_missed_payment_promise(p_promise payment_promises)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_ticket collection_tickets;
+  v_assignee uuid;
+  v_outcome text := CASE WHEN p_promise.status = 'broken' THEN 'broken' ELSE 'partially kept' END;
+  v_new_priority text;
+  v_missed payment_promise_installments;
+BEGIN
+  IF p_promise.ticket_id IS NOT NULL THEN
+    SELECT * INTO v_ticket
+    FROM collection_tickets
+    WHERE id = p_promise.ticket_id;
+  END IF;
+
+  SELECT * INTO v_missed
+  FROM payment_promise_installments
+  WHERE promise_id = p_promise.id
+    AND status IN ('partially_kept', 'broken')
+  ORDER BY installment_number
+  LIMIT 1;
+
+  v_assignee := COALESCE(
+    v_ticket.assigned_collector_id,
+    (
+      SELECT assigned_collector_id
+      FROM collector_customer_assignments
+      WHERE customer_id = p_promise.customer_id
+      ORDER BY assigned_at DESC
+      LIMIT 1
+    ),
+    p_promise.taken_by
+  );
+
+  IF v_assignee IS NOT NULL THEN
+    INSERT INTO invoice_reminders (
+      user_id,
+      ticket_id,
+      invoice_reference_number,
+      reminder_date,
+      title,
+      description,
+      priority,
+      reminder_type,
+      send_email_notification
+    ) VALUES (
+      v_assignee,
+      p_promise.ticket_id,
+      (
+        SELECT invoice_reference_number
+        FROM payment_promise_invoices
+        WHERE promise_id = p_promise.id
+        ORDER BY invoice_reference_number
+        LIMIT 1
+      ),
+      now(),
+      format('Promise %s: %s', v_outcome, COALESCE(p_promise.customer_name, p_promise.customer_id)),
+      format(
+        '$%s was due %s; $%s received toward it. Total received on the $%s promise: $%s.',
+        to_char(v_missed.amount, 'FM999,999,990.00'),
+        to_char(v_missed.due_date, 'Mon DD, YYYY'),
+        to_char(v_missed.amount_paid, 'FM999,999,990.00'),
+        to_char(p_promise.promised_amount, 'FM999,999,990.00'),
+        to_char(p_promise.amount_paid, 'FM999,999,990.00')
+      ),
+      'high',
+      'follow_up',
+      true
+    );
+  END IF;
+
+  IF v_ticket.id IS NULL THEN
+    RETURN;
+  END IF;
+
+  INSERT INTO ticket_activity_log (ticket_id, activity_type, description, metadata)
+  VALUES (
+    v_ticket.id,
+    'note',
+    format('Promise %s: $%s due %s, $%s received',
+      v_outcome,
+      to_char(v_missed.amount, 'FM999,999,990.00'),
+      to_char(v_missed.due_date, 'Mon DD, YYYY'),
+      to_char(v_missed.amount_paid, 'FM999,999,990.00')),
+    jsonb_build_object('promise_id', p_promise.id, 'promise_status', p_promise.status)
+  );
+
+  IF v_ticket.status = 'closed' THEN
+    RETURN;
+  END IF;
+
+  v_new_priority := CASE v_ticket.priority
+    WHEN 'low' THEN 'medium'
+    WHEN 'medium' THEN 'high'
+    ELSE 'urgent'
+  END;
+
+  IF v_new_priority <> v_ticket.priority THEN
+    UPDATE collection_tickets
+    SET priority = v_new_priority,
+        updated_at = now()
+    WHERE id = v_ticket.id;
+
+    INSERT INTO ticket_activity_log (ticket_id, activity_type, description, metadata)
+    VALUES (
+      v_ticket.id,
+      'priority_changed',
+      format('Priority changed from %s to %s (promise %s)', v_ticket.priority, v_new_priority, v_outcome),
+      jsonb_build_object('from', v_ticket.priority, 'to', v_new_priority, 'promise_id', p_promise.id)
+    );
+  END IF;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION evaluate_payment_promises(
+  p_organization_id uuid DEFAULT NULL,
+  p_grace_days integer DEFAULT 2
+)
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_promise payment_promises;
+  v_inst record;
+  v_paid_total numeric;
+  v_paid numeric;
+  v_prior numeric;
+  v_inst_paid numeric;
+  v_inst_status text;
+  v_all_kept boolean;
+  v_any_missed boolean;
+  v_status text;
+  v_closed integer := 0;
+BEGIN
+  FOR v_promise IN
+    SELECT *
+    FROM payment_promises
+    WHERE status = 'open'
+      AND (p_organization_id IS NULL OR organization_id = p_organization_id)
+    ORDER BY created_at
+    FOR UPDATE SKIP LOCKED
+  LOOP
+    v_paid_total := payment_promise_paid_amount(v_promise.id, CURRENT_DATE);
+    v_prior := 0;
+    v_all_kept := true;
+    v_any_missed := false;
+
+    FOR v_inst IN
+      SELECT *
+      FROM payment_promise_installments
+      WHERE promise_id = v_promise.id
+      ORDER BY installment_number
+    LOOP
+      IF v_inst.due_date + p_grace_days < CURRENT_DATE THEN
+        v_paid := payment_promise_paid_amount(v_promise.id, v_inst.due_date + p_grace_days);
+      ELSE
+        v_paid := v_paid_total;
+      END IF;
+
+      v_inst_paid := LEAST(GREATEST(v_paid - v_prior, 0), v_inst.amount);
+      v_inst_status := CASE
+        WHEN v_inst_paid >= v_inst.amount THEN 'kept'
+        WHEN v_inst.due_date + p_grace_days >= CURRENT_DATE THEN 'pending'
+        WHEN v_inst_paid > 0 THEN 'partially_kept'
+        ELSE 'broken'
+      END;
+
+      UPDATE payment_promise_installments
+      SET amount_paid = v_inst_paid,
+          status = v_inst_status,
+          evaluated_at = now()
+      WHERE id = v_inst.id;
+
+      v_prior := v_prior + v_inst.amount;
+      v_all_kept := v_all_kept AND v_inst_status = 'kept';
+      v_any_missed := v_any_missed OR v_inst_status IN ('partially_kept', 'broken');
+    END LOOP;
+
+    v_status := CASE
+      WHEN v_all_kept THEN 'kept'
+      WHEN v_any_missed AND v_paid_total > 0 THEN 'partially_kept'
+      WHEN v_any_missed THEN 'broken'
+      ELSE 'open'
+    END;
+
+    UPDATE payment_promises
+    SET amount_paid = v_paid_total,
+        status = v_status,
+        evaluated_at = now(),
+        closed_at = CASE WHEN v_status <> 'open' THEN now() END,
+        updated_at = now()
+    WHERE id = v_promise.id
+    RETURNING * INTO v_promise;
+
+    IF v_status IN ('partially_kept', 'broken') THEN
+      PERFORM handle_missed_payment_promise(v_promise);
+    ELSIF v_status = 'kept' AND v_promise.ticket_id IS NOT NULL THEN
+      INSERT INTO ticket_activity_log (ticket_id, activity_type, description, metadata)
+      VALUES (
+        v_promise.ticket_id,
+        'note',
+        format('Promise kept: $%s received', to_char(v_paid_total, 'FM999,999,990.00')),
+        jsonb_build_object('promise_id', v_promise.id, 'promise_status', 'kept')
+      );
+    END IF;
+
+    IF v_status <> 'open' THEN
+      v_closed := v_closed + 1;
+    END IF;
+  END LOOP;
+
+  RETURN v_closed;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION refresh_payment_promises()
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_org_id uuid := get_user_org_id();
+BEGIN
+  IF v_org_id IS NULL THEN
+    RAISE EXCEPTION 'No organization for current user';
+  END IF;
+
+  RETURN evaluate_payment_promises(v_org_id);
+END;
+$$;
+
+-- =========================================================================
+-- 4. Collector stats
+-- =========================================================================
+CREATE OR REPLACE FUNCTION get_collector_promise_stats(p_days_back integer DEFAULT 30)
+RETURNS TABLE (
+  collector_id uuid,
+  promises_made integer,
+  promises_open integer,
+  promises_kept integer,
+  promises_partially_kept integer,
+  promises_broken integer,
+  promised_amount numeric,
+  received_amount numeric,
+  kept_rate numeric
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT
+    pp.taken_by,
+    COUNT(*)::integer,
+    COUNT(*) FILTER (WHERE pp.status = 'open')::integer,
+    COUNT(*) FILTER (WHERE pp.status = 'kept')::integer,
+    COUNT(*) FILTER (WHERE pp.status = 'partially_kept')::integer,
+    COUNT(*) FILTER (WHERE pp.status = 'broken')::integer,
+    SUM(pp.promised_amount),
+    SUM(LEAST(pp.amount_paid, pp.promised_amount)),
+    ROUND(
+      100.0 * COUNT(*) FILTER (WHERE pp.status = 'kept')
+        / NULLIF(COUNT(*) FILTER (WHERE pp.status IN ('kept', 'partially_kept', 'broken')), 0),
+      1
+    )
+  FROM payment_promises pp
+  WHERE pp.organization_id = get_user_org_id()
+    AND pp.taken_by IS NOT NULL
+    AND pp.status <> 'cancelled'
+    AND pp.created_at >= now() - make_interval(days => GREATEST(p_days_back, 1))
+  GROUP BY pp.taken_by;
+$$;
+
+REVOKE ALL ON FUNCTION payment_promise_paid_amount(uuid, date) FROM PUBLIC, anon, authenticated;
+REVOKE ALL ON FUNCTION handle_missed_payment_promise(payment_promises) FROM PUBLIC, anon, authenticated;
+REVOKE ALL ON FUNCTION evaluate_payment_promises(uuid, integer) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION evaluate_payment_promises(uuid, integer) TO service_role;
+
+REVOKE ALL ON FUNCTION create_payment_promise(text, jsonb, text[], uuid, text, text) FROM PUBLIC, anon;
+REVOKE ALL ON FUNCTION cancel_payment_promise(uuid, text) FROM PUBLIC, anon;
+REVOKE ALL ON FUNCTION refresh_payment_promises() FROM PUBLIC, anon;
+REVOKE ALL ON FUNCTION get_collector_promise_stats(integer) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION create_payment_promise(text, jsonb, text[], uuid, text, text) TO authenticated;
+GRANT EXECUTE ON FUNCTION cancel_payment_promise(uuid, text) TO authenticated;
+GRANT EXECUTE ON FUNCTION refresh_payment_promises() TO authenticated;
+GRANT EXECUTE ON FUNCTION get_collector_promise_stats(integer) TO authenticated;
+
+-- =========================================================================
+-- 5. Hourly evaluation
+-- =========================================================================
+DO $$
+BEGIN
+  IF EXISTS (SELECT 1 FROM cron.job WHERE jobname = 'evaluate-payment-promises') THEN
+    PERFORM cron.unschedule('evaluate-payment-promises');
+  END IF;
+END $$;
+
+SELECT cron.schedule(
+  'evaluate-payment-promises',
+  '15 * * * *',
+  'SELECT evaluate_payment_promises();'
+);
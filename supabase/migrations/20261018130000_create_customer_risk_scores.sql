@@ -0,0 +1,912 @@
+/*
+  # Customer Risk Scores
+
+  ## Summary
+  Every night each customer with open invoices or recent payments gets a risk
+  score from 0 (low) to 100 (very likely to go bad), together with the factors
+  that produced it, so collectors can see who to call first and why. Scores
+  are kept as daily history for the trend chart on the customer page, and the
+  latest score can be used in auto-ticket rules (`risk_score` condition).
+
+  ## Scoring
+  Seven factors each add up to a fixed number of points (as of date D):
+
+  - `days_to_pay_trend` (max 20): 0.5 per day the amount-weighted days to
+    pay over the last 90 days exceeds the 91-365 day baseline
+    (`payment_invoice_applications`)
+  - `overdue_percentage` (max 20): 0.2 per percent of open invoices past due
+  - `payment_amount_drop` (max 15): 0.15 per percent last month's payments
+    fell below the 6 month average
+  - `credit_utilization` (max 15): 0 at 50% of the credit limit, 15 at 100%
+  - `payment_frequency_change` (max 10): 1 per 3 days the latest gap between
+    payments differs from the 6 month average
+  - `broken_promises` (max 10): 5 per promise broken or partially kept in the
+    last 180 days
+  - `dispute_frequency` (max 10): 4 per dispute opened in the last 180 days
+
+  Overdue percentage, payment amount drop and frequency change are measured
+  by `evaluate_auto_ticket_condition`, so they match the auto-ticket
+  conditions of the same name. Risk levels: low < 25 <= medium < 50 <= high
+  < 70 <= critical.
+
+  ## New Tables
+  - `customer_risk_scores`: latest score per customer (`score`, `risk_level`,
+    `factors`, `previous_score`, `score_date`)
+  - `customer_risk_score_history`: one row per customer and day
+
+  `factors` is an array of `{factor, label, value, points, max_points, detail}`.
+
+  ## New Functions
+  - `compute_customer_risk_score(customer_id, organization_id, as_of)` -
+    returns `{score, risk_level, factors}`
+  - `capture_customer_risk_scores(organization_id)` - scores every active
+    customer (of one organization, or all); scheduled daily at 05:00 UTC
+
+  ## Modified Functions
+  - `evaluate_auto_ticket_condition` handles `risk_score`: the customer's
+    latest score on or before the as-of date, computed on the fly when the
+    customer has not been scored yet
+  - `get_customers_with_balance` returns `risk_score` / `risk_level` and
+    sorts by `risk_score` (unscored customers last)
+
+  ## Security
+  - RLS enabled on both tables; org members read their organization's scores
+  - The capture function is executable by the service role only
+*/
+
+-- =========================================================================
+-- 1. Tables
+-- =========================================================================
+CREATE TABLE IF NOT EXISTS customer_risk_scores (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  organization_id uuid NOT NULL REFERENCES organizations(id) ON DELETE CASCADE,
+  customer_id text NOT NULL,
+  customer_name text,
+  score numeric(5, 1) NOT NULL DEFAULT 0,
+  risk_level text NOT NULL DEFAULT 'low'
+    CHECK (risk_level IN ('low', 'medium', 'high', 'critical')),
+  factors jsonb NOT NULL DEFAULT '[]'::jsonb,
+  previous_score numeric(5, 1),
+  score_date date NOT NULL,
+  computed_at timestamptz NOT NULL DEFAULT now(),
+  UNIQUE (organization_id, customer_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_customer_risk_scores_score
+  ON customer_risk_scores(organization_id, score DESC);
+
+CREATE TABLE IF NOT EXISTS customer_risk_score_history (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  organization_id uuid NOT NULL REFERENCES organizations(id) ON DELETE CASCADE,
+  customer_id text NOT NULL,
+  score_date date NOT NULL,
+  score numeric(5, 1) NOT NULL,
+  risk_level text NOT NULL,
+  factors jsonb NOT NULL DEFAULT '[]'::jsonb,
+  UNIQUE (organization_id, customer_id, score_date)
+);
+
+CREATE INDEX IF NOT EXISTS idx_customer_risk_score_history_customer
+  ON customer_risk_score_history(customer_id, score_date DESC);
+
+ALTER TABLE customer_risk_scores ENABLE ROW LEVEL SECURITY;
+ALTER TABLE customer_risk_score_history ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Org members can view customer risk scores" ON customer_risk_scores;
+CREATE POLICY "Org members can view customer risk scores"
+  ON customer_risk_scores FOR SELECT
+  TO authenticated
+  USING (organization_id = get_user_org_id());
+
+DROP POLICY IF EXISTS "Org members can view customer risk score history" ON customer_risk_score_history;
+CREATE POLICY "Org members can view customer risk score history"
+  ON customer_risk_score_history FOR SELECT
+  TO authenticated
+  USING (organization_id = get_user_org_id());
+
+-- =========================================================================
+-- 2. Scoring
+-- =========================================================================
+CREATE OR REPLACE FUNCTION compute_customer_risk_score(
+  p_customer_id text,
+  p_organization_id uuid,
+  p_as_of date DEFAULT CURRENT_DATE
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+STABLE
+SET search_path = public
+AS $$
+DECLARE
+  v_recent_dtp numeric;
+  v_baseline_dtp numeric;
+  v_trend numeric;
+  v_overdue_pct numeric;
+  v_amount_drop numeric;
+  v_frequency_change numeric;
+  v_credit_limit numeric;
+  v_open_balance numeric;
+  v_utilization numeric;
+  v_broken integer;
+  v_disputes integer;
+  v_factors jsonb := '[]'::jsonb;
+  v_points numeric;
+  v_score numeric := 0;
+BEGIN
+  -- Days to pay: application date minus invoice date, weighted by amount
+  SELECT
+    SUM((pia.application_date::date - i.date) * pia.amount_paid)
+      FILTER (WHERE pia.application_date::date > p_as_of - 90)
+      / NULLIF(SUM(pia.amount_paid) FILTER (WHERE pia.application_date::date > p_as_of - 90), 0),
+    SUM((pia.application_date::date - i.date) * pia.amount_paid)
+      FILTER (WHERE pia.application_date::date <= p_as_of - 90)
+      / NULLIF(SUM(pia.amount_paid) FILTER (WHERE pia.application_date::date <= p_as_of - 90), 0)
+  INTO v_recent_dtp, v_baseline_dtp
+  FROM payment_invoice_applications pia
+  JOIN acumatica_invoices i
+    ON i.reference_number = pia.invoice_reference_number
+   AND i.organization_id = p_organization_id
+  WHERE pia.customer_id = p_customer_id
+    AND pia.doc_type = 'Invoice'
+    AND pia.amount_paid > 0
+    AND pia.application_date::date > p_as_of - 365
+    AND pia.application_date::date <= p_as_of;
+
+  v_trend := round(v_recent_dtp - v_baseline_dtp, 1);
+  v_points := LEAST(20, GREATEST(0, COALESCE(v_trend, 0)) * 0.5);
+  v_factors := v_factors || jsonb_build_object(
+    'factor', 'days_to_pay_trend',
+    'label', 'Days-to-pay trend',
+    'value', v_trend,
+    'points', round(v_points, 1),
+    'max_points', 20,
+    'detail', CASE
+      WHEN v_trend IS NULL THEN 'Not enough payment history'
+      ELSE format('%s days to pay (last 90 days) vs %s before', round(v_recent_dtp), round(v_baseline_dtp))
+    END
+  );
+  v_score := v_score + v_points;
+
+  SELECT NULLIF(evaluate_auto_ticket_condition(
+    p_customer_id,
+    jsonb_build_object('condition_type', 'overdue_percentage', 'operator', 'gt', 'value_numeric', 0),
+    p_as_of, p_organization_id
+  )->>'actual', '')::numeric INTO v_overdue_pct;
+
+  v_points := LEAST(20, COALESCE(v_overdue_pct, 0) * 0.2);
+  v_factors := v_factors || jsonb_build_object(
+    'factor', 'overdue_percentage',
+    'label', 'Invoices overdue',
+    'value', v_overdue_pct,
+    'points', round(v_points, 1),
+    'max_points', 20,
+    'detail', format('%s%% of open invoices past due', COALESCE(v_overdue_pct, 0))
+  );
+  v_score := v_score + v_points;
+
+  SELECT NULLIF(evaluate_auto_ticket_condition(
+    p_customer_id,
+    jsonb_build_object('condition_type', 'payment_amount_drop', 'operator', 'pct_drop', 'value_numeric', 0),
+    p_as_of, p_organization_id
+  )->>'actual', '')::numeric INTO v_amount_drop;
+
+  v_points := LEAST(15, GREATEST(0, COALESCE(v_amount_drop, 0)) * 0.15);
+  v_factors := v_factors || jsonb_build_object(
+    'factor', 'payment_amount_drop',
+    'label', 'Payment amount drop',
+    'value', v_amount_drop,
+    'points', round(v_points, 1),
+    'max_points', 15,
+    'detail', CASE
+      WHEN v_amount_drop IS NULL THEN 'No payments in the last 6 months'
+      WHEN v_amount_drop > 0 THEN format('Last month''s payments %s%% below the 6 month average', v_amount_drop)
+      ELSE 'Last month''s payments at or above the 6 month average'
+    END
+  );
+  v_score := v_score + v_points;
+
+  SELECT c.credit_limit INTO v_credit_limit
+  FROM acumatica_customers c
+  WHERE c.customer_id = p_customer_id
+    AND c.organization_id = p_organization_id;
+
+  SELECT COALESCE(SUM(i.balance), 0) INTO v_open_balance
+  FROM acumatica_invoices i
+  WHERE i.customer = p_customer_id
+    AND i.organization_id = p_organization_id
+    AND i.status IN ('Open', 'open')
+    AND i.type IN ('Invoice', 'Debit Memo')
+    AND i.balance > 0;
+
+  v_utilization := CASE WHEN v_credit_limit > 0 THEN round(v_open_balance / v_credit_limit * 100, 1) END;
+  v_points := LEAST(15, GREATEST(0, (COALESCE(v_utilization, 0) - 50) * 0.3));
+  v_factors := v_factors || jsonb_build_object(
+    'factor', 'credit_utilization',
+    'label', 'Credit limit utilization',
+    'value', v_utilization,
+    'points', round(v_points, 1),
+    'max_points', 15,
+    'detail', CASE
+      WHEN v_utilization IS NULL THEN 'No credit limit set'
+      ELSE format('%s%% of a %s credit limit in use', v_utilization, to_char(v_credit_limit, 'FM$999,999,999,990'))
+    END
+  );
+  v_score := v_score + v_points;
+
+  SELECT NULLIF(evaluate_auto_ticket_condition(
+    p_customer_id,
+    jsonb_build_object('condition_type', 'payment_frequency_change', 'operator', 'gt', 'value_numeric', 0),
+    p_as_of, p_organization_id
+  )->>'actual', '')::numeric INTO v_frequency_change;
+
+  v_points := LEAST(10, COALESCE(v_frequency_change, 0) / 3);
+  v_factors := v_factors || jsonb_build_object(
+    'factor', 'payment_frequency_change',
+    'label', 'Payment frequency change',
+    'value', v_frequency_change,
+    'points', round(v_points, 1),
+    'max_points', 10,
+    'detail', CASE
+      WHEN v_frequency_change IS NULL THEN 'Not enough payments to compare'
+      ELSE format('Latest gap between payments is %s days off the usual', v_frequency_change)
+    END
+  );
+  v_score := v_score + v_points;
+
+  SELECT count(*) INTO v_broken
+  FROM payment_promises pp
+  WHERE pp.customer_id = p_customer_id
+    AND pp.organization_id = p_organization_id
+    AND pp.status IN ('broken', 'partially_kept')
+    AND pp.closed_at::date > p_as_of - 180
+    AND pp.closed_at::date <= p_as_of;
+
+  v_points := LEAST(10, v_broken * 5);
+  v_factors := v_factors || jsonb_build_object(
+    'factor', 'broken_promises',
+    'label', 'Broken promises',
+    'value', v_broken,
+    'points', v_points,
+    'max_points', 10,
+    'detail', format('%s promise(s) broken or partially kept in the last 180 days', v_broken)
+  );
+  v_score := v_score + v_points;
+
+  SELECT count(*) INTO v_disputes
+  FROM invoice_disputes d
+  WHERE d.customer_id = p_customer_id
+    AND d.organization_id = p_organization_id
+    AND d.created_at::date > p_as_of - 180
+    AND d.created_at::date <= p_as_of;
+
+  v_points := LEAST(10, v_disputes * 4);
+  v_factors := v_factors || jsonb_build_object(
+    'factor', 'dispute_frequency',
+    'label', 'Disputes',
+    'value', v_disputes,
+    'points', v_points,
+    'max_points', 10,
+    'detail', format('%s dispute(s) opened in the last 180 days', v_disputes)
+  );
+  v_score := round(v_score + v_points, 1);
+
+  RETURN jsonb_build_object(
+    'score', v_score,
+    'risk_level', CASE
+      WHEN v_score >= 70 THEN 'critical'
+      WHEN v_score >= 50 THEN 'high'
+      WHEN v_score >= 25 THEN 'medium'
+      ELSE 'low'
+    END,
+    'factors', v_factors
+  );
+END;
+$$;
+
+-- =========================================================================
+-- 3. Nightly capture
+-- =========================================================================
+CREATE OR REPLACE FUNCTION capture_customer_risk_scores(p_organization_id uuid DEFAULT NULL)
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_customer record;
+  v_result jsonb;
+  v_count integer := 0;
+BEGIN
+  FOR v_customer IN
+    SELECT c.organization_id, c.customer_id, c.customer_name
+    FROM acumatica_customers c
+    WHERE c.organization_id IS NOT NULL
+      AND (p_organization_id IS NULL OR c.organization_id = p_organization_id)
+      AND (
+        EXISTS (
+          SELECT 1 FROM acumatica_invoices i
+          WHERE i.customer = c.customer_id
+            AND i.organization_id = c.organization_id
+            AND i.status IN ('Open', 'open')
+            AND i.balance > 0
+        )
+        OR EXISTS (
+          SELECT 1 FROM acumatica_payments p
+          WHERE p.customer_id = c.customer_id
+            AND p.organization_id = c.organization_id
+            AND p.type = 'Payment'
+            AND COALESCE(p.effective_date, p.doc_date, p.created_at)::date > CURRENT_DATE - 365
+        )
+      )
+  LOOP
+    v_result := compute_customer_risk_score(v_customer.customer_id, v_customer.organization_id, CURRENT_DATE);
+
+    INSERT INTO customer_risk_score_history (
+      organization_id, customer_id, score_date, score, risk_level, factors
+    ) VALUES (
+      v_customer.organization_id, v_customer.customer_id, CURRENT_DATE,
+      (v_result->>'score')::numeric, v_result->>'risk_level', v_result->'factors'
+    )
+    ON CONFLICT (organization_id, customer_id, score_date) DO UPDATE
+    SET score = EXCLUDED.score,
+        risk_level = EXCLUDED.risk_level,
+        factors = EXCLUDED.factors;
+
+    INSERT INTO customer_risk_scores (
+      organization_id, customer_id, customer_name, score, risk_level, factors,
+      previous_score, score_date, computed_at
+    )
+    SELECT
+      v_customer.organization_id, v_customer.customer_id, v_customer.customer_name,
+      (v_result->>'score')::numeric, v_result->>'risk_level', v_result->'factors',
+      (
+        SELECT h.score FROM customer_risk_score_history h
+        WHERE h.organization_id = v_customer.organization_id
+          AND h.customer_id = v_customer.customer_id
+          AND h.score_date < CURRENT_DATE
+        ORDER BY h.score_date DESC
+        LIMIT 1
+      ),
+      CURRENT_DATE, now()
+    ON CONFLICT (organization_id, customer_id) DO UPDATE
+    SET customer_name = EXCLUDED.customer_name,
+        score = EXCLUDED.score,
+        risk_level = EXCLUDED.risk_level,
+        factors = EXCLUDED.factors,
+        previous_score = EXCLUDED.previous_score,
+        score_date = EXCLUDED.score_date,
+        computed_at = EXCLUDED.computed_at;
+
+    v_count := v_count + 1;
+  END LOOP;
+
+  -- Customers that dropped out (paid up and inactive) keep their history but
+  -- no longer show a current score.
+  DELETE FROM customer_risk_scores s
+  WHERE s.score_date < CURRENT_DATE
+    AND (p_organization_id IS NULL OR s.organization_id = p_organization_id);
+
+  RETURN v_count;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION compute_customer_risk_score(text, uuid, date) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION compute_customer_risk_score(text, uuid, date) TO authenticated;
+REVOKE ALL ON FUNCTION capture_customer_risk_scores(uuid) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION capture_customer_risk_scores(uuid) TO service_role;
+
+-- =========================================================================
+-- 4. Auto-ticket condition
+-- =========================================================================
+ALTER TABLE auto_ticket_rule_conditions
+  DROP CONSTRAINT IF EXISTS valid_condition_type;
+
+ALTER TABLE auto_ticket_rule_conditions
+  ADD CONSTRAINT valid_condition_type CHECK (condition_type IN (
+    'balance_threshold',
+    'invoice_count_overdue',
+    'invoice_age_days',
+    'payment_pattern_deviation',
+    'payment_amount_drop',
+    'days_since_last_payment',
+    'invoice_amount_threshold',
+    'overdue_percentage',
+    'payment_frequency_change',
+    'total_overdue_amount',
+    'risk_score'
+  ));
+
+CREATE OR REPLACE FUNCTION evaluate_auto_ticket_condition(
+  p_customer_id text,
+  p_condition jsonb,
+  p_as_of date DEFAULT CURRENT_DATE,
+  p_organization_id uuid DEFAULT NULL
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+STABLE
+SET search_path = public
+AS $$
+DECLARE
+  v_type text := p_condition->>'condition_type';
+  v_operator text := COALESCE(p_condition->>'operator', 'gt');
+  v_value numeric := NULLIF(p_condition->>'value_numeric', '')::numeric;
+  v_value_max numeric := NULLIF(p_condition->>'value_numeric_max', '')::numeric;
+  v_by_invoice_date boolean := p_condition->>'date_reference' = 'invoice_date';
+  v_month_start date := date_trunc('month', p_as_of)::date;
+  v_actual numeric;
+  v_met boolean := false;
+  v_total int;
+  v_overdue int;
+  v_baseline numeric;
+  v_recent numeric;
+BEGIN
+  CASE v_type
+    WHEN 'balance_threshold' THEN
+      SELECT COALESCE(SUM(o.balance), 0) INTO v_actual
+      FROM auto_ticket_open_invoices(p_customer_id, p_as_of, p_organization_id) o;
+      v_met := auto_ticket_compare(v_actual, v_operator, v_value, v_value_max);
+
+    WHEN 'total_overdue_amount' THEN
+      SELECT COALESCE(SUM(o.balance), 0) INTO v_actual
+      FROM auto_ticket_open_invoices(p_customer_id, p_as_of, p_organization_id) o
+      WHERE o.due_date < p_as_of;
+      v_met := auto_ticket_compare(v_actual, v_operator, v_value, v_value_max);
+
+    WHEN 'invoice_count_overdue' THEN
+      SELECT count(*) INTO v_actual
+      FROM auto_ticket_open_invoices(p_customer_id, p_as_of, p_organization_id) o
+      WHERE CASE WHEN v_by_invoice_date THEN o.invoice_date < p_as_of ELSE o.due_date < p_as_of END;
+      v_met := auto_ticket_compare(v_actual, v_operator, v_value, v_value_max);
+
+    WHEN 'invoice_age_days' THEN
+      -- Legacy age windows count the invoices inside the window. A rule
+      -- condition matches when any invoice is older than the value, whatever
+      -- operator was saved with it.
+      IF (p_condition->>'legacy_window')::boolean THEN
+        SELECT count(*) INTO v_actual
+        FROM auto_ticket_open_invoices(p_customer_id, p_as_of, p_organization_id) o
+        WHERE (p_as_of - CASE WHEN v_by_invoice_date THEN o.invoice_date ELSE o.due_date END)
+          BETWEEN COALESCE(v_value, 0) AND COALESCE(v_value_max, 999999);
+        v_met := v_actual > 0;
+      ELSE
+        v_operator := 'gt';
+        SELECT MAX(p_as_of - CASE WHEN v_by_invoice_date THEN o.invoice_date ELSE o.due_date END) INTO v_actual
+        FROM auto_ticket_open_invoices(p_customer_id, p_as_of, p_organization_id) o;
+        v_met := auto_ticket_compare(v_actual, v_operator, v_value, NULL);
+      END IF;
+
+    WHEN 'days_since_last_payment' THEN
+      SELECT p_as_of - MAX(COALESCE(p.effective_date, p.doc_date, p.created_at)::date) INTO v_actual
+      FROM acumatica_payments p
+      WHERE p.customer_id = p_customer_id
+        AND p.type = 'Payment'
+        AND COALESCE(p.effective_date, p.doc_date, p.created_at)::date <= p_as_of
+        AND (p_organization_id IS NULL OR p.organization_id = p_organization_id);
+      -- A customer who has never paid counts as infinitely overdue.
+      v_met := auto_ticket_compare(COALESCE(v_actual, 999999), v_operator, v_value, v_value_max);
+
+    WHEN 'invoice_amount_threshold' THEN
+      -- Any single invoice above the value, whatever operator was saved
+      v_operator := 'gt';
+      SELECT MAX(o.balance) INTO v_actual
+      FROM auto_ticket_open_invoices(p_customer_id, p_as_of, p_organization_id) o;
+      v_met := auto_ticket_compare(v_actual, v_operator, v_value, NULL);
+
+    WHEN 'overdue_percentage' THEN
+      SELECT count(*), count(*) FILTER (WHERE o.due_date < p_as_of)
+      INTO v_total, v_overdue
+      FROM auto_ticket_open_invoices(p_customer_id, p_as_of, p_organization_id) o;
+      v_actual := CASE WHEN v_total > 0 THEN round(v_overdue::numeric / v_total * 100, 1) ELSE 0 END;
+      v_met := auto_ticket_compare(v_actual, v_operator, v_value, v_value_max);
+
+    WHEN 'payment_amount_drop' THEN
+      -- Average month over the six months before last month, against last month
+      SELECT COALESCE(SUM(p.payment_amount) / NULLIF(count(DISTINCT date_trunc('month', COALESCE(p.effective_date, p.doc_date, p.created_at)::date)), 0), 0)
+      INTO v_baseline
+      FROM acumatica_payments p
+      WHERE p.customer_id = p_customer_id
+        AND p.type = 'Payment'
+        AND COALESCE(p.effective_date, p.doc_date, p.created_at)::date >= p_as_of - interval '7 months'
+        AND COALESCE(p.effective_date, p.doc_date, p.created_at)::date < v_month_start
+        AND (p_organization_id IS NULL OR p.organization_id = p_organization_id);
+
+      SELECT COALESCE(SUM(p.payment_amount), 0) INTO v_recent
+      FROM acumatica_payments p
+      WHERE p.customer_id = p_customer_id
+        AND p.type = 'Payment'
+        AND COALESCE(p.effective_date, p.doc_date, p.created_at)::date >= v_month_start - interval '1 month'
+        AND COALESCE(p.effective_date, p.doc_date, p.created_at)::date < v_month_start
+        AND (p_organization_id IS NULL OR p.organization_id = p_organization_id);
+
+      IF v_baseline > 0 THEN
+        IF v_operator = 'pct_drop' THEN
+          v_actual := round((v_baseline - v_recent) / v_baseline * 100, 1);
+          v_met := v_actual >= COALESCE(v_value, 20);
+        ELSE
+          v_actual := round(v_baseline - v_recent, 2);
+          v_met := auto_ticket_compare(v_actual, v_operator, v_value, v_value_max);
+        END IF;
+      END IF;
+
+    WHEN 'payment_pattern_deviation' THEN
+      SELECT AVG(EXTRACT(day FROM COALESCE(p.effective_date, p.doc_date, p.created_at)::date))
+      INTO v_baseline
+      FROM acumatica_payments p
+      WHERE p.customer_id = p_customer_id
+        AND p.type = 'Payment'
+        AND COALESCE(p.effective_date, p.doc_date, p.created_at)::date >= p_as_of - interval '6 months'
+        AND COALESCE(p.effective_date, p.doc_date, p.created_at)::date < v_month_start
+        AND (p_organization_id IS NULL OR p.organization_id = p_organization_id);
+
+      SELECT EXTRACT(day FROM MAX(COALESCE(p.effective_date, p.doc_date, p.created_at)::date))
+      INTO v_recent
+      FROM acumatica_payments p
+      WHERE p.customer_id = p_customer_id
+        AND p.type = 'Payment'
+        AND COALESCE(p.effective_date, p.doc_date, p.created_at)::date >= v_month_start - interval '1 month'
+        AND COALESCE(p.effective_date, p.doc_date, p.created_at)::date <= p_as_of
+        AND (p_organization_id IS NULL OR p.organization_id = p_organization_id);
+
+      IF v_baseline IS NOT NULL AND v_recent IS NOT NULL THEN
+        v_actual := round(ABS(v_recent - v_baseline), 1);
+        v_met := auto_ticket_compare(v_actual, v_operator, COALESCE(v_value, 3), v_value_max);
+      END IF;
+
+    WHEN 'payment_frequency_change' THEN
+      WITH payment_dates AS (
+        SELECT COALESCE(p.effective_date, p.doc_date, p.created_at)::date AS pdate
+        FROM acumatica_payments p
+        WHERE p.customer_id = p_customer_id
+          AND p.type = 'Payment'
+          AND COALESCE(p.effective_date, p.doc_date, p.created_at)::date >= p_as_of - interval '6 months'
+          AND COALESCE(p.effective_date, p.doc_date, p.created_at)::date <= p_as_of
+          AND (p_organization_id IS NULL OR p.organization_id = p_organization_id)
+      ),
+      intervals AS (
+        SELECT pdate - LAG(pdate) OVER (ORDER BY pdate) AS gap
+        FROM payment_dates
+      )
+      SELECT AVG(gap) INTO v_baseline FROM intervals WHERE gap IS NOT NULL;
+
+      WITH recent_payments AS (
+        SELECT COALESCE(p.effective_date, p.doc_date, p.created_at)::date AS pdate
+        FROM acumatica_payments p
+        WHERE p.customer_id = p_customer_id
+          AND p.type = 'Payment'
+          AND COALESCE(p.effective_date, p.doc_date, p.created_at)::date <= p_as_of
+          AND (p_organization_id IS NULL OR p.organization_id = p_organization_id)
+        ORDER BY pdate DESC
+        LIMIT 2
+      )
+      SELECT MAX(pdate) - MIN(pdate) INTO v_recent FROM recent_payments;
+
+      IF v_baseline > 0 AND v_recent IS NOT NULL THEN
+        v_actual := round(ABS(v_recent - v_baseline), 1);
+        v_met := auto_ticket_compare(v_actual, v_operator, COALESCE(v_value, 7), v_value_max);
+      END IF;
+
+    WHEN 'risk_score' THEN
+      SELECT h.score INTO v_actual
+      FROM customer_risk_score_history h
+      WHERE h.customer_id = p_customer_id
+        AND h.score_date <= p_as_of
+        AND (p_organization_id IS NULL OR h.organization_id = p_organization_id)
+      ORDER BY h.score_date DESC
+      LIMIT 1;
+
+      IF v_actual IS NULL AND p_organization_id IS NOT NULL THEN
+        v_actual := (compute_customer_risk_score(p_customer_id, p_organization_id, p_as_of)->>'score')::numeric;
+      END IF;
+      v_met := auto_ticket_compare(v_actual, v_operator, v_value, v_value_max);
+
+    ELSE
+      v_met := false;
+  END CASE;
+
+  RETURN jsonb_build_object(
+    'condition_type', v_type,
+    'operator', v_operator,
+    'value_numeric', v_value,
+    'value_numeric_max', v_value_max,
+    'actual', v_actual,
+    'met', COALESCE(v_met, false)
+  );
+END;
+$$;
+
+-- =========================================================================
+-- 5. Nightly cron
+-- =========================================================================
+DO $$
+BEGIN
+  IF EXISTS (SELECT 1 FROM cron.job WHERE jobname = 'capture-customer-risk-scores') THEN
+    PERFORM cron.unschedule('capture-customer-risk-scores');
+  END IF;
+END $$;
+
+SELECT cron.schedule(
+  'capture-customer-risk-scores',
+  '0 5 * * *',
+  'SELECT capture_customer_risk_scores();'
+);
+
+-- =========================================================================
+-- 6. Customer list: risk score column and sort
+-- =========================================================================
+DROP FUNCTION IF EXISTS get_customers_with_balance(text, text, text, text, text, integer, integer, timestamptz, timestamptz, text, numeric, numeric, integer, integer, numeric, numeric, boolean, text, boolean, integer, integer, boolean, text);
+
+CREATE OR REPLACE FUNCTION get_customers_with_balance(
+  p_search text,
+  p_status_filter text,
+  p_country_filter text,
+  p_sort_by text,
+  p_sort_order text,
+  p_limit integer,
+  p_offset integer,
+  p_date_from timestamptz,
+  p_date_to timestamptz,
+  p_balance_filter text,
+  p_min_balance numeric,
+  p_max_balance numeric,
+  p_min_open_invoices integer,
+  p_max_open_invoices integer,
+  p_min_invoice_amount numeric,
+  p_max_invoice_amount numeric,
+  p_exclude_credit_memos boolean,
+  p_date_context text,
+  p_calculate_avg_days boolean,
+  p_min_days_overdue integer,
+  p_max_days_overdue integer,
+  p_test_customers boolean,
+  p_overdue_basis text DEFAULT 'due_date'
+)
+RETURNS TABLE(
+  id uuid, customer_id text, customer_name text, customer_status text,
+  email_address text, phone1 text, address_line1 text, address_line2 text,
+  city text, state text, postal_code text, country text,
+  customer_class text, terms text, credit_limit numeric,
+  statement_cycle text, parent_account text,
+  price_class text, shipping_terms text,
+  acumatica_record_id text,
+  synced_at timestamptz, created_at timestamptz, updated_at timestamptz,
+  red_threshold_days integer, color_status text,
+  calculated_balance numeric, gross_balance numeric, credit_memo_balance numeric,
+  open_invoice_count bigint, red_count bigint, yellow_count bigint, green_count bigint,
+  max_days_overdue integer,
+  exclude_from_payment_analytics boolean, exclude_from_customer_analytics boolean,
+  avg_days_to_collect numeric,
+  filtered_gross_balance numeric, filtered_invoice_count bigint, filtered_net_balance numeric,
+  risk_score numeric, risk_level text
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_has_filter boolean;
+  v_org_id uuid := get_user_org_id();
+  v_invoice_basis boolean := (p_overdue_basis = 'invoice_date');
+BEGIN
+
+v_has_filter := (
+  p_date_from IS NOT NULL OR p_date_to IS NOT NULL
+  OR p_min_days_overdue IS NOT NULL OR p_max_days_overdue IS NOT NULL
+  OR p_min_invoice_amount IS NOT NULL OR p_max_invoice_amount IS NOT NULL
+);
+
+RETURN QUERY
+WITH customer_balances AS (
+  SELECT
+    i.customer,
+    COALESCE(SUM(CASE WHEN i.type IN ('Invoice', 'Debit Memo') THEN i.balance ELSE 0 END), 0) as gross_balance_amt,
+    COALESCE(SUM(CASE WHEN i.type IN ('Credit Memo', 'Credit WO') THEN i.balance ELSE 0 END), 0) as credit_memo_amt,
+    COALESCE(
+      SUM(CASE WHEN i.type IN ('Invoice', 'Debit Memo') THEN i.balance ELSE 0 END) -
+      SUM(CASE WHEN i.type IN ('Credit Memo', 'Credit WO') THEN i.balance ELSE 0 END),
+      0
+    ) as net_balance_amt,
+    COUNT(*) FILTER (WHERE i.type IN ('Invoice', 'Debit Memo')) as invoice_count,
+    COUNT(*) FILTER (WHERE i.color_status = 'red' AND i.type IN ('Invoice', 'Debit Memo')) as red_cnt,
+    COUNT(*) FILTER (WHERE i.color_status IN ('yellow', 'orange') AND i.type IN ('Invoice', 'Debit Memo')) as yellow_cnt,
+    COUNT(*) FILTER (WHERE i.color_status = 'green' AND i.type IN ('Invoice', 'Debit Memo')) as green_cnt,
+    MAX(
+      CASE
+        WHEN i.balance > 0 AND i.type IN ('Invoice', 'Debit Memo')
+          AND (CASE WHEN v_invoice_basis THEN i.date ELSE COALESCE(i.due_date, i.date) END) IS NOT NULL
+        THEN GREATEST(0, (CURRENT_DATE - (CASE WHEN v_invoice_basis THEN i.date ELSE COALESCE(i.due_date, i.date) END))::INT)
+        ELSE 0
+      END
+    ) as max_overdue_days,
+    BOOL_OR(
+      CASE
+        WHEN p_date_from IS NULL AND p_date_to IS NULL THEN true
+        WHEN p_date_context = 'invoice_date'
+        THEN (i.date >= COALESCE(p_date_from::date, i.date) AND i.date <= COALESCE(p_date_to::date, i.date))
+        WHEN p_date_context = 'balance_date'
+        THEN (i.balance > 0 AND i.date >= COALESCE(p_date_from::date, i.date) AND i.date <= COALESCE(p_date_to::date, i.date))
+        ELSE false
+      END
+    ) as passes_date_filter,
+
+    CASE WHEN v_has_filter THEN
+      COALESCE(SUM(
+        CASE WHEN i.type IN ('Invoice', 'Debit Memo')
+        AND (
+          (p_date_from IS NULL AND p_date_to IS NULL)
+          OR (p_date_context = 'invoice_date' AND i.date >= COALESCE(p_date_from::date, i.date) AND i.date <= COALESCE(p_date_to::date, i.date))
+          OR (p_date_context = 'balance_date' AND i.balance > 0 AND i.date >= COALESCE(p_date_from::date, i.date) AND i.date <= COALESCE(p_date_to::date, i.date))
+        )
+        AND (
+          (p_min_days_overdue IS NULL AND p_max_days_overdue IS NULL)
+          OR (
+            (CASE WHEN v_invoice_basis THEN i.date ELSE COALESCE(i.due_date, i.date) END) IS NOT NULL
+            AND GREATEST(0, (CURRENT_DATE - (CASE WHEN v_invoice_basis THEN i.date ELSE COALESCE(i.due_date, i.date) END))::INT) >= COALESCE(p_min_days_overdue, 0)
+            AND GREATEST(0, (CURRENT_DATE - (CASE WHEN v_invoice_basis THEN i.date ELSE COALESCE(i.due_date, i.date) END))::INT) <= COALESCE(p_max_days_overdue, 999999)
+          )
+        )
+        AND (p_min_invoice_amount IS NULL OR i.amount >= p_min_invoice_amount)
+        AND (p_max_invoice_amount IS NULL OR i.amount <= p_max_invoice_amount)
+        THEN i.balance ELSE 0 END
+      ), 0)
+    ELSE
+      COALESCE(SUM(CASE WHEN i.type IN ('Invoice', 'Debit Memo') THEN i.balance ELSE 0 END), 0)
+    END as filtered_gross_bal,
+
+    CASE WHEN v_has_filter THEN
+      COUNT(*) FILTER (WHERE i.type IN ('Invoice', 'Debit Memo')
+        AND (
+          (p_date_from IS NULL AND p_date_to IS NULL)
+          OR (p_date_context = 'invoice_date' AND i.date >= COALESCE(p_date_from::date, i.date) AND i.date <= COALESCE(p_date_to::date, i.date))
+          OR (p_date_context = 'balance_date' AND i.balance > 0 AND i.date >= COALESCE(p_date_from::date, i.date) AND i.date <= COALESCE(p_date_to::date, i.date))
+        )
+        AND (
+          (p_min_days_overdue IS NULL AND p_max_days_overdue IS NULL)
+          OR (
+            (CASE WHEN v_invoice_basis THEN i.date ELSE COALESCE(i.due_date, i.date) END) IS NOT NULL
+            AND GREATEST(0, (CURRENT_DATE - (CASE WHEN v_invoice_basis THEN i.date ELSE COALESCE(i.due_date, i.date) END))::INT) >= COALESCE(p_min_days_overdue, 0)
+            AND GREATEST(0, (CURRENT_DATE - (CASE WHEN v_invoice_basis THEN i.date ELSE COALESCE(i.due_date, i.date) END))::INT) <= COALESCE(p_max_days_overdue, 999999)
+          )
+        )
+        AND (p_min_invoice_amount IS NULL OR i.amount >= p_min_invoice_amount)
+        AND (p_max_invoice_amount IS NULL OR i.amount <= p_max_invoice_amount)
+      )
+    ELSE
+      COUNT(*) FILTER (WHERE i.type IN ('Invoice', 'Debit Memo'))
+    END as filtered_inv_count
+  FROM acumatica_invoices i
+  WHERE i.organization_id = v_org_id
+    AND i.balance > 0
+    AND i.status IN ('Open', 'Balanced')
+  GROUP BY i.customer
+),
+customer_avg_collection_days AS (
+  SELECT
+    p.customer_id,
+    AVG(
+      EXTRACT(EPOCH FROM (p.application_date::timestamp - i.date::timestamp)) / 86400
+    )::numeric(10,1) as avg_days
+  FROM payment_invoice_applications pia
+  INNER JOIN acumatica_invoices i ON i.reference_number = pia.invoice_reference_number AND i.organization_id = v_org_id
+  INNER JOIN acumatica_payments p ON p.reference_number = pia.payment_reference_number AND p.organization_id = v_org_id
+  WHERE pia.amount_paid > 0
+    AND i.type = 'Invoice'
+    AND p.type != 'Prepayment'
+    AND p.application_date IS NOT NULL
+    AND i.date IS NOT NULL
+    AND p.application_date >= i.date
+    AND (p_calculate_avg_days OR p_sort_by = 'avg_days_to_collect')
+  GROUP BY p.customer_id
+),
+filtered_customers AS (
+  SELECT
+    c.id, c.customer_id, c.customer_name, c.customer_status,
+    c.email_address, c.city, c.billing_state, c.country,
+    c.customer_class, c.terms, c.credit_limit, c.statement_cycle_id,
+    c.parent_account, c.price_class_id, c.shipping_terms, c.note_id,
+    c.synced_at, c.created_at, c.updated_at,
+    c.days_from_invoice_threshold, c.customer_color_status,
+    c.exclude_from_payment_analytics, c.exclude_from_customer_analytics,
+    cb.gross_balance_amt, cb.credit_memo_amt, cb.net_balance_amt,
+    cb.invoice_count, cb.red_cnt, cb.yellow_cnt, cb.green_cnt,
+    cb.max_overdue_days, cacd.avg_days,
+    cb.filtered_gross_bal, cb.filtered_inv_count,
+    crs.score AS risk_score, crs.risk_level
+  FROM acumatica_customers c
+  LEFT JOIN customer_balances cb ON c.customer_id = cb.customer
+  LEFT JOIN customer_avg_collection_days cacd ON c.customer_id = cacd.customer_id
+  LEFT JOIN customer_risk_scores crs ON crs.customer_id = c.customer_id AND crs.organization_id = v_org_id
+  WHERE
+    c.organization_id = v_org_id
+    AND c.is_test_customer = p_test_customers
+    AND (p_search IS NULL OR p_search = '' OR
+      c.customer_id ILIKE '%' || p_search || '%' OR
+      c.customer_name ILIKE '%' || p_search || '%' OR
+      c.email_address ILIKE '%' || p_search || '%' OR
+      c.customer_class ILIKE '%' || p_search || '%' OR
+      c.city ILIKE '%' || p_search || '%' OR
+      c.country ILIKE '%' || p_search || '%')
+    AND (p_status_filter IS NULL OR p_status_filter = 'all' OR c.customer_status = p_status_filter)
+    AND (p_country_filter IS NULL OR p_country_filter = 'all' OR c.country = p_country_filter)
+    AND (
+      (p_date_from IS NULL AND p_date_to IS NULL)
+      OR (p_date_context = 'customer_added' AND c.synced_at >= COALESCE(p_date_from, c.synced_at) AND c.synced_at <= COALESCE(p_date_to, c.synced_at))
+      OR (p_date_context IN ('invoice_date', 'balance_date') AND COALESCE(cb.passes_date_filter, false))
+    )
+    AND (
+      p_balance_filter = 'all' OR
+      (p_balance_filter = 'positive' AND
+        CASE WHEN p_exclude_credit_memos THEN COALESCE(cb.gross_balance_amt, 0) ELSE COALESCE(cb.net_balance_amt, 0) END > 0) OR
+      (p_balance_filter = 'negative' AND
+        CASE WHEN p_exclude_credit_memos THEN COALESCE(cb.gross_balance_amt, 0) ELSE COALESCE(cb.net_balance_amt, 0) END < 0) OR
+      (p_balance_filter = 'zero' AND
+        CASE WHEN p_exclude_credit_memos THEN COALESCE(cb.gross_balance_amt, 0) ELSE COALESCE(cb.net_balance_amt, 0) END = 0)
+    )
+    AND (p_min_balance IS NULL OR
+      CASE WHEN p_exclude_credit_memos THEN COALESCE(cb.gross_balance_amt, 0) ELSE COALESCE(cb.net_balance_amt, 0) END >= p_min_balance)
+    AND (p_max_balance IS NULL OR
+      CASE WHEN p_exclude_credit_memos THEN COALESCE(cb.gross_balance_amt, 0) ELSE COALESCE(cb.net_balance_amt, 0) END <= p_max_balance)
+    AND (p_min_open_invoices IS NULL OR COALESCE(cb.invoice_count, 0) >= p_min_open_invoices)
+    AND (p_max_open_invoices IS NULL OR COALESCE(cb.invoice_count, 0) <= p_max_open_invoices)
+    AND (p_min_days_overdue IS NULL OR COALESCE(cb.max_overdue_days, 0) >= p_min_days_overdue)
+    AND (p_max_days_overdue IS NULL OR COALESCE(cb.filtered_inv_count, 0) > 0)
+    AND (
+      (p_min_invoice_amount IS NULL AND p_max_invoice_amount IS NULL)
+      OR COALESCE(cb.filtered_inv_count, 0) > 0
+    )
+  ORDER BY
+    CASE WHEN p_sort_by = 'customer_name' AND p_sort_order = 'asc' THEN c.customer_name END ASC NULLS LAST,
+    CASE WHEN p_sort_by = 'customer_name' AND p_sort_order = 'desc' THEN c.customer_name END DESC NULLS LAST,
+    CASE WHEN p_sort_by = 'balance' AND p_sort_order = 'desc' THEN
+      CASE WHEN p_exclude_credit_memos THEN COALESCE(cb.gross_balance_amt, 0) ELSE COALESCE(cb.net_balance_amt, 0) END
+    END DESC NULLS LAST,
+    CASE WHEN p_sort_by = 'balance' AND p_sort_order = 'asc' THEN
+      CASE WHEN p_exclude_credit_memos THEN COALESCE(cb.gross_balance_amt, 0) ELSE COALESCE(cb.net_balance_amt, 0) END
+    END ASC NULLS LAST,
+    CASE WHEN p_sort_by IN ('open_invoices', 'invoice_count') AND p_sort_order = 'desc' THEN COALESCE(cb.invoice_count, 0) END DESC NULLS LAST,
+    CASE WHEN p_sort_by IN ('open_invoices', 'invoice_count') AND p_sort_order = 'asc' THEN COALESCE(cb.invoice_count, 0) END ASC NULLS LAST,
+    CASE WHEN p_sort_by = 'max_days_overdue' AND p_sort_order = 'desc' THEN COALESCE(cb.max_overdue_days, 0) END DESC NULLS LAST,
+    CASE WHEN p_sort_by = 'max_days_overdue' AND p_sort_order = 'asc' THEN COALESCE(cb.max_overdue_days, 0) END ASC NULLS LAST,
+    CASE WHEN p_sort_by = 'red_threshold_days' AND p_sort_order = 'desc' THEN c.days_from_invoice_threshold END DESC NULLS LAST,
+    CASE WHEN p_sort_by = 'red_threshold_days' AND p_sort_order = 'asc' THEN c.days_from_invoice_threshold END ASC NULLS LAST,
+    CASE WHEN p_sort_by = 'avg_days_to_collect' AND p_sort_order = 'desc' THEN cacd.avg_days END DESC NULLS LAST,
+    CASE WHEN p_sort_by = 'avg_days_to_collect' AND p_sort_order = 'asc' THEN cacd.avg_days END ASC NULLS LAST,
+    CASE WHEN p_sort_by = 'risk_score' AND p_sort_order = 'desc' THEN crs.score END DESC NULLS LAST,
+    CASE WHEN p_sort_by = 'risk_score' AND p_sort_order = 'asc' THEN crs.score END ASC NULLS LAST,
+    c.customer_name ASC
+  LIMIT p_limit
+  OFFSET p_offset
+)
+SELECT
+  fc.id, fc.customer_id, fc.customer_name, fc.customer_status,
+  fc.email_address,
+  NULL::text as phone1, NULL::text as address_line1, NULL::text as address_line2,
+  fc.city, fc.billing_state as state, NULL::text as postal_code, fc.country,
+  fc.customer_class, fc.terms, fc.credit_limit,
+  fc.statement_cycle_id as statement_cycle, fc.parent_account,
+  fc.price_class_id as price_class, fc.shipping_terms,
+  fc.note_id as acumatica_record_id,
+  fc.synced_at, fc.created_at, fc.updated_at,
+  fc.days_from_invoice_threshold as red_threshold_days,
+  fc.customer_color_status as color_status,
+  CASE
+    WHEN p_exclude_credit_memos THEN COALESCE(fc.gross_balance_amt, 0)
+    ELSE COALESCE(fc.net_balance_amt, 0)
+  END::numeric as calculated_balance,
+  COALESCE(fc.gross_balance_amt, 0)::numeric as gross_balance,
+  COALESCE(fc.credit_memo_amt, 0)::numeric as credit_memo_balance,
+  COALESCE(fc.invoice_count, 0)::bigint as open_invoice_count,
+  COALESCE(fc.red_cnt, 0)::bigint as red_count,
+  COALESCE(fc.yellow_cnt, 0)::bigint as yellow_count,
+  COALESCE(fc.green_cnt, 0)::bigint as green_count,
+  COALESCE(fc.max_overdue_days, 0)::int as max_days_overdue,
+  COALESCE(fc.exclude_from_payment_analytics, false) as exclude_from_payment_analytics,
+  COALESCE(fc.exclude_from_customer_analytics, false) as exclude_from_customer_analytics,
+  fc.avg_days as avg_days_to_collect,
+  COALESCE(fc.filtered_gross_bal, 0)::numeric as filtered_gross_balance,
+  COALESCE(fc.filtered_inv_count, 0)::bigint as filtered_invoice_count,
+  (COALESCE(fc.filtered_gross_bal, 0) - COALESCE(fc.credit_memo_amt, 0))::numeric as filtered_net_balance,
+  fc.risk_score,
+  fc.risk_level
+FROM filtered_customers fc;
+END;
+$$;
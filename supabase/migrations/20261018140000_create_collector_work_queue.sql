@@ -0,0 +1,603 @@
+/*
+  # Collector Daily Work Queue ("Next best action")
+
+  ## Summary
+  Every morning each collector gets a ranked list of the accounts to work
+  that day, with a suggested action (call, email or escalate) and the reasons
+  the account made the list. Collectors mark items done or snooze them from
+  My Assignments; both are logged on the account's ticket. Managers and
+  admins see per-collector completion in the Collector Control Panel.
+
+  ## Ranking
+  An account belongs to a collector when it is assigned to them
+  (`collector_customer_assignments`), has one of their open tickets, has one
+  of their active invoice assignments, or has one of their pending reminders.
+  Each account is scored for the queue date D:
+
+  - `balance_at_risk` (max 30): overdue balance on a log scale -- 0 at $100,
+    10 at $1k, 20 at $10k, 30 at $100k and above
+  - `days_overdue` (max 20): 1 per 6 days the oldest open invoice is past due
+  - `promise_due` (25): a promise installment, ticket promise date or invoice
+    promise date falls on D
+  - `unanswered_reply` (20): a customer email received in the last 14 days
+    that has neither a reply nor a later outbound ticket email
+  - `reminder_due` (10): a pending reminder due on or before D
+
+  Accounts scoring 0 are left out; the top 25 are kept.
+
+  ## Suggested action
+  1. `email` when a customer reply is waiting
+  2. `escalate` when 90+ days overdue, the ticket is urgent, or a promise was
+     broken in the last 30 days
+  3. `call` when a promise is due
+  4. the type of a due call / email reminder
+  5. `call` for $5k+ overdue, otherwise `email`
+
+  ## New Tables
+  - `collector_work_queue_items`: one row per collector, queue date and
+    customer, with `rank`, `priority_score`, `reasons`, `suggested_action`
+    and the item's `status` (pending / completed / snoozed)
+
+  `reasons` is an array of `{reason, label, points, detail}`.
+
+  ## New Functions
+  - `build_collector_work_queue(collector_id, queue_date, limit)` - rebuilds
+    the pending part of one collector's queue
+  - `generate_collector_work_queues()` - builds every collector's queue;
+    scheduled daily at 06:00 UTC
+  - `refresh_my_work_queue(queue_date)` - rebuilds the caller's own queue
+  - `complete_work_queue_item(item_id, note)` /
+    `snooze_work_queue_item(item_id, until, note)`
+  - `get_work_queue_completion(queue_date)` - per-collector totals for
+    managers and admins
+
+  ## Security
+  - RLS enabled; collectors read their own items, managers and admins read
+    their organization's items
+  - Items change only through the RPCs above; the builders are executable
+    by the service role only
+*/
+
+-- =========================================================================
+-- 1. Table
+-- =========================================================================
+CREATE TABLE IF NOT EXISTS collector_work_queue_items (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  organization_id uuid NOT NULL REFERENCES organizations(id) ON DELETE CASCADE,
+  collector_id uuid NOT NULL REFERENCES user_profiles(id) ON DELETE CASCADE,
+  queue_date date NOT NULL,
+  rank integer NOT NULL,
+  priority_score numeric(6, 1) NOT NULL DEFAULT 0,
+  customer_id text NOT NULL,
+  customer_name text,
+  ticket_id uuid REFERENCES collection_tickets(id) ON DELETE SET NULL,
+  reasons jsonb NOT NULL DEFAULT '[]'::jsonb,
+  suggested_action text NOT NULL
+    CHECK (suggested_action IN ('call', 'email', 'escalate')),
+  action_reason text,
+  balance_at_risk numeric(18, 2) NOT NULL DEFAULT 0,
+  max_days_overdue integer NOT NULL DEFAULT 0,
+  status text NOT NULL DEFAULT 'pending'
+    CHECK (status IN ('pending', 'completed', 'snoozed')),
+  snoozed_until timestamptz,
+  completed_at timestamptz,
+  completed_by uuid REFERENCES user_profiles(id) ON DELETE SET NULL,
+  outcome_note text,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  UNIQUE (collector_id, queue_date, customer_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_work_queue_items_org_date
+  ON collector_work_queue_items(organization_id, queue_date);
+
+CREATE INDEX IF NOT EXISTS idx_work_queue_items_snoozed
+  ON collector_work_queue_items(collector_id, customer_id, snoozed_until)
+  WHERE status = 'snoozed';
+
+ALTER TABLE collector_work_queue_items ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Collectors can view their own work queue"
+  ON collector_work_queue_items FOR SELECT
+  TO authenticated
+  USING (collector_id = auth.uid());
+
+CREATE POLICY "Managers can view their organization's work queues"
+  ON collector_work_queue_items FOR SELECT
+  TO authenticated
+  USING (organization_id = get_user_org_id() AND is_manager_or_admin());
+
+-- =========================================================================
+-- 2. Queue builder
+-- =========================================================================
+CREATE OR REPLACE FUNCTION build_collector_work_queue(
+  p_collector_id uuid,
+  p_queue_date date DEFAULT CURRENT_DATE,
+  p_limit integer DEFAULT 25
+)
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_org uuid;
+  v_count integer;
+BEGIN
+  SELECT organization_id INTO v_org
+  FROM user_profiles
+  WHERE id = p_collector_id;
+
+  IF v_org IS NULL THEN
+    RETURN 0;
+  END IF;
+
+  -- Completed items stay; pending ones and snoozes that have run out are rebuilt
+  DELETE FROM collector_work_queue_items
+  WHERE collector_id = p_collector_id
+    AND queue_date = p_queue_date
+    AND (status = 'pending' OR (status = 'snoozed' AND snoozed_until <= now()));
+
+  WITH open_tickets AS (
+    SELECT ct.id, ct.customer_id, ct.priority, ct.promise_date, ct.created_at
+    FROM collection_tickets ct
+    WHERE ct.organization_id = v_org
+      AND ct.assigned_collector_id = p_collector_id
+      AND ct.status NOT IN ('resolved', 'closed')
+  ),
+  due_reminders AS (
+    SELECT COALESCE(ct.customer_id, ai.customer) AS customer_id, ir.reminder_type, ir.reminder_date
+    FROM invoice_reminders ir
+    LEFT JOIN collection_tickets ct ON ct.id = ir.ticket_id
+    LEFT JOIN acumatica_invoices ai ON ai.id = ir.invoice_id
+    WHERE ir.user_id = p_collector_id
+      AND ir.status = 'pending'
+      AND ir.reminder_date < (p_queue_date + 1)::timestamptz
+      AND COALESCE(ct.organization_id, ai.organization_id) = v_org
+  ),
+  accounts AS (
+    SELECT cca.customer_id
+    FROM collector_customer_assignments cca
+    WHERE cca.assigned_collector_id = p_collector_id
+    UNION
+    SELECT customer_id FROM open_tickets
+    UNION
+    SELECT ai.customer
+    FROM invoice_collector_assignments ica
+    JOIN acumatica_invoices ai ON ai.id = ica.invoice_id
+    WHERE ica.collector_id = p_collector_id
+      AND ica.status = 'active'
+      AND ai.organization_id = v_org
+    UNION
+    SELECT customer_id FROM due_reminders WHERE customer_id IS NOT NULL
+  ),
+  balances AS (
+    SELECT
+      ai.customer AS customer_id,
+      COALESCE(SUM(ai.balance) FILTER (WHERE ai.due_date::date < p_queue_date), 0) AS overdue_balance,
+      COALESCE(MAX(p_queue_date - ai.due_date::date) FILTER (WHERE ai.due_date::date < p_queue_date), 0) AS max_days
+    FROM acumatica_invoices ai
+    WHERE ai.organization_id = v_org
+      AND ai.customer IN (SELECT customer_id FROM accounts)
+      AND ai.status = 'Open'
+      AND ai.type IN ('Invoice', 'Debit Memo')
+      AND ai.balance > 0
+    GROUP BY ai.customer
+  ),
+  promises_due AS (
+    SELECT pp.customer_id, SUM(ppi.amount - ppi.amount_paid) AS amount
+    FROM payment_promise_installments ppi
+    JOIN payment_promises pp ON pp.id = ppi.promise_id
+    WHERE pp.organization_id = v_org
+      AND pp.status = 'open'
+      AND ppi.status = 'pending'
+      AND ppi.due_date = p_queue_date
+    GROUP BY pp.customer_id
+    UNION ALL
+    SELECT ot.customer_id, NULL
+    FROM open_tickets ot
+    WHERE ot.promise_date::date = p_queue_date
+    UNION ALL
+    SELECT ai.customer, SUM(ai.balance)
+    FROM acumatica_invoices ai
+    WHERE ai.organization_id = v_org
+      AND ai.customer IN (SELECT customer_id FROM accounts)
+      AND ai.status = 'Open'
+      AND ai.promise_date::date = p_queue_date
+    GROUP BY ai.customer
+  ),
+  customer_emails AS (
+    SELECT tet.customer_id, ie.id, ie.received_at
+    FROM ticket_email_threads tet
+    JOIN collection_tickets ct ON ct.id = tet.ticket_id AND ct.organization_id = v_org
+    JOIN inbound_emails ie ON ie.id = tet.inbound_email_id
+    WHERE tet.direction = 'inbound'
+    UNION
+    SELECT ac.customer_id, ie.id, ie.received_at
+    FROM inbound_emails ie
+    JOIN acumatica_customers ac
+      ON ac.organization_id = v_org
+     AND lower(ac.email_address) = lower(ie.sender_email)
+  ),
+  unanswered AS (
+    SELECT ce.customer_id, COUNT(*) AS reply_count, MAX(ce.received_at) AS last_received_at
+    FROM customer_emails ce
+    JOIN inbound_emails ie ON ie.id = ce.id
+    WHERE ce.customer_id IN (SELECT customer_id FROM accounts)
+      AND ie.received_at >= (p_queue_date - 14)::timestamptz
+      AND ie.deleted_at IS NULL
+      AND COALESCE(ie.folder, 'inbox') NOT IN ('spam', 'trash', 'sent')
+      AND NOT EXISTS (SELECT 1 FROM outbound_replies r WHERE r.inbound_email_id = ie.id)
+      AND NOT EXISTS (
+        SELECT 1 FROM ticket_email_threads o
+        WHERE o.customer_id = ce.customer_id
+          AND o.direction = 'outbound'
+          AND o.created_at > ie.received_at
+      )
+    GROUP BY ce.customer_id
+  ),
+  candidates AS (
+    SELECT
+      a.customer_id,
+      ac.customer_name,
+      COALESCE(b.overdue_balance, 0) AS overdue_balance,
+      COALESCE(b.max_days, 0) AS max_days,
+      pd.customer_id IS NOT NULL AS promise_due,
+      pd.amount AS promise_amount,
+      u.reply_count,
+      u.last_received_at,
+      dr.reminder_count,
+      dr.reminder_type,
+      t.id AS ticket_id,
+      t.priority AS ticket_priority,
+      EXISTS (
+        SELECT 1 FROM payment_promises bp
+        WHERE bp.organization_id = v_org
+          AND bp.customer_id = a.customer_id
+          AND bp.status IN ('broken', 'partially_kept')
+          AND bp.closed_at >= (p_queue_date - 30)::timestamptz
+      ) AS recently_broken
+    FROM accounts a
+    JOIN acumatica_customers ac ON ac.customer_id = a.customer_id AND ac.organization_id = v_org
+    LEFT JOIN balances b ON b.customer_id = a.customer_id
+    LEFT JOIN (
+      SELECT customer_id, SUM(amount) AS amount
+      FROM promises_due
+      GROUP BY customer_id
+    ) pd ON pd.customer_id = a.customer_id
+    LEFT JOIN unanswered u ON u.customer_id = a.customer_id
+    LEFT JOIN LATERAL (
+      SELECT COUNT(*) AS reminder_count,
+        (array_agg(r.reminder_type ORDER BY r.reminder_date))[1] AS reminder_type
+      FROM due_reminders r
+      WHERE r.customer_id = a.customer_id
+      HAVING COUNT(*) > 0
+    ) dr ON true
+    LEFT JOIN LATERAL (
+      SELECT ot.id, ot.priority
+      FROM open_tickets ot
+      WHERE ot.customer_id = a.customer_id
+      ORDER BY CASE ot.priority WHEN 'urgent' THEN 4 WHEN 'high' THEN 3 WHEN 'medium' THEN 2 ELSE 1 END DESC,
+        ot.created_at DESC
+      LIMIT 1
+    ) t ON true
+    WHERE NOT EXISTS (
+      SELECT 1 FROM collector_work_queue_items s
+      WHERE s.collector_id = p_collector_id
+        AND s.customer_id = a.customer_id
+        AND s.status = 'snoozed'
+        AND s.snoozed_until > now()
+    )
+  ),
+  scored AS (
+    SELECT
+      c.*,
+      reasons.list AS reasons,
+      COALESCE((SELECT SUM((x->>'points')::numeric) FROM jsonb_array_elements(reasons.list) x), 0) AS score
+    FROM candidates c
+    CROSS JOIN LATERAL (
+      SELECT COALESCE(jsonb_agg(v.reason ORDER BY (v.reason->>'points')::numeric DESC), '[]'::jsonb) AS list
+      FROM (VALUES
+        (CASE WHEN c.overdue_balance >= 100 THEN jsonb_build_object(
+          'reason', 'balance_at_risk',
+          'label', 'Balance at risk',
+          'points', ROUND(LEAST(30, (log(c.overdue_balance + 1) - 2) * 10)::numeric, 1),
+          'detail', format('$%s overdue', to_char(c.overdue_balance, 'FM999,999,990.00'))) END),
+        (CASE WHEN c.max_days >= 6 THEN jsonb_build_object(
+          'reason', 'days_overdue',
+          'label', 'Days overdue',
+          'points', ROUND(LEAST(20, c.max_days / 6.0)::numeric, 1),
+          'detail', format('Oldest invoice %s days past due', c.max_days)) END),
+        (CASE WHEN c.promise_due THEN jsonb_build_object(
+          'reason', 'promise_due',
+          'label', 'Promise due today',
+          'points', 25,
+          'detail', CASE WHEN c.promise_amount IS NOT NULL
+            THEN format('$%s promised for today', to_char(c.promise_amount, 'FM999,999,990.00'))
+            ELSE 'Ticket promise date is today' END) END),
+        (CASE WHEN c.reply_count > 0 THEN jsonb_build_object(
+          'reason', 'unanswered_reply',
+          'label', 'Unanswered reply',
+          'points', 20,
+          'detail', format('%s customer email(s) waiting since %s',
+            c.reply_count, to_char(c.last_received_at, 'Mon DD'))) END),
+        (CASE WHEN c.reminder_count > 0 THEN jsonb_build_object(
+          'reason', 'reminder_due',
+          'label', 'Reminder due',
+          'points', 10,
+          'detail', format('%s reminder(s) due', c.reminder_count)) END)
+      ) v(reason)
+      WHERE v.reason IS NOT NULL
+    ) reasons
+  ),
+  ranked AS (
+    SELECT
+      s.*,
+      ROW_NUMBER() OVER (ORDER BY s.score DESC, s.overdue_balance DESC, s.customer_id) AS position
+    FROM scored s
+    WHERE s.score > 0
+  )
+  INSERT INTO collector_work_queue_items (
+    organization_id, collector_id, queue_date, rank, priority_score,
+    customer_id, customer_name, ticket_id, reasons,
+    suggested_action, action_reason, balance_at_risk, max_days_overdue
+  )
+  SELECT
+    v_org,
+    p_collector_id,
+    p_queue_date,
+    r.position,
+    r.score,
+    r.customer_id,
+    r.customer_name,
+    r.ticket_id,
+    r.reasons,
+    CASE
+      WHEN r.reply_count > 0 THEN 'email'
+      WHEN r.max_days >= 90 OR r.ticket_priority = 'urgent' OR r.recently_broken THEN 'escalate'
+      WHEN r.promise_due THEN 'call'
+      WHEN r.reminder_type IN ('call', 'email') THEN r.reminder_type
+      WHEN r.overdue_balance >= 5000 THEN 'call'
+      ELSE 'email'
+    END,
+    CASE
+      WHEN r.reply_count > 0 THEN 'Customer is waiting on a reply'
+      WHEN r.max_days >= 90 THEN 'Over 90 days past due'
+      WHEN r.ticket_priority = 'urgent' THEN 'Ticket is marked urgent'
+      WHEN r.recently_broken THEN 'Promise broken in the last 30 days'
+      WHEN r.promise_due THEN 'Confirm today''s promised payment'
+      WHEN r.reminder_type IN ('call', 'email') THEN format('Scheduled %s reminder', r.reminder_type)
+      WHEN r.overdue_balance >= 5000 THEN 'Large overdue balance'
+      ELSE 'Send a payment reminder'
+    END,
+    r.overdue_balance,
+    r.max_days
+  FROM ranked r
+  WHERE r.position <= GREATEST(p_limit, 1)
+  ON CONFLICT (collector_id, queue_date, customer_id) DO NOTHING;
+
+  GET DIAGNOSTICS v_count = ROW_COUNT;
+  RETURN v_count;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION generate_collector_work_queues()
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_collector record;
+  v_total integer := 0;
+BEGIN
+  FOR v_collector IN
+    SELECT id
+    FROM user_profiles
+    WHERE organization_id IS NOT NULL
+      AND account_status = 'approved'
+      AND (can_be_assigned_as_collector = true OR role = 'collector')
+  LOOP
+    BEGIN
+      v_total := v_total + build_collector_work_queue(v_collector.id, CURRENT_DATE);
+    EXCEPTION WHEN OTHERS THEN
+      RAISE WARNING 'Work queue for collector % failed: %', v_collector.id, SQLERRM;
+    END;
+  END LOOP;
+
+  RETURN v_total;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION refresh_my_work_queue(p_queue_date date DEFAULT CURRENT_DATE)
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF get_user_org_id() IS NULL THEN
+    RAISE EXCEPTION 'No organization for current user';
+  END IF;
+
+  RETURN build_collector_work_queue(auth.uid(), p_queue_date);
+END;
+$$;
+
+-- =========================================================================
+-- 3. Working the queue
+-- =========================================================================
+CREATE OR REPLACE FUNCTION complete_work_queue_item(
+  p_item_id uuid,
+  p_note text DEFAULT NULL
+)
+RETURNS collector_work_queue_items
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_item collector_work_queue_items;
+BEGIN
+  UPDATE collector_work_queue_items
+  SET status = 'completed',
+      completed_at = now(),
+      completed_by = auth.uid(),
+      snoozed_until = NULL,
+      outcome_note = NULLIF(trim(COALESCE(p_note, '')), '')
+  WHERE id = p_item_id
+    AND status <> 'completed'
+    AND (collector_id = auth.uid()
+      OR (organization_id = get_user_org_id() AND is_manager_or_admin()))
+  RETURNING * INTO v_item;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Work queue item not found or already completed';
+  END IF;
+
+  IF v_item.ticket_id IS NOT NULL THEN
+    INSERT INTO ticket_activity_log (ticket_id, activity_type, description, created_by, metadata)
+    VALUES (
+      v_item.ticket_id,
+      'note',
+      concat_ws(': ',
+        format('Work queue item completed (suggested: %s)', v_item.suggested_action),
+        v_item.outcome_note),
+      auth.uid(),
+      jsonb_build_object(
+        'work_queue_item_id', v_item.id,
+        'action', 'completed',
+        'suggested_action', v_item.suggested_action,
+        'queue_date', v_item.queue_date
+      )
+    );
+  END IF;
+
+  RETURN v_item;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION snooze_work_queue_item(
+  p_item_id uuid,
+  p_until timestamptz,
+  p_note text DEFAULT NULL
+)
+RETURNS collector_work_queue_items
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_item collector_work_queue_items;
+BEGIN
+  IF p_until IS NULL OR p_until <= now() THEN
+    RAISE EXCEPTION 'Snooze time must be in the future';
+  END IF;
+
+  UPDATE collector_work_queue_items
+  SET status = 'snoozed',
+      snoozed_until = p_until,
+      outcome_note = COALESCE(NULLIF(trim(COALESCE(p_note, '')), ''), outcome_note)
+  WHERE id = p_item_id
+    AND status <> 'completed'
+    AND (collector_id = auth.uid()
+      OR (organization_id = get_user_org_id() AND is_manager_or_admin()))
+  RETURNING * INTO v_item;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Work queue item not found or already completed';
+  END IF;
+
+  IF v_item.ticket_id IS NOT NULL THEN
+    INSERT INTO ticket_activity_log (ticket_id, activity_type, description, created_by, metadata)
+    VALUES (
+      v_item.ticket_id,
+      'note',
+      concat_ws(': ',
+        format('Work queue item snoozed until %s', to_char(p_until, 'Mon DD, YYYY HH24:MI')),
+        NULLIF(trim(COALESCE(p_note, '')), '')),
+      auth.uid(),
+      jsonb_build_object(
+        'work_queue_item_id', v_item.id,
+        'action', 'snoozed',
+        'suggested_action', v_item.suggested_action,
+        'snoozed_until', p_until
+      )
+    );
+  END IF;
+
+  RETURN v_item;
+END;
+$$;
+
+-- =========================================================================
+-- 4. Completion report
+-- =========================================================================
+CREATE OR REPLACE FUNCTION get_work_queue_completion(p_queue_date date DEFAULT CURRENT_DATE)
+RETURNS TABLE (
+  collector_id uuid,
+  collector_name text,
+  total_items integer,
+  completed_items integer,
+  snoozed_items integer,
+  pending_items integer,
+  completion_rate numeric,
+  last_completed_at timestamptz
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT is_manager_or_admin() THEN
+    RAISE EXCEPTION 'Only managers and admins can view work queue completion';
+  END IF;
+
+  RETURN QUERY
+  SELECT
+    q.collector_id,
+    COALESCE(up.full_name, up.email),
+    COUNT(*)::integer,
+    COUNT(*) FILTER (WHERE q.status = 'completed')::integer,
+    COUNT(*) FILTER (WHERE q.status = 'snoozed')::integer,
+    COUNT(*) FILTER (WHERE q.status = 'pending')::integer,
+    ROUND(100.0 * COUNT(*) FILTER (WHERE q.status = 'completed') / COUNT(*), 1),
+    MAX(q.completed_at)
+  FROM collector_work_queue_items q
+  JOIN user_profiles up ON up.id = q.collector_id
+  WHERE q.organization_id = get_user_org_id()
+    AND q.queue_date = p_queue_date
+  GROUP BY q.collector_id, up.full_name, up.email
+  ORDER BY 7 ASC, 2;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION build_collector_work_queue(uuid, date, integer) FROM PUBLIC, anon, authenticated;
+REVOKE ALL ON FUNCTION generate_collector_work_queues() FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION build_collector_work_queue(uuid, date, integer) TO service_role;
+GRANT EXECUTE ON FUNCTION generate_collector_work_queues() TO service_role;
+
+REVOKE ALL ON FUNCTION refresh_my_work_queue(date) FROM PUBLIC, anon;
+REVOKE ALL ON FUNCTION complete_work_queue_item(uuid, text) FROM PUBLIC, anon;
+REVOKE ALL ON FUNCTION snooze_work_queue_item(uuid, timestamptz, text) FROM PUBLIC, anon;
+REVOKE ALL ON FUNCTION get_work_queue_completion(date) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION refresh_my_work_queue(date) TO authenticated;
+GRANT EXECUTE ON FUNCTION complete_work_queue_item(uuid, text) TO authenticated;
+GRANT EXECUTE ON FUNCTION snooze_work_queue_item(uuid, timestamptz, text) TO authenticated;
+GRANT EXECUTE ON FUNCTION get_work_queue_completion(date) TO authenticated;
+
+-- =========================================================================
+-- 5. Morning cron
+-- =========================================================================
+DO $$
+BEGIN
+  IF EXISTS (SELECT 1 FROM cron.job WHERE jobname = 'generate-collector-work-queues') THEN
+    PERFORM cron.unschedule('generate-collector-work-queues');
+  END IF;
+END $$;
+
+SELECT cron.schedule(
+  'generate-collector-work-queues',
+  '0 6 * * *',
+  'SELECT generate_collector_work_queues();'
+);
@@ -0,0 +1,747 @@
+/*
+  # Sync Job Orchestrator
+
+  ## Summary
+  Sync and backfill work is spread over many edge functions that each track
+  progress their own way (`async_sync_jobs`, `sync_progress`,
+  `backfill_progress`) and can run at the same time against the one
+  Acumatica session. This adds a single job model and an orchestrator:
+
+  - every job is `queued`, `running`, `waiting`, `succeeded`, `failed` or
+    `cancelled`; `waiting` means the job handed a window to an async child
+    sync and checks back on it later
+  - work is done in chunks; after each chunk the job saves a `checkpoint`,
+    so a run cut off by the edge-function timeout resumes where it stopped
+  - jobs queued together form a pipeline and run in dependency order
+    (customers -> invoices -> payments -> payment applications)
+  - each organization runs at most `max_running` jobs at once (default 1,
+    waiting jobs included), and no job starts while the scheduled master
+    sync is running
+  - queued jobs can be cancelled outright; running ones stop after their
+    current chunk
+
+  The `sync-orchestrator` edge function claims jobs and calls the existing
+  entity sync functions for each chunk.
+
+  ## New Tables
+  - `sync_jobs`: one row per job (`entity_type`, `mode`, `params`,
+    `depends_on`, `pipeline_id`, `checkpoint`, `progress`, chunk counters,
+    lease / retry bookkeeping)
+  - `sync_concurrency_limits`: per-organization `max_running`
+
+  ## New Functions
+  - `enqueue_sync_pipeline(mode, entities, params)` - queues one job per
+    entity, each depending on the one before; admins and the service role
+  - `cancel_sync_job(job_id)` / `retry_sync_job(job_id)` - admins
+  - `set_sync_concurrency_limit(max_running)` - admins
+  - `claim_next_sync_job(worker_id, lease_seconds)`,
+    `report_sync_job_progress(...)`, `finish_sync_job_run(...)` - used by
+    the orchestrator (service role)
+  - `trigger_sync_orchestrator()` - wakes the orchestrator when a job is
+    ready; runs every minute
+
+  ## Modified Functions
+  - `trigger_acumatica_sync` skips its run while an orchestrated job is
+    running or waiting, so the two never share the Acumatica session
+
+  ## Security
+  - RLS enabled; admins read their organization's jobs (and system jobs
+    queued by cron), org members read their organization's limit
+  - All writes go through the SECURITY DEFINER functions above
+*/
+
+-- =========================================================================
+-- 1. Tables
+-- =========================================================================
+CREATE TABLE IF NOT EXISTS sync_jobs (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  organization_id uuid REFERENCES organizations(id) ON DELETE CASCADE,
+  pipeline_id uuid NOT NULL DEFAULT gen_random_uuid(),
+  entity_type text NOT NULL
+    CHECK (entity_type IN ('customer', 'invoice', 'payment', 'payment_application')),
+  mode text NOT NULL CHECK (mode IN ('incremental', 'date_range')),
+  params jsonb NOT NULL DEFAULT '{}'::jsonb,
+  depends_on uuid[] NOT NULL DEFAULT '{}',
+  priority integer NOT NULL DEFAULT 0,
+  status text NOT NULL DEFAULT 'queued'
+    CHECK (status IN ('queued', 'running', 'waiting', 'succeeded', 'failed', 'cancelled')),
+  checkpoint jsonb NOT NULL DEFAULT '{}'::jsonb,
+  progress jsonb NOT NULL DEFAULT '{"fetched": 0, "created": 0, "updated": 0, "errors": 0}'::jsonb,
+  chunks_completed integer NOT NULL DEFAULT 0,
+  chunks_total integer,
+  attempts integer NOT NULL DEFAULT 0,
+  max_attempts integer NOT NULL DEFAULT 3,
+  next_attempt_at timestamptz NOT NULL DEFAULT now(),
+  worker_id text,
+  lease_expires_at timestamptz,
+  cancel_requested boolean NOT NULL DEFAULT false,
+  last_error text,
+  created_by uuid REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  started_at timestamptz,
+  finished_at timestamptz,
+  updated_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_sync_jobs_ready
+  ON sync_jobs(priority DESC, created_at)
+  WHERE status IN ('queued', 'waiting');
+
+CREATE INDEX IF NOT EXISTS idx_sync_jobs_running
+  ON sync_jobs(organization_id)
+  WHERE status IN ('running', 'waiting');
+
+CREATE INDEX IF NOT EXISTS idx_sync_jobs_pipeline
+  ON sync_jobs(pipeline_id);
+
+CREATE INDEX IF NOT EXISTS idx_sync_jobs_org_created
+  ON sync_jobs(organization_id, created_at DESC);
+
+CREATE TABLE IF NOT EXISTS sync_concurrency_limits (
+  organization_id uuid PRIMARY KEY REFERENCES organizations(id) ON DELETE CASCADE,
+  max_running integer NOT NULL DEFAULT 1 CHECK (max_running BETWEEN 1 AND 5),
+  updated_by uuid REFERENCES auth.users(id) ON DELETE SET NULL,
+  updated_at timestamptz NOT NULL DEFAULT now()
+);
+
+ALTER TABLE sync_jobs ENABLE ROW LEVEL SECURITY;
+ALTER TABLE sync_concurrency_limits ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can view sync jobs"
+  ON sync_jobs FOR SELECT
+  TO authenticated
+  USING (
+    is_admin()
+    AND (organization_id = get_user_org_id() OR organization_id IS NULL)
+  );
+
+CREATE POLICY "Org members can view their sync concurrency limit"
+  ON sync_concurrency_limits FOR SELECT
+  TO authenticated
+  USING (organization_id = get_user_org_id());
+
+-- =========================================================================
+-- 2. Queueing and admin controls
+-- =========================================================================
+CREATE OR REPLACE FUNCTION enqueue_sync_pipeline(
+  p_mode text,
+  p_entities text[] DEFAULT ARRAY['customer', 'invoice', 'payment', 'payment_application'],
+  p_params jsonb DEFAULT '{}'::jsonb
+)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_org uuid;
+  v_pipeline_id uuid := gen_random_uuid();
+  v_previous uuid;
+  v_entity text;
+BEGIN
+  -- Cron and other server-side callers have no user and queue system jobs
+  IF auth.uid() IS NOT NULL THEN
+    IF NOT is_admin() THEN
+      RAISE EXCEPTION 'Only admins can queue sync jobs';
+    END IF;
+    v_org := get_user_org_id();
+  END IF;
+
+  IF p_mode NOT IN ('incremental', 'date_range') THEN
+    RAISE EXCEPTION 'Unknown sync mode: %', p_mode;
+  END IF;
+
+  IF p_mode = 'date_range' AND (
+    NULLIF(p_params->>'start_date', '') IS NULL
+    OR NULLIF(p_params->>'end_date', '') IS NULL
+    OR (p_params->>'start_date')::date > (p_params->>'end_date')::date
+  ) THEN
+    RAISE EXCEPTION 'A date range sync needs a start date on or before its end date';
+  END IF;
+
+  IF COALESCE(array_length(p_entities, 1), 0) = 0 THEN
+    RAISE EXCEPTION 'Choose at least one entity to sync';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM sync_jobs
+    WHERE organization_id IS NOT DISTINCT FROM v_org
+      AND status IN ('queued', 'running', 'waiting')
+      AND mode = p_mode
+      AND params = p_params
+      AND entity_type = ANY (p_entities)
+  ) THEN
+    RAISE EXCEPTION 'A matching sync is already queued or running';
+  END IF;
+
+  -- Always chain in dependency order, whatever order the caller passed
+  FOR v_entity IN
+    SELECT e
+    FROM unnest(ARRAY['customer', 'invoice', 'payment', 'payment_application']) WITH ORDINALITY AS o(e, n)
+    WHERE e = ANY (p_entities)
+    ORDER BY n
+  LOOP
+    INSERT INTO sync_jobs (organization_id, pipeline_id, entity_type, mode, params, depends_on, created_by)
+    VALUES (
+      v_org,
+      v_pipeline_id,
+      v_entity,
+      p_mode,
+      p_params,
+      CASE WHEN v_previous IS NULL THEN '{}'::uuid[] ELSE ARRAY[v_previous] END,
+      auth.uid()
+    )
+    RETURNING id INTO v_previous;
+  END LOOP;
+
+  IF v_previous IS NULL THEN
+    RAISE EXCEPTION 'Unknown entity types: %', p_entities;
+  END IF;
+
+  PERFORM trigger_sync_orchestrator();
+  RETURN v_pipeline_id;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION cancel_sync_job(p_job_id uuid)
+RETURNS sync_jobs
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_job sync_jobs;
+BEGIN
+  IF NOT is_admin() THEN
+    RAISE EXCEPTION 'Only admins can cancel sync jobs';
+  END IF;
+
+  SELECT * INTO v_job
+  FROM sync_jobs
+  WHERE id = p_job_id
+    AND (organization_id = get_user_org_id() OR organization_id IS NULL)
+  FOR UPDATE;
+
+  IF NOT FOUND OR v_job.status NOT IN ('queued', 'running', 'waiting') THEN
+    RAISE EXCEPTION 'Only queued, running or waiting jobs can be cancelled';
+  END IF;
+
+  IF v_job.status = 'running' THEN
+    -- The worker stops after the chunk it is on
+    UPDATE sync_jobs
+    SET cancel_requested = true, updated_at = now()
+    WHERE id = p_job_id
+    RETURNING * INTO v_job;
+  ELSE
+    UPDATE sync_jobs
+    SET status = 'cancelled',
+        last_error = 'Cancelled by ' || COALESCE((SELECT email FROM user_profiles WHERE id = auth.uid()), 'admin'),
+        finished_at = now(),
+        updated_at = now()
+    WHERE id = p_job_id
+    RETURNING * INTO v_job;
+  END IF;
+
+  -- Later steps of the pipeline cannot run without this one
+  UPDATE sync_jobs
+  SET status = 'cancelled',
+      last_error = 'Cancelled: an earlier step of the pipeline was cancelled',
+      finished_at = now(),
+      updated_at = now()
+  WHERE pipeline_id = v_job.pipeline_id
+    AND status = 'queued'
+    AND created_at >= v_job.created_at
+    AND id <> v_job.id;
+
+  RETURN v_job;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION retry_sync_job(p_job_id uuid)
+RETURNS sync_jobs
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_job sync_jobs;
+BEGIN
+  IF NOT is_admin() THEN
+    RAISE EXCEPTION 'Only admins can retry sync jobs';
+  END IF;
+
+  -- The checkpoint is kept, so a retried job picks up after its last chunk
+  UPDATE sync_jobs
+  SET status = 'queued',
+      attempts = 0,
+      next_attempt_at = now(),
+      cancel_requested = false,
+      last_error = NULL,
+      finished_at = NULL,
+      updated_at = now()
+  WHERE id = p_job_id
+    AND (organization_id = get_user_org_id() OR organization_id IS NULL)
+    AND status IN ('failed', 'cancelled')
+  RETURNING * INTO v_job;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Only failed or cancelled jobs can be retried';
+  END IF;
+
+  -- Re-queue the pipeline steps that were skipped because of this one
+  UPDATE sync_jobs
+  SET status = 'queued',
+      attempts = 0,
+      next_attempt_at = now(),
+      last_error = NULL,
+      finished_at = NULL,
+      updated_at = now()
+  WHERE pipeline_id = v_job.pipeline_id
+    AND status = 'cancelled'
+    AND last_error LIKE 'Cancelled: an earlier step%'
+    AND created_at >= v_job.created_at;
+
+  PERFORM trigger_sync_orchestrator();
+  RETURN v_job;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION set_sync_concurrency_limit(p_max_running integer)
+RETURNS sync_concurrency_limits
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_limit sync_concurrency_limits;
+BEGIN
+  IF NOT is_admin() OR get_user_org_id() IS NULL THEN
+    RAISE EXCEPTION 'Only admins can change the sync concurrency limit';
+  END IF;
+
+  INSERT INTO sync_concurrency_limits (organization_id, max_running, updated_by, updated_at)
+  VALUES (get_user_org_id(), p_max_running, auth.uid(), now())
+  ON CONFLICT (organization_id) DO UPDATE
+  SET max_running = EXCLUDED.max_running,
+      updated_by = EXCLUDED.updated_by,
+      updated_at = now()
+  RETURNING * INTO v_limit;
+
+  RETURN v_limit;
+END;
+$$;
+
+-- =========================================================================
+-- 3. Worker protocol
+-- =========================================================================
+CREATE OR REPLACE FUNCTION claim_next_sync_job(
+  p_worker_id text,
+  p_lease_seconds integer DEFAULT 300
+)
+RETURNS SETOF sync_jobs
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_job sync_jobs;
+BEGIN
+  -- Claims are serialized so two workers cannot both see a free slot
+  PERFORM pg_advisory_xact_lock(hashtext('claim_next_sync_job'));
+
+  -- A lease that ran out means the worker was killed mid-chunk (usually the
+  -- edge-function timeout); the job goes back to the queue at its checkpoint
+  UPDATE sync_jobs
+  SET status = CASE
+        WHEN cancel_requested THEN 'cancelled'
+        WHEN attempts >= max_attempts THEN 'failed'
+        ELSE 'queued'
+      END,
+      last_error = CASE
+        WHEN cancel_requested THEN 'Cancelled while running'
+        ELSE 'Worker stopped before finishing its chunk (lease expired)'
+      END,
+      finished_at = CASE WHEN cancel_requested OR attempts >= max_attempts THEN now() END,
+      worker_id = NULL,
+      lease_expires_at = NULL,
+      updated_at = now()
+  WHERE status = 'running'
+    AND lease_expires_at < now();
+
+  UPDATE sync_jobs j
+  SET status = 'cancelled',
+      last_error = 'Cancelled: an earlier step of the pipeline did not succeed',
+      finished_at = now(),
+      updated_at = now()
+  WHERE j.status = 'queued'
+    AND EXISTS (
+      SELECT 1 FROM sync_jobs d
+      WHERE d.id = ANY (j.depends_on)
+        AND d.status IN ('failed', 'cancelled')
+    );
+
+  -- The scheduled master sync holds the Acumatica session while it runs
+  IF EXISTS (
+    SELECT 1 FROM sync_status
+    WHERE status = 'running'
+      AND updated_at > now() - interval '30 minutes'
+  ) THEN
+    RETURN;
+  END IF;
+
+  -- A waiting job holds its slot until it finishes, so it is counted against
+  -- the limit and resumed ahead of anything new
+  SELECT j.* INTO v_job
+  FROM sync_jobs j
+  WHERE j.status IN ('queued', 'waiting')
+    AND j.next_attempt_at <= now()
+    AND NOT EXISTS (
+      SELECT 1 FROM sync_jobs d
+      WHERE d.id = ANY (j.depends_on)
+        AND d.status <> 'succeeded'
+    )
+    AND (
+      SELECT COUNT(*) FROM sync_jobs r
+      WHERE r.status IN ('running', 'waiting')
+        AND r.organization_id IS NOT DISTINCT FROM j.organization_id
+        AND r.id <> j.id
+    ) < COALESCE(
+      (SELECT l.max_running FROM sync_concurrency_limits l WHERE l.organization_id = j.organization_id),
+      1
+    )
+  ORDER BY (j.status = 'waiting') DESC, j.priority DESC, j.created_at
+  LIMIT 1
+  FOR UPDATE SKIP LOCKED;
+
+  IF NOT FOUND THEN
+    RETURN;
+  END IF;
+
+  UPDATE sync_jobs
+  SET status = 'running',
+      attempts = attempts + 1,
+      worker_id = p_worker_id,
+      lease_expires_at = now() + make_interval(secs => p_lease_seconds),
+      started_at = COALESCE(started_at, now()),
+      updated_at = now()
+  WHERE id = v_job.id
+  RETURNING * INTO v_job;
+
+  RETURN NEXT v_job;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION report_sync_job_progress(
+  p_job_id uuid,
+  p_worker_id text,
+  p_checkpoint jsonb,
+  p_progress jsonb,
+  p_chunks_completed integer,
+  p_chunks_total integer DEFAULT NULL,
+  p_lease_seconds integer DEFAULT 300
+)
+RETURNS boolean
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_cancel boolean;
+BEGIN
+  UPDATE sync_jobs
+  SET checkpoint = p_checkpoint,
+      progress = p_progress,
+      chunks_completed = p_chunks_completed,
+      chunks_total = COALESCE(p_chunks_total, chunks_total),
+      lease_expires_at = now() + make_interval(secs => p_lease_seconds),
+      updated_at = now()
+  WHERE id = p_job_id
+    AND worker_id = p_worker_id
+    AND status = 'running'
+  RETURNING cancel_requested INTO v_cancel;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Sync job % is no longer leased to worker %', p_job_id, p_worker_id;
+  END IF;
+
+  RETURN v_cancel;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION finish_sync_job_run(
+  p_job_id uuid,
+  p_worker_id text,
+  p_outcome text,
+  p_error text DEFAULT NULL,
+  p_delay_seconds integer DEFAULT 0
+)
+RETURNS sync_jobs
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_job sync_jobs;
+BEGIN
+  IF p_outcome NOT IN ('succeeded', 'yielded', 'waiting', 'failed', 'cancelled') THEN
+    RAISE EXCEPTION 'Unknown run outcome: %', p_outcome;
+  END IF;
+
+  UPDATE sync_jobs
+  SET status = CASE
+        WHEN p_outcome = 'succeeded' THEN 'succeeded'
+        WHEN p_outcome = 'cancelled' OR cancel_requested THEN 'cancelled'
+        WHEN p_outcome = 'yielded' THEN 'queued'
+        WHEN p_outcome = 'waiting' THEN 'waiting'
+        WHEN attempts >= max_attempts THEN 'failed'
+        ELSE 'queued'
+      END,
+      -- Failures back off 1, 2, 4... minutes; a yielding or waiting job made
+      -- progress
+      attempts = CASE WHEN p_outcome IN ('yielded', 'waiting') THEN 0 ELSE attempts END,
+      next_attempt_at = CASE
+        WHEN p_outcome = 'failed' THEN now() + make_interval(mins => power(2, GREATEST(attempts - 1, 0))::integer)
+        ELSE now() + make_interval(secs => GREATEST(p_delay_seconds, 0))
+      END,
+      last_error = CASE
+        WHEN p_outcome = 'failed' THEN p_error
+        WHEN p_outcome = 'cancelled' OR cancel_requested THEN 'Cancelled while running'
+        WHEN p_outcome = 'succeeded' THEN NULL
+        ELSE last_error
+      END,
+      finished_at = CASE
+        WHEN p_outcome IN ('succeeded', 'cancelled') OR cancel_requested
+          OR (p_outcome = 'failed' AND attempts >= max_attempts)
+        THEN now()
+      END,
+      worker_id = NULL,
+      lease_expires_at = NULL,
+      updated_at = now()
+  WHERE id = p_job_id
+    AND worker_id = p_worker_id
+    AND status = 'running'
+  RETURNING * INTO v_job;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Sync job % is no longer leased to worker %', p_job_id, p_worker_id;
+  END IF;
+
+  RETURN v_job;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION claim_next_sync_job(text, integer) FROM PUBLIC, anon, authenticated;
+REVOKE ALL ON FUNCTION report_sync_job_progress(uuid, text, jsonb, jsonb, integer, integer, integer) FROM PUBLIC, anon, authenticated;
+REVOKE ALL ON FUNCTION finish_sync_job_run(uuid, text, text, text, integer) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION claim_next_sync_job(text, integer) TO service_role;
+GRANT EXECUTE ON FUNCTION report_sync_job_progress(uuid, text, jsonb, jsonb, integer, integer, integer) TO service_role;
+GRANT EXECUTE ON FUNCTION finish_sync_job_run(uuid, text, text, text, integer) TO service_role;
+
+REVOKE ALL ON FUNCTION enqueue_sync_pipeline(text, text[], jsonb) FROM PUBLIC, anon;
+REVOKE ALL ON FUNCTION cancel_sync_job(uuid) FROM PUBLIC, anon;
+REVOKE ALL ON FUNCTION retry_sync_job(uuid) FROM PUBLIC, anon;
+REVOKE ALL ON FUNCTION set_sync_concurrency_limit(integer) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION enqueue_sync_pipeline(text, text[], jsonb) TO authenticated, service_role;
+GRANT EXECUTE ON FUNCTION cancel_sync_job(uuid) TO authenticated;
+GRANT EXECUTE ON FUNCTION retry_sync_job(uuid) TO authenticated;
+GRANT EXECUTE ON FUNCTION set_sync_concurrency_limit(integer) TO authenticated;
+
+-- =========================================================================
+-- 4. Dispatch
+-- =========================================================================
+CREATE OR REPLACE FUNCTION trigger_sync_orchestrator()
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $func$
+DECLARE
+  v_supabase_url text;
+  v_anon_key text;
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM sync_jobs
+    WHERE (status IN ('queued', 'waiting') AND next_attempt_at <= now())
+       OR (status = 'running' AND lease_expires_at < now())
+  ) THEN
+    RETURN;
+  END IF;
+
+  SELECT supabase_url, supabase_anon_key
+  INTO v_supabase_url, v_anon_key
+  FROM acumatica_sync_credentials
+  WHERE is_active = true
+    AND supabase_url IS NOT NULL
+    AND supabase_anon_key IS NOT NULL
+  ORDER BY created_at DESC
+  LIMIT 1;
+
+  IF v_supabase_url IS NULL OR v_anon_key IS NULL THEN
+    RAISE NOTICE 'No credentials found for sync-orchestrator';
+    RETURN;
+  END IF;
+
+  PERFORM net.http_post(
+    url := v_supabase_url || '/functions/v1/sync-orchestrator',
+    headers := jsonb_build_object(
+      'Content-Type', 'application/json',
+      'Authorization', 'Bearer ' || v_anon_key,
+      'apikey', v_anon_key
+    ),
+    body := '{}'::jsonb
+  );
+EXCEPTION
+  WHEN OTHERS THEN
+    RAISE NOTICE 'Sync orchestrator dispatch failed: %', SQLERRM;
+END;
+$func$;
+
+REVOKE ALL ON FUNCTION trigger_sync_orchestrator() FROM PUBLIC, anon, authenticated;
+
+DO $$
+BEGIN
+  IF EXISTS (SELECT 1 FROM cron.job WHERE jobname = 'sync-orchestrator') THEN
+    PERFORM cron.unschedule('sync-orchestrator');
+  END IF;
+END $$;
+
+SELECT cron.schedule(
+  'sync-orchestrator',
+  '* * * * *',
+  'SELECT trigger_sync_orchestrator();'
+);
+
+-- =========================================================================
+-- 5. Keep the scheduled master sync off the session while jobs run
+-- =========================================================================
+CREATE OR REPLACE FUNCTION trigger_acumatica_sync()
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_supabase_url text;
+  v_anon_key text;
+  v_acumatica_url text;
+  v_username text;
+  v_password text;
+  v_company text;
+  v_branch text;
+  v_should_sync boolean := false;
+  v_request_body jsonb;
+  v_unstuck_count int;
+BEGIN
+  SELECT
+    supabase_url,
+    supabase_anon_key,
+    acumatica_url,
+    username,
+    password,
+    company,
+    branch
+  INTO
+    v_supabase_url,
+    v_anon_key,
+    v_acumatica_url,
+    v_username,
+    v_password,
+    v_company,
+    v_branch
+  FROM acumatica_sync_credentials
+  WHERE is_active = true
+    AND supabase_url IS NOT NULL
+    AND supabase_anon_key IS NOT NULL
+    AND acumatica_url IS NOT NULL
+    AND username IS NOT NULL
+    AND password IS NOT NULL
+  ORDER BY created_at DESC
+  LIMIT 1;
+
+  IF v_supabase_url IS NULL OR v_anon_key IS NULL OR v_acumatica_url IS NULL THEN
+    RAISE NOTICE 'No complete configuration found in credentials table';
+    RETURN;
+  END IF;
+
+  UPDATE sync_status
+  SET
+    status = 'idle',
+    last_error = 'Auto-recovered from stuck running state after 30 minutes',
+    updated_at = NOW()
+  WHERE status = 'running'
+    AND updated_at < NOW() - INTERVAL '30 minutes';
+
+  GET DIAGNOSTICS v_unstuck_count = ROW_COUNT;
+  IF v_unstuck_count > 0 THEN
+    RAISE NOTICE 'Auto-recovered % stuck sync(s)', v_unstuck_count;
+  END IF;
+
+  -- A waiting job's child sync is still using the session; one nobody has
+  -- checked on for 30 minutes is treated as abandoned
+  IF EXISTS (
+    SELECT 1 FROM sync_jobs
+    WHERE (status = 'running' AND lease_expires_at > NOW())
+       OR (status = 'waiting' AND updated_at > NOW() - INTERVAL '30 minutes')
+  ) THEN
+    RAISE NOTICE 'Orchestrated sync job running, skipping scheduled sync';
+    RETURN;
+  END IF;
+
+  SELECT EXISTS (
+    SELECT 1 FROM sync_status
+    WHERE sync_enabled = true
+      AND status != 'running'
+      AND (
+        last_successful_sync IS NULL
+        OR last_successful_sync < NOW() - INTERVAL '5 minutes'
+      )
+  ) INTO v_should_sync;
+
+  IF NOT v_should_sync THEN
+    RAISE NOTICE 'Sync not due yet or already running';
+    RETURN;
+  END IF;
+
+  UPDATE sync_status
+  SET
+    status = 'running',
+    updated_at = NOW()
+  WHERE sync_enabled = true
+    AND status != 'running'
+    AND (
+      last_successful_sync IS NULL
+      OR last_successful_sync < NOW() - INTERVAL '5 minutes'
+    );
+
+  v_request_body := jsonb_build_object(
+    'acumaticaUrl', v_acumatica_url,
+    'username', v_username,
+    'password', v_password,
+    'company', COALESCE(v_company, ''),
+    'branch', COALESCE(v_branch, '')
+  );
+
+  PERFORM net.http_post(
+    url := v_supabase_url || '/functions/v1/acumatica-master-sync',
+    headers := jsonb_build_object(
+      'Authorization', 'Bearer ' || v_anon_key,
+      'Content-Type', 'application/json',
+      'apikey', v_anon_key
+    ),
+    body := v_request_body
+  );
+
+  RAISE NOTICE 'Sync triggered successfully';
+
+EXCEPTION
+  WHEN OTHERS THEN
+    UPDATE sync_status
+    SET
+      status = 'failed',
+      last_error = SQLERRM,
+      updated_at = NOW()
+    WHERE status = 'running';
+
+    RAISE NOTICE 'Sync failed: %', SQLERRM;
+END;
+$$;
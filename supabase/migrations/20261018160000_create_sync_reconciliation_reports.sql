@@ -0,0 +1,182 @@
+/*
+  # Nightly Acumatica Reconciliation Reports
+
+  ## Summary
+  Discrepancy hunting between Acumatica and the local mirror has been done
+  with one-off functions (compare-invoice-totals, compare-invoice-refs,
+  find-missing-invoices, find-november-discrepancy, ...). This adds a
+  scheduled reconciliation that walks the last few months and stores the
+  result as a dated report:
+
+  - invoices (by document date) and payments (by application date) are
+    compared per month on counts, totals and each document's
+    amount / balance / status
+  - payment applications are compared per payment: the amount Acumatica
+    shows as applied vs. the sum of local `payment_invoice_applications`
+  - every difference is classified as `missing_local`, `stale`, `extra`
+    or `amount_mismatch`
+  - with auto-heal on, affected documents are re-fetched one by one; when
+    there are too many, or the document is missing locally, a date-range
+    job for that month is queued on the sync orchestrator instead.
+    `extra` documents are never deleted automatically
+
+  The `sync-reconciliation` edge function does the work and then asks
+  `send-sync-report` to mail the report.
+
+  ## New Tables
+  - `sync_reconciliation_settings`: single row with `auto_heal`,
+    `months_back`, `amount_tolerance` and `email_report`
+  - `sync_reconciliation_reports`: one row per run (`report_date`,
+    `status`, per-month `summary`, discrepancy / heal counters)
+  - `sync_reconciliation_discrepancies`: one row per differing document
+    with the Acumatica and local values side by side and its heal outcome
+
+  ## New Functions
+  - `trigger_sync_reconciliation()` - calls the edge function; runs
+    nightly at 07:30 UTC
+
+  ## Security
+  - RLS enabled; admins read reports and discrepancies and can change the
+    settings row. Reports are only written by the service role
+*/
+
+-- =========================================================================
+-- 1. Tables
+-- =========================================================================
+CREATE TABLE IF NOT EXISTS sync_reconciliation_settings (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  auto_heal boolean NOT NULL DEFAULT false,
+  months_back integer NOT NULL DEFAULT 3 CHECK (months_back BETWEEN 1 AND 12),
+  amount_tolerance numeric(18, 2) NOT NULL DEFAULT 0.01 CHECK (amount_tolerance >= 0),
+  email_report boolean NOT NULL DEFAULT true,
+  updated_by uuid REFERENCES auth.users(id) ON DELETE SET NULL,
+  updated_at timestamptz NOT NULL DEFAULT now()
+);
+
+INSERT INTO sync_reconciliation_settings (auto_heal)
+SELECT false
+WHERE NOT EXISTS (SELECT 1 FROM sync_reconciliation_settings);
+
+CREATE TABLE IF NOT EXISTS sync_reconciliation_reports (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  report_date date NOT NULL DEFAULT CURRENT_DATE,
+  triggered_by text NOT NULL DEFAULT 'cron' CHECK (triggered_by IN ('cron', 'manual')),
+  status text NOT NULL DEFAULT 'running'
+    CHECK (status IN ('running', 'completed', 'failed')),
+  period_start date NOT NULL,
+  period_end date NOT NULL,
+  auto_heal boolean NOT NULL DEFAULT false,
+  summary jsonb NOT NULL DEFAULT '[]'::jsonb,
+  total_discrepancies integer NOT NULL DEFAULT 0,
+  healed_count integer NOT NULL DEFAULT 0,
+  queued_count integer NOT NULL DEFAULT 0,
+  error_message text,
+  emailed_at timestamptz,
+  started_at timestamptz NOT NULL DEFAULT now(),
+  completed_at timestamptz
+);
+
+CREATE INDEX IF NOT EXISTS idx_sync_reconciliation_reports_date
+  ON sync_reconciliation_reports(report_date DESC, started_at DESC);
+
+CREATE TABLE IF NOT EXISTS sync_reconciliation_discrepancies (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  report_id uuid NOT NULL REFERENCES sync_reconciliation_reports(id) ON DELETE CASCADE,
+  entity_type text NOT NULL CHECK (entity_type IN ('invoice', 'payment', 'payment_application')),
+  month text NOT NULL,
+  document_type text,
+  reference_number text NOT NULL,
+  classification text NOT NULL
+    CHECK (classification IN ('missing_local', 'stale', 'extra', 'amount_mismatch')),
+  acumatica_values jsonb,
+  local_values jsonb,
+  detail text,
+  heal_status text CHECK (heal_status IN ('healed', 'queued', 'failed')),
+  heal_note text,
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_sync_reconciliation_discrepancies_report
+  ON sync_reconciliation_discrepancies(report_id, entity_type, month);
+
+ALTER TABLE sync_reconciliation_settings ENABLE ROW LEVEL SECURITY;
+ALTER TABLE sync_reconciliation_reports ENABLE ROW LEVEL SECURITY;
+ALTER TABLE sync_reconciliation_discrepancies ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can view reconciliation settings"
+  ON sync_reconciliation_settings FOR SELECT
+  TO authenticated
+  USING (is_admin());
+
+CREATE POLICY "Admins can update reconciliation settings"
+  ON sync_reconciliation_settings FOR UPDATE
+  TO authenticated
+  USING (is_admin())
+  WITH CHECK (is_admin());
+
+CREATE POLICY "Admins can view reconciliation reports"
+  ON sync_reconciliation_reports FOR SELECT
+  TO authenticated
+  USING (is_admin());
+
+CREATE POLICY "Admins can view reconciliation discrepancies"
+  ON sync_reconciliation_discrepancies FOR SELECT
+  TO authenticated
+  USING (is_admin());
+
+-- =========================================================================
+-- 2. Nightly trigger
+-- =========================================================================
+CREATE OR REPLACE FUNCTION trigger_sync_reconciliation()
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $func$
+DECLARE
+  v_supabase_url text;
+  v_anon_key text;
+BEGIN
+  SELECT supabase_url, supabase_anon_key
+  INTO v_supabase_url, v_anon_key
+  FROM acumatica_sync_credentials
+  WHERE is_active = true
+    AND supabase_url IS NOT NULL
+    AND supabase_anon_key IS NOT NULL
+  ORDER BY created_at DESC
+  LIMIT 1;
+
+  IF v_supabase_url IS NULL OR v_anon_key IS NULL THEN
+    RAISE NOTICE 'No credentials found for sync-reconciliation';
+    RETURN;
+  END IF;
+
+  PERFORM net.http_post(
+    url := v_supabase_url || '/functions/v1/sync-reconciliation',
+    headers := jsonb_build_object(
+      'Content-Type', 'application/json',
+      'Authorization', 'Bearer ' || v_anon_key,
+      'apikey', v_anon_key
+    ),
+    body := '{"triggeredBy": "cron"}'::jsonb
+  );
+EXCEPTION
+  WHEN OTHERS THEN
+    RAISE NOTICE 'Sync reconciliation dispatch failed: %', SQLERRM;
+END;
+$func$;
+
+REVOKE ALL ON FUNCTION trigger_sync_reconciliation() FROM PUBLIC, anon, authenticated;
+
+DO $$
+BEGIN
+  IF EXISTS (SELECT 1 FROM cron.job WHERE jobname = 'sync-reconciliation-nightly') THEN
+    PERFORM cron.unschedule('sync-reconciliation-nightly');
+  END IF;
+END $$;
+
+SELECT cron.schedule(
+  'sync-reconciliation-nightly',
+  '30 7 * * *',
+  'SELECT trigger_sync_reconciliation();'
+);
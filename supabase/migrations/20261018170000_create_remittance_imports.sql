@@ -0,0 +1,732 @@
+/*
+  # Bank Remittance Imports
+
+  ## Summary
+  Payment data only arrives from Acumatica, so cash that has reached the bank
+  but is not yet posted is invisible to collectors. This adds an importer for
+  BAI2 and CSV lockbox / remittance files. The browser parses the file into
+  deposits and remittance lines; each line is then matched to a customer and
+  open invoices. Lines that are matched (automatically or by a reviewer) show
+  as "cash received, pending posting" on those invoices until Acumatica
+  posts the payment.
+
+  ## Matching (0-100)
+  - 40 payer account equals a customer id, 30 payer name equals exactly one
+    customer's name
+  - 30 invoice numbers found in the remittance (invoice column / addenda
+    text, via `payment_text_mentions`); the referenced invoices are allocated
+    oldest due first, using per-invoice amounts from the file when present
+  - 35 exact amount (within $0.01), 20 near amount (2% or $1), 5 partial
+  - without an invoice reference but with a known customer: one open invoice
+    with exactly the line amount (+35), or 2-3 of the 20 oldest open
+    invoices summing to it (+30)
+  Lines at 80+ are `matched`, 40-79 `suggested` for review, the rest
+  `unmatched`. Only open Invoice / Debit Memo documents without an active
+  dispute are considered.
+
+  ## New Tables
+  - `remittance_imports`: one row per file (`file_format` bai2 | csv,
+    `file_hash` to refuse the same file twice, counters)
+  - `remittance_deposits`: deposits within a file (date, bank account,
+    bank reference, amount)
+  - `remittance_lines`: one row per remitted payment (payer, check number,
+    amount, `invoice_hints` from the file, matched `customer_id`,
+    `allocations` [{invoice_reference, customer_id, amount}], `match_score`,
+    `match_reasons`, `status` unmatched | suggested | matched | rejected |
+    posted)
+
+  ## New Functions
+  - `import_remittance_file(file_name, file_format, file_hash, deposits)` -
+    stores a parsed file and matches its lines
+  - `match_remittance_lines(import_id)` - the matching engine
+  - `review_remittance_line(line_id, decision, customer_id, invoice_refs,
+    note)` - confirm / reject a line, optionally choosing customer and
+    invoices by hand
+  - `get_pending_cash(invoice_refs, customer_id)` - matched, not yet posted
+    cash per invoice (or on account)
+  - `clear_posted_remittance_lines()` - marks lines posted once Acumatica
+    shows the payment; hourly at :20
+
+  ## Security
+  - RLS enabled; org members read their organization's imports and lines
+  - Writes go through the SECURITY DEFINER functions above
+*/
+
+-- =========================================================================
+-- 1. Tables
+-- =========================================================================
+CREATE TABLE IF NOT EXISTS remittance_imports (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  organization_id uuid NOT NULL REFERENCES organizations(id) ON DELETE CASCADE,
+  file_name text NOT NULL,
+  file_format text NOT NULL CHECK (file_format IN ('bai2', 'csv')),
+  file_hash text NOT NULL,
+  deposit_count integer NOT NULL DEFAULT 0,
+  line_count integer NOT NULL DEFAULT 0,
+  total_amount numeric(18, 2) NOT NULL DEFAULT 0,
+  matched_count integer NOT NULL DEFAULT 0,
+  suggested_count integer NOT NULL DEFAULT 0,
+  imported_by uuid REFERENCES user_profiles(id) ON DELETE SET NULL,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  UNIQUE (organization_id, file_hash)
+);
+
+CREATE TABLE IF NOT EXISTS remittance_deposits (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  organization_id uuid NOT NULL REFERENCES organizations(id) ON DELETE CASCADE,
+  import_id uuid NOT NULL REFERENCES remittance_imports(id) ON DELETE CASCADE,
+  deposit_date date NOT NULL,
+  bank_account text,
+  bank_reference text,
+  amount numeric(18, 2) NOT NULL DEFAULT 0,
+  line_count integer NOT NULL DEFAULT 0,
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE TABLE IF NOT EXISTS remittance_lines (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  organization_id uuid NOT NULL REFERENCES organizations(id) ON DELETE CASCADE,
+  import_id uuid NOT NULL REFERENCES remittance_imports(id) ON DELETE CASCADE,
+  deposit_id uuid NOT NULL REFERENCES remittance_deposits(id) ON DELETE CASCADE,
+  line_number integer NOT NULL,
+  deposit_date date NOT NULL,
+  payer_name text,
+  payer_account text,
+  check_number text,
+  amount numeric(18, 2) NOT NULL,
+  invoice_hints jsonb NOT NULL DEFAULT '[]'::jsonb,
+  remittance_text text,
+  customer_id text,
+  customer_name text,
+  allocations jsonb NOT NULL DEFAULT '[]'::jsonb,
+  match_score integer NOT NULL DEFAULT 0 CHECK (match_score BETWEEN 0 AND 100),
+  match_reasons text[] NOT NULL DEFAULT '{}',
+  status text NOT NULL DEFAULT 'unmatched'
+    CHECK (status IN ('unmatched', 'suggested', 'matched', 'rejected', 'posted')),
+  reviewed_by uuid REFERENCES user_profiles(id) ON DELETE SET NULL,
+  reviewed_at timestamptz,
+  review_note text,
+  posted_at timestamptz,
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_remittance_imports_org
+  ON remittance_imports(organization_id, created_at DESC);
+
+CREATE INDEX IF NOT EXISTS idx_remittance_deposits_import
+  ON remittance_deposits(import_id);
+
+CREATE INDEX IF NOT EXISTS idx_remittance_lines_import
+  ON remittance_lines(import_id, line_number);
+
+CREATE INDEX IF NOT EXISTS idx_remittance_lines_pending
+  ON remittance_lines(organization_id, customer_id)
+  WHERE status = 'matched';
+
+ALTER TABLE remittance_imports ENABLE ROW LEVEL SECURITY;
+ALTER TABLE remittance_deposits ENABLE ROW LEVEL SECURITY;
+ALTER TABLE remittance_lines ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Org members can view remittance imports"
+  ON remittance_imports FOR SELECT
+  TO authenticated
+  USING (organization_id = get_user_org_id());
+
+CREATE POLICY "Org members can view remittance deposits"
+  ON remittance_deposits FOR SELECT
+  TO authenticated
+  USING (organization_id = get_user_org_id());
+
+CREATE POLICY "Org members can view remittance lines"
+  ON remittance_lines FOR SELECT
+  TO authenticated
+  USING (organization_id = get_user_org_id());
+
+-- =========================================================================
+-- 2. Matching engine
+-- =========================================================================
+CREATE OR REPLACE FUNCTION match_remittance_lines(p_import_id uuid)
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_org uuid;
+  v_line record;
+  v_inv record;
+  v_text text;
+  v_customer_id text;
+  v_customer_name text;
+  v_refs text[];
+  v_amounts numeric[];
+  v_total numeric;
+  v_hint numeric;
+  v_alloc numeric;
+  v_remaining numeric;
+  v_allocations jsonb;
+  v_score integer;
+  v_reasons text[];
+  v_matched integer := 0;
+BEGIN
+  SELECT organization_id INTO v_org FROM remittance_imports WHERE id = p_import_id;
+  IF v_org IS NULL THEN
+    RAISE EXCEPTION 'Remittance import not found';
+  END IF;
+
+  CREATE TEMP TABLE IF NOT EXISTS rm_open_invoices (
+    reference_number text,
+    customer_id text,
+    due_date date,
+    balance numeric
+  ) ON COMMIT DROP;
+  TRUNCATE rm_open_invoices;
+
+  INSERT INTO rm_open_invoices
+  SELECT i.reference_number, i.customer, i.due_date::date, i.balance
+  FROM acumatica_invoices i
+  WHERE i.organization_id = v_org
+    AND i.type IN ('Invoice', 'Debit Memo')
+    AND i.status IN ('Open', 'open')
+    AND i.balance > 0
+    AND NOT EXISTS (
+      SELECT 1
+      FROM invoice_dispute_invoices di
+      JOIN invoice_disputes d ON d.id = di.dispute_id
+      WHERE di.invoice_reference_number = i.reference_number
+        AND d.status IN ('open', 'investigating', 'awaiting_customer')
+    );
+
+  FOR v_line IN
+    SELECT *
+    FROM remittance_lines
+    WHERE import_id = p_import_id
+      AND status IN ('unmatched', 'suggested')
+      AND reviewed_at IS NULL
+  LOOP
+    v_customer_id := NULL;
+    v_customer_name := NULL;
+    v_refs := NULL;
+    v_amounts := NULL;
+    v_total := NULL;
+    v_allocations := '[]'::jsonb;
+    v_score := 0;
+    v_reasons := '{}';
+    v_text := NULLIF(trim(concat_ws(' ',
+      (SELECT string_agg(h->>'reference', ' ') FROM jsonb_array_elements(v_line.invoice_hints) h),
+      v_line.remittance_text
+    )), '');
+
+    -- Payer: account number first, then a name that fits exactly one customer
+    IF NULLIF(trim(v_line.payer_account), '') IS NOT NULL THEN
+      SELECT c.customer_id, c.customer_name
+      INTO v_customer_id, v_customer_name
+      FROM acumatica_customers c
+      WHERE c.organization_id = v_org
+        AND upper(c.customer_id) = upper(trim(v_line.payer_account))
+      LIMIT 1;
+      IF v_customer_id IS NOT NULL THEN
+        v_score := 40;
+        v_reasons := ARRAY['payer_account'];
+      END IF;
+    END IF;
+
+    IF v_customer_id IS NULL AND NULLIF(trim(v_line.payer_name), '') IS NOT NULL THEN
+      SELECT min(c.customer_id), min(c.customer_name)
+      INTO v_customer_id, v_customer_name
+      FROM acumatica_customers c
+      WHERE c.organization_id = v_org
+        AND lower(trim(c.customer_name)) = lower(trim(v_line.payer_name))
+      HAVING count(*) = 1;
+      IF v_customer_id IS NOT NULL THEN
+        v_score := 30;
+        v_reasons := ARRAY['payer_name'];
+      END IF;
+    END IF;
+
+    -- Invoices named in the remittance
+    IF v_text IS NOT NULL THEN
+      SELECT array_agg(oi.reference_number ORDER BY oi.due_date, oi.reference_number), sum(oi.balance)
+      INTO v_refs, v_total
+      FROM rm_open_invoices oi
+      WHERE payment_text_mentions(v_text, oi.reference_number)
+        AND (v_customer_id IS NULL OR oi.customer_id = v_customer_id);
+    END IF;
+
+    IF v_refs IS NOT NULL THEN
+      v_score := v_score + 30;
+      v_reasons := v_reasons || 'invoice_reference';
+
+      IF v_customer_id IS NULL THEN
+        SELECT min(oi.customer_id)
+        INTO v_customer_id
+        FROM rm_open_invoices oi
+        WHERE oi.reference_number = ANY(v_refs)
+        HAVING count(DISTINCT oi.customer_id) = 1;
+      END IF;
+
+      v_score := v_score + CASE
+        WHEN abs(v_total - v_line.amount) < 0.01 THEN 35
+        WHEN abs(v_total - v_line.amount) <= GREATEST(v_line.amount * 0.02, 1) THEN 20
+        WHEN v_total > v_line.amount THEN 5
+        ELSE 0
+      END;
+      v_reasons := v_reasons || CASE
+        WHEN abs(v_total - v_line.amount) < 0.01 THEN 'exact_amount'
+        WHEN abs(v_total - v_line.amount) <= GREATEST(v_line.amount * 0.02, 1) THEN 'near_amount'
+        WHEN v_total > v_line.amount THEN 'partial_payment'
+      END;
+
+      v_remaining := v_line.amount;
+      FOR v_inv IN
+        SELECT oi.reference_number, oi.customer_id, oi.balance
+        FROM rm_open_invoices oi
+        WHERE oi.reference_number = ANY(v_refs)
+        ORDER BY oi.due_date, oi.reference_number
+      LOOP
+        SELECT (h->>'amount')::numeric
+        INTO v_hint
+        FROM jsonb_array_elements(v_line.invoice_hints) h
+        WHERE ltrim(h->>'reference', '0') = ltrim(v_inv.reference_number, '0')
+          AND NULLIF(h->>'amount', '') IS NOT NULL
+        LIMIT 1;
+
+        v_alloc := LEAST(COALESCE(v_hint, v_inv.balance), v_inv.balance, v_remaining);
+        EXIT WHEN v_alloc <= 0;
+        v_allocations := v_allocations || jsonb_build_object(
+          'invoice_reference', v_inv.reference_number,
+          'customer_id', v_inv.customer_id,
+          'amount', v_alloc
+        );
+        v_remaining := v_remaining - v_alloc;
+      END LOOP;
+
+    ELSIF v_customer_id IS NOT NULL THEN
+      -- No invoice named: look for one open invoice, or a small set, that
+      -- adds up to the payment
+      SELECT ARRAY[oi.reference_number], ARRAY[oi.balance]
+      INTO v_refs, v_amounts
+      FROM rm_open_invoices oi
+      WHERE oi.customer_id = v_customer_id
+        AND abs(oi.balance - v_line.amount) < 0.01
+      ORDER BY oi.due_date, oi.reference_number
+      LIMIT 1;
+
+      IF v_refs IS NOT NULL THEN
+        v_score := v_score + 35;
+        v_reasons := v_reasons || 'exact_amount';
+      ELSE
+        WITH pool AS (
+          SELECT oi.*, row_number() OVER (ORDER BY oi.due_date, oi.reference_number) AS rn
+          FROM rm_open_invoices oi
+          WHERE oi.customer_id = v_customer_id
+            AND oi.balance < v_line.amount
+          ORDER BY oi.due_date, oi.reference_number
+          LIMIT 20
+        ),
+        combos AS (
+          SELECT ARRAY[a.reference_number, b.reference_number] AS refs,
+                 ARRAY[a.balance, b.balance] AS amounts
+          FROM pool a
+          JOIN pool b ON b.rn > a.rn
+          WHERE abs(a.balance + b.balance - v_line.amount) < 0.01
+          UNION ALL
+          SELECT ARRAY[a.reference_number, b.reference_number, c.reference_number],
+                 ARRAY[a.balance, b.balance, c.balance]
+          FROM pool a
+          JOIN pool b ON b.rn > a.rn
+          JOIN pool c ON c.rn > b.rn
+          WHERE abs(a.balance + b.balance + c.balance - v_line.amount) < 0.01
+        )
+        SELECT cb.refs, cb.amounts
+        INTO v_refs, v_amounts
+        FROM combos cb
+        ORDER BY cardinality(cb.refs)
+        LIMIT 1;
+
+        IF v_refs IS NOT NULL THEN
+          v_score := v_score + 30;
+          v_reasons := v_reasons || 'invoice_combination';
+        END IF;
+      END IF;
+
+      IF v_refs IS NOT NULL THEN
+        SELECT jsonb_agg(jsonb_build_object(
+          'invoice_reference', v_refs[n],
+          'customer_id', v_customer_id,
+          'amount', v_amounts[n]
+        ) ORDER BY n)
+        INTO v_allocations
+        FROM generate_subscripts(v_refs, 1) n;
+      END IF;
+    END IF;
+
+    IF v_customer_id IS NOT NULL AND v_customer_name IS NULL THEN
+      SELECT c.customer_name INTO v_customer_name
+      FROM acumatica_customers c
+      WHERE c.organization_id = v_org AND c.customer_id = v_customer_id
+      LIMIT 1;
+    END IF;
+
+    v_score := LEAST(v_score, 100);
+
+    UPDATE remittance_lines
+    SET customer_id = v_customer_id,
+        customer_name = v_customer_name,
+        allocations = COALESCE(v_allocations, '[]'::jsonb),
+        match_score = v_score,
+        match_reasons = v_reasons,
+        status = CASE
+          WHEN v_score >= 80 THEN 'matched'
+          WHEN v_score >= 40 THEN 'suggested'
+          ELSE 'unmatched'
+        END
+    WHERE id = v_line.id;
+
+    IF v_score >= 80 THEN
+      v_matched := v_matched + 1;
+    END IF;
+  END LOOP;
+
+  UPDATE remittance_imports ri
+  SET matched_count = counts.matched,
+      suggested_count = counts.suggested
+  FROM (
+    SELECT
+      count(*) FILTER (WHERE status IN ('matched', 'posted')) AS matched,
+      count(*) FILTER (WHERE status = 'suggested') AS suggested
+    FROM remittance_lines
+    WHERE import_id = p_import_id
+  ) counts
+  WHERE ri.id = p_import_id;
+
+  RETURN v_matched;
+END;
+$$;
+
+-- =========================================================================
+-- 3. Import and review
+-- =========================================================================
+CREATE OR REPLACE FUNCTION import_remittance_file(
+  p_file_name text,
+  p_file_format text,
+  p_file_hash text,
+  p_deposits jsonb
+)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_org uuid := get_user_org_id();
+  v_import_id uuid;
+  v_deposit_id uuid;
+  v_deposit record;
+  v_line record;
+  v_existing timestamptz;
+  v_line_number integer := 0;
+BEGIN
+  IF v_org IS NULL THEN
+    RAISE EXCEPTION 'No organization for current user';
+  END IF;
+
+  IF p_file_format NOT IN ('bai2', 'csv') THEN
+    RAISE EXCEPTION 'Unsupported remittance format: %', p_file_format;
+  END IF;
+
+  IF jsonb_typeof(p_deposits) <> 'array' OR jsonb_array_length(p_deposits) = 0 THEN
+    RAISE EXCEPTION 'The file contains no deposits';
+  END IF;
+
+  SELECT created_at INTO v_existing
+  FROM remittance_imports
+  WHERE organization_id = v_org AND file_hash = p_file_hash;
+
+  IF FOUND THEN
+    RAISE EXCEPTION 'This file was already imported on %', to_char(v_existing, 'YYYY-MM-DD');
+  END IF;
+
+  INSERT INTO remittance_imports (organization_id, file_name, file_format, file_hash, imported_by)
+  VALUES (v_org, p_file_name, p_file_format, p_file_hash, auth.uid())
+  RETURNING id INTO v_import_id;
+
+  FOR v_deposit IN SELECT value AS d FROM jsonb_array_elements(p_deposits) LOOP
+    INSERT INTO remittance_deposits (
+      organization_id, import_id, deposit_date, bank_account, bank_reference, amount, line_count
+    )
+    VALUES (
+      v_org,
+      v_import_id,
+      (v_deposit.d->>'deposit_date')::date,
+      NULLIF(v_deposit.d->>'bank_account', ''),
+      NULLIF(v_deposit.d->>'bank_reference', ''),
+      COALESCE((v_deposit.d->>'amount')::numeric, 0),
+      jsonb_array_length(COALESCE(v_deposit.d->'lines', '[]'::jsonb))
+    )
+    RETURNING id INTO v_deposit_id;
+
+    FOR v_line IN SELECT value AS l FROM jsonb_array_elements(COALESCE(v_deposit.d->'lines', '[]'::jsonb)) LOOP
+      v_line_number := v_line_number + 1;
+      INSERT INTO remittance_lines (
+        organization_id, import_id, deposit_id, line_number, deposit_date,
+        payer_name, payer_account, check_number, amount, invoice_hints, remittance_text
+      )
+      VALUES (
+        v_org,
+        v_import_id,
+        v_deposit_id,
+        v_line_number,
+        (v_deposit.d->>'deposit_date')::date,
+        NULLIF(trim(v_line.l->>'payer_name'), ''),
+        NULLIF(trim(v_line.l->>'payer_account'), ''),
+        NULLIF(trim(v_line.l->>'check_number'), ''),
+        (v_line.l->>'amount')::numeric,
+        COALESCE(v_line.l->'invoice_hints', '[]'::jsonb),
+        NULLIF(trim(v_line.l->>'remittance_text'), '')
+      );
+    END LOOP;
+  END LOOP;
+
+  UPDATE remittance_imports
+  SET deposit_count = (SELECT count(*) FROM remittance_deposits WHERE import_id = v_import_id),
+      line_count = v_line_number,
+      total_amount = (SELECT COALESCE(sum(amount), 0) FROM remittance_deposits WHERE import_id = v_import_id)
+  WHERE id = v_import_id;
+
+  PERFORM match_remittance_lines(v_import_id);
+
+  RETURN v_import_id;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION review_remittance_line(
+  p_line_id uuid,
+  p_decision text,
+  p_customer_id text DEFAULT NULL,
+  p_invoice_refs text[] DEFAULT NULL,
+  p_note text DEFAULT NULL
+)
+RETURNS remittance_lines
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_row remittance_lines;
+  v_inv record;
+  v_allocations jsonb := '[]'::jsonb;
+  v_remaining numeric;
+  v_alloc numeric;
+  v_customer_name text;
+BEGIN
+  IF p_decision NOT IN ('matched', 'rejected') THEN
+    RAISE EXCEPTION 'Decision must be matched or rejected';
+  END IF;
+
+  SELECT * INTO v_row
+  FROM remittance_lines
+  WHERE id = p_line_id
+    AND organization_id = get_user_org_id()
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Remittance line not found';
+  END IF;
+
+  IF v_row.status = 'posted' THEN
+    RAISE EXCEPTION 'This payment has already been posted in Acumatica';
+  END IF;
+
+  -- A reviewer can pick the customer and invoices by hand; the line amount
+  -- is spread over the chosen invoices oldest due first
+  IF p_decision = 'matched' AND NULLIF(trim(COALESCE(p_customer_id, '')), '') IS NOT NULL THEN
+    SELECT c.customer_name INTO v_customer_name
+    FROM acumatica_customers c
+    WHERE c.organization_id = v_row.organization_id
+      AND c.customer_id = trim(p_customer_id);
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Customer % not found', p_customer_id;
+    END IF;
+
+    v_remaining := v_row.amount;
+    FOR v_inv IN
+      SELECT i.reference_number, i.balance
+      FROM acumatica_invoices i
+      WHERE i.organization_id = v_row.organization_id
+        AND i.customer = trim(p_customer_id)
+        AND i.reference_number = ANY(COALESCE(p_invoice_refs, '{}'))
+        AND i.balance > 0
+      ORDER BY i.due_date, i.reference_number
+    LOOP
+      v_alloc := LEAST(v_inv.balance, v_remaining);
+      EXIT WHEN v_alloc <= 0;
+      v_allocations := v_allocations || jsonb_build_object(
+        'invoice_reference', v_inv.reference_number,
+        'customer_id', trim(p_customer_id),
+        'amount', v_alloc
+      );
+      v_remaining := v_remaining - v_alloc;
+    END LOOP;
+
+    IF COALESCE(array_length(p_invoice_refs, 1), 0) > 0 AND jsonb_array_length(v_allocations) = 0 THEN
+      RAISE EXCEPTION 'None of the chosen invoices is open for customer %', p_customer_id;
+    END IF;
+
+    v_row.customer_id := trim(p_customer_id);
+    v_row.customer_name := v_customer_name;
+    v_row.allocations := v_allocations;
+    v_row.match_reasons := ARRAY['manual'];
+  ELSIF p_decision = 'matched' AND v_row.customer_id IS NULL THEN
+    RAISE EXCEPTION 'Choose the customer this payment belongs to';
+  END IF;
+
+  UPDATE remittance_lines
+  SET status = p_decision,
+      customer_id = v_row.customer_id,
+      customer_name = v_row.customer_name,
+      allocations = v_row.allocations,
+      match_reasons = v_row.match_reasons,
+      reviewed_by = auth.uid(),
+      reviewed_at = now(),
+      review_note = NULLIF(trim(COALESCE(p_note, '')), '')
+  WHERE id = p_line_id
+  RETURNING * INTO v_row;
+
+  UPDATE remittance_imports ri
+  SET matched_count = counts.matched,
+      suggested_count = counts.suggested
+  FROM (
+    SELECT
+      count(*) FILTER (WHERE status IN ('matched', 'posted')) AS matched,
+      count(*) FILTER (WHERE status = 'suggested') AS suggested
+    FROM remittance_lines
+    WHERE import_id = v_row.import_id
+  ) counts
+  WHERE ri.id = v_row.import_id;
+
+  RETURN v_row;
+END;
+$$;
+
+-- =========================================================================
+-- 4. Pending cash
+-- =========================================================================
+CREATE OR REPLACE FUNCTION get_pending_cash(
+  p_invoice_refs text[] DEFAULT NULL,
+  p_customer_id text DEFAULT NULL
+)
+RETURNS TABLE (
+  line_id uuid,
+  customer_id text,
+  invoice_reference_number text,
+  amount numeric,
+  deposit_date date,
+  check_number text,
+  payer_name text
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  -- Lines matched to a customer without invoices come back once with a NULL
+  -- invoice reference (cash on account)
+  SELECT
+    l.id,
+    l.customer_id,
+    a->>'invoice_reference',
+    COALESCE((a->>'amount')::numeric, l.amount),
+    l.deposit_date,
+    l.check_number,
+    l.payer_name
+  FROM remittance_lines l
+  LEFT JOIN LATERAL jsonb_array_elements(l.allocations) a ON true
+  WHERE l.organization_id = get_user_org_id()
+    AND l.status = 'matched'
+    AND (p_customer_id IS NULL OR l.customer_id = p_customer_id)
+    AND (p_invoice_refs IS NULL OR a->>'invoice_reference' = ANY(p_invoice_refs))
+  ORDER BY l.deposit_date DESC;
+$$;
+
+CREATE OR REPLACE FUNCTION clear_posted_remittance_lines()
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_count integer;
+BEGIN
+  -- Posted once every allocated invoice is paid off or has an application
+  -- dated around the deposit, or once a payment with the same check number
+  -- and amount (or, for cash on account, the same customer and amount)
+  -- appears in Acumatica
+  UPDATE remittance_lines l
+  SET status = 'posted',
+      posted_at = now()
+  WHERE l.status = 'matched'
+    AND (
+      (
+        jsonb_array_length(l.allocations) > 0
+        AND NOT EXISTS (
+          SELECT 1
+          FROM jsonb_array_elements(l.allocations) a
+          JOIN acumatica_invoices i
+            ON i.organization_id = l.organization_id
+           AND i.reference_number = a->>'invoice_reference'
+          WHERE i.balance > 0
+            AND NOT EXISTS (
+              SELECT 1 FROM payment_invoice_applications pia
+              WHERE pia.invoice_reference_number = i.reference_number
+                AND pia.amount_paid > 0
+                AND pia.application_date >= l.deposit_date - 3
+            )
+        )
+      )
+      OR EXISTS (
+        SELECT 1 FROM acumatica_payments p
+        WHERE p.organization_id = l.organization_id
+          AND p.type IN ('Payment', 'Prepayment')
+          AND abs(p.payment_amount - l.amount) < 0.01
+          AND p.application_date >= l.deposit_date - 3
+          AND (
+            (l.check_number IS NOT NULL AND ltrim(p.payment_ref, '0') = ltrim(l.check_number, '0'))
+            OR (jsonb_array_length(l.allocations) = 0 AND p.customer_id = l.customer_id)
+          )
+      )
+    );
+
+  GET DIAGNOSTICS v_count = ROW_COUNT;
+  RETURN v_count;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION match_remittance_lines(uuid) FROM PUBLIC, anon, authenticated;
+REVOKE ALL ON FUNCTION clear_posted_remittance_lines() FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION match_remittance_lines(uuid) TO service_role;
+GRANT EXECUTE ON FUNCTION clear_posted_remittance_lines() TO service_role;
+
+REVOKE ALL ON FUNCTION import_remittance_file(text, text, text, jsonb) FROM PUBLIC, anon;
+REVOKE ALL ON FUNCTION review_remittance_line(uuid, text, text, text[], text) FROM PUBLIC, anon;
+REVOKE ALL ON FUNCTION get_pending_cash(text[], text) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION import_remittance_file(text, text, text, jsonb) TO authenticated;
+GRANT EXECUTE ON FUNCTION review_remittance_line(uuid, text, text, text[], text) TO authenticated;
+GRANT EXECUTE ON FUNCTION get_pending_cash(text[], text) TO authenticated;
+
+-- =========================================================================
+-- 5. Hourly posting check
+-- =========================================================================
+DO $$
+BEGIN
+  IF EXISTS (SELECT 1 FROM cron.job WHERE jobname = 'clear-posted-remittance-lines') THEN
+    PERFORM cron.unschedule('clear-posted-remittance-lines');
+  END IF;
+END $$;
+
+SELECT cron.schedule(
+  'clear-posted-remittance-lines',
+  '20 * * * *',
+  'SELECT clear_posted_remittance_lines();'
+);
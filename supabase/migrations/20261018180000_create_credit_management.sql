@@ -0,0 +1,974 @@
+/*
+  # Credit Limit Management
+
+  ## Summary
+  `acumatica_customers` carries `credit_limit` and `customer_status`, but
+  nothing acted on them. Every night each customer's exposure is measured
+  against the limit, over-limit customers are flagged, and credit holds (or
+  releases) are recommended from aging and the nightly risk score. Each
+  recommendation becomes a review that a manager approves or rejects, with
+  every step kept in an audit trail. The assigned collector gets a reminder
+  when a customer goes over its limit or a hold review is opened or decided.
+
+  ## Exposure
+  - open balance: open Invoice / Debit Memo balances, disputed or not
+  - credits: open Credit Memo / Credit WO balances
+  - exposure = open balance - credits. Sales orders are not synced from
+    Acumatica, so unposted orders are not part of it yet
+  - computed by `customer_credit_exposure`, shared by the nightly capture and
+    the `credit_limit_utilization` rule condition
+  - utilization = exposure / credit limit (customers without a limit have no
+    utilization and are never over limit)
+
+  ## Recommendations (thresholds per organization in `credit_policy_settings`)
+  - `credit_hold`: over limit and any of utilization >= `hold_over_limit_pct`,
+    oldest invoice >= `hold_days_past_due` days past due, risk score >=
+    `hold_risk_score`; or past due and high risk together regardless of limit
+  - `release_hold`: the customer is on hold (here or in Acumatica) and none
+    of the hold reasons apply any more
+  - `watch`: utilization >= `near_limit_pct`, or over limit without a hold
+    reason
+  A pending `credit_hold` / `release_hold` review is opened for each
+  recommendation unless one is already pending. Approving a hold sets
+  `on_hold` on the customer's credit status; applying the hold in Acumatica
+  itself remains an AR step.
+
+  ## New Tables
+  - `credit_policy_settings`: thresholds per organization
+  - `customer_credit_status`: latest exposure, utilization, aging, risk,
+    recommendation and hold state per customer
+  - `credit_reviews`: hold / release reviews (`pending`, `approved`,
+    `rejected`, `cancelled`) with a snapshot of the numbers behind them
+  - `credit_review_events`: audit trail of every review
+
+  ## New Functions
+  - `customer_credit_exposure(organization_id, as_of, customer_id)` - open
+    balance, credits, exposure and past-due figures per customer on a date
+  - `capture_customer_credit_status(organization_id)` - nightly at 05:30
+    UTC, after the risk scores
+  - `refresh_customer_credit_status()` - the same for the caller's
+    organization (`can_manage_credit()`)
+  - `request_credit_review(customer_id, review_type, reason)`
+  - `decide_credit_review(review_id, decision, note)`
+  - `comment_credit_review(review_id, note)`
+  - `can_manage_credit()` - whether the caller may edit the policy and decide
+    reviews; managers and admins here, the `credit_management` edit
+    permission once configurable roles are in place
+
+  ## Modified Functions
+  - `evaluate_auto_ticket_condition` handles `credit_limit_utilization`:
+    exposure on the as-of date as a percentage of the credit limit
+    (> 100 means over limit)
+
+  ## Security
+  - RLS enabled; org members read their organization's credit data
+  - Users passing `can_manage_credit()` edit the policy, recalculate and
+    decide reviews; anyone in the organization can request a review or
+    comment
+*/
+
+-- =========================================================================
+-- 1. Tables
+-- =========================================================================
+CREATE TABLE IF NOT EXISTS credit_policy_settings (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  organization_id uuid NOT NULL UNIQUE REFERENCES organizations(id) ON DELETE CASCADE,
+  near_limit_pct numeric(5, 1) NOT NULL DEFAULT 80 CHECK (near_limit_pct > 0),
+  hold_over_limit_pct numeric(5, 1) NOT NULL DEFAULT 120 CHECK (hold_over_limit_pct >= 100),
+  hold_days_past_due integer NOT NULL DEFAULT 90 CHECK (hold_days_past_due > 0),
+  hold_risk_score numeric(5, 1) NOT NULL DEFAULT 70 CHECK (hold_risk_score BETWEEN 0 AND 100),
+  alert_collectors boolean NOT NULL DEFAULT true,
+  updated_by uuid REFERENCES user_profiles(id) ON DELETE SET NULL,
+  updated_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE TABLE IF NOT EXISTS customer_credit_status (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  organization_id uuid NOT NULL REFERENCES organizations(id) ON DELETE CASCADE,
+  customer_id text NOT NULL,
+  customer_name text,
+  acumatica_status text,
+  credit_limit numeric(18, 2) NOT NULL DEFAULT 0,
+  open_balance numeric(18, 2) NOT NULL DEFAULT 0,
+  credits numeric(18, 2) NOT NULL DEFAULT 0,
+  exposure numeric(18, 2) NOT NULL DEFAULT 0,
+  utilization_pct numeric(8, 1),
+  over_limit boolean NOT NULL DEFAULT false,
+  over_limit_since date,
+  overdue_balance numeric(18, 2) NOT NULL DEFAULT 0,
+  days_past_due integer NOT NULL DEFAULT 0,
+  risk_score numeric(5, 1),
+  risk_level text,
+  recommendation text NOT NULL DEFAULT 'none'
+    CHECK (recommendation IN ('none', 'watch', 'credit_hold', 'release_hold')),
+  recommendation_reasons text[] NOT NULL DEFAULT '{}',
+  on_hold boolean NOT NULL DEFAULT false,
+  hold_since timestamptz,
+  hold_review_id uuid,
+  computed_at timestamptz NOT NULL DEFAULT now(),
+  UNIQUE (organization_id, customer_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_customer_credit_status_utilization
+  ON customer_credit_status(organization_id, utilization_pct DESC NULLS LAST);
+
+CREATE TABLE IF NOT EXISTS credit_reviews (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  organization_id uuid NOT NULL REFERENCES organizations(id) ON DELETE CASCADE,
+  customer_id text NOT NULL,
+  customer_name text,
+  review_type text NOT NULL CHECK (review_type IN ('credit_hold', 'release_hold')),
+  status text NOT NULL DEFAULT 'pending'
+    CHECK (status IN ('pending', 'approved', 'rejected', 'cancelled')),
+  source text NOT NULL DEFAULT 'system' CHECK (source IN ('system', 'manual')),
+  reason text,
+  reasons text[] NOT NULL DEFAULT '{}',
+  snapshot jsonb NOT NULL DEFAULT '{}'::jsonb,
+  requested_by uuid REFERENCES user_profiles(id) ON DELETE SET NULL,
+  decided_by uuid REFERENCES user_profiles(id) ON DELETE SET NULL,
+  decided_at timestamptz,
+  decision_note text,
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_credit_reviews_one_pending
+  ON credit_reviews(organization_id, customer_id, review_type)
+  WHERE status = 'pending';
+
+CREATE INDEX IF NOT EXISTS idx_credit_reviews_org_status
+  ON credit_reviews(organization_id, status, created_at DESC);
+
+CREATE TABLE IF NOT EXISTS credit_review_events (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  organization_id uuid NOT NULL REFERENCES organizations(id) ON DELETE CASCADE,
+  review_id uuid NOT NULL REFERENCES credit_reviews(id) ON DELETE CASCADE,
+  event_type text NOT NULL CHECK (event_type IN (
+    'created', 'approved', 'rejected', 'cancelled', 'comment', 'hold_applied', 'hold_released'
+  )),
+  note text,
+  created_by uuid REFERENCES user_profiles(id) ON DELETE SET NULL,
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_credit_review_events_review
+  ON credit_review_events(review_id, created_at);
+
+ALTER TABLE credit_policy_settings ENABLE ROW LEVEL SECURITY;
+ALTER TABLE customer_credit_status ENABLE ROW LEVEL SECURITY;
+ALTER TABLE credit_reviews ENABLE ROW LEVEL SECURITY;
+ALTER TABLE credit_review_events ENABLE ROW LEVEL SECURITY;
+
+-- Redefined by the configurable roles migration to check credit_management
+CREATE OR REPLACE FUNCTION can_manage_credit()
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT is_manager_or_admin();
+$$;
+
+REVOKE ALL ON FUNCTION can_manage_credit() FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION can_manage_credit() TO authenticated;
+
+CREATE POLICY "Org members can view credit policy"
+  ON credit_policy_settings FOR SELECT
+  TO authenticated
+  USING (organization_id = get_user_org_id());
+
+CREATE POLICY "Managers can create credit policy"
+  ON credit_policy_settings FOR INSERT
+  TO authenticated
+  WITH CHECK (organization_id = get_user_org_id() AND (SELECT can_manage_credit()));
+
+CREATE POLICY "Managers can update credit policy"
+  ON credit_policy_settings FOR UPDATE
+  TO authenticated
+  USING (organization_id = get_user_org_id() AND (SELECT can_manage_credit()))
+  WITH CHECK (organization_id = get_user_org_id() AND (SELECT can_manage_credit()));
+
+CREATE POLICY "Org members can view customer credit status"
+  ON customer_credit_status FOR SELECT
+  TO authenticated
+  USING (organization_id = get_user_org_id());
+
+CREATE POLICY "Org members can view credit reviews"
+  ON credit_reviews FOR SELECT
+  TO authenticated
+  USING (organization_id = get_user_org_id());
+
+CREATE POLICY "Org members can view credit review events"
+  ON credit_review_events FOR SELECT
+  TO authenticated
+  USING (organization_id = get_user_org_id());
+
+-- =========================================================================
+-- 2. Collector alerts
+-- =========================================================================
+CREATE OR REPLACE FUNCTION create_credit_alert(
+  p_organization_id uuid,
+  p_customer_id text,
+  p_title text,
+  p_description text
+)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_collector uuid;
+BEGIN
+  IF NOT COALESCE((
+    SELECT alert_collectors FROM credit_policy_settings WHERE organization_id = p_organization_id
+  ), true) THEN
+    RETURN;
+  END IF;
+
+  SELECT a.assigned_collector_id INTO v_collector
+  FROM collector_customer_assignments a
+  JOIN user_profiles up ON up.id = a.assigned_collector_id
+  WHERE a.customer_id = p_customer_id
+    AND up.organization_id = p_organization_id
+  ORDER BY a.assigned_at DESC
+  LIMIT 1;
+
+  IF v_collector IS NULL THEN
+    RETURN;
+  END IF;
+
+  INSERT INTO invoice_reminders (
+    user_id,
+    reminder_date,
+    title,
+    description,
+    priority,
+    reminder_type,
+    send_email_notification
+  ) VALUES (
+    v_collector,
+    now(),
+    p_title,
+    p_description,
+    'high',
+    'follow_up',
+    true
+  );
+END;
+$$;
+
+-- =========================================================================
+-- 3. Nightly capture
+-- =========================================================================
+CREATE OR REPLACE FUNCTION customer_credit_exposure(
+  p_organization_id uuid DEFAULT NULL,
+  p_as_of date DEFAULT CURRENT_DATE,
+  p_customer_id text DEFAULT NULL
+)
+RETURNS TABLE (
+  organization_id uuid,
+  customer_id text,
+  open_balance numeric,
+  credits numeric,
+  exposure numeric,
+  overdue_balance numeric,
+  days_past_due integer
+)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  WITH balances AS (
+    SELECT
+      i.organization_id,
+      i.customer,
+      i.balance,
+      i.type IN ('Credit Memo', 'Credit WO') AS is_credit,
+      i.due_date::date AS due_date
+    FROM acumatica_invoices i
+    WHERE i.organization_id IS NOT NULL
+      AND (p_organization_id IS NULL OR i.organization_id = p_organization_id)
+      AND (p_customer_id IS NULL OR i.customer = p_customer_id)
+      AND i.status IN ('Open', 'open')
+      AND i.balance > 0
+      AND i.date <= p_as_of
+  )
+  SELECT
+    b.organization_id,
+    b.customer,
+    COALESCE(SUM(b.balance) FILTER (WHERE NOT b.is_credit), 0),
+    COALESCE(SUM(b.balance) FILTER (WHERE b.is_credit), 0),
+    COALESCE(SUM(CASE WHEN b.is_credit THEN -b.balance ELSE b.balance END), 0),
+    COALESCE(SUM(b.balance) FILTER (WHERE NOT b.is_credit AND b.due_date < p_as_of), 0),
+    COALESCE(MAX(p_as_of - b.due_date) FILTER (WHERE NOT b.is_credit AND b.due_date < p_as_of), 0)
+  FROM balances b
+  GROUP BY b.organization_id, b.customer;
+$$;
+
+CREATE OR REPLACE FUNCTION capture_customer_credit_status(p_organization_id uuid DEFAULT NULL)
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_started timestamptz := clock_timestamp();
+  v_row record;
+  v_exposure numeric;
+  v_utilization numeric;
+  v_over_limit boolean;
+  v_past_due boolean;
+  v_high_risk boolean;
+  v_held boolean;
+  v_recommendation text;
+  v_reasons text[];
+  v_review_id uuid;
+  v_count integer := 0;
+BEGIN
+  FOR v_row IN
+    SELECT
+      c.organization_id,
+      c.customer_id,
+      c.customer_name,
+      c.customer_status,
+      COALESCE(c.credit_limit, 0) AS credit_limit,
+      COALESCE(b.open_balance, 0) AS open_balance,
+      COALESCE(b.credits, 0) AS credits,
+      COALESCE(b.exposure, 0) AS exposure,
+      COALESCE(b.overdue_balance, 0) AS overdue_balance,
+      COALESCE(b.days_past_due, 0) AS days_past_due,
+      rs.score AS risk_score,
+      rs.risk_level,
+      COALESCE(ps.near_limit_pct, 80) AS near_limit_pct,
+      COALESCE(ps.hold_over_limit_pct, 120) AS hold_over_limit_pct,
+      COALESCE(ps.hold_days_past_due, 90) AS hold_days_past_due,
+      COALESCE(ps.hold_risk_score, 70) AS hold_risk_score,
+      COALESCE(s.on_hold, false) AS on_hold,
+      COALESCE(s.over_limit, false) AS was_over_limit
+    FROM acumatica_customers c
+    LEFT JOIN customer_credit_exposure(p_organization_id) b
+      ON b.organization_id = c.organization_id AND b.customer_id = c.customer_id
+    LEFT JOIN customer_risk_scores rs
+      ON rs.organization_id = c.organization_id AND rs.customer_id = c.customer_id
+    LEFT JOIN credit_policy_settings ps
+      ON ps.organization_id = c.organization_id
+    LEFT JOIN customer_credit_status s
+      ON s.organization_id = c.organization_id AND s.customer_id = c.customer_id
+    WHERE c.organization_id IS NOT NULL
+      AND (p_organization_id IS NULL OR c.organization_id = p_organization_id)
+      AND (COALESCE(c.credit_limit, 0) > 0 OR b.customer_id IS NOT NULL OR COALESCE(s.on_hold, false))
+  LOOP
+    v_exposure := v_row.exposure;
+    v_utilization := CASE WHEN v_row.credit_limit > 0 THEN round(v_exposure / v_row.credit_limit * 100, 1) END;
+    v_over_limit := v_row.credit_limit > 0 AND v_exposure > v_row.credit_limit;
+    v_past_due := v_row.days_past_due >= v_row.hold_days_past_due;
+    v_high_risk := v_row.risk_score IS NOT NULL AND v_row.risk_score >= v_row.hold_risk_score;
+    v_held := v_row.on_hold OR COALESCE(v_row.customer_status, '') ILIKE '%hold%';
+
+    v_reasons := '{}';
+    IF v_over_limit THEN
+      v_reasons := v_reasons || 'over_limit';
+    ELSIF v_utilization >= v_row.near_limit_pct THEN
+      v_reasons := v_reasons || 'near_limit';
+    END IF;
+    IF v_over_limit AND v_utilization >= v_row.hold_over_limit_pct THEN
+      v_reasons := v_reasons || 'far_over_limit';
+    END IF;
+    IF v_past_due THEN
+      v_reasons := v_reasons || 'past_due_aging';
+    END IF;
+    IF v_high_risk THEN
+      v_reasons := v_reasons || 'high_risk';
+    END IF;
+
+    v_recommendation := CASE
+      WHEN (v_over_limit AND (v_utilization >= v_row.hold_over_limit_pct OR v_past_due OR v_high_risk))
+        OR (v_past_due AND v_high_risk)
+        THEN CASE WHEN v_held THEN 'none' ELSE 'credit_hold' END
+      WHEN v_held THEN CASE WHEN v_over_limit THEN 'watch' ELSE 'release_hold' END
+      WHEN v_over_limit OR v_utilization >= v_row.near_limit_pct THEN 'watch'
+      ELSE 'none'
+    END;
+
+    INSERT INTO customer_credit_status (
+      organization_id, customer_id, customer_name, acumatica_status, credit_limit,
+      open_balance, credits, exposure, utilization_pct, over_limit, over_limit_since,
+      overdue_balance, days_past_due, risk_score, risk_level,
+      recommendation, recommendation_reasons, computed_at
+    ) VALUES (
+      v_row.organization_id, v_row.customer_id, v_row.customer_name, v_row.customer_status, v_row.credit_limit,
+      v_row.open_balance, v_row.credits, v_exposure, v_utilization, v_over_limit,
+      CASE WHEN v_over_limit THEN CURRENT_DATE END,
+      v_row.overdue_balance, v_row.days_past_due, v_row.risk_score, v_row.risk_level,
+      v_recommendation, v_reasons, now()
+    )
+    ON CONFLICT (organization_id, customer_id) DO UPDATE
+    SET customer_name = EXCLUDED.customer_name,
+        acumatica_status = EXCLUDED.acumatica_status,
+        credit_limit = EXCLUDED.credit_limit,
+        open_balance = EXCLUDED.open_balance,
+        credits = EXCLUDED.credits,
+        exposure = EXCLUDED.exposure,
+        utilization_pct = EXCLUDED.utilization_pct,
+        over_limit = EXCLUDED.over_limit,
+        over_limit_since = CASE
+          WHEN EXCLUDED.over_limit THEN COALESCE(customer_credit_status.over_limit_since, CURRENT_DATE)
+        END,
+        overdue_balance = EXCLUDED.overdue_balance,
+        days_past_due = EXCLUDED.days_past_due,
+        risk_score = EXCLUDED.risk_score,
+        risk_level = EXCLUDED.risk_level,
+        recommendation = EXCLUDED.recommendation,
+        recommendation_reasons = EXCLUDED.recommendation_reasons,
+        computed_at = EXCLUDED.computed_at;
+
+    IF v_over_limit AND NOT v_row.was_over_limit THEN
+      PERFORM create_credit_alert(
+        v_row.organization_id,
+        v_row.customer_id,
+        format('Over credit limit: %s', COALESCE(v_row.customer_name, v_row.customer_id)),
+        format('Exposure $%s against a $%s limit (%s%%).',
+          to_char(v_exposure, 'FM999,999,990.00'),
+          to_char(v_row.credit_limit, 'FM999,999,990.00'),
+          v_utilization)
+      );
+    END IF;
+
+    IF v_recommendation IN ('credit_hold', 'release_hold') THEN
+      INSERT INTO credit_reviews (
+        organization_id, customer_id, customer_name, review_type, source, reasons, snapshot
+      ) VALUES (
+        v_row.organization_id, v_row.customer_id, v_row.customer_name, v_recommendation, 'system', v_reasons,
+        jsonb_build_object(
+          'credit_limit', v_row.credit_limit,
+          'exposure', v_exposure,
+          'utilization_pct', v_utilization,
+          'overdue_balance', v_row.overdue_balance,
+          'days_past_due', v_row.days_past_due,
+          'risk_score', v_row.risk_score,
+          'acumatica_status', v_row.customer_status
+        )
+      )
+      ON CONFLICT (organization_id, customer_id, review_type) WHERE status = 'pending' DO NOTHING
+      RETURNING id INTO v_review_id;
+
+      IF v_review_id IS NOT NULL THEN
+        INSERT INTO credit_review_events (organization_id, review_id, event_type, note)
+        VALUES (v_row.organization_id, v_review_id, 'created',
+          format('Recommended by nightly credit review: %s', array_to_string(v_reasons, ', ')));
+
+        PERFORM create_credit_alert(
+          v_row.organization_id,
+          v_row.customer_id,
+          format('%s recommended: %s',
+            CASE WHEN v_recommendation = 'credit_hold' THEN 'Credit hold' ELSE 'Hold release' END,
+            COALESCE(v_row.customer_name, v_row.customer_id)),
+          'A credit review is waiting for manager approval.'
+        );
+      END IF;
+      v_review_id := NULL;
+    END IF;
+
+    v_count := v_count + 1;
+  END LOOP;
+
+  -- Customers without a limit, balance or hold drop off the dashboard
+  DELETE FROM customer_credit_status s
+  WHERE s.computed_at < v_started
+    AND NOT s.on_hold
+    AND (p_organization_id IS NULL OR s.organization_id = p_organization_id);
+
+  RETURN v_count;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION refresh_customer_credit_status()
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_org_id uuid := get_user_org_id();
+BEGIN
+  IF v_org_id IS NULL THEN
+    RAISE EXCEPTION 'No organization for current user';
+  END IF;
+
+  IF NOT can_manage_credit() THEN
+    RAISE EXCEPTION 'You do not have permission to recalculate credit exposure';
+  END IF;
+
+  RETURN capture_customer_credit_status(v_org_id);
+END;
+$$;
+
+-- =========================================================================
+-- 4. Review workflow
+-- =========================================================================
+CREATE OR REPLACE FUNCTION request_credit_review(
+  p_customer_id text,
+  p_review_type text,
+  p_reason text
+)
+RETURNS credit_reviews
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_org uuid := get_user_org_id();
+  v_status customer_credit_status;
+  v_customer_name text;
+  v_review credit_reviews;
+BEGIN
+  IF v_org IS NULL THEN
+    RAISE EXCEPTION 'No organization for current user';
+  END IF;
+
+  IF p_review_type NOT IN ('credit_hold', 'release_hold') THEN
+    RAISE EXCEPTION 'Review type must be credit_hold or release_hold';
+  END IF;
+
+  IF NULLIF(trim(COALESCE(p_reason, '')), '') IS NULL THEN
+    RAISE EXCEPTION 'Give a reason for the review';
+  END IF;
+
+  SELECT customer_name INTO v_customer_name
+  FROM acumatica_customers
+  WHERE organization_id = v_org AND customer_id = p_customer_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Customer % not found', p_customer_id;
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM credit_reviews
+    WHERE organization_id = v_org
+      AND customer_id = p_customer_id
+      AND review_type = p_review_type
+      AND status = 'pending'
+  ) THEN
+    RAISE EXCEPTION 'A % review is already pending for this customer', replace(p_review_type, '_', ' ');
+  END IF;
+
+  SELECT * INTO v_status
+  FROM customer_credit_status
+  WHERE organization_id = v_org AND customer_id = p_customer_id;
+
+  INSERT INTO credit_reviews (
+    organization_id, customer_id, customer_name, review_type, source, reason, reasons, snapshot, requested_by
+  ) VALUES (
+    v_org, p_customer_id, v_customer_name, p_review_type, 'manual', trim(p_reason),
+    COALESCE(v_status.recommendation_reasons, '{}'),
+    CASE WHEN v_status.id IS NULL THEN '{}'::jsonb ELSE jsonb_build_object(
+      'credit_limit', v_status.credit_limit,
+      'exposure', v_status.exposure,
+      'utilization_pct', v_status.utilization_pct,
+      'overdue_balance', v_status.overdue_balance,
+      'days_past_due', v_status.days_past_due,
+      'risk_score', v_status.risk_score,
+      'acumatica_status', v_status.acumatica_status
+    ) END,
+    auth.uid()
+  )
+  RETURNING * INTO v_review;
+
+  INSERT INTO credit_review_events (organization_id, review_id, event_type, note, created_by)
+  VALUES (v_org, v_review.id, 'created', trim(p_reason), auth.uid());
+
+  RETURN v_review;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION decide_credit_review(
+  p_review_id uuid,
+  p_decision text,
+  p_note text DEFAULT NULL
+)
+RETURNS credit_reviews
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_review credit_reviews;
+  v_note text := NULLIF(trim(COALESCE(p_note, '')), '');
+BEGIN
+  IF p_decision NOT IN ('approved', 'rejected', 'cancelled') THEN
+    RAISE EXCEPTION 'Decision must be approved, rejected or cancelled';
+  END IF;
+
+  SELECT * INTO v_review
+  FROM credit_reviews
+  WHERE id = p_review_id
+    AND organization_id = get_user_org_id()
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Credit review not found';
+  END IF;
+
+  IF v_review.status <> 'pending' THEN
+    RAISE EXCEPTION 'This review was already %', v_review.status;
+  END IF;
+
+  IF p_decision = 'cancelled' THEN
+    IF v_review.requested_by IS DISTINCT FROM auth.uid() AND NOT can_manage_credit() THEN
+      RAISE EXCEPTION 'Only the requester or a credit manager can cancel this review';
+    END IF;
+  ELSIF NOT can_manage_credit() THEN
+    RAISE EXCEPTION 'You do not have permission to approve or reject credit reviews';
+  END IF;
+
+  IF p_decision = 'rejected' AND v_note IS NULL THEN
+    RAISE EXCEPTION 'Give a reason for rejecting the review';
+  END IF;
+
+  UPDATE credit_reviews
+  SET status = p_decision,
+      decided_by = auth.uid(),
+      decided_at = now(),
+      decision_note = v_note
+  WHERE id = p_review_id
+  RETURNING * INTO v_review;
+
+  INSERT INTO credit_review_events (organization_id, review_id, event_type, note, created_by)
+  VALUES (v_review.organization_id, v_review.id, p_decision, v_note, auth.uid());
+
+  IF p_decision <> 'approved' THEN
+    RETURN v_review;
+  END IF;
+
+  INSERT INTO customer_credit_status (organization_id, customer_id, customer_name, on_hold, hold_since, hold_review_id)
+  VALUES (
+    v_review.organization_id, v_review.customer_id, v_review.customer_name,
+    v_review.review_type = 'credit_hold',
+    CASE WHEN v_review.review_type = 'credit_hold' THEN now() END,
+    v_review.id
+  )
+  ON CONFLICT (organization_id, customer_id) DO UPDATE
+  SET on_hold = EXCLUDED.on_hold,
+      hold_since = EXCLUDED.hold_since,
+      hold_review_id = EXCLUDED.hold_review_id,
+      recommendation = CASE
+        WHEN customer_credit_status.recommendation IN ('credit_hold', 'release_hold') THEN 'none'
+        ELSE customer_credit_status.recommendation
+      END;
+
+  INSERT INTO credit_review_events (organization_id, review_id, event_type, created_by)
+  VALUES (
+    v_review.organization_id, v_review.id,
+    CASE WHEN v_review.review_type = 'credit_hold' THEN 'hold_applied' ELSE 'hold_released' END,
+    auth.uid()
+  );
+
+  PERFORM create_credit_alert(
+    v_review.organization_id,
+    v_review.customer_id,
+    format('%s: %s',
+      CASE WHEN v_review.review_type = 'credit_hold' THEN 'Credit hold approved' ELSE 'Credit hold released' END,
+      COALESCE(v_review.customer_name, v_review.customer_id)),
+    COALESCE(v_note, 'Approved by a manager.')
+  );
+
+  RETURN v_review;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION comment_credit_review(p_review_id uuid, p_note text)
+RETURNS credit_review_events
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_org uuid;
+  v_event credit_review_events;
+BEGIN
+  IF NULLIF(trim(COALESCE(p_note, '')), '') IS NULL THEN
+    RAISE EXCEPTION 'Comment cannot be empty';
+  END IF;
+
+  SELECT organization_id INTO v_org
+  FROM credit_reviews
+  WHERE id = p_review_id
+    AND organization_id = get_user_org_id();
+
+  IF v_org IS NULL THEN
+    RAISE EXCEPTION 'Credit review not found';
+  END IF;
+
+  INSERT INTO credit_review_events (organization_id, review_id, event_type, note, created_by)
+  VALUES (v_org, p_review_id, 'comment', trim(p_note), auth.uid())
+  RETURNING * INTO v_event;
+
+  RETURN v_event;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION create_credit_alert(uuid, text, text, text) FROM PUBLIC, anon, authenticated;
+REVOKE ALL ON FUNCTION capture_customer_credit_status(uuid) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION capture_customer_credit_status(uuid) TO service_role;
+
+REVOKE ALL ON FUNCTION refresh_customer_credit_status() FROM PUBLIC, anon;
+REVOKE ALL ON FUNCTION request_credit_review(text, text, text) FROM PUBLIC, anon;
+REVOKE ALL ON FUNCTION decide_credit_review(uuid, text, text) FROM PUBLIC, anon;
+REVOKE ALL ON FUNCTION comment_credit_review(uuid, text) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION refresh_customer_credit_status() TO authenticated;
+GRANT EXECUTE ON FUNCTION request_credit_review(text, text, text) TO authenticated;
+GRANT EXECUTE ON FUNCTION decide_credit_review(uuid, text, text) TO authenticated;
+GRANT EXECUTE ON FUNCTION comment_credit_review(uuid, text) TO authenticated;
+
+-- =========================================================================
+-- 5. Auto-ticket condition
+-- =========================================================================
+ALTER TABLE auto_ticket_rule_conditions
+  DROP CONSTRAINT IF EXISTS valid_condition_type;
+
+ALTER TABLE auto_ticket_rule_conditions
+  ADD CONSTRAINT valid_condition_type CHECK (condition_type IN (
+    'balance_threshold',
+    'invoice_count_overdue',
+    'invoice_age_days',
+    'payment_pattern_deviation',
+    'payment_amount_drop',
+    'days_since_last_payment',
+    'invoice_amount_threshold',
+    'overdue_percentage',
+    'payment_frequency_change',
+    'total_overdue_amount',
+    'risk_score',
+    'credit_limit_utilization'
+  ));
+
+CREATE OR REPLACE FUNCTION evaluate_auto_ticket_condition(
+  p_customer_id text,
+  p_condition jsonb,
+  p_as_of date DEFAULT CURRENT_DATE,
+  p_organization_id uuid DEFAULT NULL
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+STABLE
+SET search_path = public
+AS $$
+DECLARE
+  v_type text := p_condition->>'condition_type';
+  v_operator text := COALESCE(p_condition->>'operator', 'gt');
+  v_value numeric := NULLIF(p_condition->>'value_numeric', '')::numeric;
+  v_value_max numeric := NULLIF(p_condition->>'value_numeric_max', '')::numeric;
+  v_by_invoice_date boolean := p_condition->>'date_reference' = 'invoice_date';
+  v_month_start date := date_trunc('month', p_as_of)::date;
+  v_actual numeric;
+  v_met boolean := false;
+  v_total int;
+  v_overdue int;
+  v_baseline numeric;
+  v_recent numeric;
+BEGIN
+  CASE v_type
+    WHEN 'balance_threshold' THEN
+      SELECT COALESCE(SUM(o.balance), 0) INTO v_actual
+      FROM auto_ticket_open_invoices(p_customer_id, p_as_of, p_organization_id) o;
+      v_met := auto_ticket_compare(v_actual, v_operator, v_value, v_value_max);
+
+    WHEN 'total_overdue_amount' THEN
+      SELECT COALESCE(SUM(o.balance), 0) INTO v_actual
+      FROM auto_ticket_open_invoices(p_customer_id, p_as_of, p_organization_id) o
+      WHERE o.due_date < p_as_of;
+      v_met := auto_ticket_compare(v_actual, v_operator, v_value, v_value_max);
+
+    WHEN 'invoice_count_overdue' THEN
+      SELECT count(*) INTO v_actual
+      FROM auto_ticket_open_invoices(p_customer_id, p_as_of, p_organization_id) o
+      WHERE CASE WHEN v_by_invoice_date THEN o.invoice_date < p_as_of ELSE o.due_date < p_as_of END;
+      v_met := auto_ticket_compare(v_actual, v_operator, v_value, v_value_max);
+
+    WHEN 'invoice_age_days' THEN
+      -- Legacy age windows count the invoices inside the window. A rule
+      -- condition matches when any invoice is older than the value, whatever
+      -- operator was saved with it.
+      IF (p_condition->>'legacy_window')::boolean THEN
+        SELECT count(*) INTO v_actual
+        FROM auto_ticket_open_invoices(p_customer_id, p_as_of, p_organization_id) o
+        WHERE (p_as_of - CASE WHEN v_by_invoice_date THEN o.invoice_date ELSE o.due_date END)
+          BETWEEN COALESCE(v_value, 0) AND COALESCE(v_value_max, 999999);
+        v_met := v_actual > 0;
+      ELSE
+        v_operator := 'gt';
+        SELECT MAX(p_as_of - CASE WHEN v_by_invoice_date THEN o.invoice_date ELSE o.due_date END) INTO v_actual
+        FROM auto_ticket_open_invoices(p_customer_id, p_as_of, p_organization_id) o;
+        v_met := auto_ticket_compare(v_actual, v_operator, v_value, NULL);
+      END IF;
+
+    WHEN 'days_since_last_payment' THEN
+      SELECT p_as_of - MAX(COALESCE(p.effective_date, p.doc_date, p.created_at)::date) INTO v_actual
+      FROM acumatica_payments p
+      WHERE p.customer_id = p_customer_id
+        AND p.type = 'Payment'
+        AND COALESCE(p.effective_date, p.doc_date, p.created_at)::date <= p_as_of
+        AND (p_organization_id IS NULL OR p.organization_id = p_organization_id);
+      -- A customer who has never paid counts as infinitely overdue.
+      v_met := auto_ticket_compare(COALESCE(v_actual, 999999), v_operator, v_value, v_value_max);
+
+    WHEN 'invoice_amount_threshold' THEN
+      -- Any single invoice above the value, whatever operator was saved
+      v_operator := 'gt';
+      SELECT MAX(o.balance) INTO v_actual
+      FROM auto_ticket_open_invoices(p_customer_id, p_as_of, p_organization_id) o;
+      v_met := auto_ticket_compare(v_actual, v_operator, v_value, NULL);
+
+    WHEN 'overdue_percentage' THEN
+      SELECT count(*), count(*) FILTER (WHERE o.due_date < p_as_of)
+      INTO v_total, v_overdue
+      FROM auto_ticket_open_invoices(p_customer_id, p_as_of, p_organization_id) o;
+      v_actual := CASE WHEN v_total > 0 THEN round(v_overdue::numeric / v_total * 100, 1) ELSE 0 END;
+      v_met := auto_ticket_compare(v_actual, v_operator, v_value, v_value_max);
+
+    WHEN 'payment_amount_drop' THEN
+      -- Average month over the six months before last month, against last month
+      SELECT COALESCE(SUM(p.payment_amount) / NULLIF(count(DISTINCT date_trunc('month', COALESCE(p.effective_date, p.doc_date, p.created_at)::date)), 0), 0)
+      INTO v_baseline
+      FROM acumatica_payments p
+      WHERE p.customer_id = p_customer_id
+        AND p.type = 'Payment'
+        AND COALESCE(p.effective_date, p.doc_date, p.created_at)::date >= p_as_of - interval '7 months'
+        AND COALESCE(p.effective_date, p.doc_date, p.created_at)::date < v_month_start
+        AND (p_organization_id IS NULL OR p.organization_id = p_organization_id);
+
+      SELECT COALESCE(SUM(p.payment_amount), 0) INTO v_recent
+      FROM acumatica_payments p
+      WHERE p.customer_id = p_customer_id
+        AND p.type = 'Payment'
+        AND COALESCE(p.effective_date, p.doc_date, p.created_at)::date >= v_month_start - interval '1 month'
+        AND COALESCE(p.effective_date, p.doc_date, p.created_at)::date < v_month_start
+        AND (p_organization_id IS NULL OR p.organization_id = p_organization_id);
+
+      IF v_baseline > 0 THEN
+        IF v_operator = 'pct_drop' THEN
+          v_actual := round((v_baseline - v_recent) / v_baseline * 100, 1);
+          v_met := v_actual >= COALESCE(v_value, 20);
+        ELSE
+          v_actual := round(v_baseline - v_recent, 2);
+          v_met := auto_ticket_compare(v_actual, v_operator, v_value, v_value_max);
+        END IF;
+      END IF;
+
+    WHEN 'payment_pattern_deviation' THEN
+      SELECT AVG(EXTRACT(day FROM COALESCE(p.effective_date, p.doc_date, p.created_at)::date))
+      INTO v_baseline
+      FROM acumatica_payments p
+      WHERE p.customer_id = p_customer_id
+        AND p.type = 'Payment'
+        AND COALESCE(p.effective_date, p.doc_date, p.created_at)::date >= p_as_of - interval '6 months'
+        AND COALESCE(p.effective_date, p.doc_date, p.created_at)::date < v_month_start
+        AND (p_organization_id IS NULL OR p.organization_id = p_organization_id);
+
+      SELECT EXTRACT(day FROM MAX(COALESCE(p.effective_date, p.doc_date, p.created_at)::date))
+      INTO v_recent
+      FROM acumatica_payments p
+      WHERE p.customer_id = p_customer_id
+        AND p.type = 'Payment'
+        AND COALESCE(p.effective_date, p.doc_date, p.created_at)::date >= v_month_start - interval '1 month'
+        AND COALESCE(p.effective_date, p.doc_date, p.created_at)::date <= p_as_of
+        AND (p_organization_id IS NULL OR p.organization_id = p_organization_id);
+
+      IF v_baseline IS NOT NULL AND v_recent IS NOT NULL THEN
+        v_actual := round(ABS(v_recent - v_baseline), 1);
+        v_met := auto_ticket_compare(v_actual, v_operator, COALESCE(v_value, 3), v_value_max);
+      END IF;
+
+    WHEN 'payment_frequency_change' THEN
+      WITH payment_dates AS (
+        SELECT COALESCE(p.effective_date, p.doc_date, p.created_at)::date AS pdate
+        FROM acumatica_payments p
+        WHERE p.customer_id = p_customer_id
+          AND p.type = 'Payment'
+          AND COALESCE(p.effective_date, p.doc_date, p.created_at)::date >= p_as_of - interval '6 months'
+          AND COALESCE(p.effective_date, p.doc_date, p.created_at)::date <= p_as_of
+          AND (p_organization_id IS NULL OR p.organization_id = p_organization_id)
+      ),
+      intervals AS (
+        SELECT pdate - LAG(pdate) OVER (ORDER BY pdate) AS gap
+        FROM payment_dates
+      )
+      SELECT AVG(gap) INTO v_baseline FROM intervals WHERE gap IS NOT NULL;
+
+      WITH recent_payments AS (
+        SELECT COALESCE(p.effective_date, p.doc_date, p.created_at)::date AS pdate
+        FROM acumatica_payments p
+        WHERE p.customer_id = p_customer_id
+          AND p.type = 'Payment'
+          AND COALESCE(p.effective_date, p.doc_date, p.created_at)::date <= p_as_of
+          AND (p_organization_id IS NULL OR p.organization_id = p_organization_id)
+        ORDER BY pdate DESC
+        LIMIT 2
+      )
+      SELECT MAX(pdate) - MIN(pdate) INTO v_recent FROM recent_payments;
+
+      IF v_baseline > 0 AND v_recent IS NOT NULL THEN
+        v_actual := round(ABS(v_recent - v_baseline), 1);
+        v_met := auto_ticket_compare(v_actual, v_operator, COALESCE(v_value, 7), v_value_max);
+      END IF;
+
+    WHEN 'risk_score' THEN
+      SELECT h.score INTO v_actual
+      FROM customer_risk_score_history h
+      WHERE h.customer_id = p_customer_id
+        AND h.score_date <= p_as_of
+        AND (p_organization_id IS NULL OR h.organization_id = p_organization_id)
+      ORDER BY h.score_date DESC
+      LIMIT 1;
+
+      IF v_actual IS NULL AND p_organization_id IS NOT NULL THEN
+        v_actual := (compute_customer_risk_score(p_customer_id, p_organization_id, p_as_of)->>'score')::numeric;
+      END IF;
+      v_met := auto_ticket_compare(v_actual, v_operator, v_value, v_value_max);
+
+    WHEN 'credit_limit_utilization' THEN
+      -- Customers without a credit limit never match
+      SELECT c.credit_limit INTO v_baseline
+      FROM acumatica_customers c
+      WHERE c.customer_id = p_customer_id
+        AND (p_organization_id IS NULL OR c.organization_id = p_organization_id)
+      LIMIT 1;
+
+      IF v_baseline > 0 THEN
+        SELECT COALESCE(SUM(e.exposure), 0) INTO v_recent
+        FROM customer_credit_exposure(p_organization_id, p_as_of, p_customer_id) e;
+        v_actual := round(v_recent / v_baseline * 100, 1);
+        v_met := auto_ticket_compare(v_actual, v_operator, COALESCE(v_value, 100), v_value_max);
+      END IF;
+
+    ELSE
+      v_met := false;
+  END CASE;
+
+  RETURN jsonb_build_object(
+    'condition_type', v_type,
+    'operator', v_operator,
+    'value_numeric', v_value,
+    'value_numeric_max', v_value_max,
+    'actual', v_actual,
+    'met', COALESCE(v_met, false)
+  );
+END;
+$$;
+
+-- =========================================================================
+-- 6. Nightly cron
+-- =========================================================================
+DO $$
+BEGIN
+  IF EXISTS (SELECT 1 FROM cron.job WHERE jobname = 'capture-customer-credit-status') THEN
+    PERFORM cron.unschedule('capture-customer-credit-status');
+  END IF;
+END $$;
+
+SELECT cron.schedule(
+  'capture-customer-credit-status',
+  '30 5 * * *',
+  'SELECT capture_customer_credit_status();'
+);
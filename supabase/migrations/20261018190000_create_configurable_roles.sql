@@ -0,0 +1,717 @@
+/*
+  # Configurable Roles and Permissions
+
+  ## Summary
+  Access was a mix of `user_profiles.role` string checks and per-user
+  component locks; `system_permissions` / `role_permissions` existed but
+  nothing read them. This migration makes them the source of truth:
+  - organizations can define custom roles (e.g. AR manager, read-only
+    auditor, senior collector) with their own permission set
+  - every custom role has a base built-in role. Assigning it stores the base
+    role in `user_profiles.role`, so legacy role checks keep working, and the
+    custom role in `user_profiles.custom_role_id`, whose permissions win
+  - new fine-grained permissions are enforced in RLS, the role editor RPCs
+    and the edge functions
+
+  ## New Permissions
+  - `customers_all` (view): see every customer and invoice. Without it a user
+    only sees customers assigned to them (and invoices assigned to them)
+  - `auto_ticket_rules`: view / create / edit / delete auto-ticket rules
+  - `statements`: view the statements page, create = email statements
+  - `api_keys`: view / create / edit keys for the data API
+  - `invoice_disputes`: view the disputes page, create / edit disputes
+  - `credit_management`: view the credit page, edit limits and holds
+  Built-in roles are seeded so nobody loses access they have today.
+
+  ## Permission Resolution (`user_has_permission`)
+  1. `admin` always has every permission
+  2. a row in `user_custom_permissions` for the user
+  3. `role_permissions` for the user's custom role if set, else the built-in
+     role
+
+  ## New Tables
+  - `custom_roles`: organization, generated `role_key` (used in
+    `role_permissions.role`), name, description, `base_role`
+
+  ## Modified Tables
+  - `user_profiles.custom_role_id`
+
+  ## New Functions
+  - `has_permission(permission_key, action)` - for the caller, used in RLS
+  - `save_custom_role(role_id, name, description, base_role)`
+  - `delete_custom_role(role_id)`
+  - `set_role_permissions(role, permissions jsonb)`
+  - `assign_user_role(user_id, role)` - built-in role or custom role key
+
+  ## Modified Functions
+  - `user_has_permission` and `get_user_permissions` resolve custom roles
+  - `can_manage_credit` checks `credit_management` edit instead of the
+    manager / admin role
+
+  ## Security
+  - Auto-ticket rule policies check `auto_ticket_rules` instead of the
+    admin / manager role
+  - Opening, updating and deleting invoice disputes check `invoice_disputes`
+    create / edit / delete; credit policy edits and review decisions check
+    `credit_management` edit
+  - Restrictive policies on `acumatica_customers` and `acumatica_invoices`
+    apply `customers_all`
+  - `user_has_permission` takes any user id, so only the service role may
+    call it; older policies calling it are rewritten to `has_permission`
+  - Built-in role permissions are shared by every organization, so only
+    admins change them; custom roles are edited with `admin_roles`
+  - Non-admins can't edit their own custom role and can't grant a role
+    access they don't hold themselves
+*/
+
+-- =========================================================================
+-- 1. Permissions
+-- =========================================================================
+INSERT INTO system_permissions (permission_key, permission_name, category, description) VALUES
+('customers_all', 'All Customers', 'Customer Management', 'See every customer and invoice; without it only assigned customers are visible'),
+('auto_ticket_rules', 'Auto-Ticket Rules', 'Collection Management', 'View, create, edit and delete auto-ticket rules'),
+('statements', 'Customer Statements', 'Communication', 'View customer statements; create sends them by email'),
+('api_keys', 'API Keys', 'System Administration', 'Issue and revoke keys for the data API'),
+('invoice_disputes', 'Invoice Disputes', 'Collection Management', 'View invoice disputes; create opens them, edit changes status and resolves them'),
+('credit_management', 'Credit Management', 'Customer Management', 'View credit limits and holds; edit changes limits and places or releases holds')
+ON CONFLICT (permission_key) DO NOTHING;
+
+INSERT INTO role_permissions (role, permission_key, can_view, can_create, can_edit, can_delete)
+SELECT 'admin', permission_key, true, true, true, true
+FROM system_permissions
+WHERE permission_key IN ('customers_all', 'auto_ticket_rules', 'statements', 'api_keys', 'invoice_disputes', 'credit_management')
+ON CONFLICT (role, permission_key) DO NOTHING;
+
+INSERT INTO role_permissions (role, permission_key, can_view, can_create, can_edit, can_delete) VALUES
+('developer', 'customers_all', true, false, false, false),
+('developer', 'api_keys', true, true, true, true),
+('developer', 'invoice_disputes', true, false, false, false),
+('developer', 'credit_management', true, false, false, false),
+('manager', 'customers_all', true, false, false, false),
+('manager', 'auto_ticket_rules', true, true, true, true),
+('manager', 'statements', true, true, false, false),
+('manager', 'invoice_disputes', true, true, true, true),
+('manager', 'credit_management', true, true, true, true),
+('collector', 'customers_all', true, false, false, false),
+('collector', 'statements', true, true, false, false),
+('collector', 'invoice_disputes', true, true, true, false),
+('collector', 'credit_management', true, false, false, false),
+('secretary', 'customers_all', true, false, false, false),
+('secretary', 'statements', true, true, false, false),
+('secretary', 'invoice_disputes', true, true, false, false),
+('secretary', 'credit_management', true, false, false, false),
+('viewer', 'customers_all', true, false, false, false),
+('viewer', 'auto_ticket_rules', true, false, false, false),
+('viewer', 'statements', true, false, false, false),
+('viewer', 'invoice_disputes', true, false, false, false),
+('viewer', 'credit_management', true, false, false, false),
+('user', 'customers_all', true, false, false, false),
+('user', 'statements', true, true, false, false),
+('user', 'invoice_disputes', true, true, false, false),
+('user', 'credit_management', true, false, false, false)
+ON CONFLICT (role, permission_key) DO NOTHING;
+
+-- =========================================================================
+-- 2. Custom roles
+-- =========================================================================
+CREATE TABLE IF NOT EXISTS custom_roles (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  organization_id uuid NOT NULL REFERENCES organizations(id) ON DELETE CASCADE,
+  role_key text NOT NULL UNIQUE,
+  name text NOT NULL,
+  description text,
+  base_role text NOT NULL CHECK (base_role IN ('manager', 'collector', 'secretary', 'viewer', 'user')),
+  created_by uuid REFERENCES user_profiles(id) ON DELETE SET NULL,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now(),
+  UNIQUE (organization_id, name)
+);
+
+ALTER TABLE user_profiles
+  ADD COLUMN IF NOT EXISTS custom_role_id uuid REFERENCES custom_roles(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_user_profiles_custom_role
+  ON user_profiles(custom_role_id)
+  WHERE custom_role_id IS NOT NULL;
+
+ALTER TABLE custom_roles ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Org members can view custom roles" ON custom_roles;
+CREATE POLICY "Org members can view custom roles"
+  ON custom_roles FOR SELECT
+  TO authenticated
+  USING (organization_id = get_user_org_id());
+
+-- =========================================================================
+-- 3. Permission resolution
+-- =========================================================================
+CREATE OR REPLACE FUNCTION user_has_permission(
+  p_user_id uuid,
+  p_permission_key text,
+  p_action text DEFAULT 'view'
+)
+RETURNS boolean
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_role text;
+  v_effective_role text;
+  v_allowed boolean;
+BEGIN
+  IF p_action NOT IN ('view', 'create', 'edit', 'delete') THEN
+    RAISE EXCEPTION 'Unknown permission action %', p_action;
+  END IF;
+
+  SELECT up.role, COALESCE(cr.role_key, up.role)
+  INTO v_role, v_effective_role
+  FROM user_profiles up
+  LEFT JOIN custom_roles cr ON cr.id = up.custom_role_id
+  WHERE up.id = p_user_id;
+
+  IF v_role IS NULL THEN
+    RETURN false;
+  END IF;
+
+  IF v_role = 'admin' THEN
+    RETURN true;
+  END IF;
+
+  SELECT CASE p_action
+           WHEN 'view' THEN can_view
+           WHEN 'create' THEN can_create
+           WHEN 'edit' THEN can_edit
+           ELSE can_delete
+         END
+  INTO v_allowed
+  FROM user_custom_permissions
+  WHERE user_id = p_user_id
+    AND permission_key = p_permission_key;
+
+  IF v_allowed IS NOT NULL THEN
+    RETURN v_allowed;
+  END IF;
+
+  SELECT CASE p_action
+           WHEN 'view' THEN can_view
+           WHEN 'create' THEN can_create
+           WHEN 'edit' THEN can_edit
+           ELSE can_delete
+         END
+  INTO v_allowed
+  FROM role_permissions
+  WHERE role = v_effective_role
+    AND permission_key = p_permission_key;
+
+  RETURN COALESCE(v_allowed, false);
+END;
+$$;
+
+-- Wrapped as (SELECT has_permission(...)) in policies so it runs once per
+-- statement rather than once per row.
+CREATE OR REPLACE FUNCTION has_permission(p_permission_key text, p_action text DEFAULT 'view')
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT user_has_permission(auth.uid(), p_permission_key, p_action);
+$$;
+
+CREATE OR REPLACE FUNCTION get_user_permissions(user_uuid uuid)
+RETURNS TABLE (
+  permission_key text,
+  permission_name text,
+  category text,
+  can_view boolean,
+  can_create boolean,
+  can_edit boolean,
+  can_delete boolean,
+  is_custom boolean
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_role text;
+  v_effective_role text;
+BEGIN
+  IF auth.uid() IS NOT NULL AND user_uuid IS DISTINCT FROM auth.uid() AND NOT is_admin() THEN
+    RAISE EXCEPTION 'Only admins can read another user''s permissions';
+  END IF;
+
+  SELECT up.role, COALESCE(cr.role_key, up.role)
+  INTO v_role, v_effective_role
+  FROM user_profiles up
+  LEFT JOIN custom_roles cr ON cr.id = up.custom_role_id
+  WHERE up.id = user_uuid;
+
+  RETURN QUERY
+  SELECT
+    sp.permission_key,
+    sp.permission_name,
+    sp.category,
+    v_role = 'admin' OR COALESCE(ucp.can_view, rp.can_view, false),
+    v_role = 'admin' OR COALESCE(ucp.can_create, rp.can_create, false),
+    v_role = 'admin' OR COALESCE(ucp.can_edit, rp.can_edit, false),
+    v_role = 'admin' OR COALESCE(ucp.can_delete, rp.can_delete, false),
+    ucp.permission_key IS NOT NULL
+  FROM system_permissions sp
+  LEFT JOIN role_permissions rp
+    ON rp.permission_key = sp.permission_key
+   AND rp.role = v_effective_role
+  LEFT JOIN user_custom_permissions ucp
+    ON ucp.permission_key = sp.permission_key
+   AND ucp.user_id = user_uuid
+  ORDER BY sp.category, sp.permission_name;
+END;
+$$;
+
+-- =========================================================================
+-- 4. Role editor
+-- =========================================================================
+CREATE OR REPLACE FUNCTION save_custom_role(
+  p_role_id uuid,
+  p_name text,
+  p_description text,
+  p_base_role text
+)
+RETURNS custom_roles
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_org uuid := get_user_org_id();
+  v_name text := NULLIF(trim(COALESCE(p_name, '')), '');
+  v_role custom_roles;
+  v_slug text;
+  v_key text;
+  v_suffix integer := 1;
+  v_is_admin boolean := is_admin();
+BEGIN
+  IF NOT has_permission('admin_roles', CASE WHEN p_role_id IS NULL THEN 'create' ELSE 'edit' END) THEN
+    RAISE EXCEPTION 'You do not have permission to manage roles';
+  END IF;
+
+  IF p_role_id IS NOT NULL AND NOT v_is_admin AND EXISTS (
+    SELECT 1 FROM user_profiles WHERE id = auth.uid() AND custom_role_id = p_role_id
+  ) THEN
+    RAISE EXCEPTION 'You cannot change your own role';
+  END IF;
+
+  IF v_name IS NULL THEN
+    RAISE EXCEPTION 'Give the role a name';
+  END IF;
+
+  IF p_base_role NOT IN ('manager', 'collector', 'secretary', 'viewer', 'user') THEN
+    RAISE EXCEPTION 'Base role must be manager, collector, secretary, viewer or user';
+  END IF;
+
+  IF p_role_id IS NOT NULL THEN
+    UPDATE custom_roles
+    SET name = v_name,
+        description = NULLIF(trim(COALESCE(p_description, '')), ''),
+        base_role = p_base_role,
+        updated_at = now()
+    WHERE id = p_role_id
+      AND organization_id = v_org
+    RETURNING * INTO v_role;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Role not found';
+    END IF;
+
+    UPDATE user_profiles
+    SET role = p_base_role
+    WHERE custom_role_id = v_role.id;
+
+    RETURN v_role;
+  END IF;
+
+  v_slug := trim(BOTH '_' FROM regexp_replace(lower(v_name), '[^a-z0-9]+', '_', 'g'));
+  v_key := 'custom_' || COALESCE(NULLIF(v_slug, ''), 'role');
+  WHILE EXISTS (SELECT 1 FROM custom_roles WHERE role_key = v_key) LOOP
+    v_suffix := v_suffix + 1;
+    v_key := 'custom_' || COALESCE(NULLIF(v_slug, ''), 'role') || '_' || v_suffix;
+  END LOOP;
+
+  INSERT INTO custom_roles (organization_id, role_key, name, description, base_role, created_by)
+  VALUES (v_org, v_key, v_name, NULLIF(trim(COALESCE(p_description, '')), ''), p_base_role, auth.uid())
+  RETURNING * INTO v_role;
+
+  -- New roles start from the base role's permissions, limited to what a
+  -- non-admin creator holds themselves
+  INSERT INTO role_permissions (role, permission_key, can_view, can_create, can_edit, can_delete)
+  SELECT
+    v_key,
+    permission_key,
+    can_view AND (v_is_admin OR has_permission(permission_key, 'view')),
+    can_create AND (v_is_admin OR has_permission(permission_key, 'create')),
+    can_edit AND (v_is_admin OR has_permission(permission_key, 'edit')),
+    can_delete AND (v_is_admin OR has_permission(permission_key, 'delete'))
+  FROM role_permissions
+  WHERE role = p_base_role;
+
+  RETURN v_role;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION delete_custom_role(p_role_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_role custom_roles;
+BEGIN
+  IF NOT has_permission('admin_roles', 'delete') THEN
+    RAISE EXCEPTION 'You do not have permission to delete roles';
+  END IF;
+
+  DELETE FROM custom_roles
+  WHERE id = p_role_id
+    AND organization_id = get_user_org_id()
+  RETURNING * INTO v_role;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Role not found';
+  END IF;
+
+  -- Members fall back to the base role (custom_role_id is cleared by the FK)
+  DELETE FROM role_permissions WHERE role = v_role.role_key;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION set_role_permissions(p_role text, p_permissions jsonb)
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_count integer;
+  v_denied text;
+BEGIN
+  IF NOT has_permission('admin_roles', 'edit') THEN
+    RAISE EXCEPTION 'You do not have permission to edit role permissions';
+  END IF;
+
+  IF p_role = 'admin' THEN
+    RAISE EXCEPTION 'Admins always have every permission';
+  END IF;
+
+  IF p_role IN ('developer', 'manager', 'collector', 'secretary', 'viewer', 'user', 'customer') THEN
+    IF NOT is_admin() THEN
+      RAISE EXCEPTION 'Only admins can change built-in roles';
+    END IF;
+  ELSIF NOT EXISTS (
+    SELECT 1 FROM custom_roles
+    WHERE role_key = p_role
+      AND organization_id = get_user_org_id()
+  ) THEN
+    RAISE EXCEPTION 'Role not found';
+  END IF;
+
+  -- Non-admins can't edit their own role, and can only add grants they hold
+  -- themselves; grants the role already has are left alone
+  IF NOT is_admin() THEN
+    IF EXISTS (
+      SELECT 1 FROM user_profiles up
+      JOIN custom_roles cr ON cr.id = up.custom_role_id
+      WHERE up.id = auth.uid()
+        AND cr.role_key = p_role
+    ) THEN
+      RAISE EXCEPTION 'You cannot change the permissions of your own role';
+    END IF;
+
+    SELECT sp.permission_name INTO v_denied
+    FROM jsonb_to_recordset(p_permissions) AS p(
+      permission_key text, can_view boolean, can_create boolean, can_edit boolean, can_delete boolean
+    )
+    JOIN system_permissions sp ON sp.permission_key = p.permission_key
+    LEFT JOIN role_permissions rp ON rp.role = p_role AND rp.permission_key = p.permission_key
+    WHERE (COALESCE(p.can_view, false) AND NOT COALESCE(rp.can_view, false) AND NOT has_permission(p.permission_key, 'view'))
+       OR (COALESCE(p.can_create, false) AND NOT COALESCE(rp.can_create, false) AND NOT has_permission(p.permission_key, 'create'))
+       OR (COALESCE(p.can_edit, false) AND NOT COALESCE(rp.can_edit, false) AND NOT has_permission(p.permission_key, 'edit'))
+       OR (COALESCE(p.can_delete, false) AND NOT COALESCE(rp.can_delete, false) AND NOT has_permission(p.permission_key, 'delete'))
+    LIMIT 1;
+
+    IF FOUND THEN
+      RAISE EXCEPTION 'You cannot grant % access you do not have yourself', v_denied;
+    END IF;
+  END IF;
+
+  INSERT INTO role_permissions (role, permission_key, can_view, can_create, can_edit, can_delete)
+  SELECT
+    p_role,
+    p.permission_key,
+    COALESCE(p.can_view, false),
+    COALESCE(p.can_create, false),
+    COALESCE(p.can_edit, false),
+    COALESCE(p.can_delete, false)
+  FROM jsonb_to_recordset(p_permissions) AS p(
+    permission_key text, can_view boolean, can_create boolean, can_edit boolean, can_delete boolean
+  )
+  JOIN system_permissions sp ON sp.permission_key = p.permission_key
+  ON CONFLICT (role, permission_key) DO UPDATE
+  SET can_view = EXCLUDED.can_view,
+      can_create = EXCLUDED.can_create,
+      can_edit = EXCLUDED.can_edit,
+      can_delete = EXCLUDED.can_delete;
+
+  GET DIAGNOSTICS v_count = ROW_COUNT;
+  RETURN v_count;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION assign_user_role(p_user_id uuid, p_role text)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_target user_profiles;
+  v_custom custom_roles;
+BEGIN
+  IF NOT has_permission('admin_users', 'edit') THEN
+    RAISE EXCEPTION 'You do not have permission to change user roles';
+  END IF;
+
+  IF p_user_id = auth.uid() THEN
+    RAISE EXCEPTION 'You cannot change your own role';
+  END IF;
+
+  SELECT * INTO v_target
+  FROM user_profiles
+  WHERE id = p_user_id
+    AND organization_id = get_user_org_id();
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'User not found';
+  END IF;
+
+  IF (p_role = 'admin' OR v_target.role = 'admin') AND NOT is_admin() THEN
+    RAISE EXCEPTION 'Only admins can grant or remove the admin role';
+  END IF;
+
+  SELECT * INTO v_custom
+  FROM custom_roles
+  WHERE role_key = p_role
+    AND organization_id = v_target.organization_id;
+
+  IF FOUND THEN
+    UPDATE user_profiles
+    SET role = v_custom.base_role,
+        custom_role_id = v_custom.id,
+        updated_at = now()
+    WHERE id = p_user_id;
+  ELSIF p_role IN ('admin', 'developer', 'manager', 'collector', 'secretary', 'viewer', 'user') THEN
+    UPDATE user_profiles
+    SET role = p_role,
+        custom_role_id = NULL,
+        updated_at = now()
+    WHERE id = p_user_id;
+  ELSE
+    RAISE EXCEPTION 'Unknown role %', p_role;
+  END IF;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION has_permission(text, text) FROM PUBLIC, anon;
+REVOKE ALL ON FUNCTION save_custom_role(uuid, text, text, text) FROM PUBLIC, anon;
+REVOKE ALL ON FUNCTION delete_custom_role(uuid) FROM PUBLIC, anon;
+REVOKE ALL ON FUNCTION set_role_permissions(text, jsonb) FROM PUBLIC, anon;
+REVOKE ALL ON FUNCTION assign_user_role(uuid, text) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION has_permission(text, text) TO authenticated;
+GRANT EXECUTE ON FUNCTION save_custom_role(uuid, text, text, text) TO authenticated;
+GRANT EXECUTE ON FUNCTION delete_custom_role(uuid) TO authenticated;
+GRANT EXECUTE ON FUNCTION set_role_permissions(text, jsonb) TO authenticated;
+GRANT EXECUTE ON FUNCTION assign_user_role(uuid, text) TO authenticated;
+-- Takes any user id, so only the service role may call it; signed-in users
+-- check their own permissions through has_permission
+REVOKE ALL ON FUNCTION user_has_permission(uuid, text, text) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION user_has_permission(uuid, text, text) TO service_role;
+
+-- Older policies call user_has_permission(auth.uid(), ...) directly, which
+-- authenticated can no longer execute; point them at has_permission
+DO $$
+DECLARE
+  v_policy record;
+  v_sql text;
+BEGIN
+  FOR v_policy IN
+    SELECT schemaname, tablename, policyname, qual, with_check
+    FROM pg_policies
+    WHERE schemaname = 'public'
+      AND (qual LIKE '%user_has_permission(auth.uid(), %' OR with_check LIKE '%user_has_permission(auth.uid(), %')
+  LOOP
+    v_sql := format('ALTER POLICY %I ON %I.%I', v_policy.policyname, v_policy.schemaname, v_policy.tablename);
+    IF v_policy.qual IS NOT NULL THEN
+      v_sql := v_sql || format(' USING (%s)', replace(v_policy.qual, 'user_has_permission(auth.uid(), ', 'has_permission('));
+    END IF;
+    IF v_policy.with_check IS NOT NULL THEN
+      v_sql := v_sql || format(' WITH CHECK (%s)', replace(v_policy.with_check, 'user_has_permission(auth.uid(), ', 'has_permission('));
+    END IF;
+    EXECUTE v_sql;
+  END LOOP;
+END $$;
+
+-- =========================================================================
+-- 5. Auto-ticket rules
+-- =========================================================================
+DROP POLICY IF EXISTS "Admins and managers can manage auto-ticket rules" ON auto_ticket_rules;
+
+DROP POLICY IF EXISTS "Users with permission can view auto-ticket rules" ON auto_ticket_rules;
+CREATE POLICY "Users with permission can view auto-ticket rules"
+  ON auto_ticket_rules FOR SELECT
+  TO authenticated
+  USING (organization_id = get_user_org_id() AND (SELECT has_permission('auto_ticket_rules', 'view')));
+
+DROP POLICY IF EXISTS "Users with permission can create auto-ticket rules" ON auto_ticket_rules;
+CREATE POLICY "Users with permission can create auto-ticket rules"
+  ON auto_ticket_rules FOR INSERT
+  TO authenticated
+  WITH CHECK (organization_id = get_user_org_id() AND (SELECT has_permission('auto_ticket_rules', 'create')));
+
+DROP POLICY IF EXISTS "Users with permission can update auto-ticket rules" ON auto_ticket_rules;
+CREATE POLICY "Users with permission can update auto-ticket rules"
+  ON auto_ticket_rules FOR UPDATE
+  TO authenticated
+  USING (organization_id = get_user_org_id() AND (SELECT has_permission('auto_ticket_rules', 'edit')))
+  WITH CHECK (organization_id = get_user_org_id());
+
+DROP POLICY IF EXISTS "Users with permission can delete auto-ticket rules" ON auto_ticket_rules;
+CREATE POLICY "Users with permission can delete auto-ticket rules"
+  ON auto_ticket_rules FOR DELETE
+  TO authenticated
+  USING (organization_id = get_user_org_id() AND (SELECT has_permission('auto_ticket_rules', 'delete')));
+
+-- Conditions and targets are rewritten whenever a rule is created or edited
+DROP POLICY IF EXISTS "Admins and managers can manage rule conditions" ON auto_ticket_rule_conditions;
+DROP POLICY IF EXISTS "Admins and managers can insert rule conditions" ON auto_ticket_rule_conditions;
+DROP POLICY IF EXISTS "Admins and managers can update rule conditions" ON auto_ticket_rule_conditions;
+DROP POLICY IF EXISTS "Admins and managers can delete rule conditions" ON auto_ticket_rule_conditions;
+DROP POLICY IF EXISTS "Admins and managers can manage rule targets" ON auto_ticket_rule_targets;
+DROP POLICY IF EXISTS "Admins and managers can insert rule targets" ON auto_ticket_rule_targets;
+DROP POLICY IF EXISTS "Admins and managers can update rule targets" ON auto_ticket_rule_targets;
+DROP POLICY IF EXISTS "Admins and managers can delete rule targets" ON auto_ticket_rule_targets;
+
+DROP POLICY IF EXISTS "Users with permission can view rule conditions" ON auto_ticket_rule_conditions;
+CREATE POLICY "Users with permission can view rule conditions"
+  ON auto_ticket_rule_conditions FOR SELECT
+  TO authenticated
+  USING ((SELECT has_permission('auto_ticket_rules', 'view')));
+
+DROP POLICY IF EXISTS "Users with permission can write rule conditions" ON auto_ticket_rule_conditions;
+CREATE POLICY "Users with permission can write rule conditions"
+  ON auto_ticket_rule_conditions FOR ALL
+  TO authenticated
+  USING ((SELECT has_permission('auto_ticket_rules', 'create')) OR (SELECT has_permission('auto_ticket_rules', 'edit')))
+  WITH CHECK ((SELECT has_permission('auto_ticket_rules', 'create')) OR (SELECT has_permission('auto_ticket_rules', 'edit')));
+
+DROP POLICY IF EXISTS "Users with permission can view rule targets" ON auto_ticket_rule_targets;
+CREATE POLICY "Users with permission can view rule targets"
+  ON auto_ticket_rule_targets FOR SELECT
+  TO authenticated
+  USING ((SELECT has_permission('auto_ticket_rules', 'view')));
+
+DROP POLICY IF EXISTS "Users with permission can write rule targets" ON auto_ticket_rule_targets;
+CREATE POLICY "Users with permission can write rule targets"
+  ON auto_ticket_rule_targets FOR ALL
+  TO authenticated
+  USING ((SELECT has_permission('auto_ticket_rules', 'create')) OR (SELECT has_permission('auto_ticket_rules', 'edit')))
+  WITH CHECK ((SELECT has_permission('auto_ticket_rules', 'create')) OR (SELECT has_permission('auto_ticket_rules', 'edit')));
+
+-- =========================================================================
+-- 6. All customers vs assigned only
+-- =========================================================================
+DROP POLICY IF EXISTS "Customers outside assignments need customers_all" ON acumatica_customers;
+CREATE POLICY "Customers outside assignments need customers_all"
+  ON acumatica_customers AS RESTRICTIVE FOR SELECT
+  TO authenticated
+  USING (
+    (SELECT has_permission('customers_all', 'view'))
+    OR EXISTS (
+      SELECT 1 FROM collector_customer_assignments cca
+      WHERE cca.customer_id = acumatica_customers.customer_id
+        AND cca.assigned_collector_id = auth.uid()
+    )
+  );
+
+DROP POLICY IF EXISTS "Invoices outside assignments need customers_all" ON acumatica_invoices;
+CREATE POLICY "Invoices outside assignments need customers_all"
+  ON acumatica_invoices AS RESTRICTIVE FOR SELECT
+  TO authenticated
+  USING (
+    (SELECT has_permission('customers_all', 'view'))
+    OR EXISTS (
+      SELECT 1 FROM collector_customer_assignments cca
+      WHERE cca.customer_id = acumatica_invoices.customer
+        AND cca.assigned_collector_id = auth.uid()
+    )
+    OR EXISTS (
+      SELECT 1 FROM invoice_assignments ia
+      WHERE ia.invoice_reference_number = acumatica_invoices.reference_number
+        AND ia.assigned_collector_id = auth.uid()
+    )
+  );
+
+-- =========================================================================
+-- 7. API keys
+-- =========================================================================
+DROP POLICY IF EXISTS "Users with permission can view API keys" ON api_keys;
+CREATE POLICY "Users with permission can view API keys"
+  ON api_keys FOR SELECT
+  TO authenticated
+  USING ((SELECT has_permission('api_keys', 'view')));
+
+DROP POLICY IF EXISTS "Users with permission can update API keys" ON api_keys;
+CREATE POLICY "Users with permission can update API keys"
+  ON api_keys FOR UPDATE
+  TO authenticated
+  USING ((SELECT has_permission('api_keys', 'edit')))
+  WITH CHECK ((SELECT has_permission('api_keys', 'edit')));
+
+-- =========================================================================
+-- 8. Invoice disputes and credit management
+-- =========================================================================
+DROP POLICY IF EXISTS "Org members can open disputes" ON invoice_disputes;
+DROP POLICY IF EXISTS "Users with permission can open disputes" ON invoice_disputes;
+CREATE POLICY "Users with permission can open disputes"
+  ON invoice_disputes FOR INSERT
+  TO authenticated
+  WITH CHECK (organization_id = get_user_org_id() AND (SELECT has_permission('invoice_disputes', 'create')));
+
+DROP POLICY IF EXISTS "Org members can update disputes" ON invoice_disputes;
+DROP POLICY IF EXISTS "Users with permission can update disputes" ON invoice_disputes;
+CREATE POLICY "Users with permission can update disputes"
+  ON invoice_disputes FOR UPDATE
+  TO authenticated
+  USING (organization_id = get_user_org_id() AND (SELECT has_permission('invoice_disputes', 'edit')))
+  WITH CHECK (organization_id = get_user_org_id());
+
+DROP POLICY IF EXISTS "Admins can delete disputes" ON invoice_disputes;
+DROP POLICY IF EXISTS "Users with permission can delete disputes" ON invoice_disputes;
+CREATE POLICY "Users with permission can delete disputes"
+  ON invoice_disputes FOR DELETE
+  TO authenticated
+  USING (organization_id = get_user_org_id() AND (SELECT has_permission('invoice_disputes', 'delete')));
+
+-- Credit policy edits, recalculation and review decisions all go through this
+CREATE OR REPLACE FUNCTION can_manage_credit()
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT has_permission('credit_management', 'edit');
+$$;
@@ -0,0 +1,348 @@
+/*
+  # Review Queue for AI Email Intent Actions
+
+  ## Summary
+  `email-receiver` classified inbound mail with GPT and acted on it at once:
+  a "stop" intent deactivated the customer and a "postpone" intent pushed
+  `postpone_until` out by 7 days. A single misread email could silently end
+  all outreach to a customer. Every stop / postpone is now recorded as a
+  proposed action first:
+  - when auto-apply is on for the intent and the model's confidence is at
+    or above that intent's threshold, the action is applied immediately
+  - otherwise it waits in the inbox review queue, where a user approves it
+    (optionally with edited values) or rejects it
+  - every applied action keeps the customer's previous values, so it can be
+    undone from the audit log
+  - auto-apply starts off for every intent, so nothing is applied without
+    review until an admin turns it on
+
+  ## New Tables
+  - `email_intent_settings`: per intent, whether it may be applied without
+    review, the minimum confidence for that, and the postpone length
+  - `email_intent_actions`: proposed, applied, rejected and undone actions
+    with the changes, the customer's previous values and who decided
+
+  ## New Functions
+  - `apply_email_intent_action(action_id, changes, user_id, note)` -
+    service role (auto-apply from `email-receiver`)
+  - `approve_email_intent_action(action_id, changes, note)`
+  - `reject_email_intent_action(action_id, note)`
+  - `undo_email_intent_action(action_id, note)`
+
+  ## Modified Tables
+  - `email_analysis` check constraints accept the `question` intent and the
+    `postponed_emails` / `queued_for_review` actions the receiver records
+
+  ## Security
+  - RLS enabled; the queue is read with the new `email_intent_review`
+    permission and changed only through the functions above (edit)
+  - Thresholds are edited by managers and admins. Like the other inbound
+    email tables they are not scoped to an organization
+*/
+
+-- =========================================================================
+-- 1. Permission
+-- =========================================================================
+INSERT INTO system_permissions (permission_key, permission_name, category, description) VALUES
+('email_intent_review', 'AI Email Actions', 'Email System', 'Review, apply and undo actions proposed from inbound email intent')
+ON CONFLICT (permission_key) DO NOTHING;
+
+INSERT INTO role_permissions (role, permission_key, can_view, can_create, can_edit, can_delete) VALUES
+('admin', 'email_intent_review', true, true, true, true),
+('manager', 'email_intent_review', true, false, true, false),
+('collector', 'email_intent_review', true, false, true, false),
+('secretary', 'email_intent_review', true, false, false, false),
+('viewer', 'email_intent_review', true, false, false, false)
+ON CONFLICT (role, permission_key) DO NOTHING;
+
+-- Existing custom roles inherit the new permission from their base role
+INSERT INTO role_permissions (role, permission_key, can_view, can_create, can_edit, can_delete)
+SELECT cr.role_key, rp.permission_key, rp.can_view, rp.can_create, rp.can_edit, rp.can_delete
+FROM custom_roles cr
+JOIN role_permissions rp
+  ON rp.role = cr.base_role
+ AND rp.permission_key = 'email_intent_review'
+ON CONFLICT (role, permission_key) DO NOTHING;
+
+-- =========================================================================
+-- 2. email_analysis constraints
+-- =========================================================================
+ALTER TABLE email_analysis DROP CONSTRAINT IF EXISTS email_analysis_detected_intent_check;
+ALTER TABLE email_analysis ADD CONSTRAINT email_analysis_detected_intent_check
+  CHECK (detected_intent IN ('file_attached', 'postpone', 'stop', 'question', 'general', 'unclear'));
+
+ALTER TABLE email_analysis DROP CONSTRAINT IF EXISTS email_analysis_action_taken_check;
+ALTER TABLE email_analysis ADD CONSTRAINT email_analysis_action_taken_check
+  CHECK (action_taken IN (
+    'marked_responded',
+    'paused_emails',
+    'postponed_emails',
+    'deactivated_customer',
+    'queued_for_review',
+    'none',
+    'manual_override'
+  ));
+
+-- =========================================================================
+-- 3. Tables
+-- =========================================================================
+CREATE TABLE IF NOT EXISTS email_intent_settings (
+  intent text PRIMARY KEY CHECK (intent IN ('stop', 'postpone')),
+  auto_apply boolean NOT NULL DEFAULT false,
+  min_confidence numeric(3,2) NOT NULL DEFAULT 0.90 CHECK (min_confidence >= 0.0 AND min_confidence <= 1.0),
+  postpone_days integer CHECK (postpone_days IS NULL OR postpone_days BETWEEN 1 AND 90),
+  updated_by uuid REFERENCES user_profiles(id) ON DELETE SET NULL,
+  updated_at timestamptz NOT NULL DEFAULT now()
+);
+
+INSERT INTO email_intent_settings (intent, auto_apply, min_confidence, postpone_days) VALUES
+('stop', false, 0.95, NULL),
+('postpone', false, 0.85, 7)
+ON CONFLICT (intent) DO NOTHING;
+
+CREATE TABLE IF NOT EXISTS email_intent_actions (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  inbound_email_id uuid NOT NULL REFERENCES inbound_emails(id) ON DELETE CASCADE,
+  customer_id uuid NOT NULL REFERENCES customers(id) ON DELETE CASCADE,
+  intent text NOT NULL CHECK (intent IN ('stop', 'postpone')),
+  action_type text NOT NULL CHECK (action_type IN ('deactivate_customer', 'postpone_emails')),
+  confidence numeric(3,2) CHECK (confidence >= 0.0 AND confidence <= 1.0),
+  reasoning text,
+  proposed_changes jsonb NOT NULL,
+  applied_changes jsonb,
+  previous_values jsonb,
+  status text NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'applied', 'rejected', 'undone')),
+  applied_automatically boolean NOT NULL DEFAULT false,
+  decided_by uuid REFERENCES user_profiles(id) ON DELETE SET NULL,
+  decided_at timestamptz,
+  decision_note text,
+  undone_by uuid REFERENCES user_profiles(id) ON DELETE SET NULL,
+  undone_at timestamptz,
+  undo_note text,
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_email_intent_actions_status
+  ON email_intent_actions(status, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_email_intent_actions_customer
+  ON email_intent_actions(customer_id);
+CREATE INDEX IF NOT EXISTS idx_email_intent_actions_email
+  ON email_intent_actions(inbound_email_id);
+
+ALTER TABLE email_intent_settings ENABLE ROW LEVEL SECURITY;
+ALTER TABLE email_intent_actions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Authenticated users can view email intent settings"
+  ON email_intent_settings FOR SELECT
+  TO authenticated
+  USING (true);
+
+CREATE POLICY "Managers can update email intent settings"
+  ON email_intent_settings FOR UPDATE
+  TO authenticated
+  USING (is_manager_or_admin())
+  WITH CHECK (is_manager_or_admin());
+
+CREATE POLICY "Users with permission can view email intent actions"
+  ON email_intent_actions FOR SELECT
+  TO authenticated
+  USING ((SELECT has_permission('email_intent_review', 'view')));
+
+-- =========================================================================
+-- 4. Apply / approve / reject / undo
+-- =========================================================================
+CREATE OR REPLACE FUNCTION apply_email_intent_action(
+  p_action_id uuid,
+  p_changes jsonb,
+  p_user_id uuid,
+  p_note text
+)
+RETURNS email_intent_actions
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_action email_intent_actions;
+  v_changes jsonb;
+  v_previous jsonb;
+BEGIN
+  SELECT * INTO v_action
+  FROM email_intent_actions
+  WHERE id = p_action_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Action not found';
+  END IF;
+
+  IF v_action.status <> 'pending' THEN
+    RAISE EXCEPTION 'This action has already been %', v_action.status;
+  END IF;
+
+  -- Intents may only touch the outreach columns, whatever the reviewer sends
+  SELECT COALESCE(jsonb_object_agg(key, value), '{}'::jsonb) INTO v_changes
+  FROM jsonb_each(COALESCE(p_changes, v_action.proposed_changes))
+  WHERE key IN ('is_active', 'postpone_until', 'postpone_reason');
+
+  IF v_changes = '{}'::jsonb THEN
+    RAISE EXCEPTION 'Nothing to apply';
+  END IF;
+
+  SELECT jsonb_build_object(
+    'is_active', is_active,
+    'postpone_until', postpone_until,
+    'postpone_reason', postpone_reason
+  ) INTO v_previous
+  FROM customers
+  WHERE id = v_action.customer_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Customer no longer exists';
+  END IF;
+
+  UPDATE customers
+  SET is_active = CASE WHEN v_changes ? 'is_active'
+        THEN (v_changes->>'is_active')::boolean ELSE is_active END,
+      postpone_until = CASE WHEN v_changes ? 'postpone_until'
+        THEN (v_changes->>'postpone_until')::timestamptz ELSE postpone_until END,
+      postpone_reason = CASE WHEN v_changes ? 'postpone_reason'
+        THEN v_changes->>'postpone_reason' ELSE postpone_reason END
+  WHERE id = v_action.customer_id;
+
+  UPDATE email_intent_actions
+  SET status = 'applied',
+      applied_changes = v_changes,
+      previous_values = v_previous,
+      applied_automatically = p_user_id IS NULL,
+      decided_by = p_user_id,
+      decided_at = now(),
+      decision_note = NULLIF(trim(COALESCE(p_note, '')), '')
+  WHERE id = p_action_id
+  RETURNING * INTO v_action;
+
+  UPDATE email_analysis
+  SET action_taken = CASE
+        WHEN (v_changes->>'is_active')::boolean IS FALSE THEN 'deactivated_customer'
+        ELSE 'postponed_emails'
+      END,
+      processed_by_admin = p_user_id
+  WHERE inbound_email_id = v_action.inbound_email_id;
+
+  RETURN v_action;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION approve_email_intent_action(
+  p_action_id uuid,
+  p_changes jsonb DEFAULT NULL,
+  p_note text DEFAULT NULL
+)
+RETURNS email_intent_actions
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT has_permission('email_intent_review', 'edit') THEN
+    RAISE EXCEPTION 'You do not have permission to review email actions';
+  END IF;
+
+  RETURN apply_email_intent_action(p_action_id, p_changes, auth.uid(), p_note);
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION reject_email_intent_action(p_action_id uuid, p_note text DEFAULT NULL)
+RETURNS email_intent_actions
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_action email_intent_actions;
+BEGIN
+  IF NOT has_permission('email_intent_review', 'edit') THEN
+    RAISE EXCEPTION 'You do not have permission to review email actions';
+  END IF;
+
+  UPDATE email_intent_actions
+  SET status = 'rejected',
+      decided_by = auth.uid(),
+      decided_at = now(),
+      decision_note = NULLIF(trim(COALESCE(p_note, '')), '')
+  WHERE id = p_action_id
+    AND status = 'pending'
+  RETURNING * INTO v_action;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Only pending actions can be rejected';
+  END IF;
+
+  UPDATE email_analysis
+  SET action_taken = 'none',
+      processed_by_admin = auth.uid()
+  WHERE inbound_email_id = v_action.inbound_email_id;
+
+  RETURN v_action;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION undo_email_intent_action(p_action_id uuid, p_note text DEFAULT NULL)
+RETURNS email_intent_actions
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_action email_intent_actions;
+BEGIN
+  IF NOT has_permission('email_intent_review', 'edit') THEN
+    RAISE EXCEPTION 'You do not have permission to undo email actions';
+  END IF;
+
+  SELECT * INTO v_action
+  FROM email_intent_actions
+  WHERE id = p_action_id
+  FOR UPDATE;
+
+  IF NOT FOUND OR v_action.status <> 'applied' THEN
+    RAISE EXCEPTION 'Only applied actions can be undone';
+  END IF;
+
+  -- Restore only the columns this action changed
+  UPDATE customers
+  SET is_active = CASE WHEN v_action.applied_changes ? 'is_active'
+        THEN (v_action.previous_values->>'is_active')::boolean ELSE is_active END,
+      postpone_until = CASE WHEN v_action.applied_changes ? 'postpone_until'
+        THEN (v_action.previous_values->>'postpone_until')::timestamptz ELSE postpone_until END,
+      postpone_reason = CASE WHEN v_action.applied_changes ? 'postpone_reason'
+        THEN v_action.previous_values->>'postpone_reason' ELSE postpone_reason END
+  WHERE id = v_action.customer_id;
+
+  UPDATE email_intent_actions
+  SET status = 'undone',
+      undone_by = auth.uid(),
+      undone_at = now(),
+      undo_note = NULLIF(trim(COALESCE(p_note, '')), '')
+  WHERE id = p_action_id
+  RETURNING * INTO v_action;
+
+  UPDATE email_analysis
+  SET action_taken = 'manual_override',
+      processed_by_admin = auth.uid()
+  WHERE inbound_email_id = v_action.inbound_email_id;
+
+  RETURN v_action;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION apply_email_intent_action(uuid, jsonb, uuid, text) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION apply_email_intent_action(uuid, jsonb, uuid, text) TO service_role;
+
+REVOKE ALL ON FUNCTION approve_email_intent_action(uuid, jsonb, text) FROM PUBLIC, anon;
+REVOKE ALL ON FUNCTION reject_email_intent_action(uuid, text) FROM PUBLIC, anon;
+REVOKE ALL ON FUNCTION undo_email_intent_action(uuid, text) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION approve_email_intent_action(uuid, jsonb, text) TO authenticated;
+GRANT EXECUTE ON FUNCTION reject_email_intent_action(uuid, text) TO authenticated;
+GRANT EXECUTE ON FUNCTION undo_email_intent_action(uuid, text) TO authenticated;
@@ -0,0 +1,498 @@
+/*
+  # Attachment Content Extraction
+
+  ## Summary
+  Inbound attachments were stored in `customer-files` and cross-posted to
+  `customer_monthly_files`, but nothing read them: any attachment at all
+  set `customers.responded_this_month`, which stops the reminder schedule,
+  even when the file was last month's census or an unrelated remittance.
+  Every stored file is now queued for extraction. The
+  `extract-attachment-data` edge function reads PDFs (text layer, or page
+  images for scans), spreadsheets and images, classifies the document and
+  records structured fields:
+  - remittance advices: payer, payment date / check number, total and one
+    line per invoice paid, linked to `acumatica_invoices`
+  - monthly census sheets: facility, month, year and patient counts
+
+  A census whose month and year equal the month the file was filed under
+  completes that month's tracking record and sets
+  `customers.responded_this_month`. Anything else - other documents, a
+  census for a different month, low confidence - leaves the month open for
+  a person to resolve.
+
+  ## New Tables
+  - `attachment_extractions`: one row per stored file (`storage_path`),
+    with the source rows, the month requested, `status` pending |
+    processing | completed | failed | unsupported, `document_type`
+    remittance_advice | census | other, confidence, `extracted_data`,
+    document month / year and `month_matches`
+  - `attachment_remittance_lines`: invoice reference and amount per
+    remittance line, with the matched invoice and `match_status` matched |
+    other_customer | not_found
+
+  ## Modified Tables
+  - `customer_monthly_tracking.status` accepts `completed`; new
+    `completed_at` and `completed_by_extraction_id`
+  - `email_analysis.action_taken` accepts `queued_for_extraction`, which
+    `email-receiver` records for mail with attachments until a matching
+    census turns it into `marked_responded`
+
+  ## New Functions
+  - `queue_attachment_extraction()` - triggers on `customer_files` and
+    `customer_monthly_files` INSERT
+  - `record_attachment_extraction(extraction_id, document_type, confidence,
+    data, document_month, document_year, lines)` - service role; stores a
+    result, links remittance lines and completes the month on a match
+  - `requeue_attachment_extraction(extraction_id)` - re-run from the UI
+  - `trigger_attachment_extraction()` - cron dispatch every 10 minutes
+
+  ## Security
+  - RLS enabled; readable with the `customers_files` view permission,
+    limited to the user's organization when the customer is known
+  - Results are written only by the service role; re-runs need
+    `customers_files` create
+*/
+
+-- =========================================================================
+-- 1. Status values
+-- =========================================================================
+ALTER TABLE customer_monthly_tracking
+  DROP CONSTRAINT IF EXISTS customer_monthly_tracking_status_check;
+
+ALTER TABLE customer_monthly_tracking
+  ADD CONSTRAINT customer_monthly_tracking_status_check
+  CHECK (status IN ('pending', 'active', 'sent', 'responded', 'completed', 'postponed', 'inactive', 'no_response'));
+
+ALTER TABLE customer_monthly_tracking
+  ADD COLUMN IF NOT EXISTS completed_at timestamptz,
+  ADD COLUMN IF NOT EXISTS completed_by_extraction_id uuid;
+
+ALTER TABLE email_analysis DROP CONSTRAINT IF EXISTS email_analysis_action_taken_check;
+ALTER TABLE email_analysis ADD CONSTRAINT email_analysis_action_taken_check
+  CHECK (action_taken IN (
+    'marked_responded',
+    'paused_emails',
+    'postponed_emails',
+    'deactivated_customer',
+    'queued_for_review',
+    'queued_for_extraction',
+    'none',
+    'manual_override'
+  ));
+
+-- =========================================================================
+-- 2. Tables
+-- =========================================================================
+CREATE TABLE IF NOT EXISTS attachment_extractions (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  storage_path text NOT NULL UNIQUE,
+  filename text NOT NULL,
+  mime_type text,
+  customer_file_id uuid REFERENCES customer_files(id) ON DELETE CASCADE,
+  monthly_file_id uuid REFERENCES customer_monthly_files(id) ON DELETE CASCADE,
+  inbound_email_id uuid REFERENCES inbound_emails(id) ON DELETE SET NULL,
+  acumatica_customer_id text,
+  organization_id uuid REFERENCES organizations(id) ON DELETE CASCADE,
+  requested_month integer NOT NULL CHECK (requested_month BETWEEN 1 AND 12),
+  requested_year integer NOT NULL,
+  status text NOT NULL DEFAULT 'pending'
+    CHECK (status IN ('pending', 'processing', 'completed', 'failed', 'unsupported')),
+  attempts integer NOT NULL DEFAULT 0,
+  document_type text CHECK (document_type IN ('remittance_advice', 'census', 'other')),
+  confidence numeric(3, 2),
+  extracted_data jsonb NOT NULL DEFAULT '{}'::jsonb,
+  document_month integer CHECK (document_month BETWEEN 1 AND 12),
+  document_year integer,
+  month_matches boolean,
+  completed_tracking boolean NOT NULL DEFAULT false,
+  error text,
+  extracted_at timestamptz,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_attachment_extractions_status
+  ON attachment_extractions(status, created_at);
+CREATE INDEX IF NOT EXISTS idx_attachment_extractions_customer_file
+  ON attachment_extractions(customer_file_id);
+CREATE INDEX IF NOT EXISTS idx_attachment_extractions_monthly_file
+  ON attachment_extractions(monthly_file_id);
+CREATE INDEX IF NOT EXISTS idx_attachment_extractions_email
+  ON attachment_extractions(inbound_email_id);
+
+CREATE TABLE IF NOT EXISTS attachment_remittance_lines (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  extraction_id uuid NOT NULL REFERENCES attachment_extractions(id) ON DELETE CASCADE,
+  line_number integer NOT NULL,
+  invoice_reference text NOT NULL,
+  amount_paid numeric(18, 2),
+  invoice_id uuid REFERENCES acumatica_invoices(id) ON DELETE SET NULL,
+  invoice_customer text,
+  invoice_balance numeric(18, 2),
+  match_status text NOT NULL DEFAULT 'not_found'
+    CHECK (match_status IN ('matched', 'other_customer', 'not_found')),
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_attachment_remittance_lines_extraction
+  ON attachment_remittance_lines(extraction_id, line_number);
+CREATE INDEX IF NOT EXISTS idx_attachment_remittance_lines_invoice
+  ON attachment_remittance_lines(invoice_id);
+
+DROP TRIGGER IF EXISTS trg_attachment_extractions_updated ON attachment_extractions;
+CREATE TRIGGER trg_attachment_extractions_updated
+  BEFORE UPDATE ON attachment_extractions
+  FOR EACH ROW
+  EXECUTE FUNCTION update_customer_monthly_tracking_timestamp();
+
+ALTER TABLE attachment_extractions ENABLE ROW LEVEL SECURITY;
+ALTER TABLE attachment_remittance_lines ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users with file access can view attachment extractions"
+  ON attachment_extractions FOR SELECT
+  TO authenticated
+  USING (
+    (SELECT has_permission('customers_files', 'view'))
+    AND (organization_id IS NULL OR organization_id = (SELECT get_user_org_id()))
+  );
+
+CREATE POLICY "Users with file access can view remittance lines"
+  ON attachment_remittance_lines FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM attachment_extractions e
+      WHERE e.id = attachment_remittance_lines.extraction_id
+    )
+  );
+
+-- =========================================================================
+-- 3. Queue every stored file
+-- =========================================================================
+-- Email attachments arrive twice (customer_files, then the cross-posted
+-- monthly row with the same storage path); both land on one extraction.
+CREATE OR REPLACE FUNCTION queue_attachment_extraction()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_acumatica_customer_id text;
+  v_customer_email text;
+  v_org_id uuid;
+  v_customer_file_id uuid;
+  v_monthly_file_id uuid;
+BEGIN
+  IF TG_TABLE_NAME = 'customer_files' THEN
+    v_customer_file_id := NEW.id;
+
+    SELECT c.email INTO v_customer_email
+    FROM customers c
+    WHERE c.id = NEW.customer_id;
+
+    IF v_customer_email IS NOT NULL THEN
+      SELECT ac.customer_id, ac.organization_id
+      INTO v_acumatica_customer_id, v_org_id
+      FROM acumatica_customers ac
+      WHERE LOWER(ac.email_address) = LOWER(v_customer_email)
+         OR LOWER(ac.general_email) = LOWER(v_customer_email)
+         OR LOWER(ac.billing_email) = LOWER(v_customer_email)
+      LIMIT 1;
+    END IF;
+  ELSE
+    v_monthly_file_id := NEW.id;
+    v_acumatica_customer_id := NEW.acumatica_customer_id;
+
+    SELECT ac.organization_id INTO v_org_id
+    FROM acumatica_customers ac
+    WHERE ac.customer_id = NEW.acumatica_customer_id
+    LIMIT 1;
+  END IF;
+
+  INSERT INTO attachment_extractions (
+    storage_path, filename, mime_type,
+    customer_file_id, monthly_file_id, inbound_email_id,
+    acumatica_customer_id, organization_id,
+    requested_month, requested_year
+  ) VALUES (
+    NEW.storage_path, NEW.filename, NEW.mime_type,
+    v_customer_file_id, v_monthly_file_id, NEW.inbound_email_id,
+    v_acumatica_customer_id, v_org_id,
+    NEW.month, NEW.year
+  )
+  ON CONFLICT (storage_path) DO UPDATE SET
+    customer_file_id = COALESCE(attachment_extractions.customer_file_id, EXCLUDED.customer_file_id),
+    monthly_file_id = COALESCE(attachment_extractions.monthly_file_id, EXCLUDED.monthly_file_id),
+    acumatica_customer_id = COALESCE(attachment_extractions.acumatica_customer_id, EXCLUDED.acumatica_customer_id),
+    organization_id = COALESCE(attachment_extractions.organization_id, EXCLUDED.organization_id);
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trg_queue_attachment_extraction ON customer_files;
+CREATE TRIGGER trg_queue_attachment_extraction
+  AFTER INSERT ON customer_files
+  FOR EACH ROW
+  EXECUTE FUNCTION queue_attachment_extraction();
+
+DROP TRIGGER IF EXISTS trg_queue_attachment_extraction ON customer_monthly_files;
+CREATE TRIGGER trg_queue_attachment_extraction
+  AFTER INSERT ON customer_monthly_files
+  FOR EACH ROW
+  EXECUTE FUNCTION queue_attachment_extraction();
+
+-- =========================================================================
+-- 4. Record results
+-- =========================================================================
+CREATE OR REPLACE FUNCTION record_attachment_extraction(
+  p_extraction_id uuid,
+  p_document_type text,
+  p_confidence numeric,
+  p_data jsonb,
+  p_document_month integer,
+  p_document_year integer,
+  p_lines jsonb
+)
+RETURNS attachment_extractions
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  -- Below this the model is guessing; the month stays open for a person
+  c_min_completion_confidence CONSTANT numeric := 0.7;
+  v_extraction attachment_extractions;
+  v_line jsonb;
+  v_line_number integer := 0;
+  v_ref text;
+  v_invoice record;
+  v_matches boolean;
+  v_completed boolean := false;
+  v_legacy_customer_id uuid;
+BEGIN
+  SELECT * INTO v_extraction
+  FROM attachment_extractions
+  WHERE id = p_extraction_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Extraction not found';
+  END IF;
+
+  DELETE FROM attachment_remittance_lines WHERE extraction_id = p_extraction_id;
+
+  IF p_document_type = 'remittance_advice' THEN
+    FOR v_line IN SELECT * FROM jsonb_array_elements(COALESCE(p_lines, '[]'::jsonb))
+    LOOP
+      v_ref := NULLIF(upper(trim(v_line->>'invoice_reference')), '');
+      CONTINUE WHEN v_ref IS NULL;
+      v_line_number := v_line_number + 1;
+
+      -- Remittances often drop the leading zeros of the reference
+      SELECT i.id, i.customer, i.balance INTO v_invoice
+      FROM acumatica_invoices i
+      WHERE (v_extraction.organization_id IS NULL OR i.organization_id = v_extraction.organization_id)
+        AND (i.reference_number = v_ref OR ltrim(i.reference_number, '0') = ltrim(v_ref, '0'))
+      ORDER BY (i.customer = v_extraction.acumatica_customer_id) DESC NULLS LAST, (i.reference_number = v_ref) DESC
+      LIMIT 1;
+
+      INSERT INTO attachment_remittance_lines (
+        extraction_id, line_number, invoice_reference, amount_paid,
+        invoice_id, invoice_customer, invoice_balance, match_status
+      ) VALUES (
+        p_extraction_id, v_line_number, v_ref,
+        NULLIF(v_line->>'amount_paid', '')::numeric,
+        v_invoice.id, v_invoice.customer, v_invoice.balance,
+        CASE
+          WHEN v_invoice.id IS NULL THEN 'not_found'
+          WHEN v_extraction.acumatica_customer_id IS NOT NULL
+            AND v_invoice.customer IS DISTINCT FROM v_extraction.acumatica_customer_id THEN 'other_customer'
+          ELSE 'matched'
+        END
+      );
+    END LOOP;
+  END IF;
+
+  v_matches := CASE
+    WHEN p_document_month IS NULL OR p_document_year IS NULL THEN NULL
+    ELSE p_document_month = v_extraction.requested_month
+      AND p_document_year = v_extraction.requested_year
+  END;
+
+  IF p_document_type = 'census'
+    AND v_matches IS TRUE
+    AND COALESCE(p_confidence, 0) >= c_min_completion_confidence
+  THEN
+    IF v_extraction.acumatica_customer_id IS NOT NULL THEN
+      INSERT INTO customer_monthly_tracking (
+        acumatica_customer_id, month, year, status,
+        completed_at, completed_by_extraction_id
+      ) VALUES (
+        v_extraction.acumatica_customer_id, v_extraction.requested_month, v_extraction.requested_year,
+        'completed', now(), p_extraction_id
+      )
+      ON CONFLICT (acumatica_customer_id, month, year)
+      DO UPDATE SET
+        status = CASE
+          WHEN customer_monthly_tracking.status = 'inactive' THEN customer_monthly_tracking.status
+          ELSE 'completed'
+        END,
+        completed_at = COALESCE(customer_monthly_tracking.completed_at, now()),
+        completed_by_extraction_id = COALESCE(customer_monthly_tracking.completed_by_extraction_id, p_extraction_id);
+      v_completed := true;
+    END IF;
+
+    -- The reminder schedule reads the legacy flag, which only covers this month
+    IF v_extraction.requested_month = EXTRACT(MONTH FROM now())
+      AND v_extraction.requested_year = EXTRACT(YEAR FROM now())
+    THEN
+      SELECT cf.customer_id INTO v_legacy_customer_id
+      FROM customer_files cf
+      WHERE cf.id = v_extraction.customer_file_id;
+
+      IF v_legacy_customer_id IS NOT NULL THEN
+        UPDATE customers SET responded_this_month = true WHERE id = v_legacy_customer_id;
+        v_completed := true;
+
+        UPDATE email_analysis
+        SET action_taken = 'marked_responded'
+        WHERE inbound_email_id = v_extraction.inbound_email_id
+          AND action_taken = 'queued_for_extraction';
+      END IF;
+    END IF;
+  END IF;
+
+  UPDATE attachment_extractions
+  SET status = 'completed',
+      document_type = p_document_type,
+      confidence = p_confidence,
+      extracted_data = COALESCE(p_data, '{}'::jsonb),
+      document_month = p_document_month,
+      document_year = p_document_year,
+      month_matches = v_matches,
+      completed_tracking = v_completed,
+      error = NULL,
+      extracted_at = now()
+  WHERE id = p_extraction_id
+  RETURNING * INTO v_extraction;
+
+  RETURN v_extraction;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION requeue_attachment_extraction(p_extraction_id uuid)
+RETURNS attachment_extractions
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_extraction attachment_extractions;
+BEGIN
+  IF NOT has_permission('customers_files', 'create') THEN
+    RAISE EXCEPTION 'You do not have permission to re-run extractions';
+  END IF;
+
+  UPDATE attachment_extractions
+  SET status = 'pending',
+      attempts = 0,
+      error = NULL
+  WHERE id = p_extraction_id
+    AND status <> 'processing'
+    AND (organization_id IS NULL OR organization_id = get_user_org_id())
+  RETURNING * INTO v_extraction;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Extraction not found or already running';
+  END IF;
+
+  RETURN v_extraction;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION queue_attachment_extraction() FROM PUBLIC, anon, authenticated;
+
+REVOKE ALL ON FUNCTION record_attachment_extraction(uuid, text, numeric, jsonb, integer, integer, jsonb) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION record_attachment_extraction(uuid, text, numeric, jsonb, integer, integer, jsonb) TO service_role;
+
+REVOKE ALL ON FUNCTION requeue_attachment_extraction(uuid) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION requeue_attachment_extraction(uuid) TO authenticated;
+
+-- =========================================================================
+-- 5. Backlog: files from the last two months
+-- =========================================================================
+INSERT INTO attachment_extractions (
+  storage_path, filename, mime_type, monthly_file_id, inbound_email_id,
+  acumatica_customer_id, organization_id, requested_month, requested_year
+)
+SELECT DISTINCT ON (f.storage_path)
+  f.storage_path, f.filename, f.mime_type, f.id, f.inbound_email_id,
+  f.acumatica_customer_id, ac.organization_id, f.month, f.year
+FROM customer_monthly_files f
+LEFT JOIN acumatica_customers ac ON ac.customer_id = f.acumatica_customer_id
+WHERE f.created_at >= date_trunc('month', now()) - interval '1 month'
+ORDER BY f.storage_path, f.created_at
+ON CONFLICT (storage_path) DO NOTHING;
+
+-- =========================================================================
+-- 6. Cron dispatch
+-- =========================================================================
+CREATE OR REPLACE FUNCTION trigger_attachment_extraction()
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $func$
+DECLARE
+  v_supabase_url text;
+  v_anon_key text;
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM attachment_extractions WHERE status = 'pending') THEN
+    RETURN;
+  END IF;
+
+  SELECT supabase_url, supabase_anon_key
+  INTO v_supabase_url, v_anon_key
+  FROM acumatica_sync_credentials
+  WHERE is_active = true
+    AND supabase_url IS NOT NULL
+    AND supabase_anon_key IS NOT NULL
+  ORDER BY created_at DESC
+  LIMIT 1;
+
+  IF v_supabase_url IS NULL OR v_anon_key IS NULL THEN
+    RAISE NOTICE 'No credentials found for extract-attachment-data';
+    RETURN;
+  END IF;
+
+  PERFORM net.http_post(
+    url := v_supabase_url || '/functions/v1/extract-attachment-data',
+    headers := jsonb_build_object(
+      'Content-Type', 'application/json',
+      'Authorization', 'Bearer ' || v_anon_key,
+      'apikey', v_anon_key
+    ),
+    body := '{}'::jsonb
+  );
+EXCEPTION
+  WHEN OTHERS THEN
+    RAISE NOTICE 'Attachment extraction dispatch failed: %', SQLERRM;
+END;
+$func$;
+
+REVOKE ALL ON FUNCTION trigger_attachment_extraction() FROM PUBLIC, anon, authenticated;
+
+DO $$
+BEGIN
+  IF EXISTS (SELECT 1 FROM cron.job WHERE jobname = 'extract-attachment-data') THEN
+    PERFORM cron.unschedule('extract-attachment-data');
+  END IF;
+END $$;
+
+SELECT cron.schedule(
+  'extract-attachment-data',
+  '*/10 * * * *',
+  'SELECT trigger_attachment_extraction();'
+);
@@ -0,0 +1,203 @@
+/*
+  # Server-Side PDF Rendering and Customer Document Archive
+
+  ## Summary
+  Statement PDFs were drawn on a browser canvas (a PNG named .pdf) and
+  only by the Customer Reports page, so statements sent from elsewhere
+  could not carry a real PDF. PDFs are now rendered by the
+  `render-customer-pdf` edge function (and by `send-customer-invoice-email`
+  through the same shared renderer) from editable, branded templates:
+  logo, company and remit-to addresses, aging summary, invoice table and a
+  detachable payment coupon. Every PDF that is emailed or downloaded is
+  stored and recorded against the customer.
+
+  ## New Tables
+  - `pdf_templates`: branded layouts per organization (`document_type`
+    statement | invoice, logo in storage, company / remit-to blocks,
+    accent color, notes, which sections to show, one default per type)
+  - `customer_documents`: archive of every rendered PDF (customer,
+    document type, template, storage path, balance and invoice count at
+    render time, `source` email | download, the email log it was sent
+    with, who generated it)
+
+  ## Modified Tables
+  - `customer_report_templates.pdf_template_id`: layout used when the
+    report template attaches a PDF (default statement layout when empty)
+
+  ## Storage
+  - Private `customer-documents` bucket; objects live under the
+    organization id. Archived PDFs are written by the service role; logos
+    are uploaded under `<org>/branding/`
+
+  ## Security
+  - RLS enabled; org members with the `statements` permission read
+    templates and archived documents, and need `statements` edit to change
+    templates. Managers are granted `statements` edit alongside admins
+*/
+
+-- =========================================================================
+-- 1. Tables
+-- =========================================================================
+CREATE TABLE IF NOT EXISTS pdf_templates (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  organization_id uuid NOT NULL DEFAULT get_user_org_id() REFERENCES organizations(id) ON DELETE CASCADE,
+  name text NOT NULL,
+  document_type text NOT NULL DEFAULT 'statement' CHECK (document_type IN ('statement', 'invoice')),
+  is_default boolean NOT NULL DEFAULT false,
+  logo_path text,
+  company_name text NOT NULL DEFAULT '',
+  company_address text NOT NULL DEFAULT '',
+  company_phone text,
+  company_email text,
+  remit_to_name text NOT NULL DEFAULT '',
+  remit_to_address text NOT NULL DEFAULT '',
+  accent_color text NOT NULL DEFAULT '#1e3a8a' CHECK (accent_color ~ '^#[0-9a-fA-F]{6}$'),
+  header_note text,
+  footer_note text,
+  show_aging_summary boolean NOT NULL DEFAULT true,
+  show_invoice_table boolean NOT NULL DEFAULT true,
+  show_payment_coupon boolean NOT NULL DEFAULT true,
+  created_by uuid REFERENCES auth.users(id) ON DELETE SET NULL,
+  updated_by uuid REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_pdf_templates_one_default
+  ON pdf_templates(organization_id, document_type)
+  WHERE is_default;
+
+CREATE TABLE IF NOT EXISTS customer_documents (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  organization_id uuid NOT NULL REFERENCES organizations(id) ON DELETE CASCADE,
+  customer_id text NOT NULL,
+  document_type text NOT NULL CHECK (document_type IN ('statement', 'invoice')),
+  invoice_reference_number text,
+  pdf_template_id uuid REFERENCES pdf_templates(id) ON DELETE SET NULL,
+  storage_path text NOT NULL UNIQUE,
+  filename text NOT NULL,
+  file_size bigint NOT NULL DEFAULT 0,
+  total_balance numeric(18, 2),
+  invoice_count integer,
+  source text NOT NULL CHECK (source IN ('email', 'download')),
+  customer_email_log_id uuid REFERENCES customer_email_logs(id) ON DELETE SET NULL,
+  generated_by uuid REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_customer_documents_customer
+  ON customer_documents(organization_id, customer_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_customer_documents_email_log
+  ON customer_documents(customer_email_log_id);
+
+ALTER TABLE customer_report_templates
+  ADD COLUMN IF NOT EXISTS pdf_template_id uuid REFERENCES pdf_templates(id) ON DELETE SET NULL;
+
+DROP TRIGGER IF EXISTS trg_pdf_templates_updated ON pdf_templates;
+CREATE TRIGGER trg_pdf_templates_updated
+  BEFORE UPDATE ON pdf_templates
+  FOR EACH ROW
+  EXECUTE FUNCTION update_customer_monthly_tracking_timestamp();
+
+ALTER TABLE pdf_templates ENABLE ROW LEVEL SECURITY;
+ALTER TABLE customer_documents ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Org members with statements access can view PDF templates"
+  ON pdf_templates FOR SELECT
+  TO authenticated
+  USING (organization_id = (SELECT get_user_org_id()) AND (SELECT has_permission('statements', 'view')));
+
+CREATE POLICY "Org members with statements edit can create PDF templates"
+  ON pdf_templates FOR INSERT
+  TO authenticated
+  WITH CHECK (organization_id = (SELECT get_user_org_id()) AND (SELECT has_permission('statements', 'edit')));
+
+CREATE POLICY "Org members with statements edit can update PDF templates"
+  ON pdf_templates FOR UPDATE
+  TO authenticated
+  USING (organization_id = (SELECT get_user_org_id()) AND (SELECT has_permission('statements', 'edit')))
+  WITH CHECK (organization_id = (SELECT get_user_org_id()) AND (SELECT has_permission('statements', 'edit')));
+
+CREATE POLICY "Org members with statements edit can delete PDF templates"
+  ON pdf_templates FOR DELETE
+  TO authenticated
+  USING (organization_id = (SELECT get_user_org_id()) AND (SELECT has_permission('statements', 'edit')));
+
+CREATE POLICY "Org members with statements access can view customer documents"
+  ON customer_documents FOR SELECT
+  TO authenticated
+  USING (organization_id = (SELECT get_user_org_id()) AND (SELECT has_permission('statements', 'view')));
+
+UPDATE system_permissions
+SET description = 'View customer statements; create sends them by email; edit changes PDF templates'
+WHERE permission_key = 'statements';
+
+UPDATE role_permissions
+SET can_edit = true
+WHERE role = 'manager' AND permission_key = 'statements';
+
+-- =========================================================================
+-- 2. Default statement layout per organization
+-- =========================================================================
+INSERT INTO pdf_templates (
+  organization_id, name, document_type, is_default,
+  company_name, remit_to_name, footer_note
+)
+SELECT o.id, 'Standard Statement', 'statement', true,
+  o.name, o.name, 'Thank you for your business.'
+FROM organizations o
+WHERE NOT EXISTS (
+  SELECT 1 FROM pdf_templates t
+  WHERE t.organization_id = o.id AND t.document_type = 'statement'
+);
+
+INSERT INTO pdf_templates (
+  organization_id, name, document_type, is_default,
+  company_name, remit_to_name, footer_note, show_aging_summary
+)
+SELECT o.id, 'Standard Invoice', 'invoice', true,
+  o.name, o.name, 'Thank you for your business.', false
+FROM organizations o
+WHERE NOT EXISTS (
+  SELECT 1 FROM pdf_templates t
+  WHERE t.organization_id = o.id AND t.document_type = 'invoice'
+);
+
+-- =========================================================================
+-- 3. Storage
+-- =========================================================================
+INSERT INTO storage.buckets (id, name, public)
+VALUES ('customer-documents', 'customer-documents', false)
+ON CONFLICT (id) DO NOTHING;
+
+DROP POLICY IF EXISTS "Org members can view customer documents" ON storage.objects;
+CREATE POLICY "Org members can view customer documents"
+  ON storage.objects FOR SELECT
+  TO authenticated
+  USING (
+    bucket_id = 'customer-documents'
+    AND (storage.foldername(name))[1] = get_user_org_id()::text
+    AND has_permission('statements', 'view')
+  );
+
+DROP POLICY IF EXISTS "Statement editors can upload PDF logos" ON storage.objects;
+CREATE POLICY "Statement editors can upload PDF logos"
+  ON storage.objects FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    bucket_id = 'customer-documents'
+    AND (storage.foldername(name))[1] = get_user_org_id()::text
+    AND (storage.foldername(name))[2] = 'branding'
+    AND has_permission('statements', 'edit')
+  );
+
+DROP POLICY IF EXISTS "Statement editors can delete PDF logos" ON storage.objects;
+CREATE POLICY "Statement editors can delete PDF logos"
+  ON storage.objects FOR DELETE
+  TO authenticated
+  USING (
+    bucket_id = 'customer-documents'
+    AND (storage.foldername(name))[1] = get_user_org_id()::text
+    AND (storage.foldername(name))[2] = 'branding'
+    AND has_permission('statements', 'edit')
+  );
@@ -0,0 +1,524 @@
+/*
+  # Scheduled Statement Runs and Delivery Preferences
+
+  ## Summary
+  Statements were only sent on demand from the Statements page, one
+  selection at a time, always to the customer's single email address with
+  an Excel attachment. Statement cycles now send them on a schedule (e.g.
+  monthly on the 1st to every customer with a balance, weekly to accounts
+  more than 90 days past due) using a report template's subject and body.
+  Each customer can have delivery preferences: who receives statements,
+  Excel / PDF / both, whether the assigned collector is copied, or an
+  opt-out. Every run keeps a per-customer outcome (sent, failed, skipped
+  and why) and any customer in a run can be sent again.
+
+  ## New Tables
+  - `statement_delivery_preferences`: per customer recipients (empty =
+    the customer's email address on file), `format` excel | pdf | both,
+    `cc_collector`, `opted_out` with a reason
+  - `statement_cycles`: schedule (`frequency` monthly | weekly, day of
+    month / week, hour in UTC), report template, which customers qualify
+    (`min_balance`, `min_days_overdue`), portal link base and
+    `next_run_at`
+  - `statement_runs`: one row per run of a cycle (`trigger` schedule |
+    manual) with sent / failed / skipped counts and `status` running |
+    completed
+  - `statement_run_items`: one row per qualifying customer with the
+    recipients, format, balance at run time, `status` pending | sending |
+    sent | failed | skipped, skip reason or error and the email log
+
+  ## New Functions
+  - `statement_cycle_next_run(...)` - next scheduled time after a moment
+  - `resolve_statement_delivery(org, customer)` - recipients, cc, format
+    and skip reason from the preferences
+  - `start_statement_run(cycle_id, trigger, started_by)` - service role;
+    creates the run and its items and advances the schedule
+  - `requeue_statement_run_items(item_ids)` - service role; resend with
+    the customer's current preferences
+  - `refresh_statement_run(run_id)` - service role; recounts outcomes
+  - `trigger_statement_runs()` - cron dispatch every 5 minutes
+
+  ## Security
+  - RLS enabled; org members with `statements` view read everything,
+    `statements` create edits delivery preferences and `statements` edit
+    manages cycles. Runs and items are written only by the service role
+*/
+
+-- =========================================================================
+-- 1. Tables
+-- =========================================================================
+CREATE TABLE IF NOT EXISTS statement_delivery_preferences (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  organization_id uuid NOT NULL DEFAULT get_user_org_id() REFERENCES organizations(id) ON DELETE CASCADE,
+  customer_id text NOT NULL,
+  recipients text[] NOT NULL DEFAULT '{}',
+  format text NOT NULL DEFAULT 'excel' CHECK (format IN ('excel', 'pdf', 'both')),
+  cc_collector boolean NOT NULL DEFAULT false,
+  opted_out boolean NOT NULL DEFAULT false,
+  opt_out_reason text,
+  updated_by uuid REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now(),
+  UNIQUE (organization_id, customer_id)
+);
+
+CREATE TABLE IF NOT EXISTS statement_cycles (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  organization_id uuid NOT NULL DEFAULT get_user_org_id() REFERENCES organizations(id) ON DELETE CASCADE,
+  name text NOT NULL,
+  is_active boolean NOT NULL DEFAULT true,
+  frequency text NOT NULL DEFAULT 'monthly' CHECK (frequency IN ('monthly', 'weekly')),
+  day_of_month integer NOT NULL DEFAULT 1 CHECK (day_of_month BETWEEN 1 AND 28),
+  day_of_week integer NOT NULL DEFAULT 1 CHECK (day_of_week BETWEEN 0 AND 6),
+  send_hour integer NOT NULL DEFAULT 13 CHECK (send_hour BETWEEN 0 AND 23),
+  template_id uuid NOT NULL REFERENCES customer_report_templates(id) ON DELETE RESTRICT,
+  min_balance numeric(18, 2) NOT NULL DEFAULT 0.01,
+  min_days_overdue integer NOT NULL DEFAULT 0 CHECK (min_days_overdue >= 0),
+  portal_base_url text,
+  next_run_at timestamptz,
+  last_run_at timestamptz,
+  created_by uuid REFERENCES auth.users(id) ON DELETE SET NULL,
+  updated_by uuid REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_statement_cycles_due
+  ON statement_cycles(next_run_at)
+  WHERE is_active;
+
+CREATE TABLE IF NOT EXISTS statement_runs (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  organization_id uuid NOT NULL REFERENCES organizations(id) ON DELETE CASCADE,
+  cycle_id uuid REFERENCES statement_cycles(id) ON DELETE SET NULL,
+  cycle_name text NOT NULL,
+  template_id uuid REFERENCES customer_report_templates(id) ON DELETE SET NULL,
+  portal_base_url text,
+  trigger text NOT NULL CHECK (trigger IN ('schedule', 'manual')),
+  status text NOT NULL DEFAULT 'running' CHECK (status IN ('running', 'completed')),
+  total_count integer NOT NULL DEFAULT 0,
+  sent_count integer NOT NULL DEFAULT 0,
+  failed_count integer NOT NULL DEFAULT 0,
+  skipped_count integer NOT NULL DEFAULT 0,
+  started_by uuid REFERENCES auth.users(id) ON DELETE SET NULL,
+  started_at timestamptz NOT NULL DEFAULT now(),
+  completed_at timestamptz
+);
+
+CREATE INDEX IF NOT EXISTS idx_statement_runs_org
+  ON statement_runs(organization_id, started_at DESC);
+
+CREATE TABLE IF NOT EXISTS statement_run_items (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  run_id uuid NOT NULL REFERENCES statement_runs(id) ON DELETE CASCADE,
+  organization_id uuid NOT NULL REFERENCES organizations(id) ON DELETE CASCADE,
+  customer_id text NOT NULL,
+  customer_name text NOT NULL,
+  recipients text[] NOT NULL DEFAULT '{}',
+  cc text[] NOT NULL DEFAULT '{}',
+  format text NOT NULL CHECK (format IN ('excel', 'pdf', 'both')),
+  balance numeric(18, 2) NOT NULL DEFAULT 0,
+  invoice_count integer NOT NULL DEFAULT 0,
+  max_days_overdue integer NOT NULL DEFAULT 0,
+  status text NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'sending', 'sent', 'failed', 'skipped')),
+  skip_reason text,
+  error text,
+  attempts integer NOT NULL DEFAULT 0,
+  customer_email_log_id uuid REFERENCES customer_email_logs(id) ON DELETE SET NULL,
+  sent_at timestamptz,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now(),
+  UNIQUE (run_id, customer_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_statement_run_items_pending
+  ON statement_run_items(created_at)
+  WHERE status IN ('pending', 'sending');
+CREATE INDEX IF NOT EXISTS idx_statement_run_items_customer
+  ON statement_run_items(organization_id, customer_id);
+
+DROP TRIGGER IF EXISTS trg_statement_delivery_preferences_updated ON statement_delivery_preferences;
+CREATE TRIGGER trg_statement_delivery_preferences_updated
+  BEFORE UPDATE ON statement_delivery_preferences
+  FOR EACH ROW
+  EXECUTE FUNCTION update_customer_monthly_tracking_timestamp();
+
+DROP TRIGGER IF EXISTS trg_statement_cycles_updated ON statement_cycles;
+CREATE TRIGGER trg_statement_cycles_updated
+  BEFORE UPDATE ON statement_cycles
+  FOR EACH ROW
+  EXECUTE FUNCTION update_customer_monthly_tracking_timestamp();
+
+DROP TRIGGER IF EXISTS trg_statement_run_items_updated ON statement_run_items;
+CREATE TRIGGER trg_statement_run_items_updated
+  BEFORE UPDATE ON statement_run_items
+  FOR EACH ROW
+  EXECUTE FUNCTION update_customer_monthly_tracking_timestamp();
+
+-- =========================================================================
+-- 2. Row level security
+-- =========================================================================
+ALTER TABLE statement_delivery_preferences ENABLE ROW LEVEL SECURITY;
+ALTER TABLE statement_cycles ENABLE ROW LEVEL SECURITY;
+ALTER TABLE statement_runs ENABLE ROW LEVEL SECURITY;
+ALTER TABLE statement_run_items ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Org members with statements access can view delivery preferences"
+  ON statement_delivery_preferences FOR SELECT
+  TO authenticated
+  USING (organization_id = (SELECT get_user_org_id()) AND (SELECT has_permission('statements', 'view')));
+
+CREATE POLICY "Statement senders can create delivery preferences"
+  ON statement_delivery_preferences FOR INSERT
+  TO authenticated
+  WITH CHECK (organization_id = (SELECT get_user_org_id()) AND (SELECT has_permission('statements', 'create')));
+
+CREATE POLICY "Statement senders can update delivery preferences"
+  ON statement_delivery_preferences FOR UPDATE
+  TO authenticated
+  USING (organization_id = (SELECT get_user_org_id()) AND (SELECT has_permission('statements', 'create')))
+  WITH CHECK (organization_id = (SELECT get_user_org_id()) AND (SELECT has_permission('statements', 'create')));
+
+CREATE POLICY "Org members with statements access can view statement cycles"
+  ON statement_cycles FOR SELECT
+  TO authenticated
+  USING (organization_id = (SELECT get_user_org_id()) AND (SELECT has_permission('statements', 'view')));
+
+CREATE POLICY "Org members with statements edit can create statement cycles"
+  ON statement_cycles FOR INSERT
+  TO authenticated
+  WITH CHECK (organization_id = (SELECT get_user_org_id()) AND (SELECT has_permission('statements', 'edit')));
+
+CREATE POLICY "Org members with statements edit can update statement cycles"
+  ON statement_cycles FOR UPDATE
+  TO authenticated
+  USING (organization_id = (SELECT get_user_org_id()) AND (SELECT has_permission('statements', 'edit')))
+  WITH CHECK (organization_id = (SELECT get_user_org_id()) AND (SELECT has_permission('statements', 'edit')));
+
+CREATE POLICY "Org members with statements edit can delete statement cycles"
+  ON statement_cycles FOR DELETE
+  TO authenticated
+  USING (organization_id = (SELECT get_user_org_id()) AND (SELECT has_permission('statements', 'edit')));
+
+CREATE POLICY "Org members with statements access can view statement runs"
+  ON statement_runs FOR SELECT
+  TO authenticated
+  USING (organization_id = (SELECT get_user_org_id()) AND (SELECT has_permission('statements', 'view')));
+
+CREATE POLICY "Org members with statements access can view statement run items"
+  ON statement_run_items FOR SELECT
+  TO authenticated
+  USING (organization_id = (SELECT get_user_org_id()) AND (SELECT has_permission('statements', 'view')));
+
+UPDATE system_permissions
+SET description = 'View customer statements; create sends them and sets delivery preferences; edit changes PDF templates and statement cycles'
+WHERE permission_key = 'statements';
+
+-- =========================================================================
+-- 3. Schedule
+-- =========================================================================
+CREATE OR REPLACE FUNCTION statement_cycle_next_run(
+  p_frequency text,
+  p_day_of_month integer,
+  p_day_of_week integer,
+  p_send_hour integer,
+  p_after timestamptz
+)
+RETURNS timestamptz
+LANGUAGE plpgsql
+STABLE
+SET search_path = public
+AS $$
+DECLARE
+  v_day date := (p_after AT TIME ZONE 'UTC')::date;
+  v_next timestamptz;
+BEGIN
+  IF p_frequency = 'weekly' THEN
+    v_next := (v_day::timestamp
+      + ((p_day_of_week - EXTRACT(DOW FROM v_day)::integer + 7) % 7) * interval '1 day'
+      + p_send_hour * interval '1 hour') AT TIME ZONE 'UTC';
+    IF v_next <= p_after THEN
+      v_next := v_next + interval '7 days';
+    END IF;
+  ELSE
+    v_next := (date_trunc('month', v_day::timestamp)
+      + (p_day_of_month - 1) * interval '1 day'
+      + p_send_hour * interval '1 hour') AT TIME ZONE 'UTC';
+    IF v_next <= p_after THEN
+      v_next := (date_trunc('month', v_day::timestamp) + interval '1 month'
+        + (p_day_of_month - 1) * interval '1 day'
+        + p_send_hour * interval '1 hour') AT TIME ZONE 'UTC';
+    END IF;
+  END IF;
+  RETURN v_next;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION set_statement_cycle_next_run()
+RETURNS trigger
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP = 'INSERT'
+    OR NEW.frequency IS DISTINCT FROM OLD.frequency
+    OR NEW.day_of_month IS DISTINCT FROM OLD.day_of_month
+    OR NEW.day_of_week IS DISTINCT FROM OLD.day_of_week
+    OR NEW.send_hour IS DISTINCT FROM OLD.send_hour
+    OR (NEW.is_active AND NOT OLD.is_active)
+  THEN
+    NEW.next_run_at := statement_cycle_next_run(NEW.frequency, NEW.day_of_month, NEW.day_of_week, NEW.send_hour, now());
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trg_statement_cycles_next_run ON statement_cycles;
+CREATE TRIGGER trg_statement_cycles_next_run
+  BEFORE INSERT OR UPDATE ON statement_cycles
+  FOR EACH ROW
+  EXECUTE FUNCTION set_statement_cycle_next_run();
+
+-- =========================================================================
+-- 4. Runs
+-- =========================================================================
+CREATE OR REPLACE FUNCTION resolve_statement_delivery(p_organization_id uuid, p_customer_id text)
+RETURNS TABLE (recipients text[], cc text[], format text, skip_reason text)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  WITH pref AS (
+    SELECT p.*
+    FROM statement_delivery_preferences p
+    WHERE p.organization_id = p_organization_id AND p.customer_id = p_customer_id
+  ),
+  resolved AS (
+    SELECT
+      CASE
+        WHEN cardinality((SELECT recipients FROM pref)) > 0 THEN (SELECT recipients FROM pref)
+        ELSE array_remove(ARRAY[COALESCE(NULLIF(c.email_address, ''), NULLIF(c.billing_email, ''), NULLIF(c.general_email, ''))], NULL)
+      END AS recipients,
+      CASE
+        WHEN COALESCE((SELECT cc_collector FROM pref), false) THEN ARRAY(
+          SELECT DISTINCT up.email
+          FROM collector_customer_assignments cca
+          JOIN user_profiles up ON up.id = cca.assigned_collector_id
+          WHERE cca.customer_id = p_customer_id AND NULLIF(up.email, '') IS NOT NULL
+        )
+        ELSE '{}'::text[]
+      END AS cc,
+      COALESCE((SELECT format FROM pref), 'excel') AS format,
+      COALESCE((SELECT opted_out FROM pref), false) AS opted_out,
+      (SELECT opt_out_reason FROM pref) AS opt_out_reason
+    FROM acumatica_customers c
+    WHERE c.organization_id = p_organization_id AND c.customer_id = p_customer_id
+  )
+  SELECT
+    r.recipients,
+    r.cc,
+    r.format,
+    CASE
+      WHEN r.opted_out THEN 'Opted out' || COALESCE(': ' || NULLIF(r.opt_out_reason, ''), '')
+      WHEN cardinality(r.recipients) = 0 THEN 'No email address'
+    END
+  FROM resolved r;
+$$;
+
+CREATE OR REPLACE FUNCTION refresh_statement_run(p_run_id uuid)
+RETURNS void
+LANGUAGE sql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  UPDATE statement_runs r
+  SET total_count = s.total,
+      sent_count = s.sent,
+      failed_count = s.failed,
+      skipped_count = s.skipped,
+      status = CASE WHEN s.open > 0 THEN 'running' ELSE 'completed' END,
+      completed_at = CASE WHEN s.open > 0 THEN NULL ELSE COALESCE(r.completed_at, now()) END
+  FROM (
+    SELECT
+      count(*) AS total,
+      count(*) FILTER (WHERE status = 'sent') AS sent,
+      count(*) FILTER (WHERE status = 'failed') AS failed,
+      count(*) FILTER (WHERE status = 'skipped') AS skipped,
+      count(*) FILTER (WHERE status IN ('pending', 'sending')) AS open
+    FROM statement_run_items
+    WHERE run_id = p_run_id
+  ) s
+  WHERE r.id = p_run_id;
+$$;
+
+CREATE OR REPLACE FUNCTION start_statement_run(p_cycle_id uuid, p_trigger text, p_started_by uuid DEFAULT NULL)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_cycle statement_cycles%ROWTYPE;
+  v_run_id uuid;
+BEGIN
+  SELECT * INTO v_cycle FROM statement_cycles WHERE id = p_cycle_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Statement cycle not found';
+  END IF;
+
+  INSERT INTO statement_runs (organization_id, cycle_id, cycle_name, template_id, portal_base_url, trigger, started_by)
+  VALUES (v_cycle.organization_id, v_cycle.id, v_cycle.name, v_cycle.template_id, v_cycle.portal_base_url, p_trigger,
+    COALESCE(p_started_by, v_cycle.created_by))
+  RETURNING id INTO v_run_id;
+
+  -- Same balance and aging rules as the Statements page
+  INSERT INTO statement_run_items (
+    run_id, organization_id, customer_id, customer_name, recipients, cc, format,
+    balance, invoice_count, max_days_overdue, status, skip_reason
+  )
+  SELECT
+    v_run_id, c.organization_id, c.customer_id, COALESCE(c.customer_name, c.customer_id),
+    d.recipients, d.cc, d.format,
+    agg.total_balance, agg.open_invoice_count, agg.max_days_overdue,
+    CASE WHEN d.skip_reason IS NULL THEN 'pending' ELSE 'skipped' END,
+    d.skip_reason
+  FROM acumatica_customers c
+  CROSS JOIN LATERAL (
+    SELECT
+      COALESCE(SUM(CASE WHEN i.type NOT IN ('Credit Memo', 'Credit WO') THEN i.balance ELSE 0 END), 0) AS total_balance,
+      COUNT(CASE WHEN i.type NOT IN ('Credit Memo', 'Credit WO') THEN 1 END)::integer AS open_invoice_count,
+      COALESCE(MAX(CASE WHEN i.type NOT IN ('Credit Memo', 'Credit WO')
+        THEN GREATEST(0, CURRENT_DATE - COALESCE(i.due_date::date, CURRENT_DATE)) ELSE 0 END), 0)::integer AS max_days_overdue
+    FROM acumatica_invoices i
+    WHERE i.customer = c.customer_id
+      AND i.organization_id = c.organization_id
+      AND i.balance > 0
+      AND i.status NOT IN ('Voided', 'On Hold', 'Draft')
+  ) agg
+  CROSS JOIN LATERAL resolve_statement_delivery(c.organization_id, c.customer_id) d
+  WHERE c.organization_id = v_cycle.organization_id
+    AND NOT COALESCE(c.is_test_customer, false)
+    AND agg.total_balance >= GREATEST(v_cycle.min_balance, 0.01)
+    AND agg.max_days_overdue >= v_cycle.min_days_overdue;
+
+  -- A manual run leaves the schedule where it was
+  UPDATE statement_cycles
+  SET last_run_at = now(),
+      next_run_at = CASE
+        WHEN p_trigger = 'schedule'
+          THEN statement_cycle_next_run(frequency, day_of_month, day_of_week, send_hour, now())
+        ELSE next_run_at
+      END
+  WHERE id = p_cycle_id;
+
+  PERFORM refresh_statement_run(v_run_id);
+  RETURN v_run_id;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION requeue_statement_run_items(p_item_ids uuid[])
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_count integer;
+  v_run_id uuid;
+BEGIN
+  -- Preferences may have changed since the run (e.g. an address was
+  -- added), so recipients and format are resolved again
+  UPDATE statement_run_items i
+  SET recipients = d.recipients,
+      cc = d.cc,
+      format = d.format,
+      status = CASE WHEN d.skip_reason IS NULL THEN 'pending' ELSE 'skipped' END,
+      skip_reason = d.skip_reason,
+      error = NULL
+  FROM statement_run_items src
+  CROSS JOIN LATERAL resolve_statement_delivery(src.organization_id, src.customer_id) d
+  WHERE i.id = src.id
+    AND src.id = ANY(p_item_ids)
+    AND src.status IN ('sent', 'failed', 'skipped');
+  GET DIAGNOSTICS v_count = ROW_COUNT;
+
+  FOR v_run_id IN SELECT DISTINCT run_id FROM statement_run_items WHERE id = ANY(p_item_ids) LOOP
+    PERFORM refresh_statement_run(v_run_id);
+  END LOOP;
+
+  RETURN v_count;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION resolve_statement_delivery(uuid, text) FROM PUBLIC, anon, authenticated;
+REVOKE ALL ON FUNCTION refresh_statement_run(uuid) FROM PUBLIC, anon, authenticated;
+REVOKE ALL ON FUNCTION start_statement_run(uuid, text, uuid) FROM PUBLIC, anon, authenticated;
+REVOKE ALL ON FUNCTION requeue_statement_run_items(uuid[]) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION resolve_statement_delivery(uuid, text) TO service_role;
+GRANT EXECUTE ON FUNCTION refresh_statement_run(uuid) TO service_role;
+GRANT EXECUTE ON FUNCTION start_statement_run(uuid, text, uuid) TO service_role;
+GRANT EXECUTE ON FUNCTION requeue_statement_run_items(uuid[]) TO service_role;
+
+-- =========================================================================
+-- 5. Cron dispatch
+-- =========================================================================
+CREATE OR REPLACE FUNCTION trigger_statement_runs()
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $func$
+DECLARE
+  v_supabase_url text;
+  v_anon_key text;
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM statement_cycles WHERE is_active AND next_run_at <= now())
+    AND NOT EXISTS (SELECT 1 FROM statement_run_items WHERE status IN ('pending', 'sending'))
+  THEN
+    RETURN;
+  END IF;
+
+  SELECT supabase_url, supabase_anon_key
+  INTO v_supabase_url, v_anon_key
+  FROM acumatica_sync_credentials
+  WHERE is_active = true
+    AND supabase_url IS NOT NULL
+    AND supabase_anon_key IS NOT NULL
+  ORDER BY created_at DESC
+  LIMIT 1;
+
+  IF v_supabase_url IS NULL OR v_anon_key IS NULL THEN
+    RAISE NOTICE 'No credentials found for process-statement-runs';
+    RETURN;
+  END IF;
+
+  PERFORM net.http_post(
+    url := v_supabase_url || '/functions/v1/process-statement-runs',
+    headers := jsonb_build_object(
+      'Content-Type', 'application/json',
+      'Authorization', 'Bearer ' || v_anon_key,
+      'apikey', v_anon_key
+    ),
+    body := '{}'::jsonb
+  );
+EXCEPTION
+  WHEN OTHERS THEN
+    RAISE NOTICE 'Statement run dispatch failed: %', SQLERRM;
+END;
+$func$;
+
+REVOKE ALL ON FUNCTION trigger_statement_runs() FROM PUBLIC, anon, authenticated;
+
+DO $$
+BEGIN
+  IF EXISTS (SELECT 1 FROM cron.job WHERE jobname = 'process-statement-runs') THEN
+    PERFORM cron.unschedule('process-statement-runs');
+  END IF;
+END $$;
+
+SELECT cron.schedule(
+  'process-statement-runs',
+  '*/5 * * * *',
+  'SELECT trigger_statement_runs();'
+);
@@ -0,0 +1,343 @@
+/*
+  # Customer Contacts
+
+  ## Summary
+  A customer had one usable email address (`email_address` /
+  `general_email` on `acumatica_customers`) and every outbound path sent to
+  it. Customers now have any number of contacts, each with roles (AP clerk,
+  billing, controller, owner, facility admin), phone numbers, a preferred
+  channel and a do-not-contact flag. Contacts are synced from Acumatica's
+  Contact entity (linked by business account) and collectors can add local
+  ones. Senders pick recipients by role, and inbound email is matched to
+  the contact who wrote it.
+
+  ## New Tables
+  - `customer_contacts`: organization, `customer_id`, `source` acumatica |
+    local, `acumatica_contact_id`, names, job title, `email` (lower case),
+    `phone`, `mobile_phone`, `roles` text[], `preferred_channel` email |
+    phone | sms, `is_primary`, `do_not_contact` with a reason, notes,
+    `is_active`. Name, title, email, phone and active come from Acumatica
+    for synced contacts; roles, channel, primary, do-not-contact and notes
+    are always ours
+
+  ## Modified Tables
+  - `inbound_emails.contact_id`, `ticket_email_threads.contact_id`: the
+    contact an inbound message was matched to
+  - `customer_assignments.recipient_roles`: scheduled emails also go to the
+    customer's contacts with these roles
+  - `sync_status`: new `contact` entity, run by the master sync after
+    customers
+
+  ## New Functions
+  - `customer_contact_emails(org, customer_id, roles)` - emails of active
+    contacts with any of the roles, excluding do-not-contact
+  - `resolve_contact_by_email(email)` - service role; the contact behind an
+    address
+  - `upsert_acumatica_contacts(contacts jsonb)` - service role; applies a
+    page of Acumatica contacts without touching our own fields
+
+  ## Modified Functions
+  - `resolve_statement_delivery`: with no recipients set, statements go to
+    AP and billing contacts before falling back to the customer's address
+
+  ## Security
+  - New `customer_contacts` permission: everyone views, create adds local
+    contacts, edit changes roles and flags, delete removes local contacts.
+    Contacts of customers outside a user's assignments follow
+    `customers_all`, like the customers themselves
+*/
+
+-- =========================================================================
+-- 1. Permission
+-- =========================================================================
+INSERT INTO system_permissions (permission_key, permission_name, category, description) VALUES
+('customer_contacts', 'Customer Contacts', 'Customer Management', 'View customer contacts; create adds local contacts, edit changes roles and contact preferences, delete removes local contacts')
+ON CONFLICT (permission_key) DO NOTHING;
+
+INSERT INTO role_permissions (role, permission_key, can_view, can_create, can_edit, can_delete) VALUES
+('admin', 'customer_contacts', true, true, true, true),
+('developer', 'customer_contacts', true, false, false, false),
+('manager', 'customer_contacts', true, true, true, true),
+('collector', 'customer_contacts', true, true, true, false),
+('secretary', 'customer_contacts', true, true, true, false),
+('viewer', 'customer_contacts', true, false, false, false),
+('user', 'customer_contacts', true, true, false, false)
+ON CONFLICT (role, permission_key) DO NOTHING;
+
+-- Existing custom roles inherit the new permission from their base role
+INSERT INTO role_permissions (role, permission_key, can_view, can_create, can_edit, can_delete)
+SELECT cr.role_key, rp.permission_key, rp.can_view, rp.can_create, rp.can_edit, rp.can_delete
+FROM custom_roles cr
+JOIN role_permissions rp
+  ON rp.role = cr.base_role
+ AND rp.permission_key = 'customer_contacts'
+ON CONFLICT (role, permission_key) DO NOTHING;
+
+-- =========================================================================
+-- 2. Tables
+-- =========================================================================
+CREATE TABLE IF NOT EXISTS customer_contacts (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  organization_id uuid NOT NULL DEFAULT get_user_org_id() REFERENCES organizations(id) ON DELETE CASCADE,
+  customer_id text NOT NULL,
+  source text NOT NULL DEFAULT 'local' CHECK (source IN ('acumatica', 'local')),
+  acumatica_contact_id text,
+  first_name text,
+  last_name text,
+  display_name text NOT NULL,
+  job_title text,
+  email text CHECK (email = lower(email)),
+  phone text,
+  mobile_phone text,
+  roles text[] NOT NULL DEFAULT '{}'
+    CHECK (roles <@ ARRAY['ap', 'billing', 'controller', 'owner', 'facility_admin']::text[]),
+  preferred_channel text NOT NULL DEFAULT 'email' CHECK (preferred_channel IN ('email', 'phone', 'sms')),
+  is_primary boolean NOT NULL DEFAULT false,
+  do_not_contact boolean NOT NULL DEFAULT false,
+  do_not_contact_reason text,
+  notes text,
+  is_active boolean NOT NULL DEFAULT true,
+  acumatica_last_modified timestamptz,
+  created_by uuid REFERENCES auth.users(id) ON DELETE SET NULL,
+  updated_by uuid REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now(),
+  UNIQUE (organization_id, acumatica_contact_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_customer_contacts_customer
+  ON customer_contacts(organization_id, customer_id);
+CREATE INDEX IF NOT EXISTS idx_customer_contacts_email
+  ON customer_contacts(email)
+  WHERE email IS NOT NULL;
+-- One primary contact per customer
+CREATE UNIQUE INDEX IF NOT EXISTS idx_customer_contacts_primary
+  ON customer_contacts(organization_id, customer_id)
+  WHERE is_primary;
+
+DROP TRIGGER IF EXISTS trg_customer_contacts_updated ON customer_contacts;
+CREATE TRIGGER trg_customer_contacts_updated
+  BEFORE UPDATE ON customer_contacts
+  FOR EACH ROW
+  EXECUTE FUNCTION update_customer_monthly_tracking_timestamp();
+
+ALTER TABLE inbound_emails
+  ADD COLUMN IF NOT EXISTS contact_id uuid REFERENCES customer_contacts(id) ON DELETE SET NULL;
+ALTER TABLE ticket_email_threads
+  ADD COLUMN IF NOT EXISTS contact_id uuid REFERENCES customer_contacts(id) ON DELETE SET NULL;
+ALTER TABLE customer_assignments
+  ADD COLUMN IF NOT EXISTS recipient_roles text[] NOT NULL DEFAULT '{}';
+
+ALTER TABLE sync_status DROP CONSTRAINT IF EXISTS sync_status_entity_type_check;
+ALTER TABLE sync_status ADD CONSTRAINT sync_status_entity_type_check
+  CHECK (entity_type IN ('customer', 'contact', 'invoice', 'payment', 'all'));
+
+INSERT INTO sync_status (entity_type, sync_enabled, sync_interval_minutes, lookback_minutes)
+SELECT 'contact', sync_enabled, sync_interval_minutes, lookback_minutes
+FROM sync_status
+WHERE entity_type = 'customer'
+ON CONFLICT (entity_type) DO NOTHING;
+
+-- =========================================================================
+-- 3. Row level security
+-- =========================================================================
+ALTER TABLE customer_contacts ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Org members can view customer contacts"
+  ON customer_contacts FOR SELECT
+  TO authenticated
+  USING (
+    organization_id = (SELECT get_user_org_id())
+    AND (SELECT has_permission('customer_contacts', 'view'))
+    AND (
+      (SELECT has_permission('customers_all', 'view'))
+      OR EXISTS (
+        SELECT 1 FROM collector_customer_assignments cca
+        WHERE cca.customer_id = customer_contacts.customer_id
+          AND cca.assigned_collector_id = auth.uid()
+      )
+    )
+  );
+
+CREATE POLICY "Users with permission can add local contacts"
+  ON customer_contacts FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    organization_id = (SELECT get_user_org_id())
+    AND source = 'local'
+    AND (SELECT has_permission('customer_contacts', 'create'))
+  );
+
+CREATE POLICY "Users with permission can update contacts"
+  ON customer_contacts FOR UPDATE
+  TO authenticated
+  USING (organization_id = (SELECT get_user_org_id()) AND (SELECT has_permission('customer_contacts', 'edit')))
+  WITH CHECK (organization_id = (SELECT get_user_org_id()) AND (SELECT has_permission('customer_contacts', 'edit')));
+
+-- Synced contacts come back on the next sync; deactivate them in Acumatica
+CREATE POLICY "Users with permission can delete local contacts"
+  ON customer_contacts FOR DELETE
+  TO authenticated
+  USING (
+    organization_id = (SELECT get_user_org_id())
+    AND source = 'local'
+    AND (SELECT has_permission('customer_contacts', 'delete'))
+  );
+
+-- =========================================================================
+-- 4. Functions
+-- =========================================================================
+CREATE OR REPLACE FUNCTION customer_contact_emails(p_organization_id uuid, p_customer_id text, p_roles text[])
+RETURNS text[]
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT COALESCE(array_agg(DISTINCT cc.email), '{}'::text[])
+  FROM customer_contacts cc
+  WHERE cc.organization_id = p_organization_id
+    AND cc.customer_id = p_customer_id
+    AND cc.is_active
+    AND NOT cc.do_not_contact
+    AND cc.email IS NOT NULL
+    AND cc.roles && p_roles;
+$$;
+
+CREATE OR REPLACE FUNCTION resolve_contact_by_email(p_email text)
+RETURNS TABLE (contact_id uuid, organization_id uuid, customer_id text, display_name text, do_not_contact boolean)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  -- An address shared by several contacts resolves to the active one
+  -- touched most recently
+  SELECT cc.id, cc.organization_id, cc.customer_id, cc.display_name, cc.do_not_contact
+  FROM customer_contacts cc
+  WHERE cc.email = lower(trim(p_email))
+  ORDER BY cc.is_active DESC, cc.updated_at DESC
+  LIMIT 1;
+$$;
+
+CREATE OR REPLACE FUNCTION upsert_acumatica_contacts(p_contacts jsonb)
+RETURNS TABLE (created integer, updated integer, skipped integer)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_created integer := 0;
+  v_updated integer := 0;
+  v_total integer := jsonb_array_length(p_contacts);
+BEGIN
+  WITH incoming AS (
+    SELECT
+      c.organization_id,
+      c.customer_id,
+      x.contact_id,
+      NULLIF(trim(x.first_name), '') AS first_name,
+      NULLIF(trim(x.last_name), '') AS last_name,
+      COALESCE(
+        NULLIF(trim(x.display_name), ''),
+        NULLIF(trim(concat_ws(' ', x.first_name, x.last_name)), ''),
+        NULLIF(lower(trim(x.email)), ''),
+        'Contact ' || x.contact_id
+      ) AS display_name,
+      NULLIF(trim(x.job_title), '') AS job_title,
+      NULLIF(lower(trim(x.email)), '') AS email,
+      NULLIF(trim(x.phone), '') AS phone,
+      NULLIF(trim(x.mobile_phone), '') AS mobile_phone,
+      COALESCE(x.is_active, true) AS is_active,
+      COALESCE(x.do_not_email, false) AS do_not_email,
+      x.last_modified
+    FROM jsonb_to_recordset(p_contacts) AS x(
+      contact_id text, business_account text, first_name text, last_name text,
+      display_name text, job_title text, email text, phone text, mobile_phone text,
+      is_active boolean, do_not_email boolean, last_modified timestamptz
+    )
+    -- Contacts of leads, vendors etc. have no customer here
+    JOIN acumatica_customers c ON c.customer_id = x.business_account
+    WHERE x.contact_id IS NOT NULL
+  ),
+  upserted AS (
+    INSERT INTO customer_contacts (
+      organization_id, customer_id, source, acumatica_contact_id,
+      first_name, last_name, display_name, job_title, email, phone, mobile_phone,
+      is_active, do_not_contact, do_not_contact_reason, acumatica_last_modified
+    )
+    SELECT
+      organization_id, customer_id, 'acumatica', contact_id,
+      first_name, last_name, display_name, job_title, email, phone, mobile_phone,
+      is_active, do_not_email, CASE WHEN do_not_email THEN 'Do not email in Acumatica' END, last_modified
+    FROM incoming
+    ON CONFLICT (organization_id, acumatica_contact_id) DO UPDATE
+    SET customer_id = EXCLUDED.customer_id,
+        first_name = EXCLUDED.first_name,
+        last_name = EXCLUDED.last_name,
+        display_name = EXCLUDED.display_name,
+        job_title = EXCLUDED.job_title,
+        email = EXCLUDED.email,
+        phone = EXCLUDED.phone,
+        mobile_phone = EXCLUDED.mobile_phone,
+        is_active = EXCLUDED.is_active,
+        acumatica_last_modified = EXCLUDED.acumatica_last_modified
+    RETURNING (xmax = 0) AS inserted
+  )
+  SELECT count(*) FILTER (WHERE inserted), count(*) FILTER (WHERE NOT inserted)
+  INTO v_created, v_updated
+  FROM upserted;
+
+  RETURN QUERY SELECT v_created, v_updated, v_total - v_created - v_updated;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION resolve_statement_delivery(p_organization_id uuid, p_customer_id text)
+RETURNS TABLE (recipients text[], cc text[], format text, skip_reason text)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  WITH pref AS (
+    SELECT p.*
+    FROM statement_delivery_preferences p
+    WHERE p.organization_id = p_organization_id AND p.customer_id = p_customer_id
+  ),
+  resolved AS (
+    SELECT
+      CASE
+        WHEN cardinality((SELECT recipients FROM pref)) > 0 THEN (SELECT recipients FROM pref)
+        WHEN cardinality(customer_contact_emails(p_organization_id, p_customer_id, ARRAY['ap', 'billing'])) > 0
+          THEN customer_contact_emails(p_organization_id, p_customer_id, ARRAY['ap', 'billing'])
+        ELSE array_remove(ARRAY[COALESCE(NULLIF(c.email_address, ''), NULLIF(c.billing_email, ''), NULLIF(c.general_email, ''))], NULL)
+      END AS recipients,
+      CASE
+        WHEN COALESCE((SELECT cc_collector FROM pref), false) THEN ARRAY(
+          SELECT DISTINCT up.email
+          FROM collector_customer_assignments cca
+          JOIN user_profiles up ON up.id = cca.assigned_collector_id
+          WHERE cca.customer_id = p_customer_id AND NULLIF(up.email, '') IS NOT NULL
+        )
+        ELSE '{}'::text[]
+      END AS cc,
+      COALESCE((SELECT format FROM pref), 'excel') AS format,
+      COALESCE((SELECT opted_out FROM pref), false) AS opted_out,
+      (SELECT opt_out_reason FROM pref) AS opt_out_reason
+    FROM acumatica_customers c
+    WHERE c.organization_id = p_organization_id AND c.customer_id = p_customer_id
+  )
+  SELECT
+    r.recipients,
+    r.cc,
+    r.format,
+    CASE
+      WHEN r.opted_out THEN 'Opted out' || COALESCE(': ' || NULLIF(r.opt_out_reason, ''), '')
+      WHEN cardinality(r.recipients) = 0 THEN 'No email address'
+    END
+  FROM resolved r;
+$$;
+
+REVOKE ALL ON FUNCTION resolve_contact_by_email(text) FROM PUBLIC, anon, authenticated;
+REVOKE ALL ON FUNCTION upsert_acumatica_contacts(jsonb) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION resolve_contact_by_email(text) TO service_role;
+GRANT EXECUTE ON FUNCTION upsert_acumatica_contacts(jsonb) TO service_role;